@@ -1,5 +1,6 @@
 import {
 	ABTEST_STATUSES,
+	type AbTestConversionEventOperationInput,
 	type CreateAbTestInput,
 	type AnalyzeAbTestOperationOutput,
 	type CreateAbTestOperationOutput,
@@ -11,6 +12,7 @@ import {
 	type ListAbTestsOperationOutput,
 	type ReconcileAbTestOperationOutput,
 	type RecommendAbTestSampleSizeOperationOutput,
+	type RecordAbTestConversionsOperationOutput,
 	type RunAbTestOperationOutput,
 	type StopAbTestOperationOutput,
 	type TickAbTestsOperationOutput,
@@ -24,6 +26,7 @@ import {
 	invokeListAbTestsOperation,
 	invokeReconcileAbTestOperation,
 	invokeRecommendAbTestSampleSizeOperation,
+	invokeRecordAbTestConversionsOperation,
 	invokeRunAbTestOperation,
 	invokeStopAbTestOperation,
 	invokeTickAbTestsOperation,
@@ -34,8 +37,11 @@ import { getOutput } from "../lib/output";
 import { z } from "zod";
 import { defineCommand, defineGroup, option } from "../lib/command";
 import {
+	inferRecordFileFormat,
 	parseCsvNumbers,
 	parseJson,
+	parseRecordFile,
+	type RecordFileFormat,
 	toErrorMessage,
 } from "../lib/command-utils";
 import { getListmonkClient } from "../lib/listmonk";
@@ -178,11 +184,15 @@ export function buildCreateInputFromFlags(flags: {
 	lists: string;
 	subject?: string;
 	body?: string;
-	"testing-mode"?: "holdout" | "full-split";
+	"testing-mode"?: "holdout" | "full-split" | "bandit";
 	"test-group-percentage"?: number;
 	"auto-deploy-winner": boolean;
 	"ignore-sample-size-warnings": boolean;
 	"enable-stratification"?: boolean;
+	"enable-bayesian-analysis"?: boolean;
+	"bandit-metric"?: "click_rate" | "conversion_rate";
+	"bandit-waves"?: number;
+	"bandit-wave-interval-hours"?: number;
 	hypothesis?: string;
 }): CreateAbTestInput {
 	const parsedVariants = parseJson<VariantInput[]>(flags.variants, "variants");
@@ -194,7 +204,17 @@ export function buildCreateInputFromFlags(flags: {
 	const lists = parseCsvNumbers(flags.lists);
 	const testingMode = flags["testing-mode"] ?? "holdout";
 	const testGroupPercentage =
-		flags["test-group-percentage"] ?? (testingMode === "holdout" ? 10 : 100);
+		flags["test-group-percentage"] ?? (testingMode === "full-split" ? 100 : 10);
+	const bandit =
+		flags["bandit-metric"] !== undefined ||
+		flags["bandit-waves"] !== undefined ||
+		flags["bandit-wave-interval-hours"] !== undefined
+			? {
+					metric: flags["bandit-metric"],
+					wave_count: flags["bandit-waves"],
+					wave_interval_hours: flags["bandit-wave-interval-hours"],
+				}
+			: undefined;
 	const baseSubject = flags.subject?.trim() ?? "";
 	const baseBody = flags.body?.trim() ?? "";
 
@@ -236,10 +256,74 @@ export function buildCreateInputFromFlags(flags: {
 		auto_deploy_winner: flags["auto-deploy-winner"],
 		ignore_sample_size_warnings: flags["ignore-sample-size-warnings"],
 		enable_stratification: flags["enable-stratification"] ?? undefined,
+		enable_bayesian_analysis: flags["enable-bayesian-analysis"] ?? undefined,
+		bandit,
 		hypothesis,
 	};
 }
 
+const MAX_CONVERSION_IMPORT_BYTES = 64 * 1024 * 1024;
+const CONVERSION_RECORD_BATCH_SIZE = 1000;
+const CONVERSION_IMPORT_COLUMNS = [
+	"event_id",
+	"test_id",
+	"variant_id",
+	"subscriber_uuid",
+	"event",
+	"occurred_at",
+	"value",
+	"currency",
+] as const;
+
+export type ConversionImportFormat = RecordFileFormat;
+
+export function inferConversionImportFormat(
+	path: string,
+	format: ConversionImportFormat | undefined,
+): ConversionImportFormat {
+	return inferRecordFileFormat(path, format, "conversion");
+}
+
+function conversionEventFromRecord(
+	record: Readonly<Record<string, unknown>>,
+): AbTestConversionEventOperationInput {
+	const text = (key: string) => {
+		const value = record[key];
+		return value === undefined || value === null || value === ""
+			? undefined
+			: String(value);
+	};
+	// Leave field validation to the shared operation schema so CLI, MCP, and
+	// HTTP ingest reject malformed events with the same messages.
+	return {
+		event_id: text("event_id") ?? "",
+		test_id: text("test_id") ?? "",
+		variant_id: text("variant_id") ?? "",
+		subscriber_uuid: text("subscriber_uuid") ?? "",
+		event: text("event") ?? "",
+		occurred_at: text("occurred_at") ?? "",
+		value: record["value"],
+		currency: text("currency"),
+	};
+}
+
+/**
+ * Parse a conversion export into operation events. CSV files need a header
+ * row naming the event columns; NDJSON files hold one event object per line.
+ * Blank lines are skipped in both formats.
+ */
+export function parseConversionImport(
+	content: string,
+	format: ConversionImportFormat,
+): AbTestConversionEventOperationInput[] {
+	return parseRecordFile(content, format, {
+		label: "conversion",
+		isKnownColumn: (column) =>
+			(CONVERSION_IMPORT_COLUMNS as readonly string[]).includes(column),
+		expectedColumns: CONVERSION_IMPORT_COLUMNS.join(", "),
+	}).map(conversionEventFromRecord);
+}
+
 type CliAbTestArgs = Parameters<typeof getListmonkClient>[0];
 
 async function invokeCliListAbTests(
@@ -346,6 +430,157 @@ async function invokeCliExportAbTestAssignment(
 	return invokeExportAbTestAssignmentOperation({ client }, input);
 }
 
+async function invokeCliRecordAbTestConversions(
+	args: CliAbTestArgs,
+	input: unknown,
+): Promise<RecordAbTestConversionsOperationOutput> {
+	const client = await getListmonkClient(args);
+	return invokeRecordAbTestConversionsOperation({ client }, input);
+}
+
+async function importCliAbTestConversions(
+	args: CliAbTestArgs,
+	events: readonly AbTestConversionEventOperationInput[],
+): Promise<RecordAbTestConversionsOperationOutput> {
+	const total: RecordAbTestConversionsOperationOutput = {
+		recorded: 0,
+		duplicates: 0,
+		rejected: 0,
+		results: [],
+	};
+	// Batches commit independently; re-running the same file after a failure
+	// reports already-recorded rows as duplicates.
+	for (
+		let offset = 0;
+		offset < events.length;
+		offset += CONVERSION_RECORD_BATCH_SIZE
+	) {
+		const batch = await invokeCliRecordAbTestConversions(args, {
+			events: events.slice(offset, offset + CONVERSION_RECORD_BATCH_SIZE),
+		});
+		total.recorded += batch.recorded;
+		total.duplicates += batch.duplicates;
+		total.rejected += batch.rejected;
+		total.results.push(...batch.results);
+	}
+	return total;
+}
+
+const recordConversionCommand = defineCommand({
+	name: "record",
+	operationId: "abtest.conversion.record",
+	description: "Record one conversion attributed to an A/B test variant",
+	options: {
+		"event-id": option(z.string().trim().min(1).max(200), {
+			description: "Caller-stable event ID used for idempotency",
+		}),
+		"test-id": option(z.string().trim().min(1), {
+			description: "A/B test ID",
+		}),
+		"variant-id": option(z.string().trim().min(1), {
+			description: "Variant the subscriber received",
+		}),
+		"subscriber-uuid": option(z.string().trim().min(1), {
+			description: "Listmonk subscriber UUID",
+		}),
+		event: option(z.string().trim().min(1).default("purchase"), {
+			description: "Event name",
+		}),
+		"occurred-at": option(z.iso.datetime({ offset: true }).optional(), {
+			description: "ISO timestamp of the conversion (defaults to now)",
+		}),
+		value: option(z.coerce.number().finite().min(0).optional(), {
+			description: "Monetary value",
+		}),
+		currency: option(z.string().trim().optional(), {
+			description: "ISO 4217 currency code (required with --value)",
+		}),
+	},
+	handler: async ({ flags, ...args }) => {
+		try {
+			const result = await invokeCliRecordAbTestConversions(args, {
+				events: [
+					{
+						event_id: flags["event-id"],
+						test_id: flags["test-id"],
+						variant_id: flags["variant-id"],
+						subscriber_uuid: flags["subscriber-uuid"],
+						event: flags.event,
+						occurred_at: flags["occurred-at"] ?? new Date().toISOString(),
+						value: flags.value,
+						currency: flags.currency,
+					},
+				],
+			});
+			const [outcome] = result.results;
+			if (outcome?.status === "rejected") {
+				throw new Error(outcome.reason ?? "conversion rejected");
+			}
+			getOutput().success(
+				outcome?.status === "duplicate"
+					? `Conversion already recorded: ${flags["event-id"]}`
+					: `Conversion recorded: ${flags["event-id"]}`,
+			);
+			getOutput().json(result);
+			return result;
+		} catch (error) {
+			throw new Error(
+				`Failed to record conversion: ${toErrorMessage(error)}`,
+			);
+		}
+	},
+});
+
+const importConversionsCommand = defineCommand({
+	name: "import",
+	operationId: "abtest.conversion.record",
+	description: "Import conversions from a CSV or NDJSON file",
+	options: {
+		file: option(z.string().trim().min(1), {
+			description:
+				"CSV (with a header row) or NDJSON file of conversion events",
+			fileType: "path",
+		}),
+		format: option(z.enum(["csv", "ndjson"]).optional(), {
+			description: "File format (inferred from .csv, .ndjson, or .jsonl)",
+		}),
+	},
+	handler: async ({ flags, ...args }) => {
+		try {
+			const format = inferConversionImportFormat(flags.file, flags.format);
+			const file = Bun.file(flags.file);
+			if (!(await file.exists())) {
+				throw new Error(`File not found: ${flags.file}`);
+			}
+			if (file.size > MAX_CONVERSION_IMPORT_BYTES) {
+				throw new Error(
+					`Conversion file exceeds the ${MAX_CONVERSION_IMPORT_BYTES}-byte limit`,
+				);
+			}
+			const events = parseConversionImport(await file.text(), format);
+			if (events.length === 0) {
+				throw new Error("Conversion file contains no events");
+			}
+			const result = await importCliAbTestConversions(args, events);
+			getOutput().success(
+				`Imported ${events.length} conversion(s): ${result.recorded} recorded, ${result.duplicates} duplicate, ${result.rejected} rejected`,
+			);
+			getOutput().json(result);
+			return result;
+		} catch (error) {
+			throw new Error(
+				`Failed to import conversions: ${toErrorMessage(error)}`,
+			);
+		}
+	},
+});
+
+const conversionsGroup = defineGroup({
+	name: "conversions",
+	description: "Record conversions for A/B test attribution",
+	commands: [recordConversionCommand, importConversionsCommand],
+});
+
 async function promptInteractiveInput(
 	clack: typeof import("@clack/prompts"),
 ): Promise<{ input: CreateAbTestInput; autoLaunch: boolean }> {
@@ -461,11 +696,14 @@ async function promptInteractiveInput(
 		throw new Error("Prompt cancelled by user");
 	}
 
-	const testingModeResult = await clack.select<"holdout" | "full-split">({
+	const testingModeResult = await clack.select<
+		"holdout" | "full-split" | "bandit"
+	>({
 		message: "Testing mode",
 		options: [
 			{ label: "Holdout", value: "holdout" },
 			{ label: "Full split", value: "full-split" },
+			{ label: "Bandit (holdout sent in reallocated waves)", value: "bandit" },
 		],
 		initialValue: "holdout",
 	});
@@ -474,7 +712,7 @@ async function promptInteractiveInput(
 		throw new Error("Prompt cancelled by user");
 	}
 
-	const testGroupDefault = testingModeResult === "holdout" ? "10" : "100";
+	const testGroupDefault = testingModeResult === "full-split" ? "100" : "10";
 	const testGroupResult = await clack.text({
 		message: "Test group percentage",
 		defaultValue: testGroupDefault,
@@ -499,10 +737,14 @@ async function promptInteractiveInput(
 		throw new Error("Prompt cancelled by user");
 	}
 
-	const autoDeployResult = await clack.confirm({
-		message: "Auto-deploy winner when significant?",
-		initialValue: false,
-	});
+	// Bandit tests send the holdout in waves instead of deploying a winner.
+	const autoDeployResult =
+		testingModeResult === "bandit"
+			? false
+			: await clack.confirm({
+					message: "Auto-deploy winner when significant?",
+					initialValue: false,
+				});
 	if (clack.isCancel(autoDeployResult)) {
 		clack.cancel("Cancelled");
 		throw new Error("Prompt cancelled by user");
@@ -527,6 +769,16 @@ async function promptInteractiveInput(
 		throw new Error("Prompt cancelled by user");
 	}
 
+	const bayesianResult = await clack.confirm({
+		message:
+			"Add Bayesian probability-to-beat-control and credible intervals to reports?",
+		initialValue: false,
+	});
+	if (clack.isCancel(bayesianResult)) {
+		clack.cancel("Cancelled");
+		throw new Error("Prompt cancelled by user");
+	}
+
 	// Optional pre-registration hypothesis as a JSON document. Empty input
 	// skips it; the shared service locks whatever is provided.
 	const hypothesisResult = await clack.text({
@@ -552,6 +804,7 @@ async function promptInteractiveInput(
 		"auto-deploy-winner": autoDeployResult,
 		"ignore-sample-size-warnings": ignoreWarningsResult,
 		"enable-stratification": stratifyResult,
+		"enable-bayesian-analysis": bayesianResult,
 		hypothesis:
 			hypothesisResult.trim().length > 0 ? hypothesisResult.trim() : undefined,
 	});
@@ -608,6 +861,8 @@ async function promptInteractiveInput(
 				testGroupPercentage: input.test_group_percentage,
 				autoDeployWinner: input.auto_deploy_winner,
 				enableStratification: input.enable_stratification ?? false,
+				enableBayesianAnalysis: input.enable_bayesian_analysis ?? false,
+				bandit: input.bandit,
 				hypothesis: input.hypothesis
 					? {
 							objective: input.hypothesis.objective,
@@ -742,9 +997,12 @@ export default defineGroup({
 				body: option(z.string().optional(), {
 					description: "Base body",
 				}),
-				"testing-mode": option(z.enum(["holdout", "full-split"]).optional(), {
-					description: "Testing mode",
-				}),
+				"testing-mode": option(
+					z.enum(["holdout", "full-split", "bandit"]).optional(),
+					{
+						description: "Testing mode",
+					},
+				),
 				"test-group-percentage": option(
 					z.coerce.number().min(1).max(100).optional(),
 					{
@@ -767,6 +1025,32 @@ export default defineGroup({
 					description:
 						"Enable recipient-domain stratification during holdout provisioning",
 				}),
+				"enable-bayesian-analysis": option(
+					z.coerce.boolean().default(false),
+					{
+						description:
+							"Add Bayesian posterior summaries to experiment reports",
+					},
+				),
+				"bandit-metric": option(
+					z.enum(["click_rate", "conversion_rate"]).optional(),
+					{
+						description:
+							"Metric bandit waves are reallocated on (testing-mode bandit)",
+					},
+				),
+				"bandit-waves": option(
+					z.coerce.number().int().positive().max(20).optional(),
+					{
+						description: "Number of waves the holdout is sent in (default 4)",
+					},
+				),
+				"bandit-wave-interval-hours": option(
+					z.coerce.number().positive().optional(),
+					{
+						description: "Hours between bandit waves (default 24)",
+					},
+				),
 				hypothesis: option(z.string().optional(), {
 					description:
 						"Pre-registration hypothesis as JSON (objective, primary_metric, expected_lift, owner, experiment_scope)",
@@ -1115,5 +1399,6 @@ export default defineGroup({
 				}
 			},
 		}),
+		conversionsGroup,
 	],
 });
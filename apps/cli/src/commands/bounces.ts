@@ -0,0 +1,343 @@
+import type { OutputUtils } from "@listmonk-ops/common";
+import { getOutput } from "../lib/output";
+import type { ListmonkClient } from "@listmonk-ops/openapi";
+import {
+	type BouncePurgeInput,
+	invokeDeleteBounceOperation,
+	invokeGetBounceOperation,
+	invokeListBouncesOperation,
+	invokePurgeBouncesOperation,
+	invokeSummarizeBouncesOperation,
+	OperationExecutionError,
+} from "@listmonk-ops/operations";
+import { z } from "zod";
+import {
+	defineCommand,
+	defineGroup,
+	type HandlerArgs,
+	option,
+} from "../lib/command";
+import { parseCsvNumbersStrict, toErrorMessage } from "../lib/command-utils";
+import { getListmonkClient } from "../lib/listmonk";
+
+type BouncesOutput = Pick<
+	typeof OutputUtils,
+	"info" | "json" | "success" | "table"
+>;
+
+export interface BouncesCliContext {
+	client: Pick<ListmonkClient, "bounce" | "campaign">;
+	output: BouncesOutput;
+}
+
+export interface ListBouncesInput {
+	page?: number;
+	per_page?: number;
+	campaign_id?: number;
+	source?: string;
+}
+
+export interface SummarizeBouncesInput {
+	campaign_id?: number;
+	source?: string;
+	max_bounces?: number;
+	max_groups?: number;
+}
+
+export function createBounceCommandError(
+	context: string,
+	error: unknown,
+): Error {
+	if (error instanceof OperationExecutionError) return error;
+	return new Error(`${context}: ${toErrorMessage(error)}`, { cause: error });
+}
+
+export async function renderBounces(
+	context: BouncesCliContext,
+	input: ListBouncesInput,
+): Promise<void> {
+	const page = await invokeListBouncesOperation(context, input);
+	if (page.results.length === 0) {
+		context.output.info("No bounces found");
+		return;
+	}
+	context.output.table(
+		page.results.map((bounce) => ({
+			id: bounce.id,
+			type: bounce.type,
+			email: bounce.email,
+			campaign: bounce.campaign?.name,
+			source: bounce.source,
+			created_at: bounce.created_at,
+		})),
+	);
+}
+
+export async function renderBounce(
+	context: BouncesCliContext,
+	input: { id: number },
+): Promise<void> {
+	context.output.json(await invokeGetBounceOperation(context, input));
+}
+
+export async function renderDeleteBounce(
+	context: BouncesCliContext,
+	input: { id: number },
+): Promise<void> {
+	const result = await invokeDeleteBounceOperation(context, input);
+	context.output.success(`Bounce deleted: ${input.id}`);
+	context.output.json(result);
+}
+
+export async function renderPurgeBounces(
+	context: BouncesCliContext,
+	input: BouncePurgeInput,
+): Promise<void> {
+	const result = await invokePurgeBouncesOperation(context, input);
+	if (result.dry_run) {
+		context.output.info(
+			`Dry run: ${result.bounce_count} bounces would be deleted`,
+		);
+	} else {
+		context.output.success(`Bounces deleted: ${result.bounce_count}`);
+	}
+	context.output.json(result);
+}
+
+export async function renderBounceSummary(
+	context: BouncesCliContext,
+	input: SummarizeBouncesInput,
+): Promise<void> {
+	const summary = await invokeSummarizeBouncesOperation(context, input);
+	const { soft, hard, complaint, other } = summary.types;
+	context.output.success(
+		`Scanned ${summary.scanned} of ${summary.total} bounces: ${soft} soft, ${hard} hard, ${complaint} complaint, ${other} other`,
+	);
+	if (summary.truncated) {
+		context.output.info(
+			"Summary is truncated; raise --max-bounces to scan more records",
+		);
+	}
+	if (summary.campaigns.length > 0) {
+		context.output.table(
+			summary.campaigns.map((campaign) => ({
+				campaign_id: campaign.campaign_id ?? "-",
+				campaign: campaign.campaign_name ?? "(none)",
+				bounces: campaign.bounces,
+				soft: campaign.soft,
+				hard: campaign.hard,
+				complaint: campaign.complaint,
+				sent: campaign.sent ?? "-",
+				bounce_rate:
+					campaign.bounce_rate === undefined
+						? "-"
+						: `${(campaign.bounce_rate * 100).toFixed(2)}%`,
+			})),
+		);
+	}
+	if (summary.domains.length > 0) {
+		context.output.table(
+			summary.domains.map(({ domain, bounces, soft, hard, complaint }) => ({
+				domain,
+				bounces,
+				soft,
+				hard,
+				complaint,
+			})),
+		);
+	}
+}
+
+type ListBouncesCommandFlags = {
+	page?: number;
+	"per-page"?: number;
+	"campaign-id"?: number;
+	source?: string;
+};
+
+export async function handleListBouncesCommand({
+	flags,
+	...args
+}: HandlerArgs<ListBouncesCommandFlags>): Promise<void> {
+	try {
+		const client = await getListmonkClient(args);
+		await renderBounces(
+			{ client, output: getOutput() },
+			{
+				page: flags.page,
+				per_page: flags["per-page"],
+				campaign_id: flags["campaign-id"],
+				source: flags.source,
+			},
+		);
+	} catch (error) {
+		throw createBounceCommandError("Failed to list bounces", error);
+	}
+}
+
+export async function handleGetBounceCommand({
+	flags,
+	...args
+}: HandlerArgs<{ id: number }>): Promise<void> {
+	try {
+		const client = await getListmonkClient(args);
+		await renderBounce({ client, output: getOutput() }, { id: flags.id });
+	} catch (error) {
+		throw createBounceCommandError("Failed to get bounce", error);
+	}
+}
+
+export async function handleDeleteBounceCommand({
+	flags,
+	...args
+}: HandlerArgs<{ id: number }>): Promise<void> {
+	try {
+		const client = await getListmonkClient(args);
+		await renderDeleteBounce({ client, output: getOutput() }, { id: flags.id });
+	} catch (error) {
+		throw createBounceCommandError("Failed to delete bounce", error);
+	}
+}
+
+type PurgeBouncesCommandFlags = {
+	ids?: string;
+	all: boolean;
+	"dry-run": boolean;
+};
+
+export async function handlePurgeBouncesCommand({
+	flags,
+	...args
+}: HandlerArgs<PurgeBouncesCommandFlags>): Promise<void> {
+	try {
+		if (flags.all === (flags.ids !== undefined)) {
+			throw new Error("Provide exactly one of --ids or --all");
+		}
+		const client = await getListmonkClient(args);
+		await renderPurgeBounces(
+			{ client, output: getOutput() },
+			flags.ids === undefined
+				? { all: true, dry_run: flags["dry-run"] }
+				: {
+						ids: parseCsvNumbersStrict(flags.ids, "bounce IDs"),
+						dry_run: flags["dry-run"],
+					},
+		);
+	} catch (error) {
+		throw createBounceCommandError("Failed to purge bounces", error);
+	}
+}
+
+type SummarizeBouncesCommandFlags = {
+	"campaign-id"?: number;
+	source?: string;
+	"max-bounces"?: number;
+	"max-groups"?: number;
+};
+
+export async function handleSummarizeBouncesCommand({
+	flags,
+	...args
+}: HandlerArgs<SummarizeBouncesCommandFlags>): Promise<void> {
+	try {
+		const client = await getListmonkClient(args);
+		await renderBounceSummary(
+			{ client, output: getOutput() },
+			{
+				campaign_id: flags["campaign-id"],
+				source: flags.source,
+				max_bounces: flags["max-bounces"],
+				max_groups: flags["max-groups"],
+			},
+		);
+	} catch (error) {
+		throw createBounceCommandError("Failed to summarize bounces", error);
+	}
+}
+
+export default defineGroup({
+	name: "bounces",
+	description: "Inspect, triage, and purge bounce records",
+	commands: [
+		defineCommand({
+			name: "list",
+			operationId: "bounces.list",
+			description: "List bounce records",
+			options: {
+				page: option(z.coerce.number().int().positive().optional(), {
+					description: "Page number",
+				}),
+				"per-page": option(z.coerce.number().int().positive().optional(), {
+					description: "Items per page",
+				}),
+				"campaign-id": option(z.coerce.number().int().positive().optional(), {
+					description: "Filter by campaign ID",
+				}),
+				source: option(z.string().trim().min(1).optional(), {
+					description: "Filter by bounce source",
+				}),
+			},
+			handler: handleListBouncesCommand,
+		}),
+		defineCommand({
+			name: "get",
+			operationId: "bounces.get",
+			description: "Get a bounce record",
+			options: {
+				id: option(z.coerce.number().int().positive(), {
+					description: "Bounce ID",
+				}),
+			},
+			handler: handleGetBounceCommand,
+		}),
+		defineCommand({
+			name: "delete",
+			operationId: "bounces.delete",
+			description: "Delete a bounce record",
+			options: {
+				id: option(z.coerce.number().int().positive(), {
+					description: "Bounce ID",
+				}),
+			},
+			handler: handleDeleteBounceCommand,
+		}),
+		defineCommand({
+			name: "purge",
+			operationId: "bounces.purge",
+			description: "Delete bounce records by ID or all of them",
+			options: {
+				ids: option(z.string().trim().min(1).optional(), {
+					description: "Comma-separated bounce IDs",
+				}),
+				all: option(z.boolean().default(false), {
+					description: "Purge every bounce record",
+				}),
+				"dry-run": option(z.boolean().default(true), {
+					description: "Report the purge without deleting bounces",
+				}),
+			},
+			handler: handlePurgeBouncesCommand,
+		}),
+		defineCommand({
+			name: "summary",
+			operationId: "bounces.summary",
+			description:
+				"Summarize bounces by type, campaign bounce rate, and recipient domain",
+			options: {
+				"campaign-id": option(z.coerce.number().int().positive().optional(), {
+					description: "Only summarize bounces for this campaign",
+				}),
+				source: option(z.string().trim().min(1).optional(), {
+					description: "Only summarize bounces from this source",
+				}),
+				"max-bounces": option(z.coerce.number().int().positive().optional(), {
+					description: "Maximum bounce records to scan (default 10000)",
+				}),
+				"max-groups": option(z.coerce.number().int().positive().optional(), {
+					description: "Campaign and domain groups to show (default 20)",
+				}),
+			},
+			handler: handleSummarizeBouncesCommand,
+		}),
+	],
+});
@@ -1,19 +1,29 @@
+import {
+	getSeedRecipientPolicyFromEnvironment,
+	validateSeedRecipients,
+} from "@listmonk-ops/abtest";
 import type { OutputUtils } from "@listmonk-ops/common";
 import { getOutput } from "../lib/output";
 import type { ListmonkClient } from "@listmonk-ops/openapi";
 import {
+	type CampaignAnalyticsOutput,
+	type CampaignOperationContext,
 	invokeCancelCampaignOperation,
 	invokeCloneCampaignOperation,
 	invokeCreateCampaignOperation,
 	invokeDeleteCampaignOperation,
+	invokeGetCampaignAnalyticsOperation,
 	invokeGetCampaignOperation,
 	invokeGetCampaignsOperation,
 	invokeGetCampaignStatsOperation,
 	invokePauseCampaignOperation,
+	invokePreviewCampaignOperation,
 	invokeScheduleCampaignOperation,
 	invokeStartCampaignOperation,
+	invokeTestSendCampaignOperation,
 	invokeUpdateCampaignOperation,
 	OperationExecutionError,
+	toCsvField,
 } from "@listmonk-ops/operations";
 import { z } from "zod";
 import {
@@ -26,12 +36,13 @@ import {
 	parseCsvNumbers,
 	parseJson,
 	toErrorMessage,
+	writeTextFile,
 } from "../lib/command-utils";
 import { getListmonkClient } from "../lib/listmonk";
 
 type CampaignsOutput = Pick<
 	typeof OutputUtils,
-	"info" | "json" | "success" | "table"
+	"info" | "json" | "raw" | "success" | "table"
 >;
 
 export interface CampaignsCliContext {
@@ -211,6 +222,119 @@ export async function renderGetCampaignStats(
 	context.output.json(stats);
 }
 
+export interface CampaignAnalyticsInput {
+	id: number;
+	from?: string;
+	to?: string;
+	bucket?: "hour" | "day" | "week";
+	top_links?: number;
+}
+
+export type CampaignAnalyticsExportFormat = "csv" | "json";
+
+/**
+ * Flatten an analytics report into one long-format CSV table: a row per
+ * bucket and metric, then a `link` row per top link.
+ */
+export function formatCampaignAnalyticsCsv(
+	analytics: CampaignAnalyticsOutput,
+): string {
+	const rows: (string | number)[][] = [["metric", "start", "url", "count"]];
+	for (const entry of analytics.series) {
+		for (const metric of ["views", "clicks", "bounces"] as const) {
+			rows.push([metric, entry.start, "", entry[metric]]);
+		}
+	}
+	for (const link of analytics.top_links) {
+		rows.push(["link", "", link.url, link.count]);
+	}
+	return `${rows.map((row) => row.map(toCsvField).join(",")).join("\n")}\n`;
+}
+
+/**
+ * Print the analytics report, or export it as CSV or JSON to stdout or to
+ * `output` when either export option is set.
+ */
+export async function renderCampaignAnalytics(
+	context: Omit<CampaignsCliContext, "client"> & {
+		client: Pick<ListmonkClient, "campaign" | "settings">;
+	},
+	input: CampaignAnalyticsInput,
+	exportOptions: {
+		format?: CampaignAnalyticsExportFormat;
+		output?: string;
+	} = {},
+): Promise<void> {
+	const analytics = await invokeGetCampaignAnalyticsOperation(context, input);
+	if (exportOptions.format === undefined && exportOptions.output === undefined) {
+		context.output.success(`Campaign ${input.id} analytics`);
+		context.output.json(analytics);
+		return;
+	}
+
+	const content =
+		exportOptions.format === "csv"
+			? formatCampaignAnalyticsCsv(analytics)
+			: `${JSON.stringify(analytics, null, 2)}\n`;
+	if (exportOptions.output === undefined) {
+		context.output.raw(content);
+		return;
+	}
+	await writeTextFile(exportOptions.output, content);
+	context.output.success(
+		`Campaign ${input.id} analytics written to ${exportOptions.output}`,
+	);
+}
+
+export interface CampaignPreviewInput {
+	id: number;
+	subscriber_id?: number;
+}
+
+export type CampaignPreviewFormat = "html" | "text";
+
+/**
+ * Print both rendered previews, or write one of them as-is to stdout or to
+ * `output` when a format or output path is set. Files default to HTML.
+ */
+export async function renderCampaignPreview(
+	context: Omit<CampaignsCliContext, "client"> & {
+		client: Pick<ListmonkClient, "campaign" | "subscriber">;
+	},
+	input: CampaignPreviewInput,
+	exportOptions: { format?: CampaignPreviewFormat; output?: string } = {},
+): Promise<void> {
+	const preview = await invokePreviewCampaignOperation(context, input);
+	if (exportOptions.format === undefined && exportOptions.output === undefined) {
+		context.output.success(`Campaign ${input.id} preview`);
+		context.output.json(preview);
+		return;
+	}
+
+	const content = exportOptions.format === "text" ? preview.text : preview.html;
+	if (exportOptions.output === undefined) {
+		context.output.raw(content);
+		return;
+	}
+	await writeTextFile(exportOptions.output, content);
+	context.output.success(
+		`Campaign ${input.id} preview written to ${exportOptions.output}`,
+	);
+}
+
+export async function renderCampaignTestSend(
+	context: CampaignsCliContext &
+		Pick<CampaignOperationContext, "validateSeedRecipients">,
+	input: { id: number; emails: string[] },
+) {
+	const result = await invokeTestSendCampaignOperation(context, input);
+	context.output.success(
+		`Campaign ${input.id} test sent to ${result.recipient_count} seed recipient(s)`,
+	);
+	context.output.json(result);
+	return result;
+}
+
 type ListCommandFlags = {
 	page?: number;
 	"per-page"?: number;
@@ -528,6 +652,78 @@ export async function handleGetCampaignStatsCommand({
 	}
 }
 
+export async function handleCampaignAnalyticsCommand({
+	flags,
+	...args
+}: HandlerArgs<{
+	id: number;
+	from?: string;
+	to?: string;
+	bucket: "hour" | "day" | "week";
+	"top-links": number;
+	export?: CampaignAnalyticsExportFormat;
+	output?: string;
+}>): Promise<void> {
+	try {
+		const client = await getListmonkClient(args);
+		await renderCampaignAnalytics(
+			{ client, output: getOutput() },
+			{
+				id: flags.id,
+				from: flags.from,
+				to: flags.to,
+				bucket: flags.bucket,
+				top_links: flags["top-links"],
+			},
+			{ format: flags.export, output: flags.output },
+		);
+	} catch (error) {
+		throw createCampaignCommandError("Failed to read campaign analytics", error);
+	}
+}
+
+export async function handleCampaignPreviewCommand({
+	flags,
+	...args
+}: HandlerArgs<{
+	id: number;
+	"subscriber-id"?: number;
+	format?: CampaignPreviewFormat;
+	output?: string;
+}>): Promise<void> {
+	try {
+		const client = await getListmonkClient(args);
+		await renderCampaignPreview(
+			{ client, output: getOutput() },
+			{ id: flags.id, subscriber_id: flags["subscriber-id"] },
+			{ format: flags.format, output: flags.output },
+		);
+	} catch (error) {
+		throw createCampaignCommandError("Failed to preview campaign", error);
+	}
+}
+
+export async function handleCampaignTestSendCommand({
+	flags,
+	...args
+}: HandlerArgs<{ id: number; to: string }>) {
+	try {
+		const client = await getListmonkClient(args);
+		const policy = getSeedRecipientPolicyFromEnvironment();
+		return await renderCampaignTestSend(
+			{
+				client,
+				output: getOutput(),
+				validateSeedRecipients: (emails) =>
+					validateSeedRecipients(emails, policy),
+			},
+			{ id: flags.id, emails: parseCsvStrings(flags.to) ?? [] },
+		);
+	} catch (error) {
+		throw createCampaignCommandError("Failed to send campaign test", error);
+	}
+}
+
 const campaignTypeOption = z.enum(["regular", "optin"]).default("regular");
 const contentTypeOption = z
 	.enum(["richtext", "html", "markdown", "plain", "visual"])
@@ -821,5 +1017,72 @@ export default defineGroup({
 			},
 			handler: handleGetCampaignStatsCommand,
 		}),
+		defineCommand({
+			name: "analytics",
+			operationId: "campaigns.analytics",
+			description:
+				"Report views, clicks, bounces, and top links for a campaign",
+			options: {
+				id: option(z.coerce.number().int().positive(), {
+					description: "Campaign ID",
+				}),
+				from: option(z.string().trim().min(1).optional(), {
+					description: "Range start (ISO 8601); defaults to the campaign start",
+				}),
+				to: option(z.string().trim().min(1).optional(), {
+					description: "Range end (ISO 8601); defaults to now",
+				}),
+				bucket: option(z.enum(["hour", "day", "week"]).default("day"), {
+					description: "Series bucket; hour needs a range under 7 days",
+				}),
+				"top-links": option(
+					z.coerce.number().int().min(1).max(50).default(10),
+					{ description: "Most-clicked links to include" },
+				),
+				export: option(z.enum(["csv", "json"]).optional(), {
+					description: "Export the report as csv or json",
+				}),
+				output: option(z.string().trim().min(1).optional(), {
+					description: "Write the export to this path instead of stdout",
+				}),
+			},
+			handler: handleCampaignAnalyticsCommand,
+		}),
+		defineCommand({
+			name: "preview",
+			operationId: "campaigns.preview",
+			description: "Render the HTML and text preview of a campaign",
+			options: {
+				id: option(z.coerce.number().int().positive(), {
+					description: "Campaign ID",
+				}),
+				"subscriber-id": option(
+					z.coerce.number().int().positive().optional(),
+					{ description: "Render for this subscriber instead of the demo one" },
+				),
+				format: option(z.enum(["html", "text"]).optional(), {
+					description: "Print only the html or text preview",
+				}),
+				output: option(z.string().trim().min(1).optional(), {
+					description: "Write the preview to this path instead of stdout",
+				}),
+			},
+			handler: handleCampaignPreviewCommand,
+		}),
+		defineCommand({
+			name: "test-send",
+			operationId: "campaigns.test-send",
+			description: "Send a campaign test to seed recipients",
+			options: {
+				id: option(z.coerce.number().int().positive(), {
+					description: "Campaign ID",
+				}),
+				to: option(z.string().trim().min(1), {
+					description:
+						"Comma-separated seed recipient emails (see LISTMONK_OPS_SEED_DOMAINS)",
+				}),
+			},
+			handler: handleCampaignTestSendCommand,
+		}),
 	],
 });
@@ -2,6 +2,7 @@ import { invokeControlCapabilitiesOperation } from "@listmonk-ops/operations";
 import { cliOperationCatalog } from "../operation-catalog";
 import { defineCommand } from "../lib/command";
 import { getOutput } from "../lib/output";
+import { resolveCliOperationsSpec } from "../lib/playbooks";
 
 export default defineCommand({
 	name: "capabilities",
@@ -10,7 +11,10 @@ export default defineCommand({
 	handler: async () => {
 		getOutput().json(
 			await invokeControlCapabilitiesOperation(
-				{ catalog: cliOperationCatalog },
+				{
+					catalog: cliOperationCatalog,
+					spec: await resolveCliOperationsSpec(),
+				},
 				{},
 			),
 		);
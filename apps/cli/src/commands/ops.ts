@@ -1,5 +1,3 @@
-import { mkdir, writeFile } from "node:fs/promises";
-import { dirname } from "node:path";
 import {
 	invokeCampaignPreflightOperation,
 	invokeDailyDigestOperation,
@@ -17,15 +15,12 @@ import { defineCommand, defineGroup, option } from "../lib/command";
 import {
 	parseCsvNumbers,
 	parseCsvNumbersStrict,
+	parseJson,
 	toErrorMessage,
+	writeTextFile,
 } from "../lib/command-utils";
 import { getListmonkClient } from "../lib/listmonk";
 
-async function writeTextFile(path: string, content: string) {
-	await mkdir(dirname(path), { recursive: true });
-	await writeFile(path, content, "utf8");
-}
-
 export default defineGroup({
 	name: "ops",
 	description: "Operational automation and safety tooling",
@@ -44,6 +39,13 @@ export default defineGroup({
 				"check-links": option(z.coerce.boolean().default(false), {
 					description: "Check outbound links in campaign body",
 				}),
+				"check-render": option(z.coerce.boolean().default(false), {
+					description: "Render the campaign preview and check the result",
+				}),
+				"content-check-levels": option(z.string().optional(), {
+					description:
+						'Rendered-content check levels JSON, e.g. {"spam_phrases":"fail"}',
+				}),
 				"fail-on-warn": option(z.coerce.boolean().default(false), {
 					description: "Treat warnings as failures",
 				}),
@@ -57,6 +59,15 @@ export default defineGroup({
 							campaign_id: flags["campaign-id"],
 							max_audience: flags["max-audience"],
 							check_links: flags["check-links"],
+							check_render: flags["check-render"],
+							...(flags["content-check-levels"]
+								? {
+										content_check_levels: parseJson<Record<string, string>>(
+											flags["content-check-levels"],
+											"content-check-levels",
+										),
+									}
+								: {}),
 						},
 					);
 					getOutput().json(result);
@@ -1,11 +1,20 @@
+import {
+	invokePlaybookApproveOperation,
+	invokePlaybookRunCancelOperation,
+	invokePlaybookRunGetOperation,
+	invokePlaybookRunOperation,
+} from "@listmonk-ops/automation";
 import {
 	invokePlaybookGetOperation,
 	invokePlaybookListOperation,
 } from "@listmonk-ops/operations";
 import { z } from "zod";
 import { cliOperationCatalog } from "../operation-catalog";
+import { createCliPlaybookStepExecutor } from "../playbook-steps";
 import { defineCommand, defineGroup, option } from "../lib/command";
+import { parseJson } from "../lib/command-utils";
 import { getOutput } from "../lib/output";
+import { resolveCliOperationsSpec } from "../lib/playbooks";
 
 const listCommand = defineCommand({
 	name: "list",
@@ -14,7 +23,10 @@ const listCommand = defineCommand({
 	handler: async () => {
 		getOutput().json(
 			await invokePlaybookListOperation(
-				{ catalog: cliOperationCatalog },
+				{
+					catalog: cliOperationCatalog,
+					spec: await resolveCliOperationsSpec(),
+				},
 				{},
 			),
 		);
@@ -33,15 +45,113 @@ const getCommand = defineCommand({
 	handler: async ({ flags }) => {
 		getOutput().json(
 			await invokePlaybookGetOperation(
-				{ catalog: cliOperationCatalog },
+				{
+					catalog: cliOperationCatalog,
+					spec: await resolveCliOperationsSpec(),
+				},
 				flags,
 			),
 		);
 	},
 });
 
+const runCommand = defineCommand({
+	name: "run",
+	description: "Run a playbook until it finishes or reaches an approval step",
+	operationId: "playbooks.run",
+	options: {
+		id: option(z.string().trim().min(1), {
+			description: "Playbook ID",
+		}),
+		inputs: option(z.string().optional(), {
+			description: "JSON object of playbook input values",
+		}),
+	},
+	handler: async ({ flags, ...args }) => {
+		getOutput().json(
+			await invokePlaybookRunOperation(
+				{
+					executeStep: createCliPlaybookStepExecutor(args),
+					playbooks: (await resolveCliOperationsSpec()).playbooks,
+				},
+				{
+					id: flags.id,
+					inputs:
+						flags.inputs === undefined
+							? undefined
+							: parseJson<unknown>(flags.inputs, "inputs"),
+				},
+			),
+		);
+	},
+});
+
+const approveCommand = defineCommand({
+	name: "approve",
+	description: "Approve the step a playbook run is paused at and continue",
+	operationId: "playbooks.approve",
+	options: {
+		"run-id": option(z.uuid(), { description: "Playbook run ID" }),
+		"step-id": option(z.string().trim().min(1).optional(), {
+			description: "Only approve if the run is paused at this step",
+		}),
+	},
+	handler: async ({ flags, ...args }) => {
+		getOutput().json(
+			await invokePlaybookApproveOperation(
+				{
+					executeStep: createCliPlaybookStepExecutor(args),
+					playbooks: (await resolveCliOperationsSpec()).playbooks,
+				},
+				{ run_id: flags["run-id"], step_id: flags["step-id"] },
+			),
+		);
+	},
+});
+
+const runGetCommand = defineCommand({
+	name: "get",
+	description: "Get a playbook run and its step results",
+	operationId: "playbooks.runs.get",
+	options: {
+		"run-id": option(z.uuid(), { description: "Playbook run ID" }),
+	},
+	handler: async ({ flags }) => {
+		getOutput().json(
+			await invokePlaybookRunGetOperation({}, { run_id: flags["run-id"] }),
+		);
+	},
+});
+
+const runCancelCommand = defineCommand({
+	name: "cancel",
+	description:
+		"Fail a paused or interrupted playbook run and run its recovery step",
+	operationId: "playbooks.runs.cancel",
+	options: {
+		"run-id": option(z.uuid(), { description: "Playbook run ID" }),
+	},
+	handler: async ({ flags, ...args }) => {
+		getOutput().json(
+			await invokePlaybookRunCancelOperation(
+				{
+					executeStep: createCliPlaybookStepExecutor(args),
+					playbooks: (await resolveCliOperationsSpec()).playbooks,
+				},
+				{ run_id: flags["run-id"] },
+			),
+		);
+	},
+});
+
+const runsGroup = defineGroup({
+	name: "runs",
+	description: "Inspect and cancel durable playbook runs",
+	commands: [runGetCommand, runCancelCommand],
+});
+
 export default defineGroup({
 	name: "playbooks",
-	description: "Discover typed multi-step operation playbooks",
-	commands: [listCommand, getCommand],
+	description: "Discover and run typed multi-step operation playbooks",
+	commands: [listCommand, getCommand, runCommand, approveCommand, runsGroup],
 });
@@ -3,6 +3,7 @@ import { z } from "zod";
 import { cliOperationCatalog } from "../operation-catalog";
 import { defineCommand, option } from "../lib/command";
 import { getOutput } from "../lib/output";
+import { resolveCliOperationsSpec } from "../lib/playbooks";
 
 export default defineCommand({
 	name: "prime",
@@ -19,7 +20,10 @@ export default defineCommand({
 	handler: async ({ flags }) => {
 		getOutput().json(
 			await invokeControlPrimeOperation(
-				{ catalog: cliOperationCatalog },
+				{
+					catalog: cliOperationCatalog,
+					spec: await resolveCliOperationsSpec(),
+				},
 				flags,
 			),
 		);
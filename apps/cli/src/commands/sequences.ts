@@ -1,21 +1,27 @@
-import {
-	createFileBackedTransactionalIdempotencyStore,
-	hashTransactionalPayload,
-} from "@listmonk-ops/common";
+import { hashTransactionalPayload } from "@listmonk-ops/common";
 import {
 	getSequenceRepositoryFromEnvironment,
+	getTransactionalIdempotencyStoreFromEnvironment,
 	invokeSequenceCreateOperation,
 	invokeSequenceDeleteOperation,
+	invokeSequenceDeliveryUpdateOperation,
+	invokeSequenceEngagementRecordOperation,
+	invokeSequenceEnrollBulkOperation,
 	invokeSequenceEnrollOperation,
+	invokeSequenceEventsIngestOperation,
 	invokeSequenceEnrollmentGetOperation,
 	invokeSequenceEnrollmentListOperation,
 	invokeSequenceGetOperation,
+	invokeSequenceGoalsUpdateOperation,
 	invokeSequenceListOperation,
+	invokeSequenceMigrateOperation,
 	invokeSequencePauseOperation,
 	invokeSequenceReconcileOperation,
 	invokeSequenceResumeOperation,
+	invokeSequenceSplitsStatsOperation,
 	invokeSequenceStatusOperation,
 	invokeSequenceTickOperation,
+	invokeSequenceTriggersUpdateOperation,
 	invokeSequenceUpdateOperation,
 	invokeSequenceValidateOperation,
 	runSequenceWorker,
@@ -47,21 +53,50 @@ function parseSteps(value: string): SequenceStepInput[] {
 	return parsed as SequenceStepInput[];
 }
 
-function parseContext(value: string | undefined): Record<string, unknown> {
-	if (!value) {
-		return {};
+function parseJsonArray(value: string, flag: string): unknown[] {
+	const parsed = parseJson<unknown>(value, flag);
+	if (!Array.isArray(parsed)) {
+		throw new TypeError(`--${flag} must contain a JSON array`);
 	}
-	const parsed = parseJson<unknown>(value, "context");
+	return parsed;
+}
+
+function parseJsonObject(value: string, flag: string): Record<string, unknown> {
+	const parsed = parseJson<unknown>(value, flag);
 	if (
 		typeof parsed !== "object" ||
 		parsed === null ||
 		Array.isArray(parsed)
 	) {
-		throw new TypeError("--context must contain a JSON object");
+		throw new TypeError(`--${flag} must contain a JSON object`);
 	}
 	return parsed as Record<string, unknown>;
 }
 
+function parseStepMap(value: string | undefined): Record<string, string> {
+	const entries = (value ?? "")
+		.split(",")
+		.map((entry) => entry.trim())
+		.filter((entry) => entry.length > 0)
+		.map((entry) => {
+			const [from, to, ...rest] = entry.split(":");
+			if (!from || !to || rest.length > 0) {
+				throw new TypeError(
+					`--step-map entries must look like old:new, received ${entry}`,
+				);
+			}
+			return [from, to] as const;
+		});
+	return Object.fromEntries(entries);
+}
+
+function parseContext(value: string | undefined): Record<string, unknown> {
+	if (!value) {
+		return {};
+	}
+	return parseJsonObject(value, "context");
+}
+
 async function executionContext(
 	args: Omit<HandlerArgs<Record<string, unknown>>, "flags">,
 ): Promise<SequenceOperationContext> {
@@ -75,7 +110,7 @@ async function executionContext(
 		client: session.client,
 		idempotencyStore:
 			repository.idempotencyStore ??
-			createFileBackedTransactionalIdempotencyStore(),
+			getTransactionalIdempotencyStoreFromEnvironment(),
 		hashPayload: hashTransactionalPayload,
 		target: { baseUrl: session.baseUrl, username: session.username },
 	};
@@ -223,6 +258,54 @@ const enrollCommand = defineCommand({
 	},
 });
 
+const enrollBulkCommand = defineCommand({
+	name: "enroll-bulk",
+	operationId: "sequences.enroll-bulk",
+	description:
+		"Enroll a list or subscriber query, skipping active enrollments",
+	options: {
+		id: option(z.uuid(), { description: "Sequence ID" }),
+		"list-id": option(z.coerce.number().int().positive().optional(), {
+			description: "Listmonk list whose subscribed members to enroll",
+		}),
+		query: option(z.string().trim().min(1).optional(), {
+			description: "Listmonk subscriber SQL query to enroll",
+		}),
+		context: option(z.string().optional(), {
+			description: "JSON object merged into send template data",
+		}),
+		"start-at": option(z.iso.datetime({ offset: true }).optional(), {
+			description: "First activation timestamp; a resume's start_at",
+		}),
+		"rate-per-minute": option(
+			z.coerce.number().int().min(1).max(60_000).optional(),
+			{ description: "Maximum enrollments to start per minute" },
+		),
+		"after-subscriber-id": option(
+			z.coerce.number().int().min(0).default(0),
+			{ description: "Resume after this subscriber ID" },
+		),
+		limit: option(
+			z.coerce.number().int().min(1).max(10_000).default(1_000),
+			{ description: "Maximum subscribers to read in this call" },
+		),
+	},
+	handler: async ({ flags, ...args }) => {
+		getOutput().json(
+			await invokeSequenceEnrollBulkOperation(await executionContext(args), {
+				id: flags.id,
+				list_id: flags["list-id"],
+				query: flags.query,
+				context: parseContext(flags.context),
+				start_at: flags["start-at"],
+				rate_per_minute: flags["rate-per-minute"],
+				after_subscriber_id: flags["after-subscriber-id"],
+				limit: flags.limit,
+			}),
+		);
+	},
+});
+
 const enrollmentListCommand = defineCommand({
 	name: "list",
 	operationId: "sequences.enrollments.list",
@@ -275,6 +358,167 @@ const enrollmentsGroup = defineGroup({
 	commands: [enrollmentListCommand, enrollmentGetCommand],
 });
 
+const triggersUpdateCommand = defineCommand({
+	name: "update",
+	operationId: "sequences.triggers.update",
+	description: "Replace the triggers that enroll subscribers into a sequence",
+	options: {
+		id: option(z.uuid(), { description: "Sequence ID" }),
+		triggers: option(z.string().trim().min(1), {
+			description: "JSON array of sequence triggers; [] removes all",
+		}),
+	},
+	handler: async ({ flags }) => {
+		getOutput().json(
+			await invokeSequenceTriggersUpdateOperation(
+				{},
+				{ id: flags.id, triggers: parseJsonArray(flags.triggers, "triggers") },
+			),
+		);
+	},
+});
+
+const triggersGroup = defineGroup({
+	name: "triggers",
+	description: "Manage declarative sequence enrollment triggers",
+	commands: [triggersUpdateCommand],
+});
+
+const deliveryUpdateCommand = defineCommand({
+	name: "update",
+	operationId: "sequences.delivery.update",
+	description: "Replace the send window and daily cap of a sequence",
+	options: {
+		id: option(z.uuid(), { description: "Sequence ID" }),
+		window: option(z.string().trim().min(1).optional(), {
+			description:
+				"JSON send window with start, end, and optional days, timezone, and timezone_attribute; omit to remove",
+		}),
+		"daily-cap": option(z.coerce.number().int().min(1).max(100).optional(), {
+			description:
+				"Most sequence messages per subscriber in any 24 hours, across all sequences; omit to remove",
+		}),
+	},
+	handler: async ({ flags }) => {
+		getOutput().json(
+			await invokeSequenceDeliveryUpdateOperation(
+				{},
+				{
+					id: flags.id,
+					window:
+						flags.window === undefined
+							? undefined
+							: parseJsonObject(flags.window, "window"),
+					daily_cap: flags["daily-cap"],
+				},
+			),
+		);
+	},
+});
+
+const deliveryGroup = defineGroup({
+	name: "delivery",
+	description: "Manage sequence send windows and frequency caps",
+	commands: [deliveryUpdateCommand],
+});
+
+const goalsUpdateCommand = defineCommand({
+	name: "update",
+	operationId: "sequences.goals.update",
+	description: "Replace the goals and exit criteria of a sequence",
+	options: {
+		id: option(z.uuid(), { description: "Sequence ID" }),
+		goals: option(z.string().trim().min(1), {
+			description: "JSON array of sequence goals; [] removes all",
+		}),
+	},
+	handler: async ({ flags }) => {
+		getOutput().json(
+			await invokeSequenceGoalsUpdateOperation(
+				{},
+				{ id: flags.id, goals: parseJsonArray(flags.goals, "goals") },
+			),
+		);
+	},
+});
+
+const goalsGroup = defineGroup({
+	name: "goals",
+	description: "Manage sequence goals and exit criteria",
+	commands: [goalsUpdateCommand],
+});
+
+const splitsStatsCommand = defineCommand({
+	name: "stats",
+	operationId: "sequences.splits.stats",
+	description: "Show per-branch stats for the split steps of a sequence",
+	options: { id: option(z.uuid(), { description: "Sequence ID" }) },
+	handler: async ({ flags }) => {
+		getOutput().json(
+			await invokeSequenceSplitsStatsOperation({}, { id: flags.id }),
+		);
+	},
+});
+
+const splitsGroup = defineGroup({
+	name: "splits",
+	description: "Inspect sequence split steps",
+	commands: [splitsStatsCommand],
+});
+
+const eventsIngestCommand = defineCommand({
+	name: "ingest",
+	operationId: "sequences.events.ingest",
+	description:
+		"Queue custom named events for custom_event sequence triggers and goals",
+	options: {
+		events: option(z.string().trim().min(1), {
+			description:
+				"JSON array of events with id, name, and a subscriber reference",
+		}),
+	},
+	handler: async ({ flags }) => {
+		getOutput().json(
+			await invokeSequenceEventsIngestOperation(
+				{},
+				{ events: parseJsonArray(flags.events, "events") },
+			),
+		);
+	},
+});
+
+const eventsGroup = defineGroup({
+	name: "events",
+	description: "Ingest custom events for sequence triggers and goals",
+	commands: [eventsIngestCommand],
+});
+
+const engagementRecordCommand = defineCommand({
+	name: "record",
+	operationId: "sequences.engagement.record",
+	description: "Record opens and clicks of sequence send steps",
+	options: {
+		events: option(z.string().trim().min(1), {
+			description:
+				"JSON array of events with enrollment_id, step_id, and event (opened or clicked)",
+		}),
+	},
+	handler: async ({ flags }) => {
+		getOutput().json(
+			await invokeSequenceEngagementRecordOperation(
+				{},
+				{ events: parseJsonArray(flags.events, "events") },
+			),
+		);
+	},
+});
+
+const engagementGroup = defineGroup({
+	name: "engagement",
+	description: "Record engagement for sequence condition steps",
+	commands: [engagementRecordCommand],
+});
+
 const pauseCommand = defineCommand({
 	name: "pause",
 	operationId: "sequences.pause",
@@ -352,6 +596,42 @@ const reconcileCommand = defineCommand({
 	},
 });
 
+const migrateCommand = defineCommand({
+	name: "migrate",
+	operationId: "sequences.migrate",
+	description: "Move live enrollments from one revision to another",
+	options: {
+		id: option(z.uuid(), { description: "Sequence ID" }),
+		"from-revision": option(z.coerce.number().int().positive(), {
+			description: "Revision the enrollments are pinned to",
+		}),
+		"to-revision": option(z.coerce.number().int().positive(), {
+			description: "Revision to move the enrollments to",
+		}),
+		"step-map": option(z.string().optional(), {
+			description:
+				"Comma-separated old:new step IDs; unmapped steps keep their ID",
+		}),
+		"dry-run": option(z.coerce.boolean().default(true), {
+			description: "Preview the migration plan",
+		}),
+	},
+	handler: async ({ flags }) => {
+		getOutput().json(
+			await invokeSequenceMigrateOperation(
+				{},
+				{
+					id: flags.id,
+					from_revision: flags["from-revision"],
+					to_revision: flags["to-revision"],
+					step_map: parseStepMap(flags["step-map"]),
+					dry_run: flags["dry-run"],
+				},
+			),
+		);
+	},
+});
+
 const statusCommand = defineCommand({
 	name: "status",
 	operationId: "sequences.status",
@@ -452,11 +732,19 @@ export default defineGroup({
 		getCommand,
 		deleteCommand,
 		enrollCommand,
+		enrollBulkCommand,
 		enrollmentsGroup,
+		triggersGroup,
+		deliveryGroup,
+		goalsGroup,
+		splitsGroup,
+		eventsGroup,
+		engagementGroup,
 		pauseCommand,
 		resumeCommand,
 		tickCommand,
 		reconcileCommand,
+		migrateCommand,
 		statusCommand,
 		workerCommand,
 	],
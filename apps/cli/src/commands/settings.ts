@@ -0,0 +1,132 @@
+import type { OutputUtils } from "@listmonk-ops/common";
+import { getOutput } from "../lib/output";
+import type { ListmonkClient } from "@listmonk-ops/openapi";
+import {
+	invokeReconcileSettingsManifestOperation,
+	MAX_SETTINGS_MANIFEST_BYTES,
+	OperationExecutionError,
+} from "@listmonk-ops/operations";
+import { z } from "zod";
+import {
+	defineCommand,
+	defineGroup,
+	type HandlerArgs,
+	option,
+} from "../lib/command";
+import { parseJson, toErrorMessage } from "../lib/command-utils";
+import { getListmonkClient } from "../lib/listmonk";
+
+type SettingsOutput = Pick<
+	typeof OutputUtils,
+	"info" | "json" | "success" | "table"
+>;
+
+export interface SettingsCliContext {
+	client: Pick<ListmonkClient, "settings">;
+	output: SettingsOutput;
+	resolveSecret?: (name: string) => string | undefined;
+}
+
+export function createSettingsCommandError(
+	context: string,
+	error: unknown,
+): Error {
+	if (error instanceof OperationExecutionError) return error;
+	return new Error(`${context}: ${toErrorMessage(error)}`, { cause: error });
+}
+
+export async function renderReconcileSettingsManifest(
+	context: SettingsCliContext,
+	input: unknown,
+): Promise<void> {
+	const result = await invokeReconcileSettingsManifestOperation(
+		context,
+		input,
+	);
+	const summary = result.in_sync
+		? "in sync"
+		: `${result.changes.filter(({ action }) => action !== "set_secret").length} drifted settings`;
+	context.output.success(
+		`Settings manifest ${result.applied ? "applied" : "planned"}: ${summary}`,
+	);
+	const unresolved = result.changes.filter(
+		({ action, resolved }) => action === "set_secret" && resolved === false,
+	);
+	if (unresolved.length > 0) {
+		context.output.info(
+			`Unset secret variables: ${unresolved.map(({ env }) => env).join(", ")}`,
+		);
+	}
+	context.output.json(result);
+}
+
+type ReconcileCommandFlags = {
+	"manifest-file": string;
+	"dry-run": boolean;
+};
+
+export async function handleReconcileSettingsManifestCommand({
+	flags,
+	...args
+}: HandlerArgs<ReconcileCommandFlags>): Promise<void> {
+	try {
+		// defineCommand enforces the operation's destructive safety metadata and
+		// global --confirm flag before this handler can read or apply a manifest.
+		const file = Bun.file(flags["manifest-file"]);
+		if (!(await file.exists())) {
+			throw new Error(`File not found: ${flags["manifest-file"]}`);
+		}
+		if (file.size > MAX_SETTINGS_MANIFEST_BYTES) {
+			throw new Error(
+				`Settings manifest exceeds the ${MAX_SETTINGS_MANIFEST_BYTES}-byte limit`,
+			);
+		}
+		const parsed = parseJson<unknown>(await file.text(), "settings manifest");
+		if (
+			typeof parsed !== "object" ||
+			parsed === null ||
+			Array.isArray(parsed)
+		) {
+			throw new Error("Settings manifest must contain a JSON object");
+		}
+		const client = await getListmonkClient(args);
+		await renderReconcileSettingsManifest(
+			{
+				client,
+				output: getOutput(),
+				resolveSecret: (name) => process.env[name],
+			},
+			{
+				...parsed,
+				dry_run: flags["dry-run"],
+			},
+		);
+	} catch (error) {
+		throw createSettingsCommandError(
+			"Failed to reconcile settings manifest",
+			error,
+		);
+	}
+}
+
+export default defineGroup({
+	name: "settings",
+	description: "Manage Listmonk settings as a versioned manifest",
+	commands: [
+		defineCommand({
+			name: "reconcile",
+			operationId: "settings.reconcile",
+			description: "Plan or apply a versioned settings manifest",
+			options: {
+				"manifest-file": option(z.string().trim().min(1), {
+					description: "Path to a versioned settings manifest JSON file",
+					fileType: "path",
+				}),
+				"dry-run": option(z.boolean().default(true), {
+					description: "Plan without changing Listmonk settings",
+				}),
+			},
+			handler: handleReconcileSettingsManifestCommand,
+		}),
+	],
+});
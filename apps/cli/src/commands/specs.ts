@@ -6,6 +6,7 @@ import { z } from "zod";
 import { cliOperationCatalog } from "../operation-catalog";
 import { defineCommand, defineGroup, option } from "../lib/command";
 import { getOutput } from "../lib/output";
+import { resolveCliOperationsSpec } from "../lib/playbooks";
 
 const searchCommand = defineCommand({
 	name: "search",
@@ -31,7 +32,10 @@ const searchCommand = defineCommand({
 	handler: async ({ flags }) => {
 		getOutput().json(
 			await invokeSpecSearchOperation(
-				{ catalog: cliOperationCatalog },
+				{
+					catalog: cliOperationCatalog,
+					spec: await resolveCliOperationsSpec(),
+				},
 				flags,
 			),
 		);
@@ -7,11 +7,18 @@ import {
 	invokeCreateSubscriberOperation,
 	invokeDeleteSubscriberOperation,
 	invokeGetSubscriberOperation,
+	invokeGetSubscriberImportLogsOperation,
+	invokeGetSubscriberImportStatusOperation,
 	invokeGetSubscribersOperation,
 	invokeRemoveSubscribersFromListsOperation,
+	invokeStartSubscriberImportOperation,
+	invokeStopSubscriberImportOperation,
 	invokeUnblocklistSubscribersOperation,
 	invokeUpdateSubscriberOperation,
 	OperationExecutionError,
+	SUBSCRIBER_IMPORT_MAX_CSV_BYTES,
+	type SubscriberImportStartInput,
+	type SubscriberImportStartResult,
 } from "@listmonk-ops/operations";
 import { z } from "zod";
 import {
@@ -493,6 +500,221 @@ async function handleUnblocklistSubscribersCommand({
 	}
 }
 
+export interface SubscriberImportsCliContext {
+	client: Pick<ListmonkClient, "import">;
+	output: SubscribersOutput;
+}
+
+export async function renderStartSubscriberImport(
+	context: SubscriberImportsCliContext,
+	input: SubscriberImportStartInput,
+): Promise<SubscriberImportStartResult> {
+	const result = await invokeStartSubscriberImportOperation(context, input);
+	const { validation } = result;
+	if (result.dry_run) {
+		const summary = `Dry run: ${validation.valid_rows} of ${validation.rows} rows are valid`;
+		if (validation.issue_count > 0) {
+			context.output.warning(
+				`${summary}; ${validation.issue_count} issue(s) must be fixed before importing`,
+			);
+		} else {
+			context.output.success(summary);
+		}
+	} else {
+		context.output.success(
+			`Subscriber import started: ${validation.valid_rows} rows uploaded`,
+		);
+	}
+	context.output.json(result);
+	return result;
+}
+
+export async function renderSubscriberImportStatus(
+	context: SubscriberImportsCliContext,
+): Promise<void> {
+	context.output.json(
+		await invokeGetSubscriberImportStatusOperation(context, {}),
+	);
+}
+
+export async function renderSubscriberImportLogs(
+	context: SubscriberImportsCliContext,
+): Promise<void> {
+	const { logs } = await invokeGetSubscriberImportLogsOperation(context, {});
+	if (logs.trim().length === 0) {
+		context.output.info("No import logs");
+		return;
+	}
+	context.output.info(logs);
+}
+
+export async function renderStopSubscriberImport(
+	context: SubscriberImportsCliContext,
+): Promise<void> {
+	const status = await invokeStopSubscriberImportOperation(context, {});
+	context.output.success(`Subscriber import stopped: ${status.status}`);
+	context.output.json(status);
+}
+
+type StartSubscriberImportFlags = {
+	file: string;
+	mode: "subscribe" | "blocklist";
+	delimiter: string;
+	"list-ids"?: string;
+	overwrite?: boolean;
+	"subscription-status"?: "unconfirmed" | "confirmed" | "unsubscribed";
+	columns?: string;
+	"dry-run"?: boolean;
+};
+
+export async function handleStartSubscriberImportCommand({
+	flags,
+	...args
+}: HandlerArgs<StartSubscriberImportFlags>) {
+	try {
+		const file = Bun.file(flags.file);
+		if (!(await file.exists())) {
+			throw new Error(`File not found: ${flags.file}`);
+		}
+		if (file.size > SUBSCRIBER_IMPORT_MAX_CSV_BYTES) {
+			throw new Error(
+				`Subscriber file exceeds the ${SUBSCRIBER_IMPORT_MAX_CSV_BYTES}-byte limit`,
+			);
+		}
+		const input: SubscriberImportStartInput = {
+			csv: await file.text(),
+			mode: flags.mode,
+			delimiter: flags.delimiter,
+			list_ids: flags["list-ids"]
+				? parseCsvNumbersStrict(flags["list-ids"], "list IDs")
+				: [],
+			overwrite: flags.overwrite,
+			subscription_status: flags["subscription-status"],
+			columns: flags.columns
+				? parseJson<Record<string, "email" | "name" | "attributes">>(
+						flags.columns,
+						"columns",
+					)
+				: undefined,
+			dry_run: flags["dry-run"],
+		};
+		const client = await getListmonkClient(args);
+		return await renderStartSubscriberImport(
+			{ client, output: getOutput() },
+			input,
+		);
+	} catch (error) {
+		throw createSubscriberCommandError(
+			"Failed to start subscriber import",
+			error,
+		);
+	}
+}
+
+export async function handleSubscriberImportStatusCommand(
+	args: HandlerArgs<Record<string, unknown>>,
+): Promise<void> {
+	try {
+		const client = await getListmonkClient(args);
+		await renderSubscriberImportStatus({ client, output: getOutput() });
+	} catch (error) {
+		throw createSubscriberCommandError(
+			"Failed to get subscriber import status",
+			error,
+		);
+	}
+}
+
+export async function handleSubscriberImportLogsCommand(
+	args: HandlerArgs<Record<string, unknown>>,
+): Promise<void> {
+	try {
+		const client = await getListmonkClient(args);
+		await renderSubscriberImportLogs({ client, output: getOutput() });
+	} catch (error) {
+		throw createSubscriberCommandError(
+			"Failed to get subscriber import logs",
+			error,
+		);
+	}
+}
+
+export async function handleStopSubscriberImportCommand(
+	args: HandlerArgs<Record<string, unknown>>,
+): Promise<void> {
+	try {
+		const client = await getListmonkClient(args);
+		await renderStopSubscriberImport({ client, output: getOutput() });
+	} catch (error) {
+		throw createSubscriberCommandError(
+			"Failed to stop subscriber import",
+			error,
+		);
+	}
+}
+
+const importGroup = defineGroup({
+	name: "import",
+	description: "Bulk-import subscribers from CSV through Listmonk's importer",
+	commands: [
+		defineCommand({
+			name: "start",
+			operationId: "subscribers.import.start",
+			description:
+				"Validate a subscriber CSV and upload it to Listmonk's importer",
+			options: {
+				file: option(z.string().trim().min(1), {
+					description: "Path to a CSV file with a header row",
+				}),
+				mode: option(
+					z.enum(["subscribe", "blocklist"]).default("subscribe"),
+					{ description: "Import mode" },
+				),
+				delimiter: option(z.string().length(1).default(","), {
+					description: "Single-character field delimiter",
+				}),
+				"list-ids": option(z.string().trim().optional(), {
+					description: "Comma-separated list IDs to subscribe imported rows to",
+				}),
+				overwrite: option(z.coerce.boolean().default(false), {
+					description: "Overwrite names and attributes of existing subscribers",
+				}),
+				"subscription-status": option(
+					z.enum(["unconfirmed", "confirmed", "unsubscribed"]).optional(),
+					{ description: "Subscription status for the target lists" },
+				),
+				columns: option(z.string().trim().optional(), {
+					description:
+						'JSON object mapping CSV headers to email, name, or attributes, e.g. {"E-mail":"email"}',
+				}),
+				"dry-run": option(z.coerce.boolean().default(false), {
+					description: "Validate the CSV and report issues without uploading",
+				}),
+			},
+			handler: handleStartSubscriberImportCommand,
+		}),
+		defineCommand({
+			name: "status",
+			operationId: "subscribers.import.status",
+			description: "Show the current or last subscriber import status",
+			handler: handleSubscriberImportStatusCommand,
+		}),
+		defineCommand({
+			name: "logs",
+			operationId: "subscribers.import.logs",
+			description: "Show the current or last subscriber import log",
+			handler: handleSubscriberImportLogsCommand,
+		}),
+		defineCommand({
+			name: "stop",
+			operationId: "subscribers.import.stop",
+			description:
+				"Stop the running subscriber import; rows already imported are kept",
+			handler: handleStopSubscriberImportCommand,
+		}),
+	],
+});
+
 export default defineGroup({
 	name: "subscribers",
 	description: "Manage subscribers",
@@ -698,5 +920,6 @@ export default defineGroup({
 			},
 			handler: handleUnblocklistSubscribersCommand,
 		}),
+		importGroup,
 	],
 });
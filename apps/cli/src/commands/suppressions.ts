@@ -0,0 +1,103 @@
+import type { OutputUtils } from "@listmonk-ops/common";
+import {
+	invokeSuppressionApplyOperation,
+	providerIdInput,
+	type SuppressionOperationContext,
+} from "@listmonk-ops/automation";
+import { z } from "zod";
+import {
+	defineCommand,
+	defineGroup,
+	type HandlerArgs,
+	option,
+} from "../lib/command";
+import { parseJson } from "../lib/command-utils";
+import { getListmonkClient } from "../lib/listmonk";
+import { getOutput } from "../lib/output";
+import { runProviderCliCommand } from "../lib/provider";
+
+type SuppressionOutput = Pick<typeof OutputUtils, "info" | "json" | "success">;
+
+export interface SuppressionCliContext {
+	operation: SuppressionOperationContext;
+	output: SuppressionOutput;
+}
+
+export async function renderApplySuppressionPolicy(
+	context: SuppressionCliContext,
+	input: unknown,
+): Promise<void> {
+	const result = await invokeSuppressionApplyOperation(
+		context.operation,
+		input,
+	);
+	context.output.success(
+		`Suppression policy ${result.dry_run ? "planned" : "applied"}: ${result.actions.length} subscribers from ${result.evaluated} events`,
+	);
+	if (result.skipped.length > 0) {
+		context.output.info(`Skipped ${result.skipped.length} events`);
+	}
+	context.output.json(result);
+}
+
+type ApplyCommandFlags = {
+	"provider-id": string;
+	"events-file": string;
+	"dry-run": boolean;
+};
+
+export async function handleApplySuppressionPolicyCommand({
+	flags,
+	...args
+}: HandlerArgs<ApplyCommandFlags>): Promise<void> {
+	await runProviderCliCommand("Suppression policy", async () => {
+		// defineCommand enforces the operation's destructive safety metadata and
+		// global --confirm flag before this handler can blocklist subscribers.
+		const file = Bun.file(flags["events-file"]);
+		if (!(await file.exists())) {
+			throw new Error(`File not found: ${flags["events-file"]}`);
+		}
+		const events = parseJson<unknown>(await file.text(), "suppression events");
+		if (!Array.isArray(events)) {
+			throw new Error("Suppression events file must contain a JSON array");
+		}
+		await renderApplySuppressionPolicy(
+			{
+				operation: { client: await getListmonkClient(args) },
+				output: getOutput(),
+			},
+			{
+				provider_id: flags["provider-id"],
+				events,
+				dry_run: flags["dry-run"],
+			},
+		);
+	});
+}
+
+export default defineGroup({
+	name: "suppressions",
+	description: "Suppress subscribers from inbound delivery events",
+	commands: [
+		defineCommand({
+			name: "apply",
+			operationId: "suppressions.apply",
+			description:
+				"Plan or apply a provider's suppression policy to delivery events",
+			options: {
+				"provider-id": option(providerIdInput, {
+					description: "Provider profile ID",
+				}),
+				"events-file": option(z.string().trim().min(1), {
+					description:
+						"Path to a JSON array of bounce, complaint, and unsubscribe events",
+					fileType: "path",
+				}),
+				"dry-run": option(z.boolean().default(true), {
+					description: "Plan without changing subscribers",
+				}),
+			},
+			handler: handleApplySuppressionPolicyCommand,
+		}),
+	],
+});
@@ -1,15 +1,16 @@
-import {
-	createFileBackedTransactionalIdempotencyStore,
-	hashTransactionalPayload,
-	type OutputUtils,
-} from "@listmonk-ops/common";
+import { getTransactionalIdempotencyStoreFromEnvironment } from "@listmonk-ops/automation";
+import { hashTransactionalPayload, type OutputUtils } from "@listmonk-ops/common";
 import { getOutput } from "../lib/output";
 import type { ListmonkClient } from "@listmonk-ops/openapi";
 import {
 	idempotencyKeySchema,
+	invokeSendTransactionalBatchOperation,
 	invokeSendTransactionalOperation,
 	OperationExecutionError,
+	TRANSACTIONAL_BATCH_MAX_RECIPIENTS,
 	TransactionalReconcileError,
+	type SendTransactionalBatchInput,
+	type SendTransactionalBatchOutput,
 	type SendTransactionalInput,
 	type SendTransactionalOutput,
 } from "@listmonk-ops/operations";
@@ -20,7 +21,13 @@ import {
 	type HandlerArgs,
 	option,
 } from "../lib/command";
-import { parseJson, toErrorMessage } from "../lib/command-utils";
+import {
+	inferRecordFileFormat,
+	parseJson,
+	parseRecordFile,
+	type RecordFileFormat,
+	toErrorMessage,
+} from "../lib/command-utils";
 import { resolveListmonkSession } from "../lib/listmonk";
 
 type TransactionalOutput = Pick<typeof OutputUtils, "json" | "success">;
@@ -114,8 +121,7 @@ export async function handleSendTransactionalCommand({
 			{
 				client,
 				output: getOutput(),
-				idempotencyStore:
-					createFileBackedTransactionalIdempotencyStore(),
+				idempotencyStore: getTransactionalIdempotencyStoreFromEnvironment(),
 				hashPayload: hashTransactionalPayload,
 				target: { baseUrl: session.baseUrl, username: session.username },
 			},
@@ -143,6 +149,227 @@ export async function handleSendTransactionalCommand({
 	}
 }
 
+const MAX_BATCH_FILE_BYTES = 64 * 1024 * 1024;
+const BATCH_RECIPIENT_COLUMNS = [
+	"subscriber_email",
+	"subscriber_id",
+	"idempotency_key",
+	"data",
+] as const;
+const BATCH_DATA_COLUMN_PREFIX = "data.";
+
+type BatchRecipientInput = SendTransactionalBatchInput["recipients"][number];
+
+function batchRecipientFromRecord(
+	record: Readonly<Record<string, unknown>>,
+	row: number,
+): BatchRecipientInput {
+	const text = (key: string) => {
+		const value = record[key];
+		return value === undefined || value === null || value === ""
+			? undefined
+			: String(value);
+	};
+	let data: Record<string, unknown> | undefined;
+	const rawData = record["data"];
+	if (typeof rawData === "string" && rawData.length > 0) {
+		data = parseJson<Record<string, unknown>>(rawData, `data on row ${row}`);
+	} else if (rawData !== undefined && rawData !== null && rawData !== "") {
+		data = rawData as Record<string, unknown>;
+	}
+	// CSV files can also spread template variables over data.<name> columns.
+	for (const [column, value] of Object.entries(record)) {
+		if (column.startsWith(BATCH_DATA_COLUMN_PREFIX) && value !== "") {
+			data = {
+				...data,
+				[column.slice(BATCH_DATA_COLUMN_PREFIX.length)]: value,
+			};
+		}
+	}
+	const subscriberId = record["subscriber_id"];
+	// Leave field validation to the shared operation schema so CLI and MCP
+	// reject malformed recipients with the same messages.
+	return {
+		subscriber_email: text("subscriber_email"),
+		subscriber_id:
+			typeof subscriberId === "number" ? subscriberId : text("subscriber_id"),
+		data,
+		idempotency_key: text("idempotency_key") ?? "",
+	};
+}
+
+/**
+ * Parse a recipient file for `tx send-batch`. CSV files need a header row
+ * with `subscriber_email` or `subscriber_id`, `idempotency_key`, and
+ * optionally a JSON `data` column and `data.<name>` columns; NDJSON files
+ * hold one recipient object per line.
+ */
+export function parseTransactionalBatchRecipients(
+	content: string,
+	format: RecordFileFormat,
+): BatchRecipientInput[] {
+	const recipients = parseRecordFile(content, format, {
+		label: "recipient",
+		isKnownColumn: (column) =>
+			(BATCH_RECIPIENT_COLUMNS as readonly string[]).includes(column) ||
+			(column.startsWith(BATCH_DATA_COLUMN_PREFIX) &&
+				column.length > BATCH_DATA_COLUMN_PREFIX.length),
+		expectedColumns: `${BATCH_RECIPIENT_COLUMNS.join(", ")}, ${BATCH_DATA_COLUMN_PREFIX}<name>`,
+	}).map((record, index) => batchRecipientFromRecord(record, index + 1));
+	const seen = new Map<string, number>();
+	recipients.forEach((recipient, index) => {
+		const previous = seen.get(recipient.idempotency_key);
+		if (previous !== undefined && recipient.idempotency_key !== "") {
+			throw new Error(
+				`Duplicate idempotency_key '${recipient.idempotency_key}' on recipient rows ${previous + 1} and ${index + 1}`,
+			);
+		}
+		seen.set(recipient.idempotency_key, index);
+	});
+	return recipients;
+}
+
+/**
+ * Send a batch through the shared operation in chunks of
+ * `TRANSACTIONAL_BATCH_MAX_RECIPIENTS`, merging the per-recipient reports
+ * with indexes relative to the whole input.
+ */
+export async function renderTransactionalBatch(
+	context: TransactionalCliContext,
+	input: SendTransactionalBatchInput,
+): Promise<SendTransactionalBatchOutput> {
+	const report: SendTransactionalBatchOutput = {
+		total: 0,
+		accepted: 0,
+		replayed: 0,
+		failed: 0,
+		reconcile: 0,
+		conflict: 0,
+		not_sent: 0,
+		results: [],
+	};
+	const recipients = input.recipients ?? [];
+	for (
+		let offset = 0;
+		offset < Math.max(recipients.length, 1);
+		offset += TRANSACTIONAL_BATCH_MAX_RECIPIENTS
+	) {
+		const output = await invokeSendTransactionalBatchOperation(context, {
+			...input,
+			recipients: recipients.slice(
+				offset,
+				offset + TRANSACTIONAL_BATCH_MAX_RECIPIENTS,
+			),
+		});
+		for (const key of [
+			"total",
+			"accepted",
+			"replayed",
+			"failed",
+			"reconcile",
+			"conflict",
+			"not_sent",
+		] as const) {
+			report[key] += output[key];
+		}
+		report.results.push(
+			...output.results.map((result) => ({
+				...result,
+				index: result.index + offset,
+			})),
+		);
+	}
+	context.output.success(
+		`Transactional batch: ${report.total} recipient(s): ${report.accepted} accepted, ${report.replayed} replayed, ${report.failed} failed, ${report.reconcile} reconcile, ${report.conflict} conflict, ${report.not_sent} not sent`,
+	);
+	context.output.json(report);
+	return report;
+}
+
+type SendTransactionalBatchFlags = {
+	"template-id": number;
+	file: string;
+	format?: RecordFileFormat;
+	"from-email"?: string;
+	data?: string;
+	headers?: string;
+	"content-type"?: "html" | "markdown" | "plain";
+	messenger?: string;
+	subject?: string;
+	altbody?: string;
+	concurrency?: number;
+	"rate-per-second"?: number;
+};
+
+export async function handleSendTransactionalBatchCommand({
+	flags,
+	...args
+}: HandlerArgs<SendTransactionalBatchFlags>): Promise<SendTransactionalBatchOutput> {
+	try {
+		const format = inferRecordFileFormat(flags.file, flags.format, "recipient");
+		const file = Bun.file(flags.file);
+		if (!(await file.exists())) {
+			throw new Error(`File not found: ${flags.file}`);
+		}
+		if (file.size > MAX_BATCH_FILE_BYTES) {
+			throw new Error(
+				`Recipient file exceeds the ${MAX_BATCH_FILE_BYTES}-byte limit`,
+			);
+		}
+		const recipients = parseTransactionalBatchRecipients(
+			await file.text(),
+			format,
+		);
+		if (recipients.length === 0) {
+			throw new Error("Recipient file contains no recipients");
+		}
+		const session = await resolveListmonkSession(args, { requireAuth: true });
+		if (!session.client) {
+			throw new Error("Listmonk client is not available");
+		}
+		return await renderTransactionalBatch(
+			{
+				client: session.client,
+				output: getOutput(),
+				idempotencyStore: getTransactionalIdempotencyStoreFromEnvironment(),
+				hashPayload: hashTransactionalPayload,
+				target: { baseUrl: session.baseUrl, username: session.username },
+			},
+			{
+				template_id: flags["template-id"],
+				from_email: flags["from-email"],
+				data: flags.data
+					? parseJson<NonNullable<SendTransactionalBatchInput["data"]>>(
+							flags.data,
+							"data",
+						)
+					: undefined,
+				headers: flags.headers
+					? parseJson<NonNullable<SendTransactionalBatchInput["headers"]>>(
+							flags.headers,
+							"headers",
+						)
+					: undefined,
+				content_type: flags["content-type"],
+				messenger: flags.messenger,
+				subject: flags.subject,
+				altbody: flags.altbody,
+				concurrency: flags.concurrency,
+				rate_per_second: flags["rate-per-second"],
+				recipients,
+			},
+		);
+	} catch (error) {
+		if (error instanceof OperationExecutionError) {
+			throw error;
+		}
+		throw new Error(
+			`Failed to send transactional batch: ${toErrorMessage(error)}`,
+			{ cause: error },
+		);
+	}
+}
+
 export default defineGroup({
 	name: "tx",
 	description: "Transactional email operations",
@@ -192,5 +419,56 @@ export default defineGroup({
 			},
 			handler: handleSendTransactionalCommand,
 		}),
+		defineCommand({
+			name: "send-batch",
+			operationId: "transactional.send-batch",
+			description:
+				"Send a transactional email to every recipient in a CSV or NDJSON file",
+			options: {
+				"template-id": option(z.coerce.number().int().positive(), {
+					description: "Template ID",
+				}),
+				file: option(z.string().trim().min(1), {
+					description:
+						"CSV (with a header row) or NDJSON file of recipients, each with an idempotency_key",
+					fileType: "path",
+				}),
+				format: option(z.enum(["csv", "ndjson"]).optional(), {
+					description: "File format (inferred from .csv, .ndjson, or .jsonl)",
+				}),
+				"from-email": option(z.string().trim().min(1).optional(), {
+					description: "From email header value",
+				}),
+				data: option(z.string().optional(), {
+					description:
+						"JSON template variables shared by every recipient (row data wins)",
+				}),
+				headers: option(z.string().optional(), {
+					description: "JSON array of additional email header objects",
+				}),
+				"content-type": option(
+					z.enum(["html", "markdown", "plain"]).optional(),
+					{
+						description: "Message content type",
+					},
+				),
+				messenger: option(z.string().trim().min(1).optional(), {
+					description: "Listmonk messenger name",
+				}),
+				subject: option(z.string().trim().min(1).optional(), {
+					description: "Message subject override",
+				}),
+				altbody: option(z.string().min(1).optional(), {
+					description: "Plain-text alternative for multipart HTML email",
+				}),
+				concurrency: option(z.coerce.number().int().positive().optional(), {
+					description: "Maximum in-flight sends (default 4, max 10)",
+				}),
+				"rate-per-second": option(z.coerce.number().positive().optional(), {
+					description: "Maximum Listmonk dispatches per second (default 10, max 100)",
+				}),
+			},
+			handler: handleSendTransactionalBatchCommand,
+		}),
 	],
 });
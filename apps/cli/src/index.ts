@@ -5,10 +5,13 @@ import { cli, define } from "gunshi";
 import {
 	closeOutboundWebhookRuntimeRepositories,
 	closeSequenceRuntimeRepositories,
+	closeTransactionalRuntimeStores,
 } from "@listmonk-ops/automation";
+import { closeConversionEventStores } from "@listmonk-ops/abtest";
 import packageJson from "../package.json" with { type: "json" };
 
 import abtestCommand from "./commands/abtest";
+import bouncesCommand from "./commands/bounces";
 import campaignsCommand from "./commands/campaigns";
 import capabilitiesCommand from "./commands/capabilities";
 import deliverabilityCommand from "./commands/deliverability";
@@ -23,7 +26,9 @@ import providersCommand from "./commands/providers";
 import specsCommand from "./commands/specs";
 import statusCommand from "./commands/status";
 import sequencesCommand from "./commands/sequences";
+import settingsCommand from "./commands/settings";
 import subscribersCommand from "./commands/subscribers";
+import suppressionsCommand from "./commands/suppressions";
 import templatesCommand from "./commands/templates";
 import txCommand from "./commands/tx";
 import userRolesCommand from "./commands/user-roles";
@@ -39,6 +44,7 @@ const entry = define({
 const subCommands = {
 	status: statusCommand,
 	providers: providersCommand,
+	suppressions: suppressionsCommand,
 	deliverability: deliverabilityCommand,
 	sequences: sequencesCommand,
 	capabilities: capabilitiesCommand,
@@ -47,10 +53,12 @@ const subCommands = {
 	campaigns: campaignsCommand,
 	lists: listsCommand,
 	media: mediaCommand,
+	bounces: bouncesCommand,
 	subscribers: subscribersCommand,
 	templates: templatesCommand,
 	tx: txCommand,
 	"user-roles": userRolesCommand,
+	settings: settingsCommand,
 	abtest: abtestCommand,
 	ops: opsCommand,
 	operations: operationsCommand,
@@ -87,6 +95,8 @@ try {
 	const closeResults = await Promise.allSettled([
 		closeOutboundWebhookRuntimeRepositories(),
 		closeSequenceRuntimeRepositories(),
+		closeTransactionalRuntimeStores(),
+		closeConversionEventStores(),
 	]);
 	const closeFailures = closeResults
 		.filter(
@@ -1,3 +1,7 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { isBlankCsvRecord, parseCsvRecords } from "@listmonk-ops/operations";
+
 export function toErrorMessage(error: unknown): string {
 	if (error instanceof Error) {
 		return error.message;
@@ -22,6 +26,12 @@ export function toErrorMessage(error: unknown): string {
 	return String(error);
 }
 
+/** Write a text file, creating missing parent directories first. */
+export async function writeTextFile(path: string, content: string) {
+	await mkdir(dirname(path), { recursive: true });
+	await writeFile(path, content, "utf8");
+}
+
 export function parseCsvNumbers(input: string | undefined): number[] {
 	if (!input) {
 		return [];
@@ -79,6 +89,85 @@ export function parseJson<T>(input: string, label: string): T {
 	}
 }
 
+export type RecordFileFormat = "csv" | "ndjson";
+
+export function inferRecordFileFormat(
+	path: string,
+	format: RecordFileFormat | undefined,
+	label: string,
+): RecordFileFormat {
+	if (format) {
+		return format;
+	}
+	const lowerPath = path.toLowerCase();
+	if (lowerPath.endsWith(".csv")) {
+		return "csv";
+	}
+	if (lowerPath.endsWith(".ndjson") || lowerPath.endsWith(".jsonl")) {
+		return "ndjson";
+	}
+	throw new Error(
+		`Cannot infer the ${label} file format; pass --format csv or --format ndjson`,
+	);
+}
+
+/**
+ * Parse a CSV or NDJSON import into one plain record per row. CSV files
+ * need a header row whose columns pass `isKnownColumn`; values are trimmed
+ * strings and quoted values may span lines. NDJSON files hold one JSON
+ * object per line. Blank lines are skipped in both formats.
+ */
+export function parseRecordFile(
+	content: string,
+	format: RecordFileFormat,
+	options: {
+		label: string;
+		isKnownColumn: (column: string) => boolean;
+		expectedColumns: string;
+	},
+): Record<string, unknown>[] {
+	if (format === "ndjson") {
+		return content
+			.replace(/^\uFEFF/, "")
+			.split(/\r?\n/)
+			.map((line, index) => ({ line, lineNumber: index + 1 }))
+			.filter(({ line }) => line.trim().length > 0)
+			.map(({ line, lineNumber }) => {
+				const parsed = parseJson<unknown>(line, `NDJSON line ${lineNumber}`);
+				if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+					throw new Error(`NDJSON line ${lineNumber} must be a JSON object`);
+				}
+				return parsed as Record<string, unknown>;
+			});
+	}
+
+	const [header, ...rows] = parseCsvRecords(content).filter(
+		(record) => !isBlankCsvRecord(record),
+	);
+	if (!header) {
+		return [];
+	}
+	const columns = header.fields.map((column) => column.trim());
+	const unknownColumns = columns.filter(
+		(column) => !options.isKnownColumn(column),
+	);
+	if (unknownColumns.length > 0) {
+		throw new Error(
+			`Unknown ${options.label} CSV column(s): ${unknownColumns.join(", ")}. Expected: ${options.expectedColumns}`,
+		);
+	}
+	return rows.map(({ line, fields }) => {
+		if (fields.length !== columns.length) {
+			throw new Error(
+				`CSV line ${line} has ${fields.length} field(s); expected ${columns.length}`,
+			);
+		}
+		return Object.fromEntries(
+			columns.map((column, index) => [column, fields[index]?.trim() ?? ""]),
+		);
+	});
+}
+
 export function hasApiError<T extends object>(
 	response: T | { error: unknown },
 ): response is { error: unknown } {
@@ -0,0 +1,21 @@
+import { loadOperationPlaybooks } from "@listmonk-ops/automation";
+import {
+	type EmailOperationsSpec,
+	emailOperationsSpec,
+	withOperationPlaybooks,
+} from "@listmonk-ops/operations/specs";
+import { getOutput } from "./output";
+
+/**
+ * Built-in spec plus the playbooks in `LISTMONK_OPS_PLAYBOOK_DIR`. Files
+ * that fail to load are reported as warnings and left out.
+ */
+export async function resolveCliOperationsSpec(): Promise<EmailOperationsSpec> {
+	const { playbooks, diagnostics } = await loadOperationPlaybooks({
+		parseYaml: (text) => Bun.YAML.parse(text),
+	});
+	for (const diagnostic of diagnostics) {
+		getOutput().warning(diagnostic.message);
+	}
+	return withOperationPlaybooks(emailOperationsSpec, playbooks);
+}
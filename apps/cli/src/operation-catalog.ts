@@ -1,10 +1,13 @@
 import {
+	bounceOperationCatalog,
 	campaignOperationCatalog,
 	composeOperationCatalogs,
 	discoveryOperationCatalog,
 	listOperationCatalog,
 	listOperationCatalogSummaries,
 	mediaOperationCatalog,
+	settingsOperationCatalog,
+	subscriberImportOperationCatalog,
 	subscriberOperationCatalog,
 	templateOperationCatalog,
 	transactionalOperationCatalog,
@@ -13,8 +16,10 @@ import {
 import { abTestOperationCatalog } from "@listmonk-ops/abtest";
 import {
 	opsOperationCatalog,
+	playbookRunOperationCatalog,
 	providerOperationCatalog,
 	sequenceOperationCatalog,
+	suppressionOperationCatalog,
 	webhookOperationCatalog,
 } from "@listmonk-ops/automation";
 
@@ -28,10 +33,15 @@ export const cliOperationCatalog = composeOperationCatalogs([
 	opsOperationCatalog,
 	abTestOperationCatalog,
 	discoveryOperationCatalog,
+	playbookRunOperationCatalog,
 	webhookOperationCatalog,
 	sequenceOperationCatalog,
 	providerOperationCatalog,
 	userRoleOperationCatalog,
+	subscriberImportOperationCatalog,
+	bounceOperationCatalog,
+	settingsOperationCatalog,
+	suppressionOperationCatalog,
 ]);
 
 export function listCliOperationCatalogSummaries(
@@ -0,0 +1,160 @@
+import {
+	getSeedRecipientPolicyFromEnvironment,
+	invokeAbTestOperationByMcpName,
+	validateSeedRecipients,
+} from "@listmonk-ops/abtest";
+import {
+	getSequenceRepositoryFromEnvironment,
+	getTransactionalIdempotencyStoreFromEnvironment,
+	invokeOpsOperationByMcpName,
+	invokeProviderOperationByMcpName,
+	invokeSequenceOperationByMcpName,
+	invokeSuppressionOperationByMcpName,
+	invokeWebhookOperationByMcpName,
+	type PlaybookStepExecutor,
+	type SequenceOperationContext,
+} from "@listmonk-ops/automation";
+import { hashTransactionalPayload } from "@listmonk-ops/common";
+import {
+	getOperationCatalogEntryById,
+	invokeBounceOperationByMcpName,
+	invokeCampaignOperationByMcpName,
+	invokeDiscoveryOperationByMcpName,
+	invokeListOperationByMcpName,
+	invokeMediaOperationByMcpName,
+	invokeSettingsOperationByMcpName,
+	invokeSubscriberImportOperationByMcpName,
+	invokeSubscriberOperationByMcpName,
+	invokeTemplateOperationByMcpName,
+	invokeTransactionalOperationByMcpName,
+	invokeUserRoleOperationByMcpName,
+} from "@listmonk-ops/operations";
+import packageJson from "../package.json" with { type: "json" };
+import type { HandlerArgs } from "./lib/command";
+import { resolveListmonkSession } from "./lib/listmonk";
+import { cliOperationCatalog } from "./operation-catalog";
+import {
+	executeCliOperation,
+	UnknownCliOperationError,
+} from "./operation-execution";
+
+type PlaybookStepArgs = Omit<HandlerArgs<Record<string, unknown>>, "flags">;
+
+function sequenceStepContext(
+	context: Pick<SequenceOperationContext, "client" | "target">,
+): SequenceOperationContext {
+	const repository = getSequenceRepositoryFromEnvironment();
+	return {
+		...context,
+		repository,
+		idempotencyStore:
+			repository.idempotencyStore ??
+			getTransactionalIdempotencyStoreFromEnvironment(),
+		hashPayload: hashTransactionalPayload,
+	};
+}
+
+/**
+ * Playbooks name their steps by operation ID, so this is the one CLI path
+ * that dispatches dynamically. It reuses each family's named MCP invoker and
+ * builds the same context the family's own commands use.
+ */
+async function invokeCliPlaybookStep(
+	args: PlaybookStepArgs,
+	operationId: string,
+	input: Readonly<Record<string, unknown>>,
+): Promise<unknown> {
+	const entry = getOperationCatalogEntryById(cliOperationCatalog, operationId);
+	if (!entry) {
+		throw new UnknownCliOperationError(operationId);
+	}
+	const name = entry.operation.mcp.name;
+	const session = await resolveListmonkSession(args, { requireAuth: true });
+	if (!session.client) {
+		throw new Error("Listmonk client is not available");
+	}
+	const client = session.client;
+	const target = { baseUrl: session.baseUrl, username: session.username };
+	const discovery = await invokeDiscoveryOperationByMcpName(
+		{
+			catalog: cliOperationCatalog,
+			surface: "cli",
+			version: packageJson.version,
+			runtime: {},
+		},
+		name,
+		input,
+	);
+	if (discovery !== undefined) {
+		return discovery;
+	}
+	const invocation =
+		(await invokeListOperationByMcpName({ client }, name, input)) ??
+		(await invokeSubscriberOperationByMcpName({ client }, name, input)) ??
+		(await invokeCampaignOperationByMcpName(
+			{
+				client,
+				validateSeedRecipients: (emails) =>
+					validateSeedRecipients(
+						emails,
+						getSeedRecipientPolicyFromEnvironment(),
+					),
+			},
+			name,
+			input,
+		)) ??
+		(await invokeTemplateOperationByMcpName({ client }, name, input)) ??
+		(await invokeMediaOperationByMcpName({ client }, name, input)) ??
+		(await invokeBounceOperationByMcpName({ client }, name, input)) ??
+		(await invokeUserRoleOperationByMcpName({ client }, name, input)) ??
+		(await invokeSubscriberImportOperationByMcpName(
+			{ client },
+			name,
+			input,
+		)) ??
+		(await invokeSettingsOperationByMcpName(
+			{ client, resolveSecret: (secret) => process.env[secret] },
+			name,
+			input,
+		)) ??
+		(await invokeTransactionalOperationByMcpName(
+			{
+				client,
+				idempotencyStore: getTransactionalIdempotencyStoreFromEnvironment(),
+				hashPayload: hashTransactionalPayload,
+				target,
+			},
+			name,
+			input,
+		)) ??
+		(await invokeAbTestOperationByMcpName({ client }, name, input)) ??
+		(await invokeOpsOperationByMcpName({ client }, name, input)) ??
+		(await invokeProviderOperationByMcpName({ client }, name, input)) ??
+		(await invokeSuppressionOperationByMcpName({ client }, name, input)) ??
+		(await invokeWebhookOperationByMcpName({}, name, input)) ??
+		(await invokeSequenceOperationByMcpName(
+			sequenceStepContext({ client, target }),
+			name,
+			input,
+		));
+	if (!invocation) {
+		throw new Error(`Operation ${operationId} cannot run as a playbook step`);
+	}
+	return invocation.output;
+}
+
+/**
+ * Run each step as its own audited CLI operation. Confirmation-gated steps
+ * are blocked unless the engine passes a human approval.
+ */
+export function createCliPlaybookStepExecutor(
+	args: PlaybookStepArgs,
+): PlaybookStepExecutor {
+	return (operationId, input, { confirmed }) =>
+		executeCliOperation({
+			operationId,
+			input,
+			confirmed,
+			invoke: () => invokeCliPlaybookStep(args, operationId, input),
+		});
+}
@@ -2,6 +2,8 @@ import { describe, expect, test } from "bun:test";
 import {
 	buildCreateInputFromFlags,
 	buildRunAbTestInputFromFlags,
+	inferConversionImportFormat,
+	parseConversionImport,
 } from "../src/commands/abtest";
 
 function createFlags(overrides: Partial<Parameters<typeof buildCreateInputFromFlags>[0]> = {}) {
@@ -56,6 +58,34 @@ describe("A/B test CLI input", () => {
 		]);
 	});
 
+	test("forwards the Bayesian report opt-in", () => {
+		expect(
+			buildCreateInputFromFlags(
+				createFlags({ "enable-bayesian-analysis": true }),
+			).enable_bayesian_analysis,
+		).toBe(true);
+		expect(
+			buildCreateInputFromFlags(createFlags()).enable_bayesian_analysis,
+		).toBeUndefined();
+	});
+
+	test("maps bandit flags into the create input", () => {
+		expect(
+			buildCreateInputFromFlags(
+				createFlags({
+					"testing-mode": "bandit",
+					"bandit-metric": "conversion_rate",
+					"bandit-waves": 3,
+				}),
+			),
+		).toMatchObject({
+			testing_mode: "bandit",
+			test_group_percentage: 20,
+			bandit: { metric: "conversion_rate", wave_count: 3 },
+		});
+		expect(buildCreateInputFromFlags(createFlags()).bandit).toBeUndefined();
+	});
+
 	test("rejects percentages that leave no room for missing variants", () => {
 		expect(() =>
 			buildCreateInputFromFlags(
@@ -84,3 +114,84 @@ describe("A/B test CLI input", () => {
 		});
 	});
 });
+
+describe("A/B conversion import", () => {
+	test("infers the format from the file extension unless one is given", () => {
+		expect(inferConversionImportFormat("events.CSV", undefined)).toBe("csv");
+		expect(inferConversionImportFormat("events.jsonl", undefined)).toBe(
+			"ndjson",
+		);
+		expect(inferConversionImportFormat("events.txt", "csv")).toBe("csv");
+		expect(() => inferConversionImportFormat("events.txt", undefined)).toThrow(
+			"Cannot infer the conversion file format",
+		);
+	});
+
+	test("parses CSV rows with quoted fields and optional columns", () => {
+		const events = parseConversionImport(
+			[
+				"\uFEFFevent_id,test_id,variant_id,subscriber_uuid,event,occurred_at,value,currency",
+				'evt-1,test-1,variant-a,uuid-1,"checkout, step 2",2026-01-02T00:00:00Z,19.5,USD',
+				"",
+				"evt-2,test-1,variant-b,uuid-2,purchase,2026-01-02T01:00:00Z,,",
+			].join("\r\n"),
+			"csv",
+		);
+
+		expect(events).toEqual([
+			{
+				event_id: "evt-1",
+				test_id: "test-1",
+				variant_id: "variant-a",
+				subscriber_uuid: "uuid-1",
+				event: "checkout, step 2",
+				occurred_at: "2026-01-02T00:00:00Z",
+				value: "19.5",
+				currency: "USD",
+			},
+			{
+				event_id: "evt-2",
+				test_id: "test-1",
+				variant_id: "variant-b",
+				subscriber_uuid: "uuid-2",
+				event: "purchase",
+				occurred_at: "2026-01-02T01:00:00Z",
+				value: "",
+				currency: undefined,
+			},
+		]);
+	});
+
+	test("rejects unknown CSV columns, ragged rows, and non-object NDJSON", () => {
+		expect(() =>
+			parseConversionImport("event_id,campaign\nevt-1,7", "csv"),
+		).toThrow("Unknown conversion CSV column(s): campaign");
+		expect(() =>
+			parseConversionImport("event_id,test_id\nevt-1", "csv"),
+		).toThrow("CSV line 2 has 1 field(s); expected 2");
+		expect(() => parseConversionImport("[1, 2]", "ndjson")).toThrow(
+			"NDJSON line 1 must be a JSON object",
+		);
+	});
+
+	test("parses one NDJSON event object per line", () => {
+		const events = parseConversionImport(
+			[
+				JSON.stringify({
+					event_id: "evt-1",
+					test_id: "test-1",
+					variant_id: "variant-a",
+					subscriber_uuid: "uuid-1",
+					event: "purchase",
+					occurred_at: "2026-01-02T00:00:00Z",
+					value: 42,
+				}),
+				"",
+			].join("\n"),
+			"ndjson",
+		);
+
+		expect(events).toHaveLength(1);
+		expect(events[0]).toMatchObject({ event_id: "evt-1", value: 42 });
+	});
+});
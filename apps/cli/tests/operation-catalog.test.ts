@@ -7,16 +7,22 @@ import { getOperationCatalogOutput } from "../src/commands/operations";
 
 describe("CLI operation catalog", () => {
 	test("exposes every shared operation without requiring Listmonk credentials", () => {
-		expect(cliOperationCatalog.entries).toHaveLength(104);
-		expect(listCliOperationCatalogSummaries()).toHaveLength(104);
+		expect(cliOperationCatalog.entries).toHaveLength(132);
+		expect(listCliOperationCatalogSummaries()).toHaveLength(132);
 		expect(getOperationCatalogOutput("discovery").operations).toHaveLength(7);
-		expect(getOperationCatalogOutput("campaigns").operations).toHaveLength(11);
+		expect(
+			getOperationCatalogOutput("playbook-runs").operations,
+		).toHaveLength(4);
+		expect(getOperationCatalogOutput("campaigns").operations).toHaveLength(14);
 		expect(getOperationCatalogOutput("media").operations).toHaveLength(4);
-		expect(getOperationCatalogOutput("sequences").operations).toHaveLength(14);
+		expect(getOperationCatalogOutput("sequences").operations).toHaveLength(22);
 		expect(getOperationCatalogOutput("transactional").operations).toEqual([
 			expect.objectContaining({
 				mcpName: "listmonk_send_transactional",
 			}),
+			expect.objectContaining({
+				mcpName: "listmonk_send_transactional_batch",
+			}),
 		]);
 		expect(getOperationCatalogOutput("campaigns").operations).toEqual(
 			expect.arrayContaining([
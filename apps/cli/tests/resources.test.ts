@@ -1,6 +1,12 @@
 import type { ListmonkClient } from "@listmonk-ops/openapi";
 import { describe, expect, mock, test } from "bun:test";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import {
+	renderCampaignAnalytics,
+	renderCampaignPreview,
+	renderCampaignTestSend,
 	renderCancelCampaign,
 	renderCloneCampaign,
 	renderGetCampaignStats,
@@ -15,7 +21,10 @@ import {
 	renderBlocklistSubscribers,
 	renderCreateSubscriber,
 	renderRemoveSubscribersFromLists,
+	renderStartSubscriberImport,
+	renderSubscriberImportLogs,
 	renderUnblocklistSubscribers,
+	type SubscriberImportsCliContext,
 	type SubscribersCliContext,
 } from "../src/commands/subscribers";
 import {
@@ -30,11 +39,25 @@ import {
 	renderUploadMedia,
 	type MediaCliContext,
 } from "../src/commands/media";
+import {
+	type BouncesCliContext,
+	renderBounceSummary,
+	renderPurgeBounces,
+} from "../src/commands/bounces";
+import {
+	renderReconcileSettingsManifest,
+	type SettingsCliContext,
+} from "../src/commands/settings";
+import {
+	renderApplySuppressionPolicy,
+	type SuppressionCliContext,
+} from "../src/commands/suppressions";
 
 function output() {
 	return {
 		info: mock(() => undefined),
 		json: mock(() => undefined),
+		raw: mock(() => undefined),
 		success: mock(() => undefined),
 		table: mock(() => undefined),
 		warning: mock(() => undefined),
@@ -328,6 +351,117 @@ describe("campaign, subscriber, template, and media CLI actions", () => {
 		);
 	});
 
+	test("exports campaign analytics as a long-format CSV", async () => {
+		const campaign = {
+			getById: mock(async () => ({
+				data: { id: 10, name: "Launch", started_at: "2026-10-01T09:00:00Z" },
+			})),
+			getAnalytics: mock(async ({ path }: { path: { type: string } }) => ({
+				data:
+					path.type === "links"
+						? [{ url: "https://example.com/a,b", count: 2 }]
+						: [{ count: 3, timestamp: "2026-10-01T10:00:00Z" }],
+			})),
+		};
+		const cliContext = {
+			client: { campaign } as unknown as Pick<
+				ListmonkClient,
+				"campaign" | "settings"
+			>,
+			output: output(),
+		};
+		const directory = await mkdtemp(join(tmpdir(), "listmonk-cli-analytics-"));
+		try {
+			const path = join(directory, "reports", "launch.csv");
+			await renderCampaignAnalytics(
+				cliContext,
+				{ id: 10, to: "2026-10-03T09:00:00Z" },
+				{ format: "csv", output: path },
+			);
+			expect(await readFile(path, "utf8")).toBe(
+				[
+					"metric,start,url,count",
+					"views,2026-10-01,,3",
+					"clicks,2026-10-01,,3",
+					"bounces,2026-10-01,,3",
+					'link,,"https://example.com/a,b",2',
+					"",
+				].join("\n"),
+			);
+			expect(cliContext.output.success).toHaveBeenCalledWith(
+				`Campaign 10 analytics written to ${path}`,
+			);
+			expect(cliContext.output.json).not.toHaveBeenCalled();
+		} finally {
+			await rm(directory, { recursive: true, force: true });
+		}
+
+		await renderCampaignAnalytics(
+			cliContext,
+			{ id: 10, to: "2026-10-03T09:00:00Z" },
+			{ format: "csv" },
+		);
+		expect(cliContext.output.raw).toHaveBeenCalledWith(
+			expect.stringMatching(/^metric,start,url,count\nviews,2026-10-01,,3\n/),
+		);
+	});
+
+	test("writes a campaign preview and test-sends to seed recipients", async () => {
+		const campaign = {
+			getById: mock(async () => ({
+				data: { id: 10, name: "Launch", body: "<p>Hi</p>", lists: [] },
+			})),
+			preview: mock(async () => ({ data: "<html><p>Hi</p></html>" })),
+			previewText: mock(async () => ({ data: "Hi" })),
+			test: mock(async () => ({ data: true })),
+		};
+		const cliContext = {
+			client: { campaign } as unknown as Pick<
+				ListmonkClient,
+				"campaign" | "subscriber"
+			>,
+			output: output(),
+		};
+		const directory = await mkdtemp(join(tmpdir(), "listmonk-cli-preview-"));
+		try {
+			const path = join(directory, "launch.txt");
+			await renderCampaignPreview(
+				cliContext,
+				{ id: 10 },
+				{ format: "text", output: path },
+			);
+			expect(await readFile(path, "utf8")).toBe("Hi");
+			expect(cliContext.output.success).toHaveBeenCalledWith(
+				`Campaign 10 preview written to ${path}`,
+			);
+		} finally {
+			await rm(directory, { recursive: true, force: true });
+		}
+		await renderCampaignPreview(cliContext, { id: 10 }, { format: "html" });
+		expect(cliContext.output.raw).toHaveBeenCalledWith(
+			"<html><p>Hi</p></html>",
+		);
+
+		await renderCampaignTestSend(
+			{
+				...cliContext,
+				validateSeedRecipients: (emails) => ({
+					emails,
+					recipientSetChecksum: "abc123",
+				}),
+			},
+			{ id: 10, emails: ["seed@example.com"] },
+		);
+		expect(cliContext.output.success).toHaveBeenCalledWith(
+			"Campaign 10 test sent to 1 seed recipient(s)",
+		);
+		expect(cliContext.output.json).toHaveBeenCalledWith({
+			id: 10,
+			recipient_count: 1,
+			recipient_set_checksum: "abc123",
+		});
+	});
+
 	test("renders subscriber bulk operations through the shared renderers", async () => {
 		// The renderers delegate to the named shared invokers; the operations
 		// package owns the chunking and dry-run logic. We assert the call
@@ -375,6 +509,47 @@ describe("campaign, subscriber, template, and media CLI actions", () => {
 		);
 	});
 
+	test("renders subscriber import dry runs and uploads through the shared renderers", async () => {
+		const importClient = {
+			start: mock(async () => ({
+				data: {
+					name: "subscribers.csv",
+					total: 0,
+					imported: 0,
+					status: "importing",
+				},
+			})),
+			logs: mock(async () => ({ data: "" })),
+		};
+		const cliContext = {
+			client: { import: importClient } as unknown as Pick<
+				ListmonkClient,
+				"import"
+			>,
+			output: output(),
+		} satisfies SubscriberImportsCliContext;
+
+		await renderStartSubscriberImport(cliContext, {
+			csv: "email,name\nada@example.com,Ada\nnot-an-email,Bad\n",
+			dry_run: true,
+		});
+		expect(cliContext.output.warning).toHaveBeenCalledWith(
+			"Dry run: 1 of 2 rows are valid; 1 issue(s) must be fixed before importing",
+		);
+		expect(importClient.start).not.toHaveBeenCalled();
+
+		await renderStartSubscriberImport(cliContext, {
+			csv: "email,name\nada@example.com,Ada\n",
+		});
+		expect(cliContext.output.success).toHaveBeenCalledWith(
+			"Subscriber import started: 1 rows uploaded",
+		);
+		expect(importClient.start).toHaveBeenCalledTimes(1);
+
+		await renderSubscriberImportLogs(cliContext);
+		expect(cliContext.output.info).toHaveBeenCalledWith("No import logs");
+	});
+
 	test("renders media uploads through the shared renderer", async () => {
 		// 1x1 transparent PNG, base64-encoded.
 		const pngBase64 =
@@ -404,4 +579,146 @@ describe("campaign, subscriber, template, and media CLI actions", () => {
 		);
 		expect(upload).toHaveBeenCalledTimes(1);
 	});
+
+	test("renders bounce summaries and dry-run purges", async () => {
+		const list = mock(async () => ({
+			data: {
+				results: [
+					{
+						id: 1,
+						type: "hard",
+						email: "a@example.com",
+						campaign: { id: 4, name: "Launch" },
+					},
+					{
+						id: 2,
+						type: "soft",
+						email: "b@example.com",
+						campaign: { id: 4, name: "Launch" },
+					},
+				],
+				total: 2,
+				per_page: 100,
+				page: 1,
+			},
+		}));
+		const getById = mock(async () => ({ data: { id: 4, sent: 200 } }));
+		const remove = mock(async () => ({ data: true }));
+		const cliContext = {
+			client: {
+				bounce: { list, delete: remove },
+				campaign: { getById },
+			} as unknown as Pick<ListmonkClient, "bounce" | "campaign">,
+			output: output(),
+		} satisfies BouncesCliContext;
+
+		await renderBounceSummary(cliContext, {});
+		expect(cliContext.output.success).toHaveBeenCalledWith(
+			"Scanned 2 of 2 bounces: 1 soft, 1 hard, 0 complaint, 0 other",
+		);
+		expect(cliContext.output.table).toHaveBeenCalledWith([
+			expect.objectContaining({
+				campaign_id: 4,
+				bounces: 2,
+				sent: 200,
+				bounce_rate: "1.00%",
+			}),
+		]);
+
+		await renderPurgeBounces(cliContext, { ids: [1, 2] });
+		expect(cliContext.output.info).toHaveBeenCalledWith(
+			"Dry run: 2 bounces would be deleted",
+		);
+		expect(remove).not.toHaveBeenCalled();
+	});
+
+	test("renders settings manifest plans with unset secret variables", async () => {
+		const update = mock(async () => ({ data: true }));
+		const cliContext = {
+			client: {
+				settings: {
+					get: async () => ({
+						data: { "app.site_name": "Old", "bounce.sendgrid_key": "•••" },
+					}),
+					update,
+				},
+			} as unknown as Pick<ListmonkClient, "settings">,
+			output: output(),
+			resolveSecret: () => undefined,
+		} satisfies SettingsCliContext;
+
+		await renderReconcileSettingsManifest(cliContext, {
+			schema_version: 1,
+			settings: {
+				"app.site_name": "New",
+				"bounce.sendgrid_key": { env: "LISTMONK_SETTINGS_SENDGRID_KEY" },
+			},
+		});
+
+		expect(cliContext.output.success).toHaveBeenCalledWith(
+			"Settings manifest planned: 1 drifted settings",
+		);
+		expect(cliContext.output.info).toHaveBeenCalledWith(
+			"Unset secret variables: LISTMONK_SETTINGS_SENDGRID_KEY",
+		);
+		expect(update).not.toHaveBeenCalled();
+	});
+
+	test("renders suppression policy plans without changing subscribers", async () => {
+		const manageBlocklist = mock(async () => ({ data: true }));
+		const uuid = "33333333-3333-4333-8333-333333333333";
+		const cliContext = {
+			operation: {
+				client: {
+					subscriber: {
+						list: async () => ({
+							data: {
+								results: [
+									{
+										id: 3,
+										uuid,
+										status: "enabled",
+										lists: [{ id: 10, subscription_status: "confirmed" }],
+									},
+								],
+								total: 1,
+								page: 1,
+								per_page: 100,
+							},
+						}),
+						manageBlocklist,
+					},
+				} as unknown as Pick<ListmonkClient, "subscriber">,
+				policies: [
+					{
+						provider_id: "ses-primary",
+						hard_bounce: "blocklist",
+						soft_bounce: { action: "unsubscribe", threshold: 3, window_days: 30 },
+						complaint: "blocklist_and_unsubscribe",
+						unsubscribe: "unsubscribe",
+					},
+				],
+				ledger: { path: "/nonexistent/listmonk-ops/suppression-ledger.json" },
+			},
+			output: output(),
+		} satisfies SuppressionCliContext;
+
+		await renderApplySuppressionPolicy(cliContext, {
+			provider_id: "ses-primary",
+			events: [
+				{
+					provider_event_id: "evt-complaint",
+					kind: "complained",
+					subscriber_uuid: uuid,
+				},
+				{ provider_event_id: "evt-delivered", kind: "delivered" },
+			],
+		});
+
+		expect(cliContext.output.success).toHaveBeenCalledWith(
+			"Suppression policy planned: 1 subscribers from 2 events",
+		);
+		expect(cliContext.output.info).toHaveBeenCalledWith("Skipped 1 events");
+		expect(manageBlocklist).not.toHaveBeenCalled();
+	});
 });
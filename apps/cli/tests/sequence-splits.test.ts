@@ -0,0 +1,148 @@
+import { describe, expect, test } from "bun:test";
+import {
+	applyHolmCorrection,
+	checkSRM,
+	computeMsprtBoundary,
+} from "@listmonk-ops/abtest";
+import {
+	buildSequenceSplitStats,
+	type SequenceDefinition,
+	type SequenceSplitEnrollment,
+	type SequenceSplitStats,
+} from "@listmonk-ops/automation";
+
+const createdAt = "2026-09-15T09:00:00.000Z";
+const branchIds = ["control", "short", "long"] as const;
+
+const definition: SequenceDefinition = {
+	id: "6f0b3c52-7d1e-4b8a-9c2f-1a5e8d4b7c30",
+	name: "split-welcome",
+	status: "active",
+	currentRevision: 1,
+	revisions: [
+		{
+			revision: 1,
+			createdAt,
+			steps: [
+				{
+					id: "ab",
+					type: "split",
+					branches: branchIds.map((id) => ({ id, weight: 1, next: id })),
+				},
+				...branchIds.flatMap((id) => [
+					{ id, type: "send" as const, templateId: 4 },
+					{ id: `${id}_stop`, type: "stop" as const },
+				]),
+			],
+		},
+	],
+	createdAt,
+	updatedAt: createdAt,
+};
+
+/** `assigned` enrollments per branch, the first `clicked` of which clicked. */
+function rows(
+	counts: Record<(typeof branchIds)[number], { assigned: number; clicked: number }>,
+): SequenceSplitEnrollment[] {
+	let subscriberId = 0;
+	return branchIds.flatMap((branch) =>
+		Array.from({ length: counts[branch].assigned }, (_, index) => {
+			subscriberId += 1;
+			const id = `enrollment-${subscriberId}`;
+			return {
+				enrollment: {
+					id,
+					sequenceId: definition.id,
+					revision: 1,
+					subscriberId,
+					context: {},
+					status: "completed" as const,
+					retryCount: 0,
+					currentStepId: `${branch}_stop`,
+					nextRunAt: createdAt,
+					branches: { ab: branch },
+					sentStepIds: [branch],
+					lastTransitionAt: createdAt,
+					createdAt,
+					updatedAt: createdAt,
+				},
+				engagement:
+					index < counts[branch].clicked
+						? [
+								{
+									enrollmentId: id,
+									stepId: branch,
+									event: "clicked" as const,
+									occurredAt: createdAt,
+									recordedAt: createdAt,
+								},
+							]
+						: [],
+			};
+		}),
+	);
+}
+
+/** Click rate of each treatment branch against the first branch. */
+function clickComparisons(split: SequenceSplitStats) {
+	const [control, ...treatments] = split.branches;
+	return treatments.map(
+		(treatment) =>
+			computeMsprtBoundary({
+				control: {
+					rate: control!.clicked / control!.sent,
+					sampleSize: control!.sent,
+				},
+				treatment: {
+					rate: treatment.clicked / treatment.sent,
+					sampleSize: treatment.sent,
+				},
+				alpha: 0.05,
+				mixingVariance: 0.01,
+			}).alwaysValidPValue,
+	);
+}
+
+describe("sequence split stats analysis", () => {
+	test("feeds split stats into the SRM check and the Holm correction", () => {
+		const [split] = buildSequenceSplitStats(
+			definition,
+			rows({
+				control: { assigned: 400, clicked: 40 },
+				short: { assigned: 400, clicked: 80 },
+				long: { assigned: 400, clicked: 44 },
+			}),
+		);
+
+		expect(
+			checkSRM(
+				split!.branches.map((branch) => branch.expected),
+				split!.branches.map((branch) => branch.assigned),
+			),
+		).toMatchObject({ passed: true, status: "pass" });
+		const holm = applyHolmCorrection(clickComparisons(split!), 0.05);
+		expect(holm.significant).toEqual([true, false]);
+		expect(holm.adjustedPValues[0]).toBeLessThan(0.05);
+	});
+
+	test("flags a sample ratio mismatch across split branches", () => {
+		const [split] = buildSequenceSplitStats(
+			definition,
+			rows({
+				control: { assigned: 600, clicked: 60 },
+				short: { assigned: 300, clicked: 30 },
+				long: { assigned: 300, clicked: 30 },
+			}),
+		);
+
+		expect(split!.branches.map((branch) => branch.expected)).toEqual([
+			400, 400, 400,
+		]);
+		expect(
+			checkSRM(
+				split!.branches.map((branch) => branch.expected),
+				split!.branches.map((branch) => branch.assigned),
+			),
+		).toMatchObject({ passed: false, status: "fail" });
+	});
+});
@@ -1,8 +1,17 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	createFileBackedTransactionalIdempotencyStore,
+	hashTransactionalPayload,
+} from "@listmonk-ops/common";
 import type { ListmonkClient } from "@listmonk-ops/openapi";
 import { OperationExecutionError } from "@listmonk-ops/operations";
 import { describe, expect, mock, test } from "bun:test";
 import {
 	createTransactionalCommandError,
+	parseTransactionalBatchRecipients,
+	renderTransactionalBatch,
 	renderTransactionalSend,
 	type TransactionalCliContext,
 } from "../src/commands/tx";
@@ -87,3 +96,128 @@ describe("transactional CLI action", () => {
 		expect(commandError.cause).toBe(parseError);
 	});
 });
+
+describe("transactional batch CLI", () => {
+	test("parses CSV recipients with JSON and data.<name> columns", () => {
+		const recipients = parseTransactionalBatchRecipients(
+			[
+				"subscriber_email,subscriber_id,idempotency_key,data,data.order_id",
+				'one@example.com,,order-1,"{""tier"":""gold""}",OPS-1',
+				",42,order-2,,OPS-2",
+			].join("\n"),
+			"csv",
+		);
+
+		expect(recipients).toEqual([
+			{
+				subscriber_email: "one@example.com",
+				subscriber_id: undefined,
+				data: { tier: "gold", order_id: "OPS-1" },
+				idempotency_key: "order-1",
+			},
+			{
+				subscriber_email: undefined,
+				subscriber_id: "42",
+				data: { order_id: "OPS-2" },
+				idempotency_key: "order-2",
+			},
+		]);
+	});
+
+	test("keeps quoted line breaks inside a CSV recipient field", () => {
+		const recipients = parseTransactionalBatchRecipients(
+			[
+				"subscriber_email,idempotency_key,data.note",
+				'one@example.com,order-1,"Leave at the door\r\nRing twice"',
+				"two@example.com,order-2,",
+			].join("\r\n"),
+			"csv",
+		);
+
+		expect(recipients.map((recipient) => recipient.data)).toEqual([
+			{ note: "Leave at the door\r\nRing twice" },
+			undefined,
+		]);
+		expect(() =>
+			parseTransactionalBatchRecipients(
+				'subscriber_email,idempotency_key\none@example.com,"order-1\n',
+				"csv",
+			),
+		).toThrow("CSV has an unterminated quoted field starting on line 2");
+	});
+
+	test("parses NDJSON recipients and rejects duplicate keys or unknown columns", () => {
+		expect(
+			parseTransactionalBatchRecipients(
+				'{"subscriber_id":7,"idempotency_key":"order-7","data":{"n":7}}\n',
+				"ndjson",
+			),
+		).toEqual([
+			{
+				subscriber_email: undefined,
+				subscriber_id: 7,
+				data: { n: 7 },
+				idempotency_key: "order-7",
+			},
+		]);
+		expect(() =>
+			parseTransactionalBatchRecipients(
+				"subscriber_id,idempotency_key\n1,order-1\n2,order-1",
+				"csv",
+			),
+		).toThrow(
+			"Duplicate idempotency_key 'order-1' on recipient rows 1 and 2",
+		);
+		expect(() =>
+			parseTransactionalBatchRecipients(
+				"subscriber_id,idempotency_key,coupon\n1,order-1,X",
+				"csv",
+			),
+		).toThrow("coupon");
+	});
+
+	test("renders the batch report through the shared operation", async () => {
+		const directory = await mkdtemp(join(tmpdir(), "listmonk-ops-cli-tx-"));
+		try {
+			const send = mock(async () => ({ data: true })) as unknown as TransactionalClient["transactional"]["send"];
+			const cliContext: TransactionalCliContext = {
+				...context(send),
+				idempotencyStore: createFileBackedTransactionalIdempotencyStore({
+					storePath: join(directory, "transactional.json"),
+				}),
+				hashPayload: hashTransactionalPayload,
+			};
+			const input = {
+				template_id: 3,
+				recipients: [
+					{ subscriber_id: 1, idempotency_key: "order-1" },
+					{ subscriber_id: 2, idempotency_key: "order-2" },
+				],
+				rate_per_second: 100,
+			};
+
+			await renderTransactionalBatch(cliContext, {
+				...input,
+				recipients: input.recipients.slice(0, 1),
+			});
+			const report = await renderTransactionalBatch(cliContext, input);
+
+			expect(report).toMatchObject({
+				total: 2,
+				accepted: 1,
+				replayed: 1,
+				results: [
+					{ index: 0, idempotency_key: "order-1", status: "replayed" },
+					{ index: 1, idempotency_key: "order-2", status: "accepted" },
+				],
+			});
+			expect(send).toHaveBeenCalledTimes(2);
+			expect(cliContext.output.success).toHaveBeenLastCalledWith(
+				"Transactional batch: 2 recipient(s): 1 accepted, 1 replayed, 0 failed, 0 reconcile, 0 conflict, 0 not sent",
+			);
+			expect(cliContext.output.json).toHaveBeenLastCalledWith(report);
+		} finally {
+			await rm(directory, { recursive: true, force: true });
+		}
+	});
+});
@@ -6,12 +6,24 @@ import type {
 } from "./listmonk-integration";
 import type { MetricsCollector } from "./metrics";
 import { AbTestMetricsUnavailableError } from "./metrics";
+import {
+	backingCampaignMappings,
+	banditWaveListIds,
+	computeThompsonAllocation,
+	DEFAULT_BANDIT_POLICY,
+	planBanditWaveSizes,
+	validateBanditPolicy,
+	type BanditWave,
+} from "./bandit";
+import { validateBayesianPolicy } from "./bayesian";
 import { StatisticalUtils } from "./statistical-utils";
 import {
 	applyHolmCorrection,
 	checkSRM,
+	computeMsprtBoundary,
 	DEFAULT_STATISTICAL_POLICY,
 	fixedHorizonGate,
+	sequentialGate,
 } from "./statistics";
 import {
 	isStrictIsoTimestamp,
@@ -68,12 +80,15 @@ export function fingerprintAbTestConfig(config: AbTestConfig): string {
 		...payload,
 		testingMode,
 		testGroupPercentage:
-			payload.testGroupPercentage ?? (testingMode === "holdout" ? 10 : 100),
+			payload.testGroupPercentage ?? (testingMode === "full-split" ? 100 : 10),
 		confidenceThreshold: payload.confidenceThreshold ?? 0.95,
 		autoDeployWinner: payload.autoDeployWinner ?? false,
 		// Explicit false and an omitted flag behave identically at runtime.
 		autoLaunch: payload.autoLaunch ?? false,
 		ignoreStatisticalWarnings: payload.ignoreStatisticalWarnings ?? false,
+		...(testingMode === "bandit"
+			? { banditPolicy: payload.banditPolicy ?? DEFAULT_BANDIT_POLICY }
+			: {}),
 		...(hypothesis ? { hypothesis } : {}),
 	};
 	return createHash("sha256")
@@ -226,6 +241,40 @@ export class AbTestService {
 		) {
 			throw new Error("durationHours must be a positive finite number");
 		}
+		if (config.bayesianPolicy !== undefined) {
+			validateBayesianPolicy(config.bayesianPolicy);
+		}
+		if (config.testingMode === "bandit") {
+			const banditPolicy = config.banditPolicy ?? DEFAULT_BANDIT_POLICY;
+			validateBanditPolicy(banditPolicy, config.variants.length);
+			if (config.hypothesis?.analysisPlan?.mode === "sequential") {
+				throw new Error(
+					"Sequential analysis cannot stop a bandit test early; use a fixed_horizon plan",
+				);
+			}
+			if (config.autoDeployWinner) {
+				throw new Error(
+					"autoDeployWinner is not available in bandit mode; the holdout is sent in waves",
+				);
+			}
+			if (config.testGroupPercentage === 100) {
+				throw new Error(
+					"Bandit mode needs a holdout pool; testGroupPercentage must be below 100",
+				);
+			}
+			const waveHours =
+				banditPolicy.waveCount * banditPolicy.waveIntervalHours;
+			if (
+				config.durationHours !== undefined &&
+				config.durationHours < waveHours
+			) {
+				throw new Error(
+					`durationHours must cover every bandit wave (at least ${waveHours} hours)`,
+				);
+			}
+		} else if (config.banditPolicy !== undefined) {
+			throw new Error('banditPolicy requires testingMode "bandit"');
+		}
 		// Validate test configuration and provide statistical recommendations
 		if (this.listmonkIntegration) {
 			const shouldLogStatSummary =
@@ -237,7 +286,7 @@ export class AbTestService {
 
 			const testingMode = config.testingMode || "holdout";
 			const testGroupPercentage =
-				config.testGroupPercentage ?? (testingMode === "holdout" ? 10 : 100);
+				config.testGroupPercentage ?? (testingMode === "full-split" ? 100 : 10);
 
 			const validationResult = StatisticalUtils.validateTestConfiguration(
 				totalSubscribers,
@@ -319,7 +368,7 @@ export class AbTestService {
 		// Determine testing mode and calculate group sizes
 		const testingMode = config.testingMode || "holdout";
 		const testGroupPercentage =
-			config.testGroupPercentage ?? (testingMode === "holdout" ? 10 : 100);
+			config.testGroupPercentage ?? (testingMode === "full-split" ? 100 : 10);
 		const confidenceThreshold = config.confidenceThreshold ?? 0.95;
 		const autoDeployWinner = config.autoDeployWinner ?? false;
 
@@ -369,6 +418,13 @@ export class AbTestService {
 							})()
 						: lockHypothesis(config.hypothesis)
 					: undefined,
+			bayesianPolicy: config.bayesianPolicy
+				? structuredClone(config.bayesianPolicy)
+				: undefined,
+			banditPolicy:
+				testingMode === "bandit"
+					? structuredClone(config.banditPolicy ?? DEFAULT_BANDIT_POLICY)
+					: undefined,
 			idempotencyFingerprint: fingerprintAbTestConfig(config),
 			pendingCreate: { config },
 		};
@@ -515,7 +571,7 @@ export class AbTestService {
 		if (
 			test.provisionedAt !== undefined ||
 			test.assignmentSeed !== undefined ||
-			test.testingMode !== "holdout"
+			test.testingMode === "full-split"
 		) {
 			return test;
 		}
@@ -563,8 +619,9 @@ export class AbTestService {
 		if (config === undefined || !this.listmonkIntegration) {
 			return test;
 		}
-		if (test.testingMode === "holdout") {
-			// Adopt lists a prior crashed attempt tagged for this test and
+		if (test.testingMode !== "full-split") {
+			// Holdout and bandit tests share the deterministic split. Adopt
+			// lists a prior crashed attempt tagged for this test and
 			// reuse the persisted seed so the re-split is identical and the
 			// membership re-sync is idempotent.
 			const existingLists =
@@ -676,8 +733,9 @@ export class AbTestService {
 				let testGroupSize: number;
 				let holdoutGroupSize: number;
 
-				if (test.testingMode === "holdout") {
-					// Use holdout methodology with deterministic assignment.
+				if (test.testingMode !== "full-split") {
+					// Use holdout methodology with deterministic assignment;
+					// bandit tests send the holdout in waves later.
 					const segmentationResult =
 						await this.listmonkIntegration.segmentSubscribersForHoldout(
 							config.baseConfig.lists,
@@ -874,13 +932,16 @@ export class AbTestService {
 			!TERMINAL_STATUSES.has(test.status) &&
 			test.campaignMappings.length > 0
 		) {
-			const listIds = test.testListMappings.map((m) => m.listId);
+			const listIds = [
+				...test.testListMappings.map((m) => m.listId),
+				...banditWaveListIds(test),
+			];
 			if (test.holdoutListId !== undefined) {
 				listIds.push(test.holdoutListId);
 			}
 			await this.listmonkIntegration.deleteTestResources({
 				campaignIds: [
-					...test.campaignMappings.map((m) => m.campaignId),
+					...backingCampaignMappings(test).map((m) => m.campaignId),
 					...(test.winnerCampaignId !== undefined
 						? [test.winnerCampaignId]
 						: []),
@@ -938,7 +999,7 @@ export class AbTestService {
 			// fetch failure; do not swallow it into mock data.
 			return await this.listmonkIntegration.collectTestResults(
 				testId,
-				test.campaignMappings,
+				backingCampaignMappings(test),
 			);
 		}
 
@@ -1280,6 +1341,26 @@ export class AbTestService {
 	}
 
 	async analyzeTest(testId: string): Promise<TestAnalysis> {
+		return (await this.evaluateTest(testId)).result;
+	}
+
+	/**
+	 * Analyze a sequential test and record the look. Only looks that pass the
+	 * sequential gate and SRM check advance the stored running minimum, so an
+	 * underpowered or mis-split look can never make a later look stop early.
+	 */
+	async recordSequentialLook(testId: string): Promise<TestAnalysis> {
+		const { result, sequentialPValue } = await this.evaluateTest(testId);
+		const test = this.tests.get(testId);
+		if (test && sequentialPValue !== undefined) {
+			test.sequentialPValue = sequentialPValue;
+		}
+		return result;
+	}
+
+	private async evaluateTest(
+		testId: string,
+	): Promise<{ result: TestAnalysis; sequentialPValue?: number }> {
 		const test = await this.getTest(testId);
 		if (!test) {
 			throw new Error(`Test with ID ${testId} not found`);
@@ -1308,12 +1389,14 @@ export class AbTestService {
 			test.hypothesis,
 		);
 
-		// Run the fixed-horizon eligibility gate. If the test is not ready,
-		// suppress the winner and record the reason codes so operators know
-		// why no decision was made.
+		// Run the eligibility gate for the pre-registered analysis mode. If
+		// the test is not ready, suppress the winner and record the reason
+		// codes so operators know why no decision was made.
 		// Build a per-test policy from the test's own settings.
+		const analysisPlan = test.hypothesis?.analysisPlan;
 		const testPolicy: typeof DEFAULT_STATISTICAL_POLICY = {
 			...DEFAULT_STATISTICAL_POLICY,
+			analysisMode: analysisPlan?.mode ?? "fixed_horizon",
 			confidenceLevel: test.confidenceThreshold,
 			minimumDurationHours:
 				test.durationHours ?? DEFAULT_STATISTICAL_POLICY.minimumDurationHours,
@@ -1325,23 +1408,46 @@ export class AbTestService {
 		// represents when the campaigns actually started sending. Fall back
 		// to startedAt for backward compatibility.
 		const durationRef = test.launchAt ?? test.startedAt;
-		const gateResult = fixedHorizonGate({
-			endsAt: test.endsAt,
-			startedAt: durationRef,
-			now: Date.now(),
-			policy: testPolicy,
-			sampleSizes: results.map((r) => r.sampleSize),
-		});
-		analysis.fixedHorizonReasonCodes = gateResult.reasonCodes;
+		const sampleSizes = results.map((r) => r.sampleSize);
+		let gateResult: ReturnType<typeof fixedHorizonGate>;
+		if (analysisPlan?.mode === "sequential") {
+			gateResult = sequentialGate({
+				startedAt: durationRef,
+				policy: testPolicy,
+				sampleSizes,
+			});
+			analysis.analysisMode = "sequential";
+			analysis.sequentialReasonCodes = gateResult.reasonCodes;
+		} else {
+			gateResult = fixedHorizonGate({
+				endsAt: test.endsAt,
+				startedAt: durationRef,
+				now: Date.now(),
+				policy: testPolicy,
+				sampleSizes,
+			});
+			analysis.analysisMode = "fixed_horizon";
+			analysis.fixedHorizonReasonCodes = gateResult.reasonCodes;
+		}
 
-		// Run SRM check. Prefer assignment manifest group counts; for
-		// full-split tests without a manifest, derive expected counts from
-		// variant percentages and the total test group size.
+		// Run SRM check. Prefer assignment manifest group counts (plus the
+		// recipients each sent bandit wave allocated); for full-split tests
+		// without a manifest, derive expected counts from variant
+		// percentages and the total test group size.
 		let srmExpected: number[] | null = null;
 		if (test.assignmentManifest) {
+			const waveGroups = (test.banditWaves ?? []).flatMap(
+				(wave) => wave.groups ?? [],
+			);
 			srmExpected = test.assignmentManifest.groups
 				.filter((g) => g.kind === "variant")
-				.map((g) => g.expectedCount);
+				.map(
+					(g) =>
+						g.expectedCount +
+						waveGroups
+							.filter((group) => group.variantId === g.variantId)
+							.reduce((sum, group) => sum + group.expectedCount, 0),
+				);
 		} else if (test.testingMode === "full-split") {
 			// Derive expected from variant percentages and total sample.
 			const totalSample = results.reduce((sum, r) => sum + r.sampleSize, 0);
@@ -1358,8 +1464,12 @@ export class AbTestService {
 			} else {
 				analysis.srmPassed = false;
 				analysis.srmPValue = 1;
-				analysis.fixedHorizonReasonCodes = [
-					...(analysis.fixedHorizonReasonCodes ?? []),
+				const reasonKey =
+					analysis.analysisMode === "sequential"
+						? "sequentialReasonCodes"
+						: "fixedHorizonReasonCodes";
+				analysis[reasonKey] = [
+					...(analysis[reasonKey] ?? []),
 					"srm_input_mismatch",
 				];
 			}
@@ -1369,6 +1479,32 @@ export class AbTestService {
 		// isSignificant so the lifecycle tick does not mark the test
 		// 'completed' when the gate says no decision should be made.
 		const gatesPassed = gateResult.ready && analysis.srmPassed !== false;
+
+		// Only a look that passed the gates continues the running minimum of
+		// the always-valid p-value; an ungated look is reported on its own.
+		let sequentialPValue: number | undefined;
+		if (analysisPlan?.mode === "sequential") {
+			const [control, treatment] = results;
+			if (results.length === 2 && control && treatment) {
+				const { rate } = this.pickMetricRate(results, test.hypothesis);
+				analysis.sequentialBoundary = computeMsprtBoundary({
+					control: { rate: rate(control) / 100, sampleSize: control.sampleSize },
+					treatment: {
+						rate: rate(treatment) / 100,
+						sampleSize: treatment.sampleSize,
+					},
+					alpha: 1 - test.confidenceThreshold,
+					mixingVariance: analysisPlan.mixingVariance,
+					previousPValue: gatesPassed ? test.sequentialPValue : undefined,
+				});
+				if (gatesPassed) {
+					sequentialPValue = analysis.sequentialBoundary.alwaysValidPValue;
+				}
+			}
+			// The fixed-horizon z-test stays in the analysis for reference, but
+			// only the always-valid boundary may decide a sequential test.
+			analysis.isSignificant = analysis.sequentialBoundary?.crossed ?? false;
+		}
 		if (!gatesPassed) {
 			analysis.isSignificant = false;
 		}
@@ -1405,11 +1541,14 @@ export class AbTestService {
 		);
 
 		return {
-			testId,
-			results,
-			analysis,
-			winner,
-			recommendations,
+			result: {
+				testId,
+				results,
+				analysis,
+				winner,
+				recommendations,
+			},
+			sequentialPValue,
 		};
 	}
 
@@ -1489,6 +1628,87 @@ export class AbTestService {
 		}
 	}
 
+	/**
+	 * Record the next wave of a bandit test as `planned`, with the
+	 * observations and Thompson allocation it will be sent with. A wave
+	 * already left `planned` by a failed send is returned unchanged rather
+	 * than re-sampled; undefined once every wave has been planned. Planning
+	 * is local state only, so it leaves `updatedAt` (the approval revision
+	 * token) alone.
+	 */
+	async planBanditWave(testId: string): Promise<BanditWave | undefined> {
+		const { test, policy } = this.requireBanditTest(testId);
+		const waves = test.banditWaves ?? [];
+		const planned = waves.find((entry) => entry.status === "planned");
+		if (planned !== undefined || waves.length >= policy.waveCount) {
+			return planned;
+		}
+		const results = await this.getTestResults(testId);
+		const number = waves.length + 1;
+		const wave: BanditWave = {
+			wave: number,
+			status: "planned",
+			plannedAt: new Date().toISOString(),
+			plannedSize:
+				planBanditWaveSizes(test.holdoutGroupSize, policy.waveCount)[
+					number - 1
+				] ?? 0,
+			observed: results.map((r) => ({
+				variantId: r.variantId,
+				sampleSize: r.sampleSize,
+				successes: policy.metric === "click_rate" ? r.clicks : r.conversions,
+			})),
+			allocation: computeThompsonAllocation({
+				results,
+				policy,
+				seed: `${test.id}:bandit-wave:${number}`,
+			}),
+		};
+		test.banditWaves = [...waves, wave];
+		this.tests.set(testId, test);
+		return wave;
+	}
+
+	/**
+	 * Send the next wave of a bandit test from its holdout pool, planning it
+	 * first when no wave is planned yet. Stored callers commit the plan in
+	 * its own write before sending (see `planDueBanditWaves`), so a failed
+	 * send leaves the wave `planned` and the retry reuses its allocation.
+	 * Callers decide when a wave is due (see `nextBanditWaveDueAt`).
+	 */
+	async advanceBanditWave(testId: string): Promise<AbTest> {
+		const { test, policy } = this.requireBanditTest(testId);
+		if (!this.listmonkIntegration) {
+			throw new Error("Listmonk integration not available");
+		}
+		const wave = await this.planBanditWave(testId);
+		if (wave === undefined) {
+			return test;
+		}
+
+		const groups = await this.listmonkIntegration.sendBanditWave(test, wave, {
+			lastWave: wave.wave === policy.waveCount,
+		});
+		wave.groups = groups;
+		wave.status = "sent";
+		wave.sentAt = new Date().toISOString();
+		test.updatedAt = new Date();
+		this.tests.set(testId, test);
+		return test;
+	}
+
+	private requireBanditTest(testId: string) {
+		const test = this.tests.get(testId);
+		if (!test) {
+			throw new Error(`Test with ID ${testId} not found`);
+		}
+		const policy = test.banditPolicy;
+		if (test.testingMode !== "bandit" || policy === undefined) {
+			throw new Error(`Test ${testId} is not a bandit test`);
+		}
+		return { test, policy };
+	}
+
 	private generateRecommendations(
 		results: TestResults[],
 		analysis: StatisticalAnalysis,
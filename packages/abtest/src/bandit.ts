@@ -0,0 +1,283 @@
+/**
+ * Multi-armed bandit mode for A/B tests.
+ *
+ * A bandit test is provisioned like a holdout test: the deterministic
+ * assignment manifest splits the audience into an exploration group per
+ * variant and a holdout pool. Instead of waiting for a winner, `tick` sends
+ * the holdout pool in waves. Before each wave, Thompson sampling over the
+ * metrics observed so far (click or conversion rate, Beta-Binomial) gives
+ * every variant its probability of being best, and the wave is split across
+ * variant campaigns in proportion to those probabilities.
+ *
+ * Every wave records the observed counts it was decided on, the allocation
+ * weights, and a checksum of each variant slice, so the reallocation is
+ * auditable after the fact. Wave recipients are the head of the remaining
+ * holdout pool in manifest digest order, which keeps wave membership
+ * deterministic for a given pool.
+ *
+ * The functions here are pure; remote list and campaign work lives in
+ * `ListmonkAbTestIntegration.sendBanditWave`.
+ */
+
+import { allocateByLargestRemainder } from "./allocation";
+import { computeBayesianAnalysis, DEFAULT_BAYESIAN_POLICY } from "./bayesian";
+import type { AbTest, TestResults } from "./types";
+
+export interface BanditPolicyV1 {
+	version: 1;
+	/** Metric the bandit optimizes. */
+	metric: "click_rate" | "conversion_rate";
+	/** Number of waves the holdout pool is sent in. */
+	waveCount: number;
+	/** Hours between launch and the first wave, and between waves. */
+	waveIntervalHours: number;
+	/**
+	 * Floor on each variant's share of a wave, in [0, 1 / variants), so a
+	 * variant that starts badly keeps collecting evidence.
+	 */
+	minimumShare: number;
+	/** Posterior draws used to estimate each variant's probability to be best. */
+	draws: number;
+}
+
+export const DEFAULT_BANDIT_POLICY: BanditPolicyV1 = {
+	version: 1,
+	metric: "click_rate",
+	waveCount: 4,
+	waveIntervalHours: 24,
+	minimumShare: 0.05,
+	draws: 20_000,
+};
+
+const MAX_WAVES = 20;
+
+export interface BanditArmAllocation {
+	variantId: string;
+	/** Thompson-sampling probability that this variant is best. */
+	probabilityToBeBest: number;
+	/** Share of the wave after applying the minimum share floor. */
+	weight: number;
+}
+
+export interface BanditWaveGroup {
+	variantId: string;
+	expectedCount: number;
+	/** SHA-256 over the sorted subscriber UUIDs sent this variant in the wave. */
+	subscriberChecksum: string;
+	listId: number;
+	campaignId: number;
+}
+
+export interface BanditWave {
+	/** 1-based; wave 0 is the exploration group sent at launch. */
+	wave: number;
+	/**
+	 * `planned` once the allocation is decided and persisted; `sent` after
+	 * the wave's campaigns are running and its recipients left the pool.
+	 */
+	status: "planned" | "sent";
+	plannedAt: string;
+	sentAt?: string;
+	/** Planned recipients; the last wave takes whatever remains. */
+	plannedSize: number;
+	/** Per-variant observations the allocation was decided on. */
+	observed: Array<{ variantId: string; sampleSize: number; successes: number }>;
+	allocation: BanditArmAllocation[];
+	groups?: BanditWaveGroup[];
+}
+
+/**
+ * Validate a bandit policy for a test with `variantCount` variants,
+ * throwing on the first invalid field.
+ */
+export function validateBanditPolicy(
+	policy: BanditPolicyV1,
+	variantCount: number,
+): void {
+	if (policy.version !== 1) {
+		throw new Error(
+			`Unsupported bandit policy version: ${String(policy.version)}`,
+		);
+	}
+	if (policy.metric !== "click_rate" && policy.metric !== "conversion_rate") {
+		throw new Error(
+			`Bandit metric must be "click_rate" or "conversion_rate", received ${String(policy.metric)}`,
+		);
+	}
+	if (
+		!Number.isSafeInteger(policy.waveCount) ||
+		policy.waveCount < 1 ||
+		policy.waveCount > MAX_WAVES
+	) {
+		throw new Error(
+			`waveCount must be an integer in [1, ${MAX_WAVES}], received ${policy.waveCount}`,
+		);
+	}
+	if (
+		!Number.isFinite(policy.waveIntervalHours) ||
+		policy.waveIntervalHours <= 0
+	) {
+		throw new Error(
+			`waveIntervalHours must be a positive finite number, received ${policy.waveIntervalHours}`,
+		);
+	}
+	if (
+		!Number.isFinite(policy.minimumShare) ||
+		policy.minimumShare < 0 ||
+		policy.minimumShare * variantCount >= 1
+	) {
+		throw new Error(
+			`minimumShare must be in [0, 1 / ${variantCount}), received ${policy.minimumShare}`,
+		);
+	}
+	if (variantCount < 2) {
+		throw new Error("Bandit mode requires at least two variants");
+	}
+	// Reuse the Bayesian bounds for the draw count.
+	if (
+		!Number.isSafeInteger(policy.draws) ||
+		policy.draws < 1_000 ||
+		policy.draws > 200_000
+	) {
+		throw new Error(
+			`draws must be an integer in [1000, 200000], received ${policy.draws}`,
+		);
+	}
+}
+
+/**
+ * Split the holdout pool into `waveCount` near-equal planned wave sizes.
+ */
+export function planBanditWaveSizes(
+	holdoutSize: number,
+	waveCount: number,
+): number[] {
+	return allocateByLargestRemainder({
+		total: holdoutSize,
+		weights: new Array<number>(waveCount).fill(1),
+	}).counts;
+}
+
+/**
+ * Thompson-sampling allocation for the next wave. Each variant's weight is
+ * its posterior probability of being best on the policy metric, floored at
+ * `minimumShare` and renormalized. Seeded so a recomputation with the same
+ * observations yields the same allocation.
+ */
+export function computeThompsonAllocation(params: {
+	results: TestResults[];
+	policy: BanditPolicyV1;
+	seed: string;
+}): BanditArmAllocation[] {
+	const { results, policy, seed } = params;
+	const analysis = computeBayesianAnalysis({
+		results,
+		policy: { ...DEFAULT_BAYESIAN_POLICY, enabled: true, draws: policy.draws },
+		seed,
+		primaryMetric: policy.metric,
+		direction: "maximize",
+	});
+	const posterior = analysis.metrics.find((m) => m.metric === policy.metric);
+	const probabilities = results.map(
+		(r) =>
+			posterior?.variants.find((v) => v.variantId === r.variantId)
+				?.probabilityToBeBest ?? 1 / results.length,
+	);
+
+	// Raise every arm to the floor, then scale the remaining mass over the
+	// arms' excess above it so the weights still sum to 1.
+	const floor = policy.minimumShare;
+	const excess = probabilities.map((p) => Math.max(0, p - floor));
+	const excessTotal = excess.reduce((sum, value) => sum + value, 0);
+	const free = 1 - floor * results.length;
+	return results.map((r, index) => ({
+		variantId: r.variantId,
+		probabilityToBeBest: probabilities[index] ?? 0,
+		weight:
+			excessTotal > 0
+				? floor + (free * (excess[index] ?? 0)) / excessTotal
+				: 1 / results.length,
+	}));
+}
+
+/**
+ * Exact per-variant recipient counts for a wave of `size` recipients.
+ * Zero-weight arms receive nobody; the rest share the wave by largest
+ * remainder so the counts always sum to `size`.
+ */
+export function allocateBanditWave(
+	size: number,
+	allocation: readonly BanditArmAllocation[],
+): Array<{ variantId: string; count: number }> {
+	const active = allocation.filter((arm) => arm.weight > 0);
+	const counts = allocateByLargestRemainder({
+		total: size,
+		weights: active.map((arm) => arm.weight),
+	}).counts;
+	return allocation.map((arm) => {
+		const activeIndex = active.indexOf(arm);
+		return {
+			variantId: arm.variantId,
+			count: activeIndex < 0 ? 0 : (counts[activeIndex] ?? 0),
+		};
+	});
+}
+
+/**
+ * When the next wave is due, or undefined when every wave was sent or the
+ * test has not launched. Waves are spaced from the launch send time.
+ */
+export function nextBanditWaveDueAt(test: AbTest): string | undefined {
+	const policy = test.banditPolicy;
+	const launchedAt = test.launchAt ?? test.startedAt;
+	if (!policy || launchedAt === undefined) {
+		return undefined;
+	}
+	const waves = test.banditWaves ?? [];
+	const pending = waves.find((wave) => wave.status === "planned");
+	if (pending) {
+		return pending.plannedAt;
+	}
+	if (waves.length >= policy.waveCount) {
+		return undefined;
+	}
+	return new Date(
+		new Date(launchedAt).getTime() +
+			(waves.length + 1) * policy.waveIntervalHours * 3600 * 1000,
+	).toISOString();
+}
+
+/** True when every planned wave of a bandit test has been sent. */
+export function banditWavesComplete(test: AbTest): boolean {
+	const waves = test.banditWaves ?? [];
+	return (
+		test.banditPolicy !== undefined &&
+		waves.length >= test.banditPolicy.waveCount &&
+		waves.every((wave) => wave.status === "sent")
+	);
+}
+
+/**
+ * Every campaign backing a test, the launch-time variant campaigns plus the
+ * campaigns of each sent bandit wave, keyed by variant.
+ */
+export function backingCampaignMappings(
+	test: AbTest,
+): { variantId: string; campaignId: number }[] {
+	return [
+		...test.campaignMappings,
+		...(test.banditWaves ?? []).flatMap((wave) =>
+			(wave.groups ?? []).map((group) => ({
+				variantId: group.variantId,
+				campaignId: group.campaignId,
+			})),
+		),
+	];
+}
+
+/** List ids created for bandit waves. */
+export function banditWaveListIds(test: AbTest): number[] {
+	return (test.banditWaves ?? []).flatMap((wave) =>
+		(wave.groups ?? []).map((group) => group.listId),
+	);
+}
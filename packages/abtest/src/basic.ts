@@ -9,6 +9,8 @@ import type {
 	CreateAbTestInput,
 	TestAnalysis,
 } from "./types";
+import { DEFAULT_BANDIT_POLICY } from "./bandit";
+import { DEFAULT_BAYESIAN_POLICY } from "./bayesian";
 import { DEFAULT_STRATIFICATION_POLICY } from "./stratification";
 
 // Simple A/B Test command wrappers (no longer extending BaseCommand)
@@ -89,12 +91,39 @@ export function buildAbTestConfig(input: CreateAbTestInput): AbTestConfig {
 							exclusionWindowHours:
 								input.hypothesis.experiment_scope.exclusion_window_hours,
 						},
+						analysisPlan:
+							input.hypothesis.analysis_plan?.mode === "sequential"
+								? {
+										mode: "sequential",
+										method: input.hypothesis.analysis_plan.method,
+										mixingVariance:
+											input.hypothesis.analysis_plan.mixing_variance,
+									}
+								: input.hypothesis.analysis_plan,
 						createdAt: new Date().toISOString(),
 					}
 				: undefined,
 			stratificationPolicy: input.enable_stratification
 				? { ...DEFAULT_STRATIFICATION_POLICY, enabled: true }
 				: undefined,
+			bayesianPolicy: input.enable_bayesian_analysis
+				? { ...DEFAULT_BAYESIAN_POLICY, enabled: true }
+				: undefined,
+			banditPolicy:
+				input.testing_mode === "bandit"
+					? {
+							...DEFAULT_BANDIT_POLICY,
+							metric: input.bandit?.metric ?? DEFAULT_BANDIT_POLICY.metric,
+							waveCount:
+								input.bandit?.wave_count ?? DEFAULT_BANDIT_POLICY.waveCount,
+							waveIntervalHours:
+								input.bandit?.wave_interval_hours ??
+								DEFAULT_BANDIT_POLICY.waveIntervalHours,
+							minimumShare:
+								input.bandit?.minimum_share ??
+								DEFAULT_BANDIT_POLICY.minimumShare,
+						}
+					: undefined,
 		};
 }
 
@@ -172,6 +201,12 @@ export class CreateAbTestCommand {
 		if (!input.lists || input.lists.length === 0) {
 			throw new ValidationError("At least one list is required");
 		}
+
+		if (input.bandit && input.testing_mode !== "bandit") {
+			throw new ValidationError(
+				'bandit settings require testing_mode "bandit"',
+			);
+		}
 	}
 }
 
@@ -0,0 +1,342 @@
+/**
+ * Bayesian summaries for experiment reports.
+ *
+ * Reported next to the frequentist analysis, never instead of it: winner
+ * decisions stay with the fixed-horizon or sequential gates, and these
+ * numbers answer the questions marketers actually ask ("how likely is B
+ * better than A, and what do we lose if we pick it and are wrong?").
+ *
+ * Models:
+ * - Rate metrics (open, click, conversion) use a Beta-Binomial model with a
+ *   configurable Beta prior over the per-recipient rate.
+ * - Revenue per recipient multiplies the conversion-rate posterior by a
+ *   mean order value whose inverse has a Gamma posterior (exponential order
+ *   values), with one pseudo-order at the pooled mean value as the prior.
+ *
+ * Posteriors are summarized from Monte Carlo draws. The generator is
+ * seeded (callers pass the test id), so the same results always produce
+ * the same report. These are pure functions with no I/O.
+ */
+
+import type { TestResults } from "./types";
+
+export interface BayesianPolicyV1 {
+	version: 1;
+	enabled: boolean;
+	/** Mass of the central credible interval, in (0, 1). */
+	credibleLevel: number;
+	/** Posterior draws per variant and metric. */
+	draws: number;
+	/** Beta prior for rate metrics; Beta(1, 1) is uniform. */
+	ratePrior: { alpha: number; beta: number };
+}
+
+export const DEFAULT_BAYESIAN_POLICY: BayesianPolicyV1 = {
+	version: 1,
+	enabled: false,
+	credibleLevel: 0.95,
+	draws: 20_000,
+	ratePrior: { alpha: 1, beta: 1 },
+};
+
+const MIN_DRAWS = 1_000;
+const MAX_DRAWS = 200_000;
+
+export type BayesianMetric =
+	| "open_rate"
+	| "click_rate"
+	| "conversion_rate"
+	| "revenue_per_recipient";
+
+export interface BayesianVariantSummary {
+	variantId: string;
+	/** Posterior mean: a proportion for rates, currency for revenue. */
+	posteriorMean: number;
+	credibleInterval: { lower: number; upper: number };
+	/** P(variant beats control) in the metric's direction; absent for control. */
+	probabilityToBeatControl?: number;
+	probabilityToBeBest: number;
+	/** Expected shortfall against the best variant if this one is chosen. */
+	expectedLoss: number;
+}
+
+export interface BayesianMetricAnalysis {
+	metric: BayesianMetric;
+	model: "beta_binomial" | "beta_gamma_revenue";
+	direction: "maximize" | "minimize";
+	/** The first variant is the control, matching the frequentist analysis. */
+	controlVariantId: string;
+	variants: BayesianVariantSummary[];
+}
+
+export interface BayesianAnalysis {
+	credibleLevel: number;
+	draws: number;
+	metrics: BayesianMetricAnalysis[];
+	/** Why a metric was left out (e.g. no revenue recorded). */
+	reasonCodes: string[];
+}
+
+/**
+ * Validate a Bayesian policy, throwing on the first invalid field.
+ */
+export function validateBayesianPolicy(policy: BayesianPolicyV1): void {
+	if (policy.version !== 1) {
+		throw new Error(
+			`Unsupported Bayesian policy version: ${String(policy.version)}`,
+		);
+	}
+	if (
+		!Number.isFinite(policy.credibleLevel) ||
+		policy.credibleLevel <= 0 ||
+		policy.credibleLevel >= 1
+	) {
+		throw new Error(
+			`credibleLevel must be a finite number in (0, 1), received ${policy.credibleLevel}`,
+		);
+	}
+	if (
+		!Number.isSafeInteger(policy.draws) ||
+		policy.draws < MIN_DRAWS ||
+		policy.draws > MAX_DRAWS
+	) {
+		throw new Error(
+			`draws must be an integer in [${MIN_DRAWS}, ${MAX_DRAWS}], received ${policy.draws}`,
+		);
+	}
+	for (const field of ["alpha", "beta"] as const) {
+		const value = policy.ratePrior[field];
+		if (!Number.isFinite(value) || value <= 0) {
+			throw new Error(
+				`ratePrior.${field} must be a finite positive number, received ${value}`,
+			);
+		}
+	}
+}
+
+/**
+ * Compute Bayesian summaries for every rate metric and, when revenue was
+ * recorded, revenue per recipient. `direction` applies to `primaryMetric`
+ * only; every other metric is maximized. Fewer than two variants yields no
+ * metrics and an `insufficient_variants` reason code.
+ */
+export function computeBayesianAnalysis(params: {
+	results: TestResults[];
+	policy: BayesianPolicyV1;
+	seed: string;
+	primaryMetric?: string;
+	direction?: "maximize" | "minimize";
+}): BayesianAnalysis {
+	const { results, policy, seed, primaryMetric } = params;
+	validateBayesianPolicy(policy);
+
+	const analysis: BayesianAnalysis = {
+		credibleLevel: policy.credibleLevel,
+		draws: policy.draws,
+		metrics: [],
+		reasonCodes: [],
+	};
+	if (results.length < 2) {
+		analysis.reasonCodes.push(`insufficient_variants:${results.length}`);
+		return analysis;
+	}
+
+	const directionFor = (metric: BayesianMetric) =>
+		metric === primaryMetric ? (params.direction ?? "maximize") : "maximize";
+	const rateMetrics = [
+		["open_rate", (r: TestResults) => r.opens],
+		["click_rate", (r: TestResults) => r.clicks],
+		["conversion_rate", (r: TestResults) => r.conversions],
+	] as const;
+	for (const [metric, successes] of rateMetrics) {
+		// Each metric gets its own stream so adding or dropping one metric
+		// cannot shift the draws of another.
+		const random = createRandom(`${seed}:${metric}`);
+		const samples = results.map((r) =>
+			sampleRate(random, successes(r), r.sampleSize, policy),
+		);
+		analysis.metrics.push(
+			summarizeMetric(
+				metric,
+				"beta_binomial",
+				directionFor(metric),
+				results,
+				samples,
+				policy.credibleLevel,
+			),
+		);
+	}
+
+	if (results.some((r) => r.revenue !== undefined)) {
+		const totalRevenue = results.reduce((sum, r) => sum + (r.revenue ?? 0), 0);
+		const totalConversions = results.reduce((sum, r) => sum + r.conversions, 0);
+		if (!(totalRevenue > 0) || totalConversions <= 0) {
+			analysis.reasonCodes.push("revenue_model_insufficient_data");
+		} else {
+			const pooledOrderValue = totalRevenue / totalConversions;
+			const random = createRandom(`${seed}:revenue_per_recipient`);
+			const samples = results.map((r) => {
+				const rates = sampleRate(random, r.conversions, r.sampleSize, policy);
+				const conversions = Math.max(0, r.conversions);
+				const revenue = Math.max(0, r.revenue ?? 0);
+				for (let i = 0; i < rates.length; i += 1) {
+					const orderRate =
+						sampleGamma(random, 1 + conversions) /
+						(pooledOrderValue + revenue);
+					rates[i] = (rates[i] ?? 0) / orderRate;
+				}
+				return rates;
+			});
+			analysis.metrics.push(
+				summarizeMetric(
+					"revenue_per_recipient",
+					"beta_gamma_revenue",
+					directionFor("revenue_per_recipient"),
+					results,
+					samples,
+					policy.credibleLevel,
+				),
+			);
+		}
+	}
+
+	return analysis;
+}
+
+function sampleRate(
+	random: () => number,
+	successes: number,
+	trials: number,
+	policy: BayesianPolicyV1,
+): Float64Array {
+	// Counts from collectors can disagree slightly (e.g. clicks recorded for
+	// recipients outside the sent count); clamp to a valid binomial.
+	const n = Math.max(0, trials);
+	const k = Math.min(Math.max(0, successes), n);
+	const alpha = policy.ratePrior.alpha + k;
+	const beta = policy.ratePrior.beta + n - k;
+	const draws = new Float64Array(policy.draws);
+	for (let i = 0; i < draws.length; i += 1) {
+		const x = sampleGamma(random, alpha);
+		const y = sampleGamma(random, beta);
+		draws[i] = x / (x + y);
+	}
+	return draws;
+}
+
+function summarizeMetric(
+	metric: BayesianMetric,
+	model: BayesianMetricAnalysis["model"],
+	direction: "maximize" | "minimize",
+	results: TestResults[],
+	samples: Float64Array[],
+	credibleLevel: number,
+): BayesianMetricAnalysis {
+	const draws = samples[0]?.length ?? 0;
+	const control = samples[0] as Float64Array;
+	const sign = direction === "maximize" ? 1 : -1;
+	const beatsControl = new Array<number>(samples.length).fill(0);
+	const best = new Array<number>(samples.length).fill(0);
+	const loss = new Array<number>(samples.length).fill(0);
+
+	for (let i = 0; i < draws; i += 1) {
+		let bestIndex = 0;
+		let bestValue = Number.NEGATIVE_INFINITY;
+		for (const [index, variant] of samples.entries()) {
+			const value = sign * (variant[i] ?? 0);
+			if (value > bestValue) {
+				bestValue = value;
+				bestIndex = index;
+			}
+			if (index > 0 && value > sign * (control[i] ?? 0)) {
+				beatsControl[index] = (beatsControl[index] ?? 0) + 1;
+			}
+		}
+		best[bestIndex] = (best[bestIndex] ?? 0) + 1;
+		for (const [index, variant] of samples.entries()) {
+			loss[index] = (loss[index] ?? 0) + bestValue - sign * (variant[i] ?? 0);
+		}
+	}
+
+	const tail = (1 - credibleLevel) / 2;
+	return {
+		metric,
+		model,
+		direction,
+		controlVariantId: results[0]?.variantId ?? "",
+		variants: samples.map((variant, index) => {
+			const sorted = Float64Array.from(variant).sort();
+			const mean = variant.reduce((sum, value) => sum + value, 0) / draws;
+			return {
+				variantId: results[index]?.variantId ?? "",
+				posteriorMean: mean,
+				credibleInterval: {
+					lower: quantile(sorted, tail),
+					upper: quantile(sorted, 1 - tail),
+				},
+				probabilityToBeatControl:
+					index === 0 ? undefined : (beatsControl[index] ?? 0) / draws,
+				probabilityToBeBest: (best[index] ?? 0) / draws,
+				expectedLoss: (loss[index] ?? 0) / draws,
+			};
+		}),
+	};
+}
+
+/** Linear-interpolated quantile of an ascending sample. */
+function quantile(sorted: Float64Array, q: number): number {
+	const position = (sorted.length - 1) * q;
+	const lower = Math.floor(position);
+	const upper = Math.ceil(position);
+	const low = sorted[lower] ?? 0;
+	const high = sorted[upper] ?? low;
+	return low + (high - low) * (position - lower);
+}
+
+/**
+ * Seeded uniform generator (mulberry32 over an FNV-1a hash of the seed).
+ * Reports must be reproducible, so Math.random is never used here.
+ */
+function createRandom(seed: string): () => number {
+	let state = 0x811c9dc5;
+	for (let i = 0; i < seed.length; i += 1) {
+		state ^= seed.charCodeAt(i);
+		state = Math.imul(state, 0x01000193);
+	}
+	return () => {
+		state = (state + 0x6d2b79f5) | 0;
+		let t = state;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+}
+
+function sampleNormal(random: () => number): number {
+	// Box-Muller; 1 - u keeps the logarithm away from zero.
+	const u = 1 - random();
+	const v = random();
+	return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+/** Gamma(shape, 1) draw (Marsaglia and Tsang, boosted for shape < 1). */
+function sampleGamma(random: () => number, shape: number): number {
+	if (shape < 1) {
+		return sampleGamma(random, shape + 1) * (1 - random()) ** (1 / shape);
+	}
+	const d = shape - 1 / 3;
+	const c = 1 / Math.sqrt(9 * d);
+	for (;;) {
+		let x: number;
+		let v: number;
+		do {
+			x = sampleNormal(random);
+			v = 1 + c * x;
+		} while (v <= 0);
+		v = v ** 3;
+		const u = 1 - random();
+		if (Math.log(u) < 0.5 * x * x + d - d * v + d * Math.log(v)) {
+			return d * v;
+		}
+	}
+}
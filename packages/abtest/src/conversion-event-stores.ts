@@ -0,0 +1,497 @@
+import { homedir } from "node:os";
+import { join } from "node:path";
+
+import {
+	commitJsonFileStoreUpdate,
+	readJsonFileStore,
+	type JsonFileStore,
+	updateJsonFileStore,
+} from "@listmonk-ops/common";
+import postgres, { type Sql } from "postgres";
+import {
+	aggregateConversionEvents,
+	assertConversionAttribution,
+	ConversionEventValidationError,
+	sanitizeConversionEvent,
+	validateConversionEvent,
+	type ConversionAttributionPolicy,
+	type ConversionEventInput,
+	type ConversionEventStore,
+	type VariantConversionAggregate,
+} from "./conversion-events";
+
+/**
+ * Durable conversion event stores.
+ *
+ * Conversions recorded through the in-memory store were lost between CLI
+ * runs and MCP restarts, so analysis kept reporting zero conversions. The
+ * JSON file store shares the atomic lock-and-rename primitives used by the
+ * A/B test store; the Postgres store serves multi-replica deployments. Both
+ * check eventId idempotency before validation (a retry succeeds even when
+ * the attribution policy changed since the original write) and apply the
+ * same manifest and attribution-window rules as the in-memory store.
+ */
+
+export const CONVERSION_EVENT_STORE_PATH_ENV =
+	"LISTMONK_OPS_ABTEST_CONVERSION_STORE";
+export const CONVERSION_EVENT_DATABASE_URL_ENV =
+	"LISTMONK_OPS_ABTEST_CONVERSION_DATABASE_URL";
+export const CONVERSION_EVENT_POSTGRES_SCHEMA_VERSION = 1;
+
+const CONVERSION_STORE_LOCK_TIMEOUT_MS = 30_000;
+
+export interface StoredConversionEvent extends ConversionEventInput {
+	/** ISO timestamp when the store accepted the event. */
+	recordedAt: string;
+}
+
+export interface StoredConversionEventDocument {
+	version: 1;
+	events: StoredConversionEvent[];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+	return typeof value === "string" && value.trim().length > 0;
+}
+
+function isStoredConversionEvent(value: unknown): boolean {
+	return (
+		isRecord(value) &&
+		isNonEmptyString(value.eventId) &&
+		isNonEmptyString(value.testId) &&
+		isNonEmptyString(value.variantId) &&
+		isNonEmptyString(value.subscriberUuid) &&
+		isNonEmptyString(value.event) &&
+		(value.value === undefined ||
+			(typeof value.value === "number" &&
+				Number.isFinite(value.value) &&
+				value.value >= 0 &&
+				isNonEmptyString(value.currency))) &&
+		(value.currency === undefined || typeof value.currency === "string") &&
+		typeof value.occurredAt === "string" &&
+		!Number.isNaN(new Date(value.occurredAt).getTime()) &&
+		typeof value.recordedAt === "string" &&
+		!Number.isNaN(new Date(value.recordedAt).getTime())
+	);
+}
+
+function parseConversionEventDocument(
+	value: unknown,
+): StoredConversionEventDocument {
+	if (!isRecord(value)) {
+		throw new Error("Invalid conversion event store: expected an object");
+	}
+	if (value.version !== 1) {
+		throw new Error(
+			`Invalid conversion event store: unsupported schema version ${String(
+				value.version,
+			)} (expected 1)`,
+		);
+	}
+	if (!Array.isArray(value.events)) {
+		throw new Error("Invalid conversion event store: events must be an array");
+	}
+	const eventIds = new Set<string>();
+	for (const [index, event] of value.events.entries()) {
+		if (!isStoredConversionEvent(event)) {
+			throw new Error(
+				`Invalid conversion event store: event ${index} failed schema validation`,
+			);
+		}
+		const eventId = (event as StoredConversionEvent).eventId;
+		if (eventIds.has(eventId)) {
+			throw new Error(
+				`Invalid conversion event store: duplicate eventId ${eventId}`,
+			);
+		}
+		eventIds.add(eventId);
+	}
+	return {
+		version: 1,
+		events: value.events as StoredConversionEvent[],
+	};
+}
+
+export function getConversionEventStorePath(): string {
+	const overriddenPath = process.env[CONVERSION_EVENT_STORE_PATH_ENV]?.trim();
+	return (
+		overriddenPath ||
+		join(homedir(), ".listmonk-ops", "abtest-conversions.json")
+	);
+}
+
+function createConversionEventFileStore(
+	storePath: string,
+): JsonFileStore<StoredConversionEventDocument> {
+	return {
+		path: storePath,
+		createDefault: () => ({ version: 1, events: [] }),
+		parse: parseConversionEventDocument,
+		lock: { timeoutMs: CONVERSION_STORE_LOCK_TIMEOUT_MS },
+	};
+}
+
+export interface JsonFileConversionEventStoreOptions
+	extends ConversionAttributionPolicy {
+	path?: string;
+}
+
+/**
+ * JSON file-backed conversion event store. Every record runs under the
+ * store's exclusive file lock, so concurrent CLI and MCP writers cannot
+ * record the same eventId twice.
+ */
+export class JsonFileConversionEventStore implements ConversionEventStore {
+	private readonly store: JsonFileStore<StoredConversionEventDocument>;
+	private readonly defaultAttribution: ConversionAttributionPolicy;
+
+	constructor(options: JsonFileConversionEventStoreOptions = {}) {
+		const { path, ...attribution } = options;
+		this.store = createConversionEventFileStore(
+			path ?? getConversionEventStorePath(),
+		);
+		this.defaultAttribution = attribution;
+	}
+
+	get path(): string {
+		return this.store.path;
+	}
+
+	async record(
+		input: ConversionEventInput,
+		attribution?: ConversionAttributionPolicy,
+	): Promise<"created" | "duplicate"> {
+		return updateJsonFileStore(this.store, (document) => {
+			if (document.events.some((event) => event.eventId === input.eventId)) {
+				return commitJsonFileStoreUpdate(document, "duplicate" as const);
+			}
+
+			validateConversionEvent(input);
+			assertConversionAttribution(input, {
+				...this.defaultAttribution,
+				...attribution,
+			});
+
+			return commitJsonFileStoreUpdate(
+				{
+					version: 1,
+					events: [
+						...document.events,
+						{
+							...sanitizeConversionEvent(input),
+							recordedAt: new Date().toISOString(),
+						},
+					],
+				},
+				"created" as const,
+			);
+		});
+	}
+
+	async aggregate(testId: string): Promise<VariantConversionAggregate[]> {
+		const document = await readJsonFileStore(this.store);
+		return aggregateConversionEvents(
+			document.events.filter((event) => event.testId === testId),
+		);
+	}
+}
+
+export interface PostgresConversionEventStoreOptions
+	extends ConversionAttributionPolicy {
+	connectionString: string;
+	maxConnections?: number;
+	idleTimeoutSeconds?: number;
+	connectTimeoutSeconds?: number;
+}
+
+type ConversionAggregateRow = {
+	variant_id: string;
+	total_events: number;
+	unique_subscribers: number;
+	total_value: string | number | null;
+	currencies: (string | null)[] | null;
+};
+
+function assertConnectionString(value: string): string {
+	const trimmed = value.trim();
+	let parsed: URL;
+	try {
+		parsed = new URL(trimmed);
+	} catch {
+		throw new TypeError(
+			"Conversion event Postgres connection string must be a valid URL",
+		);
+	}
+	if (parsed.protocol !== "postgres:" && parsed.protocol !== "postgresql:") {
+		throw new TypeError(
+			"Conversion event Postgres connection string must use postgres:// or postgresql://",
+		);
+	}
+	return trimmed;
+}
+
+function resolvePositiveInteger(
+	value: number | undefined,
+	fallback: number,
+	label: string,
+	maximum: number,
+): number {
+	const resolved = value ?? fallback;
+	if (!Number.isInteger(resolved) || resolved <= 0 || resolved > maximum) {
+		throw new RangeError(`${label} must be between 1 and ${maximum}`);
+	}
+	return resolved;
+}
+
+async function initializeSchema(sql: Sql): Promise<void> {
+	await sql.begin(async (transaction) => {
+		await transaction`
+			SELECT pg_advisory_xact_lock(
+				hashtext('listmonk_ops'),
+				hashtext('abtest_conversion_schema')
+			)
+		`;
+		await transaction`CREATE SCHEMA IF NOT EXISTS listmonk_ops`;
+		await transaction`
+			CREATE TABLE IF NOT EXISTS listmonk_ops.abtest_conversion_meta (
+				key text PRIMARY KEY,
+				value text NOT NULL,
+				updated_at timestamptz NOT NULL DEFAULT now()
+			)
+		`;
+		await transaction`
+			INSERT INTO listmonk_ops.abtest_conversion_meta (key, value)
+			VALUES ('schema_version', '0')
+			ON CONFLICT (key) DO NOTHING
+		`;
+		const versionRows = await transaction<{ value: string }[]>`
+			SELECT value
+			FROM listmonk_ops.abtest_conversion_meta
+			WHERE key = 'schema_version'
+		`;
+		const storedVersion = Number(versionRows[0]?.value ?? Number.NaN);
+		if (
+			!Number.isInteger(storedVersion) ||
+			storedVersion < 0 ||
+			storedVersion > CONVERSION_EVENT_POSTGRES_SCHEMA_VERSION
+		) {
+			throw new Error(
+				`Unsupported conversion event Postgres schema version: ${versionRows[0]?.value ?? "missing"}`,
+			);
+		}
+		if (storedVersion < 1) {
+			await transaction`
+				CREATE TABLE IF NOT EXISTS listmonk_ops.abtest_conversion_events (
+					event_id text PRIMARY KEY,
+					test_id text NOT NULL,
+					variant_id text NOT NULL,
+					subscriber_uuid text NOT NULL,
+					event text NOT NULL,
+					value numeric CHECK (value IS NULL OR value >= 0),
+					currency text,
+					occurred_at timestamptz NOT NULL,
+					recorded_at timestamptz NOT NULL DEFAULT now(),
+					CHECK (value IS NULL OR currency IS NOT NULL)
+				)
+			`;
+			await transaction`
+				CREATE INDEX IF NOT EXISTS abtest_conversion_events_test_idx
+				ON listmonk_ops.abtest_conversion_events (test_id, variant_id)
+			`;
+		}
+		await transaction`
+			UPDATE listmonk_ops.abtest_conversion_meta
+			SET value = ${String(CONVERSION_EVENT_POSTGRES_SCHEMA_VERSION)},
+				updated_at = now()
+			WHERE key = 'schema_version'
+		`;
+	});
+}
+
+/**
+ * Postgres-backed conversion event store for multi-replica deployments.
+ * `event_id` is the primary key, so concurrent replicas recording the same
+ * event converge on one row and every other writer observes "duplicate".
+ */
+export class PostgresConversionEventStore implements ConversionEventStore {
+	private readonly sql: Sql;
+	private readonly defaultAttribution: ConversionAttributionPolicy;
+	private initialization: Promise<void> | undefined;
+
+	constructor(options: PostgresConversionEventStoreOptions) {
+		const {
+			connectionString,
+			maxConnections,
+			idleTimeoutSeconds,
+			connectTimeoutSeconds,
+			...attribution
+		} = options;
+		this.sql = postgres(assertConnectionString(connectionString), {
+			max: resolvePositiveInteger(maxConnections, 5, "maxConnections", 50),
+			idle_timeout: resolvePositiveInteger(
+				idleTimeoutSeconds,
+				20,
+				"idleTimeoutSeconds",
+				600,
+			),
+			connect_timeout: resolvePositiveInteger(
+				connectTimeoutSeconds,
+				10,
+				"connectTimeoutSeconds",
+				120,
+			),
+		});
+		this.defaultAttribution = attribution;
+	}
+
+	async record(
+		input: ConversionEventInput,
+		attribution?: ConversionAttributionPolicy,
+	): Promise<"created" | "duplicate"> {
+		await this.ready();
+		const existing = await this.sql<{ event_id: string }[]>`
+			SELECT event_id
+			FROM listmonk_ops.abtest_conversion_events
+			WHERE event_id = ${input.eventId}
+		`;
+		if (existing.length > 0) {
+			return "duplicate";
+		}
+
+		validateConversionEvent(input);
+		assertConversionAttribution(input, {
+			...this.defaultAttribution,
+			...attribution,
+		});
+
+		const event = sanitizeConversionEvent(input);
+		const inserted = await this.sql<{ event_id: string }[]>`
+			INSERT INTO listmonk_ops.abtest_conversion_events (
+				event_id, test_id, variant_id, subscriber_uuid, event,
+				value, currency, occurred_at
+			)
+			VALUES (
+				${event.eventId},
+				${event.testId},
+				${event.variantId},
+				${event.subscriberUuid},
+				${event.event},
+				${event.value ?? null},
+				${event.currency ?? null},
+				${event.occurredAt}::timestamptz
+			)
+			ON CONFLICT (event_id) DO NOTHING
+			RETURNING event_id
+		`;
+		return inserted.length > 0 ? "created" : "duplicate";
+	}
+
+	async aggregate(testId: string): Promise<VariantConversionAggregate[]> {
+		await this.ready();
+		const rows = await this.sql<ConversionAggregateRow[]>`
+			SELECT
+				variant_id,
+				count(*)::int AS total_events,
+				count(DISTINCT subscriber_uuid)::int AS unique_subscribers,
+				coalesce(sum(value), 0) AS total_value,
+				array_agg(DISTINCT currency) FILTER (WHERE value IS NOT NULL)
+					AS currencies
+			FROM listmonk_ops.abtest_conversion_events
+			WHERE test_id = ${testId}
+			GROUP BY variant_id
+			ORDER BY min(recorded_at) ASC, variant_id ASC
+		`;
+		return rows.map((row) => {
+			const currencies = (row.currencies ?? []).filter(
+				(currency): currency is string => currency !== null,
+			);
+			if (currencies.length > 1) {
+				throw new ConversionEventValidationError(
+					`variant ${row.variant_id} has mixed currencies: ${currencies.join(", ")}`,
+				);
+			}
+			return {
+				variantId: row.variant_id,
+				totalEvents: row.total_events,
+				uniqueSubscribers: row.unique_subscribers,
+				totalValue: Number(row.total_value ?? 0),
+				currency: currencies[0],
+				conversionRate: 0,
+				revenuePerRecipient: 0,
+			};
+		});
+	}
+
+	async close(): Promise<void> {
+		await this.sql.end({ timeout: 5 });
+	}
+
+	private ready(): Promise<void> {
+		this.initialization ??= initializeSchema(this.sql).catch((error) => {
+			this.initialization = undefined;
+			throw error;
+		});
+		return this.initialization;
+	}
+}
+
+const postgresStoreCache = new Map<string, PostgresConversionEventStore>();
+
+export interface ConversionEventStoreRuntimeOptions {
+	path?: string;
+	databaseUrl?: string;
+}
+
+/**
+ * Resolve the conversion event store configured for this process. A
+ * database URL selects the Postgres store (cached per URL so replicas share
+ * one pool); otherwise the JSON file store is used.
+ */
+export function getConversionEventStoreFromEnvironment(
+	options: ConversionEventStoreRuntimeOptions = {},
+): ConversionEventStore {
+	const path =
+		options.path ??
+		(process.env[CONVERSION_EVENT_STORE_PATH_ENV]?.trim() || undefined);
+	const databaseUrl =
+		options.databaseUrl ??
+		(process.env[CONVERSION_EVENT_DATABASE_URL_ENV]?.trim() || undefined);
+	if (path && databaseUrl) {
+		throw new TypeError(
+			`Configure only one of ${CONVERSION_EVENT_STORE_PATH_ENV} or ${CONVERSION_EVENT_DATABASE_URL_ENV}`,
+		);
+	}
+	if (!databaseUrl) {
+		return new JsonFileConversionEventStore({ path });
+	}
+	let store = postgresStoreCache.get(databaseUrl);
+	if (!store) {
+		store = new PostgresConversionEventStore({ connectionString: databaseUrl });
+		postgresStoreCache.set(databaseUrl, store);
+	}
+	return store;
+}
+
+export async function closeConversionEventStores(): Promise<void> {
+	const stores = [...postgresStoreCache.values()];
+	postgresStoreCache.clear();
+	const results = await Promise.allSettled(
+		stores.map((store) => store.close()),
+	);
+	const failures = results
+		.filter(
+			(result): result is PromiseRejectedResult =>
+				result.status === "rejected",
+		)
+		.map((result) => result.reason);
+	if (failures.length > 0) {
+		throw new AggregateError(
+			failures,
+			"Failed to close one or more conversion event stores",
+		);
+	}
+}
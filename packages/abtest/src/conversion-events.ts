@@ -1,3 +1,5 @@
+import { groupIndexForUuids } from "./assignment";
+import type { AudienceMember } from "./audience";
 import type { AbTest } from "./types";
 
 /**
@@ -41,8 +43,36 @@ export interface VariantConversionAggregate {
 	revenuePerRecipient: number;
 }
 
+/**
+ * Returns whether a subscriber UUID is assigned to a variant in a test.
+ */
+export type ConversionAssignmentLookup = (
+	testId: string,
+	variantId: string,
+	subscriberUuid: string,
+) => boolean;
+
+/** Inclusive epoch-millisecond range in which conversions are attributed. */
+export interface ConversionAttributionWindow {
+	startTime: number;
+	endTime: number;
+}
+
+/**
+ * Attribution rules applied when a conversion is first recorded. Stores
+ * accept a default policy at construction and a per-call override so one
+ * durable store can serve many tests with different manifests and windows.
+ */
+export interface ConversionAttributionPolicy {
+	assignmentLookup?: ConversionAssignmentLookup;
+	attributionWindow?: ConversionAttributionWindow;
+}
+
 export interface ConversionEventStore {
-	record(input: ConversionEventInput): Promise<"created" | "duplicate">;
+	record(
+		input: ConversionEventInput,
+		attribution?: ConversionAttributionPolicy,
+	): Promise<"created" | "duplicate">;
 	aggregate(testId: string): Promise<VariantConversionAggregate[]>;
 }
 
@@ -101,9 +131,208 @@ export function validateConversionEvent(
 	}
 }
 
+/**
+ * Enforce the manifest and attribution-window rules for a validated event.
+ * Shared by every store so in-memory, file, and Postgres stores reject the
+ * same events.
+ */
+export function assertConversionAttribution(
+	input: ConversionEventInput,
+	attribution: ConversionAttributionPolicy = {},
+): void {
+	if (attribution.assignmentLookup) {
+		if (
+			!attribution.assignmentLookup(
+				input.testId,
+				input.variantId,
+				input.subscriberUuid,
+			)
+		) {
+			throw new ConversionEventValidationError(
+				`subscriber ${input.subscriberUuid} is not assigned to variant ${input.variantId} in test ${input.testId}`,
+			);
+		}
+	}
+
+	const window = attribution.attributionWindow;
+	if (window) {
+		if (
+			!Number.isFinite(window.startTime) ||
+			!Number.isFinite(window.endTime) ||
+			window.startTime > window.endTime
+		) {
+			throw new ConversionEventValidationError(
+				"attribution window is malformed (non-finite or reversed)",
+			);
+		}
+		const occurredMs = new Date(input.occurredAt).getTime();
+		if (occurredMs < window.startTime || occurredMs > window.endTime) {
+			throw new ConversionEventValidationError(
+				`event occurred outside the attribution window`,
+			);
+		}
+	}
+}
+
+/**
+ * Clone only the allowed fields to enforce PII-free storage.
+ */
+export function sanitizeConversionEvent(
+	input: ConversionEventInput,
+): ConversionEventInput {
+	return {
+		eventId: input.eventId,
+		testId: input.testId,
+		variantId: input.variantId,
+		subscriberUuid: input.subscriberUuid,
+		event: input.event,
+		value: input.value,
+		currency: input.currency,
+		occurredAt: input.occurredAt,
+	};
+}
+
+/**
+ * Aggregate recorded events per variant. `conversionRate` and
+ * `revenuePerRecipient` stay zero here because a store does not know how
+ * many recipients each variant reached; the metrics collector fills them
+ * in from campaign send counts.
+ */
+export function aggregateConversionEvents(
+	events: readonly ConversionEventInput[],
+): VariantConversionAggregate[] {
+	const byVariant = new Map<string, ConversionEventInput[]>();
+
+	for (const event of events) {
+		const list = byVariant.get(event.variantId) ?? [];
+		list.push(event);
+		byVariant.set(event.variantId, list);
+	}
+
+	const aggregates: VariantConversionAggregate[] = [];
+	for (const [variantId, variantEvents] of byVariant) {
+		const uniqueSubscribers = new Set(
+			variantEvents.map((e) => e.subscriberUuid),
+		);
+		const revenueEvents = variantEvents.filter((e) => e.value !== undefined);
+		const currencies = new Set(revenueEvents.map((e) => e.currency));
+		if (currencies.size > 1) {
+			throw new ConversionEventValidationError(
+				`variant ${variantId} has mixed currencies: ${[...currencies].join(", ")}`,
+			);
+		}
+		const totalValue = revenueEvents.reduce(
+			(sum, e) => sum + (e.value ?? 0),
+			0,
+		);
+		const currency = revenueEvents[0]?.currency;
+
+		aggregates.push({
+			variantId,
+			totalEvents: variantEvents.length,
+			uniqueSubscribers: uniqueSubscribers.size,
+			totalValue,
+			currency,
+			conversionRate: 0,
+			revenuePerRecipient: 0,
+		});
+	}
+
+	return aggregates;
+}
+
+/**
+ * Derive the attribution window for a launched test: from the shared send
+ * time until the test ends plus the pre-registered attribution window.
+ * Returns undefined while the test has not launched or has no end bound.
+ */
+export function conversionAttributionWindowForTest(
+	test: AbTest,
+): ConversionAttributionWindow | undefined {
+	const launchedAt = test.launchAt ?? test.startedAt;
+	if (launchedAt === undefined) {
+		return undefined;
+	}
+	const startTime = new Date(launchedAt).getTime();
+	const attributionMs =
+		(test.hypothesis?.experimentScope.attributionWindowHours ?? 0) *
+		3_600_000;
+	if (test.endsAt !== undefined) {
+		return {
+			startTime,
+			endTime: new Date(test.endsAt).getTime() + attributionMs,
+		};
+	}
+	if (attributionMs > 0) {
+		return { startTime, endTime: startTime + attributionMs };
+	}
+	return undefined;
+}
+
+/**
+ * Build an assignment lookup from a test's manifest. Without the resolved
+ * audience only the variant id is checked against the manifest's variant
+ * groups; with it, the subscriber must rank into that variant's slice.
+ */
+export function createManifestAssignmentLookup(
+	test: AbTest,
+	members?: readonly AudienceMember[],
+): ConversionAssignmentLookup {
+	const manifest = test.assignmentManifest;
+	const variantGroupIndexes = new Map<string, number>();
+	if (manifest) {
+		for (const [index, group] of manifest.groups.entries()) {
+			if (group.kind === "variant") {
+				variantGroupIndexes.set(group.variantId, index);
+			}
+		}
+	} else {
+		for (const [index, variant] of test.variants.entries()) {
+			variantGroupIndexes.set(variant.id, index);
+		}
+	}
+
+	// Bandit waves reassign holdout members after provisioning. The manifest
+	// only fixes the holdout pool, so a holdout member is accepted for any
+	// variant that received recipients in a sent wave.
+	const holdoutGroupIndex = manifest?.groups.findIndex(
+		(group) => group.kind === "holdout",
+	);
+	const waveVariantIds = new Set(
+		(test.banditWaves ?? []).flatMap((wave) =>
+			(wave.groups ?? []).map((group) => group.variantId),
+		),
+	);
+
+	let groupIndexes: Map<string, number> | undefined;
+	return (testId, variantId, subscriberUuid) => {
+		const groupIndex = variantGroupIndexes.get(variantId);
+		if (testId !== test.id || groupIndex === undefined) {
+			return false;
+		}
+		if (!manifest || members === undefined) {
+			return true;
+		}
+		groupIndexes ??= groupIndexForUuids(
+			manifest,
+			test.id,
+			members,
+			members.map((member) => member.subscriberUuid),
+		);
+		const assigned = groupIndexes.get(subscriberUuid);
+		return (
+			assigned === groupIndex ||
+			(assigned !== undefined &&
+				assigned === holdoutGroupIndex &&
+				waveVariantIds.has(variantId))
+		);
+	};
+}
+
 /**
  * In-memory conversion event store. No persistence; for testing only.
- * Production should use a Postgres-backed store.
+ * Production uses JsonFileConversionEventStore or
+ * PostgresConversionEventStore.
  */
 export class InMemoryConversionEventStore implements ConversionEventStore {
 	private readonly events = new Map<string, ConversionEventInput>();
@@ -117,19 +346,13 @@ export class InMemoryConversionEventStore implements ConversionEventStore {
 	 * attribution. Events outside this window are rejected.
 	 */
 	constructor(
-		private readonly assignmentLookup?: (
-			testId: string,
-			variantId: string,
-			subscriberUuid: string,
-		) => boolean,
-		private readonly attributionWindow?: {
-			startTime: number;
-			endTime: number;
-		},
+		private readonly assignmentLookup?: ConversionAssignmentLookup,
+		private readonly attributionWindow?: ConversionAttributionWindow,
 	) {}
 
 	async record(
 		input: ConversionEventInput,
+		attribution?: ConversionAttributionPolicy,
 	): Promise<"created" | "duplicate"> {
 		// Check idempotency before validation — a retry should succeed
 		// even if the assignment or window config changed since the
@@ -139,54 +362,13 @@ export class InMemoryConversionEventStore implements ConversionEventStore {
 		}
 
 		validateConversionEvent(input);
+		assertConversionAttribution(input, {
+			assignmentLookup: this.assignmentLookup,
+			attributionWindow: this.attributionWindow,
+			...attribution,
+		});
 
-		if (this.assignmentLookup) {
-			if (
-				!this.assignmentLookup(
-					input.testId,
-					input.variantId,
-					input.subscriberUuid,
-				)
-			) {
-				throw new ConversionEventValidationError(
-					`subscriber ${input.subscriberUuid} is not assigned to variant ${input.variantId} in test ${input.testId}`,
-				);
-			}
-		}
-
-		if (this.attributionWindow) {
-			if (
-				!Number.isFinite(this.attributionWindow.startTime) ||
-				!Number.isFinite(this.attributionWindow.endTime) ||
-				this.attributionWindow.startTime >
-					this.attributionWindow.endTime
-			) {
-				throw new ConversionEventValidationError(
-					"attribution window is malformed (non-finite or reversed)",
-				);
-			}
-			const occurredMs = new Date(input.occurredAt).getTime();
-			if (
-				occurredMs < this.attributionWindow.startTime ||
-				occurredMs > this.attributionWindow.endTime
-			) {
-				throw new ConversionEventValidationError(
-					`event occurred outside the attribution window`,
-				);
-			}
-		}
-
-		// Clone only the allowed fields to enforce PII-free storage.
-		const sanitized: ConversionEventInput = {
-			eventId: input.eventId,
-			testId: input.testId,
-			variantId: input.variantId,
-			subscriberUuid: input.subscriberUuid,
-			event: input.event,
-			value: input.value,
-			currency: input.currency,
-			occurredAt: input.occurredAt,
-		};
+		const sanitized = sanitizeConversionEvent(input);
 		this.events.set(input.eventId, sanitized);
 		const list = this.byTest.get(input.testId) ?? [];
 		list.push(sanitized);
@@ -197,44 +379,6 @@ export class InMemoryConversionEventStore implements ConversionEventStore {
 	async aggregate(
 		testId: string,
 	): Promise<VariantConversionAggregate[]> {
-		const events = this.byTest.get(testId) ?? [];
-		const byVariant = new Map<string, ConversionEventInput[]>();
-
-		for (const event of events) {
-			const list = byVariant.get(event.variantId) ?? [];
-			list.push(event);
-			byVariant.set(event.variantId, list);
-		}
-
-		const aggregates: VariantConversionAggregate[] = [];
-		for (const [variantId, variantEvents] of byVariant) {
-			const uniqueSubscribers = new Set(
-				variantEvents.map((e) => e.subscriberUuid),
-			);
-			const revenueEvents = variantEvents.filter((e) => e.value !== undefined);
-			const currencies = new Set(revenueEvents.map((e) => e.currency));
-			if (currencies.size > 1) {
-				throw new ConversionEventValidationError(
-					`variant ${variantId} has mixed currencies: ${[...currencies].join(", ")}`,
-				);
-			}
-			const totalValue = revenueEvents.reduce(
-				(sum, e) => sum + (e.value ?? 0),
-				0,
-			);
-			const currency = revenueEvents[0]?.currency;
-
-			aggregates.push({
-				variantId,
-				totalEvents: variantEvents.length,
-				uniqueSubscribers: uniqueSubscribers.size,
-				totalValue,
-				currency,
-				conversionRate: 0,
-				revenuePerRecipient: 0,
-			});
-		}
-
-		return aggregates;
+		return aggregateConversionEvents(this.byTest.get(testId) ?? []);
 	}
 }
@@ -7,6 +7,8 @@ import {
 	GetAbTestCommand,
 	ListAbTestsCommand,
 } from "./basic";
+import { banditWavesComplete, nextBanditWaveDueAt } from "./bandit";
+import type { ConversionEventStore } from "./conversion-events";
 import { ListmonkAbTestIntegration } from "./listmonk-integration";
 import { ListmonkMetricsCollector } from "./metrics";
 import { cancelAbTest } from "./lifecycle";
@@ -20,8 +22,16 @@ import type {
 } from "./types";
 import { ABTEST_SAFETY_LEAD_SECONDS, TERMINAL_STATUSES } from "./types";
 
+export interface AbTestExecutorOptions {
+	/** Source of conversion aggregates for analysis; conversions are zero without it. */
+	conversionEventStore?: ConversionEventStore;
+}
+
 // A/B Test command executors factory with Listmonk integration
-export function createAbTestExecutors(listmonkClient: ListmonkClient) {
+export function createAbTestExecutors(
+	listmonkClient: ListmonkClient,
+	options: AbTestExecutorOptions = {},
+) {
 	// Create Listmonk integration
 	const listmonkIntegration = new ListmonkAbTestIntegration(listmonkClient);
 
@@ -29,7 +39,10 @@ export function createAbTestExecutors(listmonkClient: ListmonkClient) {
 	// ListmonkMetricsCollector so production uses the same fail-closed
 	// collector that tests exercise, rather than the legacy
 	// collectTestResults path on the integration.
-	const metricsCollector = new ListmonkMetricsCollector(listmonkClient);
+	const metricsCollector = new ListmonkMetricsCollector(
+		listmonkClient,
+		options.conversionEventStore,
+	);
 	const abTestService = new AbTestService(
 		listmonkIntegration,
 		metricsCollector,
@@ -202,6 +215,27 @@ export function createAbTestExecutors(listmonkClient: ListmonkClient) {
 	// Orchestration operations. These are intentionally lightweight stubs
 	// that perform a single status-based progression step; full scheduling,
 	// duration checks, and reconciliation logic land in later stages.
+	// Deploy the winner for auto-deploy holdout tests, otherwise settle the
+	// test as completed or inconclusive on the significance result.
+	// Full-split tests do not support winner deployment.
+	const concludeAnalysis = async (
+		test: AbTest,
+		analysis: TestAnalysis,
+	): Promise<AbTest | null> => {
+		if (
+			test.autoDeployWinner &&
+			analysis.winner &&
+			test.testingMode === "holdout"
+		) {
+			await abTestService.deployWinner(test.id);
+			return await abTestService.updateTestStatus(test.id, "completed");
+		}
+		return await abTestService.updateTestStatus(
+			test.id,
+			analysis.analysis.isSignificant ? "completed" : "inconclusive",
+		);
+	};
+
 	const runAbTestImpl = async (
 		testId: string,
 		expected: {
@@ -258,6 +292,16 @@ export function createAbTestExecutors(listmonkClient: ListmonkClient) {
 				return test;
 			}
 			case "running": {
+				// A bandit test sends its holdout in waves, one due wave per
+				// tick, and only becomes eligible for analysis once the whole
+				// pool has been sent.
+				if (test.testingMode === "bandit" && !banditWavesComplete(test)) {
+					const dueAt = nextBanditWaveDueAt(test);
+					if (dueAt !== undefined && Date.now() >= new Date(dueAt).getTime()) {
+						return await abTestService.advanceBanditWave(testId);
+					}
+					return test;
+				}
 				// A running test should only advance to analyzing after its
 				// endsAt has passed. If endsAt is not set (no durationHours),
 				// do NOT auto-advance — the operator must explicitly trigger
@@ -270,26 +314,23 @@ export function createAbTestExecutors(listmonkClient: ListmonkClient) {
 						return await abTestService.updateTestStatus(testId, "analyzing");
 					}
 				}
+				// A sequential test may stop early: conclude it as soon as an
+				// interim look crosses its pre-registered mSPRT boundary, using
+				// that same look so a later re-analysis cannot undo the stop. The
+				// tick is the only caller that records looks into the test.
+				if (test.hypothesis?.analysisPlan?.mode === "sequential") {
+					const interim = await abTestService.recordSequentialLook(testId);
+					if (interim.analysis.isSignificant) {
+						await abTestService.updateTestStatus(testId, "analyzing");
+						return await concludeAnalysis(test, interim);
+					}
+				}
 				return test;
 			}
 			case "analyzing": {
-				// Run analysis, then deploy the winner if configured for a
-				// holdout test, or mark inconclusive/completed based on the
-				// significance result. Full-split tests do not support
-				// winner deployment.
+				// Run analysis, then conclude the test on its result.
 				const analysis = await abTestService.analyzeTest(testId);
-				if (
-					test.autoDeployWinner &&
-					analysis.winner &&
-					test.testingMode === "holdout"
-				) {
-					await abTestService.deployWinner(testId);
-					return await abTestService.updateTestStatus(testId, "completed");
-				}
-				return await abTestService.updateTestStatus(
-					testId,
-					analysis.analysis.isSignificant ? "completed" : "inconclusive",
-				);
+				return await concludeAnalysis(test, analysis);
 			}
 			default: {
 				// `testing`, `deploying`, and `cancelling` are transitional
@@ -299,6 +340,48 @@ export function createAbTestExecutors(listmonkClient: ListmonkClient) {
 		}
 	};
 
+	// Plan the due bandit wave of each running bandit test without sending
+	// it. Stored callers commit this in its own write before `runAbTest` or
+	// `tickAbTests` sends, so a failed send leaves a persisted planned wave
+	// that the next attempt reuses instead of re-sampling. A test that no
+	// longer matches the caller's approved status/updatedAt is left alone
+	// for runAbTest to reject.
+	const planDueBanditWavesImpl = async (
+		testId?: string,
+		expected: {
+			expectedStatus?: AbTest["status"];
+			expectedUpdatedAt?: string;
+		} = {},
+	): Promise<number> => {
+		const tests =
+			testId === undefined
+				? await abTestService.getAllTests()
+				: [await abTestService.getTest(testId)];
+		let planned = 0;
+		for (const test of tests) {
+			if (
+				!test ||
+				test.status !== "running" ||
+				test.testingMode !== "bandit" ||
+				banditWavesComplete(test) ||
+				(expected.expectedStatus !== undefined &&
+					test.status !== expected.expectedStatus) ||
+				(expected.expectedUpdatedAt !== undefined &&
+					test.updatedAt.toISOString() !== expected.expectedUpdatedAt) ||
+				(test.banditWaves ?? []).some((wave) => wave.status === "planned")
+			) {
+				continue;
+			}
+			const dueAt = nextBanditWaveDueAt(test);
+			if (dueAt === undefined || Date.now() < new Date(dueAt).getTime()) {
+				continue;
+			}
+			await abTestService.planBanditWave(test.id);
+			planned += 1;
+		}
+		return planned;
+	};
+
 	const tickAbTestsImpl = async (
 		dryRun: boolean,
 	): Promise<
@@ -331,7 +414,20 @@ export function createAbTestExecutors(listmonkClient: ListmonkClient) {
 			if (dryRun) {
 				// Report what would happen without mutating state. Mirror
 				// runAbTestImpl's no-op conditions so the preview is accurate.
-				if (
+				if (test.status === "running" && test.testingMode === "bandit" && !banditWavesComplete(test)) {
+					const dueAt = nextBanditWaveDueAt(test);
+					const nextWave =
+						(test.banditWaves ?? []).find((wave) => wave.status === "planned")
+							?.wave ?? (test.banditWaves ?? []).length + 1;
+					results.push({
+						test_id: test.id,
+						status: test.status,
+						action:
+							dueAt !== undefined && Date.now() >= new Date(dueAt).getTime()
+								? `dry-run:would-send:bandit-wave-${nextWave}`
+								: "dry-run:noop:bandit-wave-not-due",
+					});
+				} else if (
 					test.status === "running" &&
 					(!test.endsAt ||
 						Date.now() < new Date(test.endsAt).getTime())
@@ -339,9 +435,12 @@ export function createAbTestExecutors(listmonkClient: ListmonkClient) {
 					results.push({
 						test_id: test.id,
 						status: test.status,
-						action: !test.endsAt
-							? "dry-run:noop:running-no-endsAt"
-							: "dry-run:noop:running-before-endsAt",
+						action:
+							test.hypothesis?.analysisPlan?.mode === "sequential"
+								? "dry-run:would-check:sequential-boundary"
+								: !test.endsAt
+									? "dry-run:noop:running-no-endsAt"
+									: "dry-run:noop:running-before-endsAt",
 					});
 				} else if (
 					test.status === "scheduled" &&
@@ -378,12 +477,20 @@ export function createAbTestExecutors(listmonkClient: ListmonkClient) {
 				// the same AbTest in place, so test.status would already be
 				// the new status by the time we compare.
 				const oldStatus = test.status;
+				const sentWaves = (test.banditWaves ?? []).filter(
+					(wave) => wave.status === "sent",
+				).length;
 				const updated = await runAbTestImpl(test.id);
 				const newStatus = updated?.status ?? oldStatus;
+				const nowSentWaves = (updated?.banditWaves ?? []).filter(
+					(wave) => wave.status === "sent",
+				).length;
 				const action =
-					newStatus === oldStatus
-						? `noop:${oldStatus}`
-						: `progress:${oldStatus}->${newStatus}`;
+					newStatus !== oldStatus
+						? `progress:${oldStatus}->${newStatus}`
+						: nowSentWaves > sentWaves
+							? `progress:bandit-wave-${nowSentWaves}`
+							: `noop:${oldStatus}`;
 				results.push({
 					test_id: test.id,
 					status: newStatus,
@@ -570,6 +677,7 @@ export function createAbTestExecutors(listmonkClient: ListmonkClient) {
 
 		// Orchestration operations exposed to the shared operation executors.
 		runAbTest: runAbTestImpl,
+		planDueBanditWaves: planDueBanditWavesImpl,
 		tickAbTests: (dryRun: boolean = false) => tickAbTestsImpl(dryRun),
 		reconcileAbTest: (testId?: string, repair: boolean = false) =>
 			reconcileAbTestImpl(testId, repair),
@@ -46,6 +46,23 @@ export interface ExperimentScope {
 	exclusionWindowHours: number;
 }
 
+/**
+ * Pre-registered analysis plan. `fixed_horizon` (the default when omitted)
+ * only decides once the test reaches its horizon. `sequential` uses a
+ * mixture sequential probability ratio test (mSPRT) whose always-valid
+ * p-values allow `abtest tick` to stop early at any look without inflating
+ * the false-positive rate. `mixingVariance` is the variance of the normal
+ * prior over the difference in proportions; set it near the square of the
+ * smallest effect worth detecting.
+ */
+export type AnalysisPlan =
+	| { mode: "fixed_horizon" }
+	| {
+			mode: "sequential";
+			method: "msprt";
+			mixingVariance: number;
+	  };
+
 export interface HypothesisMetadata {
 	objective: string;
 	hypothesis: string;
@@ -56,6 +73,8 @@ export interface HypothesisMetadata {
 	expectedLift: ExpectedLift;
 	owner: ExperimentOwner;
 	experimentScope: ExperimentScope;
+	/** Omitted plans analyze at the fixed horizon. */
+	analysisPlan?: AnalysisPlan;
 	createdAt: string;
 	/** Set when the hypothesis is locked (pre-assignment). */
 	lockedAt?: string;
@@ -299,6 +318,47 @@ export function validateHypothesisMetadata(
 			);
 		}
 	}
+	if (metadata.analysisPlan !== undefined) {
+		const plan = metadata.analysisPlan;
+		if (!isPlainObject(plan)) {
+			throw new HypothesisValidationError(
+				`analysisPlan must be an object, received ${JSON.stringify(plan)}`,
+			);
+		}
+		const mode = (plan as { mode?: unknown }).mode;
+		if (mode === "sequential") {
+			const { method, mixingVariance } = plan as {
+				method?: unknown;
+				mixingVariance?: unknown;
+			};
+			if (method !== "msprt") {
+				throw new HypothesisValidationError(
+					`analysisPlan.method must be "msprt" for sequential analysis, received ${JSON.stringify(method)}`,
+				);
+			}
+			// The mixture is over a difference in proportions, so a variance
+			// above 1 cannot describe any plausible effect.
+			if (
+				typeof mixingVariance !== "number" ||
+				!Number.isFinite(mixingVariance) ||
+				mixingVariance <= 0 ||
+				mixingVariance > 1
+			) {
+				throw new HypothesisValidationError(
+					`analysisPlan.mixingVariance must be finite and in (0, 1], received ${JSON.stringify(mixingVariance)}`,
+				);
+			}
+			if (metadata.primaryMetric?.type === "revenue_per_recipient") {
+				throw new HypothesisValidationError(
+					"Sequential analysis supports click_rate and conversion_rate primary metrics only",
+				);
+			}
+		} else if (mode !== "fixed_horizon") {
+			throw new HypothesisValidationError(
+				`analysisPlan.mode must be "fixed_horizon" or "sequential", received ${JSON.stringify(mode)}`,
+			);
+		}
+	}
 }
 
 /**
@@ -331,8 +391,8 @@ function canonicalize(value: unknown): unknown {
  * Compute a canonical SHA-256 checksum for a HypothesisMetadata object.
  * The checksum excludes `lockedAt` and `checksum` themselves so the
  * same content always produces the same hash. Nested fields
- * (primaryMetric, expectedLift, owner, experimentScope) are recursively
- * canonicalized so any change to them invalidates the checksum.
+ * (primaryMetric, expectedLift, owner, experimentScope, analysisPlan) are
+ * recursively canonicalized so any change to them invalidates the checksum.
  */
 export function computeHypothesisChecksum(
 	metadata: HypothesisMetadata,
@@ -344,6 +404,9 @@ export function computeHypothesisChecksum(
 		expectedLift: metadata.expectedLift,
 		owner: { id: metadata.owner.id, displayName: metadata.owner.displayName },
 		experimentScope: metadata.experimentScope,
+		// Undefined keys drop out of the JSON, so hypotheses locked before
+		// analysis plans existed keep their original checksum.
+		analysisPlan: metadata.analysisPlan,
 		createdAt: metadata.createdAt,
 	}) as Record<string, unknown>;
 	const json = JSON.stringify(canonical);
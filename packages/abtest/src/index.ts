@@ -9,7 +9,7 @@ export {
 	GetAbTestCommand,
 	ListAbTestsCommand,
 } from "./basic";
-export type { AbTestExecutors } from "./factory";
+export type { AbTestExecutorOptions, AbTestExecutors } from "./factory";
 // Export factory function
 export { createAbTestExecutors } from "./factory";
 export { ListmonkAbTestIntegration } from "./listmonk-integration";
@@ -33,18 +33,42 @@ export {
 } from "./store-adapter";
 export { InMemoryAbTestStore, JsonFileAbTestStore } from "./store-adapters";
 export {
+	aggregateConversionEvents,
+	assertConversionAttribution,
+	conversionAttributionWindowForTest,
 	ConversionEventValidationError,
+	createManifestAssignmentLookup,
 	InMemoryConversionEventStore,
+	validateConversionEvent,
+	type ConversionAssignmentLookup,
+	type ConversionAttributionPolicy,
+	type ConversionAttributionWindow,
 	type ConversionEventInput,
 	type ConversionEventStore,
 	type VariantConversionAggregate,
 } from "./conversion-events";
+export {
+	closeConversionEventStores,
+	CONVERSION_EVENT_DATABASE_URL_ENV,
+	CONVERSION_EVENT_POSTGRES_SCHEMA_VERSION,
+	CONVERSION_EVENT_STORE_PATH_ENV,
+	getConversionEventStoreFromEnvironment,
+	getConversionEventStorePath,
+	JsonFileConversionEventStore,
+	PostgresConversionEventStore,
+	type ConversionEventStoreRuntimeOptions,
+	type JsonFileConversionEventStoreOptions,
+	type PostgresConversionEventStoreOptions,
+	type StoredConversionEvent,
+	type StoredConversionEventDocument,
+} from "./conversion-event-stores";
 export {
 	computeHypothesisChecksum,
 	HypothesisValidationError,
 	lockHypothesis,
 	validateHypothesisMetadata,
 	verifyHypothesisChecksum,
+	type AnalysisPlan,
 	type ExpectedLift,
 	type ExperimentOwner,
 	type ExperimentScope,
@@ -78,6 +102,41 @@ export {
 	type ExperimentParticipation,
 	type ExperimentParticipationStore,
 } from "./collision";
+export {
+	allocateBanditWave,
+	backingCampaignMappings,
+	banditWaveListIds,
+	banditWavesComplete,
+	computeThompsonAllocation,
+	DEFAULT_BANDIT_POLICY,
+	nextBanditWaveDueAt,
+	planBanditWaveSizes,
+	validateBanditPolicy,
+	type BanditArmAllocation,
+	type BanditPolicyV1,
+	type BanditWave,
+	type BanditWaveGroup,
+} from "./bandit";
+export {
+	computeBayesianAnalysis,
+	DEFAULT_BAYESIAN_POLICY,
+	validateBayesianPolicy,
+	type BayesianAnalysis,
+	type BayesianMetric,
+	type BayesianMetricAnalysis,
+	type BayesianPolicyV1,
+	type BayesianVariantSummary,
+} from "./bayesian";
+// Export the statistical checks so other experiment sources, such as
+// sequence split stats, can run the same SRM and multiple-comparison tests.
+export {
+	applyHolmCorrection,
+	checkSRM,
+	computeMsprtBoundary,
+	type HolmCorrectionResult,
+	type SequentialBoundary,
+	type SRMCheckResult,
+} from "./statistics";
 export {
 	buildExperimentReport,
 	evaluatePreRegistration,
@@ -92,6 +151,7 @@ export {
 	createPreviewGate,
 	createSeedSendRun,
 	DEFAULT_SEED_RECIPIENT_POLICY,
+	getSeedRecipientPolicyFromEnvironment,
 	isLaunchAllowed,
 	isSeedRunComplete,
 	PreviewValidationError,
@@ -123,11 +183,14 @@ export {
 	invokeListAbTestsOperation,
 	invokeReconcileAbTestOperation,
 	invokeRecommendAbTestSampleSizeOperation,
+	invokeRecordAbTestConversionsOperation,
 	invokeRunAbTestOperation,
 	invokeStopAbTestOperation,
 	invokeTickAbTestsOperation,
+	recordAbTestConversionsOperation,
 } from "./operations";
 export type {
+	AbTestConversionEventOperationInput,
 	AbTestOperation,
 	AbTestOperationContext,
 	AbTestOperationInvocation,
@@ -142,6 +205,7 @@ export type {
 	ListAbTestsOperationOutput,
 	ReconcileAbTestOperationOutput,
 	RecommendAbTestSampleSizeOperationOutput,
+	RecordAbTestConversionsOperationOutput,
 	RunAbTestOperationOutput,
 	StopAbTestOperationOutput,
 	TestAnalysisOperationRecord,
@@ -1,4 +1,5 @@
 import type { ListmonkClient } from "@listmonk-ops/openapi";
+import { backingCampaignMappings, banditWaveListIds } from "./bandit";
 import type { AbTest } from "./types";
 
 /**
@@ -142,7 +143,7 @@ export function planCancelAbTest(
 	const campaignActions: RemoteCampaignAction[] = [];
 	const survivingCampaignIds: number[] = [];
 
-	for (const mapping of test.campaignMappings) {
+	for (const mapping of backingCampaignMappings(test)) {
 		const status = observedStatuses.get(mapping.campaignId);
 		if (status === undefined) {
 			// Could not observe (e.g. 403/5xx). Do not guess: leave it so a
@@ -203,11 +204,15 @@ export function planCancelAbTest(
 		campaignActions.push({ kind: "delete", campaignId: mapping.campaignId });
 	}
 
-	// Collect list ids from testListMappings and the optional holdout list.
+	// Collect list ids from testListMappings, bandit wave lists, and the
+	// optional holdout list.
 	const listIds = new Set<number>();
 	for (const mapping of test.testListMappings) {
 		listIds.add(mapping.listId);
 	}
+	for (const listId of banditWaveListIds(test)) {
+		listIds.add(listId);
+	}
 	if (test.holdoutListId !== undefined) {
 		listIds.add(test.holdoutListId);
 	}
@@ -552,7 +557,7 @@ export async function cancelAbTest(
 	// campaignsBlockingListDeletion unconditionally, so fetching its status
 	// would only risk a spurious hadFetchFailures if it is unobservable.
 	const campaignIds = [
-		...new Set(test.campaignMappings.map((m) => m.campaignId)),
+		...new Set(backingCampaignMappings(test).map((m) => m.campaignId)),
 	];
 	const { statuses: observedStatuses, unobservable } =
 		await fetchCampaignStatuses(client, campaignIds);
@@ -9,10 +9,20 @@ import {
 	type AudienceMember,
 	type AudienceSnapshot,
 } from "./audience";
-import { AbTestMetricsUnavailableError } from "./metrics";
+import {
+	AbTestMetricsUnavailableError,
+	type CampaignCounts,
+	sumCampaignCountsByVariant,
+} from "./metrics";
+import {
+	allocateBanditWave,
+	type BanditWave,
+	type BanditWaveGroup,
+} from "./bandit";
 import {
 	buildAssignmentManifest,
 	generateAssignmentSeed,
+	groupChecksum,
 	rankMembers,
 	type AssignmentManifest,
 } from "./assignment";
@@ -917,8 +927,8 @@ export class ListmonkAbTestIntegration {
 			);
 		}
 
-		const results = await Promise.all(
-			campaignMappings.map(async (mapping): Promise<TestResults> => {
+		const counts = await Promise.all(
+			campaignMappings.map(async (mapping): Promise<CampaignCounts> => {
 				try {
 					const campaignResult = await this.listmonkClient.campaign.getById({
 						path: { id: mapping.campaignId },
@@ -927,21 +937,11 @@ export class ListmonkAbTestIntegration {
 						campaignResult,
 						`Failed to get campaign ${mapping.campaignId}`,
 					);
-
-					const sampleSize = campaign.sent || 0;
-					const opens = campaign.views || 0;
-					const clicks = campaign.clicks || 0;
-					const conversions = 0;
-
 					return {
 						variantId: mapping.variantId,
-						sampleSize,
-						opens,
-						clicks,
-						conversions,
-						openRate: sampleSize > 0 ? (opens / sampleSize) * 100 : 0,
-						clickRate: sampleSize > 0 ? (clicks / sampleSize) * 100 : 0,
-						conversionRate: 0,
+						sent: campaign.sent || 0,
+						views: campaign.views || 0,
+						clicks: campaign.clicks || 0,
 					};
 				} catch (error) {
 					throw new AbTestMetricsUnavailableError(testId, error);
@@ -949,6 +949,24 @@ export class ListmonkAbTestIntegration {
 			}),
 		);
 
+		const results = sumCampaignCountsByVariant(counts).map(
+			(variant): TestResults => {
+				const sampleSize = variant.sent;
+				const opens = variant.views;
+				const clicks = variant.clicks;
+				return {
+					variantId: variant.variantId,
+					sampleSize,
+					opens,
+					clicks,
+					conversions: 0,
+					openRate: sampleSize > 0 ? (opens / sampleSize) * 100 : 0,
+					clickRate: sampleSize > 0 ? (clicks / sampleSize) * 100 : 0,
+					conversionRate: 0,
+				};
+			},
+		);
+
 		return results;
 	}
 
@@ -1105,6 +1123,187 @@ export class ListmonkAbTestIntegration {
 		}
 	}
 
+	/**
+	 * Sends one bandit wave from the holdout pool. The pool is ranked in the
+	 * manifest's digest order (same test id and seed), the head of it is
+	 * split contiguously across variants by the wave's allocation, and each
+	 * slice gets its own list and campaign tagged `abtest:<testId>`,
+	 * `abtest-role:bandit-wave`, `bandit-wave:<n>`, and the variant.
+	 * Recipients leave the holdout list only after their campaigns run.
+	 *
+	 * Nothing is rolled back on failure: a retry adopts the tagged lists and
+	 * campaigns, and counts their members back into the pool, so the same
+	 * recipients are re-selected even if the holdout removal already ran.
+	 */
+	async sendBanditWave(
+		test: AbTest,
+		wave: BanditWave,
+		options: { lastWave: boolean },
+	): Promise<BanditWaveGroup[]> {
+		if (test.holdoutListId === undefined || test.assignmentSeed === undefined) {
+			throw new Error(
+				`Test ${test.id} has no holdout list or assignment seed to send bandit waves from`,
+			);
+		}
+		const holdoutListId = test.holdoutListId;
+		const waveTag = `bandit-wave:${wave.wave}`;
+		const waveLists = (await this.findListsByTestTag(test.id)).filter(
+			(list) =>
+				list.tags.includes("abtest-role:bandit-wave") &&
+				list.tags.includes(waveTag),
+		);
+		const waveCampaigns = (await this.findCampaignsByTestTag(test.id)).filter(
+			(campaign) => campaign.tags.includes(waveTag),
+		);
+		const adoptedFor = <T extends { id: number; tags: string[] }>(
+			rows: T[],
+			variantTag: string,
+			kind: string,
+		): T | undefined => {
+			const matches = rows.filter((row) => row.tags.includes(variantTag));
+			if (matches.length > 1) {
+				throw new Error(
+					`Ambiguous ${kind}s tagged ${waveTag} and ${variantTag} for test ${test.id}; resolve the duplicates before retrying`,
+				);
+			}
+			return matches.at(0);
+		};
+
+		const resolver = createListmonkAudienceResolver(this.listmonkClient);
+		await resolver.resolve([holdoutListId, ...waveLists.map((list) => list.id)]);
+		const ranked = rankMembers(
+			test.id,
+			test.assignmentSeed,
+			resolver.members(),
+		);
+		const recipients = options.lastWave
+			? ranked
+			: ranked.slice(0, wave.plannedSize);
+
+		const groups: BanditWaveGroup[] = [];
+		let cursor = 0;
+		for (const { variantId, count } of allocateBanditWave(
+			recipients.length,
+			wave.allocation,
+		)) {
+			const slice = recipients
+				.slice(cursor, cursor + count)
+				.map((entry) => entry.member);
+			cursor += count;
+			const variant = test.variants.find((v) => v.id === variantId);
+			if (variant === undefined || slice.length === 0) {
+				continue;
+			}
+			const subscriberIds = slice.map((member) => member.subscriberId);
+
+			const adoptedList = adoptedFor(
+				waveLists,
+				`abtest-variant:${variantId}`,
+				"list",
+			);
+			let listId: number;
+			if (adoptedList === undefined) {
+				const listResult = await this.listmonkClient.list.create({
+					body: {
+						name: `A/B Test - ${variant.name} - Wave ${wave.wave} - ${Date.now()}`,
+						type: "private",
+						optin: "single",
+						description: `Bandit wave ${wave.wave} for A/B test variant ${variant.name}`,
+						tags: [
+							`abtest:${test.id}`,
+							"abtest-role:bandit-wave",
+							waveTag,
+							`abtest-variant:${variantId}`,
+						],
+					},
+				});
+				listId = this.requireNumericId(
+					this.unwrapData(
+						listResult,
+						`Failed to create wave ${wave.wave} list for variant ${variant.name}`,
+					).id,
+					`Failed to create wave ${wave.wave} list for variant ${variant.name}`,
+				);
+				await this.addSubscribersToListBulk(subscriberIds, listId);
+			} else {
+				listId = adoptedList.id;
+				await this.reconcileListMembership(subscriberIds, listId);
+			}
+
+			const adoptedCampaign = adoptedFor(
+				waveCampaigns,
+				`variant:${variantId}`,
+				"campaign",
+			);
+			let campaignId: number;
+			let status: string | undefined;
+			if (adoptedCampaign === undefined) {
+				const campaignResult = await this.listmonkClient.campaign.create({
+					body: {
+						name: `${test.name} - ${variant.name} (wave ${wave.wave})`,
+						subject:
+							variant.contentOverrides.subject || test.baseConfig.subject,
+						body: variant.contentOverrides.body || test.baseConfig.body,
+						lists: [listId],
+						type: "regular",
+						content_type: "html",
+						template_id: test.baseConfig.template_id,
+						tags: [
+							`abtest:${test.id}`,
+							"abtest-role:bandit-wave",
+							waveTag,
+							`variant:${variantId}`,
+						],
+					},
+				});
+				campaignId = this.requireNumericId(
+					this.unwrapData(
+						campaignResult,
+						`Failed to create wave ${wave.wave} campaign for variant ${variant.name}`,
+					).id,
+					`Failed to create wave ${wave.wave} campaign for variant ${variant.name}`,
+				);
+			} else {
+				campaignId = adoptedCampaign.id;
+				status = this.unwrapData(
+					await this.listmonkClient.campaign.getById({
+						path: { id: campaignId },
+					}),
+					`Failed to get campaign ${campaignId}`,
+				).status;
+			}
+			// An adopted campaign may already be sending from the crashed
+			// attempt; only drafts need the status transition.
+			if (status === undefined || status === "draft") {
+				const statusResult = await this.listmonkClient.campaign.updateStatus({
+					path: { id: campaignId },
+					body: { status: "running" },
+				});
+				if ("error" in statusResult) {
+					throw new Error(
+						`Failed to update status for campaign ${campaignId}: ${this.formatError(statusResult.error)}`,
+					);
+				}
+			}
+
+			groups.push({
+				variantId,
+				expectedCount: slice.length,
+				subscriberChecksum: groupChecksum(
+					slice.map((member) => member.subscriberUuid),
+				),
+				listId,
+				campaignId,
+			});
+		}
+
+		await this.removeSubscribersFromListBulk(
+			recipients.map((entry) => entry.member.subscriberId),
+			holdoutListId,
+		);
+		return groups;
+	}
+
 	/**
 	 * Resolved audience members for the given source lists. Backed by the
 	 * paginated AudienceResolver, which filters by list_id server-side,
@@ -1,4 +1,9 @@
 import type { ListmonkClient } from "@listmonk-ops/openapi";
+import { backingCampaignMappings } from "./bandit";
+import type {
+	ConversionEventStore,
+	VariantConversionAggregate,
+} from "./conversion-events";
 import type { AbTest, TestResults } from "./types";
 
 /**
@@ -14,10 +19,10 @@ import type { AbTest, TestResults } from "./types";
  *
  * Conversion tracking is intentionally separated from click tracking. The
  * previous code copied `clicks` into `conversions`, which conflated two
- * different metrics and made "conversion rate" mean "click rate". Until a
- * dedicated conversion event store exists (planned PR-4), conversions are
- * reported as zero with an explicit note that conversion_rate is not yet
- * measured.
+ * different metrics and made "conversion rate" mean "click rate".
+ * Conversions now come from a `ConversionEventStore`: each variant's
+ * conversions are the unique subscribers with a recorded event, over the
+ * campaign's `sent` denominator. Without a store, conversions stay zero.
  */
 
 export interface CampaignMapping {
@@ -25,6 +30,36 @@ export interface CampaignMapping {
 	campaignId: number;
 }
 
+/** Raw delivery counters read from one backing campaign. */
+export interface CampaignCounts {
+	variantId: string;
+	sent: number;
+	views: number;
+	clicks: number;
+}
+
+/**
+ * Sum per-campaign counters into one entry per variant, in first-seen
+ * order. Bandit tests back each variant with its launch campaign plus one
+ * campaign per sent wave; every other mode has exactly one per variant.
+ */
+export function sumCampaignCountsByVariant(
+	counts: readonly CampaignCounts[],
+): CampaignCounts[] {
+	const byVariant = new Map<string, CampaignCounts>();
+	for (const entry of counts) {
+		const total = byVariant.get(entry.variantId);
+		if (total) {
+			total.sent += entry.sent;
+			total.views += entry.views;
+			total.clicks += entry.clicks;
+		} else {
+			byVariant.set(entry.variantId, { ...entry });
+		}
+	}
+	return [...byVariant.values()];
+}
+
 export interface MetricsCollector {
 	collect(test: AbTest): Promise<TestResults[]>;
 }
@@ -55,15 +90,19 @@ export class AbTestMetricsUnavailableError extends Error {
  *
  * Reads `sent`, `views`, and `clicks` from each backing campaign. `opens`
  * maps to `views`, `clicks` to `clicks`, and the denominator is `sent`.
- * `conversions` is reported as 0 because conversion attribution requires a
- * dedicated event store that does not exist yet; callers must not treat
- * `conversionRate` as a measured signal until that lands.
+ * When a conversion event store is configured, `conversions` and `revenue`
+ * come from its per-variant aggregates; otherwise `conversions` is 0 and
+ * callers must not treat `conversionRate` as a measured signal.
  *
- * If any campaign fetch fails, the entire collection throws
- * `AbTestMetricsUnavailableError`. No partial results are returned.
+ * If any campaign fetch or the conversion aggregate fails, the entire
+ * collection throws `AbTestMetricsUnavailableError`. No partial results are
+ * returned.
  */
 export class ListmonkMetricsCollector implements MetricsCollector {
-	constructor(private readonly client: ListmonkClient) {}
+	constructor(
+		private readonly client: ListmonkClient,
+		private readonly conversionEventStore?: ConversionEventStore,
+	) {}
 
 	async collect(test: AbTest): Promise<TestResults[]> {
 		if (test.campaignMappings.length === 0) {
@@ -73,46 +112,75 @@ export class ListmonkMetricsCollector implements MetricsCollector {
 			);
 		}
 
+		let conversionsByVariant: Map<string, VariantConversionAggregate>;
+		try {
+			conversionsByVariant = new Map(
+				(await this.conversionEventStore?.aggregate(test.id))?.map(
+					(aggregate) => [aggregate.variantId, aggregate],
+				),
+			);
+		} catch (error) {
+			throw new AbTestMetricsUnavailableError(test.id, error);
+		}
+
 		// Fetch every backing campaign in parallel. Each fetch is independent,
 		// and Promise.all rejects on the first failure, which preserves the
 		// fail-closed semantics (no partial results escape) while improving
 		// latency when multiple variants exist.
-		const results = await Promise.all(
-			test.campaignMappings.map(async (mapping): Promise<TestResults> => {
-				try {
-					const response = await this.client.campaign.getById({
-						path: { id: mapping.campaignId },
-					});
-					if ("error" in response || response.data === undefined) {
-						throw new Error(
-							`campaign ${mapping.campaignId} returned no data${
-								"error" in response ? `: ${String(response.error)}` : ""
-							}`,
-						);
+		const counts = await Promise.all(
+			backingCampaignMappings(test).map(
+				async (mapping): Promise<CampaignCounts> => {
+					try {
+						const response = await this.client.campaign.getById({
+							path: { id: mapping.campaignId },
+						});
+						if ("error" in response || response.data === undefined) {
+							throw new Error(
+								`campaign ${mapping.campaignId} returned no data${
+									"error" in response ? `: ${String(response.error)}` : ""
+								}`,
+							);
+						}
+						const campaign = response.data;
+						return {
+							variantId: mapping.variantId,
+							sent: campaign.sent ?? 0,
+							views: campaign.views ?? 0,
+							clicks: campaign.clicks ?? 0,
+						};
+					} catch (error) {
+						throw new AbTestMetricsUnavailableError(test.id, error);
 					}
-					const campaign = response.data;
-					const sampleSize = campaign.sent ?? 0;
-					const opens = campaign.views ?? 0;
-					const clicks = campaign.clicks ?? 0;
-					// Conversions are NOT click-through. Until a conversion event
-					// store is wired in, conversions stay at zero so analysis does
-					// not mistake clicks for conversions.
-					const conversions = 0;
-
-					return {
-						variantId: mapping.variantId,
-						sampleSize,
-						opens,
-						clicks,
-						conversions,
-						openRate: sampleSize > 0 ? (opens / sampleSize) * 100 : 0,
-						clickRate: sampleSize > 0 ? (clicks / sampleSize) * 100 : 0,
-						conversionRate: 0,
-					};
-				} catch (error) {
-					throw new AbTestMetricsUnavailableError(test.id, error);
-				}
-			}),
+				},
+			),
+		);
+
+		const results = sumCampaignCountsByVariant(counts).map(
+			(variant): TestResults => {
+				const sampleSize = variant.sent;
+				const opens = variant.views;
+				const clicks = variant.clicks;
+				// Conversions are NOT click-through. They count unique
+				// subscribers with a recorded conversion event, so analysis
+				// never mistakes clicks for conversions.
+				const aggregate = conversionsByVariant.get(variant.variantId);
+				const conversions = aggregate?.uniqueSubscribers ?? 0;
+
+				return {
+					variantId: variant.variantId,
+					sampleSize,
+					opens,
+					clicks,
+					conversions,
+					...(aggregate?.currency === undefined
+						? {}
+						: { revenue: aggregate.totalValue }),
+					openRate: sampleSize > 0 ? (opens / sampleSize) * 100 : 0,
+					clickRate: sampleSize > 0 ? (clicks / sampleSize) * 100 : 0,
+					conversionRate:
+						sampleSize > 0 ? (conversions / sampleSize) * 100 : 0,
+				};
+			},
 		);
 
 		return results;
@@ -10,6 +10,7 @@ import {
 } from "@listmonk-ops/operations";
 import {
 	bindAbTestAnalyzeOperationSpec,
+	bindAbTestConversionRecordOperationSpec,
 	bindAbTestCreateOperationSpec,
 	bindAbTestDeleteOperationSpec,
 	bindAbTestDeployWinnerOperationSpec,
@@ -24,9 +25,18 @@ import {
 	bindAbTestTickOperationSpec,
 } from "@listmonk-ops/operations/specs";
 import { z } from "zod";
+import { getConversionEventStoreFromEnvironment } from "./conversion-event-stores";
+import {
+	ConversionEventValidationError,
+	conversionAttributionWindowForTest,
+	createManifestAssignmentLookup,
+	type ConversionAssignmentLookup,
+	type ConversionEventStore,
+} from "./conversion-events";
+import { createListmonkAudienceResolver } from "./audience";
 import { createAbTestExecutors, type AbTestExecutors } from "./factory";
 import { AbTestNotFoundError } from "./errors";
-import { withStoredAbTestExecutors } from "./persistence";
+import { loadStoredAbTests, withStoredAbTestExecutors } from "./persistence";
 import type {
 	AbTest,
 	AbTestConfig,
@@ -40,6 +50,7 @@ import type {
 export interface AbTestOperationContext {
 	client: ListmonkClient;
 	storePath?: string;
+	conversionEventStore?: ConversionEventStore;
 }
 
 export const ABTEST_STATUSES = [
@@ -153,7 +164,7 @@ const abTestSchema = z.object({
 		lists: z.array(positiveIntegerSchema),
 		template_id: positiveIntegerSchema.optional(),
 	}),
-	testingMode: z.enum(["holdout", "full-split"]),
+	testingMode: z.enum(["holdout", "full-split", "bandit"]),
 	testGroupPercentage: z.number().finite(),
 	testGroupSize: z.number().finite().nonnegative(),
 	holdoutGroupSize: z.number().finite().nonnegative(),
@@ -232,6 +243,16 @@ const abTestSchema = z.object({
 				attributionWindowHours: z.number().finite().positive(),
 				exclusionWindowHours: z.number().finite().nonnegative(),
 			}),
+			analysisPlan: z
+				.discriminatedUnion("mode", [
+					z.object({ mode: z.literal("fixed_horizon") }),
+					z.object({
+						mode: z.literal("sequential"),
+						method: z.literal("msprt"),
+						mixingVariance: z.number().finite().positive().max(1),
+					}),
+				])
+				.optional(),
 			createdAt: z.string(),
 			lockedAt: z.string().optional(),
 			checksum: z.string().optional(),
@@ -252,6 +273,56 @@ const abTestSchema = z.object({
 			stratumSizes: z.record(z.string(), z.number()),
 		})
 		.optional(),
+	// Bandit mode policy and the per-wave audit trail (observations,
+	// Thompson allocation, and the lists/campaigns each wave was sent with).
+	banditPolicy: z
+		.object({
+			version: z.literal(1),
+			metric: z.enum(["click_rate", "conversion_rate"]),
+			waveCount: z.number().int().positive(),
+			waveIntervalHours: z.number().finite().positive(),
+			minimumShare: z.number().finite().nonnegative(),
+			draws: z.number().int().positive(),
+		})
+		.optional(),
+	banditWaves: z
+		.array(
+			z.object({
+				wave: z.number().int().positive(),
+				status: z.enum(["planned", "sent"]),
+				plannedAt: z.string(),
+				sentAt: z.string().optional(),
+				plannedSize: z.number().int().nonnegative(),
+				observed: z.array(
+					z.object({
+						variantId: z.string(),
+						sampleSize: z.number().finite().nonnegative(),
+						successes: z.number().finite().nonnegative(),
+					}),
+				),
+				allocation: z.array(
+					z.object({
+						variantId: z.string(),
+						probabilityToBeBest: z.number().finite().min(0).max(1),
+						weight: z.number().finite().min(0).max(1),
+					}),
+				),
+				groups: z
+					.array(
+						z.object({
+							variantId: z.string(),
+							expectedCount: z.number().int().nonnegative(),
+							subscriberChecksum: z.string(),
+							listId: positiveIntegerSchema,
+							campaignId: positiveIntegerSchema,
+						}),
+					)
+					.optional(),
+			}),
+		)
+		.optional(),
+	// Always-valid p-value of a sequential test after its latest recorded look.
+	sequentialPValue: z.number().finite().min(0).max(1).optional(),
 });
 
 const testResultsSchema = z.object({
@@ -278,6 +349,21 @@ const statisticalAnalysisSchema = z.object({
 	srmPassed: z.boolean().optional(),
 	srmPValue: z.number().finite().min(0).max(1).optional(),
 	fixedHorizonReasonCodes: z.array(z.string()).optional(),
+	analysisMode: z.enum(["fixed_horizon", "sequential"]).optional(),
+	sequentialBoundary: z
+		.object({
+			method: z.literal("msprt"),
+			alpha: z.number().finite(),
+			mixingVariance: z.number().finite(),
+			logLikelihoodRatio: z.number().finite(),
+			logThreshold: z.number().finite(),
+			zScore: z.number().finite(),
+			zBoundary: z.number().finite().optional(),
+			alwaysValidPValue: z.number().finite().min(0).max(1),
+			crossed: z.boolean(),
+		})
+		.optional(),
+	sequentialReasonCodes: z.array(z.string()).optional(),
 });
 
 const testAnalysisSchema = z.object({
@@ -339,7 +425,7 @@ const createAbTestInputSchema = z.object({
 	description: z.string().optional(),
 	lists: z.array(numericIntegerInputSchema).min(1).describe("Target list IDs"),
 	variants: z.array(createVariantInputSchema).min(2).max(3),
-	testing_mode: z.enum(["holdout", "full-split"]).optional(),
+	testing_mode: z.enum(["holdout", "full-split", "bandit"]).optional(),
 	test_group_percentage: optionalNumericInputSchema(
 		z.coerce.number().finite().positive().lte(100),
 	),
@@ -403,11 +489,44 @@ const createAbTestInputSchema = z.object({
 				attribution_window_hours: z.number().finite().min(0),
 				exclusion_window_hours: z.number().finite().nonnegative(),
 			}),
+			analysis_plan: z
+				.discriminatedUnion("mode", [
+					z.object({ mode: z.literal("fixed_horizon") }),
+					z.object({
+						mode: z.literal("sequential"),
+						method: z.literal("msprt"),
+						mixing_variance: z.number().finite().positive().max(1),
+					}),
+				])
+				.optional()
+				.describe(
+					"Pre-registered analysis plan; sequential mSPRT lets tick stop early. Defaults to fixed_horizon",
+				),
 		})
 		.optional(),
 	enable_stratification: optionalBooleanSchema.describe(
 		"Enable recipient-domain stratification during holdout provisioning",
 	),
+	enable_bayesian_analysis: optionalBooleanSchema.describe(
+		"Add Bayesian probability-to-beat-control, expected loss, and credible intervals to experiment reports",
+	),
+	bandit: z
+		.object({
+			metric: z.enum(["click_rate", "conversion_rate"]).optional(),
+			wave_count: optionalNumericInputSchema(
+				z.coerce.number().int().positive().max(20),
+			),
+			wave_interval_hours: optionalNumericInputSchema(
+				z.coerce.number().finite().positive(),
+			),
+			minimum_share: optionalNumericInputSchema(
+				z.coerce.number().finite().nonnegative().lt(0.5),
+			),
+		})
+		.optional()
+		.describe(
+			'Bandit settings (testing_mode "bandit"): tick sends the holdout in waves reallocated by Thompson sampling',
+		),
 });
 
 const analyzeAbTestInputSchema = testIdInputSchema.extend({
@@ -461,6 +580,46 @@ const exportAssignmentInputSchema = z.object({
 		.describe("A/B test ID whose assignment manifest to export"),
 });
 
+const conversionEventInputSchema = z.object({
+	event_id: z
+		.string()
+		.trim()
+		.min(1)
+		.max(200)
+		.describe(
+			"Caller-stable event ID; replays with the same ID are reported as duplicates",
+		),
+	test_id: z.string().trim().min(1).describe("A/B test ID"),
+	variant_id: z.string().trim().min(1).describe("Variant the subscriber received"),
+	subscriber_uuid: z
+		.string()
+		.trim()
+		.min(1)
+		.describe("Listmonk subscriber UUID; no email or name is accepted"),
+	event: z.string().trim().min(1).describe("Event name, such as purchase"),
+	occurred_at: z.iso.datetime({ offset: true }),
+	value: optionalNumericInputSchema(z.coerce.number().finite().min(0)),
+	currency: z
+		.string()
+		.trim()
+		.regex(/^[A-Z]{3}$/, "currency must be an ISO 4217 code")
+		.optional()
+		.describe("ISO 4217 currency code; required when value is set"),
+});
+
+const recordConversionsInputSchema = z.object({
+	events: z.array(conversionEventInputSchema).min(1).max(1000),
+});
+
+const conversionRecordResultSchema = z.object({
+	event_id: z.string(),
+	status: z.enum(["created", "duplicate", "rejected"]),
+	reason: z.string().optional(),
+});
+
+export type AbTestConversionEventOperationInput = z.input<
+	typeof conversionEventInputSchema
+>;
 export type AbTestOperationRecord = z.output<typeof abTestSchema>;
 export type TestAnalysisOperationRecord = z.output<typeof testAnalysisSchema>;
 export type ListAbTestsOperationOutput = { tests: AbTestOperationRecord[] };
@@ -500,6 +659,13 @@ export type ExportAbTestAssignmentOperationOutput = {
 	manifest: z.output<typeof assignmentManifestSchema>;
 };
 
+export type RecordAbTestConversionsOperationOutput = {
+	recorded: number;
+	duplicates: number;
+	rejected: number;
+	results: Array<z.output<typeof conversionRecordResultSchema>>;
+};
+
 function jsonValue(value: unknown): string {
 	return JSON.stringify(value, null, 2);
 }
@@ -547,7 +713,11 @@ async function withStoredOperation<Result>(
 ): Promise<Result> {
 	return withStoredAbTestExecutors(
 		context.client,
-		{ mode, storePath: context.storePath },
+		{
+			mode,
+			storePath: context.storePath,
+			conversionEventStore: context.conversionEventStore,
+		},
 		action,
 	);
 }
@@ -760,16 +930,22 @@ export async function executeRunAbTestOperation(
 	context: AbTestOperationContext,
 	input: z.output<typeof runAbTestInputSchema>,
 ): Promise<RunAbTestOperationOutput> {
+	// A due bandit wave is planned and committed in its own store write
+	// first, so a failed send leaves it planned for the retry to reuse.
+	const expected = {
+		expectedStatus: input.expected_status,
+		expectedUpdatedAt: input.expected_updated_at,
+	};
+	await withStoredOperation<number>(context, "write", (executors) =>
+		executors.planDueBanditWaves(input.test_id, expected),
+	);
 	return {
 		test: serializeAbTest(
 			await withStoredOperation<AbTest>(
 				context,
 				"write",
 				async (executors) => {
-					const run = await executors.runAbTest(input.test_id, {
-						expectedStatus: input.expected_status,
-						expectedUpdatedAt: input.expected_updated_at,
-					});
+					const run = await executors.runAbTest(input.test_id, expected);
 					if (!run) {
 						throw new AbTestNotFoundError(input.test_id);
 					}
@@ -785,6 +961,12 @@ export async function executeTickAbTestsOperation(
 	input: z.output<typeof tickAbTestsInputSchema>,
 ): Promise<TickAbTestsOperationOutput> {
 	const dryRun = input.dry_run === true;
+	if (!dryRun) {
+		// Commit due bandit wave plans before any wave is sent.
+		await withStoredOperation<number>(context, "write", (executors) =>
+			executors.planDueBanditWaves(),
+		);
+	}
 	const tickResults = await withStoredOperation<
 		Awaited<ReturnType<AbTestExecutors["tickAbTests"]>>
 	>(context, dryRun ? "read" : "write", (executors) =>
@@ -833,6 +1015,106 @@ export async function executeExportAbTestAssignmentOperation(
 	return { manifest: test.assignmentManifest };
 }
 
+function conversionRejectionReason(
+	test: AbTest | undefined,
+	testId: string,
+): string | undefined {
+	if (!test) {
+		return `Test with ID ${testId} not found`;
+	}
+	if (test.launchAt === undefined && test.startedAt === undefined) {
+		return `Test ${testId} has not launched; conversions cannot be attributed yet`;
+	}
+	return undefined;
+}
+
+export async function executeRecordAbTestConversionsOperation(
+	context: AbTestOperationContext,
+	input: z.output<typeof recordConversionsInputSchema>,
+): Promise<RecordAbTestConversionsOperationOutput> {
+	// Attribution only needs the persisted manifest, launch window, and the
+	// test audience, so read the store directly instead of hydrating
+	// Listmonk-backed executors.
+	const testsById = new Map(
+		(await loadStoredAbTests(context.storePath)).map(
+			(test) => [test.id, test] as const,
+		),
+	);
+	const store =
+		context.conversionEventStore ?? getConversionEventStoreFromEnvironment();
+	const lookups = new Map<string, ConversionAssignmentLookup>();
+	const assignmentLookupFor = async (
+		test: AbTest,
+	): Promise<ConversionAssignmentLookup> => {
+		const cached = lookups.get(test.id);
+		if (cached) {
+			return cached;
+		}
+		// With a manifest the subscriber must rank into the claimed variant, so
+		// resolve the audience the manifest was built from once per test.
+		let lookup = createManifestAssignmentLookup(test);
+		if (test.assignmentManifest) {
+			const resolver = createListmonkAudienceResolver(context.client);
+			await resolver.resolve(
+				test.audienceSnapshot?.sourceListIds ?? test.baseConfig.lists,
+			);
+			lookup = createManifestAssignmentLookup(test, resolver.members());
+		}
+		lookups.set(test.id, lookup);
+		return lookup;
+	};
+	const results: RecordAbTestConversionsOperationOutput["results"] = [];
+	for (const event of input.events) {
+		const test = testsById.get(event.test_id);
+		const rejection = conversionRejectionReason(test, event.test_id);
+		if (!test || rejection !== undefined) {
+			results.push({
+				event_id: event.event_id,
+				status: "rejected",
+				reason: rejection,
+			});
+			continue;
+		}
+		try {
+			const status = await store.record(
+				{
+					eventId: event.event_id,
+					testId: event.test_id,
+					variantId: event.variant_id,
+					subscriberUuid: event.subscriber_uuid,
+					event: event.event,
+					occurredAt: event.occurred_at,
+					value: event.value,
+					currency: event.currency,
+				},
+				{
+					assignmentLookup: await assignmentLookupFor(test),
+					attributionWindow: conversionAttributionWindowForTest(test),
+				},
+			);
+			results.push({ event_id: event.event_id, status });
+		} catch (error) {
+			// Validation failures reject only the offending event so one bad row
+			// never blocks a batch; store failures abort the whole call.
+			if (!(error instanceof ConversionEventValidationError)) {
+				throw error;
+			}
+			results.push({
+				event_id: event.event_id,
+				status: "rejected",
+				reason: error.message,
+			});
+		}
+	}
+	return {
+		recorded: results.filter((result) => result.status === "created").length,
+		duplicates: results.filter((result) => result.status === "duplicate")
+			.length,
+		rejected: results.filter((result) => result.status === "rejected").length,
+		results,
+	};
+}
+
 const readSafety = {
 	readOnlyHint: true,
 	destructiveHint: false,
@@ -1096,6 +1378,32 @@ export const exportAbTestAssignmentOperation = defineOperation({
 	execute: executeExportAbTestAssignmentOperation,
 });
 
+export const recordAbTestConversionsOperation = defineOperation({
+	id: "abtest.conversion.record",
+	title: "Record A/B test conversions",
+	description:
+		"Record one or more conversion events attributed to A/B test variants by subscriber UUID; events outside the variant manifest or attribution window are rejected per event.",
+	inputSchema: recordConversionsInputSchema,
+	outputSchema: z.object({
+		recorded: z.number().int().nonnegative(),
+		duplicates: z.number().int().nonnegative(),
+		rejected: z.number().int().nonnegative(),
+		results: z.array(conversionRecordResultSchema),
+	}),
+	safety: {
+		readOnlyHint: false,
+		destructiveHint: false,
+		idempotentHint: true,
+		openWorldHint: false,
+	} as const,
+	mcp: {
+		name: "listmonk_abtest_conversion_record",
+		legacySuccessText: (output) => jsonValue(output),
+	},
+	spec: bindAbTestConversionRecordOperationSpec(),
+	execute: executeRecordAbTestConversionsOperation,
+});
+
 export const abTestOperations = [
 	listAbTestsOperation,
 	getAbTestOperation,
@@ -1110,6 +1418,7 @@ export const abTestOperations = [
 	tickAbTestsOperation,
 	reconcileAbTestOperation,
 	exportAbTestAssignmentOperation,
+	recordAbTestConversionsOperation,
 ] as const;
 
 export const abTestOperationCatalog = defineOperationCatalog({
@@ -1416,6 +1725,30 @@ export async function invokeExportAbTestAssignmentOperation(
 		});
 }
 
+export async function invokeRecordAbTestConversionsOperation(
+	context: AbTestOperationContext,
+	input: unknown,
+): Promise<RecordAbTestConversionsOperationOutput> {
+	const parsedInput = parseOperationInput(
+		recordAbTestConversionsOperation.inputSchema,
+		input,
+	);
+	return executeRecordAbTestConversionsOperation(context, parsedInput)
+		.then((output) =>
+			parseOperationOutput(
+				recordAbTestConversionsOperation.id,
+				recordAbTestConversionsOperation.outputSchema,
+				output,
+			),
+		)
+		.catch((error) => {
+			throw normalizeOperationExecutionError(
+				recordAbTestConversionsOperation.id,
+				error,
+			);
+		});
+}
+
 export type AbTestOperationInvocation =
 	| { operation: typeof listAbTestsOperation; output: ListAbTestsOperationOutput }
 	| { operation: typeof getAbTestOperation; output: GetAbTestOperationOutput }
@@ -1444,6 +1777,10 @@ export type AbTestOperationInvocation =
 	| {
 			operation: typeof exportAbTestAssignmentOperation;
 			output: ExportAbTestAssignmentOperationOutput;
+	  }
+	| {
+			operation: typeof recordAbTestConversionsOperation;
+			output: RecordAbTestConversionsOperationOutput;
 	  };
 
 export async function invokeAbTestOperationByMcpName(
@@ -1522,6 +1859,11 @@ export async function invokeAbTestOperationByMcpName(
 					input,
 				),
 			};
+		case recordAbTestConversionsOperation.mcp.name:
+			return {
+				operation: recordAbTestConversionsOperation,
+				output: await invokeRecordAbTestConversionsOperation(context, input),
+			};
 		default:
 			return undefined;
 	}
@@ -9,6 +9,13 @@ import {
 	writeJsonFileStore,
 } from "@listmonk-ops/common";
 import type { ListmonkClient } from "@listmonk-ops/openapi";
+import {
+	type BanditPolicyV1,
+	validateBanditPolicy,
+} from "./bandit";
+import { type BayesianPolicyV1, validateBayesianPolicy } from "./bayesian";
+import { getConversionEventStoreFromEnvironment } from "./conversion-event-stores";
+import type { ConversionEventStore } from "./conversion-events";
 import { AbTestNotFoundError } from "./errors";
 export { AbTestConflictError } from "./errors";
 import { createAbTestExecutors, type AbTestExecutors } from "./factory";
@@ -64,6 +71,8 @@ export type AbTestStore = StoredAbTestDocument;
 export interface StoredAbTestAccessOptions {
 	mode: "read" | "write";
 	storePath?: string;
+	/** Defaults to the store configured by the conversion event environment. */
+	conversionEventStore?: ConversionEventStore;
 }
 
 export class AbTestWriteTransactionError extends Error {
@@ -246,7 +255,8 @@ function isStoredPendingCreate(value: unknown): boolean {
 	if (
 		config.testingMode !== undefined &&
 		config.testingMode !== "holdout" &&
-		config.testingMode !== "full-split"
+		config.testingMode !== "full-split" &&
+		config.testingMode !== "bandit"
 	) {
 		return false;
 	}
@@ -306,6 +316,21 @@ function isStoredPendingCreate(value: unknown): boolean {
 	if (config.hypothesis !== undefined && !isRecord(config.hypothesis)) {
 		return false;
 	}
+	if (
+		config.bayesianPolicy !== undefined &&
+		!isStoredBayesianPolicy(config.bayesianPolicy)
+	) {
+		return false;
+	}
+	if (
+		config.banditPolicy !== undefined &&
+		!isStoredBanditPolicy(
+			config.banditPolicy,
+			Array.isArray(config.variants) ? config.variants.length : 0,
+		)
+	) {
+		return false;
+	}
 	return true;
 }
 function isStoredAbTest(value: unknown): boolean {
@@ -331,7 +356,9 @@ function isStoredAbTest(value: unknown): boolean {
 		Array.isArray(value.metrics) &&
 		value.metrics.every(isStoredMetric) &&
 		isStoredBaseConfig(value.baseConfig) &&
-		(value.testingMode === "holdout" || value.testingMode === "full-split") &&
+		(value.testingMode === "holdout" ||
+			value.testingMode === "full-split" ||
+			value.testingMode === "bandit") &&
 		isPercentage(value.testGroupPercentage) &&
 		isNonNegativeNumber(value.testGroupSize) &&
 		isNonNegativeNumber(value.holdoutGroupSize) &&
@@ -386,10 +413,106 @@ function isStoredAbTest(value: unknown): boolean {
 		// present so corrupt state (negative quotas, malformed cells) is
 		// rejected at the file boundary.
 		(value.stratification === undefined ||
-			isStoredStratification(value.stratification))
+			isStoredStratification(value.stratification)) &&
+		(value.bayesianPolicy === undefined ||
+			isStoredBayesianPolicy(value.bayesianPolicy)) &&
+		// Bandit policy and wave audit trail: only bandit tests carry them.
+		(value.banditPolicy === undefined ||
+			(value.testingMode === "bandit" &&
+				isStoredBanditPolicy(
+					value.banditPolicy,
+					Array.isArray(value.variants) ? value.variants.length : 0,
+				))) &&
+		(value.banditWaves === undefined ||
+			(value.banditPolicy !== undefined &&
+				Array.isArray(value.banditWaves) &&
+				value.banditWaves.every(isStoredBanditWave))) &&
+		(value.sequentialPValue === undefined ||
+			(isFiniteNumber(value.sequentialPValue) &&
+				value.sequentialPValue >= 0 &&
+				value.sequentialPValue <= 1))
+	);
+}
+
+/**
+ * Validate a persisted bandit policy with the same bounds the service
+ * enforces at create time.
+ */
+function isStoredBanditPolicy(value: unknown, variantCount: number): boolean {
+	if (!isRecord(value)) {
+		return false;
+	}
+	try {
+		validateBanditPolicy(value as unknown as BanditPolicyV1, variantCount);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+function isStoredBanditWave(value: unknown): boolean {
+	return (
+		isRecord(value) &&
+		isPositiveInteger(value.wave) &&
+		(value.status === "planned" || value.status === "sent") &&
+		isValidTimestamp(value.plannedAt) &&
+		(value.sentAt === undefined || isValidTimestamp(value.sentAt)) &&
+		isNonNegativeInteger(value.plannedSize) &&
+		Array.isArray(value.observed) &&
+		value.observed.every(
+			(entry) =>
+				isRecord(entry) &&
+				typeof entry.variantId === "string" &&
+				isNonNegativeNumber(entry.sampleSize) &&
+				isNonNegativeNumber(entry.successes),
+		) &&
+		Array.isArray(value.allocation) &&
+		value.allocation.every(
+			(arm) =>
+				isRecord(arm) &&
+				typeof arm.variantId === "string" &&
+				isFiniteNumber(arm.probabilityToBeBest) &&
+				isFiniteNumber(arm.weight) &&
+				arm.weight >= 0 &&
+				arm.weight <= 1,
+		) &&
+		(value.groups === undefined ||
+			(Array.isArray(value.groups) &&
+				value.groups.every(
+					(group) =>
+						isRecord(group) &&
+						typeof group.variantId === "string" &&
+						isNonNegativeInteger(group.expectedCount) &&
+						typeof group.subscriberChecksum === "string" &&
+						isPositiveInteger(group.listId) &&
+						isPositiveInteger(group.campaignId),
+				))) &&
+		// A sent wave must record what it was sent with.
+		(value.status !== "sent" ||
+			(value.sentAt !== undefined && value.groups !== undefined))
 	);
 }
 
+/**
+ * Validate a persisted Bayesian report policy with the same bounds the
+ * service enforces at create time.
+ */
+function isStoredBayesianPolicy(value: unknown): boolean {
+	if (
+		!isRecord(value) ||
+		typeof value.enabled !== "boolean" ||
+		!isRecord(value.ratePrior)
+	) {
+		return false;
+	}
+	try {
+		validateBayesianPolicy(value as unknown as BayesianPolicyV1);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
 /**
  * Validate a persisted stratification quota matrix. Requires non-negative
  * quotas and ideals, and that every cell references a known stratum/group.
@@ -615,6 +738,26 @@ function isStoredHypothesis(value: unknown): boolean {
 	) {
 		return false;
 	}
+	// analysisPlan: optional; sequential plans need the mSPRT mixing variance.
+	const plan = value.analysisPlan;
+	if (plan !== undefined) {
+		if (!isRecord(plan)) {
+			return false;
+		}
+		if (plan.mode === "sequential") {
+			if (
+				plan.method !== "msprt" ||
+				typeof plan.mixingVariance !== "number" ||
+				!Number.isFinite(plan.mixingVariance) ||
+				plan.mixingVariance <= 0 ||
+				plan.mixingVariance > 1
+			) {
+				return false;
+			}
+		} else if (plan.mode !== "fixed_horizon") {
+			return false;
+		}
+	}
 	// locked-state invariant: when lockedAt is present the checksum must be a
 	// 64-character hex string AND must cryptographically match the recomputed
 	// canonical checksum, so tampered records are rejected at load time.
@@ -789,8 +932,9 @@ export async function saveStoredAbTests(
 function createHydratedExecutors(
 	client: ListmonkClient,
 	tests: AbTest[],
+	conversionEventStore: ConversionEventStore,
 ): AbTestExecutors {
-	const executors = createAbTestExecutors(client);
+	const executors = createAbTestExecutors(client, { conversionEventStore });
 	executors.abTestService.hydrateTests(tests);
 	return executors;
 }
@@ -801,16 +945,24 @@ export async function withStoredAbTestExecutors<Result>(
 	action: (executors: AbTestExecutors) => Promise<Result> | Result,
 ): Promise<Result> {
 	const store = createAbTestStore(options.storePath);
+	const conversionEventStore =
+		options.conversionEventStore ?? getConversionEventStoreFromEnvironment();
 	if (options.mode === "read") {
 		const persisted = await readJsonFileStore(store);
-		return action(createHydratedExecutors(client, persisted.tests));
+		return action(
+			createHydratedExecutors(client, persisted.tests, conversionEventStore),
+		);
 	}
 
 	let actionStarted = false;
 	let actionCompleted = false;
 	try {
 		return await updateJsonFileStore(store, async (persisted) => {
-			const executors = createHydratedExecutors(client, persisted.tests);
+			const executors = createHydratedExecutors(
+				client,
+				persisted.tests,
+				conversionEventStore,
+			);
 			actionStarted = true;
 			const result = await action(executors);
 			actionCompleted = true;
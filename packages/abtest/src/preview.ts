@@ -134,6 +134,21 @@ export const DEFAULT_SEED_RECIPIENT_POLICY: SeedRecipientPolicy = {
 	requireExistingSubscribers: true,
 };
 
+/**
+ * Seed recipient policy for campaign test sends. The
+ * `LISTMONK_OPS_SEED_DOMAINS` variable is a comma-separated domain
+ * allowlist; without it any domain passes but the recipient cap applies.
+ */
+export function getSeedRecipientPolicyFromEnvironment(
+	env: Readonly<Record<string, string | undefined>> = process.env,
+): SeedRecipientPolicy {
+	const allowedDomains = (env.LISTMONK_OPS_SEED_DOMAINS ?? "")
+		.split(",")
+		.map((domain) => domain.trim())
+		.filter((domain) => domain.length > 0);
+	return { ...DEFAULT_SEED_RECIPIENT_POLICY, allowedDomains };
+}
+
 export class PreviewValidationError extends Error {
 	constructor(message: string) {
 		super(message);
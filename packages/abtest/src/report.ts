@@ -1,7 +1,15 @@
+import type { BanditWave } from "./bandit";
+import {
+	type BayesianAnalysis,
+	type BayesianMetricAnalysis,
+	computeBayesianAnalysis,
+} from "./bayesian";
 import {
 	verifyHypothesisChecksum,
+	type AnalysisPlan,
 	type HypothesisMetadata,
 } from "./hypothesis";
+import type { SequentialBoundary } from "./statistics";
 import type { AbTest, StatisticalAnalysis, TestResults } from "./types";
 
 /**
@@ -16,6 +24,10 @@ import type { AbTest, StatisticalAnalysis, TestResults } from "./types";
  * data. The pre-registration checksum is verified and the result is shown
  * as "verified", "not_available", or "checksum_mismatch".
  *
+ * When the test's Bayesian policy is enabled, the report also carries
+ * posterior summaries (probability to beat control, expected loss, credible
+ * intervals) next to the frequentist results; they do not change the winner.
+ *
  * Subscriber identifiers are never included — the report contains only
  * aggregate metrics, statistical results, and test metadata.
  */
@@ -54,6 +66,14 @@ export interface ExperimentReport {
 	srmPassed?: boolean;
 	srmPValue?: number;
 	fixedHorizonReasonCodes?: string[];
+	analysisMode: "fixed_horizon" | "sequential";
+	/** mSPRT boundary at the analyzed look for sequential tests. */
+	sequentialBoundary?: SequentialBoundary;
+	sequentialReasonCodes?: string[];
+	/** Posterior summaries, present when the test's Bayesian policy is enabled. */
+	bayesian?: BayesianAnalysis;
+	/** Wave audit trail for bandit tests (allocation and recipients per wave). */
+	banditWaves?: BanditWave[];
 	hypothesis?: {
 		objective: string;
 		primaryMetricType: string;
@@ -63,6 +83,9 @@ export interface ExperimentReport {
 			value: number;
 			unit?: "percentage_point" | "currency_per_recipient";
 		};
+		analysisPlan?: AnalysisPlan;
+		/** Pre-registration checksum covering the analysis plan. */
+		checksum?: string;
 	};
 	preRegistration: PreRegistrationStatus;
 }
@@ -133,6 +156,17 @@ export function buildExperimentReport(
 
 	const preRegistration = evaluatePreRegistration(test.hypothesis);
 
+	// Seeded with the test id so re-rendering a report reproduces it.
+	const bayesian = test.bayesianPolicy?.enabled
+		? computeBayesianAnalysis({
+				results,
+				policy: test.bayesianPolicy,
+				seed: test.id,
+				primaryMetric,
+				direction: primaryMetricDirection,
+			})
+		: undefined;
+
 	return {
 		testId: test.id,
 		testName: test.name,
@@ -150,6 +184,11 @@ export function buildExperimentReport(
 		srmPassed: analysis.srmPassed,
 		srmPValue: analysis.srmPValue,
 		fixedHorizonReasonCodes: analysis.fixedHorizonReasonCodes,
+		analysisMode: analysis.analysisMode ?? "fixed_horizon",
+		sequentialBoundary: analysis.sequentialBoundary,
+		sequentialReasonCodes: analysis.sequentialReasonCodes,
+		bayesian,
+		banditWaves: test.banditWaves,
 		hypothesis: test.hypothesis
 			? {
 					objective: test.hypothesis.objective,
@@ -163,6 +202,8 @@ export function buildExperimentReport(
 								? test.hypothesis.expectedLift.unit
 								: undefined,
 					},
+					analysisPlan: test.hypothesis.analysisPlan,
+					checksum: test.hypothesis.checksum,
 				}
 			: undefined,
 		preRegistration,
@@ -232,6 +273,16 @@ export function reportToMarkdown(report: ExperimentReport): string {
 				lines.push(`- **Expected Lift**: ${lift.value} (absolute)`);
 			}
 		}
+		if (report.hypothesis.analysisPlan?.mode === "sequential") {
+			lines.push(
+				`- **Analysis Plan**: sequential (${report.hypothesis.analysisPlan.method}, mixing variance ${report.hypothesis.analysisPlan.mixingVariance})`,
+			);
+		} else {
+			lines.push("- **Analysis Plan**: fixed horizon");
+		}
+		if (report.hypothesis.checksum) {
+			lines.push(`- **Checksum**: ${report.hypothesis.checksum}`);
+		}
 		lines.push("");
 	}
 
@@ -266,6 +317,35 @@ export function reportToMarkdown(report: ExperimentReport): string {
 	}
 	lines.push("");
 
+	if (report.analysisMode === "sequential") {
+		lines.push("## Sequential Boundary");
+		lines.push("");
+		const boundary = report.sequentialBoundary;
+		if (boundary) {
+			lines.push(`- **Method**: ${boundary.method}`);
+			lines.push(`- **Alpha**: ${boundary.alpha}`);
+			lines.push(
+				`- **Always-Valid P-Value**: ${boundary.alwaysValidPValue.toFixed(6)}`,
+			);
+			lines.push(
+				`- **Log Likelihood Ratio**: ${boundary.logLikelihoodRatio.toFixed(4)} / ${boundary.logThreshold.toFixed(4)}`,
+			);
+			lines.push(
+				`- **Z-Score / Boundary**: ${boundary.zScore.toFixed(4)} / ${boundary.zBoundary === undefined ? "N/A" : `±${boundary.zBoundary.toFixed(4)}`}`,
+			);
+			lines.push(`- **Boundary Crossed**: ${boundary.crossed ? "Yes" : "No"}`);
+		}
+		if (
+			report.sequentialReasonCodes &&
+			report.sequentialReasonCodes.length > 0
+		) {
+			lines.push(
+				`- **Sequential Issues**: ${report.sequentialReasonCodes.join(", ")}`,
+			);
+		}
+		lines.push("");
+	}
+
 	lines.push("## Variant Results");
 	lines.push("");
 	const hasRevenue =
@@ -305,6 +385,14 @@ export function reportToMarkdown(report: ExperimentReport): string {
 	}
 	lines.push("");
 
+	if (report.bayesian) {
+		lines.push(...bayesianMarkdown(report.bayesian, report.variants));
+	}
+
+	if (report.banditWaves && report.banditWaves.length > 0) {
+		lines.push(...banditWavesMarkdown(report.banditWaves, report.variants));
+	}
+
 	if (report.analysis.isSignificant && report.winnerVariantId) {
 		const winner = report.variants.find(
 			(v) => v.variantId === report.winnerVariantId,
@@ -322,6 +410,14 @@ export function reportToMarkdown(report: ExperimentReport): string {
 			lines.push(
 				"> The test may not be ready for analysis. See the fixed-horizon issues above.",
 			);
+		} else if (
+			report.sequentialReasonCodes &&
+			report.sequentialReasonCodes.length > 0
+		) {
+			lines.push("");
+			lines.push(
+				"> The test may not be ready for analysis. See the sequential issues above.",
+			);
 		}
 	}
 
@@ -335,6 +431,101 @@ export function reportToMarkdown(report: ExperimentReport): string {
 	return lines.join("\n");
 }
 
+function banditWavesMarkdown(
+	waves: BanditWave[],
+	variants: ExperimentReport["variants"],
+): string[] {
+	const lines: string[] = [];
+	lines.push("## Bandit Waves");
+	lines.push("");
+	lines.push("| Wave | Status | Planned At | Recipients | Allocation (P(Best)) |");
+	lines.push("|------|--------|------------|------------|----------------------|");
+	for (const wave of waves) {
+		const recipients = wave.groups
+			? wave.groups.reduce((sum, group) => sum + group.expectedCount, 0)
+			: wave.plannedSize;
+		const allocation = wave.allocation
+			.map((arm) => {
+				const name =
+					variants.find((v) => v.variantId === arm.variantId)?.variantName ??
+					arm.variantId;
+				return `${name} ${(arm.weight * 100).toFixed(1)}% (${(arm.probabilityToBeBest * 100).toFixed(1)}%)`;
+			})
+			.join(", ");
+		lines.push(
+			`| ${wave.wave} | ${wave.status} | ${wave.plannedAt} | ${recipients} | ${allocation} |`,
+		);
+	}
+	lines.push("");
+	return lines;
+}
+
+const BAYESIAN_METRIC_LABELS: Record<BayesianMetricAnalysis["metric"], string> =
+	{
+		open_rate: "Open Rate",
+		click_rate: "Click Rate",
+		conversion_rate: "Conversion Rate",
+		revenue_per_recipient: "Revenue per Recipient",
+	};
+
+function bayesianMarkdown(
+	bayesian: BayesianAnalysis,
+	variants: ExperimentReport["variants"],
+): string[] {
+	const lines: string[] = [];
+	const level = `${(bayesian.credibleLevel * 100).toFixed(0)}%`;
+	lines.push("## Bayesian Analysis");
+	lines.push("");
+	lines.push(`- **Credible Level**: ${level}`);
+	lines.push(`- **Posterior Draws**: ${bayesian.draws}`);
+	if (bayesian.reasonCodes.length > 0) {
+		lines.push(`- **Bayesian Issues**: ${bayesian.reasonCodes.join(", ")}`);
+	}
+	lines.push("");
+	const percent = (p: number) => `${(p * 100).toFixed(1)}%`;
+	for (const metric of bayesian.metrics) {
+		// Rates are proportions; show them as percentages, and their losses
+		// as percentage points. Revenue stays in currency units.
+		const isRate = metric.model === "beta_binomial";
+		const value = (x: number) =>
+			isRate ? `${(x * 100).toFixed(2)}%` : x.toFixed(4);
+		const loss = (x: number) =>
+			isRate ? `${(x * 100).toFixed(3)} pp` : x.toFixed(4);
+		lines.push(
+			`### ${BAYESIAN_METRIC_LABELS[metric.metric]} (${metric.model === "beta_binomial" ? "Beta-Binomial" : "Beta-Gamma revenue"}, ${metric.direction})`,
+		);
+		lines.push("");
+		const headers = [
+			"Variant",
+			"Posterior Mean",
+			`${level} Credible Interval`,
+			"P(Beat Control)",
+			"P(Best)",
+			"Expected Loss",
+		];
+		lines.push(`| ${headers.join(" | ")} |`);
+		lines.push(`|${headers.map(() => "---------").join("|")}|`);
+		for (const v of metric.variants) {
+			const name =
+				variants.find((reported) => reported.variantId === v.variantId)
+					?.variantName ?? v.variantId;
+			const cells = [
+				v.variantId === metric.controlVariantId ? `${name} (control)` : name,
+				value(v.posteriorMean),
+				`${value(v.credibleInterval.lower)} – ${value(v.credibleInterval.upper)}`,
+				v.probabilityToBeatControl === undefined
+					? "—"
+					: percent(v.probabilityToBeatControl),
+				percent(v.probabilityToBeBest),
+				loss(v.expectedLoss),
+			];
+			lines.push(`| ${cells.join(" | ")} |`);
+		}
+		lines.push("");
+	}
+	return lines;
+}
+
 function preRegistrationLabel(status: PreRegistrationStatus): string {
 	switch (status) {
 		case "verified":
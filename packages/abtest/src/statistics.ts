@@ -3,6 +3,8 @@
  *
  * Stage 4 hardening: Holm-Bonferroni multiple-comparison correction,
  * fixed-horizon eligibility gate, and Sample Ratio Mismatch (SRM) detection.
+ * Sequential tests replace the horizon gate with mSPRT boundaries so they
+ * can stop early with always-valid error guarantees.
  *
  * These are pure functions — no I/O, no side effects — so they can be
  * unit-tested without a live Listmonk or conversion event store.
@@ -13,7 +15,7 @@ export interface StatisticalPolicy {
 	minimumSamplePerVariant: number;
 	minimumDurationHours: number;
 	multipleComparison: "holm" | "bonferroni";
-	analysisMode: "fixed_horizon";
+	analysisMode: "fixed_horizon" | "sequential";
 	srmAlpha: number;
 }
 
@@ -180,6 +182,154 @@ export function fixedHorizonGate(params: {
 	};
 }
 
+export type SequentialGateResult = FixedHorizonGateResult;
+
+/**
+ * Eligibility gate for sequential analysis. Unlike the fixed-horizon gate it
+ * ignores endsAt and the minimum duration — the mSPRT boundary already
+ * accounts for peeking — but it still needs a launch time, the minimum
+ * sample per variant for the normal approximation, and exactly two
+ * variants, since the boundary is defined for one comparison.
+ */
+export function sequentialGate(params: {
+	startedAt?: string;
+	policy: StatisticalPolicy;
+	sampleSizes: number[];
+}): SequentialGateResult {
+	const { startedAt, policy, sampleSizes } = params;
+	const reasonCodes: string[] = [];
+
+	if (!startedAt) {
+		reasonCodes.push("no_startedAt");
+	} else if (Number.isNaN(new Date(startedAt).getTime())) {
+		reasonCodes.push("malformed_startedAt");
+	}
+	if (sampleSizes.length !== 2) {
+		reasonCodes.push(`sequential_requires_two_variants:${sampleSizes.length}`);
+	}
+	for (const [index, size] of sampleSizes.entries()) {
+		if (size < policy.minimumSamplePerVariant) {
+			reasonCodes.push(
+				`minimum_sample_not_met:variant_${index}:${size}/${policy.minimumSamplePerVariant}`,
+			);
+		}
+	}
+
+	return {
+		ready: reasonCodes.length === 0,
+		reasonCodes,
+	};
+}
+
+export interface SequentialBoundary {
+	method: "msprt";
+	alpha: number;
+	mixingVariance: number;
+	/** Natural log of the mixture likelihood ratio at this look. */
+	logLikelihoodRatio: number;
+	/** The boundary is crossed once logLikelihoodRatio reaches log(1/alpha). */
+	logThreshold: number;
+	/** Unpooled z-score of the treatment-minus-control difference. */
+	zScore: number;
+	/** |z| needed to cross at the current variance; absent without variance. */
+	zBoundary?: number;
+	/**
+	 * Always-valid p-value: the running minimum of min(1, 1 / likelihood
+	 * ratio) over this look and every earlier one.
+	 */
+	alwaysValidPValue: number;
+	crossed: boolean;
+}
+
+/**
+ * Evaluate the two-proportion mSPRT boundary (normal mixture over the
+ * difference in rates, as in Johari et al., "Always Valid Inference").
+ *
+ * With estimated difference d, its unpooled variance V, and mixing
+ * variance tau^2, the mixture likelihood ratio is
+ *   sqrt(V / (V + tau^2)) * exp(tau^2 d^2 / (2 V (V + tau^2))).
+ * Stopping the first time it reaches 1/alpha bounds the false-positive
+ * rate by alpha no matter how often the test is checked. Rates are
+ * proportions in [0, 1]. Pass the always-valid p-value of the previous
+ * look as `previousPValue`: the p-value never rises between looks, and a
+ * boundary crossed once stays crossed.
+ */
+export function computeMsprtBoundary(params: {
+	control: { rate: number; sampleSize: number };
+	treatment: { rate: number; sampleSize: number };
+	alpha: number;
+	mixingVariance: number;
+	previousPValue?: number;
+}): SequentialBoundary {
+	const { control, treatment, alpha, mixingVariance } = params;
+	const previousPValue = params.previousPValue ?? 1;
+	if (!Number.isFinite(alpha) || alpha <= 0 || alpha >= 1) {
+		throw new Error(
+			`alpha must be a finite number in (0, 1), received ${alpha}`,
+		);
+	}
+	if (!Number.isFinite(mixingVariance) || mixingVariance <= 0) {
+		throw new Error(
+			`mixingVariance must be a finite positive number, received ${mixingVariance}`,
+		);
+	}
+	if (
+		!Number.isFinite(previousPValue) ||
+		previousPValue < 0 ||
+		previousPValue > 1
+	) {
+		throw new Error(
+			`previousPValue must be a finite number in [0, 1], received ${previousPValue}`,
+		);
+	}
+
+	const logThreshold = Math.log(1 / alpha);
+	const variance =
+		control.sampleSize > 0 && treatment.sampleSize > 0
+			? (control.rate * (1 - control.rate)) / control.sampleSize +
+				(treatment.rate * (1 - treatment.rate)) / treatment.sampleSize
+			: 0;
+	// No variance (no sample, or every rate at 0 or 1) carries no evidence.
+	if (!Number.isFinite(variance) || variance <= 0) {
+		return {
+			method: "msprt",
+			alpha,
+			mixingVariance,
+			logLikelihoodRatio: 0,
+			logThreshold,
+			zScore: 0,
+			alwaysValidPValue: previousPValue,
+			crossed: previousPValue <= alpha,
+		};
+	}
+
+	const difference = treatment.rate - control.rate;
+	const spread = variance + mixingVariance;
+	// Work in log space so large samples cannot overflow the ratio.
+	const logLikelihoodRatio =
+		0.5 * Math.log(variance / spread) +
+		(mixingVariance * difference ** 2) / (2 * variance * spread);
+	const zBoundary = Math.sqrt(
+		(spread / mixingVariance) *
+			(2 * logThreshold + Math.log(spread / variance)),
+	);
+
+	return {
+		method: "msprt",
+		alpha,
+		mixingVariance,
+		logLikelihoodRatio,
+		logThreshold,
+		zScore: difference / Math.sqrt(variance),
+		zBoundary,
+		alwaysValidPValue: Math.min(
+			previousPValue,
+			Math.exp(-logLikelihoodRatio),
+		),
+		crossed: logLikelihoodRatio >= logThreshold || previousPValue <= alpha,
+	};
+}
+
 export interface SRMCheckResult {
 	/** True if the sample ratio is consistent with expectations. */
 	passed: boolean;
@@ -67,7 +67,7 @@ export interface AbTest {
 		template_id?: number;
 	};
 	// Testing methodology fields
-	testingMode: "holdout" | "full-split";
+	testingMode: "holdout" | "full-split" | "bandit";
 	testGroupPercentage: number;
 	testGroupSize: number;
 	holdoutGroupSize: number;
@@ -106,6 +106,21 @@ export interface AbTest {
 	/** Recipient-domain stratified quota matrix, computed during provisioning
 	 * when a stratification policy is enabled and emails are available. */
 	stratification?: import("./stratification").StratificationResult;
+	/** Bayesian report policy; reports add posterior summaries when enabled. */
+	bayesianPolicy?: import("./bayesian").BayesianPolicyV1;
+	/** Bandit reallocation policy; set only for `testingMode: "bandit"`. */
+	banditPolicy?: import("./bandit").BanditPolicyV1;
+	/**
+	 * Waves sent from the holdout pool of a bandit test, in order. Each wave
+	 * keeps the observations and allocation it was decided on as an audit
+	 * trail.
+	 */
+	banditWaves?: import("./bandit").BanditWave[];
+	/**
+	 * Always-valid p-value of a sequential test after its latest recorded
+	 * look. Later looks start from it, so it only ever falls.
+	 */
+	sequentialPValue?: number;
 	/**
 	 * Deterministic assignment manifest produced from the seed + audience.
 	 * Once stored, retries and reconciliation reuse it rather than
@@ -205,6 +220,12 @@ export interface StatisticalAnalysis {
 	srmPValue?: number;
 	/** Fixed-horizon gate reason codes if the test was not ready. */
 	fixedHorizonReasonCodes?: string[];
+	/** Analysis mode from the pre-registered plan; fixed horizon when absent. */
+	analysisMode?: "fixed_horizon" | "sequential";
+	/** mSPRT boundary evaluated at this look (sequential mode only). */
+	sequentialBoundary?: import("./statistics").SequentialBoundary;
+	/** Sequential gate reason codes if the test was not ready. */
+	sequentialReasonCodes?: string[];
 }
 
 export interface AbTestConfig {
@@ -222,8 +243,8 @@ export interface AbTestConfig {
 		template_id?: number;
 	};
 	// Testing methodology settings
-	testingMode?: "holdout" | "full-split"; // Default: holdout
-	testGroupPercentage?: number; // Default 10% for holdout, 100% for full-split
+	testingMode?: "holdout" | "full-split" | "bandit"; // Default: holdout
+	testGroupPercentage?: number; // Default 10% for holdout and bandit, 100% for full-split
 	minimumTestSampleSize?: number; // Minimum subscribers per variant
 	confidenceThreshold?: number; // Statistical significance threshold
 	autoLaunch?: boolean;
@@ -241,6 +262,12 @@ export interface AbTestConfig {
 	// and stores it on AbTest.stratification. Optional; defaults to the
 	// disabled policy.
 	stratificationPolicy?: import("./stratification").StratificationPolicyV1;
+	// Bayesian report policy. When enabled, experiment reports carry
+	// probability-to-beat-control, expected loss, and credible intervals next
+	// to the frequentist results. Reporting only; decisions are unchanged.
+	bayesianPolicy?: import("./bayesian").BayesianPolicyV1;
+	// Bandit policy (bandit mode only). Defaults to DEFAULT_BANDIT_POLICY.
+	banditPolicy?: import("./bandit").BanditPolicyV1;
 }
 
 export interface AbTestInput {
@@ -268,8 +295,8 @@ export interface CreateAbTestInput {
 	}>;
 	lists: number[];
 	// Testing methodology settings
-	testing_mode?: "holdout" | "full-split"; // Default: holdout
-	test_group_percentage?: number; // Range: 1-100%, default 10% for holdout, 100% for full-split
+	testing_mode?: "holdout" | "full-split" | "bandit"; // Default: holdout
+	test_group_percentage?: number; // Range: 1-100%, default 10% for holdout and bandit, 100% for full-split
 	confidence_threshold?: number; // Default 0.95
 	minimum_sample_size?: number; // Minimum per variant
 	duration_hours?: number;
@@ -300,12 +327,25 @@ export interface CreateAbTestInput {
 			attribution_window_hours: number;
 			exclusion_window_hours: number;
 		};
+		analysis_plan?:
+			| { mode: "fixed_horizon" }
+			| { mode: "sequential"; method: "msprt"; mixing_variance: number };
 	};
 	// Enable recipient-domain stratification during holdout provisioning.
 	// When true, the service applies the default stratification policy
 	// (gmail/naver/daum/kakao + other/unknown fallbacks) and stores the
 	// computed quota matrix on AbTest.stratification.
 	enable_stratification?: boolean;
+	// Add Bayesian posterior summaries (default policy) to experiment reports.
+	enable_bayesian_analysis?: boolean;
+	// Bandit mode settings. The test group explores; the holdout is then sent
+	// in waves reallocated by Thompson sampling on the chosen metric.
+	bandit?: {
+		metric?: "click_rate" | "conversion_rate";
+		wave_count?: number;
+		wave_interval_hours?: number;
+		minimum_share?: number;
+	};
 }
 
 export interface AnalyzeAbTestInput {
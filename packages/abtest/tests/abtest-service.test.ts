@@ -1,5 +1,6 @@
 import { describe, expect, it } from "bun:test";
 import { AbTestService } from "../src/abtest-service";
+import { lockHypothesis, type HypothesisMetadata } from "../src/hypothesis";
 import { SimulatedMetricsCollector } from "../src/metrics";
 import { AbTestMetricsUnavailableError } from "../src/metrics";
 import type { AbTest, TestResults } from "../src/types";
@@ -228,3 +229,214 @@ describe("AbTestService.analyzeTest", () => {
 		expect(analysis.winner?.id).toBe("B");
 	});
 });
+
+function sequentialHypothesis(
+	analysisPlan: HypothesisMetadata["analysisPlan"] = {
+		mode: "sequential",
+		method: "msprt",
+		mixingVariance: 0.0004,
+	},
+): HypothesisMetadata {
+	return lockHypothesis({
+		objective: "Lift welcome clicks",
+		hypothesis: "A shorter subject lifts click rate",
+		primaryMetric: { type: "click_rate", direction: "maximize" },
+		expectedLift: { kind: "relative", value: 0.2 },
+		owner: { id: "owner-1" },
+		experimentScope: {
+			channel: "email",
+			experimentFamilyKey: "onboarding.welcome",
+			attributionWindowHours: 72,
+			exclusionWindowHours: 0,
+		},
+		analysisPlan,
+		createdAt: "2026-07-01T00:00:00Z",
+	});
+}
+
+function sequentialResults(treatmentClicks: number): TestResults[] {
+	return [
+		{
+			variantId: "A",
+			sampleSize: 2000,
+			opens: 1000,
+			clicks: 200,
+			conversions: 0,
+			openRate: 50,
+			clickRate: 10,
+			conversionRate: 0,
+		},
+		{
+			variantId: "B",
+			sampleSize: 2000,
+			opens: 1000,
+			clicks: treatmentClicks,
+			conversions: 0,
+			openRate: 50,
+			clickRate: treatmentClicks / 20,
+			conversionRate: 0,
+		},
+	];
+}
+
+describe("AbTestService.analyzeTest sequential mode", () => {
+	// Still running: the fixed horizon is a week away.
+	const running = {
+		startedAt: new Date(Date.now() - 3_600_000).toISOString(),
+		endsAt: new Date(Date.now() + 7 * 86_400_000).toISOString(),
+	};
+
+	it("decides before the horizon once the mSPRT boundary is crossed", async () => {
+		const service = new AbTestService(
+			undefined,
+			new SimulatedMetricsCollector(
+				new Map([["test-1", sequentialResults(280)]]),
+			),
+		);
+		service.hydrateTests([
+			makeTest({ ...running, hypothesis: sequentialHypothesis() }),
+		]);
+
+		const analysis = await service.analyzeTest("test-1");
+
+		expect(analysis.analysis.analysisMode).toBe("sequential");
+		expect(analysis.analysis.fixedHorizonReasonCodes).toBeUndefined();
+		expect(analysis.analysis.sequentialReasonCodes).toEqual([]);
+		expect(analysis.analysis.sequentialBoundary).toMatchObject({
+			method: "msprt",
+			alpha: expect.closeTo(0.05, 10),
+			crossed: true,
+		});
+		expect(analysis.analysis.isSignificant).toBe(true);
+		expect(analysis.winner?.id).toBe("B");
+	});
+
+	it("keeps running while a fixed-horizon-significant lift stays inside the boundary", async () => {
+		// B at 12.2% gives z ~= 2.2: significant for a single look, but not
+		// strong enough evidence under continuous monitoring.
+		const service = new AbTestService(
+			undefined,
+			new SimulatedMetricsCollector(
+				new Map([["test-1", sequentialResults(244)]]),
+			),
+		);
+		service.hydrateTests([
+			makeTest({ ...running, hypothesis: sequentialHypothesis() }),
+		]);
+
+		const analysis = await service.analyzeTest("test-1");
+
+		expect(analysis.analysis.pValue).toBeLessThan(0.05);
+		expect(analysis.analysis.sequentialBoundary?.crossed).toBe(false);
+		expect(analysis.analysis.isSignificant).toBe(false);
+		expect(analysis.winner).toBeNull();
+	});
+
+	it("starts each look from the recorded always-valid p-value", async () => {
+		const service = new AbTestService(
+			undefined,
+			new SimulatedMetricsCollector(
+				new Map([["test-1", sequentialResults(244)]]),
+			),
+		);
+		service.hydrateTests([
+			makeTest({
+				...running,
+				hypothesis: sequentialHypothesis(),
+				sequentialPValue: 0.01,
+			}),
+		]);
+
+		const analysis = await service.recordSequentialLook("test-1");
+
+		expect(analysis.analysis.sequentialBoundary).toMatchObject({
+			alwaysValidPValue: 0.01,
+			crossed: true,
+		});
+		expect(analysis.analysis.isSignificant).toBe(true);
+		expect((await service.getTest("test-1"))?.sequentialPValue).toBe(0.01);
+	});
+
+	it("does not carry an underpowered look into later looks", async () => {
+		const underpowered: TestResults[] = [
+			{
+				variantId: "A",
+				sampleSize: 200,
+				opens: 100,
+				clicks: 10,
+				conversions: 0,
+				openRate: 50,
+				clickRate: 5,
+				conversionRate: 0,
+			},
+			{
+				variantId: "B",
+				sampleSize: 200,
+				opens: 100,
+				clicks: 60,
+				conversions: 0,
+				openRate: 50,
+				clickRate: 30,
+				conversionRate: 0,
+			},
+		];
+		const resultsByTestId = new Map([["test-1", underpowered]]);
+		const service = new AbTestService(
+			undefined,
+			new SimulatedMetricsCollector(resultsByTestId),
+		);
+		service.hydrateTests([
+			makeTest({
+				...running,
+				hypothesis: sequentialHypothesis(),
+				minimumTestSampleSize: 1000,
+			}),
+		]);
+
+		const early = await service.recordSequentialLook("test-1");
+
+		expect(early.analysis.sequentialReasonCodes).not.toEqual([]);
+		expect(
+			early.analysis.sequentialBoundary?.alwaysValidPValue,
+		).toBeLessThan(0.05);
+		expect(early.analysis.isSignificant).toBe(false);
+		expect((await service.getTest("test-1"))?.sequentialPValue).toBeUndefined();
+
+		resultsByTestId.set("test-1", sequentialResults(244));
+		await service.analyzeTest("test-1");
+		expect((await service.getTest("test-1"))?.sequentialPValue).toBeUndefined();
+
+		const gated = await service.recordSequentialLook("test-1");
+
+		expect(gated.analysis.sequentialReasonCodes).toEqual([]);
+		expect(gated.analysis.sequentialBoundary?.crossed).toBe(false);
+		expect(gated.analysis.isSignificant).toBe(false);
+		expect((await service.getTest("test-1"))?.sequentialPValue).toBe(
+			gated.analysis.sequentialBoundary?.alwaysValidPValue,
+		);
+	});
+
+	it("leaves fixed-horizon plans gated until endsAt", async () => {
+		const service = new AbTestService(
+			undefined,
+			new SimulatedMetricsCollector(
+				new Map([["test-1", sequentialResults(280)]]),
+			),
+		);
+		service.hydrateTests([
+			makeTest({
+				...running,
+				hypothesis: sequentialHypothesis({ mode: "fixed_horizon" }),
+			}),
+		]);
+
+		const analysis = await service.analyzeTest("test-1");
+
+		expect(analysis.analysis.analysisMode).toBe("fixed_horizon");
+		expect(analysis.analysis.fixedHorizonReasonCodes).toContain(
+			"before_endsAt",
+		);
+		expect(analysis.analysis.sequentialBoundary).toBeUndefined();
+		expect(analysis.analysis.isSignificant).toBe(false);
+	});
+});
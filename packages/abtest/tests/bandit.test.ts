@@ -0,0 +1,163 @@
+import { describe, expect, it } from "bun:test";
+import {
+	allocateBanditWave,
+	computeThompsonAllocation,
+	DEFAULT_BANDIT_POLICY,
+	nextBanditWaveDueAt,
+	planBanditWaveSizes,
+	validateBanditPolicy,
+} from "../src/bandit";
+import type { AbTest, TestResults } from "../src/types";
+
+function result(
+	variantId: string,
+	sampleSize: number,
+	clicks: number,
+): TestResults {
+	return {
+		variantId,
+		sampleSize,
+		opens: 0,
+		clicks,
+		conversions: 0,
+		openRate: 0,
+		clickRate: (clicks / sampleSize) * 100,
+		conversionRate: 0,
+	};
+}
+
+describe("validateBanditPolicy", () => {
+	it("accepts the default policy", () => {
+		expect(() => validateBanditPolicy(DEFAULT_BANDIT_POLICY, 3)).not.toThrow();
+	});
+
+	it("rejects out-of-range fields", () => {
+		expect(() =>
+			validateBanditPolicy({ ...DEFAULT_BANDIT_POLICY, waveCount: 0 }, 2),
+		).toThrow(/waveCount/);
+		expect(() =>
+			validateBanditPolicy({ ...DEFAULT_BANDIT_POLICY, minimumShare: 0.5 }, 2),
+		).toThrow(/minimumShare/);
+		expect(() =>
+			validateBanditPolicy(
+				{ ...DEFAULT_BANDIT_POLICY, waveIntervalHours: 0 },
+				2,
+			),
+		).toThrow(/waveIntervalHours/);
+		expect(() => validateBanditPolicy(DEFAULT_BANDIT_POLICY, 1)).toThrow(
+			/two variants/,
+		);
+	});
+});
+
+describe("planBanditWaveSizes", () => {
+	it("splits the holdout into near-equal waves that sum to the pool", () => {
+		expect(planBanditWaveSizes(10, 4)).toEqual([3, 3, 2, 2]);
+		expect(planBanditWaveSizes(0, 2)).toEqual([0, 0]);
+	});
+});
+
+describe("computeThompsonAllocation", () => {
+	const policy = { ...DEFAULT_BANDIT_POLICY, draws: 5_000 };
+
+	it("shifts weight toward the better arm while keeping the floor", () => {
+		const allocation = computeThompsonAllocation({
+			results: [result("a", 500, 40), result("b", 500, 75)],
+			policy,
+			seed: "test-1:bandit-wave:1",
+		});
+		expect(allocation[1]?.probabilityToBeBest).toBeGreaterThan(0.99);
+		expect(allocation[0]?.weight).toBeCloseTo(0.05, 5);
+		expect(
+			allocation.reduce((sum, arm) => sum + arm.weight, 0),
+		).toBeCloseTo(1, 10);
+	});
+
+	it("splits evenly when nothing has been observed", () => {
+		const allocation = computeThompsonAllocation({
+			results: [result("a", 0, 0), result("b", 0, 0), result("c", 0, 0)],
+			policy,
+			seed: "test-1:bandit-wave:1",
+		});
+		for (const arm of allocation) {
+			expect(arm.weight).toBeCloseTo(1 / 3, 1);
+		}
+	});
+
+	it("is deterministic for a seed", () => {
+		const params = {
+			results: [result("a", 300, 30), result("b", 300, 33)],
+			policy,
+			seed: "test-1:bandit-wave:2",
+		};
+		expect(computeThompsonAllocation(params)).toEqual(
+			computeThompsonAllocation(params),
+		);
+	});
+});
+
+describe("allocateBanditWave", () => {
+	it("turns weights into exact counts and skips zero-weight arms", () => {
+		expect(
+			allocateBanditWave(7, [
+				{ variantId: "a", probabilityToBeBest: 0.1, weight: 0.3 },
+				{ variantId: "b", probabilityToBeBest: 0.9, weight: 0.7 },
+				{ variantId: "c", probabilityToBeBest: 0, weight: 0 },
+			]),
+		).toEqual([
+			{ variantId: "a", count: 2 },
+			{ variantId: "b", count: 5 },
+			{ variantId: "c", count: 0 },
+		]);
+	});
+});
+
+describe("nextBanditWaveDueAt", () => {
+	const test = {
+		launchAt: "2026-07-01T00:00:00.000Z",
+		banditPolicy: { ...DEFAULT_BANDIT_POLICY, waveCount: 2 },
+		banditWaves: [],
+	} as unknown as AbTest;
+
+	it("spaces waves from the launch time", () => {
+		expect(nextBanditWaveDueAt(test)).toBe("2026-07-02T00:00:00.000Z");
+		expect(
+			nextBanditWaveDueAt({
+				...test,
+				banditWaves: [
+					{
+						wave: 1,
+						status: "sent",
+						plannedAt: "2026-07-02T00:00:00.000Z",
+						plannedSize: 10,
+						observed: [],
+						allocation: [],
+					},
+				],
+			}),
+		).toBe("2026-07-03T00:00:00.000Z");
+	});
+
+	it("retries a planned wave immediately and stops after the last wave", () => {
+		const planned = {
+			wave: 1,
+			status: "planned" as const,
+			plannedAt: "2026-07-02T00:05:00.000Z",
+			plannedSize: 10,
+			observed: [],
+			allocation: [],
+		};
+		expect(nextBanditWaveDueAt({ ...test, banditWaves: [planned] })).toBe(
+			planned.plannedAt,
+		);
+		expect(
+			nextBanditWaveDueAt({
+				...test,
+				banditWaves: [
+					{ ...planned, status: "sent" },
+					{ ...planned, wave: 2, status: "sent" },
+				],
+			}),
+		).toBeUndefined();
+	});
+});
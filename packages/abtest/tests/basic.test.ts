@@ -1,6 +1,8 @@
 import { expect, test } from "bun:test";
 import { AbTestService } from "../src/abtest-service";
 import { CreateAbTestCommand } from "../src/basic";
+import { DEFAULT_BANDIT_POLICY } from "../src/bandit";
+import { DEFAULT_BAYESIAN_POLICY } from "../src/bayesian";
 
 test("CreateAbTestCommand uses provided campaign_id", async () => {
 	const service = new AbTestService();
@@ -113,6 +115,130 @@ test("CreateAbTestCommand locks a provided hypothesis before provisioning", asyn
 	expect(created.assignmentProvenance).toBeUndefined();
 });
 
+test("CreateAbTestCommand maps a sequential analysis plan into the locked hypothesis", async () => {
+	const service = new AbTestService();
+	const command = new CreateAbTestCommand(service);
+
+	const created = await command.execute({
+		name: "Sequential Wiring",
+		campaign_id: "campaign-789",
+		lists: [1],
+		variants: [
+			{
+				name: "A",
+				percentage: 50,
+				campaign_config: { subject: "A", body: "Body A" },
+			},
+			{
+				name: "B",
+				percentage: 50,
+				campaign_config: { subject: "B", body: "Body B" },
+			},
+		],
+		hypothesis: {
+			objective: "Increase CTR",
+			hypothesis: "Shorter subject lifts CTR",
+			primary_metric: {
+				type: "click_rate",
+				direction: "maximize",
+			},
+			expected_lift: { kind: "relative", value: 0.1 },
+			owner: { id: "user-1" },
+			experiment_scope: {
+				channel: "email",
+				experiment_family_key: "onboarding.sequential",
+				attribution_window_hours: 72,
+				exclusion_window_hours: 168,
+			},
+			analysis_plan: {
+				mode: "sequential",
+				method: "msprt",
+				mixing_variance: 0.0004,
+			},
+		},
+	});
+
+	expect(created.hypothesis?.analysisPlan).toEqual({
+		mode: "sequential",
+		method: "msprt",
+		mixingVariance: 0.0004,
+	});
+});
+
+test("CreateAbTestCommand enables the default Bayesian report policy", async () => {
+	const service = new AbTestService();
+	const command = new CreateAbTestCommand(service);
+
+	const created = await command.execute({
+		name: "Bayesian Wiring",
+		campaign_id: "campaign-790",
+		lists: [1],
+		variants: [
+			{
+				name: "A",
+				percentage: 50,
+				campaign_config: { subject: "A", body: "Body A" },
+			},
+			{
+				name: "B",
+				percentage: 50,
+				campaign_config: { subject: "B", body: "Body B" },
+			},
+		],
+		enable_bayesian_analysis: true,
+	});
+
+	expect(created.bayesianPolicy).toEqual({
+		...DEFAULT_BAYESIAN_POLICY,
+		enabled: true,
+	});
+});
+
+test("CreateAbTestCommand maps bandit settings onto the default policy", async () => {
+	const baseInput = {
+		name: "Bandit Wiring",
+		campaign_id: "campaign-791",
+		lists: [1],
+		variants: [
+			{
+				name: "A",
+				percentage: 50,
+				campaign_config: { subject: "A", body: "Body A" },
+			},
+			{
+				name: "B",
+				percentage: 50,
+				campaign_config: { subject: "B", body: "Body B" },
+			},
+		],
+	};
+	const created = await new CreateAbTestCommand(new AbTestService()).execute({
+		...baseInput,
+		testing_mode: "bandit",
+		bandit: { metric: "conversion_rate", wave_count: 3 },
+	});
+
+	expect(created.testGroupPercentage).toBe(10);
+	expect(created.banditPolicy).toEqual({
+		...DEFAULT_BANDIT_POLICY,
+		metric: "conversion_rate",
+		waveCount: 3,
+	});
+
+	for (const invalid of [
+		{ bandit: { wave_count: 2 } },
+		{ testing_mode: "bandit" as const, auto_deploy_winner: true },
+		{ testing_mode: "bandit" as const, duration_hours: 24 },
+	]) {
+		await expect(
+			new CreateAbTestCommand(new AbTestService()).execute({
+				...baseInput,
+				...invalid,
+			}),
+		).rejects.toThrow();
+	}
+});
+
 test("analyzeStatisticalSignificance returns stable values on zero samples", async () => {
 	const service = new AbTestService();
 
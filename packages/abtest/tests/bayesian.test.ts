@@ -0,0 +1,158 @@
+import { describe, expect, it } from "bun:test";
+import {
+	computeBayesianAnalysis,
+	DEFAULT_BAYESIAN_POLICY,
+	validateBayesianPolicy,
+} from "../src/bayesian";
+import type { TestResults } from "../src/types";
+
+const policy = { ...DEFAULT_BAYESIAN_POLICY, enabled: true };
+
+function result(
+	variantId: string,
+	sampleSize: number,
+	counts: { opens?: number; clicks?: number; conversions?: number },
+	revenue?: number,
+): TestResults {
+	const opens = counts.opens ?? 0;
+	const clicks = counts.clicks ?? 0;
+	const conversions = counts.conversions ?? 0;
+	return {
+		variantId,
+		sampleSize,
+		opens,
+		clicks,
+		conversions,
+		revenue,
+		openRate: (opens / sampleSize) * 100,
+		clickRate: (clicks / sampleSize) * 100,
+		conversionRate: (conversions / sampleSize) * 100,
+	};
+}
+
+describe("validateBayesianPolicy", () => {
+	it("accepts the default policy", () => {
+		expect(() => validateBayesianPolicy(DEFAULT_BAYESIAN_POLICY)).not.toThrow();
+	});
+
+	it("rejects out-of-range fields", () => {
+		expect(() =>
+			validateBayesianPolicy({ ...policy, credibleLevel: 1 }),
+		).toThrow(/credibleLevel/);
+		expect(() => validateBayesianPolicy({ ...policy, draws: 10 })).toThrow(
+			/draws/,
+		);
+		expect(() =>
+			validateBayesianPolicy({ ...policy, ratePrior: { alpha: 0, beta: 1 } }),
+		).toThrow(/ratePrior\.alpha/);
+	});
+});
+
+describe("computeBayesianAnalysis", () => {
+	it("matches the analytic Beta-Binomial posterior", () => {
+		const analysis = computeBayesianAnalysis({
+			results: [
+				result("a", 2000, { opens: 600 }),
+				result("b", 2000, { opens: 640 }),
+			],
+			policy,
+			seed: "test-1",
+		});
+		const open = analysis.metrics.find((m) => m.metric === "open_rate");
+		const [control, treatment] = open?.variants ?? [];
+
+		// Beta(601, 1401) has mean 601/2002; the normal approximation of the
+		// difference gives P(b > a) ~= 0.91.
+		expect(control?.posteriorMean).toBeCloseTo(601 / 2002, 2);
+		expect(control?.probabilityToBeatControl).toBeUndefined();
+		expect(treatment?.probabilityToBeatControl).toBeCloseTo(0.91, 1);
+		expect(control?.credibleInterval.lower).toBeCloseTo(0.28, 2);
+		expect(control?.credibleInterval.upper).toBeCloseTo(0.32, 2);
+		expect(treatment?.expectedLoss).toBeLessThan(control?.expectedLoss ?? 0);
+	});
+
+	it("flips the comparison for a minimized primary metric", () => {
+		const analysis = computeBayesianAnalysis({
+			results: [
+				result("a", 2000, { clicks: 200 }),
+				result("b", 2000, { clicks: 280 }),
+			],
+			policy,
+			seed: "test-1",
+			primaryMetric: "click_rate",
+			direction: "minimize",
+		});
+		const clicks = analysis.metrics.find((m) => m.metric === "click_rate");
+		const opens = analysis.metrics.find((m) => m.metric === "open_rate");
+
+		expect(clicks?.direction).toBe("minimize");
+		expect(clicks?.variants[1]?.probabilityToBeatControl).toBeLessThan(0.01);
+		expect(clicks?.variants[0]?.probabilityToBeBest).toBeGreaterThan(0.99);
+		expect(opens?.direction).toBe("maximize");
+	});
+
+	it("is deterministic for a seed", () => {
+		const params = {
+			results: [
+				result("a", 500, { clicks: 40 }),
+				result("b", 500, { clicks: 45 }),
+				result("c", 500, { clicks: 50 }),
+			],
+			policy,
+			seed: "test-1",
+		};
+		expect(computeBayesianAnalysis(params)).toEqual(
+			computeBayesianAnalysis(params),
+		);
+		const total = computeBayesianAnalysis(params)
+			.metrics.find((m) => m.metric === "click_rate")
+			?.variants.reduce((sum, v) => sum + v.probabilityToBeBest, 0);
+		expect(total).toBeCloseTo(1, 10);
+	});
+
+	it("models revenue per recipient when conversions carry value", () => {
+		const analysis = computeBayesianAnalysis({
+			results: [
+				result("a", 2000, { conversions: 40 }, 2000),
+				result("b", 2000, { conversions: 55 }, 2600),
+			],
+			policy,
+			seed: "test-1",
+		});
+		const revenue = analysis.metrics.find(
+			(m) => m.metric === "revenue_per_recipient",
+		);
+
+		expect(revenue?.model).toBe("beta_gamma_revenue");
+		expect(revenue?.variants[0]?.posteriorMean).toBeCloseTo(1, 0);
+		expect(revenue?.variants[1]?.posteriorMean).toBeCloseTo(1.3, 0);
+		expect(revenue?.variants[1]?.probabilityToBeatControl).toBeGreaterThan(
+			0.5,
+		);
+	});
+
+	it("reports why the revenue model was skipped", () => {
+		const analysis = computeBayesianAnalysis({
+			results: [
+				result("a", 100, { conversions: 0 }, 0),
+				result("b", 100, { conversions: 0 }, 0),
+			],
+			policy,
+			seed: "test-1",
+		});
+		expect(analysis.metrics.map((m) => m.metric)).not.toContain(
+			"revenue_per_recipient",
+		);
+		expect(analysis.reasonCodes).toEqual(["revenue_model_insufficient_data"]);
+	});
+
+	it("needs at least two variants", () => {
+		const analysis = computeBayesianAnalysis({
+			results: [result("a", 100, { clicks: 5 })],
+			policy,
+			seed: "test-1",
+		});
+		expect(analysis.metrics).toEqual([]);
+		expect(analysis.reasonCodes).toEqual(["insufficient_variants:1"]);
+	});
+});
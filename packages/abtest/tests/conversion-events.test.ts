@@ -1,10 +1,27 @@
-import { describe, expect, it } from "bun:test";
+import { afterEach, describe, expect, it } from "bun:test";
+import { randomUUID } from "node:crypto";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import {
 	InMemoryConversionEventStore,
 	ConversionEventValidationError,
+	conversionAttributionWindowForTest,
+	createManifestAssignmentLookup,
 	validateConversionEvent,
 	type ConversionEventInput,
 } from "../src/conversion-events";
+import {
+	JsonFileConversionEventStore,
+	PostgresConversionEventStore,
+	getConversionEventStoreFromEnvironment,
+	type JsonFileConversionEventStoreOptions,
+} from "../src/conversion-event-stores";
+import type { AbTest } from "../src/types";
+
+const databaseUrl =
+	process.env.LISTMONK_OPS_TEST_ABTEST_DATABASE_URL?.trim();
+const postgresIt = databaseUrl ? it : it.skip;
 
 function makeEvent(
 	overrides: Partial<ConversionEventInput> = {},
@@ -167,3 +184,187 @@ describe("InMemoryConversionEventStore", () => {
 		expect(json).not.toContain("name");
 	});
 });
+
+describe("JsonFileConversionEventStore", () => {
+	let tempDir: string | undefined;
+
+	afterEach(async () => {
+		if (tempDir) {
+			await rm(tempDir, { recursive: true, force: true });
+			tempDir = undefined;
+		}
+	});
+
+	async function createStore(
+		options: Omit<JsonFileConversionEventStoreOptions, "path"> = {},
+	) {
+		tempDir = await mkdtemp(join(tmpdir(), "listmonk-ops-abtest-conversions-"));
+		return new JsonFileConversionEventStore({
+			...options,
+			path: join(tempDir, "conversions.json"),
+		});
+	}
+
+	it("persists events across store instances", async () => {
+		const store = await createStore();
+		await store.record(
+			makeEvent({ eventId: "e1", variantId: "A", value: 20, currency: "USD" }),
+		);
+		await store.record(
+			makeEvent({ eventId: "e2", variantId: "A", subscriberUuid: "uuid-2" }),
+		);
+
+		const reopened = new JsonFileConversionEventStore({ path: store.path });
+		const aggregates = await reopened.aggregate("test-1");
+		expect(aggregates).toEqual([
+			expect.objectContaining({
+				variantId: "A",
+				totalEvents: 2,
+				uniqueSubscribers: 2,
+				totalValue: 20,
+				currency: "USD",
+			}),
+		]);
+	});
+
+	it("returns duplicate for a replayed eventId", async () => {
+		const store = await createStore();
+		await expect(store.record(makeEvent())).resolves.toBe("created");
+		await expect(
+			store.record(makeEvent({ event: "different" })),
+		).resolves.toBe("duplicate");
+		expect(await store.aggregate("test-1")).toHaveLength(1);
+	});
+
+	it("records concurrent writers exactly once per eventId", async () => {
+		const store = await createStore();
+		const results = await Promise.all(
+			Array.from({ length: 5 }, () => store.record(makeEvent())),
+		);
+		expect(results.filter((result) => result === "created")).toHaveLength(1);
+	});
+
+	it("applies per-call attribution over the constructor defaults", async () => {
+		const store = await createStore({
+			assignmentLookup: () => false,
+		});
+		await expect(store.record(makeEvent())).rejects.toThrow(
+			ConversionEventValidationError,
+		);
+		await expect(
+			store.record(makeEvent(), { assignmentLookup: () => true }),
+		).resolves.toBe("created");
+	});
+
+	it("stores only pseudonymous fields", async () => {
+		const store = await createStore();
+		await store.record({
+			...makeEvent(),
+			email: "someone@example.com",
+		} as ConversionEventInput);
+		const raw = await readFile(store.path, "utf8");
+		expect(raw).not.toContain("@");
+		expect(raw).toContain("recordedAt");
+	});
+});
+
+describe("conversion attribution helpers", () => {
+	function makeTest(overrides: Partial<AbTest> = {}): AbTest {
+		return {
+			id: "test-1",
+			variants: [
+				{ id: "A", name: "A", percentage: 50, contentOverrides: {} },
+				{ id: "B", name: "B", percentage: 50, contentOverrides: {} },
+			],
+			...overrides,
+		} as AbTest;
+	}
+
+	it("derives the window from launch, end, and attribution hours", () => {
+		const window = conversionAttributionWindowForTest(
+			makeTest({
+				launchAt: "2026-07-24T00:00:00Z",
+				endsAt: "2026-07-25T00:00:00Z",
+				hypothesis: {
+					experimentScope: { attributionWindowHours: 24 },
+				},
+			} as unknown as Partial<AbTest>),
+		);
+		expect(window).toEqual({
+			startTime: Date.parse("2026-07-24T00:00:00Z"),
+			endTime: Date.parse("2026-07-26T00:00:00Z"),
+		});
+	});
+
+	it("leaves unlaunched tests unbounded", () => {
+		expect(conversionAttributionWindowForTest(makeTest())).toBeUndefined();
+	});
+
+	it("accepts only the test's own variants", () => {
+		const lookup = createManifestAssignmentLookup(makeTest());
+		expect(lookup("test-1", "A", "uuid-1")).toBe(true);
+		expect(lookup("test-1", "C", "uuid-1")).toBe(false);
+		expect(lookup("test-2", "A", "uuid-1")).toBe(false);
+	});
+});
+
+describe("getConversionEventStoreFromEnvironment", () => {
+	it("rejects configuring both a path and a database URL", () => {
+		expect(() =>
+			getConversionEventStoreFromEnvironment({
+				path: "/tmp/conversions.json",
+				databaseUrl: "postgres://localhost/listmonk_ops",
+			}),
+		).toThrow("Configure only one of");
+	});
+
+	it("falls back to the JSON file store", () => {
+		const store = getConversionEventStoreFromEnvironment({
+			path: "/tmp/conversions.json",
+		});
+		expect(store).toBeInstanceOf(JsonFileConversionEventStore);
+	});
+});
+
+describe("PostgresConversionEventStore", () => {
+	postgresIt("records idempotently and aggregates per variant", async () => {
+		const store = new PostgresConversionEventStore({
+			connectionString: databaseUrl as string,
+		});
+		const testId = `test-${randomUUID()}`;
+		try {
+			await expect(
+				store.record(
+					makeEvent({ testId, eventId: `${testId}-1`, value: 5, currency: "EUR" }),
+				),
+			).resolves.toBe("created");
+			await expect(
+				store.record(makeEvent({ testId, eventId: `${testId}-1` })),
+			).resolves.toBe("duplicate");
+			await store.record(
+				makeEvent({
+					testId,
+					eventId: `${testId}-2`,
+					variantId: "B",
+					subscriberUuid: "uuid-2",
+				}),
+			);
+			await expect(
+				store.record(makeEvent({ testId, eventId: `${testId}-3` }), {
+					assignmentLookup: () => false,
+				}),
+			).rejects.toThrow(ConversionEventValidationError);
+
+			const aggregates = await store.aggregate(testId);
+			expect(aggregates).toHaveLength(2);
+			expect(aggregates.find((a) => a.variantId === "A")).toMatchObject({
+				totalEvents: 1,
+				uniqueSubscribers: 1,
+				totalValue: 5,
+				currency: "EUR",
+			});
+		} finally {
+			await store.close();
+		}
+	});
+});
@@ -0,0 +1,375 @@
+import { describe, expect, it, mock } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { ListmonkClient } from "@listmonk-ops/openapi";
+import { createAbTestExecutors } from "../src/factory";
+import { lockHypothesis } from "../src/hypothesis";
+import { invokeRunAbTestOperation } from "../src/operations";
+import { loadStoredAbTests, saveStoredAbTests } from "../src/persistence";
+import type { AbTest } from "../src/types";
+
+function makeRunningTest(
+	analysisMode: "fixed_horizon" | "sequential",
+): AbTest {
+	const now = Date.now();
+	return {
+		id: `test-${analysisMode}`,
+		name: `Tick ${analysisMode}`,
+		campaignId: "campaign-1",
+		status: "running",
+		baseConfig: { subject: "s", body: "b", lists: [1] },
+		testingMode: "full-split",
+		confidenceThreshold: 0.95,
+		autoDeployWinner: false,
+		startedAt: new Date(now - 3_600_000).toISOString(),
+		endsAt: new Date(now + 7 * 86_400_000).toISOString(),
+		campaignMappings: [
+			{ variantId: "A", campaignId: 100 },
+			{ variantId: "B", campaignId: 101 },
+		],
+		testListMappings: [],
+		metrics: [],
+		createdAt: new Date(now),
+		updatedAt: new Date(now),
+		variants: [
+			{ id: "A", name: "A", percentage: 50, contentOverrides: {} },
+			{ id: "B", name: "B", percentage: 50, contentOverrides: {} },
+		],
+		hypothesis: lockHypothesis({
+			objective: "Lift welcome clicks",
+			hypothesis: "A shorter subject lifts click rate",
+			primaryMetric: { type: "click_rate", direction: "maximize" },
+			expectedLift: { kind: "relative", value: 0.2 },
+			owner: { id: "owner-1" },
+			experimentScope: {
+				channel: "email",
+				experimentFamilyKey: "onboarding.welcome",
+				attributionWindowHours: 72,
+				exclusionWindowHours: 0,
+			},
+			analysisPlan:
+				analysisMode === "sequential"
+					? { mode: "sequential", method: "msprt", mixingVariance: 0.0004 }
+					: { mode: "fixed_horizon" },
+			createdAt: "2026-07-01T00:00:00Z",
+		}),
+	};
+}
+
+function createClient() {
+	// Variant B clicks 14% against A's 10% over 2,000 sends each.
+	const getById = mock(async ({ path }: { path: { id: number } }) => ({
+		data: {
+			id: path.id,
+			name: `Campaign ${path.id}`,
+			status: "running",
+			sent: 2000,
+			views: 1000,
+			clicks: path.id === 100 ? 200 : 280,
+		},
+	}));
+	return { campaign: { getById } } as unknown as ListmonkClient;
+}
+
+describe("A/B tick with sequential analysis", () => {
+	it("stops a running sequential test early once the boundary is crossed", async () => {
+		const executors = createAbTestExecutors(createClient());
+		executors.abTestService.hydrateTests([
+			makeRunningTest("sequential"),
+			makeRunningTest("fixed_horizon"),
+		]);
+
+		expect(await executors.tickAbTests(true)).toEqual([
+			{
+				test_id: "test-sequential",
+				status: "running",
+				action: "dry-run:would-check:sequential-boundary",
+			},
+			{
+				test_id: "test-fixed_horizon",
+				status: "running",
+				action: "dry-run:noop:running-before-endsAt",
+			},
+		]);
+
+		expect(await executors.tickAbTests(false)).toEqual([
+			{
+				test_id: "test-sequential",
+				status: "completed",
+				action: "progress:running->completed",
+			},
+			{
+				test_id: "test-fixed_horizon",
+				status: "running",
+				action: "noop:running",
+			},
+		]);
+	});
+});
+
+function createBanditClient() {
+	// Holdout list 10 holds subscribers 1..40; exploration campaigns 100 (A)
+	// and 101 (B) sent 200 each, with B clicking three times as often.
+	const lists = new Map<number, { tags: string[]; members: Set<number> }>([
+		[
+			10,
+			{
+				tags: ["abtest:test-bandit", "abtest-role:holdout"],
+				members: new Set(Array.from({ length: 40 }, (_, i) => i + 1)),
+			},
+		],
+	]);
+	const campaigns = new Map<
+		number,
+		{ tags: string[]; status: string; lists: number[] }
+	>();
+	let nextId = 500;
+	const byTag = <T extends { tags: string[] }>(
+		rows: Map<number, T>,
+		tag: string,
+	) => ({
+		data: {
+			results: [...rows.entries()]
+				.filter(([, row]) => row.tags.includes(tag))
+				.map(([id, row]) => ({ id, tags: row.tags })),
+		},
+	});
+	const client = {
+		campaign: {
+			getById: mock(async ({ path }: { path: { id: number } }) => {
+				const wave = campaigns.get(path.id);
+				const sent = wave
+					? wave.lists.reduce(
+							(sum, listId) => sum + (lists.get(listId)?.members.size ?? 0),
+							0,
+						)
+					: 200;
+				return {
+					data: {
+						id: path.id,
+						status: wave?.status ?? "running",
+						sent,
+						views: 0,
+						clicks: path.id === 100 ? 20 : path.id === 101 ? 60 : 0,
+					},
+				};
+			}),
+			list: mock(async ({ query }: { query: { tag: string } }) =>
+				byTag(campaigns, query.tag),
+			),
+			create: mock(
+				async ({ body }: { body: { tags: string[]; lists: number[] } }) => {
+					const id = nextId++;
+					campaigns.set(id, { tags: body.tags, status: "draft", lists: body.lists });
+					return { data: { id } };
+				},
+			),
+			updateStatus: mock(
+				async ({
+					path,
+					body,
+				}: {
+					path: { id: number };
+					body: { status: string };
+				}) => {
+					const campaign = campaigns.get(path.id);
+					if (campaign) {
+						campaign.status = body.status;
+					}
+					return { data: {} };
+				},
+			),
+		},
+		list: {
+			list: mock(async ({ query }: { query: { tag: string } }) =>
+				byTag(lists, query.tag),
+			),
+			create: mock(async ({ body }: { body: { tags: string[] } }) => {
+				const id = nextId++;
+				lists.set(id, { tags: body.tags, members: new Set() });
+				return { data: { id } };
+			}),
+		},
+		subscriber: {
+			list: mock(
+				async ({ query }: { query: { list_id: number[]; page: number } }) => ({
+					data: {
+						results:
+							query.page === 1
+								? [...(lists.get(query.list_id[0] ?? 0)?.members ?? [])].map(
+										(id) => ({
+											id,
+											uuid: `uuid-${id}`,
+											status: "enabled",
+										}),
+									)
+								: [],
+					},
+				}),
+			),
+			manageLists: mock(
+				async ({
+					body,
+				}: {
+					body: { action: string; ids: number[]; target_list_ids: number[] };
+				}) => {
+					for (const listId of body.target_list_ids) {
+						const members = lists.get(listId)?.members;
+						for (const id of body.ids) {
+							if (body.action === "add") {
+								members?.add(id);
+							} else {
+								members?.delete(id);
+							}
+						}
+					}
+					return { data: true };
+				},
+			),
+		},
+	};
+	return { client: client as unknown as ListmonkClient, lists, campaigns };
+}
+
+function makeRunningBanditTest(): AbTest {
+	const now = Date.now();
+	return {
+		...makeRunningTest("fixed_horizon"),
+		id: "test-bandit",
+		name: "Bandit",
+		testingMode: "bandit",
+		testGroupPercentage: 10,
+		testGroupSize: 400,
+		holdoutGroupSize: 40,
+		holdoutListId: 10,
+		assignmentSeed: "seed-1",
+		startedAt: new Date(now - 3 * 3_600_000).toISOString(),
+		endsAt: new Date(now + 86_400_000).toISOString(),
+		banditPolicy: {
+			version: 1,
+			metric: "click_rate",
+			waveCount: 2,
+			waveIntervalHours: 1,
+			minimumShare: 0.05,
+			draws: 5_000,
+		},
+	};
+}
+
+describe("A/B tick in bandit mode", () => {
+	it("sends one due wave per tick, reallocated toward the better variant", async () => {
+		const { client, lists, campaigns } = createBanditClient();
+		const executors = createAbTestExecutors(client);
+		executors.abTestService.hydrateTests([makeRunningBanditTest()]);
+
+		expect(await executors.tickAbTests(true)).toEqual([
+			{
+				test_id: "test-bandit",
+				status: "running",
+				action: "dry-run:would-send:bandit-wave-1",
+			},
+		]);
+		expect(await executors.tickAbTests(false)).toEqual([
+			{
+				test_id: "test-bandit",
+				status: "running",
+				action: "progress:bandit-wave-1",
+			},
+		]);
+
+		const test = await executors.abTestService.getTest("test-bandit");
+		const [first] = test?.banditWaves ?? [];
+		expect(first?.status).toBe("sent");
+		expect(first?.observed).toEqual([
+			{ variantId: "A", sampleSize: 200, successes: 20 },
+			{ variantId: "B", sampleSize: 200, successes: 60 },
+		]);
+		expect(first?.allocation[1]?.weight).toBeGreaterThan(0.9);
+		expect(first?.allocation[0]?.weight).toBeCloseTo(0.05, 5);
+		expect(first?.groups?.map((g) => [g.variantId, g.expectedCount])).toEqual([
+			["A", 1],
+			["B", 19],
+		]);
+		expect(lists.get(10)?.members.size).toBe(20);
+		for (const group of first?.groups ?? []) {
+			expect(campaigns.get(group.campaignId)).toMatchObject({
+				status: "running",
+				lists: [group.listId],
+			});
+			expect(campaigns.get(group.campaignId)?.tags).toContain(
+				"bandit-wave:1",
+			);
+		}
+
+		// The second wave is also due and takes the rest of the pool; with
+		// every wave sent the test waits for endsAt like any other.
+		expect((await executors.tickAbTests(false))[0]?.action).toBe(
+			"progress:bandit-wave-2",
+		);
+		expect(lists.get(10)?.members.size).toBe(0);
+		expect(
+			test?.banditWaves?.[1]?.groups?.reduce(
+				(sum, g) => sum + g.expectedCount,
+				0,
+			),
+		).toBe(20);
+		expect((await executors.tickAbTests(false))[0]?.action).toBe(
+			"noop:running",
+		);
+	});
+
+	it("persists a planned wave across a failed send and reuses it", async () => {
+		const { client, campaigns } = createBanditClient();
+		const create = client.campaign.create;
+		let failSend = true;
+		client.campaign.create = (async (...args: Parameters<typeof create>) => {
+			if (failSend) {
+				throw new Error("Listmonk unavailable");
+			}
+			return create(...args);
+		}) as typeof create;
+		const tempDir = await mkdtemp(join(tmpdir(), "abtest-bandit-"));
+		const storePath = join(tempDir, "abtests.json");
+		try {
+			await saveStoredAbTests([makeRunningBanditTest()], storePath);
+			const context = { client, storePath };
+
+			await expect(
+				invokeRunAbTestOperation(context, { test_id: "test-bandit" }),
+			).rejects.toThrow("Listmonk unavailable");
+			const [stored] = await loadStoredAbTests(storePath);
+			const [planned] = stored?.banditWaves ?? [];
+			expect(planned).toMatchObject({ wave: 1, status: "planned" });
+			expect(campaigns.size).toBe(0);
+
+			// Newer observations would re-sample a fresh plan; the retry must
+			// send the persisted allocation instead.
+			client.campaign.getById = mock(
+				async ({ path }: { path: { id: number } }) => ({
+					data: {
+						id: path.id,
+						status: "running",
+						sent: 200,
+						views: 0,
+						clicks: 100,
+					},
+				}),
+			) as unknown as typeof client.campaign.getById;
+			failSend = false;
+			const { test } = await invokeRunAbTestOperation(context, {
+				test_id: "test-bandit",
+			});
+			expect(test.banditWaves).toHaveLength(1);
+			expect(test.banditWaves?.[0]).toMatchObject({
+				wave: 1,
+				status: "sent",
+				plannedAt: planned?.plannedAt,
+				observed: planned?.observed,
+				allocation: planned?.allocation,
+			});
+		} finally {
+			await rm(tempDir, { recursive: true, force: true });
+		}
+	});
+});
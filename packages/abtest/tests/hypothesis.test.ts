@@ -329,6 +329,72 @@ describe("validateHypothesisMetadata", () => {
 	});
 });
 
+describe("analysisPlan validation", () => {
+	it("accepts fixed-horizon and mSPRT sequential plans", () => {
+		for (const analysisPlan of [
+			{ mode: "fixed_horizon" as const },
+			{
+				mode: "sequential" as const,
+				method: "msprt" as const,
+				mixingVariance: 0.0004,
+			},
+		]) {
+			expect(() =>
+				validateHypothesisMetadata(makeHypothesis({ analysisPlan }), true),
+			).not.toThrow();
+		}
+	});
+
+	it("rejects unknown modes, methods, and out-of-range mixing variances", () => {
+		for (const [analysisPlan, message] of [
+			[{ mode: "bayesian" }, "analysisPlan.mode must be"],
+			[
+				{ mode: "sequential", method: "obrien_fleming", mixingVariance: 0.01 },
+				"analysisPlan.method must be",
+			],
+			[
+				{ mode: "sequential", method: "msprt", mixingVariance: 0 },
+				"analysisPlan.mixingVariance must be",
+			],
+			[
+				{ mode: "sequential", method: "msprt", mixingVariance: 2 },
+				"analysisPlan.mixingVariance must be",
+			],
+		] as const) {
+			expect(() =>
+				validateHypothesisMetadata(
+					makeHypothesis({
+						analysisPlan: analysisPlan as unknown as HypothesisMetadata["analysisPlan"],
+					}),
+				),
+			).toThrow(message);
+		}
+	});
+
+	it("rejects sequential analysis of revenue per recipient", () => {
+		expect(() =>
+			validateHypothesisMetadata(
+				makeHypothesis({
+					primaryMetric: {
+						type: "revenue_per_recipient",
+						direction: "maximize",
+					},
+					expectedLift: {
+						kind: "absolute",
+						value: 0.5,
+						unit: "currency_per_recipient",
+					},
+					analysisPlan: {
+						mode: "sequential",
+						method: "msprt",
+						mixingVariance: 0.0004,
+					},
+				}),
+			),
+		).toThrow("Sequential analysis supports click_rate and conversion_rate");
+	});
+});
+
 describe("computeHypothesisChecksum", () => {
 	it("produces a deterministic 64-char hex", () => {
 		const checksum = computeHypothesisChecksum(makeHypothesis());
@@ -389,6 +455,24 @@ describe("computeHypothesisChecksum", () => {
 		expect(base).not.toBe(changed);
 	});
 
+	it("keeps checksums of hypotheses locked without an analysis plan", () => {
+		expect(computeHypothesisChecksum(makeHypothesis())).toBe(
+			"21595396e011613d991135d3328ec321adb787e962207a643a721de7c205171e",
+		);
+	});
+
+	it("binds the sequential analysis plan into the checksum", () => {
+		const plan = (mixingVariance: number) =>
+			makeHypothesis({
+				analysisPlan: { mode: "sequential", method: "msprt", mixingVariance },
+			});
+		const base = computeHypothesisChecksum(makeHypothesis());
+		expect(computeHypothesisChecksum(plan(0.0004))).not.toBe(base);
+		expect(computeHypothesisChecksum(plan(0.0004))).not.toBe(
+			computeHypothesisChecksum(plan(0.0009)),
+		);
+	});
+
 	it("changes when a nested experimentScope field changes", () => {
 		const base = computeHypothesisChecksum(makeHypothesis());
 		const changed = computeHypothesisChecksum(
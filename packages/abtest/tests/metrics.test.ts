@@ -1,5 +1,9 @@
 import { describe, expect, it, mock } from "bun:test";
 import type { ListmonkClient } from "@listmonk-ops/openapi";
+import {
+	InMemoryConversionEventStore,
+	type ConversionEventStore,
+} from "../src/conversion-events";
 import {
 	AbTestMetricsUnavailableError,
 	ListmonkMetricsCollector,
@@ -92,6 +96,61 @@ describe("ListmonkMetricsCollector", () => {
 		}
 	});
 
+	it("reads conversions and revenue from the conversion event store", async () => {
+		const getById = mock(async ({ path }: { path: { id: number } }) => ({
+			data: makeCampaign(path.id, 200, 30, 10),
+		}));
+		const client = { campaign: { getById } } as unknown as ListmonkClient;
+		const store = new InMemoryConversionEventStore();
+		for (const [eventId, subscriberUuid] of [
+			["e1", "u1"],
+			["e2", "u1"],
+			["e3", "u2"],
+		]) {
+			await store.record({
+				eventId,
+				testId: "test-1",
+				variantId: "A",
+				subscriberUuid,
+				event: "purchase",
+				occurredAt: "2026-07-24T12:00:00Z",
+				value: 10,
+				currency: "USD",
+			});
+		}
+		const collector = new ListmonkMetricsCollector(client, store);
+		const results = await collector.collect(makeTest());
+		expect(results[0]).toMatchObject({
+			variantId: "A",
+			conversions: 2,
+			conversionRate: 1,
+			revenue: 30,
+		});
+		expect(results[1]).toMatchObject({
+			variantId: "B",
+			conversions: 0,
+			conversionRate: 0,
+		});
+		expect(results[1]?.revenue).toBeUndefined();
+	});
+
+	it("throws AbTestMetricsUnavailableError when the conversion store fails", async () => {
+		const getById = mock(async ({ path }: { path: { id: number } }) => ({
+			data: makeCampaign(path.id, 100, 30, 10),
+		}));
+		const client = { campaign: { getById } } as unknown as ListmonkClient;
+		const store: ConversionEventStore = {
+			record: async () => "created",
+			aggregate: async () => {
+				throw new Error("store offline");
+			},
+		};
+		const collector = new ListmonkMetricsCollector(client, store);
+		await expect(collector.collect(makeTest())).rejects.toBeInstanceOf(
+			AbTestMetricsUnavailableError,
+		);
+	});
+
 	it("throws AbTestMetricsUnavailableError when a fetch fails", async () => {
 		const getById = mock(async () => {
 			throw new Error("boom");
@@ -20,11 +20,18 @@ import {
 	invokeStopAbTestOperation,
 	invokeTickAbTestsOperation,
 	invokeExportAbTestAssignmentOperation,
+	invokeRecordAbTestConversionsOperation,
 	listAbTestsOperation,
 	reconcileAbTestOperation,
 	runAbTestOperation,
 	tickAbTestsOperation,
 } from "../src/operations";
+import {
+	buildAssignmentManifest,
+	groupIndexForUuids,
+} from "../src/assignment";
+import { buildAudienceSnapshot } from "../src/audience";
+import { InMemoryConversionEventStore } from "../src/conversion-events";
 import { AbTestNotFoundError, saveStoredAbTests } from "../src/persistence";
 import type { AbTest } from "../src/types";
 
@@ -86,7 +93,7 @@ afterEach(async () => {
 
 describe("A/B test operation registry", () => {
 	test("publishes all lifecycle tools with object schemas and safety metadata", () => {
-		expect(abTestOperations).toHaveLength(13);
+		expect(abTestOperations).toHaveLength(14);
 		expect(abTestOperations.map((operation) => operation.mcp.name)).toEqual([
 			"listmonk_abtest_list",
 			"listmonk_abtest_get",
@@ -101,6 +108,7 @@ describe("A/B test operation registry", () => {
 			"listmonk_abtest_tick",
 			"listmonk_abtest_reconcile",
 			"listmonk_abtest_export_assignment",
+			"listmonk_abtest_conversion_record",
 		]);
 		for (const operation of abTestOperations) {
 			expect(operation.inputJsonSchema.type).toBe("object");
@@ -317,6 +325,145 @@ test("preserves typed not-found errors for lifecycle transitions", async () => {
 		});
 	});
 
+test("records conversions per event with duplicate and rejection outcomes", async () => {
+	tempDir = await mkdtemp(join(tmpdir(), "listmonk-ops-abtest-conversion-"));
+	const storePath = join(tempDir, "abtests.json");
+	const running = createFixture("running");
+	running.startedAt = new Date("2026-01-01T00:00:00.000Z");
+	await saveStoredAbTests([running, createFixture("draft")], storePath);
+	const context = {
+		client: {} as ListmonkClient,
+		storePath,
+		conversionEventStore: new InMemoryConversionEventStore(),
+	};
+	const event = {
+		event_id: "evt-1",
+		test_id: "test-running",
+		variant_id: "variant-a",
+		subscriber_uuid: "00000000-0000-4000-8000-000000000001",
+		event: "purchase",
+		occurred_at: "2026-01-02T00:00:00.000Z",
+		value: "19.5",
+		currency: "USD",
+	};
+
+	const result = await invokeRecordAbTestConversionsOperation(context, {
+		events: [
+			event,
+			event,
+			{ ...event, event_id: "evt-2", variant_id: "variant-z" },
+			{ ...event, event_id: "evt-3", test_id: "test-draft" },
+			{ ...event, event_id: "evt-4", test_id: "missing" },
+		],
+	});
+
+	expect(result).toMatchObject({ recorded: 1, duplicates: 1, rejected: 3 });
+	expect(result.results.map(({ status }) => status)).toEqual([
+		"created",
+		"duplicate",
+		"rejected",
+		"rejected",
+		"rejected",
+	]);
+	expect(result.results[3]?.reason).toBe(
+		"Test test-draft has not launched; conversions cannot be attributed yet",
+	);
+	expect(result.results[4]?.reason).toBe("Test with ID missing not found");
+	await expect(
+		invokeRecordAbTestConversionsOperation(context, { events: [] }),
+	).rejects.toThrow("events");
+});
+
+test("rejects conversions whose subscriber ranks into another group", async () => {
+	tempDir = await mkdtemp(join(tmpdir(), "listmonk-ops-abtest-attribution-"));
+	const storePath = join(tempDir, "abtests.json");
+	const members = Array.from({ length: 20 }, (_, index) => ({
+		subscriberId: index + 1,
+		subscriberUuid: `00000000-0000-4000-8000-${String(index + 1).padStart(12, "0")}`,
+	}));
+	const running = createFixture("running");
+	running.startedAt = new Date("2026-01-01T00:00:00.000Z");
+	running.audienceSnapshot = buildAudienceSnapshot([1], members);
+	running.assignmentManifest = buildAssignmentManifest({
+		testId: running.id,
+		seed: "seed-attribution",
+		audience: running.audienceSnapshot,
+		members,
+		variants: running.variants,
+		testGroupPercentage: 50,
+	});
+	await saveStoredAbTests([running], storePath);
+	const subscribers = members.map((member) => ({
+		id: member.subscriberId,
+		uuid: member.subscriberUuid,
+		status: "enabled",
+	}));
+	const context = {
+		client: {
+			subscriber: {
+				list: async () => ({
+					data: { results: subscribers, total: subscribers.length },
+				}),
+			},
+		} as unknown as ListmonkClient,
+		storePath,
+		conversionEventStore: new InMemoryConversionEventStore(),
+	};
+	const groups = groupIndexForUuids(
+		running.assignmentManifest,
+		running.id,
+		members,
+		members.map((member) => member.subscriberUuid),
+	);
+	const uuidInGroup = (kind: string, variantId?: string) => {
+		const index = running.assignmentManifest?.groups.findIndex(
+			(group) =>
+				group.kind === kind &&
+				(variantId === undefined ||
+					(group.kind === "variant" && group.variantId === variantId)),
+		);
+		const entry = [...groups].find(([, group]) => group === index);
+		if (!entry) {
+			throw new Error(`no subscriber assigned to ${variantId ?? kind}`);
+		}
+		return entry[0];
+	};
+	const event = {
+		test_id: "test-running",
+		variant_id: "variant-a",
+		event: "purchase",
+		occurred_at: "2026-01-02T00:00:00.000Z",
+	};
+
+	const result = await invokeRecordAbTestConversionsOperation(context, {
+		events: [
+			{
+				...event,
+				event_id: "evt-a",
+				subscriber_uuid: uuidInGroup("variant", "variant-a"),
+			},
+			{
+				...event,
+				event_id: "evt-b",
+				subscriber_uuid: uuidInGroup("variant", "variant-b"),
+			},
+			{
+				...event,
+				event_id: "evt-holdout",
+				subscriber_uuid: uuidInGroup("holdout"),
+			},
+		],
+	});
+
+	expect(result).toMatchObject({ recorded: 1, rejected: 2 });
+	expect(result.results.map(({ status }) => status)).toEqual([
+		"created",
+		"rejected",
+		"rejected",
+	]);
+	expect(result.results[1]?.reason).toContain("is not assigned to variant");
+});
+
 test("reuses the persisted launch window after an ambiguous partial launch", async () => {
 	tempDir = await mkdtemp(join(tmpdir(), "listmonk-ops-abtest-ambiguous-"));
 	const storePath = join(tempDir, "abtests.json");
@@ -11,6 +11,8 @@ import {
 	saveStoredAbTests,
 	withStoredAbTestExecutors,
 } from "../src/persistence";
+import { DEFAULT_BANDIT_POLICY } from "../src/bandit";
+import { DEFAULT_BAYESIAN_POLICY } from "../src/bayesian";
 import { lockHypothesis } from "../src/hypothesis";
 import type { AbTest } from "../src/types";
 
@@ -422,6 +424,111 @@ describe("A/B test persistence", () => {
 			"test 0 failed schema validation",
 		);
 
+		// A sequential analysis plan must carry a valid mSPRT mixing variance.
+		for (const [analysisPlan, loads] of [
+			[{ mode: "sequential", method: "msprt", mixingVariance: 0.0004 }, true],
+			[{ mode: "sequential", method: "msprt", mixingVariance: 0 }, false],
+			[{ mode: "sequential", mixingVariance: 0.0004 }, false],
+			[{ mode: "bayesian" }, false],
+		] as const) {
+			await writeFile(
+				storePath,
+				`${JSON.stringify({
+					version: 1,
+					tests: [
+						{ ...validTest, hypothesis: { ...validHypothesis, analysisPlan } },
+					],
+				})}\n`,
+				"utf8",
+			);
+			if (loads) {
+				await expect(loadStoredAbTests(storePath)).resolves.toHaveLength(1);
+			} else {
+				await expect(loadStoredAbTests(storePath)).rejects.toThrow(
+					"test 0 failed schema validation",
+				);
+			}
+		}
+
+		// A Bayesian report policy is validated with the create-time bounds.
+		for (const [bayesianPolicy, loads] of [
+			[{ ...DEFAULT_BAYESIAN_POLICY, enabled: true }, true],
+			[{ ...DEFAULT_BAYESIAN_POLICY, credibleLevel: 1.5 }, false],
+			[{ ...DEFAULT_BAYESIAN_POLICY, ratePrior: undefined }, false],
+		] as const) {
+			await writeFile(
+				storePath,
+				`${JSON.stringify({
+					version: 1,
+					tests: [{ ...validTest, bayesianPolicy }],
+				})}\n`,
+				"utf8",
+			);
+			if (loads) {
+				await expect(loadStoredAbTests(storePath)).resolves.toHaveLength(1);
+			} else {
+				await expect(loadStoredAbTests(storePath)).rejects.toThrow(
+					"test 0 failed schema validation",
+				);
+			}
+		}
+
+		// Bandit policy and wave audit trail: only on bandit tests, and a
+		// sent wave must record the lists and campaigns it used.
+		const sentWave = {
+			wave: 1,
+			status: "sent",
+			plannedAt: "2026-07-02T00:00:00.000Z",
+			sentAt: "2026-07-02T00:00:05.000Z",
+			plannedSize: 20,
+			observed: [{ variantId: "v1", sampleSize: 200, successes: 20 }],
+			allocation: [{ variantId: "v1", probabilityToBeBest: 0.2, weight: 0.25 }],
+			groups: [
+				{
+					variantId: "v1",
+					expectedCount: 5,
+					subscriberChecksum: "x",
+					listId: 11,
+					campaignId: 12,
+				},
+			],
+		};
+		for (const [fields, loads] of [
+			[
+				{
+					testingMode: "bandit",
+					banditPolicy: DEFAULT_BANDIT_POLICY,
+					banditWaves: [sentWave],
+				},
+				true,
+			],
+			[{ testingMode: "holdout", banditPolicy: DEFAULT_BANDIT_POLICY }, false],
+			[
+				{
+					testingMode: "bandit",
+					banditPolicy: DEFAULT_BANDIT_POLICY,
+					banditWaves: [{ ...sentWave, groups: undefined }],
+				},
+				false,
+			],
+		] as const) {
+			await writeFile(
+				storePath,
+				`${JSON.stringify({
+					version: 1,
+					tests: [{ ...validTest, ...fields }],
+				})}\n`,
+				"utf8",
+			);
+			if (loads) {
+				await expect(loadStoredAbTests(storePath)).resolves.toHaveLength(1);
+			} else {
+				await expect(loadStoredAbTests(storePath)).rejects.toThrow(
+					"test 0 failed schema validation",
+				);
+			}
+		}
+
 		// A legacy v2 record with an assignment manifest but no hypothesis
 		// (predating pre-registration) must still load — the manifest+lock
 		// invariant applies only when BOTH are present.
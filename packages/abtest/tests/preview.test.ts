@@ -5,6 +5,7 @@ import {
 	createPreviewGate,
 	createSeedSendRun,
 	DEFAULT_SEED_RECIPIENT_POLICY,
+	getSeedRecipientPolicyFromEnvironment,
 	isLaunchAllowed,
 	isSeedRunComplete,
 	PreviewValidationError,
@@ -114,6 +115,19 @@ describe("validateSeedRecipients", () => {
 			validateSeedRecipients(["user@anywhere.net"], openPolicy),
 		).not.toThrow();
 	});
+
+	it("reads the allowed domains from the environment", () => {
+		const policy = getSeedRecipientPolicyFromEnvironment({
+			LISTMONK_OPS_SEED_DOMAINS: " example.com, ,test.org",
+		});
+		expect(policy).toEqual({
+			...DEFAULT_SEED_RECIPIENT_POLICY,
+			allowedDomains: ["example.com", "test.org"],
+		});
+		expect(getSeedRecipientPolicyFromEnvironment({}).allowedDomains).toEqual(
+			[],
+		);
+	});
 });
 
 describe("createPreviewGate", () => {
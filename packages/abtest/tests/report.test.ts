@@ -4,6 +4,7 @@ import {
 	reportToMarkdown,
 	reportToJSON,
 } from "../src/report";
+import { DEFAULT_BAYESIAN_POLICY } from "../src/bayesian";
 import { lockHypothesis } from "../src/hypothesis";
 import type { AbTest, StatisticalAnalysis, TestResults } from "../src/types";
 
@@ -279,6 +280,163 @@ describe("reportToMarkdown", () => {
 	});
 });
 
+describe("sequential reports", () => {
+	it("records the mSPRT boundary and the checksummed analysis plan", () => {
+		const locked = lockHypothesis(
+			{
+				objective: "Stop early",
+				hypothesis: "Variant B lifts clicks",
+				primaryMetric: { type: "click_rate", direction: "maximize" },
+				expectedLift: { kind: "relative", value: 0.2 },
+				owner: { id: "user-1" },
+				experimentScope: {
+					channel: "email",
+					experimentFamilyKey: "test.family",
+					attributionWindowHours: 72,
+					exclusionWindowHours: 168,
+				},
+				analysisPlan: {
+					mode: "sequential",
+					method: "msprt",
+					mixingVariance: 0.0004,
+				},
+				createdAt: "2026-07-01T00:00:00Z",
+			},
+			"2026-07-01T00:00:00Z",
+		);
+		const analysis: StatisticalAnalysis = {
+			...makeAnalysis(),
+			analysisMode: "sequential",
+			sequentialReasonCodes: [],
+			sequentialBoundary: {
+				method: "msprt",
+				alpha: 0.05,
+				mixingVariance: 0.0004,
+				logLikelihoodRatio: 5.2374,
+				logThreshold: Math.log(20),
+				zScore: 3.9,
+				zBoundary: 3.09,
+				alwaysValidPValue: 0.0053,
+				crossed: true,
+			},
+		};
+
+		const report = buildExperimentReport(
+			{ ...makeTest(), hypothesis: locked },
+			analysis,
+			makeResults(),
+		);
+
+		expect(report.analysisMode).toBe("sequential");
+		expect(report.sequentialBoundary?.crossed).toBe(true);
+		expect(report.hypothesis?.analysisPlan).toEqual(locked.analysisPlan);
+		expect(report.hypothesis?.checksum).toBe(locked.checksum);
+		const md = reportToMarkdown(report);
+		expect(md).toContain(
+			"- **Analysis Plan**: sequential (msprt, mixing variance 0.0004)",
+		);
+		expect(md).toContain(`- **Checksum**: ${locked.checksum}`);
+		expect(md).toContain("## Sequential Boundary");
+		expect(md).toContain("- **Always-Valid P-Value**: 0.005300");
+		expect(md).toContain("- **Z-Score / Boundary**: 3.9000 / ±3.0900");
+		expect(md).toContain("- **Boundary Crossed**: Yes");
+	});
+
+	it("defaults legacy analyses to the fixed horizon", () => {
+		const report = buildExperimentReport(
+			makeTest(),
+			makeAnalysis(),
+			makeResults(),
+		);
+		expect(report.analysisMode).toBe("fixed_horizon");
+		expect(reportToMarkdown(report)).not.toContain("## Sequential Boundary");
+	});
+});
+
+describe("bayesian reports", () => {
+	const bayesianTest = (): AbTest => ({
+		...makeTest(),
+		bayesianPolicy: { ...DEFAULT_BAYESIAN_POLICY, enabled: true, draws: 5_000 },
+	});
+
+	it("omits posterior summaries unless the policy is enabled", () => {
+		const report = buildExperimentReport(
+			{
+				...makeTest(),
+				bayesianPolicy: { ...DEFAULT_BAYESIAN_POLICY, draws: 5_000 },
+			},
+			makeAnalysis(),
+			makeResults(),
+		);
+		expect(report.bayesian).toBeUndefined();
+		expect(reportToMarkdown(report)).not.toContain("## Bayesian Analysis");
+	});
+
+	it("adds rate posteriors for an enabled policy in markdown and JSON", () => {
+		const report = buildExperimentReport(
+			bayesianTest(),
+			makeAnalysis(),
+			makeResults(),
+		);
+
+		expect(report.bayesian?.metrics.map((m) => m.metric)).toEqual([
+			"open_rate",
+			"click_rate",
+			"conversion_rate",
+		]);
+		const clicks = report.bayesian?.metrics.find(
+			(m) => m.metric === "click_rate",
+		);
+		expect(clicks?.controlVariantId).toBe("A");
+		expect(clicks?.variants[1]?.probabilityToBeatControl).toBeGreaterThan(0.99);
+
+		const md = reportToMarkdown(report);
+		expect(md).toContain("## Bayesian Analysis");
+		expect(md).toContain("- **Credible Level**: 95%");
+		expect(md).toContain("### Click Rate (Beta-Binomial, maximize)");
+		expect(md).toContain("| Control (control) | ");
+		expect(JSON.parse(reportToJSON(report)).bayesian).toEqual(
+			JSON.parse(JSON.stringify(report.bayesian)),
+		);
+	});
+
+	it("is reproducible for the same test", () => {
+		const first = buildExperimentReport(
+			bayesianTest(),
+			makeAnalysis(),
+			makeResults(),
+		);
+		const second = buildExperimentReport(
+			bayesianTest(),
+			makeAnalysis(),
+			makeResults(),
+		);
+		expect(second.bayesian).toEqual(first.bayesian);
+	});
+
+	it("adds a revenue model once conversions carry value", () => {
+		const results = makeResults().map((r, index) => ({
+			...r,
+			conversions: 20 + index * 10,
+			conversionRate: (20 + index * 10) / 10,
+			revenue: 1_000 + index * 600,
+		}));
+		const report = buildExperimentReport(
+			bayesianTest(),
+			makeAnalysis(),
+			results,
+		);
+
+		const revenue = report.bayesian?.metrics.find(
+			(m) => m.metric === "revenue_per_recipient",
+		);
+		expect(revenue?.model).toBe("beta_gamma_revenue");
+		expect(reportToMarkdown(report)).toContain(
+			"### Revenue per Recipient (Beta-Gamma revenue, maximize)",
+		);
+	});
+});
+
 describe("reportToJSON", () => {
 	it("produces valid JSON", () => {
 		const report = buildExperimentReport(
@@ -1,8 +1,10 @@
 import { describe, expect, it } from "bun:test";
 import {
 	applyHolmCorrection,
+	computeMsprtBoundary,
 	DEFAULT_STATISTICAL_POLICY,
 	fixedHorizonGate,
+	sequentialGate,
 } from "../src/statistics";
 
 describe("applyHolmCorrection", () => {
@@ -142,6 +144,147 @@ describe("fixedHorizonGate", () => {
 	});
 });
 
+describe("sequentialGate", () => {
+	const policy = { ...DEFAULT_STATISTICAL_POLICY, analysisMode: "sequential" as const };
+
+	it("ignores the horizon and minimum duration once samples are met", () => {
+		const result = sequentialGate({
+			startedAt: "2026-07-24T11:00:00Z",
+			policy,
+			sampleSizes: [200, 200],
+		});
+		expect(result).toEqual({ ready: true, reasonCodes: [] });
+	});
+
+	it("requires a launch time, two variants, and the minimum sample", () => {
+		const result = sequentialGate({
+			policy,
+			sampleSizes: [200, 50, 200],
+		});
+		expect(result.ready).toBe(false);
+		expect(result.reasonCodes).toEqual([
+			"no_startedAt",
+			"sequential_requires_two_variants:3",
+			"minimum_sample_not_met:variant_1:50/100",
+		]);
+	});
+});
+
+describe("computeMsprtBoundary", () => {
+	it("crosses when the observed lift clears the always-valid boundary", () => {
+		const boundary = computeMsprtBoundary({
+			control: { rate: 0.1, sampleSize: 2000 },
+			treatment: { rate: 0.14, sampleSize: 2000 },
+			alpha: 0.05,
+			mixingVariance: 0.0004,
+		});
+		expect(boundary.crossed).toBe(true);
+		expect(boundary.logThreshold).toBeCloseTo(Math.log(20), 10);
+		expect(boundary.logLikelihoodRatio).toBeCloseTo(5.237, 2);
+		expect(boundary.zScore).toBeCloseTo(3.9, 1);
+		expect(boundary.zBoundary).toBeCloseTo(3.09, 2);
+		expect(boundary.alwaysValidPValue).toBeLessThan(0.05);
+	});
+
+	it("crosses for a clearly losing treatment as well", () => {
+		const boundary = computeMsprtBoundary({
+			control: { rate: 0.14, sampleSize: 2000 },
+			treatment: { rate: 0.1, sampleSize: 2000 },
+			alpha: 0.05,
+			mixingVariance: 0.0004,
+		});
+		expect(boundary.crossed).toBe(true);
+		expect(boundary.zScore).toBeLessThan(0);
+	});
+
+	it("demands more evidence than the fixed-horizon z-test", () => {
+		// z ≈ 2.2 would pass a fixed-horizon test at alpha 0.05, but a
+		// boundary valid under continuous monitoring is wider.
+		const boundary = computeMsprtBoundary({
+			control: { rate: 0.1, sampleSize: 2000 },
+			treatment: { rate: 0.122, sampleSize: 2000 },
+			alpha: 0.05,
+			mixingVariance: 0.0004,
+		});
+		expect(boundary.zScore).toBeGreaterThan(1.96);
+		expect(boundary.crossed).toBe(false);
+		expect(boundary.alwaysValidPValue).toBeGreaterThan(0.05);
+	});
+
+	it("carries no evidence without variance", () => {
+		const boundary = computeMsprtBoundary({
+			control: { rate: 0, sampleSize: 0 },
+			treatment: { rate: 0, sampleSize: 500 },
+			alpha: 0.05,
+			mixingVariance: 0.0004,
+		});
+		expect(boundary).toMatchObject({
+			logLikelihoodRatio: 0,
+			alwaysValidPValue: 1,
+			crossed: false,
+		});
+		expect(boundary.zBoundary).toBeUndefined();
+	});
+
+	it("keeps the always-valid p-value as a running minimum across looks", () => {
+		// The lift peaks at the second look and then regresses.
+		const looks = [
+			{ control: 0.1, treatment: 0.12, sampleSize: 1000 },
+			{ control: 0.1, treatment: 0.14, sampleSize: 2000 },
+			{ control: 0.1, treatment: 0.11, sampleSize: 3000 },
+			{ control: 0, treatment: 0, sampleSize: 0 },
+		];
+		let previousPValue: number | undefined;
+		const boundaries = looks.map((look) => {
+			const boundary = computeMsprtBoundary({
+				control: { rate: look.control, sampleSize: look.sampleSize },
+				treatment: { rate: look.treatment, sampleSize: look.sampleSize },
+				alpha: 0.05,
+				mixingVariance: 0.0004,
+				previousPValue,
+			});
+			previousPValue = boundary.alwaysValidPValue;
+			return boundary;
+		});
+
+		const pValues = boundaries.map((boundary) => boundary.alwaysValidPValue);
+		expect(pValues[1]).toBeLessThan(0.05);
+		expect(pValues[2]).toBe(pValues[1]!);
+		expect(pValues[3]).toBe(pValues[1]!);
+		for (const [index, pValue] of pValues.entries()) {
+			expect(pValue).toBeLessThanOrEqual(pValues[index - 1] ?? 1);
+		}
+		expect(boundaries.map((boundary) => boundary.crossed)).toEqual([
+			false,
+			true,
+			true,
+			true,
+		]);
+		// Evaluated alone, the regressed look shows no evidence.
+		expect(
+			computeMsprtBoundary({
+				control: { rate: 0.1, sampleSize: 3000 },
+				treatment: { rate: 0.11, sampleSize: 3000 },
+				alpha: 0.05,
+				mixingVariance: 0.0004,
+			}).crossed,
+		).toBe(false);
+	});
+
+	it("rejects invalid alpha and mixing variance", () => {
+		const groups = {
+			control: { rate: 0.1, sampleSize: 100 },
+			treatment: { rate: 0.1, sampleSize: 100 },
+		};
+		expect(() =>
+			computeMsprtBoundary({ ...groups, alpha: 1, mixingVariance: 0.01 }),
+		).toThrow("alpha must be a finite number in (0, 1)");
+		expect(() =>
+			computeMsprtBoundary({ ...groups, alpha: 0.05, mixingVariance: 0 }),
+		).toThrow("mixingVariance must be a finite positive number");
+	});
+});
+
 import { checkSRM } from "../src/statistics";
 
 describe("checkSRM", () => {
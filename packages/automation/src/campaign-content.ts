@@ -0,0 +1,372 @@
+import type { CampaignPreflightCheck } from "./campaign";
+
+export const CAMPAIGN_CONTENT_CHECK_IDS = [
+	"gmail_clipping",
+	"image_alt_text",
+	"image_health",
+	"plain_text_alternative",
+	"image_text_ratio",
+	"spam_phrases",
+	"html_balance",
+	"list_unsubscribe_header",
+] as const;
+
+export type CampaignContentCheckId = (typeof CAMPAIGN_CONTENT_CHECK_IDS)[number];
+
+/** Level reported when a content check finds a problem; `off` skips it. */
+export type CampaignContentCheckLevel = "warn" | "fail" | "off";
+
+export type CampaignContentCheckLevels = Partial<
+	Record<CampaignContentCheckId, CampaignContentCheckLevel>
+>;
+
+/**
+ * Every check is advisory by default. Raise `list_unsubscribe_header` to
+ * `fail` when sending in bulk to Gmail or Yahoo, which require the header.
+ */
+export const DEFAULT_CAMPAIGN_CONTENT_CHECK_LEVELS: Readonly<
+	Record<CampaignContentCheckId, CampaignContentCheckLevel>
+> = {
+	gmail_clipping: "warn",
+	image_alt_text: "warn",
+	image_health: "warn",
+	plain_text_alternative: "warn",
+	image_text_ratio: "warn",
+	spam_phrases: "warn",
+	html_balance: "warn",
+	list_unsubscribe_header: "warn",
+};
+
+/** Gmail clips messages whose HTML exceeds about 102 KB. */
+const GMAIL_CLIPPING_BYTES = 102 * 1024;
+const MIN_TEXT_CHARACTERS_PER_IMAGE = 200;
+const MAX_REPORTED_ITEMS = 10;
+
+const SPAM_TRIGGER_PHRASES = [
+	"100% free",
+	"act now",
+	"apply now",
+	"as seen on",
+	"buy now",
+	"cash bonus",
+	"click below",
+	"click here",
+	"congratulations",
+	"dear friend",
+	"double your",
+	"earn extra cash",
+	"free gift",
+	"free money",
+	"guaranteed",
+	"limited time offer",
+	"million dollars",
+	"no credit check",
+	"no obligation",
+	"once in a lifetime",
+	"order now",
+	"risk-free",
+	"this is not spam",
+	"urgent",
+	"winner",
+	"you have been selected",
+] as const;
+
+const VOID_ELEMENTS = new Set([
+	"area",
+	"base",
+	"br",
+	"col",
+	"embed",
+	"hr",
+	"img",
+	"input",
+	"link",
+	"meta",
+	"param",
+	"source",
+	"track",
+	"wbr",
+]);
+
+/** Listmonk's `{{ TrackView }}` pixel, which is not part of the design. */
+const TRACKING_PIXEL_PATTERN = /\/campaign\/[^/]+\/[^/]+\/px\.png(?:[?#]|$)/;
+
+const TAG_PATTERN =
+	/<(\/?)([a-zA-Z][a-zA-Z0-9:-]*)((?:"[^"]*"|'[^']*'|[^'">])*)>/g;
+
+export interface RenderedCampaignContent {
+	html: string;
+	subject: string;
+	contentType?: string | undefined;
+	altbody?: string | null | undefined;
+	/** The campaign's custom headers as Listmonk stores them. */
+	headers?: unknown;
+	/** Listmonk's `privacy.unsubscribe_header` setting; undefined when unreadable. */
+	unsubscribeHeader?: boolean | undefined;
+}
+
+export interface RenderedCampaignImage {
+	src: string;
+	hasAlt: boolean;
+}
+
+function stripNonRenderedMarkup(html: string): string {
+	return html
+		.replace(/<!--[\s\S]*?-->/g, "")
+		.replace(/<(script|style)\b[^>]*>[\s\S]*?<\/\1\s*>/gi, "<$1></$1>");
+}
+
+function readAttribute(attributes: string, name: string): string | undefined {
+	const match = new RegExp(
+		`(?:^|\\s)${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s"'>]+))`,
+		"i",
+	).exec(attributes);
+	return match ? (match[1] ?? match[2] ?? match[3] ?? "") : undefined;
+}
+
+/** Images in the rendered HTML, without Listmonk's view-tracking pixel. */
+export function collectRenderedImages(html: string): RenderedCampaignImage[] {
+	const images: RenderedCampaignImage[] = [];
+	for (const [, closing, name, attributes = ""] of stripNonRenderedMarkup(
+		html,
+	).matchAll(TAG_PATTERN)) {
+		if (closing || name?.toLowerCase() !== "img") continue;
+		const src = readAttribute(attributes, "src")?.trim() ?? "";
+		if (TRACKING_PIXEL_PATTERN.test(src)) continue;
+		images.push({ src, hasAlt: readAttribute(attributes, "alt") !== undefined });
+	}
+	return images;
+}
+
+function visibleText(html: string): string {
+	return stripNonRenderedMarkup(html)
+		.replace(/<head\b[\s\S]*?<\/head\s*>/gi, " ")
+		.replace(/<(script|style)><\/\1>/gi, " ")
+		.replace(/<[^>]*>/g, " ")
+		.replace(/&nbsp;|&#160;/gi, " ")
+		.replace(/&amp;/gi, "&")
+		.replace(/&lt;/gi, "<")
+		.replace(/&gt;/gi, ">")
+		.replace(/&quot;/gi, '"')
+		.replace(/&#39;|&apos;/gi, "'")
+		.replace(/\s+/g, " ")
+		.trim();
+}
+
+function findUnbalancedTags(html: string) {
+	const stack: string[] = [];
+	const unexpected: string[] = [];
+	const unclosed: string[] = [];
+	for (const [source, closing, rawName] of stripNonRenderedMarkup(
+		html,
+	).matchAll(TAG_PATTERN)) {
+		const name = rawName?.toLowerCase() ?? "";
+		if (VOID_ELEMENTS.has(name)) continue;
+		if (!closing) {
+			if (!source.endsWith("/>")) stack.push(name);
+			continue;
+		}
+		const openIndex = stack.lastIndexOf(name);
+		if (openIndex === -1) {
+			unexpected.push(`</${name}>`);
+			continue;
+		}
+		unclosed.push(...stack.splice(openIndex).slice(1).map((tag) => `<${tag}>`));
+	}
+	unclosed.push(...stack.map((tag) => `<${tag}>`));
+	return { unclosed, unexpected };
+}
+
+function findSpamSignals(subject: string, text: string): string[] {
+	const haystack = `${subject}\n${text}`.toLowerCase();
+	const signals: string[] = SPAM_TRIGGER_PHRASES.filter((phrase) =>
+		new RegExp(
+			`(?<![a-z0-9])${phrase.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}(?![a-z0-9])`,
+		).test(haystack),
+	);
+	if (haystack.includes("!!!")) {
+		signals.push("!!!");
+	}
+	const subjectLetters = subject.replace(/[^\p{L}]/gu, "");
+	if (
+		subjectLetters.length >= 4 &&
+		subjectLetters === subjectLetters.toUpperCase() &&
+		subjectLetters !== subjectLetters.toLowerCase()
+	) {
+		signals.push("all-caps subject");
+	}
+	return signals;
+}
+
+function hasListUnsubscribeHeader(headers: unknown): boolean {
+	return (
+		Array.isArray(headers) &&
+		headers.some(
+			(header) =>
+				typeof header === "object" &&
+				header !== null &&
+				Object.entries(header).some(
+					([name, value]) =>
+						name.toLowerCase() === "list-unsubscribe" &&
+						typeof value === "string" &&
+						value.trim().length > 0,
+				),
+		)
+	);
+}
+
+/** Resolve the level a content check reports on failure, or `off`. */
+export function resolveCampaignContentCheckLevel(
+	id: CampaignContentCheckId,
+	levels: CampaignContentCheckLevels = {},
+): CampaignContentCheckLevel {
+	return levels[id] ?? DEFAULT_CAMPAIGN_CONTENT_CHECK_LEVELS[id];
+}
+
+/**
+ * Lint the rendered campaign: Gmail clipping, image alt text, the
+ * plain-text alternative, image-to-text ratio, spam trigger phrases, HTML
+ * tag balance, and the List-Unsubscribe header. Image URLs need the network
+ * and are checked by the preflight itself.
+ */
+export function checkRenderedCampaignContent(
+	content: RenderedCampaignContent,
+	levels: CampaignContentCheckLevels = {},
+): CampaignPreflightCheck[] {
+	const checks: CampaignPreflightCheck[] = [];
+	const report = (
+		id: CampaignContentCheckId,
+		problem: boolean,
+		message: string,
+		details?: Record<string, unknown>,
+	) => {
+		const level = resolveCampaignContentCheckLevel(id, levels);
+		if (level === "off") return;
+		checks.push({
+			id,
+			level: problem ? level : "pass",
+			message,
+			...(details ? { details } : {}),
+		});
+	};
+	const images = collectRenderedImages(content.html);
+	const text = visibleText(content.html);
+
+	const htmlBytes = new TextEncoder().encode(content.html).length;
+	const htmlKilobytes = (htmlBytes / 1024).toFixed(1);
+	report(
+		"gmail_clipping",
+		htmlBytes > GMAIL_CLIPPING_BYTES,
+		htmlBytes > GMAIL_CLIPPING_BYTES
+			? `Rendered HTML is ${htmlKilobytes} KB; Gmail clips messages over 102 KB`
+			: `Rendered HTML is ${htmlKilobytes} KB, under Gmail's 102 KB clipping threshold`,
+		{ htmlBytes, thresholdBytes: GMAIL_CLIPPING_BYTES },
+	);
+
+	const missingAlt = images.filter((image) => !image.hasAlt);
+	report(
+		"image_alt_text",
+		missingAlt.length > 0,
+		missingAlt.length > 0
+			? `${missingAlt.length} of ${images.length} image(s) have no alt attribute`
+			: "All images have an alt attribute",
+		missingAlt.length > 0
+			? {
+					images: missingAlt
+						.slice(0, MAX_REPORTED_ITEMS)
+						.map((image) => image.src),
+				}
+			: undefined,
+	);
+
+	if (content.contentType === "plain") {
+		report(
+			"plain_text_alternative",
+			false,
+			"Plain-text campaigns need no separate alternative",
+		);
+	} else {
+		const hasAltbody = (content.altbody ?? "").trim().length > 0;
+		report(
+			"plain_text_alternative",
+			!hasAltbody,
+			hasAltbody
+				? "Campaign has a plain-text alternative body"
+				: "Campaign has no plain-text alternative body",
+		);
+	}
+
+	const ratioTooHigh =
+		images.length > 0 &&
+		text.length < images.length * MIN_TEXT_CHARACTERS_PER_IMAGE;
+	report(
+		"image_text_ratio",
+		ratioTooHigh,
+		ratioTooHigh
+			? `${images.length} image(s) with only ${text.length} characters of text`
+			: "Image-to-text ratio is within limits",
+		{
+			images: images.length,
+			textCharacters: text.length,
+			minTextCharactersPerImage: MIN_TEXT_CHARACTERS_PER_IMAGE,
+		},
+	);
+
+	const spamSignals = findSpamSignals(content.subject, text);
+	report(
+		"spam_phrases",
+		spamSignals.length > 0,
+		spamSignals.length > 0
+			? `Found ${spamSignals.length} spam trigger signal(s)`
+			: "No spam trigger phrases found",
+		spamSignals.length > 0 ? { signals: spamSignals } : undefined,
+	);
+
+	const { unclosed, unexpected } = findUnbalancedTags(content.html);
+	const unbalanced = unclosed.length + unexpected.length;
+	report(
+		"html_balance",
+		unbalanced > 0,
+		unbalanced > 0
+			? `Rendered HTML has ${unbalanced} unbalanced tag(s)`
+			: "Rendered HTML tags are balanced",
+		unbalanced > 0
+			? {
+					unclosed: unclosed.slice(0, MAX_REPORTED_ITEMS),
+					unexpected: unexpected.slice(0, MAX_REPORTED_ITEMS),
+				}
+			: undefined,
+	);
+
+	if (hasListUnsubscribeHeader(content.headers)) {
+		report(
+			"list_unsubscribe_header",
+			false,
+			"Campaign sets a List-Unsubscribe header",
+		);
+	} else if (content.unsubscribeHeader === true) {
+		report(
+			"list_unsubscribe_header",
+			false,
+			"Listmonk adds the List-Unsubscribe header",
+		);
+	} else if (content.unsubscribeHeader === false) {
+		report(
+			"list_unsubscribe_header",
+			true,
+			"List-Unsubscribe header is disabled in Listmonk privacy settings",
+		);
+	} else if (
+		resolveCampaignContentCheckLevel("list_unsubscribe_header", levels) !==
+		"off"
+	) {
+		// Unreadable settings are not evidence of a missing header.
+		checks.push({
+			id: "list_unsubscribe_header",
+			level: "warn",
+			message: "Could not confirm that Listmonk adds a List-Unsubscribe header",
+		});
+	}
+
+	return checks;
+}
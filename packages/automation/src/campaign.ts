@@ -1,6 +1,16 @@
 import type { ListmonkClient } from "@listmonk-ops/openapi";
+import {
+	invokePreviewCampaignOperation,
+	readListmonkBooleanSetting,
+} from "@listmonk-ops/operations";
 import { lookup as dnsLookup } from "node:dns/promises";
 
+import {
+	type CampaignContentCheckLevels,
+	checkRenderedCampaignContent,
+	collectRenderedImages,
+	resolveCampaignContentCheckLevel,
+} from "./campaign-content";
 import {
 	getCampaign,
 	getCampaignListIds,
@@ -38,6 +48,12 @@ export interface CampaignPreflightOptions {
 	maxAudience?: number;
 	checkLinks?: boolean;
 	linkCheckTimeoutMs?: number;
+	checkRender?: boolean;
+	/**
+	 * Levels for the rendered-content checks that run with `checkRender`;
+	 * unset checks use `DEFAULT_CAMPAIGN_CONTENT_CHECK_LEVELS`.
+	 */
+	contentCheckLevels?: CampaignContentCheckLevels;
 }
 
 function summarizeChecks(checks: CampaignPreflightCheck[]) {
@@ -458,6 +474,129 @@ async function followRedirects(
 	return { response, currentUrl, redirectCount };
 }
 
+/**
+ * Render the campaign through Listmonk's preview and report render
+ * failures, empty output, and template tokens left in the rendered HTML.
+ */
+async function checkCampaignRender(
+	client: ListmonkClient,
+	campaignId: number,
+): Promise<{ check: CampaignPreflightCheck; html?: string }> {
+	let preview: Awaited<ReturnType<typeof invokePreviewCampaignOperation>>;
+	try {
+		preview = await invokePreviewCampaignOperation(
+			{ client },
+			{ id: campaignId },
+		);
+	} catch (error) {
+		return {
+			check: {
+				id: "render",
+				level: "fail",
+				message: "Campaign preview failed to render",
+				details: {
+					error: error instanceof Error ? error.message : String(error),
+				},
+			},
+		};
+	}
+	if (preview.html.trim().length === 0) {
+		return {
+			check: {
+				id: "render",
+				level: "fail",
+				message: "Rendered HTML is empty",
+			},
+		};
+	}
+	const { html } = preview;
+	const leftoverTokens = [...new Set(html.match(/{{[^}]*}}/g))];
+	if (leftoverTokens.length > 0) {
+		return {
+			check: {
+				id: "render",
+				level: "warn",
+				message: `Rendered HTML still contains ${leftoverTokens.length} template token(s)`,
+				details: { tokens: leftoverTokens.slice(0, 10) },
+			},
+			html,
+		};
+	}
+	const details = {
+		htmlBytes: new TextEncoder().encode(html).length,
+		textBytes: new TextEncoder().encode(preview.text).length,
+	};
+	if (preview.text.trim().length === 0) {
+		return {
+			check: {
+				id: "render",
+				level: "warn",
+				message: "Rendered plain text is empty",
+				details,
+			},
+			html,
+		};
+	}
+	return {
+		check: {
+			id: "render",
+			level: "pass",
+			message: "Campaign renders to HTML and plain text",
+			details,
+		},
+		html,
+	};
+}
+
+/**
+ * Image sources must be http(s), `cid:`, or inline `data:image/` URLs; with
+ * link checks on, the http(s) ones are fetched like body links.
+ */
+async function checkRenderedImages(
+	html: string,
+	level: "warn" | "fail",
+	checkLinks: boolean,
+	linkCheckTimeoutMs: number,
+): Promise<CampaignPreflightCheck> {
+	const sources = [...new Set(collectRenderedImages(html).map(({ src }) => src))];
+	if (sources.length === 0) {
+		return {
+			id: "image_health",
+			level: "pass",
+			message: "Rendered HTML has no images",
+		};
+	}
+	const invalid = sources.filter(
+		(src) => !/^(?:https?:\/\/|cid:|data:image\/)/i.test(src),
+	);
+	const remote = sources.filter((src) => /^https?:\/\//i.test(src));
+	const broken = checkLinks
+		? (
+				await checkLinksWithBoundedConcurrency(
+					remote.slice(0, 20),
+					linkCheckTimeoutMs,
+				)
+			).filter((entry) => !entry.ok)
+		: [];
+	const problems = invalid.length + broken.length;
+	return {
+		id: "image_health",
+		level: problems > 0 ? level : "pass",
+		message:
+			problems > 0
+				? `${problems} image source(s) are invalid or unreachable`
+				: checkLinks
+					? `${sources.length} image source(s) passed health check`
+					: `${sources.length} image source(s) are well-formed`,
+		details: {
+			images: sources.length,
+			fetched: checkLinks,
+			invalid: invalid.slice(0, 10),
+			broken,
+		},
+	};
+}
+
 export async function runCampaignPreflight(
 	client: ListmonkClient,
 	campaignId: number,
@@ -616,6 +755,44 @@ export async function runCampaignPreflight(
 		});
 	}
 
+	if (options.checkRender) {
+		const render = await checkCampaignRender(client, campaignId);
+		checks.push(render.check);
+		if (render.html !== undefined) {
+			const levels = options.contentCheckLevels;
+			checks.push(
+				...checkRenderedCampaignContent(
+					{
+						html: render.html,
+						subject,
+						contentType: campaign.content_type,
+						altbody: campaign.altbody,
+						headers: campaign.headers,
+						unsubscribeHeader: await readListmonkBooleanSetting(
+							client,
+							"privacy.unsubscribe_header",
+						),
+					},
+					levels,
+				),
+			);
+			const imageLevel = resolveCampaignContentCheckLevel(
+				"image_health",
+				levels,
+			);
+			if (imageLevel !== "off") {
+				checks.push(
+					await checkRenderedImages(
+						render.html,
+						imageLevel,
+						checkLinks,
+						linkCheckTimeoutMs,
+					),
+				);
+			}
+		}
+	}
+
 	if (checkLinks) {
 		const links = collectBodyLinks(body).slice(0, 20);
 		if (links.length === 0) {
@@ -32,7 +32,8 @@ export interface IngestInboundDeliveryEventInput {
 	metadata?: Readonly<Record<string, unknown>>;
 }
 
-function deterministicUuid(value: string): string {
+/** Derive a stable version-5-shaped UUID from an idempotency key. */
+export function deterministicUuid(value: string): string {
 	const bytes = createHash("sha256").update(value, "utf8").digest().subarray(
 		0,
 		16,
@@ -0,0 +1,893 @@
+import {
+	createHash,
+	createHmac,
+	createPublicKey,
+	createVerify,
+	timingSafeEqual,
+	verify,
+	X509Certificate,
+} from "node:crypto";
+import { z } from "zod";
+import {
+	ingestInboundDeliveryEvent,
+	type InboundDeliveryEventKind,
+	type IngestInboundDeliveryEventInput,
+} from "./inbound-delivery-events";
+import type { OutboundWebhookStoreOptions } from "./outbound-webhooks";
+import type {
+	InboundProviderAdapter,
+	ProviderInboundConfig,
+	ProviderProfile,
+} from "./provider-profiles";
+
+export const MAX_INBOUND_PROVIDER_PAYLOAD_BYTES = 1_048_576;
+const SIGNATURE_TOLERANCE_MS = 300_000;
+const SNS_CERTIFICATE_TIMEOUT_MS = 10_000;
+const MAX_SNS_CERTIFICATE_CACHE_ENTRIES = 20;
+const MAX_PROVIDER_EVENT_ID_LENGTH = 200;
+const MAX_MESSAGE_ID_LENGTH = 300;
+const MAX_REASON_LENGTH = 1_000;
+const SNS_HOSTNAME_PATTERN = /^sns\.[a-z0-9-]+\.amazonaws\.com(?:\.cn)?$/;
+const LISTMONK_SUBSCRIBER_HEADER = "x-listmonk-subscriber";
+
+/** The request signature or credentials did not verify. */
+export class InboundProviderAuthenticationError extends Error {
+	override readonly name = "InboundProviderAuthenticationError";
+}
+
+/** The request verified but its payload is not a recognizable provider event. */
+export class InboundProviderPayloadError extends Error {
+	override readonly name = "InboundProviderPayloadError";
+}
+
+export interface InboundProviderRequest {
+	headers: Headers;
+	/** Raw request body; signatures are computed over the exact bytes sent. */
+	body: string;
+}
+
+export interface InboundProviderAdapterOptions {
+	/** Source of the credentials named by the profile's `*_env` fields. */
+	env?: Readonly<Record<string, string | undefined>> | undefined;
+	now?: (() => Date) | undefined;
+	/** Used to fetch SNS signing certificates and confirm subscriptions. */
+	fetch?: typeof fetch | undefined;
+}
+
+export type InboundProviderParseResult =
+	| {
+			kind: "events";
+			events: IngestInboundDeliveryEventInput[];
+			skipped: number;
+	  }
+	| {
+			kind: "subscription_confirmation";
+			topicArn: string;
+			subscribeUrl: string;
+	  };
+
+export interface InboundProviderIngestResult {
+	provider_id: string;
+	adapter: InboundProviderAdapter;
+	subscription_confirmed: boolean;
+	received: number;
+	skipped: number;
+	queued_deliveries: number;
+	duplicate_deliveries: number;
+}
+
+interface MappedEvent {
+	providerEventId: string;
+	kind: InboundDeliveryEventKind;
+	occurredAt?: unknown;
+	messageId?: unknown;
+	subscriberUuid?: unknown;
+	recipient?: unknown;
+	bounceType?: "hard" | "soft";
+	reason?: unknown;
+	eventType: string;
+}
+
+type MappedEventResult = MappedEvent | undefined;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function stringValue(value: unknown): string | undefined {
+	if (typeof value === "number" && Number.isFinite(value)) return String(value);
+	if (typeof value !== "string") return undefined;
+	const trimmed = value.trim();
+	return trimmed === "" ? undefined : trimmed;
+}
+
+function parseJsonPayload(body: string): unknown {
+	try {
+		return JSON.parse(body);
+	} catch {
+		throw new InboundProviderPayloadError("Invalid JSON body");
+	}
+}
+
+function requireCredential(
+	env: InboundProviderAdapterOptions["env"],
+	name: string,
+): string {
+	const value = (env ?? process.env)[name];
+	if (!value) {
+		// A missing credential is a deployment fault, not a bad request, so it
+		// surfaces as a retryable error rather than an authentication failure.
+		throw new Error(`Inbound provider credential ${name} is not set`);
+	}
+	return value;
+}
+
+function digestEquals(actual: string, expected: string): boolean {
+	const actualDigest = createHash("sha256").update(actual, "utf8").digest();
+	const expectedDigest = createHash("sha256").update(expected, "utf8").digest();
+	return timingSafeEqual(actualDigest, expectedDigest);
+}
+
+function toIsoTimestamp(value: unknown): string | undefined {
+	let milliseconds: number;
+	if (typeof value === "number") {
+		// Mailgun and SendGrid send Unix seconds.
+		milliseconds = value * 1_000;
+	} else if (typeof value === "string") {
+		milliseconds = Date.parse(value);
+	} else {
+		return undefined;
+	}
+	return Number.isFinite(milliseconds)
+		? new Date(milliseconds).toISOString()
+		: undefined;
+}
+
+function subscriberUuid(value: unknown): string | undefined {
+	const candidate = stringValue(value);
+	return candidate !== undefined && z.uuid().safeParse(candidate).success
+		? candidate
+		: undefined;
+}
+
+function truncate(value: unknown, length: number): string | undefined {
+	const text = stringValue(value);
+	return text === undefined ? undefined : text.slice(0, length);
+}
+
+function toIngestInput(
+	adapter: InboundProviderAdapter,
+	profile: ProviderProfile,
+	event: MappedEvent,
+): IngestInboundDeliveryEventInput | undefined {
+	const uuid = subscriberUuid(event.subscriberUuid);
+	if (
+		event.providerEventId.length > MAX_PROVIDER_EVENT_ID_LENGTH ||
+		(event.kind === "unsubscribed" && uuid === undefined)
+	) {
+		return undefined;
+	}
+	const messageId = stringValue(event.messageId);
+	const recipient = stringValue(event.recipient);
+	const reason = truncate(event.reason, MAX_REASON_LENGTH);
+	const occurredAt = toIsoTimestamp(event.occurredAt);
+	return {
+		provider: adapter,
+		providerEventId: event.providerEventId,
+		kind: event.kind,
+		...(occurredAt === undefined ? {} : { occurredAt }),
+		...(messageId === undefined || messageId.length > MAX_MESSAGE_ID_LENGTH
+			? {}
+			: { messageId }),
+		...(uuid === undefined ? {} : { subscriberUuid: uuid }),
+		metadata: {
+			provider_profile: profile.id,
+			provider_event_type: event.eventType,
+			...(recipient === undefined ? {} : { recipient }),
+			...(event.bounceType === undefined
+				? {}
+				: { bounce_type: event.bounceType }),
+			...(reason === undefined ? {} : { reason }),
+		},
+	};
+}
+
+function collectEvents(
+	adapter: InboundProviderAdapter,
+	profile: ProviderProfile,
+	mapped: readonly MappedEventResult[],
+): Extract<InboundProviderParseResult, { kind: "events" }> {
+	const events: IngestInboundDeliveryEventInput[] = [];
+	let skipped = 0;
+	for (const event of mapped) {
+		const input =
+			event === undefined ? undefined : toIngestInput(adapter, profile, event);
+		if (input === undefined) {
+			skipped += 1;
+		} else {
+			events.push(input);
+		}
+	}
+	return { kind: "events", events, skipped };
+}
+
+const snsCertificateCache = new Map<string, X509Certificate>();
+
+function parseSnsUrl(value: unknown, field: string): URL {
+	const text = stringValue(value);
+	let url: URL | undefined;
+	try {
+		url = text === undefined ? undefined : new URL(text);
+	} catch {
+		url = undefined;
+	}
+	if (
+		url === undefined ||
+		url.protocol !== "https:" ||
+		url.username !== "" ||
+		url.password !== "" ||
+		url.port !== "" ||
+		!SNS_HOSTNAME_PATTERN.test(url.hostname)
+	) {
+		throw new InboundProviderAuthenticationError(
+			`SNS ${field} must be an https URL on an sns.<region>.amazonaws.com host`,
+		);
+	}
+	return url;
+}
+
+async function fetchSnsCertificate(
+	url: URL,
+	fetchImpl: typeof fetch,
+): Promise<X509Certificate> {
+	const cached = snsCertificateCache.get(url.href);
+	if (cached !== undefined) return cached;
+	const response = await fetchImpl(url, {
+		redirect: "error",
+		signal: AbortSignal.timeout(SNS_CERTIFICATE_TIMEOUT_MS),
+	});
+	if (!response.ok) {
+		throw new Error(
+			`Failed to fetch the SNS signing certificate (HTTP ${response.status})`,
+		);
+	}
+	const certificate = new X509Certificate(await response.text());
+	if (snsCertificateCache.size >= MAX_SNS_CERTIFICATE_CACHE_ENTRIES) {
+		const oldest = snsCertificateCache.keys().next().value;
+		if (oldest !== undefined) snsCertificateCache.delete(oldest);
+	}
+	snsCertificateCache.set(url.href, certificate);
+	return certificate;
+}
+
+function snsStringToSign(message: Record<string, unknown>): string {
+	const fields =
+		message.Type === "Notification"
+			? ["Message", "MessageId", "Subject", "Timestamp", "TopicArn", "Type"]
+			: [
+					"Message",
+					"MessageId",
+					"SubscribeURL",
+					"Timestamp",
+					"Token",
+					"TopicArn",
+					"Type",
+				];
+	return fields
+		.filter((field) => typeof message[field] === "string")
+		.map((field) => `${field}\n${message[field]}\n`)
+		.join("");
+}
+
+async function verifySnsMessage(
+	message: Record<string, unknown>,
+	options: InboundProviderAdapterOptions,
+): Promise<void> {
+	const algorithm =
+		message.SignatureVersion === "1"
+			? "RSA-SHA1"
+			: message.SignatureVersion === "2"
+				? "RSA-SHA256"
+				: undefined;
+	const signature = stringValue(message.Signature);
+	if (algorithm === undefined || signature === undefined) {
+		throw new InboundProviderAuthenticationError(
+			"SNS message has no supported signature",
+		);
+	}
+	const certificateUrl = parseSnsUrl(message.SigningCertURL, "SigningCertURL");
+	if (!certificateUrl.pathname.endsWith(".pem")) {
+		throw new InboundProviderAuthenticationError(
+			"SNS SigningCertURL must reference a .pem certificate",
+		);
+	}
+	const certificate = await fetchSnsCertificate(
+		certificateUrl,
+		options.fetch ?? fetch,
+	);
+	const now = options.now?.() ?? new Date();
+	if (
+		now.getTime() < Date.parse(certificate.validFrom) ||
+		now.getTime() > Date.parse(certificate.validTo)
+	) {
+		throw new InboundProviderAuthenticationError(
+			"SNS signing certificate is not currently valid",
+		);
+	}
+	const verifier = createVerify(algorithm);
+	verifier.update(snsStringToSign(message), "utf8");
+	if (!verifier.verify(certificate.publicKey, signature, "base64")) {
+		throw new InboundProviderAuthenticationError("Invalid SNS signature");
+	}
+	// The signature covers Timestamp, so an old capture cannot be replayed
+	// with a fresh one.
+	const timestamp = Date.parse(stringValue(message.Timestamp) ?? "");
+	if (
+		Number.isNaN(timestamp) ||
+		Math.abs(now.getTime() - timestamp) > SIGNATURE_TOLERANCE_MS
+	) {
+		throw new InboundProviderAuthenticationError(
+			"SNS message timestamp is missing or expired",
+		);
+	}
+}
+
+function sesBounceType(bounce: Record<string, unknown>): "hard" | "soft" {
+	return bounce.bounceType === "Permanent" ? "hard" : "soft";
+}
+
+function sesRecipients(value: unknown): Record<string, unknown>[] {
+	return Array.isArray(value) ? value.filter(isRecord) : [];
+}
+
+function headerValue(headers: unknown, name: string): string | undefined {
+	if (!Array.isArray(headers)) return undefined;
+	const header = headers.find(
+		(candidate) =>
+			isRecord(candidate) &&
+			typeof candidate.name === "string" &&
+			candidate.name.toLowerCase() === name,
+	) as Record<string, unknown> | undefined;
+	return stringValue(header?.value);
+}
+
+function mapSesNotification(
+	snsMessageId: string,
+	notification: Record<string, unknown>,
+): MappedEventResult[] {
+	const eventType = stringValue(
+		notification.eventType ?? notification.notificationType,
+	);
+	const mail = isRecord(notification.mail) ? notification.mail : {};
+	const base = {
+		messageId: mail.messageId,
+		subscriberUuid: headerValue(mail.headers, LISTMONK_SUBSCRIBER_HEADER),
+		eventType: eventType ?? "unknown",
+	};
+	const perRecipient = (
+		recipients: readonly unknown[],
+		event: Omit<MappedEvent, "providerEventId" | "recipient" | "eventType">,
+	): MappedEventResult[] =>
+		recipients.map((recipient, index) => ({
+			...base,
+			...event,
+			providerEventId: `${snsMessageId}:${index}`,
+			recipient: isRecord(recipient) ? recipient.emailAddress : recipient,
+		}));
+
+	switch (eventType) {
+		case "Bounce": {
+			const bounce = isRecord(notification.bounce) ? notification.bounce : {};
+			return sesRecipients(bounce.bouncedRecipients).map(
+				(recipient, index): MappedEvent => ({
+				...base,
+				providerEventId: `${snsMessageId}:${index}`,
+				kind: "bounced",
+				occurredAt: bounce.timestamp,
+				recipient: recipient.emailAddress,
+				bounceType: sesBounceType(bounce),
+				reason: recipient.diagnosticCode ?? bounce.bounceSubType,
+			}));
+		}
+		case "Complaint": {
+			const complaint = isRecord(notification.complaint)
+				? notification.complaint
+				: {};
+			return perRecipient(sesRecipients(complaint.complainedRecipients), {
+				kind: "complained",
+				occurredAt: complaint.timestamp,
+				reason: complaint.complaintFeedbackType,
+			});
+		}
+		case "Delivery": {
+			const delivery = isRecord(notification.delivery)
+				? notification.delivery
+				: {};
+			return perRecipient(
+				Array.isArray(delivery.recipients) ? delivery.recipients : [],
+				{ kind: "delivered", occurredAt: delivery.timestamp },
+			);
+		}
+		case "DeliveryDelay": {
+			const delay = isRecord(notification.deliveryDelay)
+				? notification.deliveryDelay
+				: {};
+			return perRecipient(sesRecipients(delay.delayedRecipients), {
+				kind: "delayed",
+				occurredAt: delay.timestamp,
+				reason: delay.delayType,
+			});
+		}
+		case "Reject": {
+			const reject = isRecord(notification.reject) ? notification.reject : {};
+			return perRecipient(
+				Array.isArray(mail.destination) ? mail.destination : [],
+				{ kind: "rejected", occurredAt: mail.timestamp, reason: reject.reason },
+			);
+		}
+		default:
+			// Sends, opens, clicks, and rendering failures are not delivery events.
+			return [undefined];
+	}
+}
+
+async function parseSesRequest(
+	inbound: Extract<ProviderInboundConfig, { adapter: "ses" }>,
+	profile: ProviderProfile,
+	request: InboundProviderRequest,
+	options: InboundProviderAdapterOptions,
+): Promise<InboundProviderParseResult> {
+	const message = parseJsonPayload(request.body);
+	if (!isRecord(message)) {
+		throw new InboundProviderPayloadError("SNS message must be a JSON object");
+	}
+	await verifySnsMessage(message, options);
+	const topicArn = stringValue(message.TopicArn);
+	if (topicArn === undefined || !inbound.topic_arns.includes(topicArn)) {
+		throw new InboundProviderAuthenticationError(
+			"SNS topic is not configured for this provider profile",
+		);
+	}
+	if (message.Type === "SubscriptionConfirmation") {
+		return {
+			kind: "subscription_confirmation",
+			topicArn,
+			subscribeUrl: parseSnsUrl(message.SubscribeURL, "SubscribeURL").href,
+		};
+	}
+	if (message.Type !== "Notification") {
+		return { kind: "events", events: [], skipped: 1 };
+	}
+	const snsMessageId = stringValue(message.MessageId);
+	if (snsMessageId === undefined || typeof message.Message !== "string") {
+		throw new InboundProviderPayloadError(
+			"SNS notification requires MessageId and Message",
+		);
+	}
+	const notification = parseJsonPayload(message.Message);
+	if (!isRecord(notification)) {
+		throw new InboundProviderPayloadError(
+			"SES notification must be a JSON object",
+		);
+	}
+	return collectEvents(
+		"ses",
+		profile,
+		mapSesNotification(snsMessageId, notification),
+	);
+}
+
+function verifyPostmarkBasicAuth(
+	inbound: Extract<ProviderInboundConfig, { adapter: "postmark" }>,
+	request: InboundProviderRequest,
+	options: InboundProviderAdapterOptions,
+): void {
+	const username = requireCredential(options.env, inbound.username_env);
+	const password = requireCredential(options.env, inbound.password_env);
+	const match = /^Basic\s+(.+)$/i.exec(
+		request.headers.get("Authorization")?.trim() ?? "",
+	);
+	const actual = match?.[1]
+		? Buffer.from(match[1], "base64").toString("utf8")
+		: "";
+	if (!digestEquals(actual, `${username}:${password}`)) {
+		throw new InboundProviderAuthenticationError(
+			"Invalid Postmark basic authentication",
+		);
+	}
+}
+
+const POSTMARK_BOUNCE_KINDS: Readonly<
+	Record<string, Pick<MappedEvent, "kind" | "bounceType">>
+> = {
+	HardBounce: { kind: "bounced", bounceType: "hard" },
+	BadEmailAddress: { kind: "bounced", bounceType: "hard" },
+	ManuallyDeactivated: { kind: "bounced", bounceType: "hard" },
+	SoftBounce: { kind: "bounced", bounceType: "soft" },
+	DnsError: { kind: "bounced", bounceType: "soft" },
+	Transient: { kind: "delayed" },
+	Blocked: { kind: "rejected" },
+	SpamComplaint: { kind: "complained" },
+};
+
+function mapPostmarkEvent(payload: Record<string, unknown>): MappedEventResult {
+	const recordType = stringValue(payload.RecordType) ?? "unknown";
+	const metadata = isRecord(payload.Metadata) ? payload.Metadata : {};
+	const base = {
+		messageId: payload.MessageID,
+		subscriberUuid: metadata.subscriber_uuid,
+		eventType: recordType,
+	};
+	const id = stringValue(payload.ID);
+	const messageId = stringValue(payload.MessageID);
+	switch (recordType) {
+		case "Bounce": {
+			const type = stringValue(payload.Type) ?? "";
+			const mapping = POSTMARK_BOUNCE_KINDS[type] ?? {
+				kind: "bounced" as const,
+				bounceType: "soft" as const,
+			};
+			return id === undefined
+				? undefined
+				: {
+						...base,
+						...mapping,
+						providerEventId: `bounce:${id}`,
+						occurredAt: payload.BouncedAt,
+						recipient: payload.Email,
+						reason: payload.Description ?? type,
+					};
+		}
+		case "SpamComplaint":
+			return id === undefined
+				? undefined
+				: {
+						...base,
+						kind: "complained",
+						providerEventId: `complaint:${id}`,
+						occurredAt: payload.BouncedAt,
+						recipient: payload.Email,
+					};
+		case "Delivery":
+			return messageId === undefined
+				? undefined
+				: {
+						...base,
+						kind: "delivered",
+						providerEventId: `delivery:${messageId}`,
+						occurredAt: payload.DeliveredAt,
+						recipient: payload.Recipient,
+					};
+		case "SubscriptionChange": {
+			const changedAt = stringValue(payload.ChangedAt);
+			return messageId === undefined ||
+				changedAt === undefined ||
+				payload.SuppressSending !== true
+				? undefined
+				: {
+						...base,
+						kind: "unsubscribed",
+						providerEventId: `subscription:${messageId}:${changedAt}`,
+						occurredAt: changedAt,
+						recipient: payload.Recipient,
+						reason: payload.SuppressionReason,
+					};
+		}
+		default:
+			return undefined;
+	}
+}
+
+function parsePostmarkRequest(
+	inbound: Extract<ProviderInboundConfig, { adapter: "postmark" }>,
+	profile: ProviderProfile,
+	request: InboundProviderRequest,
+	options: InboundProviderAdapterOptions,
+): InboundProviderParseResult {
+	verifyPostmarkBasicAuth(inbound, request, options);
+	const payload = parseJsonPayload(request.body);
+	if (!isRecord(payload)) {
+		throw new InboundProviderPayloadError(
+			"Postmark webhook body must be a JSON object",
+		);
+	}
+	return collectEvents("postmark", profile, [mapPostmarkEvent(payload)]);
+}
+
+function verifyMailgunSignature(
+	inbound: Extract<ProviderInboundConfig, { adapter: "mailgun" }>,
+	signature: unknown,
+	options: InboundProviderAdapterOptions,
+): void {
+	const signingKey = requireCredential(options.env, inbound.signing_key_env);
+	const fields = isRecord(signature) ? signature : {};
+	const timestamp = stringValue(fields.timestamp);
+	const token = stringValue(fields.token);
+	const actual = stringValue(fields.signature);
+	const now = options.now?.() ?? new Date();
+	if (
+		timestamp === undefined ||
+		token === undefined ||
+		actual === undefined ||
+		!/^\d+$/.test(timestamp) ||
+		Math.abs(now.getTime() - Number(timestamp) * 1_000) >
+			SIGNATURE_TOLERANCE_MS
+	) {
+		throw new InboundProviderAuthenticationError(
+			"Mailgun signature is missing or expired",
+		);
+	}
+	const expected = createHmac("sha256", signingKey)
+		.update(`${timestamp}${token}`, "utf8")
+		.digest("hex");
+	if (!digestEquals(actual.toLowerCase(), expected)) {
+		throw new InboundProviderAuthenticationError("Invalid Mailgun signature");
+	}
+}
+
+function mapMailgunEvent(data: Record<string, unknown>): MappedEventResult {
+	const id = stringValue(data.id);
+	const eventType = stringValue(data.event) ?? "unknown";
+	if (id === undefined) return undefined;
+	const message = isRecord(data.message) ? data.message : {};
+	const headers = isRecord(message.headers) ? message.headers : {};
+	const variables = isRecord(data["user-variables"])
+		? data["user-variables"]
+		: {};
+	const deliveryStatus = isRecord(data["delivery-status"])
+		? data["delivery-status"]
+		: {};
+	const base = {
+		providerEventId: id,
+		occurredAt: data.timestamp,
+		messageId: headers["message-id"],
+		subscriberUuid: variables.subscriber_uuid,
+		recipient: data.recipient,
+		eventType,
+	};
+	switch (eventType) {
+		case "delivered":
+			return { ...base, kind: "delivered" };
+		case "failed":
+			return data.severity === "temporary"
+				? {
+						...base,
+						kind: "delayed",
+						reason: deliveryStatus.message ?? data.reason,
+					}
+				: {
+						...base,
+						kind: "bounced",
+						bounceType: "hard",
+						reason: deliveryStatus.message ?? data.reason,
+					};
+		case "rejected":
+			return { ...base, kind: "rejected", reason: data.reason };
+		case "complained":
+			return { ...base, kind: "complained" };
+		case "unsubscribed":
+			return { ...base, kind: "unsubscribed" };
+		default:
+			return undefined;
+	}
+}
+
+function parseMailgunRequest(
+	inbound: Extract<ProviderInboundConfig, { adapter: "mailgun" }>,
+	profile: ProviderProfile,
+	request: InboundProviderRequest,
+	options: InboundProviderAdapterOptions,
+): InboundProviderParseResult {
+	const payload = parseJsonPayload(request.body);
+	if (!isRecord(payload)) {
+		throw new InboundProviderPayloadError(
+			"Mailgun webhook body must be a JSON object",
+		);
+	}
+	verifyMailgunSignature(inbound, payload.signature, options);
+	if (!isRecord(payload["event-data"])) {
+		throw new InboundProviderPayloadError(
+			"Mailgun webhook body requires event-data",
+		);
+	}
+	return collectEvents("mailgun", profile, [
+		mapMailgunEvent(payload["event-data"]),
+	]);
+}
+
+function verifySendGridSignature(
+	inbound: Extract<ProviderInboundConfig, { adapter: "sendgrid" }>,
+	request: InboundProviderRequest,
+	options: InboundProviderAdapterOptions,
+): void {
+	const publicKey = requireCredential(options.env, inbound.public_key_env);
+	const signature = request.headers.get(
+		"X-Twilio-Email-Event-Webhook-Signature",
+	);
+	const timestamp = request.headers.get(
+		"X-Twilio-Email-Event-Webhook-Timestamp",
+	);
+	const now = options.now?.() ?? new Date();
+	if (
+		!signature ||
+		!timestamp ||
+		!/^\d+$/.test(timestamp) ||
+		Math.abs(now.getTime() - Number(timestamp) * 1_000) >
+			SIGNATURE_TOLERANCE_MS
+	) {
+		throw new InboundProviderAuthenticationError(
+			"SendGrid signature is missing or expired",
+		);
+	}
+	let verified: boolean;
+	try {
+		verified = verify(
+			"sha256",
+			Buffer.from(`${timestamp}${request.body}`, "utf8"),
+			createPublicKey({
+				key: Buffer.from(publicKey, "base64"),
+				format: "der",
+				type: "spki",
+			}),
+			Buffer.from(signature, "base64"),
+		);
+	} catch {
+		verified = false;
+	}
+	if (!verified) {
+		throw new InboundProviderAuthenticationError("Invalid SendGrid signature");
+	}
+}
+
+function mapSendGridEvent(event: unknown): MappedEventResult {
+	if (!isRecord(event)) return undefined;
+	const id = stringValue(event.sg_event_id);
+	const eventType = stringValue(event.event) ?? "unknown";
+	if (id === undefined) return undefined;
+	const base = {
+		providerEventId: id,
+		occurredAt: event.timestamp,
+		messageId: event.sg_message_id,
+		subscriberUuid: event.subscriber_uuid,
+		recipient: event.email,
+		eventType,
+	};
+	switch (eventType) {
+		case "delivered":
+			return { ...base, kind: "delivered" };
+		case "deferred":
+			return { ...base, kind: "delayed", reason: event.response };
+		case "bounce":
+			return {
+				...base,
+				kind: "bounced",
+				bounceType: event.type === "blocked" ? "soft" : "hard",
+				reason: event.reason,
+			};
+		case "dropped":
+			return { ...base, kind: "rejected", reason: event.reason };
+		case "spamreport":
+			return { ...base, kind: "complained" };
+		case "unsubscribe":
+		case "group_unsubscribe":
+			return { ...base, kind: "unsubscribed" };
+		default:
+			return undefined;
+	}
+}
+
+function parseSendGridRequest(
+	inbound: Extract<ProviderInboundConfig, { adapter: "sendgrid" }>,
+	profile: ProviderProfile,
+	request: InboundProviderRequest,
+	options: InboundProviderAdapterOptions,
+): InboundProviderParseResult {
+	verifySendGridSignature(inbound, request, options);
+	const payload = parseJsonPayload(request.body);
+	if (!Array.isArray(payload)) {
+		throw new InboundProviderPayloadError(
+			"SendGrid webhook body must be a JSON array",
+		);
+	}
+	return collectEvents("sendgrid", profile, payload.map(mapSendGridEvent));
+}
+
+function requireInboundConfig(profile: ProviderProfile): ProviderInboundConfig {
+	if (profile.inbound === undefined) {
+		throw new TypeError(
+			`Provider profile ${profile.id} has no inbound adapter configured`,
+		);
+	}
+	return profile.inbound;
+}
+
+/**
+ * Verify a raw provider webhook request against the profile's inbound
+ * credentials and map it onto normalized inbound delivery events. Events the
+ * shared envelope cannot represent (opens, clicks, unsubscribes without a
+ * Listmonk subscriber UUID) are counted as skipped.
+ */
+export async function parseInboundProviderRequest(
+	profile: ProviderProfile,
+	request: InboundProviderRequest,
+	options: InboundProviderAdapterOptions = {},
+): Promise<InboundProviderParseResult> {
+	const inbound = requireInboundConfig(profile);
+	if (
+		Buffer.byteLength(request.body, "utf8") > MAX_INBOUND_PROVIDER_PAYLOAD_BYTES
+	) {
+		throw new InboundProviderPayloadError(
+			`Provider payload exceeds ${MAX_INBOUND_PROVIDER_PAYLOAD_BYTES} bytes`,
+		);
+	}
+	switch (inbound.adapter) {
+		case "ses":
+			return parseSesRequest(inbound, profile, request, options);
+		case "postmark":
+			return parsePostmarkRequest(inbound, profile, request, options);
+		case "mailgun":
+			return parseMailgunRequest(inbound, profile, request, options);
+		case "sendgrid":
+			return parseSendGridRequest(inbound, profile, request, options);
+	}
+}
+
+/** Confirm an SNS subscription by visiting its verified SubscribeURL. */
+export async function confirmSnsSubscription(
+	subscribeUrl: string,
+	options: Pick<InboundProviderAdapterOptions, "fetch"> = {},
+): Promise<void> {
+	const url = parseSnsUrl(subscribeUrl, "SubscribeURL");
+	const response = await (options.fetch ?? fetch)(url, {
+		redirect: "error",
+		signal: AbortSignal.timeout(SNS_CERTIFICATE_TIMEOUT_MS),
+	});
+	if (!response.ok) {
+		throw new Error(
+			`SNS subscription confirmation failed (HTTP ${response.status})`,
+		);
+	}
+}
+
+/**
+ * Verify, normalize, and enqueue a raw provider webhook request. SNS
+ * subscription confirmations for configured topics are confirmed
+ * automatically. Ingestion is idempotent per provider event, so a provider
+ * retry after a partial failure does not duplicate deliveries.
+ */
+export async function ingestInboundProviderRequest(
+	profile: ProviderProfile,
+	request: InboundProviderRequest,
+	options: InboundProviderAdapterOptions & {
+		store?: OutboundWebhookStoreOptions | undefined;
+		/** Runs once every event is enqueued, e.g. to apply suppression. */
+		afterIngest?:
+			| ((events: readonly IngestInboundDeliveryEventInput[]) => Promise<void>)
+			| undefined;
+	} = {},
+): Promise<InboundProviderIngestResult> {
+	const parsed = await parseInboundProviderRequest(profile, request, options);
+	const { adapter } = requireInboundConfig(profile);
+	const result: InboundProviderIngestResult = {
+		provider_id: profile.id,
+		adapter,
+		subscription_confirmed: false,
+		received: 0,
+		skipped: 0,
+		queued_deliveries: 0,
+		duplicate_deliveries: 0,
+	};
+	if (parsed.kind === "subscription_confirmation") {
+		await confirmSnsSubscription(parsed.subscribeUrl, options);
+		return { ...result, subscription_confirmed: true };
+	}
+	result.skipped = parsed.skipped;
+	for (const event of parsed.events) {
+		const enqueued = await ingestInboundDeliveryEvent(event, options.store);
+		result.received += 1;
+		result.queued_deliveries += enqueued.queuedDeliveries;
+		result.duplicate_deliveries += enqueued.duplicateDeliveries;
+	}
+	await options.afterIngest?.(parsed.events);
+	return result;
+}
@@ -1,22 +1,37 @@
 export * from "./campaign";
+export * from "./campaign-content";
 export { getOpsStorePaths } from "./core";
 export * from "./digest";
 export * from "./hygiene";
 export * from "./inbound-delivery-events";
+export * from "./inbound-provider-adapters";
 export * from "./outbound-webhook-postgres";
 export * from "./outbound-webhook-domain-events";
 export * from "./outbound-webhook-runtime";
 export * from "./outbound-webhook-worker";
 export * from "./outbound-webhooks";
+export * from "./playbook-files";
+export * from "./playbook-run-operations";
+export * from "./playbook-runs";
 export * from "./provider-doctor";
 export * from "./provider-operations";
 export * from "./provider-profiles";
+export * from "./sequence-bulk-enrollment";
+export * from "./sequence-conditions";
+export * from "./sequence-delivery";
 export * from "./sequence-engine";
+export * from "./sequence-goals";
 export * from "./sequence-operations";
 export * from "./sequence-postgres";
 export * from "./sequence-runtime";
+export * from "./sequence-splits";
+export * from "./sequence-triggers";
 export * from "./sequences";
+export * from "./suppression-operations";
+export * from "./suppression-policy";
 export * from "./segment-drift";
 export * from "./template-registry";
+export * from "./transactional-postgres";
+export * from "./transactional-runtime";
 export * from "./webhook-operations";
 export * from "./ops-operations";
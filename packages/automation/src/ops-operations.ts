@@ -6,6 +6,7 @@ import {
 	type DeliverabilityGuardResult,
 	runCampaignPreflight,
 } from "./campaign.js";
+import { CAMPAIGN_CONTENT_CHECK_IDS } from "./campaign-content.js";
 import { generateDailyDigest, type DailyDigestResult } from "./digest.js";
 import {
 	runSubscriberHygiene,
@@ -93,6 +94,18 @@ const campaignPreflightInputSchema = z.object({
 	link_check_timeout_ms: positiveIntegerInput
 		.default(4_000)
 		.describe("Timeout for each outbound link check in milliseconds"),
+	check_render: booleanInput
+		.default(false)
+		.describe("Render the campaign preview and check the result"),
+	content_check_levels: z
+		.partialRecord(
+			z.enum(CAMPAIGN_CONTENT_CHECK_IDS),
+			z.enum(["warn", "fail", "off"]),
+		)
+		.optional()
+		.describe(
+			"Level each rendered-content check reports on failure; off skips it",
+		),
 });
 
 const deliverabilityGuardInputSchema = z.object({
@@ -456,6 +469,8 @@ export async function executeCampaignPreflightOperation(
 		maxAudience: input.max_audience,
 		checkLinks: input.check_links,
 		linkCheckTimeoutMs: input.link_check_timeout_ms,
+		checkRender: input.check_render,
+		contentCheckLevels: input.content_check_levels,
 	});
 }
 
@@ -433,6 +433,25 @@ function sequenceProjection(
 					status: resource["status"],
 				},
 			}));
+		case "sequences.migrate": {
+			// A dry-run plan changes nothing and emits no lifecycle event.
+			const migration = asRecord(input.operationOutput);
+			if (migration?.["dry_run"] !== false) {
+				return [];
+			}
+			return [
+				{
+					...common,
+					type: "sequence.migrated",
+					data: {
+						from_revision: migration["from_revision"],
+						to_revision: migration["to_revision"],
+						migrated: migration["migrated"],
+						skipped: migration["skipped"],
+					},
+				},
+			];
+		}
 		default:
 			return [];
 	}
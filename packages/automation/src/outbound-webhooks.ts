@@ -71,7 +71,9 @@ export const OUTBOUND_WEBHOOK_EVENT_TYPES = [
 	"sequence.paused",
 	"sequence.resumed",
 	"sequence.reconciled",
+	"sequence.migrated",
 	"sequence.deleted",
+	"sequence.step-event",
 	"webhook.test",
 ] as const;
 export const OUTBOUND_WEBHOOK_EVENT_FAMILY_FILTERS = [
@@ -0,0 +1,120 @@
+import { parseOperationPlaybookDocument } from "@listmonk-ops/operations";
+import {
+	emailOperationsSpec,
+	type OperationPlaybook,
+	withOperationPlaybooks,
+} from "@listmonk-ops/operations/specs";
+import { readdir, readFile, stat } from "node:fs/promises";
+import { extname, join, resolve } from "node:path";
+
+const MAX_PLAYBOOK_FILE_BYTES = 262_144;
+const MAX_PLAYBOOK_FILES = 100;
+const PLAYBOOK_FILE_EXTENSIONS = new Set([".json", ".yaml", ".yml"]);
+
+export interface OperationPlaybookLoaderOptions {
+	directory?: string | undefined;
+	env?: Readonly<Record<string, string | undefined>> | undefined;
+	/** Parses `.yaml`/`.yml` files; without it only JSON files are accepted. */
+	parseYaml?: ((text: string) => unknown) | undefined;
+}
+
+function parsePlaybookFile(
+	name: string,
+	text: string,
+	parseYaml: ((text: string) => unknown) | undefined,
+): unknown {
+	if (extname(name) === ".json") {
+		return JSON.parse(text);
+	}
+	if (parseYaml === undefined) {
+		throw new TypeError("YAML playbooks require a YAML parser");
+	}
+	return parseYaml(text);
+}
+
+/** A playbook file, or the directory itself, that could not be loaded. */
+export interface OperationPlaybookLoadDiagnostic {
+	/** File name in the playbook directory; unset for directory problems. */
+	file?: string | undefined;
+	message: string;
+}
+
+export interface OperationPlaybookLoadResult {
+	playbooks: readonly OperationPlaybook[];
+	diagnostics: readonly OperationPlaybookLoadDiagnostic[];
+}
+
+/**
+ * Load user-defined playbooks from `LISTMONK_OPS_PLAYBOOK_DIR`. Files are
+ * read in name order and each must pass the built-in playbook checks
+ * against the operations spec. An invalid file is skipped and reported in
+ * `diagnostics`, so one bad edit does not hide the other playbooks.
+ */
+export async function loadOperationPlaybooks(
+	options: OperationPlaybookLoaderOptions = {},
+): Promise<OperationPlaybookLoadResult> {
+	const configuredDirectory =
+		options.directory ??
+		options.env?.LISTMONK_OPS_PLAYBOOK_DIR ??
+		process.env.LISTMONK_OPS_PLAYBOOK_DIR;
+	if (!configuredDirectory) {
+		return { playbooks: [], diagnostics: [] };
+	}
+
+	const directory = resolve(configuredDirectory);
+	let entries;
+	try {
+		entries = await readdir(directory, { withFileTypes: true });
+	} catch {
+		return {
+			playbooks: [],
+			diagnostics: [
+				{
+					message:
+						"Playbook directory is not accessible; check LISTMONK_OPS_PLAYBOOK_DIR",
+				},
+			],
+		};
+	}
+	const diagnostics: OperationPlaybookLoadDiagnostic[] = [];
+	const names = entries
+		.filter(
+			(entry) =>
+				entry.isFile() && PLAYBOOK_FILE_EXTENSIONS.has(extname(entry.name)),
+		)
+		.map((entry) => entry.name)
+		.sort();
+	if (names.length > MAX_PLAYBOOK_FILES) {
+		diagnostics.push({
+			message: `Playbook directory exceeds ${MAX_PLAYBOOK_FILES} playbook files; only the first ${MAX_PLAYBOOK_FILES} are loaded`,
+		});
+	}
+
+	let spec = emailOperationsSpec;
+	const playbooks: OperationPlaybook[] = [];
+	for (const name of names.slice(0, MAX_PLAYBOOK_FILES)) {
+		const path = join(directory, name);
+		try {
+			if ((await stat(path)).size > MAX_PLAYBOOK_FILE_BYTES) {
+				throw new RangeError(`exceeds ${MAX_PLAYBOOK_FILE_BYTES} bytes`);
+			}
+			const playbook = parseOperationPlaybookDocument(
+				parsePlaybookFile(
+					name,
+					await readFile(path, "utf8"),
+					options.parseYaml,
+				),
+			);
+			spec = withOperationPlaybooks(spec, [playbook]);
+			playbooks.push(playbook);
+		} catch (error) {
+			diagnostics.push({
+				file: name,
+				message: `Invalid playbook file ${name}: ${
+					error instanceof Error ? error.message : String(error)
+				}`,
+			});
+		}
+	}
+	return { playbooks, diagnostics };
+}
@@ -0,0 +1,284 @@
+import {
+	defineOperation,
+	defineOperationCatalog,
+	normalizeOperationExecutionError,
+	parseOperationInput,
+	parseOperationOutput,
+} from "@listmonk-ops/operations";
+import {
+	bindPlaybookApproveOperationSpec,
+	bindPlaybookRunCancelOperationSpec,
+	bindPlaybookRunGetOperationSpec,
+	bindPlaybookRunOperationSpec,
+} from "@listmonk-ops/operations/specs";
+import { z } from "zod";
+import {
+	approvePlaybookRun,
+	cancelPlaybookRun,
+	getPlaybookRun,
+	playbookRunSchema,
+	startPlaybookRun,
+	type PlaybookRunContext,
+} from "./playbook-runs";
+
+export type PlaybookRunOperationContext = PlaybookRunContext;
+
+const playbookRunIdInput = z.uuid();
+
+const playbookRunInputSchema = z.object({
+	id: z.string().min(1),
+	inputs: z
+		.record(z.string(), z.union([z.string(), z.number(), z.boolean()]))
+		.optional(),
+});
+
+const playbookApproveInputSchema = z.object({
+	run_id: playbookRunIdInput,
+	step_id: z.string().min(1).optional(),
+});
+
+const playbookRunGetInputSchema = z.object({
+	run_id: playbookRunIdInput,
+});
+
+const playbookRunCancelInputSchema = z.object({
+	run_id: playbookRunIdInput,
+});
+
+const playbookRunOutputSchema = z.object({
+	run: playbookRunSchema,
+});
+
+export async function executePlaybookRunOperation(
+	context: PlaybookRunOperationContext,
+	input: z.output<typeof playbookRunInputSchema>,
+) {
+	return {
+		run: await startPlaybookRun(context, {
+			playbookId: input.id,
+			inputs: input.inputs,
+		}),
+	};
+}
+
+export async function executePlaybookApproveOperation(
+	context: PlaybookRunOperationContext,
+	input: z.output<typeof playbookApproveInputSchema>,
+) {
+	return {
+		run: await approvePlaybookRun(context, {
+			runId: input.run_id,
+			stepId: input.step_id,
+		}),
+	};
+}
+
+export async function executePlaybookRunGetOperation(
+	context: PlaybookRunOperationContext,
+	input: z.output<typeof playbookRunGetInputSchema>,
+) {
+	return { run: await getPlaybookRun(context, input.run_id) };
+}
+
+export async function executePlaybookRunCancelOperation(
+	context: PlaybookRunOperationContext,
+	input: z.output<typeof playbookRunCancelInputSchema>,
+) {
+	return { run: await cancelPlaybookRun(context, { runId: input.run_id }) };
+}
+
+export const playbookRunOperation = defineOperation({
+	id: "playbooks.run",
+	title: "Run operation playbook",
+	description:
+		"Start a durable playbook run that resolves step bindings, runs steps through shared operations, evaluates result guards, and pauses at human-approval steps.",
+	inputSchema: playbookRunInputSchema,
+	outputSchema: playbookRunOutputSchema,
+	safety: {
+		readOnlyHint: false,
+		destructiveHint: false,
+		idempotentHint: false,
+		openWorldHint: true,
+	},
+	mcp: { name: "listmonk_playbook_run" },
+	spec: bindPlaybookRunOperationSpec(),
+	execute: executePlaybookRunOperation,
+});
+
+export const playbookApproveOperation = defineOperation({
+	id: "playbooks.approve",
+	title: "Approve playbook step",
+	description:
+		"Approve the human-approval step a playbook run is paused at, run it with the reviewed input, and continue the run.",
+	inputSchema: playbookApproveInputSchema,
+	outputSchema: playbookRunOutputSchema,
+	safety: {
+		readOnlyHint: false,
+		destructiveHint: true,
+		idempotentHint: false,
+		openWorldHint: true,
+	},
+	mcp: { name: "listmonk_playbook_approve" },
+	spec: bindPlaybookApproveOperationSpec(),
+	execute: executePlaybookApproveOperation,
+});
+
+export const playbookRunGetOperation = defineOperation({
+	id: "playbooks.runs.get",
+	title: "Get playbook run",
+	description:
+		"Get a durable playbook run with its step inputs, outputs, pending approval, and recovery outcome.",
+	inputSchema: playbookRunGetInputSchema,
+	outputSchema: playbookRunOutputSchema,
+	safety: {
+		readOnlyHint: true,
+		destructiveHint: false,
+		idempotentHint: true,
+		openWorldHint: false,
+	},
+	mcp: { name: "listmonk_playbook_run_get" },
+	spec: bindPlaybookRunGetOperationSpec(),
+	execute: executePlaybookRunGetOperation,
+});
+
+export const playbookRunCancelOperation = defineOperation({
+	id: "playbooks.runs.cancel",
+	title: "Cancel playbook run",
+	description:
+		"Fail a playbook run that is paused at an approval step or was interrupted while running, mark its unfinished step failed, and run the playbook's recovery operation.",
+	inputSchema: playbookRunCancelInputSchema,
+	outputSchema: playbookRunOutputSchema,
+	safety: {
+		readOnlyHint: false,
+		destructiveHint: true,
+		idempotentHint: false,
+		openWorldHint: true,
+	},
+	mcp: { name: "listmonk_playbook_run_cancel" },
+	spec: bindPlaybookRunCancelOperationSpec(),
+	execute: executePlaybookRunCancelOperation,
+});
+
+export async function invokePlaybookRunOperation(
+	context: PlaybookRunOperationContext,
+	input: unknown,
+) {
+	const parsed = parseOperationInput(playbookRunOperation.inputSchema, input);
+	try {
+		return parseOperationOutput(
+			playbookRunOperation.id,
+			playbookRunOperation.outputSchema,
+			await executePlaybookRunOperation(context, parsed),
+		);
+	} catch (error) {
+		throw normalizeOperationExecutionError(playbookRunOperation.id, error);
+	}
+}
+
+export async function invokePlaybookApproveOperation(
+	context: PlaybookRunOperationContext,
+	input: unknown,
+) {
+	const parsed = parseOperationInput(
+		playbookApproveOperation.inputSchema,
+		input,
+	);
+	try {
+		return parseOperationOutput(
+			playbookApproveOperation.id,
+			playbookApproveOperation.outputSchema,
+			await executePlaybookApproveOperation(context, parsed),
+		);
+	} catch (error) {
+		throw normalizeOperationExecutionError(playbookApproveOperation.id, error);
+	}
+}
+
+export async function invokePlaybookRunGetOperation(
+	context: PlaybookRunOperationContext,
+	input: unknown,
+) {
+	const parsed = parseOperationInput(
+		playbookRunGetOperation.inputSchema,
+		input,
+	);
+	try {
+		return parseOperationOutput(
+			playbookRunGetOperation.id,
+			playbookRunGetOperation.outputSchema,
+			await executePlaybookRunGetOperation(context, parsed),
+		);
+	} catch (error) {
+		throw normalizeOperationExecutionError(playbookRunGetOperation.id, error);
+	}
+}
+
+export async function invokePlaybookRunCancelOperation(
+	context: PlaybookRunOperationContext,
+	input: unknown,
+) {
+	const parsed = parseOperationInput(
+		playbookRunCancelOperation.inputSchema,
+		input,
+	);
+	try {
+		return parseOperationOutput(
+			playbookRunCancelOperation.id,
+			playbookRunCancelOperation.outputSchema,
+			await executePlaybookRunCancelOperation(context, parsed),
+		);
+	} catch (error) {
+		throw normalizeOperationExecutionError(
+			playbookRunCancelOperation.id,
+			error,
+		);
+	}
+}
+
+const bindings = [
+	{ operation: playbookRunOperation, invoke: invokePlaybookRunOperation },
+	{
+		operation: playbookApproveOperation,
+		invoke: invokePlaybookApproveOperation,
+	},
+	{
+		operation: playbookRunGetOperation,
+		invoke: invokePlaybookRunGetOperation,
+	},
+	{
+		operation: playbookRunCancelOperation,
+		invoke: invokePlaybookRunCancelOperation,
+	},
+] as const;
+
+export const playbookRunOperations = bindings.map(({ operation }) => operation);
+export const playbookRunOperationCatalog = defineOperationCatalog({
+	id: "playbook-runs",
+	title: "Playbook runs",
+	operations: playbookRunOperations,
+	specMigrationExemptions: [],
+});
+
+const byMcpName = new Map(
+	bindings.map((binding) => [binding.operation.mcp.name, binding] as const),
+);
+
+export function getPlaybookRunOperationByMcpName(name: string) {
+	return byMcpName.get(name)?.operation;
+}
+
+export async function invokePlaybookRunOperationByMcpName(
+	context: PlaybookRunOperationContext,
+	name: string,
+	input: unknown,
+): Promise<
+	| { operation: (typeof playbookRunOperations)[number]; output: unknown }
+	| undefined
+> {
+	const binding = byMcpName.get(name);
+	if (!binding) return undefined;
+	return {
+		operation: binding.operation,
+		output: await binding.invoke(context, input),
+	};
+}
@@ -0,0 +1,714 @@
+import {
+	commitJsonFileStoreUpdate,
+	readJsonFileStore,
+	updateJsonFileStore,
+	type JsonFileStore,
+} from "@listmonk-ops/common";
+import {
+	emailOperationsSpec,
+	type OperationId,
+	type OperationPlaybook,
+	type OperationPlaybookInput,
+	type OperationPlaybookStep,
+	type OperationPlaybookValueSource,
+} from "@listmonk-ops/operations/specs";
+import { randomUUID } from "node:crypto";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { z } from "zod";
+
+export const PLAYBOOK_RUN_STORE_VERSION = 1;
+export const MAX_PLAYBOOK_RUNS = 1_000;
+/** A `running` run idle this long is treated as interrupted. */
+export const PLAYBOOK_RUN_INTERRUPTED_AFTER_MS = 15 * 60_000;
+export const PLAYBOOK_RUN_STATUSES = [
+	"running",
+	"awaiting_approval",
+	"succeeded",
+	"failed",
+] as const;
+export const PLAYBOOK_RUN_STEP_STATUSES = [
+	"pending",
+	"awaiting_approval",
+	"succeeded",
+	"failed",
+] as const;
+
+// A step that starts or approves a run would nest runs and approvals.
+const NESTED_PLAYBOOK_OPERATIONS: ReadonlySet<string> = new Set([
+	"playbooks.run",
+	"playbooks.approve",
+]);
+
+const playbookRunInputValueSchema = z.union([
+	z.string(),
+	z.number(),
+	z.boolean(),
+]);
+
+export const playbookRunStepSchema = z.object({
+	step_id: z.string(),
+	operation: z.string(),
+	status: z.enum(PLAYBOOK_RUN_STEP_STATUSES),
+	input: z.record(z.string(), z.unknown()).optional(),
+	output: z.unknown().optional(),
+	failure_reason: z.string().optional(),
+	completed_at: z.string().optional(),
+});
+
+export const playbookRunRecoverySchema = z.object({
+	operation: z.string(),
+	status: z.enum(["succeeded", "failed"]),
+	input: z.record(z.string(), z.unknown()),
+	output: z.unknown().optional(),
+	failure_reason: z.string().optional(),
+});
+
+export const playbookRunSchema = z.object({
+	id: z.uuid(),
+	playbook_id: z.string(),
+	status: z.enum(PLAYBOOK_RUN_STATUSES),
+	inputs: z.record(z.string(), playbookRunInputValueSchema),
+	steps: z.array(playbookRunStepSchema),
+	failure_reason: z.string().optional(),
+	recovery: playbookRunRecoverySchema.optional(),
+	created_at: z.string(),
+	updated_at: z.string(),
+});
+
+const playbookRunStoreSchema = z.object({
+	version: z.literal(PLAYBOOK_RUN_STORE_VERSION),
+	runs: z.array(playbookRunSchema),
+});
+
+export type PlaybookRunInputValue = z.output<typeof playbookRunInputValueSchema>;
+export type PlaybookRunStep = z.output<typeof playbookRunStepSchema>;
+export type PlaybookRunRecovery = z.output<typeof playbookRunRecoverySchema>;
+export type PlaybookRun = z.output<typeof playbookRunSchema>;
+type PlaybookRunStore = z.output<typeof playbookRunStoreSchema>;
+
+/**
+ * Run one playbook step through the caller's surface. `confirmed` is true
+ * only for a step a human approved, so confirmation-gated operations can
+ * run inside a playbook only behind an approval step.
+ */
+export type PlaybookStepExecutor = (
+	operationId: OperationId,
+	input: Readonly<Record<string, unknown>>,
+	options: Readonly<{ confirmed: boolean }>,
+) => Promise<unknown>;
+
+export interface PlaybookRunStoreOptions {
+	path?: string | undefined;
+}
+
+export interface PlaybookRunContext {
+	executeStep?: PlaybookStepExecutor | undefined;
+	/** Playbooks that can be run; defaults to the built-in playbooks. */
+	playbooks?: readonly OperationPlaybook[] | undefined;
+	store?: PlaybookRunStoreOptions | undefined;
+	now?: (() => Date) | undefined;
+}
+
+export interface StartPlaybookRunInput {
+	playbookId: string;
+	/** Values for the declared inputs; strings are coerced to their type. */
+	inputs?: Readonly<Record<string, unknown>> | undefined;
+}
+
+export interface CancelPlaybookRunInput {
+	runId: string;
+}
+
+export interface ApprovePlaybookRunInput {
+	runId: string;
+	/** Reject the approval unless the run is paused at this step. */
+	stepId?: string | undefined;
+}
+
+/** A run was changed by another caller after this one loaded it. */
+export class PlaybookRunConflictError extends Error {
+	public constructor(message: string) {
+		super(message);
+		this.name = "PlaybookRunConflictError";
+	}
+}
+
+function toErrorMessage(error: unknown): string {
+	return error instanceof Error ? error.message : String(error);
+}
+
+export function getPlaybookRunStorePath(): string {
+	return (
+		process.env.LISTMONK_OPS_PLAYBOOK_RUN_STORE?.trim() ||
+		join(homedir(), ".listmonk-ops", "playbook-runs.json")
+	);
+}
+
+function createPlaybookRunStore(
+	path = getPlaybookRunStorePath(),
+): JsonFileStore<PlaybookRunStore> {
+	return {
+		path,
+		createDefault: () => ({
+			version: PLAYBOOK_RUN_STORE_VERSION,
+			runs: [],
+		}),
+		parse: (value) => playbookRunStoreSchema.parse(value),
+		lock: { timeoutMs: 5_000 },
+	};
+}
+
+function isTerminal(run: PlaybookRun): boolean {
+	return run.status === "succeeded" || run.status === "failed";
+}
+
+/** Drop the oldest finished runs; paused and in-flight runs are kept. */
+function pruneRuns(runs: readonly PlaybookRun[]): PlaybookRun[] {
+	let excess = runs.length - MAX_PLAYBOOK_RUNS;
+	return runs.filter((run) => {
+		if (excess > 0 && isTerminal(run)) {
+			excess -= 1;
+			return false;
+		}
+		return true;
+	});
+}
+
+/**
+ * Write a run back under the store lock. `run.updated_at` is the version the
+ * caller loaded, so a save over a run that changed since — such as one a
+ * cancel already failed — is rejected instead of resurrecting it.
+ */
+async function savePlaybookRun(
+	context: PlaybookRunContext,
+	run: PlaybookRun,
+): Promise<PlaybookRun> {
+	const saved = {
+		...run,
+		updated_at: (context.now?.() ?? new Date()).toISOString(),
+	};
+	return updateJsonFileStore(
+		createPlaybookRunStore(context.store?.path),
+		(current) => {
+			const stored = current.runs.find((candidate) => candidate.id === run.id);
+			if (
+				stored !== undefined &&
+				(stored.updated_at !== run.updated_at ||
+					(isTerminal(stored) && stored.status !== run.status))
+			) {
+				throw new PlaybookRunConflictError(
+					`Playbook run ${run.id} changed while it was running (status: ${stored.status})`,
+				);
+			}
+			return commitJsonFileStoreUpdate(
+				{
+					...current,
+					runs: pruneRuns(
+						stored !== undefined
+							? current.runs.map((candidate) =>
+									candidate.id === run.id ? saved : candidate,
+								)
+							: [...current.runs, saved],
+					),
+				},
+				saved,
+			);
+		},
+	);
+}
+
+function findPlaybook(
+	context: PlaybookRunContext,
+	playbookId: string,
+): OperationPlaybook {
+	const playbook = (context.playbooks ?? emailOperationsSpec.playbooks).find(
+		(candidate) => candidate.id === playbookId,
+	);
+	if (playbook === undefined) {
+		throw new Error(`Unknown operation playbook: ${playbookId}`);
+	}
+	return playbook;
+}
+
+function requireStepExecutor(
+	context: PlaybookRunContext,
+): PlaybookStepExecutor {
+	if (!context.executeStep) {
+		throw new Error("Playbook runs require a step executor");
+	}
+	return context.executeStep;
+}
+
+function coercePlaybookInput(
+	playbook: OperationPlaybook,
+	input: OperationPlaybookInput,
+	value: unknown,
+): PlaybookRunInputValue {
+	switch (input.type) {
+		case "number": {
+			const number =
+				typeof value === "string" && value.trim() !== ""
+					? Number(value)
+					: value;
+			if (typeof number === "number" && Number.isFinite(number)) {
+				return number;
+			}
+			break;
+		}
+		case "boolean":
+			if (typeof value === "boolean") return value;
+			if (value === "true" || value === "false") return value === "true";
+			break;
+		case "string":
+			if (typeof value === "string") return value;
+			break;
+	}
+	throw new TypeError(
+		`Playbook ${playbook.id} input ${input.name} must be a ${input.type}`,
+	);
+}
+
+export function resolvePlaybookRunInputs(
+	playbook: OperationPlaybook,
+	inputs: Readonly<Record<string, unknown>>,
+): Record<string, PlaybookRunInputValue> {
+	const declared = new Set(playbook.inputs.map((input) => input.name));
+	const unknown = Object.keys(inputs).filter((name) => !declared.has(name));
+	if (unknown.length > 0) {
+		throw new TypeError(
+			`Playbook ${playbook.id} has no inputs named: ${unknown.join(", ")}`,
+		);
+	}
+	const resolved: Record<string, PlaybookRunInputValue> = {};
+	for (const input of playbook.inputs) {
+		const value = inputs[input.name];
+		if (value === undefined) {
+			if (input.required) {
+				throw new TypeError(
+					`Playbook ${playbook.id} requires input ${input.name}`,
+				);
+			}
+			continue;
+		}
+		resolved[input.name] = coercePlaybookInput(playbook, input, value);
+	}
+	return resolved;
+}
+
+/** Read a dot path such as `templates.0.hash` or `errors.length`. */
+function readOutputPath(value: unknown, path: string): unknown {
+	let current = value;
+	for (const segment of path.split(".")) {
+		if (
+			typeof current !== "object" ||
+			current === null ||
+			!Object.hasOwn(current, segment)
+		) {
+			return undefined;
+		}
+		current = (current as Record<string, unknown>)[segment];
+	}
+	return current;
+}
+
+function resolveSource(
+	source: OperationPlaybookValueSource,
+	run: PlaybookRun,
+): unknown {
+	switch (source.kind) {
+		case "literal":
+			return source.value;
+		case "playbook-input":
+			return run.inputs[source.name];
+		case "step-output": {
+			const step = run.steps.find(
+				(candidate) => candidate.step_id === source.stepId,
+			);
+			const value = readOutputPath(step?.output, source.path);
+			if (value === undefined) {
+				throw new Error(
+					`Step ${source.stepId} output has no value at ${source.path}`,
+				);
+			}
+			return value;
+		}
+	}
+}
+
+/** Unset optional playbook inputs leave their parameters out of the step. */
+function resolveStepInput(
+	step: OperationPlaybookStep,
+	run: PlaybookRun,
+): Record<string, unknown> {
+	const input: Record<string, unknown> = {};
+	for (const binding of step.input) {
+		const value = resolveSource(binding.source, run);
+		if (value !== undefined) {
+			input[binding.parameter] = value;
+		}
+	}
+	return input;
+}
+
+function resultGuardFailure(
+	step: OperationPlaybookStep,
+	output: unknown,
+): string | undefined {
+	const guard = step.resultGuard;
+	if (guard === undefined) return undefined;
+	const actual = readOutputPath(output, guard.path) ?? null;
+	if ((actual === guard.expected) === (guard.operator === "equals")) {
+		return undefined;
+	}
+	return `${guard.message} (${guard.path} is ${JSON.stringify(actual)})`;
+}
+
+function withStep(
+	run: PlaybookRun,
+	index: number,
+	step: Partial<PlaybookRunStep>,
+): PlaybookRun {
+	return {
+		...run,
+		steps: run.steps.map((candidate, position) =>
+			position === index ? { ...candidate, ...step } : candidate,
+		),
+	};
+}
+
+/**
+ * Reuse the input of the first step that calls the recovery operation and
+ * whose bindings still resolve, so recovery inspects the same resource.
+ */
+async function recoverPlaybookRun(
+	executeStep: PlaybookStepExecutor,
+	playbook: OperationPlaybook,
+	run: PlaybookRun,
+): Promise<PlaybookRunRecovery> {
+	const operation = playbook.recoveryOperation;
+	let input: Record<string, unknown> = {};
+	for (const step of playbook.steps) {
+		if (step.operation !== operation) continue;
+		try {
+			input = resolveStepInput(step, run);
+			break;
+		} catch {
+			// A later step may depend on outputs the failed run never produced.
+		}
+	}
+	try {
+		return {
+			operation,
+			status: "succeeded",
+			input,
+			output: await executeStep(operation, input, { confirmed: false }),
+		};
+	} catch (error) {
+		return {
+			operation,
+			status: "failed",
+			input,
+			failure_reason: toErrorMessage(error),
+		};
+	}
+}
+
+async function saveRecovery(
+	context: PlaybookRunContext,
+	playbook: OperationPlaybook,
+	failed: PlaybookRun,
+): Promise<PlaybookRun> {
+	return savePlaybookRun(context, {
+		...failed,
+		recovery: await recoverPlaybookRun(
+			requireStepExecutor(context),
+			playbook,
+			failed,
+		),
+	});
+}
+
+async function failPlaybookRun(
+	context: PlaybookRunContext,
+	playbook: OperationPlaybook,
+	run: PlaybookRun,
+	failureReason: string,
+): Promise<PlaybookRun> {
+	// Persist the failure before recovery so it survives a hung recovery call.
+	const failed = await savePlaybookRun(context, {
+		...run,
+		status: "failed",
+		failure_reason: failureReason,
+	});
+	return saveRecovery(context, playbook, failed);
+}
+
+/**
+ * Run pending steps in order, checkpointing after each one. A human-approval
+ * step pauses the run with its resolved input; `approvedStepId` resumes that
+ * step with the reviewed input instead of re-resolving it.
+ */
+async function advancePlaybookRun(
+	context: PlaybookRunContext,
+	playbook: OperationPlaybook,
+	run: PlaybookRun,
+	approvedStepId?: string,
+): Promise<PlaybookRun> {
+	const executeStep = requireStepExecutor(context);
+	let current = run;
+	for (const [index, step] of playbook.steps.entries()) {
+		const record = current.steps[index];
+		if (record?.status === "succeeded") continue;
+		const approved = step.id === approvedStepId;
+		let input: Record<string, unknown>;
+		try {
+			input = approved
+				? (record?.input ?? {})
+				: resolveStepInput(step, current);
+		} catch (error) {
+			const message = toErrorMessage(error);
+			return failPlaybookRun(
+				context,
+				playbook,
+				withStep(current, index, {
+					status: "failed",
+					failure_reason: message,
+				}),
+				message,
+			);
+		}
+		if (step.approval === "human" && !approved) {
+			return savePlaybookRun(context, {
+				...withStep(current, index, { status: "awaiting_approval", input }),
+				status: "awaiting_approval",
+			});
+		}
+		let output: unknown;
+		try {
+			output = await executeStep(step.operation, input, {
+				confirmed: approved,
+			});
+		} catch (error) {
+			const message = toErrorMessage(error);
+			return failPlaybookRun(
+				context,
+				playbook,
+				withStep(current, index, {
+					status: "failed",
+					input,
+					failure_reason: message,
+				}),
+				message,
+			);
+		}
+		const completedAt = (context.now?.() ?? new Date()).toISOString();
+		const guardFailure = resultGuardFailure(step, output);
+		if (guardFailure !== undefined) {
+			return failPlaybookRun(
+				context,
+				playbook,
+				withStep(current, index, {
+					status: "failed",
+					input,
+					output,
+					failure_reason: guardFailure,
+					completed_at: completedAt,
+				}),
+				guardFailure,
+			);
+		}
+		current = await savePlaybookRun(
+			context,
+			withStep(current, index, {
+				status: "succeeded",
+				input,
+				output,
+				completed_at: completedAt,
+			}),
+		);
+	}
+	return savePlaybookRun(context, { ...current, status: "succeeded" });
+}
+
+/** Start a playbook run and advance it until it pauses, fails, or succeeds. */
+export async function startPlaybookRun(
+	context: PlaybookRunContext,
+	input: StartPlaybookRunInput,
+): Promise<PlaybookRun> {
+	const playbook = findPlaybook(context, input.playbookId);
+	requireStepExecutor(context);
+	const nested = playbook.steps.find((step) =>
+		NESTED_PLAYBOOK_OPERATIONS.has(step.operation),
+	);
+	if (nested !== undefined) {
+		throw new Error(
+			`Playbook ${playbook.id} step ${nested.id} cannot run ${nested.operation}`,
+		);
+	}
+	const timestamp = (context.now?.() ?? new Date()).toISOString();
+	const run = await savePlaybookRun(context, {
+		id: randomUUID(),
+		playbook_id: playbook.id,
+		status: "running",
+		inputs: resolvePlaybookRunInputs(playbook, input.inputs ?? {}),
+		steps: playbook.steps.map((step) => ({
+			step_id: step.id,
+			operation: step.operation,
+			status: "pending",
+		})),
+		created_at: timestamp,
+		updated_at: timestamp,
+	});
+	return advancePlaybookRun(context, playbook, run);
+}
+
+/**
+ * Move a run to its next status under the store lock and return it with the
+ * playbook it runs. `transition` throws to reject the claim.
+ */
+async function claimPlaybookRun(
+	context: PlaybookRunContext,
+	runId: string,
+	transition: (run: PlaybookRun, timestamp: string) => PlaybookRun,
+): Promise<{
+	playbook: OperationPlaybook;
+	previous: PlaybookRun;
+	claimed: PlaybookRun;
+}> {
+	return updateJsonFileStore(
+		createPlaybookRunStore(context.store?.path),
+		(current) => {
+			const run = current.runs.find((candidate) => candidate.id === runId);
+			if (run === undefined) {
+				throw new Error(`Unknown playbook run: ${runId}`);
+			}
+			const timestamp = (context.now?.() ?? new Date()).toISOString();
+			const claimed = { ...transition(run, timestamp), updated_at: timestamp };
+			const playbook = findPlaybook(context, run.playbook_id);
+			const stepIds = playbook.steps.map((step) => step.id);
+			if (
+				stepIds.length !== run.steps.length ||
+				run.steps.some((step, index) => step.step_id !== stepIds[index])
+			) {
+				throw new Error(
+					`Playbook ${run.playbook_id} changed after run ${runId} started`,
+				);
+			}
+			return commitJsonFileStoreUpdate(
+				{
+					...current,
+					runs: current.runs.map((candidate) =>
+						candidate.id === runId ? claimed : candidate,
+					),
+				},
+				{ playbook, previous: run, claimed },
+			);
+		},
+	);
+}
+
+/**
+ * Approve the step a run is paused at and continue the run. The claim moves
+ * the run out of `awaiting_approval` under the store lock, so concurrent
+ * approvals cannot execute the approved step twice.
+ */
+export async function approvePlaybookRun(
+	context: PlaybookRunContext,
+	input: ApprovePlaybookRunInput,
+): Promise<PlaybookRun> {
+	requireStepExecutor(context);
+	const { runId } = input;
+	let stepId: string | undefined;
+	const { playbook, claimed } = await claimPlaybookRun(
+		context,
+		runId,
+		(run) => {
+			if (run.status !== "awaiting_approval") {
+				throw new Error(
+					`Playbook run ${runId} is not awaiting approval (status: ${run.status})`,
+				);
+			}
+			stepId = run.steps.find(
+				(step) => step.status === "awaiting_approval",
+			)?.step_id;
+			if (input.stepId !== undefined && stepId !== input.stepId) {
+				throw new Error(
+					`Playbook run ${runId} is paused at step ${stepId}, not ${input.stepId}`,
+				);
+			}
+			return { ...run, status: "running" };
+		},
+	);
+	return advancePlaybookRun(context, playbook, claimed, stepId);
+}
+
+/**
+ * Fail a run that is paused at an approval step, or that stopped making
+ * progress while `running` because its process died, and run the playbook's
+ * recovery operation. The step that was in flight is never retried: its
+ * outcome is unknown, so it is marked failed for an operator to inspect.
+ */
+export async function cancelPlaybookRun(
+	context: PlaybookRunContext,
+	input: CancelPlaybookRunInput,
+): Promise<PlaybookRun> {
+	requireStepExecutor(context);
+	const { runId } = input;
+	const { playbook, claimed } = await claimPlaybookRun(
+		context,
+		runId,
+		(run, timestamp) => {
+			const index = run.steps.findIndex((step) => step.status !== "succeeded");
+			const step = run.steps[index];
+			if (run.status === "awaiting_approval" && step !== undefined) {
+				return {
+					...withStep(run, index, {
+						status: "failed",
+						failure_reason: "Cancelled before approval",
+					}),
+					status: "failed",
+					failure_reason: `Playbook run was cancelled at approval step ${step.step_id}`,
+				};
+			}
+			const idleMs = Date.parse(timestamp) - Date.parse(run.updated_at);
+			if (
+				run.status === "running" &&
+				idleMs >= PLAYBOOK_RUN_INTERRUPTED_AFTER_MS
+			) {
+				return {
+					...withStep(run, index, {
+						status: "failed",
+						failure_reason:
+							"Interrupted before the step outcome was recorded; check whether it took effect",
+					}),
+					status: "failed",
+					failure_reason:
+						step === undefined
+							? "Playbook run was interrupted before its completion was recorded"
+							: `Playbook run was interrupted at step ${step.step_id}`,
+				};
+			}
+			throw new Error(
+				run.status === "running"
+					? `Playbook run ${runId} is still running; it can be cancelled after ${PLAYBOOK_RUN_INTERRUPTED_AFTER_MS / 60_000} minutes without progress`
+					: `Playbook run ${runId} cannot be cancelled (status: ${run.status})`,
+			);
+		},
+	);
+	return saveRecovery(context, playbook, claimed);
+}
+
+export async function getPlaybookRun(
+	context: Pick<PlaybookRunContext, "store">,
+	runId: string,
+): Promise<PlaybookRun> {
+	const store = await readJsonFileStore(
+		createPlaybookRunStore(context.store?.path),
+	);
+	const run = store.runs.find((candidate) => candidate.id === runId);
+	if (run === undefined) {
+		throw new Error(`Unknown playbook run: ${runId}`);
+	}
+	return run;
+}
@@ -93,6 +93,58 @@ const spfIpRangeSchema = z
 		return prefixLength >= 0 && prefixLength <= (family === 4 ? 32 : 128);
 	}, "Expected SPF sender ranges must be valid IPv4 or IPv6 CIDR values");
 
+const environmentVariableNameSchema = z
+	.string()
+	.trim()
+	.regex(/^[A-Z_][A-Z0-9_]{0,127}$/);
+const snsTopicArnSchema = z
+	.string()
+	.trim()
+	.regex(/^arn:aws(?:-[a-z]+)*:sns:[a-z0-9-]+:\d{12}:[A-Za-z0-9_-]{1,256}$/);
+
+export const INBOUND_PROVIDER_ADAPTERS = [
+	"ses",
+	"postmark",
+	"mailgun",
+	"sendgrid",
+] as const;
+
+export type InboundProviderAdapter = (typeof INBOUND_PROVIDER_ADAPTERS)[number];
+
+/**
+ * Inbound event webhook settings. Credentials are referenced by environment
+ * variable name so profile files stay free of secrets.
+ */
+const providerInboundSchema = z.discriminatedUnion("adapter", [
+	z
+		.object({
+			adapter: z.literal("ses"),
+			topic_arns: z.array(snsTopicArnSchema).min(1).max(20),
+		})
+		.strict(),
+	z
+		.object({
+			adapter: z.literal("postmark"),
+			username_env: environmentVariableNameSchema,
+			password_env: environmentVariableNameSchema,
+		})
+		.strict(),
+	z
+		.object({
+			adapter: z.literal("mailgun"),
+			signing_key_env: environmentVariableNameSchema,
+		})
+		.strict(),
+	z
+		.object({
+			adapter: z.literal("sendgrid"),
+			public_key_env: environmentVariableNameSchema,
+		})
+		.strict(),
+]);
+
+export type ProviderInboundConfig = z.output<typeof providerInboundSchema>;
+
 export const providerProfileSchema = z
 	.object({
 		id: providerIdSchema,
@@ -125,6 +177,7 @@ export const providerProfileSchema = z
 		secret_ref: awsSecretReferenceSchema.optional(),
 		webhook_source: z.string().trim().min(1).max(100).optional(),
 		webhook_max_age_hours: z.number().int().min(1).max(8_760).default(168),
+		inbound: providerInboundSchema.optional(),
 	})
 	.strict()
 	.superRefine((profile, context) => {
@@ -0,0 +1,139 @@
+import { invokeGetSubscribersOperation } from "@listmonk-ops/operations";
+import type { SequenceExecutionContext } from "./sequence-engine";
+import {
+	createSequenceEnrollment,
+	scheduledSequenceEnrollmentStart,
+	type SequenceEnrollmentSchedule,
+} from "./sequences";
+
+export const SEQUENCE_BULK_ENROLLMENT_PAGE_SIZE = 100;
+export const DEFAULT_SEQUENCE_BULK_ENROLLMENT_LIMIT = 1_000;
+
+/**
+ * Subscribers come from exactly one source: the members of a Listmonk list
+ * who have not unsubscribed, or a raw Listmonk subscriber SQL query.
+ */
+export type SequenceBulkEnrollmentSource =
+	| Readonly<{ listId: number }>
+	| Readonly<{ query: string }>;
+
+export type SequenceBulkEnrollmentInput = Readonly<{
+	sequenceId: string;
+	source: SequenceBulkEnrollmentSource;
+	context?: Readonly<Record<string, unknown>> | undefined;
+	/** Clamped to `now`, so a late resume does not release a backlog at once. */
+	startAt?: Date | undefined;
+	ratePerMinute?: number | undefined;
+	afterSubscriberId?: number | undefined;
+	/** Subscribers to read in this call; the rest are left for a resume. */
+	limit?: number | undefined;
+	now: Date;
+}>;
+
+/**
+ * `scanned` counts subscribers read from Listmonk; `skipped` already had an
+ * active enrollment. `resume` is set while subscribers may remain and holds
+ * the cursor and the next free start time to pass to the following call.
+ */
+export type SequenceBulkEnrollmentResult = Readonly<{
+	scanned: number;
+	created: number;
+	skipped: number;
+	resume?:
+		| Readonly<{ afterSubscriberId: number; startAt: string }>
+		| undefined;
+}>;
+
+function sourcePredicate(
+	source: SequenceBulkEnrollmentSource,
+	afterSubscriberId: number,
+): string {
+	// The list and cursor IDs are schema-validated integers; the query is the
+	// operator's own Listmonk subscriber query and is kept in parentheses.
+	const after = `subscribers.id > ${afterSubscriberId}`;
+	if ("listId" in source) {
+		return `subscribers.id IN (SELECT subscriber_id FROM subscriber_lists WHERE list_id = ${source.listId} AND status <> 'unsubscribed') AND ${after}`;
+	}
+	return `(${source.query}) AND ${after}`;
+}
+
+/**
+ * Enroll a Listmonk audience into a sequence, paging by subscriber ID.
+ * Starts are spaced `60s / ratePerMinute` apart in creation order, and a
+ * call stops after `limit` subscribers so large audiences can be enrolled
+ * over several resumable calls.
+ */
+export async function enrollSequenceSubscribers(
+	context: Pick<SequenceExecutionContext, "client" | "repository">,
+	input: SequenceBulkEnrollmentInput,
+): Promise<SequenceBulkEnrollmentResult> {
+	const definition = await context.repository.getDefinition(input.sequenceId);
+	const limit = input.limit ?? DEFAULT_SEQUENCE_BULK_ENROLLMENT_LIMIT;
+	const schedule: SequenceEnrollmentSchedule = {
+		startAt: new Date(
+			Math.max(input.startAt?.getTime() ?? 0, input.now.getTime()),
+		),
+		intervalMs:
+			input.ratePerMinute === undefined
+				? 0
+				: Math.ceil(60_000 / input.ratePerMinute),
+	};
+	let afterSubscriberId = input.afterSubscriberId ?? 0;
+	let scanned = 0;
+	let created = 0;
+	let exhausted = false;
+	while (scanned < limit && !exhausted) {
+		const perPage = Math.min(
+			SEQUENCE_BULK_ENROLLMENT_PAGE_SIZE,
+			limit - scanned,
+		);
+		const page = await invokeGetSubscribersOperation(
+			{ client: context.client },
+			{
+				query: sourcePredicate(input.source, afterSubscriberId),
+				order: "ASC",
+				per_page: perPage,
+			},
+		);
+		exhausted = page.results.length < perPage;
+		const subscriberIds = page.results.flatMap((subscriber) =>
+			subscriber.id === undefined ? [] : [subscriber.id],
+		);
+		scanned += page.results.length;
+		if (subscriberIds.length === 0) {
+			break;
+		}
+		afterSubscriberId = Math.max(afterSubscriberId, ...subscriberIds);
+		const inserted = await context.repository.createEnrollments(
+			subscriberIds.map((subscriberId) =>
+				createSequenceEnrollment(
+					definition,
+					{
+						sequenceId: definition.id,
+						subscriberId,
+						context: input.context,
+					},
+					input.now,
+				),
+			),
+			{
+				...schedule,
+				startAt: new Date(
+					schedule.startAt.getTime() + created * schedule.intervalMs,
+				),
+			},
+		);
+		created += inserted.length;
+	}
+	return {
+		scanned,
+		created,
+		skipped: scanned - created,
+		resume: exhausted
+			? undefined
+			: {
+					afterSubscriberId,
+					startAt: scheduledSequenceEnrollmentStart(schedule, created),
+				},
+	};
+}
@@ -0,0 +1,410 @@
+import { isDeepStrictEqual } from "node:util";
+import { z } from "zod";
+
+export const SEQUENCE_CONDITION_OPERATORS = [
+	"equals",
+	"not_equals",
+	"exists",
+	"gt",
+	"lt",
+	"in",
+	"contains",
+	"matches",
+] as const;
+export const SEQUENCE_ENGAGEMENT_EVENTS = ["opened", "clicked"] as const;
+export const MAX_SEQUENCE_CONDITION_RULES = 20;
+export const MAX_SEQUENCE_CONDITION_IN_VALUES = 100;
+export const MAX_SEQUENCE_CONDITION_PATTERN_LENGTH = 200;
+export const MAX_SEQUENCE_ENGAGEMENT_RECORDS = 100;
+
+export type SequenceConditionOperator =
+	(typeof SEQUENCE_CONDITION_OPERATORS)[number];
+export type SequenceEngagementEvent =
+	(typeof SEQUENCE_ENGAGEMENT_EVENTS)[number];
+
+export const sequenceConditionPathSchema = z
+	.string()
+	.trim()
+	.min(1)
+	.max(200)
+	.regex(/^[A-Za-z0-9_-]+(?:\.[A-Za-z0-9_-]+)*$/);
+const stepIdSchema = z
+	.string()
+	.trim()
+	.min(1)
+	.max(80)
+	.regex(/^[A-Za-z0-9._:-]+$/);
+
+/**
+ * Describe why `value` cannot be compared with `operator`, or return
+ * undefined when the pair is valid. Shared by persisted steps and operation
+ * inputs so both reject the same comparisons.
+ */
+export function sequenceConditionValueIssue(
+	operator: SequenceConditionOperator,
+	value: unknown,
+): string | undefined {
+	switch (operator) {
+		case "gt":
+		case "lt":
+			return typeof value === "number" && Number.isFinite(value)
+				? undefined
+				: `${operator} conditions require a finite number value`;
+		case "in":
+			return Array.isArray(value) &&
+				value.length <= MAX_SEQUENCE_CONDITION_IN_VALUES
+				? undefined
+				: `in conditions require an array of at most ${MAX_SEQUENCE_CONDITION_IN_VALUES} values`;
+		case "matches": {
+			if (
+				typeof value !== "string" ||
+				value.length === 0 ||
+				value.length > MAX_SEQUENCE_CONDITION_PATTERN_LENGTH
+			) {
+				return `matches conditions require a pattern of 1-${MAX_SEQUENCE_CONDITION_PATTERN_LENGTH} characters`;
+			}
+			try {
+				new RegExp(value, "u");
+				return undefined;
+			} catch {
+				return "matches conditions require a valid regular expression";
+			}
+		}
+		case "contains":
+			return value === undefined
+				? "contains conditions require a value"
+				: undefined;
+		default:
+			return undefined;
+	}
+}
+
+export function refineSequenceConditionComparison(
+	predicate: { operator: SequenceConditionOperator; value?: unknown },
+	context: z.core.$RefinementCtx,
+): void {
+	const issue = sequenceConditionValueIssue(
+		predicate.operator,
+		predicate.value,
+	);
+	if (issue) {
+		context.addIssue({ code: "custom", path: ["value"], message: issue });
+	}
+}
+
+/**
+ * Condition steps take either `when` or the original context-only
+ * `path`/`operator`/`value` form, never both.
+ */
+export function refineSequenceConditionStep(
+	step: {
+		path?: string | undefined;
+		operator?: SequenceConditionOperator | undefined;
+		value?: unknown;
+		when?: unknown;
+	},
+	context: z.core.$RefinementCtx,
+): void {
+	if (step.when !== undefined) {
+		if (
+			step.path !== undefined ||
+			step.operator !== undefined ||
+			step.value !== undefined
+		) {
+			context.addIssue({
+				code: "custom",
+				path: ["when"],
+				message: "when cannot be combined with path, operator, or value",
+			});
+		}
+		return;
+	}
+	if (step.path === undefined || step.operator === undefined) {
+		context.addIssue({
+			code: "custom",
+			path: ["when"],
+			message: "Condition steps require when, or path and operator",
+		});
+		return;
+	}
+	refineSequenceConditionComparison(
+		{ operator: step.operator, value: step.value },
+		context,
+	);
+}
+
+const comparisonFields = {
+	path: sequenceConditionPathSchema,
+	operator: z.enum(SEQUENCE_CONDITION_OPERATORS),
+	value: z.unknown().optional(),
+};
+
+export const sequenceConditionPredicateSchema = z.discriminatedUnion(
+	"source",
+	[
+		z
+			.object({ source: z.literal("context"), ...comparisonFields })
+			.superRefine(refineSequenceConditionComparison),
+		z
+			.object({ source: z.literal("subscriber"), ...comparisonFields })
+			.superRefine(refineSequenceConditionComparison),
+		z.object({
+			source: z.literal("list"),
+			listId: z.number().int().positive(),
+			operator: z.enum(["member", "not_member"]),
+		}),
+		z.object({
+			source: z.literal("engagement"),
+			stepId: stepIdSchema,
+			event: z.enum(SEQUENCE_ENGAGEMENT_EVENTS),
+		}),
+	],
+);
+
+const predicateListSchema = z
+	.array(sequenceConditionPredicateSchema)
+	.min(1)
+	.max(MAX_SEQUENCE_CONDITION_RULES);
+
+/**
+ * A predicate or one `all`/`any` group whose members may be predicates or a
+ * nested group of the other kind. Two levels express both AND-of-OR and
+ * OR-of-AND rules while keeping the contract non-recursive.
+ */
+export const sequenceConditionSchema = z.union([
+	sequenceConditionPredicateSchema,
+	z.object({
+		all: z
+			.array(
+				z.union([
+					sequenceConditionPredicateSchema,
+					z.object({ any: predicateListSchema }),
+				]),
+			)
+			.min(1)
+			.max(MAX_SEQUENCE_CONDITION_RULES),
+	}),
+	z.object({
+		any: z
+			.array(
+				z.union([
+					sequenceConditionPredicateSchema,
+					z.object({ all: predicateListSchema }),
+				]),
+			)
+			.min(1)
+			.max(MAX_SEQUENCE_CONDITION_RULES),
+	}),
+]);
+
+export type SequenceConditionPredicate = z.output<
+	typeof sequenceConditionPredicateSchema
+>;
+export type SequenceCondition = z.output<typeof sequenceConditionSchema>;
+
+type SequenceConditionGroup = Readonly<
+	| { all: readonly (SequenceConditionPredicate | SequenceConditionGroup)[] }
+	| { any: readonly (SequenceConditionPredicate | SequenceConditionGroup)[] }
+>;
+
+/** Every predicate in a condition, in evaluation order. */
+export function sequenceConditionPredicates(
+	condition: SequenceCondition | SequenceConditionGroup,
+): readonly SequenceConditionPredicate[] {
+	if ("all" in condition) {
+		return condition.all.flatMap(sequenceConditionPredicates);
+	}
+	if ("any" in condition) {
+		return condition.any.flatMap(sequenceConditionPredicates);
+	}
+	return [condition];
+}
+
+export type SequenceConditionSubscriber = Readonly<{
+	email?: string;
+	name?: string;
+	status?: string;
+	attribs?: Record<string, unknown>;
+	lists?: ReadonlyArray<{ id?: number; subscription_status?: string }>;
+}>;
+
+/**
+ * Lazily loaded facts a condition can read. Loaders are called at most once
+ * per evaluation and only when a predicate needs them.
+ */
+export type SequenceConditionSources = Readonly<{
+	context: Readonly<Record<string, unknown>>;
+	subscriber: () => Promise<SequenceConditionSubscriber>;
+	engagement: () => Promise<
+		ReadonlyArray<{ stepId: string; event: SequenceEngagementEvent }>
+	>;
+}>;
+
+export function resolveSequenceConditionPath(
+	value: Readonly<Record<string, unknown>>,
+	path: string,
+): unknown {
+	let current: unknown = value;
+	for (const segment of path.split(".")) {
+		if (
+			typeof current !== "object" ||
+			current === null ||
+			Array.isArray(current) ||
+			!Object.hasOwn(current, segment)
+		) {
+			return undefined;
+		}
+		current = (current as Record<string, unknown>)[segment];
+	}
+	return current;
+}
+
+function sameValue(left: unknown, right: unknown): boolean {
+	return left === right || isDeepStrictEqual(left, right);
+}
+
+export function compareSequenceConditionValue(
+	operator: SequenceConditionOperator,
+	actual: unknown,
+	expected: unknown,
+): boolean {
+	switch (operator) {
+		case "exists":
+			return actual !== undefined;
+		case "equals":
+			return sameValue(actual, expected);
+		case "not_equals":
+			return !sameValue(actual, expected);
+		case "gt":
+			return (
+				typeof actual === "number" &&
+				typeof expected === "number" &&
+				actual > expected
+			);
+		case "lt":
+			return (
+				typeof actual === "number" &&
+				typeof expected === "number" &&
+				actual < expected
+			);
+		case "in":
+			return (
+				Array.isArray(expected) &&
+				expected.some((candidate) => sameValue(actual, candidate))
+			);
+		case "contains":
+			if (typeof actual === "string") {
+				return typeof expected === "string" && actual.includes(expected);
+			}
+			return (
+				Array.isArray(actual) &&
+				actual.some((candidate) => sameValue(candidate, expected))
+			);
+		case "matches":
+			return (
+				typeof actual === "string" &&
+				typeof expected === "string" &&
+				new RegExp(expected, "u").test(actual)
+			);
+		default:
+			operator satisfies never;
+			return false;
+	}
+}
+
+/** Wrap a loader so it runs at most once; later calls share its promise. */
+export function memoize<T>(load: () => Promise<T>): () => Promise<T> {
+	let pending: Promise<T> | undefined;
+	return () => {
+		pending ??= load();
+		return pending;
+	};
+}
+
+async function evaluatePredicate(
+	predicate: SequenceConditionPredicate,
+	sources: SequenceConditionSources,
+): Promise<boolean> {
+	switch (predicate.source) {
+		case "context":
+			return compareSequenceConditionValue(
+				predicate.operator,
+				resolveSequenceConditionPath(sources.context, predicate.path),
+				predicate.value,
+			);
+		case "subscriber": {
+			const subscriber = await sources.subscriber();
+			return compareSequenceConditionValue(
+				predicate.operator,
+				resolveSequenceConditionPath(
+					{
+						email: subscriber.email,
+						name: subscriber.name,
+						status: subscriber.status,
+						attribs: subscriber.attribs ?? {},
+					},
+					predicate.path,
+				),
+				predicate.value,
+			);
+		}
+		case "list": {
+			const subscriber = await sources.subscriber();
+			const member = (subscriber.lists ?? []).some(
+				(list) =>
+					list.id === predicate.listId &&
+					list.subscription_status?.toLowerCase() !== "unsubscribed",
+			);
+			return predicate.operator === "member" ? member : !member;
+		}
+		case "engagement": {
+			// A click implies the message was opened even when the open pixel
+			// was blocked, so clicks also satisfy `opened`.
+			const events = await sources.engagement();
+			return events.some(
+				(engagement) =>
+					engagement.stepId === predicate.stepId &&
+					(engagement.event === predicate.event ||
+						(predicate.event === "opened" && engagement.event === "clicked")),
+			);
+		}
+		default:
+			predicate satisfies never;
+			return false;
+	}
+}
+
+async function evaluateNode(
+	node: SequenceCondition | SequenceConditionGroup,
+	sources: SequenceConditionSources,
+): Promise<boolean> {
+	if ("all" in node) {
+		for (const child of node.all) {
+			if (!(await evaluateNode(child, sources))) return false;
+		}
+		return true;
+	}
+	if ("any" in node) {
+		for (const child of node.any) {
+			if (await evaluateNode(child, sources)) return true;
+		}
+		return false;
+	}
+	return evaluatePredicate(node, sources);
+}
+
+/**
+ * Evaluate a condition with short-circuiting `all`/`any` groups. Subscriber
+ * and engagement loaders run at most once, and only when a predicate that
+ * is actually reached needs them.
+ */
+export function evaluateSequenceCondition(
+	condition: SequenceCondition,
+	sources: SequenceConditionSources,
+): Promise<boolean> {
+	return evaluateNode(condition, {
+		context: sources.context,
+		subscriber: memoize(sources.subscriber),
+		engagement: memoize(sources.engagement),
+	});
+}
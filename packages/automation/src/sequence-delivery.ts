@@ -0,0 +1,209 @@
+import { z } from "zod";
+import {
+	resolveSequenceConditionPath,
+	sequenceConditionPathSchema,
+} from "./sequence-conditions";
+
+export const SEQUENCE_WEEKDAYS = [
+	"mon",
+	"tue",
+	"wed",
+	"thu",
+	"fri",
+	"sat",
+	"sun",
+] as const;
+/** Sends counted by a daily cap are those reserved in the preceding 24 hours. */
+export const SEQUENCE_FREQUENCY_WINDOW_MS = 24 * 60 * 60 * 1_000;
+export const MAX_SEQUENCE_DAILY_CAP = 100;
+
+export type SequenceWeekday = (typeof SEQUENCE_WEEKDAYS)[number];
+
+export function isSequenceTimezone(value: string): boolean {
+	try {
+		new Intl.DateTimeFormat("en-US", { timeZone: value });
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+export const sequenceTimezoneSchema = z
+	.string()
+	.trim()
+	.min(1)
+	.max(100)
+	.refine(isSequenceTimezone, "timezone must be an IANA time zone");
+export const sequenceTimeOfDaySchema = z
+	.string()
+	.regex(/^(?:[01][0-9]|2[0-3]):[0-5][0-9]$/, "Times must use HH:MM");
+
+function minutesOfDay(value: string): number {
+	const [hours = "0", minutes = "0"] = value.split(":");
+	return Number(hours) * 60 + Number(minutes);
+}
+
+/** Windows are same-day ranges; overnight quiet hours are the days' gaps. */
+export function refineSequenceSendWindow(
+	window: { start: string; end: string },
+	context: z.core.$RefinementCtx,
+): void {
+	if (minutesOfDay(window.start) >= minutesOfDay(window.end)) {
+		context.addIssue({
+			code: "custom",
+			path: ["end"],
+			message: "Send windows must end after they start on the same day",
+		});
+	}
+}
+
+/**
+ * Local days and hours in which a send step may dispatch. The zone comes
+ * from `timezoneAttribute` in the subscriber's attributes when it names a
+ * valid IANA zone, and from `timezone` otherwise.
+ */
+export const sequenceSendWindowSchema = z
+	.object({
+		days: z.array(z.enum(SEQUENCE_WEEKDAYS)).min(1).max(7).optional(),
+		start: sequenceTimeOfDaySchema,
+		end: sequenceTimeOfDaySchema,
+		timezone: sequenceTimezoneSchema.default("UTC"),
+		timezoneAttribute: sequenceConditionPathSchema.optional(),
+	})
+	.superRefine(refineSequenceSendWindow);
+
+/**
+ * Sequence-wide delivery rules. They live beside the triggers rather than in
+ * a revision, so a change applies to enrollments already in flight.
+ */
+export const sequenceDeliverySchema = z.object({
+	window: sequenceSendWindowSchema.optional(),
+	dailyCap: z.number().int().positive().max(MAX_SEQUENCE_DAILY_CAP).optional(),
+});
+
+export type SequenceSendWindow = z.output<typeof sequenceSendWindowSchema>;
+export type SequenceDelivery = z.output<typeof sequenceDeliverySchema>;
+
+export function resolveSequenceSendTimezone(
+	window: SequenceSendWindow,
+	attribs: Readonly<Record<string, unknown>> | undefined,
+): string {
+	if (window.timezoneAttribute !== undefined) {
+		const value = resolveSequenceConditionPath(
+			attribs ?? {},
+			window.timezoneAttribute,
+		);
+		if (typeof value === "string" && isSequenceTimezone(value.trim())) {
+			return value.trim();
+		}
+	}
+	return window.timezone;
+}
+
+function zonedParts(instant: Date, timeZone: string) {
+	const parts = new Intl.DateTimeFormat("en-US", {
+		timeZone,
+		hourCycle: "h23",
+		year: "numeric",
+		month: "numeric",
+		day: "numeric",
+		hour: "numeric",
+		minute: "numeric",
+		second: "numeric",
+	}).formatToParts(instant);
+	const part = (type: Intl.DateTimeFormatPartTypes) =>
+		Number(parts.find((candidate) => candidate.type === type)?.value ?? 0);
+	return {
+		year: part("year"),
+		month: part("month"),
+		day: part("day"),
+		hour: part("hour"),
+		minute: part("minute"),
+		second: part("second"),
+	};
+}
+
+function timeZoneOffsetMs(instant: number, timeZone: string): number {
+	const wholeSecond = Math.floor(instant / 1_000) * 1_000;
+	const local = zonedParts(new Date(wholeSecond), timeZone);
+	return (
+		Date.UTC(
+			local.year,
+			local.month - 1,
+			local.day,
+			local.hour,
+			local.minute,
+			local.second,
+		) - wholeSecond
+	);
+}
+
+/**
+ * Convert a local wall-clock time to an instant. A time skipped by a DST
+ * gap resolves forward to the first valid instant, when the clocks jump.
+ */
+function zonedTimeToInstant(
+	date: Date,
+	minutes: number,
+	timeZone: string,
+): Date {
+	const wall = Date.UTC(
+		date.getUTCFullYear(),
+		date.getUTCMonth(),
+		date.getUTCDate(),
+		0,
+		minutes,
+	);
+	const offsetAt = (instant: number) => timeZoneOffsetMs(instant, timeZone);
+	const guess = wall - offsetAt(wall);
+	const instant = wall - offsetAt(guess);
+	if (instant + offsetAt(instant) === wall) {
+		return new Date(instant);
+	}
+	// The two candidates straddle the transition; find its minute.
+	let before = Math.min(guess, instant);
+	let after = Math.max(guess, instant);
+	while (after - before > 60_000) {
+		const middle = before + Math.floor((after - before) / 120_000) * 60_000;
+		if (offsetAt(middle) === offsetAt(after)) {
+			after = middle;
+		} else {
+			before = middle;
+		}
+	}
+	return new Date(after);
+}
+
+/**
+ * The earliest instant at or after `from` that falls inside `window` in
+ * `timeZone`. Returns `from` itself when it is already inside the window.
+ */
+export function nextSequenceSendTime(
+	window: SequenceSendWindow,
+	timeZone: string,
+	from: Date,
+): Date {
+	const start = minutesOfDay(window.start);
+	const end = minutesOfDay(window.end);
+	const days = new Set<SequenceWeekday>(window.days ?? SEQUENCE_WEEKDAYS);
+	const local = zonedParts(from, timeZone);
+	const localMinutes = local.hour * 60 + local.minute;
+	for (let offset = 0; offset <= 7; offset += 1) {
+		const date = new Date(
+			Date.UTC(local.year, local.month - 1, local.day + offset),
+		);
+		const weekday = SEQUENCE_WEEKDAYS[(date.getUTCDay() + 6) % 7];
+		if (weekday === undefined || !days.has(weekday)) {
+			continue;
+		}
+		if (offset === 0 && localMinutes >= end) {
+			continue;
+		}
+		if (offset === 0 && localMinutes >= start) {
+			return from;
+		}
+		const opensAt = zonedTimeToInstant(date, start, timeZone);
+		return opensAt.getTime() > from.getTime() ? opensAt : from;
+	}
+	throw new Error("Sequence send window has no allowed day");
+}
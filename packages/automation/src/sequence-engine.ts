@@ -1,8 +1,11 @@
 import { randomUUID } from "node:crypto";
-import { isDeepStrictEqual } from "node:util";
 import type { ListmonkClient } from "@listmonk-ops/openapi";
 import {
 	getSubscriber,
+	invokeAddSubscribersToListsOperation,
+	invokeBlocklistSubscribersOperation,
+	invokeRemoveSubscribersFromListsOperation,
+	invokeUpdateSubscriberOperation,
 	isDefinitivePreDispatchError,
 	isResourceMissingError,
 	sendTransactionalMessage,
@@ -10,7 +13,33 @@ import {
 	TransactionalReconcileError,
 	type TransactionalIdempotencyStore,
 } from "@listmonk-ops/operations";
-import { DEFAULT_SEQUENCE_LEASE_MS } from "./sequences";
+import { deterministicUuid } from "./inbound-delivery-events";
+import { getOutboundWebhookStoreOptionsFromEnvironment } from "./outbound-webhook-runtime";
+import {
+	enqueueOutboundWebhookEvent,
+	type OutboundWebhookStoreOptions,
+} from "./outbound-webhooks";
+import {
+	evaluateSequenceCondition,
+	type SequenceConditionSubscriber,
+} from "./sequence-conditions";
+import {
+	nextSequenceSendTime,
+	resolveSequenceSendTimezone,
+} from "./sequence-delivery";
+import {
+	findReachedSequenceGoal,
+	sequenceGoalStatus,
+} from "./sequence-goals";
+import { assignSequenceSplitBranch } from "./sequence-splits";
+import { evaluateSequenceTriggers } from "./sequence-triggers";
+import {
+	createSequenceEnrollment,
+	DEFAULT_SEQUENCE_LEASE_MS,
+	SequenceConflictError,
+	SequenceNotFoundError,
+	sequenceStepCondition,
+} from "./sequences";
 import type {
 	ClaimedSequenceEnrollment,
 	SequenceEnrollment,
@@ -27,6 +56,8 @@ export interface SequenceExecutionContext {
 	client: Pick<ListmonkClient, "subscriber" | "transactional">;
 	idempotencyStore: TransactionalIdempotencyStore;
 	hashPayload: (serialized: string) => string;
+	/** Outbox for `webhook_event` steps; defaults to the environment store. */
+	webhookStore?: OutboundWebhookStoreOptions;
 	target?: {
 		baseUrl?: string;
 		username?: string;
@@ -79,37 +110,6 @@ function nextStep(
 	return revision.steps[index + 1];
 }
 
-function resolvePath(
-	value: Readonly<Record<string, unknown>>,
-	path: string,
-): unknown {
-	let current: unknown = value;
-	for (const segment of path.split(".")) {
-		if (
-			typeof current !== "object" ||
-			current === null ||
-			Array.isArray(current) ||
-			!Object.hasOwn(current, segment)
-		) {
-			return undefined;
-		}
-		current = (current as Record<string, unknown>)[segment];
-	}
-	return current;
-}
-
-function evaluateCondition(
-	step: Extract<SequenceStep, { type: "condition" }>,
-	context: Readonly<Record<string, unknown>>,
-): boolean {
-	const actual = resolvePath(context, step.path);
-	if (step.operator === "exists") {
-		return actual !== undefined;
-	}
-	const equal = actual === step.value || isDeepStrictEqual(actual, step.value);
-	return step.operator === "equals" ? equal : !equal;
-}
-
 function withoutLease(
 	enrollment: SequenceEnrollment,
 	changes: Partial<SequenceEnrollment>,
@@ -182,7 +182,15 @@ function subscriberCannotReceive(subscriber: {
 	return undefined;
 }
 
-function deterministicSendKey(enrollment: SequenceEnrollment): string {
+function withSentStep(
+	enrollment: SequenceEnrollment,
+	stepId: string,
+): readonly string[] {
+	const sent = enrollment.sentStepIds ?? [];
+	return sent.includes(stepId) ? sent : [...sent, stepId];
+}
+
+function deterministicStepKey(enrollment: SequenceEnrollment): string {
 	return `sequence:${enrollment.id}:revision:${enrollment.revision}:step:${enrollment.currentStepId}`;
 }
 
@@ -199,7 +207,7 @@ function retryEnrollment(
 			{
 				status: "failed",
 				retryCount,
-				lastError: `Sequence delivery failed after ${retryCount} retryable attempts: ${truncateError(error)}`,
+				lastError: `Sequence step failed after ${retryCount} retryable attempts: ${truncateError(error)}`,
 			},
 			now,
 		);
@@ -226,6 +234,45 @@ function retryEnrollment(
 	);
 }
 
+/**
+ * When a send must wait for its window or for the sequence's daily cap, or
+ * undefined to send now. The step's window replaces the sequence window, and
+ * the cap reservation uses the send's own key so a replay counts once.
+ */
+async function deferredSendTime(
+	context: SequenceExecutionContext,
+	claimed: ClaimedSequenceEnrollment,
+	step: Extract<SequenceStep, { type: "send" }>,
+	attribs: Readonly<Record<string, unknown>> | undefined,
+	now: Date,
+): Promise<Date | undefined> {
+	const delivery = claimed.definition.delivery;
+	const window = step.window ?? delivery?.window;
+	const allowedAt = (from: Date) =>
+		window
+			? nextSequenceSendTime(
+					window,
+					resolveSequenceSendTimezone(window, attribs),
+					from,
+				)
+			: from;
+	const opensAt = allowedAt(now);
+	if (opensAt.getTime() > now.getTime()) {
+		return opensAt;
+	}
+	const reservation = await context.repository.reserveSend(
+		{
+			key: deterministicStepKey(claimed.enrollment),
+			subscriberId: claimed.enrollment.subscriberId,
+			reservedAt: now.toISOString(),
+		},
+		delivery?.dailyCap,
+	);
+	return reservation.reserved
+		? undefined
+		: allowedAt(new Date(reservation.retryAt));
+}
+
 async function executeSendStep(
 	context: SequenceExecutionContext,
 	claimed: ClaimedSequenceEnrollment,
@@ -269,6 +316,30 @@ async function executeSendStep(
 				now,
 			);
 		}
+		let deferUntil: Date | undefined;
+		try {
+			deferUntil = await deferredSendTime(
+				context,
+				claimed,
+				step,
+				(subscriber as { attribs?: Record<string, unknown> }).attribs,
+				now,
+			);
+		} catch (error) {
+			return retryEnrollment(
+				claimed.enrollment,
+				now,
+				error,
+				context.retryJitter?.() ?? Math.random(),
+			);
+		}
+		if (deferUntil) {
+			return withoutLease(
+				claimed.enrollment,
+				{ status: "waiting", nextRunAt: deferUntil.toISOString() },
+				now,
+			);
+		}
 		const result = await sendTransactionalMessage(
 			{
 				client: context.client,
@@ -292,7 +363,7 @@ async function executeSendStep(
 				messenger: step.messenger,
 				subject: step.subject,
 				altbody: step.altBody,
-				idempotency_key: deterministicSendKey(claimed.enrollment),
+				idempotency_key: deterministicStepKey(claimed.enrollment),
 			},
 		);
 		if (!result.sent) {
@@ -306,7 +377,9 @@ async function executeSendStep(
 				now,
 			);
 		}
-		return transitionToNext(claimed, now);
+		return transitionToNext(claimed, now, {
+			sentStepIds: withSentStep(claimed.enrollment, step.id),
+		});
 	} catch (error) {
 		if (error instanceof TransactionalReconcileError) {
 			if (error.status === "pending") {
@@ -358,6 +431,350 @@ async function executeSendStep(
 	}
 }
 
+/**
+ * Branch on a condition. Subscriber data is read from Listmonk and
+ * engagement from the repository only when a reached predicate needs them;
+ * a failed read is retried like a pre-dispatch send failure.
+ */
+async function executeConditionStep(
+	context: SequenceExecutionContext,
+	claimed: ClaimedSequenceEnrollment,
+	step: Extract<SequenceStep, { type: "condition" }>,
+	now: Date,
+): Promise<Omit<SequenceEnrollment, "leaseToken" | "leaseExpiresAt">> {
+	let matched: boolean;
+	try {
+		matched = await evaluateSequenceCondition(sequenceStepCondition(step), {
+			context: claimed.enrollment.context,
+			subscriber: async () =>
+				(await getSubscriber(
+					{ client: context.client },
+					{ id: claimed.enrollment.subscriberId },
+				)) as SequenceConditionSubscriber,
+			engagement: () =>
+				context.repository.listEngagement(claimed.enrollment.id),
+		});
+	} catch (error) {
+		if (isResourceMissingError(error)) {
+			return withoutLease(
+				claimed.enrollment,
+				{
+					status: "cancelled",
+					retryCount: 0,
+					lastError:
+						"Sequence condition cancelled because the subscriber no longer exists",
+				},
+				now,
+			);
+		}
+		return retryEnrollment(
+			claimed.enrollment,
+			now,
+			error,
+			context.retryJitter?.() ?? Math.random(),
+		);
+	}
+	return withoutLease(
+		claimed.enrollment,
+		{
+			status: "pending",
+			retryCount: 0,
+			currentStepId: matched ? step.onTrue : step.onFalse,
+			nextRunAt: now.toISOString(),
+			lastError: undefined,
+		},
+		now,
+	);
+}
+
+/**
+ * Route to the enrollment's split branch. The branch is recorded on the
+ * enrollment so reports and later revisions keep the original assignment.
+ */
+function executeSplitStep(
+	claimed: ClaimedSequenceEnrollment,
+	step: Extract<SequenceStep, { type: "split" }>,
+	now: Date,
+): Omit<SequenceEnrollment, "leaseToken" | "leaseExpiresAt"> {
+	const recorded = claimed.enrollment.branches?.[step.id];
+	const branch =
+		step.branches.find((candidate) => candidate.id === recorded) ??
+		assignSequenceSplitBranch(step, claimed.enrollment);
+	return withoutLease(
+		claimed.enrollment,
+		{
+			status: "pending",
+			retryCount: 0,
+			currentStepId: branch.next,
+			nextRunAt: now.toISOString(),
+			lastError: undefined,
+			branches: { ...claimed.enrollment.branches, [step.id]: branch.id },
+		},
+		now,
+	);
+}
+
+/**
+ * Apply RFC 7386 JSON merge patch semantics: nested objects merge and `null`
+ * removes a key, so re-applying the same patch is a no-op.
+ */
+function mergeAttribs(
+	target: Readonly<Record<string, unknown>>,
+	patch: Readonly<Record<string, unknown>>,
+): Record<string, unknown> {
+	const merged: Record<string, unknown> = { ...target };
+	for (const [key, value] of Object.entries(patch)) {
+		if (value === null) {
+			delete merged[key];
+			continue;
+		}
+		const current = merged[key];
+		merged[key] =
+			typeof value === "object" &&
+			!Array.isArray(value) &&
+			typeof current === "object" &&
+			current !== null &&
+			!Array.isArray(current)
+				? mergeAttribs(
+						current as Record<string, unknown>,
+						value as Record<string, unknown>,
+					)
+				: value;
+	}
+	return merged;
+}
+
+function requireBulkSuccess(result: { failed: number; errors: string[] }) {
+	if (result.failed > 0) {
+		throw new Error(result.errors[0] ?? "Listmonk rejected the subscriber action");
+	}
+}
+
+type SequenceActionStep = Extract<
+	SequenceStep,
+	{
+		type:
+			| "list_add"
+			| "list_remove"
+			| "attribs_patch"
+			| "blocklist"
+			| "webhook_event"
+			| "enroll";
+	}
+>;
+
+async function applyActionStep(
+	context: SequenceExecutionContext,
+	enrollment: SequenceEnrollment,
+	step: SequenceActionStep,
+	now: Date,
+): Promise<void> {
+	const subscriberIds = [enrollment.subscriberId];
+	switch (step.type) {
+		case "list_add":
+			requireBulkSuccess(
+				await invokeAddSubscribersToListsOperation(
+					{ client: context.client },
+					{ subscriber_ids: subscriberIds, list_ids: step.listIds },
+				),
+			);
+			return;
+		case "list_remove":
+			requireBulkSuccess(
+				await invokeRemoveSubscribersFromListsOperation(
+					{ client: context.client },
+					{ subscriber_ids: subscriberIds, list_ids: step.listIds },
+				),
+			);
+			return;
+		case "blocklist":
+			requireBulkSuccess(
+				await invokeBlocklistSubscribersOperation(
+					{ client: context.client },
+					{ subscriber_ids: subscriberIds },
+				),
+			);
+			return;
+		case "attribs_patch": {
+			const subscriber = await getSubscriber(
+				{ client: context.client },
+				{ id: enrollment.subscriberId },
+			);
+			// Listmonk replaces memberships on update, so every current list is
+			// resubmitted; existing subscription statuses are preserved.
+			await invokeUpdateSubscriberOperation(
+				{ client: context.client },
+				{
+					id: enrollment.subscriberId,
+					email: subscriber.email,
+					name: subscriber.name,
+					status: subscriber.status,
+					lists: (subscriber.lists ?? []).flatMap((list) =>
+						typeof list["id"] === "number" ? [list["id"]] : [],
+					),
+					attribs: mergeAttribs(subscriber.attribs ?? {}, step.attribs),
+				},
+			);
+			return;
+		}
+		case "webhook_event":
+			await enqueueOutboundWebhookEvent(
+				{
+					id: deterministicUuid(deterministicStepKey(enrollment)),
+					type: "sequence.step-event",
+					occurredAt: now.toISOString(),
+					source: "sequence",
+					correlationId: enrollment.id,
+					subject: { kind: "sequence", key: enrollment.sequenceId },
+					data: {
+						name: step.name,
+						sequence_id: enrollment.sequenceId,
+						revision: enrollment.revision,
+						enrollment_id: enrollment.id,
+						step_id: step.id,
+						subscriber_id: enrollment.subscriberId,
+						data: step.data ?? {},
+					},
+				},
+				context.webhookStore ?? getOutboundWebhookStoreOptionsFromEnvironment(),
+			);
+			return;
+		case "enroll": {
+			const target = await context.repository.getDefinition(step.sequenceId);
+			try {
+				await context.repository.createEnrollment(
+					createSequenceEnrollment(
+						target,
+						{
+							id: deterministicUuid(deterministicStepKey(enrollment)),
+							sequenceId: target.id,
+							subscriberId: enrollment.subscriberId,
+							context: enrollment.context,
+						},
+						now,
+					),
+				);
+			} catch (error) {
+				// A replay of the deterministic enrollment ID, or an active
+				// enrollment from elsewhere, already satisfies the step.
+				if (
+					!(error instanceof SequenceConflictError) ||
+					target.status !== "active"
+				) {
+					throw error;
+				}
+			}
+			return;
+		}
+		default:
+			step satisfies never;
+	}
+}
+
+/**
+ * Run a side-effect step. Each action is keyed to the enrollment step so a
+ * worker that crashes after applying it but before committing the claim can
+ * replay it safely: Listmonk list, blocklist, and merge-patch writes converge
+ * to the same state, while webhook events and enrollments reuse deterministic
+ * IDs that their stores de-duplicate.
+ */
+async function executeActionStep(
+	context: SequenceExecutionContext,
+	claimed: ClaimedSequenceEnrollment,
+	step: SequenceActionStep,
+	now: Date,
+): Promise<Omit<SequenceEnrollment, "leaseToken" | "leaseExpiresAt">> {
+	try {
+		await applyActionStep(context, claimed.enrollment, step, now);
+	} catch (error) {
+		if (error instanceof SequenceNotFoundError) {
+			return withoutLease(
+				claimed.enrollment,
+				{ status: "failed", retryCount: 0, lastError: truncateError(error) },
+				now,
+			);
+		}
+		if (isResourceMissingError(error)) {
+			return withoutLease(
+				claimed.enrollment,
+				{
+					status: "cancelled",
+					retryCount: 0,
+					lastError:
+						"Sequence action cancelled because the subscriber no longer exists",
+				},
+				now,
+			);
+		}
+		return retryEnrollment(
+			claimed.enrollment,
+			now,
+			error,
+			context.retryJitter?.() ?? Math.random(),
+		);
+	}
+	return transitionToNext(claimed, now);
+}
+
+/**
+ * End the enrollment when the subscriber reached a goal or exit criterion,
+ * or return undefined to run the current step. A failed subscriber read is
+ * retried like a pre-dispatch send failure.
+ */
+async function checkSequenceGoals(
+	context: SequenceExecutionContext,
+	claimed: ClaimedSequenceEnrollment,
+	now: Date,
+): Promise<
+	Omit<SequenceEnrollment, "leaseToken" | "leaseExpiresAt"> | undefined
+> {
+	const goals = claimed.definition.goals ?? [];
+	if (goals.length === 0) {
+		return undefined;
+	}
+	try {
+		const goal = await findReachedSequenceGoal(goals, {
+			subscriber: async () =>
+				(await getSubscriber(
+					{ client: context.client },
+					{ id: claimed.enrollment.subscriberId },
+				)) as SequenceConditionSubscriber,
+			events: () => context.repository.listGoalEvents(claimed.enrollment.id),
+		});
+		return goal
+			? withoutLease(
+					claimed.enrollment,
+					{
+						status: sequenceGoalStatus(goal),
+						retryCount: 0,
+						goalId: goal.id,
+						lastError: undefined,
+					},
+					now,
+				)
+			: undefined;
+	} catch (error) {
+		if (isResourceMissingError(error)) {
+			return withoutLease(
+				claimed.enrollment,
+				{
+					status: "cancelled",
+					retryCount: 0,
+					lastError:
+						"Sequence goal check cancelled because the subscriber no longer exists",
+				},
+				now,
+			);
+		}
+		return retryEnrollment(
+			claimed.enrollment,
+			now,
+			error,
+			context.retryJitter?.() ?? Math.random(),
+		);
+	}
+}
+
 async function executeClaimedEnrollment(
 	context: SequenceExecutionContext,
 	claimed: ClaimedSequenceEnrollment,
@@ -380,6 +797,10 @@ async function executeClaimedEnrollment(
 			),
 		);
 	}
+	const ended = await checkSequenceGoals(context, claimed, now);
+	if (ended) {
+		return context.repository.completeClaim(claimed.enrollment, ended);
+	}
 
 	let next: Omit<SequenceEnrollment, "leaseToken" | "leaseExpiresAt">;
 	switch (step.type) {
@@ -435,23 +856,20 @@ async function executeClaimedEnrollment(
 					);
 			break;
 		}
-		case "condition": {
-			const targetId = evaluateCondition(step, claimed.enrollment.context)
-				? step.onTrue
-				: step.onFalse;
-			next = withoutLease(
-				claimed.enrollment,
-				{
-					status: "pending",
-					retryCount: 0,
-					currentStepId: targetId,
-					nextRunAt: now.toISOString(),
-					lastError: undefined,
-				},
-				now,
-			);
+		case "condition":
+			next = await executeConditionStep(context, claimed, step, now);
+			break;
+		case "split":
+			next = executeSplitStep(claimed, step, now);
+			break;
+		case "list_add":
+		case "list_remove":
+		case "attribs_patch":
+		case "blocklist":
+		case "webhook_event":
+		case "enroll":
+			next = await executeActionStep(context, claimed, step, now);
 			break;
-		}
 		case "stop":
 			next = withoutLease(
 				claimed.enrollment,
@@ -474,6 +892,8 @@ function countOutcome(
 		failed: number;
 		ambiguous: number;
 		cancelled: number;
+		goalReached: number;
+		exited: number;
 	},
 	status: SequenceEnrollmentStatus,
 ): void {
@@ -487,6 +907,10 @@ function countOutcome(
 		summary.ambiguous += 1;
 	} else if (status === "cancelled") {
 		summary.cancelled += 1;
+	} else if (status === "goal_reached") {
+		summary.goalReached += 1;
+	} else if (status === "exited") {
+		summary.exited += 1;
 	} else {
 		summary.advanced += 1;
 	}
@@ -497,10 +921,19 @@ export async function runSequenceTick(
 	options: RunSequenceTickOptions = {},
 ): Promise<SequenceTickSummary> {
 	const now = options.now ?? context.now?.() ?? new Date();
+	const limit = options.limit ?? 25;
+	const leaseMs = options.leaseMs ?? DEFAULT_SEQUENCE_LEASE_MS;
+	// Triggers enroll before due work is claimed so a new enrollment whose
+	// first step is immediately due starts in the same tick.
+	const triggers = await evaluateSequenceTriggers(context, {
+		now,
+		limit,
+		leaseMs,
+	});
 	const claimed = await context.repository.claimDue({
-		limit: options.limit ?? 25,
+		limit,
 		now,
-		leaseMs: options.leaseMs ?? DEFAULT_SEQUENCE_LEASE_MS,
+		leaseMs,
 	});
 	const counts = {
 		advanced: 0,
@@ -509,6 +942,8 @@ export async function runSequenceTick(
 		failed: 0,
 		ambiguous: 0,
 		cancelled: 0,
+		goalReached: 0,
+		exited: 0,
 	};
 	const results = await Promise.allSettled(
 		claimed.map((entry) => executeClaimedEnrollment(context, entry, now)),
@@ -526,11 +961,18 @@ export async function runSequenceTick(
 		.map((result) => result.reason);
 	if (failures.length > 0) {
 		throw new AggregateError(
-			failures,
+			[...triggers.failures, ...failures],
 			`Failed to complete ${failures.length} claimed sequence enrollment(s)`,
 		);
 	}
+	if (triggers.failures.length > 0) {
+		throw new AggregateError(
+			triggers.failures,
+			`Failed to evaluate ${triggers.failures.length} sequence trigger(s)`,
+		);
+	}
 	return {
+		triggered: triggers.triggered,
 		claimed: claimed.length,
 		...counts,
 		completedAt: now.toISOString(),
@@ -568,7 +1010,7 @@ export async function reconcileAmbiguousSequenceEnrollment(
 			`Ambiguous sequence enrollment ${enrollmentId} is not positioned on a send step`,
 		);
 	}
-	const key = deterministicSendKey(enrollment);
+	const key = deterministicStepKey(enrollment);
 	const document = await context.idempotencyStore.load();
 	const record = document.records[key];
 	if (!record) {
@@ -591,6 +1033,7 @@ export async function reconcileAmbiguousSequenceEnrollment(
 	}
 	if (resolution === "sent") {
 		const following = nextStep(revision, step.id);
+		const sentStepIds = withSentStep(enrollment, step.id);
 		const next = withoutLease(
 			enrollment,
 			following
@@ -600,8 +1043,14 @@ export async function reconcileAmbiguousSequenceEnrollment(
 						currentStepId: following.id,
 						nextRunAt: now.toISOString(),
 						lastError: undefined,
+						sentStepIds,
 					}
-				: { status: "completed", retryCount: 0, lastError: undefined },
+				: {
+						status: "completed",
+						retryCount: 0,
+						lastError: undefined,
+						sentStepIds,
+					},
 			now,
 		);
 		const resolved = await forceCompleteAmbiguous(
@@ -0,0 +1,110 @@
+import {
+	evaluateSequenceCondition,
+	memoize,
+	type SequenceConditionSubscriber,
+} from "./sequence-conditions";
+import type {
+	SequenceDefinition,
+	SequenceGoal,
+	SequenceGoalEvent,
+} from "./sequences";
+
+/**
+ * Lazily loaded facts goals read. Each loader is called at most once per
+ * check and only when a goal needs it.
+ */
+export type SequenceGoalSources = Readonly<{
+	subscriber: () => Promise<SequenceConditionSubscriber>;
+	events: () => Promise<readonly SequenceGoalEvent[]>;
+}>;
+
+function conditionSources(sources: SequenceGoalSources) {
+	return {
+		context: {},
+		subscriber: sources.subscriber,
+		engagement: async () => [],
+	};
+}
+
+function isUnsubscribed(status: string | undefined): boolean {
+	return status?.toLowerCase() === "unsubscribed";
+}
+
+async function goalReached(
+	goal: SequenceGoal,
+	sources: SequenceGoalSources,
+): Promise<boolean> {
+	switch (goal.type) {
+		case "list_subscribed":
+			return evaluateSequenceCondition(
+				{ source: "list", listId: goal.listId, operator: "member" },
+				conditionSources(sources),
+			);
+		case "attribute":
+			return evaluateSequenceCondition(
+				{
+					source: "subscriber",
+					path: `attribs.${goal.path}`,
+					operator: goal.operator,
+					value: goal.value,
+				},
+				conditionSources(sources),
+			);
+		case "custom_event":
+			return (await sources.events()).some(
+				(event) => event.goalId === goal.id,
+			);
+		case "unsubscribed": {
+			const subscriber = await sources.subscriber();
+			const lists = subscriber.lists ?? [];
+			if (goal.listId !== undefined) {
+				return lists.some(
+					(list) =>
+						list.id === goal.listId &&
+						isUnsubscribed(list.subscription_status),
+				);
+			}
+			return (
+				subscriber.status?.toLowerCase() === "blocklisted" ||
+				(lists.length > 0 &&
+					lists.every((list) => isUnsubscribed(list.subscription_status)))
+			);
+		}
+		default:
+			goal satisfies never;
+			return false;
+	}
+}
+
+/** The first goal, in configured order, that the subscriber has reached. */
+export async function findReachedSequenceGoal(
+	goals: readonly SequenceGoal[],
+	sources: SequenceGoalSources,
+): Promise<SequenceGoal | undefined> {
+	const memoized = {
+		subscriber: memoize(sources.subscriber),
+		events: memoize(sources.events),
+	};
+	for (const goal of goals) {
+		if (await goalReached(goal, memoized)) {
+			return goal;
+		}
+	}
+	return undefined;
+}
+
+export function sequenceGoalStatus(
+	goal: SequenceGoal,
+): "goal_reached" | "exited" {
+	return goal.outcome === "exit" ? "exited" : "goal_reached";
+}
+
+/** `custom_event` goals in `definition` listening for `name`. */
+export function sequenceEventGoals(
+	definition: SequenceDefinition,
+	name: string,
+): readonly SequenceGoal[] {
+	return (definition.goals ?? []).filter(
+		(goal) => goal.type === "custom_event" && goal.name === name,
+	);
+}
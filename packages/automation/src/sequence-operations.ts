@@ -14,16 +14,24 @@ import { createHash } from "node:crypto";
 import {
 	bindSequenceCreateOperationSpec,
 	bindSequenceDeleteOperationSpec,
+	bindSequenceDeliveryUpdateOperationSpec,
+	bindSequenceEnrollBulkOperationSpec,
 	bindSequenceEnrollOperationSpec,
+	bindSequenceEngagementRecordOperationSpec,
+	bindSequenceEventsIngestOperationSpec,
 	bindSequenceEnrollmentGetOperationSpec,
 	bindSequenceEnrollmentListOperationSpec,
 	bindSequenceGetOperationSpec,
+	bindSequenceGoalsUpdateOperationSpec,
 	bindSequenceListOperationSpec,
+	bindSequenceMigrateOperationSpec,
 	bindSequencePauseOperationSpec,
 	bindSequenceReconcileOperationSpec,
 	bindSequenceResumeOperationSpec,
+	bindSequenceSplitsStatsOperationSpec,
 	bindSequenceStatusOperationSpec,
 	bindSequenceTickOperationSpec,
+	bindSequenceTriggersUpdateOperationSpec,
 	bindSequenceUpdateOperationSpec,
 	bindSequenceValidateOperationSpec,
 } from "@listmonk-ops/operations/specs";
@@ -33,18 +41,60 @@ import {
 	runSequenceTick,
 	type SequenceExecutionContext,
 } from "./sequence-engine";
+import {
+	DEFAULT_SEQUENCE_BULK_ENROLLMENT_LIMIT,
+	enrollSequenceSubscribers,
+} from "./sequence-bulk-enrollment";
+import { INBOUND_DELIVERY_EVENT_KINDS } from "./inbound-delivery-events";
+import type { OutboundWebhookStoreOptions } from "./outbound-webhooks";
+import {
+	MAX_SEQUENCE_CONDITION_RULES,
+	MAX_SEQUENCE_ENGAGEMENT_RECORDS,
+	refineSequenceConditionComparison,
+	refineSequenceConditionStep,
+	SEQUENCE_CONDITION_OPERATORS,
+	SEQUENCE_ENGAGEMENT_EVENTS,
+	type SequenceCondition,
+	type SequenceConditionPredicate,
+} from "./sequence-conditions";
+import {
+	MAX_SEQUENCE_DAILY_CAP,
+	refineSequenceSendWindow,
+	SEQUENCE_WEEKDAYS,
+	sequenceTimeOfDaySchema,
+	sequenceTimezoneSchema,
+	type SequenceSendWindow,
+} from "./sequence-delivery";
 import { getSequenceRepositoryFromEnvironment } from "./sequence-runtime";
+import {
+	buildSequenceSplitStats,
+	type SequenceSplitStats,
+} from "./sequence-splits";
+import {
+	ingestCustomSequenceTriggerEvents,
+	MAX_SEQUENCE_TRIGGER_INGEST_EVENTS,
+} from "./sequence-triggers";
 import {
 	createSequenceDefinition,
 	createSequenceEnrollment,
+	MAX_SEQUENCE_GOALS,
+	MAX_SEQUENCE_SPLIT_BRANCHES,
+	MAX_SEQUENCE_SPLIT_WEIGHT,
+	MAX_SEQUENCE_STEP_LISTS,
+	MAX_SEQUENCE_TRIGGERS,
+	SEQUENCE_GOAL_OUTCOMES,
 	SEQUENCE_STEP_TYPES,
 	sequenceEnrollmentStatusSchema,
 	SequenceConflictError,
 	SequenceNotFoundError,
 	type SequenceDefinition,
 	type SequenceEnrollment,
+	type SequenceFunnel,
+	type SequenceGoal,
 	type SequenceRepository,
 	type SequenceStep,
+	type SequenceTrigger,
+	sequenceTriggerEventNameSchema,
 	validateSequenceSteps,
 	canonicalJsonValue,
 } from "./sequences";
@@ -54,6 +104,7 @@ export interface SequenceOperationContext {
 	client?: Pick<ListmonkClient, "subscriber" | "transactional">;
 	idempotencyStore?: TransactionalIdempotencyStore;
 	hashPayload?: (serialized: string) => string;
+	webhookStore?: OutboundWebhookStoreOptions;
 	target?: {
 		baseUrl?: string;
 		username?: string;
@@ -80,6 +131,13 @@ const positiveIntegerInput = z.preprocess(
 			: value,
 	z.coerce.number().int().positive(),
 );
+const nonNegativeIntegerInput = z.preprocess(
+	(value: unknown) =>
+		value === null || value === "" || typeof value === "boolean"
+			? Number.NaN
+			: value,
+	z.coerce.number().int().nonnegative(),
+);
 const isoDateTimeInput = z.iso.datetime({ offset: true });
 const sequenceIdInput = z.uuid();
 const stepIdInput = z
@@ -95,6 +153,71 @@ const conditionPathSchema = z
 	.max(200)
 	.regex(/^[A-Za-z0-9_-]+(?:\.[A-Za-z0-9_-]+)*$/);
 const contentTypeSchema = z.enum(["html", "markdown", "plain"]);
+const stepListIdsInput = z
+	.array(positiveIntegerInput)
+	.min(1)
+	.max(MAX_SEQUENCE_STEP_LISTS);
+const sendWindowInputSchema = z
+	.object({
+		days: z.array(z.enum(SEQUENCE_WEEKDAYS)).min(1).max(7).optional(),
+		start: sequenceTimeOfDaySchema,
+		end: sequenceTimeOfDaySchema,
+		timezone: sequenceTimezoneSchema.default("UTC"),
+		timezone_attribute: conditionPathSchema.optional(),
+	})
+	.superRefine(refineSequenceSendWindow);
+const conditionComparisonFields = {
+	path: conditionPathSchema,
+	operator: z.enum(SEQUENCE_CONDITION_OPERATORS),
+	value: z.unknown().optional(),
+};
+const conditionPredicateInputSchema = z.discriminatedUnion("source", [
+	z
+		.object({ source: z.literal("context"), ...conditionComparisonFields })
+		.superRefine(refineSequenceConditionComparison),
+	z
+		.object({ source: z.literal("subscriber"), ...conditionComparisonFields })
+		.superRefine(refineSequenceConditionComparison),
+	z.object({
+		source: z.literal("list"),
+		list_id: positiveIntegerInput,
+		operator: z.enum(["member", "not_member"]),
+	}),
+	z.object({
+		source: z.literal("engagement"),
+		step_id: stepIdInput,
+		event: z.enum(SEQUENCE_ENGAGEMENT_EVENTS),
+	}),
+]);
+const conditionPredicateListInputSchema = z
+	.array(conditionPredicateInputSchema)
+	.min(1)
+	.max(MAX_SEQUENCE_CONDITION_RULES);
+const conditionInputSchema = z.union([
+	conditionPredicateInputSchema,
+	z.object({
+		all: z
+			.array(
+				z.union([
+					conditionPredicateInputSchema,
+					z.object({ any: conditionPredicateListInputSchema }),
+				]),
+			)
+			.min(1)
+			.max(MAX_SEQUENCE_CONDITION_RULES),
+	}),
+	z.object({
+		any: z
+			.array(
+				z.union([
+					conditionPredicateInputSchema,
+					z.object({ all: conditionPredicateListInputSchema }),
+				]),
+			)
+			.min(1)
+			.max(MAX_SEQUENCE_CONDITION_RULES),
+	}),
+]);
 
 function buildSequenceStepSchema(
 	templateIdSchema: z.ZodType<number>,
@@ -111,6 +234,7 @@ function buildSequenceStepSchema(
 			messenger: transactionalMessengerSchema.optional(),
 			subject: transactionalSubjectSchema.optional(),
 			altbody: z.string().min(1).optional(),
+			window: sendWindowInputSchema.optional(),
 		}),
 		z.object({
 			id: stepIdInput,
@@ -122,18 +246,73 @@ function buildSequenceStepSchema(
 			type: z.literal("wait_until"),
 			at: isoDateTimeInput,
 		}),
+		z
+			.object({
+				id: stepIdInput,
+				type: z.literal("condition"),
+				path: conditionPathSchema.optional(),
+				operator: z.enum(SEQUENCE_CONDITION_OPERATORS).optional(),
+				value: z.unknown().optional(),
+				when: conditionInputSchema.optional(),
+				on_true: stepIdInput,
+				on_false: stepIdInput,
+			})
+			.superRefine(refineSequenceConditionStep),
+		z.object({
+			id: stepIdInput,
+			type: z.literal("stop"),
+		}),
 		z.object({
 			id: stepIdInput,
-			type: z.literal("condition"),
-			path: conditionPathSchema,
-			operator: z.enum(["equals", "not_equals", "exists"]),
-			value: z.unknown().optional(),
-			on_true: stepIdInput,
-			on_false: stepIdInput,
+			type: z.literal("list_add"),
+			list_ids: stepListIdsInput,
 		}),
 		z.object({
 			id: stepIdInput,
-			type: z.literal("stop"),
+			type: z.literal("list_remove"),
+			list_ids: stepListIdsInput,
+		}),
+		z.object({
+			id: stepIdInput,
+			type: z.literal("attribs_patch"),
+			attribs: z
+				.record(z.string(), z.unknown())
+				.refine(
+					(attribs) => Object.keys(attribs).length > 0,
+					"attribs_patch steps require at least one attribute",
+				),
+		}),
+		z.object({
+			id: stepIdInput,
+			type: z.literal("blocklist"),
+		}),
+		z.object({
+			id: stepIdInput,
+			type: z.literal("webhook_event"),
+			name: sequenceTriggerEventNameSchema,
+			data: z.record(z.string(), z.unknown()).optional(),
+		}),
+		z.object({
+			id: stepIdInput,
+			type: z.literal("enroll"),
+			sequence_id: sequenceIdInput,
+		}),
+		z.object({
+			id: stepIdInput,
+			type: z.literal("split"),
+			branches: z
+				.array(
+					z.object({
+						id: stepIdInput,
+						weight: positiveIntegerInput.refine(
+							(value) => value <= MAX_SEQUENCE_SPLIT_WEIGHT,
+							`weight must be at most ${MAX_SEQUENCE_SPLIT_WEIGHT}`,
+						),
+						next: stepIdInput,
+					}),
+				)
+				.min(2)
+				.max(MAX_SEQUENCE_SPLIT_BRANCHES),
 		}),
 	]);
 }
@@ -165,12 +344,39 @@ const sequenceListInputSchema = z.object({
 });
 const sequenceGetInputSchema = z.object({ id: sequenceIdInput });
 const sequenceDeleteInputSchema = sequenceGetInputSchema;
+const sequenceSplitsStatsInputSchema = sequenceGetInputSchema;
 const sequenceEnrollInputSchema = z.object({
 	id: sequenceIdInput,
 	subscriber_id: positiveIntegerInput,
 	context: z.record(z.string(), z.unknown()).default({}),
 	start_at: isoDateTimeInput.optional(),
 });
+const sequenceEnrollBulkInputSchema = z
+	.object({
+		id: sequenceIdInput,
+		list_id: positiveIntegerInput.optional(),
+		query: z.string().trim().min(1).optional(),
+		context: z.record(z.string(), z.unknown()).default({}),
+		start_at: isoDateTimeInput.optional(),
+		rate_per_minute: positiveIntegerInput
+			.refine(
+				(value) => value <= 60_000,
+				"rate_per_minute must be at most 60000",
+			)
+			.optional(),
+		after_subscriber_id: nonNegativeIntegerInput.default(0),
+		limit: positiveIntegerInput
+			.refine((value) => value <= 10_000, "limit must be at most 10000")
+			.default(DEFAULT_SEQUENCE_BULK_ENROLLMENT_LIMIT),
+	})
+	.superRefine((value, context) => {
+		if ((value.list_id === undefined) === (value.query === undefined)) {
+			context.addIssue({
+				code: "custom",
+				message: "Exactly one of list_id or query is required",
+			});
+		}
+	});
 const sequenceEnrollmentStatusInput = sequenceEnrollmentStatusSchema;
 const sequenceEnrollmentListInputSchema = z.object({
 	sequence_id: sequenceIdInput.optional(),
@@ -223,6 +429,142 @@ const sequenceReconcileInputSchema = z
 			});
 		}
 	});
+const sequenceMigrateInputSchema = z.object({
+	id: sequenceIdInput,
+	from_revision: positiveIntegerInput,
+	to_revision: positiveIntegerInput,
+	step_map: z.record(stepIdInput, stepIdInput).default({}),
+	dry_run: booleanInput.default(true),
+});
+const sequenceTriggerDedupeInputSchema = z
+	.discriminatedUnion("mode", [
+		z.object({ mode: z.literal("once") }),
+		z.object({
+			mode: z.literal("once_per_days"),
+			days: positiveIntegerInput.refine(
+				(value) => value <= 3_650,
+				"days must be at most 3650",
+			),
+		}),
+	])
+	.default({ mode: "once" });
+const sequenceTriggerInputSchema = z.discriminatedUnion("type", [
+	z.object({
+		id: stepIdInput,
+		type: z.literal("list_subscribed"),
+		list_id: positiveIntegerInput,
+		dedupe: sequenceTriggerDedupeInputSchema,
+	}),
+	z.object({
+		id: stepIdInput,
+		type: z.literal("subscriber_created"),
+		dedupe: sequenceTriggerDedupeInputSchema,
+	}),
+	z.object({
+		id: stepIdInput,
+		type: z.literal("inbound_delivery"),
+		kinds: z.array(z.enum(INBOUND_DELIVERY_EVENT_KINDS)).min(1),
+		dedupe: sequenceTriggerDedupeInputSchema,
+	}),
+	z.object({
+		id: stepIdInput,
+		type: z.literal("custom_event"),
+		name: sequenceTriggerEventNameSchema,
+		dedupe: sequenceTriggerDedupeInputSchema,
+	}),
+]);
+const sequenceTriggersUpdateInputSchema = z.object({
+	id: sequenceIdInput,
+	triggers: z.array(sequenceTriggerInputSchema).max(MAX_SEQUENCE_TRIGGERS),
+});
+const sequenceGoalOutcomeInput = z.enum(SEQUENCE_GOAL_OUTCOMES).default("goal");
+const sequenceGoalInputSchema = z.discriminatedUnion("type", [
+	z.object({
+		id: stepIdInput,
+		type: z.literal("list_subscribed"),
+		list_id: positiveIntegerInput,
+		outcome: sequenceGoalOutcomeInput,
+	}),
+	z
+		.object({
+			id: stepIdInput,
+			type: z.literal("attribute"),
+			...conditionComparisonFields,
+			outcome: sequenceGoalOutcomeInput,
+		})
+		.superRefine(refineSequenceConditionComparison),
+	z.object({
+		id: stepIdInput,
+		type: z.literal("custom_event"),
+		name: sequenceTriggerEventNameSchema,
+		outcome: sequenceGoalOutcomeInput,
+	}),
+	z.object({
+		id: stepIdInput,
+		type: z.literal("unsubscribed"),
+		list_id: positiveIntegerInput.optional(),
+		outcome: sequenceGoalOutcomeInput,
+	}),
+]);
+const sequenceGoalsUpdateInputSchema = z.object({
+	id: sequenceIdInput,
+	goals: z.array(sequenceGoalInputSchema).max(MAX_SEQUENCE_GOALS),
+});
+const sequenceDeliveryUpdateInputSchema = z.object({
+	id: sequenceIdInput,
+	window: sendWindowInputSchema.optional(),
+	daily_cap: positiveIntegerInput
+		.refine(
+			(value) => value <= MAX_SEQUENCE_DAILY_CAP,
+			`daily_cap must be at most ${MAX_SEQUENCE_DAILY_CAP}`,
+		)
+		.optional(),
+});
+const sequenceEngagementRecordInputSchema = z.object({
+	events: z
+		.array(
+			z.object({
+				enrollment_id: sequenceIdInput,
+				step_id: stepIdInput,
+				event: z.enum(SEQUENCE_ENGAGEMENT_EVENTS),
+				occurred_at: isoDateTimeInput.optional(),
+			}),
+		)
+		.min(1)
+		.max(MAX_SEQUENCE_ENGAGEMENT_RECORDS),
+});
+const sequenceEventsIngestInputSchema = z.object({
+	events: z
+		.array(
+			z.object({
+				id: z.string().trim().min(1).max(200),
+				name: sequenceTriggerEventNameSchema,
+				subscriber_id: positiveIntegerInput.optional(),
+				subscriber_uuid: z.uuid().optional(),
+				subscriber_email: z.email().optional(),
+				data: z.record(z.string(), z.unknown()).optional(),
+				occurred_at: isoDateTimeInput.optional(),
+			}),
+		)
+		.min(1)
+		.max(MAX_SEQUENCE_TRIGGER_INGEST_EVENTS)
+		.superRefine((events, context) => {
+			for (const [index, event] of events.entries()) {
+				if (
+					event.subscriber_id === undefined &&
+					event.subscriber_uuid === undefined &&
+					event.subscriber_email === undefined
+				) {
+					context.addIssue({
+						code: "custom",
+						path: [index],
+						message:
+							"Each event requires subscriber_id, subscriber_uuid, or subscriber_email",
+					});
+				}
+			}
+		}),
+});
 const sequenceStatusInputSchema = z.object({
 	worker_stale_ms: positiveIntegerInput
 		.refine(
@@ -259,6 +601,8 @@ const sequenceEnrollmentOutputSchema = z.object({
 	current_step_id: stepIdInput,
 	next_run_at: isoDateTimeInput,
 	last_error_present: z.boolean(),
+	goal_id: stepIdInput.optional(),
+	branches: z.record(stepIdInput, stepIdInput).optional(),
 	created_at: isoDateTimeInput,
 	updated_at: isoDateTimeInput,
 });
@@ -299,6 +643,7 @@ const sequenceEnrollmentListOutputSchema = z.object({
 	enrollments: z.array(sequenceEnrollmentOutputSchema),
 });
 const sequenceTickOutputSchema = z.object({
+	triggered: z.number().int().nonnegative(),
 	claimed: z.number().int().nonnegative(),
 	advanced: z.number().int().nonnegative(),
 	waiting: z.number().int().nonnegative(),
@@ -306,8 +651,84 @@ const sequenceTickOutputSchema = z.object({
 	failed: z.number().int().nonnegative(),
 	ambiguous: z.number().int().nonnegative(),
 	cancelled: z.number().int().nonnegative(),
+	goal_reached: z.number().int().nonnegative(),
+	exited: z.number().int().nonnegative(),
 	completed_at: isoDateTimeInput,
 });
+const sequenceTriggerOutputSchema = z.discriminatedUnion("type", [
+	z.object({
+		id: stepIdInput,
+		type: z.literal("list_subscribed"),
+		list_id: z.number().int().positive(),
+		dedupe: sequenceTriggerDedupeInputSchema,
+	}),
+	z.object({
+		id: stepIdInput,
+		type: z.literal("subscriber_created"),
+		dedupe: sequenceTriggerDedupeInputSchema,
+	}),
+	z.object({
+		id: stepIdInput,
+		type: z.literal("inbound_delivery"),
+		kinds: z.array(z.enum(INBOUND_DELIVERY_EVENT_KINDS)).min(1),
+		dedupe: sequenceTriggerDedupeInputSchema,
+	}),
+	z.object({
+		id: stepIdInput,
+		type: z.literal("custom_event"),
+		name: sequenceTriggerEventNameSchema,
+		dedupe: sequenceTriggerDedupeInputSchema,
+	}),
+]);
+const sequenceTriggersUpdateOutputSchema = z.object({
+	sequence: sequenceDefinitionOutputSchema,
+	triggers: z.array(sequenceTriggerOutputSchema),
+	updated: z.boolean(),
+});
+const sequenceSplitsStatsOutputSchema = z.object({
+	sequence_id: sequenceIdInput,
+	splits: z.array(
+		z.object({
+			step_id: stepIdInput,
+			assigned: z.number().int().nonnegative(),
+			branches: z.array(
+				z.object({
+					id: stepIdInput,
+					weight: z.number().int().nonnegative(),
+					assigned: z.number().int().nonnegative(),
+					expected: z.number().nonnegative(),
+					sent: z.number().int().nonnegative(),
+					opened: z.number().int().nonnegative(),
+					clicked: z.number().int().nonnegative(),
+					goal_reached: z.number().int().nonnegative(),
+				}),
+			),
+		}),
+	),
+});
+const sequenceGoalsUpdateOutputSchema = z.object({
+	sequence: sequenceDefinitionOutputSchema,
+	goals: z.array(sequenceGoalInputSchema),
+	updated: z.boolean(),
+});
+const sequenceDeliveryUpdateOutputSchema = z.object({
+	sequence: sequenceDefinitionOutputSchema,
+	delivery: z.object({
+		window: sendWindowInputSchema.optional(),
+		daily_cap: z.number().int().positive().optional(),
+	}),
+	updated: z.boolean(),
+});
+const sequenceEventsIngestOutputSchema = z.object({
+	accepted: z.number().int().nonnegative(),
+	duplicates: z.number().int().nonnegative(),
+	ignored: z.number().int().nonnegative(),
+});
+const sequenceEngagementRecordOutputSchema = z.object({
+	recorded: z.number().int().nonnegative(),
+	duplicates: z.number().int().nonnegative(),
+	unknown: z.number().int().nonnegative(),
+});
 const sequenceReconcileOutputSchema = z.object({
 	scanned: z.number().int().nonnegative(),
 	recovered: z.number().int().nonnegative(),
@@ -315,6 +736,34 @@ const sequenceReconcileOutputSchema = z.object({
 	dry_run: z.boolean(),
 	enrollment: sequenceEnrollmentOutputSchema.optional(),
 });
+const sequenceEnrollBulkOutputSchema = z.object({
+	sequence_id: sequenceIdInput,
+	scanned: z.number().int().nonnegative(),
+	created: z.number().int().nonnegative(),
+	skipped: z.number().int().nonnegative(),
+	resume: z
+		.object({
+			after_subscriber_id: z.number().int().nonnegative(),
+			start_at: isoDateTimeInput,
+		})
+		.optional(),
+});
+const sequenceMigrateOutputSchema = z.object({
+	sequence_id: sequenceIdInput,
+	from_revision: z.number().int().positive(),
+	to_revision: z.number().int().positive(),
+	scanned: z.number().int().nonnegative(),
+	migrated: z.number().int().nonnegative(),
+	skipped: z.number().int().nonnegative(),
+	moves: z.array(
+		z.object({
+			from_step_id: stepIdInput,
+			to_step_id: stepIdInput,
+			enrollments: z.number().int().positive(),
+		}),
+	),
+	dry_run: z.boolean(),
+});
 const sequenceStatusOutputSchema = z.object({
 	store: z.enum(["file", "postgres"]),
 	schema_version: z.number().int().positive(),
@@ -334,6 +783,8 @@ const sequenceStatusOutputSchema = z.object({
 		failed: z.number().int().nonnegative(),
 		ambiguous: z.number().int().nonnegative(),
 		cancelled: z.number().int().nonnegative(),
+		goal_reached: z.number().int().nonnegative(),
+		exited: z.number().int().nonnegative(),
 		due: z.number().int().nonnegative(),
 		leased: z.number().int().nonnegative(),
 		oldest_due_at: isoDateTimeInput.optional(),
@@ -345,8 +796,94 @@ const sequenceStatusOutputSchema = z.object({
 		failed: z.number().int().nonnegative(),
 		last_heartbeat_at: isoDateTimeInput.optional(),
 	}),
+	funnels: z.array(
+		z.object({
+			sequence_id: sequenceIdInput,
+			enrolled: z.number().int().nonnegative(),
+			active: z.number().int().nonnegative(),
+			completed: z.number().int().nonnegative(),
+			goal_reached: z.number().int().nonnegative(),
+			exited: z.number().int().nonnegative(),
+			failed: z.number().int().nonnegative(),
+			cancelled: z.number().int().nonnegative(),
+			conversion_rate: z.number().min(0).max(1),
+			goals: z.array(
+				z.object({
+					id: stepIdInput,
+					reached: z.number().int().nonnegative(),
+				}),
+			),
+		}),
+	),
 });
 
+function toInternalPredicate(
+	predicate: z.output<typeof conditionPredicateInputSchema>,
+): SequenceConditionPredicate {
+	switch (predicate.source) {
+		case "list":
+			return {
+				source: predicate.source,
+				listId: predicate.list_id,
+				operator: predicate.operator,
+			};
+		case "engagement":
+			return {
+				source: predicate.source,
+				stepId: predicate.step_id,
+				event: predicate.event,
+			};
+		default:
+			return predicate;
+	}
+}
+
+function toInternalCondition(
+	condition: z.output<typeof conditionInputSchema>,
+): SequenceCondition {
+	if ("all" in condition) {
+		return {
+			all: condition.all.map((child) =>
+				"any" in child
+					? { any: child.any.map(toInternalPredicate) }
+					: toInternalPredicate(child),
+			),
+		};
+	}
+	if ("any" in condition) {
+		return {
+			any: condition.any.map((child) =>
+				"all" in child
+					? { all: child.all.map(toInternalPredicate) }
+					: toInternalPredicate(child),
+			),
+		};
+	}
+	return toInternalPredicate(condition);
+}
+
+function toInternalWindow(
+	window: z.output<typeof sendWindowInputSchema>,
+): SequenceSendWindow {
+	return {
+		days: window.days,
+		start: window.start,
+		end: window.end,
+		timezone: window.timezone,
+		timezoneAttribute: window.timezone_attribute,
+	};
+}
+
+function toWindowOutput(window: SequenceSendWindow) {
+	return {
+		days: window.days,
+		start: window.start,
+		end: window.end,
+		timezone: window.timezone,
+		timezone_attribute: window.timezoneAttribute,
+	};
+}
+
 function toInternalStep(
 	step: z.output<typeof sequenceStepInputSchema>,
 ): SequenceStep {
@@ -362,6 +899,8 @@ function toInternalStep(
 				messenger: step.messenger,
 				subject: step.subject,
 				altBody: step.altbody,
+				window:
+					step.window === undefined ? undefined : toInternalWindow(step.window),
 			};
 		case "wait":
 			return {
@@ -378,10 +917,21 @@ function toInternalStep(
 				path: step.path,
 				operator: step.operator,
 				value: step.value,
+				when:
+					step.when === undefined ? undefined : toInternalCondition(step.when),
 				onTrue: step.on_true,
 				onFalse: step.on_false,
 			};
+		case "list_add":
+		case "list_remove":
+			return { id: step.id, type: step.type, listIds: step.list_ids };
+		case "enroll":
+			return { id: step.id, type: step.type, sequenceId: step.sequence_id };
 		case "stop":
+		case "attribs_patch":
+		case "blocklist":
+		case "webhook_event":
+		case "split":
 			return step;
 		default:
 			step satisfies never;
@@ -389,6 +939,89 @@ function toInternalStep(
 	}
 }
 
+function toInternalTrigger(
+	trigger: z.output<typeof sequenceTriggerInputSchema>,
+): SequenceTrigger {
+	if (trigger.type === "list_subscribed") {
+		return {
+			id: trigger.id,
+			type: trigger.type,
+			listId: trigger.list_id,
+			dedupe: trigger.dedupe,
+		};
+	}
+	return trigger;
+}
+
+function toTriggerOutput(trigger: SequenceTrigger) {
+	if (trigger.type === "list_subscribed") {
+		return {
+			id: trigger.id,
+			type: trigger.type,
+			list_id: trigger.listId,
+			dedupe: trigger.dedupe,
+		};
+	}
+	return trigger;
+}
+
+function toInternalGoal(
+	goal: z.output<typeof sequenceGoalInputSchema>,
+): SequenceGoal {
+	if (goal.type === "list_subscribed") {
+		return {
+			id: goal.id,
+			type: goal.type,
+			listId: goal.list_id,
+			outcome: goal.outcome,
+		};
+	}
+	if (goal.type === "unsubscribed") {
+		return {
+			id: goal.id,
+			type: goal.type,
+			listId: goal.list_id,
+			outcome: goal.outcome,
+		};
+	}
+	return goal;
+}
+
+function toGoalOutput(goal: SequenceGoal) {
+	if (goal.type === "list_subscribed") {
+		return {
+			id: goal.id,
+			type: goal.type,
+			list_id: goal.listId,
+			outcome: goal.outcome,
+		};
+	}
+	if (goal.type === "unsubscribed") {
+		return {
+			id: goal.id,
+			type: goal.type,
+			list_id: goal.listId,
+			outcome: goal.outcome,
+		};
+	}
+	return goal;
+}
+
+function toFunnelOutput(funnel: SequenceFunnel) {
+	return {
+		sequence_id: funnel.sequenceId,
+		enrolled: funnel.enrolled,
+		active: funnel.active,
+		completed: funnel.completed,
+		goal_reached: funnel.goalReached,
+		exited: funnel.exited,
+		failed: funnel.failed,
+		cancelled: funnel.cancelled,
+		conversion_rate: funnel.conversionRate,
+		goals: [...funnel.goals],
+	};
+}
+
 function canonicalizeSequenceValue(value: unknown): unknown {
 	if (Array.isArray(value)) {
 		return value.map(canonicalizeSequenceValue);
@@ -428,6 +1061,23 @@ function toDefinitionOutput(definition: SequenceDefinition) {
 	};
 }
 
+function toSplitStatsOutput(split: SequenceSplitStats) {
+	return {
+		step_id: split.stepId,
+		assigned: split.assigned,
+		branches: split.branches.map((branch) => ({
+			id: branch.id,
+			weight: branch.weight,
+			assigned: branch.assigned,
+			expected: branch.expected,
+			sent: branch.sent,
+			opened: branch.opened,
+			clicked: branch.clicked,
+			goal_reached: branch.goalReached,
+		})),
+	};
+}
+
 function toEnrollmentOutput(enrollment: SequenceEnrollment) {
 	return {
 		id: enrollment.id,
@@ -439,6 +1089,8 @@ function toEnrollmentOutput(enrollment: SequenceEnrollment) {
 		current_step_id: enrollment.currentStepId,
 		next_run_at: enrollment.nextRunAt,
 		last_error_present: enrollment.lastError !== undefined,
+		goal_id: enrollment.goalId,
+		branches: enrollment.branches,
 		created_at: enrollment.createdAt,
 		updated_at: enrollment.updatedAt,
 	};
@@ -467,6 +1119,7 @@ function executionContext(
 		client: context.client,
 		idempotencyStore,
 		hashPayload: context.hashPayload,
+		webhookStore: context.webhookStore,
 		target: context.target,
 		now: context.now,
 	};
@@ -600,6 +1253,22 @@ export async function executeSequenceGetOperation(
 	return { sequence: toDefinitionOutput(definition) };
 }
 
+export async function executeSequenceSplitsStatsOperation(
+	context: SequenceOperationContext,
+	input: z.output<typeof sequenceSplitsStatsInputSchema>,
+) {
+	const store = repository(context);
+	const definition = await store.getDefinition(input.id);
+	const splits = buildSequenceSplitStats(
+		definition,
+		await store.listSplitEnrollments(definition.id),
+	);
+	return {
+		sequence_id: definition.id,
+		splits: splits.map(toSplitStatsOutput),
+	};
+}
+
 export async function executeSequenceDeleteOperation(
 	context: SequenceOperationContext,
 	input: z.output<typeof sequenceDeleteInputSchema>,
@@ -684,6 +1353,45 @@ export async function executeSequenceEnrollOperation(
 	}
 }
 
+export async function executeSequenceEnrollBulkOperation(
+	context: SequenceOperationContext,
+	input: z.output<typeof sequenceEnrollBulkInputSchema>,
+) {
+	if (!context.client) {
+		throw new Error("Bulk sequence enrollment requires a Listmonk client");
+	}
+	const result = await enrollSequenceSubscribers(
+		{ client: context.client, repository: repository(context) },
+		{
+			sequenceId: input.id,
+			source:
+				input.list_id === undefined
+					? { query: input.query ?? "" }
+					: { listId: input.list_id },
+			context: input.context,
+			startAt:
+				input.start_at === undefined ? undefined : new Date(input.start_at),
+			ratePerMinute: input.rate_per_minute,
+			afterSubscriberId: input.after_subscriber_id,
+			limit: input.limit,
+			now: context.now?.() ?? new Date(),
+		},
+	);
+	return {
+		sequence_id: input.id,
+		scanned: result.scanned,
+		created: result.created,
+		skipped: result.skipped,
+		resume:
+			result.resume === undefined
+				? undefined
+				: {
+						after_subscriber_id: result.resume.afterSubscriberId,
+						start_at: result.resume.startAt,
+					},
+	};
+}
+
 export async function executeSequenceEnrollmentListOperation(
 	context: SequenceOperationContext,
 	input: z.output<typeof sequenceEnrollmentListInputSchema>,
@@ -738,6 +1446,7 @@ export async function executeSequenceTickOperation(
 		leaseMs: input.lease_ms,
 	});
 	return {
+		triggered: result.triggered,
 		claimed: result.claimed,
 		advanced: result.advanced,
 		waiting: result.waiting,
@@ -745,6 +1454,8 @@ export async function executeSequenceTickOperation(
 		failed: result.failed,
 		ambiguous: result.ambiguous,
 		cancelled: result.cancelled,
+		goal_reached: result.goalReached,
+		exited: result.exited,
 		completed_at: result.completedAt,
 	};
 }
@@ -780,6 +1491,134 @@ export async function executeSequenceReconcileOperation(
 	};
 }
 
+export async function executeSequenceMigrateOperation(
+	context: SequenceOperationContext,
+	input: z.output<typeof sequenceMigrateInputSchema>,
+) {
+	const result = await repository(context).migrateEnrollments({
+		sequenceId: input.id,
+		fromRevision: input.from_revision,
+		toRevision: input.to_revision,
+		stepMap: input.step_map,
+		dryRun: input.dry_run,
+		now: context.now?.() ?? new Date(),
+	});
+	return {
+		sequence_id: input.id,
+		from_revision: input.from_revision,
+		to_revision: input.to_revision,
+		scanned: result.scanned,
+		migrated: result.migrated,
+		skipped: result.skipped,
+		moves: result.moves.map((move) => ({
+			from_step_id: move.fromStepId,
+			to_step_id: move.toStepId,
+			enrollments: move.enrollments,
+		})),
+		dry_run: result.dryRun,
+	};
+}
+
+export async function executeSequenceTriggersUpdateOperation(
+	context: SequenceOperationContext,
+	input: z.output<typeof sequenceTriggersUpdateInputSchema>,
+) {
+	const { definition, updated } = await repository(
+		context,
+	).updateDefinitionTriggers(
+		input.id,
+		input.triggers.map(toInternalTrigger),
+		context.now?.() ?? new Date(),
+	);
+	return {
+		sequence: toDefinitionOutput(definition),
+		triggers: (definition.triggers ?? []).map(toTriggerOutput),
+		updated,
+	};
+}
+
+export async function executeSequenceGoalsUpdateOperation(
+	context: SequenceOperationContext,
+	input: z.output<typeof sequenceGoalsUpdateInputSchema>,
+) {
+	const { definition, updated } = await repository(
+		context,
+	).updateDefinitionGoals(
+		input.id,
+		input.goals.map(toInternalGoal),
+		context.now?.() ?? new Date(),
+	);
+	return {
+		sequence: toDefinitionOutput(definition),
+		goals: (definition.goals ?? []).map(toGoalOutput),
+		updated,
+	};
+}
+
+export async function executeSequenceDeliveryUpdateOperation(
+	context: SequenceOperationContext,
+	input: z.output<typeof sequenceDeliveryUpdateInputSchema>,
+) {
+	const { definition, updated } = await repository(
+		context,
+	).updateDefinitionDelivery(
+		input.id,
+		{
+			window:
+				input.window === undefined ? undefined : toInternalWindow(input.window),
+			dailyCap: input.daily_cap,
+		},
+		context.now?.() ?? new Date(),
+	);
+	const delivery = definition.delivery ?? {};
+	return {
+		sequence: toDefinitionOutput(definition),
+		delivery: {
+			window:
+				delivery.window === undefined
+					? undefined
+					: toWindowOutput(delivery.window),
+			daily_cap: delivery.dailyCap,
+		},
+		updated,
+	};
+}
+
+export async function executeSequenceEventsIngestOperation(
+	context: SequenceOperationContext,
+	input: z.output<typeof sequenceEventsIngestInputSchema>,
+) {
+	return ingestCustomSequenceTriggerEvents(
+		repository(context),
+		input.events.map((event) => ({
+			id: event.id,
+			name: event.name,
+			subscriberId: event.subscriber_id,
+			subscriberUuid: event.subscriber_uuid,
+			subscriberEmail: event.subscriber_email,
+			data: event.data,
+			occurredAt: event.occurred_at,
+		})),
+		context.now?.() ?? new Date(),
+	);
+}
+
+export async function executeSequenceEngagementRecordOperation(
+	context: SequenceOperationContext,
+	input: z.output<typeof sequenceEngagementRecordInputSchema>,
+) {
+	const recordedAt = (context.now?.() ?? new Date()).toISOString();
+	return repository(context).recordEngagement(
+		input.events.map((event) => ({
+			enrollmentId: event.enrollment_id,
+			stepId: event.step_id,
+			event: event.event,
+			occurredAt: event.occurred_at ?? recordedAt,
+			recordedAt,
+		})),
+	);
+}
+
 export async function executeSequenceStatusOperation(
 	context: SequenceOperationContext,
 	input: z.output<typeof sequenceStatusInputSchema>,
@@ -802,6 +1641,7 @@ export async function executeSequenceStatusOperation(
 			...health.workers,
 			last_heartbeat_at: health.workers.lastHeartbeatAt,
 		},
+		funnels: health.funnels.map(toFunnelOutput),
 	};
 }
 
@@ -922,6 +1762,23 @@ export const sequenceEnrollOperation = defineOperation({
 	spec: bindSequenceEnrollOperationSpec(),
 	execute: executeSequenceEnrollOperation,
 });
+export const sequenceEnrollBulkOperation = defineOperation({
+	id: "sequences.enroll-bulk",
+	title: "Bulk enroll subscribers in sequence",
+	description:
+		"Enroll a Listmonk list or subscriber query into a sequence, skipping active enrollments, staggering starts, and returning a resume cursor.",
+	inputSchema: sequenceEnrollBulkInputSchema,
+	outputSchema: sequenceEnrollBulkOutputSchema,
+	safety: {
+		readOnlyHint: false,
+		destructiveHint: true,
+		idempotentHint: false,
+		openWorldHint: true,
+	},
+	mcp: { name: "listmonk_sequences_enroll_bulk" },
+	spec: bindSequenceEnrollBulkOperationSpec(),
+	execute: executeSequenceEnrollBulkOperation,
+});
 export const sequenceEnrollmentListOperation = defineOperation({
 	id: "sequences.enrollments.list",
 	title: "List sequence enrollments",
@@ -1023,6 +1880,23 @@ export const sequenceReconcileOperation = defineOperation({
 	spec: bindSequenceReconcileOperationSpec(),
 	execute: executeSequenceReconcileOperation,
 });
+export const sequenceMigrateOperation = defineOperation({
+	id: "sequences.migrate",
+	title: "Migrate sequence enrollments",
+	description:
+		"Preview or move live enrollments from one sequence revision to another, mapping their current steps.",
+	inputSchema: sequenceMigrateInputSchema,
+	outputSchema: sequenceMigrateOutputSchema,
+	safety: {
+		readOnlyHint: false,
+		destructiveHint: true,
+		idempotentHint: false,
+		openWorldHint: false,
+	},
+	mcp: { name: "listmonk_sequences_migrate" },
+	spec: bindSequenceMigrateOperationSpec(),
+	execute: executeSequenceMigrateOperation,
+});
 export const sequenceStatusOperation = defineOperation({
 	id: "sequences.status",
 	title: "Inspect sequence runtime health",
@@ -1040,6 +1914,109 @@ export const sequenceStatusOperation = defineOperation({
 	spec: bindSequenceStatusOperationSpec(),
 	execute: executeSequenceStatusOperation,
 });
+export const sequenceSplitsStatsOperation = defineOperation({
+	id: "sequences.splits.stats",
+	title: "Inspect sequence split stats",
+	description:
+		"Report per-branch assignment, expected share, send, open, click, and goal counts for every split step of a sequence.",
+	inputSchema: sequenceSplitsStatsInputSchema,
+	outputSchema: sequenceSplitsStatsOutputSchema,
+	safety: {
+		readOnlyHint: true,
+		destructiveHint: false,
+		idempotentHint: true,
+		openWorldHint: false,
+	},
+	mcp: { name: "listmonk_sequences_splits_stats" },
+	spec: bindSequenceSplitsStatsOperationSpec(),
+	execute: executeSequenceSplitsStatsOperation,
+});
+export const sequenceTriggersUpdateOperation = defineOperation({
+	id: "sequences.triggers.update",
+	title: "Replace sequence triggers",
+	description:
+		"Replace the list, subscriber-created, inbound delivery, and custom event triggers that the sequence worker uses to enroll subscribers.",
+	inputSchema: sequenceTriggersUpdateInputSchema,
+	outputSchema: sequenceTriggersUpdateOutputSchema,
+	safety: {
+		readOnlyHint: false,
+		destructiveHint: false,
+		idempotentHint: true,
+		openWorldHint: false,
+	},
+	mcp: { name: "listmonk_sequences_triggers_update" },
+	spec: bindSequenceTriggersUpdateOperationSpec(),
+	execute: executeSequenceTriggersUpdateOperation,
+});
+export const sequenceDeliveryUpdateOperation = defineOperation({
+	id: "sequences.delivery.update",
+	title: "Replace sequence delivery rules",
+	description:
+		"Replace the send window and per-subscriber daily cap that defer sequence send steps instead of delivering outside allowed hours.",
+	inputSchema: sequenceDeliveryUpdateInputSchema,
+	outputSchema: sequenceDeliveryUpdateOutputSchema,
+	safety: {
+		readOnlyHint: false,
+		destructiveHint: false,
+		idempotentHint: true,
+		openWorldHint: false,
+	},
+	mcp: { name: "listmonk_sequences_delivery_update" },
+	spec: bindSequenceDeliveryUpdateOperationSpec(),
+	execute: executeSequenceDeliveryUpdateOperation,
+});
+export const sequenceGoalsUpdateOperation = defineOperation({
+	id: "sequences.goals.update",
+	title: "Replace sequence goals",
+	description:
+		"Replace the goals and exit criteria the sequence worker checks before each step to end enrollments as goal_reached or exited.",
+	inputSchema: sequenceGoalsUpdateInputSchema,
+	outputSchema: sequenceGoalsUpdateOutputSchema,
+	safety: {
+		readOnlyHint: false,
+		destructiveHint: false,
+		idempotentHint: true,
+		openWorldHint: false,
+	},
+	mcp: { name: "listmonk_sequences_goals_update" },
+	spec: bindSequenceGoalsUpdateOperationSpec(),
+	execute: executeSequenceGoalsUpdateOperation,
+});
+export const sequenceEventsIngestOperation = defineOperation({
+	id: "sequences.events.ingest",
+	title: "Ingest sequence trigger events",
+	description:
+		"Queue custom named events for custom_event sequence triggers and goals; the sequence worker resolves subscribers, enrolls them, and records goal events on its next tick.",
+	inputSchema: sequenceEventsIngestInputSchema,
+	outputSchema: sequenceEventsIngestOutputSchema,
+	safety: {
+		readOnlyHint: false,
+		destructiveHint: false,
+		idempotentHint: true,
+		openWorldHint: false,
+	},
+	mcp: { name: "listmonk_sequences_events_ingest" },
+	spec: bindSequenceEventsIngestOperationSpec(),
+	execute: executeSequenceEventsIngestOperation,
+});
+
+export const sequenceEngagementRecordOperation = defineOperation({
+	id: "sequences.engagement.record",
+	title: "Record sequence engagement",
+	description:
+		"Record opens and clicks of sequence send steps so engagement conditions can branch on them; repeated events are counted as duplicates.",
+	inputSchema: sequenceEngagementRecordInputSchema,
+	outputSchema: sequenceEngagementRecordOutputSchema,
+	safety: {
+		readOnlyHint: false,
+		destructiveHint: false,
+		idempotentHint: true,
+		openWorldHint: false,
+	},
+	mcp: { name: "listmonk_sequences_engagement_record" },
+	spec: bindSequenceEngagementRecordOperationSpec(),
+	execute: executeSequenceEngagementRecordOperation,
+});
 
 export async function invokeSequenceValidateOperation(
 	context: SequenceOperationContext,
@@ -1168,6 +2145,28 @@ export async function invokeSequenceEnrollOperation(
 	}
 }
 
+export async function invokeSequenceEnrollBulkOperation(
+	context: SequenceOperationContext,
+	input: unknown,
+) {
+	const parsed = parseOperationInput(
+		sequenceEnrollBulkOperation.inputSchema,
+		input,
+	);
+	try {
+		return parseOperationOutput(
+			sequenceEnrollBulkOperation.id,
+			sequenceEnrollBulkOperation.outputSchema,
+			await executeSequenceEnrollBulkOperation(context, parsed),
+		);
+	} catch (error) {
+		throw normalizeOperationExecutionError(
+			sequenceEnrollBulkOperation.id,
+			error,
+		);
+	}
+}
+
 export async function invokeSequenceEnrollmentListOperation(
 	context: SequenceOperationContext,
 	input: unknown,
@@ -1285,6 +2284,28 @@ export async function invokeSequenceReconcileOperation(
 	}
 }
 
+export async function invokeSequenceMigrateOperation(
+	context: SequenceOperationContext,
+	input: unknown,
+) {
+	const parsed = parseOperationInput(
+		sequenceMigrateOperation.inputSchema,
+		input,
+	);
+	try {
+		return parseOperationOutput(
+			sequenceMigrateOperation.id,
+			sequenceMigrateOperation.outputSchema,
+			await executeSequenceMigrateOperation(context, parsed),
+		);
+	} catch (error) {
+		throw normalizeOperationExecutionError(
+			sequenceMigrateOperation.id,
+			error,
+		);
+	}
+}
+
 export async function invokeSequenceStatusOperation(
 	context: SequenceOperationContext,
 	input: unknown,
@@ -1304,6 +2325,138 @@ export async function invokeSequenceStatusOperation(
 	}
 }
 
+export async function invokeSequenceTriggersUpdateOperation(
+	context: SequenceOperationContext,
+	input: unknown,
+) {
+	const parsed = parseOperationInput(
+		sequenceTriggersUpdateOperation.inputSchema,
+		input,
+	);
+	try {
+		return parseOperationOutput(
+			sequenceTriggersUpdateOperation.id,
+			sequenceTriggersUpdateOperation.outputSchema,
+			await executeSequenceTriggersUpdateOperation(context, parsed),
+		);
+	} catch (error) {
+		throw normalizeOperationExecutionError(
+			sequenceTriggersUpdateOperation.id,
+			error,
+		);
+	}
+}
+
+export async function invokeSequenceEventsIngestOperation(
+	context: SequenceOperationContext,
+	input: unknown,
+) {
+	const parsed = parseOperationInput(
+		sequenceEventsIngestOperation.inputSchema,
+		input,
+	);
+	try {
+		return parseOperationOutput(
+			sequenceEventsIngestOperation.id,
+			sequenceEventsIngestOperation.outputSchema,
+			await executeSequenceEventsIngestOperation(context, parsed),
+		);
+	} catch (error) {
+		throw normalizeOperationExecutionError(
+			sequenceEventsIngestOperation.id,
+			error,
+		);
+	}
+}
+
+export async function invokeSequenceDeliveryUpdateOperation(
+	context: SequenceOperationContext,
+	input: unknown,
+) {
+	const parsed = parseOperationInput(
+		sequenceDeliveryUpdateOperation.inputSchema,
+		input,
+	);
+	try {
+		return parseOperationOutput(
+			sequenceDeliveryUpdateOperation.id,
+			sequenceDeliveryUpdateOperation.outputSchema,
+			await executeSequenceDeliveryUpdateOperation(context, parsed),
+		);
+	} catch (error) {
+		throw normalizeOperationExecutionError(
+			sequenceDeliveryUpdateOperation.id,
+			error,
+		);
+	}
+}
+
+export async function invokeSequenceGoalsUpdateOperation(
+	context: SequenceOperationContext,
+	input: unknown,
+) {
+	const parsed = parseOperationInput(
+		sequenceGoalsUpdateOperation.inputSchema,
+		input,
+	);
+	try {
+		return parseOperationOutput(
+			sequenceGoalsUpdateOperation.id,
+			sequenceGoalsUpdateOperation.outputSchema,
+			await executeSequenceGoalsUpdateOperation(context, parsed),
+		);
+	} catch (error) {
+		throw normalizeOperationExecutionError(
+			sequenceGoalsUpdateOperation.id,
+			error,
+		);
+	}
+}
+
+export async function invokeSequenceSplitsStatsOperation(
+	context: SequenceOperationContext,
+	input: unknown,
+) {
+	const parsed = parseOperationInput(
+		sequenceSplitsStatsOperation.inputSchema,
+		input,
+	);
+	try {
+		return parseOperationOutput(
+			sequenceSplitsStatsOperation.id,
+			sequenceSplitsStatsOperation.outputSchema,
+			await executeSequenceSplitsStatsOperation(context, parsed),
+		);
+	} catch (error) {
+		throw normalizeOperationExecutionError(
+			sequenceSplitsStatsOperation.id,
+			error,
+		);
+	}
+}
+
+export async function invokeSequenceEngagementRecordOperation(
+	context: SequenceOperationContext,
+	input: unknown,
+) {
+	const parsed = parseOperationInput(
+		sequenceEngagementRecordOperation.inputSchema,
+		input,
+	);
+	try {
+		return parseOperationOutput(
+			sequenceEngagementRecordOperation.id,
+			sequenceEngagementRecordOperation.outputSchema,
+			await executeSequenceEngagementRecordOperation(context, parsed),
+		);
+	} catch (error) {
+		throw normalizeOperationExecutionError(
+			sequenceEngagementRecordOperation.id,
+			error,
+		);
+	}
+}
+
 const bindings = [
 	{
 		operation: sequenceValidateOperation,
@@ -1315,6 +2468,10 @@ const bindings = [
 	{ operation: sequenceGetOperation, invoke: invokeSequenceGetOperation },
 	{ operation: sequenceDeleteOperation, invoke: invokeSequenceDeleteOperation },
 	{ operation: sequenceEnrollOperation, invoke: invokeSequenceEnrollOperation },
+	{
+		operation: sequenceEnrollBulkOperation,
+		invoke: invokeSequenceEnrollBulkOperation,
+	},
 	{
 		operation: sequenceEnrollmentListOperation,
 		invoke: invokeSequenceEnrollmentListOperation,
@@ -1330,7 +2487,35 @@ const bindings = [
 		operation: sequenceReconcileOperation,
 		invoke: invokeSequenceReconcileOperation,
 	},
+	{
+		operation: sequenceMigrateOperation,
+		invoke: invokeSequenceMigrateOperation,
+	},
 	{ operation: sequenceStatusOperation, invoke: invokeSequenceStatusOperation },
+	{
+		operation: sequenceSplitsStatsOperation,
+		invoke: invokeSequenceSplitsStatsOperation,
+	},
+	{
+		operation: sequenceTriggersUpdateOperation,
+		invoke: invokeSequenceTriggersUpdateOperation,
+	},
+	{
+		operation: sequenceEventsIngestOperation,
+		invoke: invokeSequenceEventsIngestOperation,
+	},
+	{
+		operation: sequenceDeliveryUpdateOperation,
+		invoke: invokeSequenceDeliveryUpdateOperation,
+	},
+	{
+		operation: sequenceGoalsUpdateOperation,
+		invoke: invokeSequenceGoalsUpdateOperation,
+	},
+	{
+		operation: sequenceEngagementRecordOperation,
+		invoke: invokeSequenceEngagementRecordOperation,
+	},
 ] as const;
 
 export const sequenceOperations = bindings.map((binding) => binding.operation);
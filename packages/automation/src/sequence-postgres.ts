@@ -9,24 +9,46 @@ import {
 } from "@listmonk-ops/operations";
 import postgres, { type Sql, type TransactionSql } from "postgres";
 import {
+	buildSequenceFunnels,
 	DEFAULT_SEQUENCE_WORKER_RETENTION_MS,
+	isSequenceSendStep,
+	MAX_SEQUENCE_TRIGGER_EVENTS,
 	parsePersistedSequenceDefinition,
 	parseSequenceDefinition,
+	parseSequenceEngagement,
 	parseSequenceEnrollment,
+	parseSequenceGoalEvent,
+	parseSequenceSendReservation,
+	parseSequenceTriggerCursor,
+	parseSequenceTriggerEvent,
+	planSequenceEnrollmentMigration,
+	scheduledSequenceEnrollmentStart,
+	SEQUENCE_TRIGGER_EVENT_RETENTION_MS,
 	SequenceConflictError,
 	SequenceNotFoundError,
 	type ClaimedSequenceEnrollment,
 	type SequenceDefinition,
+	type SequenceEngagementRecordResult,
 	type SequenceEnrollment,
 	type SequenceEnrollmentListOptions,
+	type SequenceEnrollmentStatus,
 	type SequenceRepository,
 	type SequenceRuntimeHealth,
+	type SequenceSendReservationResult,
+	type SequenceTriggerEvent,
 	type UpdateSequenceDefinitionInput,
+	validateSequenceDelivery,
+	validateSequenceGoals,
 	validateSequenceSteps,
+	validateSequenceTriggers,
+	canonicalDeliveryJson,
+	canonicalGoalsJson,
 	canonicalStepsJson,
+	canonicalTriggersJson,
 } from "./sequences";
+import { SEQUENCE_FREQUENCY_WINDOW_MS } from "./sequence-delivery";
 
-export const SEQUENCE_POSTGRES_SCHEMA_VERSION = 2;
+export const SEQUENCE_POSTGRES_SCHEMA_VERSION = 6;
 
 export interface PostgresSequenceRepositoryOptions {
 	connectionString: string;
@@ -61,6 +83,8 @@ type EnrollmentHealthRow = Record<
 	| "failed"
 	| "ambiguous"
 	| "cancelled"
+	| "goal_reached"
+	| "exited"
 	| "due"
 	| "leased",
 	number
@@ -89,6 +113,41 @@ type IdempotencyRow = {
 	expires_at: string | Date;
 };
 
+type TriggerEventRow = {
+	id: string;
+	event: unknown;
+};
+
+type TriggerCursorRow = {
+	cursor: unknown;
+};
+
+type EngagementRow = {
+	enrollment_id: string;
+	step_id: string;
+	event: string;
+	occurred_at: Date;
+	recorded_at: Date;
+};
+
+type SendReservationRow = {
+	reserved_at: Date;
+};
+
+type GoalEventRow = {
+	enrollment_id: string;
+	goal_id: string;
+	occurred_at: Date;
+	recorded_at: Date;
+};
+
+type FunnelCountRow = {
+	sequence_id: string;
+	status: SequenceEnrollmentStatus;
+	goal_id: string | null;
+	count: number;
+};
+
 type ActiveEnrollmentConflictRow = {
 	sequence_id: string;
 	subscriber_id: string;
@@ -313,6 +372,129 @@ async function initializeSchema(sql: Sql): Promise<void> {
 				WHERE key = 'schema_version'
 			`;
 		}
+		if (storedVersion < 3) {
+			await transaction`
+				CREATE TABLE IF NOT EXISTS listmonk_ops.sequence_trigger_events (
+					id uuid PRIMARY KEY,
+					event jsonb NOT NULL,
+					received_at timestamptz NOT NULL,
+					lease_token uuid,
+					lease_expires_at timestamptz,
+					processed_at timestamptz
+				)
+			`;
+			await transaction`
+				CREATE INDEX IF NOT EXISTS sequence_trigger_events_pending_idx
+				ON listmonk_ops.sequence_trigger_events (received_at, id)
+				WHERE processed_at IS NULL
+			`;
+			await transaction`
+				CREATE TABLE IF NOT EXISTS listmonk_ops.sequence_trigger_cursors (
+					sequence_id uuid NOT NULL
+						REFERENCES listmonk_ops.sequence_definitions(id)
+						ON DELETE CASCADE,
+					trigger_id text NOT NULL,
+					cursor jsonb NOT NULL,
+					updated_at timestamptz NOT NULL,
+					PRIMARY KEY (sequence_id, trigger_id)
+				)
+			`;
+			await transaction`
+				UPDATE listmonk_ops.sequence_runtime_meta
+				SET value = '3', updated_at = now()
+				WHERE key = 'schema_version'
+			`;
+		}
+		if (storedVersion < 4) {
+			await transaction`
+				CREATE TABLE IF NOT EXISTS listmonk_ops.sequence_engagement (
+					enrollment_id uuid NOT NULL
+						REFERENCES listmonk_ops.sequence_enrollments(id)
+						ON DELETE CASCADE,
+					step_id text NOT NULL,
+					event text NOT NULL CHECK (event IN ('opened', 'clicked')),
+					occurred_at timestamptz NOT NULL,
+					recorded_at timestamptz NOT NULL,
+					PRIMARY KEY (enrollment_id, step_id, event)
+				)
+			`;
+			await transaction`
+				UPDATE listmonk_ops.sequence_runtime_meta
+				SET value = '4', updated_at = now()
+				WHERE key = 'schema_version'
+			`;
+		}
+		if (storedVersion < 5) {
+			await transaction`
+				CREATE TABLE IF NOT EXISTS listmonk_ops.sequence_send_reservations (
+					key text PRIMARY KEY,
+					subscriber_id bigint NOT NULL CHECK (subscriber_id > 0),
+					reserved_at timestamptz NOT NULL
+				)
+			`;
+			await transaction`
+				CREATE INDEX IF NOT EXISTS sequence_send_reservations_subscriber_idx
+				ON listmonk_ops.sequence_send_reservations (
+					subscriber_id,
+					reserved_at DESC
+				)
+			`;
+			await transaction`
+				CREATE INDEX IF NOT EXISTS sequence_send_reservations_expiry_idx
+				ON listmonk_ops.sequence_send_reservations (reserved_at)
+			`;
+			await transaction`
+				UPDATE listmonk_ops.sequence_runtime_meta
+				SET value = '5', updated_at = now()
+				WHERE key = 'schema_version'
+			`;
+		}
+		if (storedVersion < 6) {
+			await transaction`
+				ALTER TABLE listmonk_ops.sequence_enrollments
+				DROP CONSTRAINT IF EXISTS sequence_enrollments_status_check
+			`;
+			await transaction`
+				ALTER TABLE listmonk_ops.sequence_enrollments
+				ADD CONSTRAINT sequence_enrollments_status_check CHECK (
+					status IN (
+						'pending', 'running', 'waiting', 'paused',
+						'completed', 'failed', 'ambiguous', 'cancelled',
+						'goal_reached', 'exited'
+					)
+				)
+			`;
+			await transaction`
+				DROP INDEX IF EXISTS
+					listmonk_ops.sequence_enrollments_active_unique_idx
+			`;
+			await transaction`
+				CREATE UNIQUE INDEX sequence_enrollments_active_unique_idx
+				ON listmonk_ops.sequence_enrollments (
+					sequence_id,
+					subscriber_id
+				)
+				WHERE status NOT IN (
+					'completed', 'failed', 'cancelled', 'goal_reached', 'exited'
+				)
+			`;
+			await transaction`
+				CREATE TABLE IF NOT EXISTS listmonk_ops.sequence_goal_events (
+					enrollment_id uuid NOT NULL
+						REFERENCES listmonk_ops.sequence_enrollments(id)
+						ON DELETE CASCADE,
+					goal_id text NOT NULL,
+					occurred_at timestamptz NOT NULL,
+					recorded_at timestamptz NOT NULL,
+					PRIMARY KEY (enrollment_id, goal_id)
+				)
+			`;
+			await transaction`
+				UPDATE listmonk_ops.sequence_runtime_meta
+				SET value = '6', updated_at = now()
+				WHERE key = 'schema_version'
+			`;
+		}
 	});
 }
 
@@ -324,6 +506,29 @@ function toEnrollment(row: EnrollmentRow): SequenceEnrollment {
 	return parseSequenceEnrollment(row.enrollment);
 }
 
+function toTriggerEvent(row: TriggerEventRow): SequenceTriggerEvent {
+	return parseSequenceTriggerEvent(row.event);
+}
+
+function toGoalEvent(row: GoalEventRow) {
+	return parseSequenceGoalEvent({
+		enrollmentId: row.enrollment_id,
+		goalId: row.goal_id,
+		occurredAt: row.occurred_at.toISOString(),
+		recordedAt: row.recorded_at.toISOString(),
+	});
+}
+
+function toEngagement(row: EngagementRow) {
+	return parseSequenceEngagement({
+		enrollmentId: row.enrollment_id,
+		stepId: row.step_id,
+		event: row.event,
+		occurredAt: row.occurred_at.toISOString(),
+		recordedAt: row.recorded_at.toISOString(),
+	});
+}
+
 function isUniqueViolation(error: unknown): boolean {
 	return (
 		error instanceof Error &&
@@ -725,7 +930,9 @@ export function createPostgresSequenceRepository(
 					SELECT id
 					FROM listmonk_ops.sequence_enrollments
 					WHERE sequence_id = ${id}::uuid
-						AND status NOT IN ('completed', 'failed', 'cancelled')
+						AND status NOT IN (
+							'completed', 'failed', 'cancelled', 'goal_reached', 'exited'
+						)
 					LIMIT 1
 				`;
 				if (activeRows.length > 0) {
@@ -780,6 +987,121 @@ export function createPostgresSequenceRepository(
 				return updated;
 			});
 		},
+		async updateDefinitionTriggers(id, triggers, now) {
+			const validatedTriggers = validateSequenceTriggers(triggers);
+			await ready();
+			return sql.begin(async (transaction) => {
+				const rows = await transaction<DefinitionRow[]>`
+					SELECT id, definition
+					FROM listmonk_ops.sequence_definitions
+					WHERE id = ${id}::uuid
+					FOR UPDATE
+				`;
+				const row = rows[0];
+				if (!row) {
+					throw new SequenceNotFoundError("definition", id);
+				}
+				const previous = toDefinition(row);
+				if (
+					canonicalTriggersJson(previous.triggers ?? []) ===
+					canonicalTriggersJson(validatedTriggers)
+				) {
+					return { definition: previous, updated: false };
+				}
+				const updated = parsePersistedSequenceDefinition({
+					...previous,
+					triggers: validatedTriggers,
+					updatedAt: now.toISOString(),
+				});
+				await transaction`
+					UPDATE listmonk_ops.sequence_definitions
+					SET
+						definition = ${transaction.json(updated as never)},
+						updated_at = ${updated.updatedAt}::timestamptz
+					WHERE id = ${id}::uuid
+				`;
+				await transaction`
+					DELETE FROM listmonk_ops.sequence_trigger_cursors
+					WHERE sequence_id = ${id}::uuid
+						AND trigger_id <> ALL(${transaction.array(
+							validatedTriggers.map((trigger) => trigger.id),
+						)}::text[])
+				`;
+				return { definition: updated, updated: true };
+			});
+		},
+		async updateDefinitionDelivery(id, delivery, now) {
+			const validatedDelivery = validateSequenceDelivery(delivery);
+			await ready();
+			return sql.begin(async (transaction) => {
+				const rows = await transaction<DefinitionRow[]>`
+					SELECT id, definition
+					FROM listmonk_ops.sequence_definitions
+					WHERE id = ${id}::uuid
+					FOR UPDATE
+				`;
+				const row = rows[0];
+				if (!row) {
+					throw new SequenceNotFoundError("definition", id);
+				}
+				const previous = toDefinition(row);
+				if (
+					canonicalDeliveryJson(previous.delivery ?? {}) ===
+					canonicalDeliveryJson(validatedDelivery)
+				) {
+					return { definition: previous, updated: false };
+				}
+				const updated = parsePersistedSequenceDefinition({
+					...previous,
+					delivery: validatedDelivery,
+					updatedAt: now.toISOString(),
+				});
+				await transaction`
+					UPDATE listmonk_ops.sequence_definitions
+					SET
+						definition = ${transaction.json(updated as never)},
+						updated_at = ${updated.updatedAt}::timestamptz
+					WHERE id = ${id}::uuid
+				`;
+				return { definition: updated, updated: true };
+			});
+		},
+		async updateDefinitionGoals(id, goals, now) {
+			const validatedGoals = validateSequenceGoals(goals);
+			await ready();
+			return sql.begin(async (transaction) => {
+				const rows = await transaction<DefinitionRow[]>`
+					SELECT id, definition
+					FROM listmonk_ops.sequence_definitions
+					WHERE id = ${id}::uuid
+					FOR UPDATE
+				`;
+				const row = rows[0];
+				if (!row) {
+					throw new SequenceNotFoundError("definition", id);
+				}
+				const previous = toDefinition(row);
+				if (
+					canonicalGoalsJson(previous.goals ?? []) ===
+					canonicalGoalsJson(validatedGoals)
+				) {
+					return { definition: previous, updated: false };
+				}
+				const updated = parsePersistedSequenceDefinition({
+					...previous,
+					goals: validatedGoals,
+					updatedAt: now.toISOString(),
+				});
+				await transaction`
+					UPDATE listmonk_ops.sequence_definitions
+					SET
+						definition = ${transaction.json(updated as never)},
+						updated_at = ${updated.updatedAt}::timestamptz
+					WHERE id = ${id}::uuid
+				`;
+				return { definition: updated, updated: true };
+			});
+		},
 		async listEnrollments(options: SequenceEnrollmentListOptions = {}) {
 			await ready();
 			const limit = Math.min(1_000, Math.max(1, options.limit ?? 100));
@@ -794,6 +1116,8 @@ export function createPostgresSequenceRepository(
 						"failed",
 						"ambiguous",
 						"cancelled",
+						"goal_reached",
+						"exited",
 					];
 			const sequenceIds = options.sequenceId
 				? [options.sequenceId]
@@ -852,6 +1176,48 @@ export function createPostgresSequenceRepository(
 			}
 			return enrollment;
 		},
+		async createEnrollments(enrollments, schedule) {
+			await ready();
+			return sql.begin(async (transaction) => {
+				const created: SequenceEnrollment[] = [];
+				for (const candidate of enrollments) {
+					const enrollment = {
+						...candidate,
+						nextRunAt: scheduledSequenceEnrollmentStart(
+							schedule,
+							created.length,
+						),
+					};
+					// The active-enrollment unique index turns duplicates into no-ops.
+					const rows = await transaction<{ id: string }[]>`
+						INSERT INTO listmonk_ops.sequence_enrollments (
+							id, sequence_id, revision, subscriber_id, status,
+							next_run_at, lease_token, lease_expires_at, enrollment,
+							created_at, updated_at
+						)
+						VALUES (
+							${enrollment.id}::uuid,
+							${enrollment.sequenceId}::uuid,
+							${enrollment.revision},
+							${enrollment.subscriberId},
+							${enrollment.status},
+							${enrollment.nextRunAt}::timestamptz,
+							NULL,
+							NULL,
+							${transaction.json(enrollment as never)},
+							${enrollment.createdAt}::timestamptz,
+							${enrollment.updatedAt}::timestamptz
+						)
+						ON CONFLICT DO NOTHING
+						RETURNING id
+					`;
+					if (rows.length > 0) {
+						created.push(enrollment);
+					}
+				}
+				return created;
+			});
+		},
 		async claimDue(options) {
 			await ready();
 			return sql.begin(async (transaction) => {
@@ -966,7 +1332,9 @@ export function createPostgresSequenceRepository(
 					FROM listmonk_ops.sequence_enrollments
 					WHERE lease_expires_at IS NOT NULL
 						AND lease_expires_at <= ${options.now.toISOString()}::timestamptz
-						AND status NOT IN ('completed', 'failed', 'cancelled')
+						AND status NOT IN (
+							'completed', 'failed', 'cancelled', 'goal_reached', 'exited'
+						)
 					ORDER BY lease_expires_at ASC
 					FOR UPDATE SKIP LOCKED
 					LIMIT ${options.limit}
@@ -1001,6 +1369,50 @@ export function createPostgresSequenceRepository(
 				};
 			});
 		},
+		async migrateEnrollments(options) {
+			await ready();
+			return sql.begin(async (transaction) => {
+				const definitionRows = await transaction<DefinitionRow[]>`
+					SELECT id, definition
+					FROM listmonk_ops.sequence_definitions
+					WHERE id = ${options.sequenceId}::uuid
+					FOR SHARE
+				`;
+				const definitionRow = definitionRows[0];
+				if (!definitionRow) {
+					throw new SequenceNotFoundError("definition", options.sequenceId);
+				}
+				const rows = await transaction<EnrollmentRow[]>`
+					SELECT id, enrollment, lease_token
+					FROM listmonk_ops.sequence_enrollments
+					WHERE sequence_id = ${options.sequenceId}::uuid
+						AND revision = ${options.fromRevision}
+						AND status NOT IN (
+							'completed', 'failed', 'cancelled', 'goal_reached', 'exited'
+						)
+					ORDER BY created_at ASC, id ASC
+					FOR UPDATE
+				`;
+				const { result, migrated } = planSequenceEnrollmentMigration(
+					toDefinition(definitionRow),
+					rows.map(toEnrollment),
+					options,
+				);
+				if (!options.dryRun) {
+					for (const enrollment of migrated) {
+						await transaction`
+							UPDATE listmonk_ops.sequence_enrollments
+							SET
+								revision = ${enrollment.revision},
+								enrollment = ${transaction.json(enrollment as never)},
+								updated_at = ${enrollment.updatedAt}::timestamptz
+							WHERE id = ${enrollment.id}::uuid
+						`;
+					}
+				}
+				return result;
+			});
+		},
 		async getRuntimeHealth(options): Promise<SequenceRuntimeHealth> {
 			await ready();
 			const nowIso = options.now.toISOString();
@@ -1012,7 +1424,13 @@ export function createPostgresSequenceRepository(
 					OR lease_expires_at <= ${nowIso}::timestamptz
 				)
 			`;
-			const [definitionRows, enrollmentRows, workerRows] = await Promise.all([
+			const [
+				definitionRows,
+				enrollmentRows,
+				workerRows,
+				definitions,
+				funnelRows,
+			] = await Promise.all([
 				sql<DefinitionHealthRow[]>`
 					SELECT
 						count(*)::int AS total,
@@ -1030,6 +1448,10 @@ export function createPostgresSequenceRepository(
 						count(*) FILTER (WHERE status = 'failed')::int AS failed,
 						count(*) FILTER (WHERE status = 'ambiguous')::int AS ambiguous,
 						count(*) FILTER (WHERE status = 'cancelled')::int AS cancelled,
+						count(*) FILTER (
+							WHERE status = 'goal_reached'
+						)::int AS goal_reached,
+						count(*) FILTER (WHERE status = 'exited')::int AS exited,
 						count(*) FILTER (WHERE ${dueCondition})::int AS due,
 						count(*) FILTER (
 							WHERE lease_expires_at > ${nowIso}::timestamptz
@@ -1051,8 +1473,22 @@ export function createPostgresSequenceRepository(
 						max(heartbeat_at) AS last_heartbeat_at
 					FROM listmonk_ops.sequence_workers
 				`,
+				sql<DefinitionRow[]>`
+					SELECT id, definition
+					FROM listmonk_ops.sequence_definitions
+					ORDER BY created_at ASC, id ASC
+				`,
+				sql<FunnelCountRow[]>`
+					SELECT
+						sequence_id::text AS sequence_id,
+						status,
+						enrollment->>'goalId' AS goal_id,
+						count(*)::int AS count
+					FROM listmonk_ops.sequence_enrollments
+					GROUP BY sequence_id, status, enrollment->>'goalId'
+				`,
 			]);
-			const definitions = definitionRows[0] ?? {
+			const definitionCounts = definitionRows[0] ?? {
 				total: 0,
 				active: 0,
 				paused: 0,
@@ -1066,6 +1502,8 @@ export function createPostgresSequenceRepository(
 				failed: 0,
 				ambiguous: 0,
 				cancelled: 0,
+				goal_reached: 0,
+				exited: 0,
 				due: 0,
 				leased: 0,
 				oldest_due_at: null,
@@ -1089,7 +1527,7 @@ export function createPostgresSequenceRepository(
 					(enrollments.due === 0 ||
 						workers.running > workers.stale),
 				checkedAt: nowIso,
-				definitions,
+				definitions: definitionCounts,
 				enrollments: {
 					...enrollmentCounts,
 					oldestDueAt: optionalTimestamp(oldestDueAt),
@@ -1101,6 +1539,15 @@ export function createPostgresSequenceRepository(
 					failed: workers.failed,
 					lastHeartbeatAt: optionalTimestamp(workers.last_heartbeat_at),
 				},
+				funnels: buildSequenceFunnels(
+					definitions.map(toDefinition),
+					funnelRows.map((row) => ({
+						sequenceId: row.sequence_id,
+						status: row.status,
+						goalId: row.goal_id ?? undefined,
+						count: row.count,
+					})),
+				),
 			};
 		},
 		async upsertWorker(worker) {
@@ -1132,6 +1579,366 @@ export function createPostgresSequenceRepository(
 				`;
 			});
 		},
+		async enqueueTriggerEvents(events) {
+			const parsed = events.map(parseSequenceTriggerEvent);
+			await ready();
+			return sql.begin(async (transaction) => {
+				await transaction`
+					SELECT pg_advisory_xact_lock(
+						hashtext('listmonk_ops'),
+						hashtext('sequence_trigger_events')
+					)
+				`;
+				let accepted = 0;
+				for (const event of parsed) {
+					const rows = await transaction<{ id: string }[]>`
+						INSERT INTO listmonk_ops.sequence_trigger_events (
+							id, event, received_at
+						)
+						VALUES (
+							${event.id}::uuid,
+							${transaction.json(event as never)},
+							${event.receivedAt}::timestamptz
+						)
+						ON CONFLICT (id) DO NOTHING
+						RETURNING id
+					`;
+					accepted += rows.length;
+				}
+				const pendingRows = await transaction<{ count: number }[]>`
+					SELECT count(*)::integer AS count
+					FROM listmonk_ops.sequence_trigger_events
+					WHERE processed_at IS NULL
+				`;
+				if ((pendingRows[0]?.count ?? 0) > MAX_SEQUENCE_TRIGGER_EVENTS) {
+					throw new RangeError(
+						`Sequence trigger inbox is full (${MAX_SEQUENCE_TRIGGER_EVENTS} events); run the sequence worker to drain it`,
+					);
+				}
+				return { accepted, duplicates: parsed.length - accepted };
+			});
+		},
+		async claimTriggerEvents(options) {
+			await ready();
+			return sql.begin(async (transaction) => {
+				const rows = await transaction<TriggerEventRow[]>`
+					SELECT id, event
+					FROM listmonk_ops.sequence_trigger_events
+					WHERE processed_at IS NULL
+						AND (
+							lease_expires_at IS NULL
+							OR lease_expires_at <= ${options.now.toISOString()}::timestamptz
+						)
+					ORDER BY received_at ASC, id ASC
+					FOR UPDATE SKIP LOCKED
+					LIMIT ${options.limit}
+				`;
+				const claimed: SequenceTriggerEvent[] = [];
+				for (const row of rows) {
+					const leased = parseSequenceTriggerEvent({
+						...toTriggerEvent(row),
+						leaseToken: randomUUID(),
+						leaseExpiresAt: new Date(
+							options.now.getTime() + options.leaseMs,
+						).toISOString(),
+					});
+					await transaction`
+						UPDATE listmonk_ops.sequence_trigger_events
+						SET
+							event = ${transaction.json(leased as never)},
+							lease_token = ${leased.leaseToken ?? null}::uuid,
+							lease_expires_at = ${leased.leaseExpiresAt ?? null}::timestamptz
+						WHERE id = ${leased.id}::uuid
+					`;
+					claimed.push(leased);
+				}
+				return claimed;
+			});
+		},
+		async completeTriggerEvents(events, now) {
+			await ready();
+			await sql.begin(async (transaction) => {
+				for (const event of events) {
+					if (event.leaseToken === undefined) {
+						continue;
+					}
+					const processed = parseSequenceTriggerEvent({
+						...event,
+						leaseToken: undefined,
+						leaseExpiresAt: undefined,
+						processedAt: now.toISOString(),
+					});
+					await transaction`
+						UPDATE listmonk_ops.sequence_trigger_events
+						SET
+							event = ${transaction.json(processed as never)},
+							lease_token = NULL,
+							lease_expires_at = NULL,
+							processed_at = ${now.toISOString()}::timestamptz
+						WHERE id = ${event.id}::uuid
+							AND lease_token = ${event.leaseToken}::uuid
+					`;
+				}
+				const cutoff = new Date(
+					now.getTime() - SEQUENCE_TRIGGER_EVENT_RETENTION_MS,
+				).toISOString();
+				await transaction`
+					DELETE FROM listmonk_ops.sequence_trigger_events
+					WHERE processed_at < ${cutoff}::timestamptz
+				`;
+			});
+		},
+		async getTriggerCursor(sequenceId, triggerId) {
+			await ready();
+			const rows = await sql<TriggerCursorRow[]>`
+				SELECT cursor
+				FROM listmonk_ops.sequence_trigger_cursors
+				WHERE sequence_id = ${sequenceId}::uuid
+					AND trigger_id = ${triggerId}
+			`;
+			const row = rows[0];
+			return row ? parseSequenceTriggerCursor(row.cursor) : undefined;
+		},
+		async saveTriggerCursor(cursor) {
+			const parsed = parseSequenceTriggerCursor(cursor);
+			await ready();
+			try {
+				await sql`
+					INSERT INTO listmonk_ops.sequence_trigger_cursors (
+						sequence_id, trigger_id, cursor, updated_at
+					)
+					VALUES (
+						${parsed.sequenceId}::uuid,
+						${parsed.triggerId},
+						${sql.json(parsed as never)},
+						${parsed.updatedAt}::timestamptz
+					)
+					ON CONFLICT (sequence_id, trigger_id) DO UPDATE SET
+						cursor = EXCLUDED.cursor,
+						updated_at = EXCLUDED.updated_at
+				`;
+			} catch (error) {
+				if (
+					error instanceof Error &&
+					"code" in error &&
+					(error as Error & { code?: unknown }).code === "23503"
+				) {
+					throw new SequenceNotFoundError("definition", parsed.sequenceId);
+				}
+				throw error;
+			}
+		},
+		async recordEngagement(records) {
+			const parsed = records.map(parseSequenceEngagement);
+			await ready();
+			return sql.begin(async (transaction) => {
+				let recorded = 0;
+				let unknown = 0;
+				const definitions = new Map<string, SequenceDefinition | undefined>();
+				for (const record of parsed) {
+					const enrollmentRows = await transaction<EnrollmentRow[]>`
+						SELECT id, enrollment
+						FROM listmonk_ops.sequence_enrollments
+						WHERE id = ${record.enrollmentId}::uuid
+					`;
+					const enrollment = enrollmentRows[0]
+						? toEnrollment(enrollmentRows[0])
+						: undefined;
+					if (enrollment && !definitions.has(enrollment.sequenceId)) {
+						const definitionRows = await transaction<DefinitionRow[]>`
+							SELECT id, definition
+							FROM listmonk_ops.sequence_definitions
+							WHERE id = ${enrollment.sequenceId}::uuid
+						`;
+						definitions.set(
+							enrollment.sequenceId,
+							definitionRows[0] ? toDefinition(definitionRows[0]) : undefined,
+						);
+					}
+					const definition = enrollment
+						? definitions.get(enrollment.sequenceId)
+						: undefined;
+					if (
+						!enrollment ||
+						!definition ||
+						!isSequenceSendStep(definition, enrollment.revision, record.stepId)
+					) {
+						unknown += 1;
+						continue;
+					}
+					const inserted = await transaction`
+						INSERT INTO listmonk_ops.sequence_engagement (
+							enrollment_id, step_id, event, occurred_at, recorded_at
+						)
+						VALUES (
+							${record.enrollmentId}::uuid,
+							${record.stepId},
+							${record.event},
+							${record.occurredAt}::timestamptz,
+							${record.recordedAt}::timestamptz
+						)
+						ON CONFLICT (enrollment_id, step_id, event) DO NOTHING
+						RETURNING enrollment_id
+					`;
+					recorded += inserted.length;
+				}
+				const result: SequenceEngagementRecordResult = {
+					recorded,
+					duplicates: parsed.length - recorded - unknown,
+					unknown,
+				};
+				return result;
+			});
+		},
+		async listEngagement(enrollmentId) {
+			await ready();
+			const rows = await sql<EngagementRow[]>`
+				SELECT enrollment_id, step_id, event, occurred_at, recorded_at
+				FROM listmonk_ops.sequence_engagement
+				WHERE enrollment_id = ${enrollmentId}::uuid
+				ORDER BY occurred_at, step_id, event
+			`;
+			return rows.map(toEngagement);
+		},
+		async recordGoalEvents(records) {
+			const parsed = records.map(parseSequenceGoalEvent);
+			await ready();
+			await sql.begin(async (transaction) => {
+				for (const record of parsed) {
+					// Selecting through the enrollment skips records for an
+					// enrollment deleted since the event was matched.
+					await transaction`
+						INSERT INTO listmonk_ops.sequence_goal_events (
+							enrollment_id, goal_id, occurred_at, recorded_at
+						)
+						SELECT
+							id,
+							${record.goalId},
+							${record.occurredAt}::timestamptz,
+							${record.recordedAt}::timestamptz
+						FROM listmonk_ops.sequence_enrollments
+						WHERE id = ${record.enrollmentId}::uuid
+						ON CONFLICT (enrollment_id, goal_id) DO NOTHING
+					`;
+				}
+			});
+		},
+		async listGoalEvents(enrollmentId) {
+			await ready();
+			const rows = await sql<GoalEventRow[]>`
+				SELECT enrollment_id, goal_id, occurred_at, recorded_at
+				FROM listmonk_ops.sequence_goal_events
+				WHERE enrollment_id = ${enrollmentId}::uuid
+				ORDER BY occurred_at, goal_id
+			`;
+			return rows.map(toGoalEvent);
+		},
+		async listSplitEnrollments(sequenceId) {
+			await ready();
+			const rows = await sql<EnrollmentRow[]>`
+				SELECT id, enrollment, lease_token
+				FROM listmonk_ops.sequence_enrollments
+				WHERE sequence_id = ${sequenceId}::uuid
+					AND enrollment->'branches' <> '{}'::jsonb
+				ORDER BY created_at ASC, id ASC
+			`;
+			const engagementRows = await sql<EngagementRow[]>`
+				SELECT engagement.enrollment_id, engagement.step_id,
+					engagement.event, engagement.occurred_at, engagement.recorded_at
+				FROM listmonk_ops.sequence_engagement engagement
+				JOIN listmonk_ops.sequence_enrollments enrollments
+					ON enrollments.id = engagement.enrollment_id
+				WHERE enrollments.sequence_id = ${sequenceId}::uuid
+					AND enrollments.enrollment->'branches' <> '{}'::jsonb
+				ORDER BY engagement.occurred_at, engagement.step_id, engagement.event
+			`;
+			const engagement = engagementRows.map(toEngagement);
+			return rows.map((row) => {
+				const enrollment = toEnrollment(row);
+				return {
+					enrollment,
+					engagement: engagement.filter(
+						(record) => record.enrollmentId === enrollment.id,
+					),
+				};
+			});
+		},
+		async reserveSend(reservation, dailyCap) {
+			const parsed = parseSequenceSendReservation(reservation);
+			await ready();
+			return sql.begin(async (transaction) => {
+				// Serialize reservations per subscriber so concurrent workers
+				// cannot both take the last slot under the cap.
+				await transaction`
+					SELECT pg_advisory_xact_lock(
+						hashtext('listmonk_ops_sequence_sends'),
+						hashtext(${String(parsed.subscriberId)})
+					)
+				`;
+				const cutoff = new Date(
+					Date.parse(parsed.reservedAt) - SEQUENCE_FREQUENCY_WINDOW_MS,
+				).toISOString();
+				// Expired reservations are pruned in small batches; rows another
+				// worker is pruning are skipped rather than waited on.
+				await transaction`
+					DELETE FROM listmonk_ops.sequence_send_reservations
+					WHERE key IN (
+						SELECT key
+						FROM listmonk_ops.sequence_send_reservations
+						WHERE reserved_at <= ${cutoff}::timestamptz
+						ORDER BY reserved_at
+						LIMIT 100
+						FOR UPDATE SKIP LOCKED
+					)
+				`;
+				const existing = await transaction`
+					SELECT 1
+					FROM listmonk_ops.sequence_send_reservations
+					WHERE key = ${parsed.key}
+						AND reserved_at > ${cutoff}::timestamptz
+				`;
+				if (existing.length > 0) {
+					const replayed: SequenceSendReservationResult = { reserved: true };
+					return replayed;
+				}
+				if (dailyCap !== undefined) {
+					const recent = await transaction<SendReservationRow[]>`
+						SELECT reserved_at
+						FROM listmonk_ops.sequence_send_reservations
+						WHERE subscriber_id = ${parsed.subscriberId}
+							AND reserved_at > ${cutoff}::timestamptz
+						ORDER BY reserved_at DESC
+						LIMIT ${dailyCap}
+					`;
+					const limiting = recent[dailyCap - 1];
+					if (limiting) {
+						const deferred: SequenceSendReservationResult = {
+							reserved: false,
+							retryAt: new Date(
+								limiting.reserved_at.getTime() + SEQUENCE_FREQUENCY_WINDOW_MS,
+							).toISOString(),
+						};
+						return deferred;
+					}
+				}
+				await transaction`
+					INSERT INTO listmonk_ops.sequence_send_reservations (
+						key, subscriber_id, reserved_at
+					)
+					VALUES (
+						${parsed.key},
+						${parsed.subscriberId},
+						${parsed.reservedAt}::timestamptz
+					)
+					ON CONFLICT (key) DO UPDATE
+					SET
+						subscriber_id = EXCLUDED.subscriber_id,
+						reserved_at = EXCLUDED.reserved_at
+				`;
+				const reserved: SequenceSendReservationResult = { reserved: true };
+				return reserved;
+			});
+		},
 		async close() {
 			await sql.end({ timeout: 5 });
 		},
@@ -0,0 +1,193 @@
+import { createHash } from "node:crypto";
+import type {
+	SequenceDefinition,
+	SequenceEnrollment,
+	SequenceSplitEnrollment,
+	SequenceStep,
+} from "./sequences";
+
+/**
+ * Deterministic split-branch assignment for sequence enrollments.
+ *
+ * Like the A/B test assignment in `@listmonk-ops/abtest`, each subscriber is
+ * placed by a SHA-256 digest, here over the sequence, the split step, and the
+ * subscriber. Enrollments arrive one at a time rather than as an audience to
+ * rank, so the digest is read as a position in `[0, 1)` and mapped onto the
+ * cumulative branch weights. The same subscriber always takes the same branch
+ * of a split, including after a retry or a re-enrollment.
+ */
+
+const SPLIT_ASSIGNMENT_VERSION = "sequence-split:v1";
+// 52 bits keep the position exactly representable as a double.
+const DIGEST_POSITION_HEX_DIGITS = 13;
+
+export type SequenceSplitStep = Extract<SequenceStep, { type: "split" }>;
+export type SequenceSplitBranch = SequenceSplitStep["branches"][number];
+
+/**
+ * Per-branch counts of one split step. `expected` is the assigned total
+ * shared by weight, so `expected` and `assigned` across branches are the
+ * inputs of a sample ratio mismatch check. `sent`, `opened`, `clicked`, and
+ * `goalReached` count enrollments, and only steps after the split count.
+ */
+export type SequenceSplitBranchStats = Readonly<{
+	id: string;
+	weight: number;
+	assigned: number;
+	expected: number;
+	sent: number;
+	opened: number;
+	clicked: number;
+	goalReached: number;
+}>;
+
+export type SequenceSplitStats = Readonly<{
+	stepId: string;
+	assigned: number;
+	branches: readonly SequenceSplitBranchStats[];
+}>;
+
+/**
+ * The digest is `SHA-256(version \0 sequenceId \0 stepId \0 subscriberId)`.
+ */
+export function sequenceSplitDigest(
+	sequenceId: string,
+	stepId: string,
+	subscriberId: number,
+): string {
+	const stream = [
+		SPLIT_ASSIGNMENT_VERSION,
+		sequenceId,
+		stepId,
+		String(subscriberId),
+	].join("\0");
+	return createHash("sha256").update(stream, "utf8").digest("hex");
+}
+
+export function assignSequenceSplitBranch(
+	step: SequenceSplitStep,
+	enrollment: Pick<SequenceEnrollment, "sequenceId" | "subscriberId">,
+): SequenceSplitBranch {
+	const digest = sequenceSplitDigest(
+		enrollment.sequenceId,
+		step.id,
+		enrollment.subscriberId,
+	);
+	const position =
+		Number.parseInt(digest.slice(0, DIGEST_POSITION_HEX_DIGITS), 16) /
+		16 ** DIGEST_POSITION_HEX_DIGITS;
+	const total = step.branches.reduce((sum, branch) => sum + branch.weight, 0);
+	let threshold = 0;
+	for (const branch of step.branches) {
+		threshold += branch.weight / total;
+		if (position < threshold) {
+			return branch;
+		}
+	}
+	// Floating point sums can fall just short of 1.
+	return step.branches[step.branches.length - 1]!;
+}
+
+/** Split steps across all revisions, keyed by ID; later revisions win. */
+function splitSteps(
+	definition: SequenceDefinition,
+): ReadonlyMap<string, SequenceSplitStep> {
+	const steps = new Map<string, SequenceSplitStep>();
+	for (const revision of definition.revisions) {
+		for (const step of revision.steps) {
+			if (step.type === "split") {
+				steps.set(step.id, step);
+			}
+		}
+	}
+	return steps;
+}
+
+type BranchCounts = Omit<
+	SequenceSplitBranchStats,
+	"id" | "weight" | "expected"
+>;
+
+function emptyBranchCounts(): BranchCounts {
+	return { assigned: 0, sent: 0, opened: 0, clicked: 0, goalReached: 0 };
+}
+
+/** Step IDs after `stepId` in the revision an enrollment is pinned to. */
+function stepsAfter(
+	definition: SequenceDefinition,
+	revisionNumber: number,
+	stepId: string,
+): ReadonlySet<string> {
+	const revision = definition.revisions.find(
+		(candidate) => candidate.revision === revisionNumber,
+	);
+	const steps = revision?.steps ?? [];
+	const index = steps.findIndex((step) => step.id === stepId);
+	return new Set(
+		index < 0 ? [] : steps.slice(index + 1).map((step) => step.id),
+	);
+}
+
+/**
+ * Per-branch stats for every split step of `definition`. Branches are listed
+ * in their latest configured order, followed by retired branches that still
+ * have enrollments; a retired branch has weight 0.
+ */
+export function buildSequenceSplitStats(
+	definition: SequenceDefinition,
+	rows: readonly SequenceSplitEnrollment[],
+): readonly SequenceSplitStats[] {
+	return [...splitSteps(definition).values()].map((step) => {
+		const weights = new Map(
+			step.branches.map((branch) => [branch.id, branch.weight]),
+		);
+		const counts = new Map<string, BranchCounts>(
+			step.branches.map((branch) => [branch.id, emptyBranchCounts()]),
+		);
+		for (const { enrollment, engagement } of rows) {
+			const branchId = enrollment.branches?.[step.id];
+			if (branchId === undefined) {
+				continue;
+			}
+			const after = stepsAfter(definition, enrollment.revision, step.id);
+			const engaged = (event: "opened" | "clicked") =>
+				engagement.some(
+					(record) => record.event === event && after.has(record.stepId),
+				);
+			const count = counts.get(branchId) ?? emptyBranchCounts();
+			counts.set(branchId, {
+				assigned: count.assigned + 1,
+				sent:
+					count.sent +
+					((enrollment.sentStepIds ?? []).some((id) => after.has(id))
+						? 1
+						: 0),
+				opened: count.opened + (engaged("opened") ? 1 : 0),
+				clicked: count.clicked + (engaged("clicked") ? 1 : 0),
+				goalReached:
+					count.goalReached + (enrollment.status === "goal_reached" ? 1 : 0),
+			});
+		}
+		const assigned = [...counts.values()].reduce(
+			(sum, count) => sum + count.assigned,
+			0,
+		);
+		const totalWeight = step.branches.reduce(
+			(sum, branch) => sum + branch.weight,
+			0,
+		);
+		return {
+			stepId: step.id,
+			assigned,
+			branches: [...counts.entries()].map(([id, count]) => {
+				const weight = weights.get(id) ?? 0;
+				return {
+					id,
+					weight,
+					...count,
+					expected: (assigned * weight) / totalWeight,
+				};
+			}),
+		};
+	});
+}
@@ -0,0 +1,554 @@
+import { invokeGetSubscribersOperation } from "@listmonk-ops/operations";
+import type { SequenceExecutionContext } from "./sequence-engine";
+import {
+	deterministicUuid,
+	type IngestInboundDeliveryEventInput,
+} from "./inbound-delivery-events";
+import { sequenceEventGoals } from "./sequence-goals";
+import {
+	createSequenceEnrollment,
+	parseSequenceTriggerEvent,
+	SequenceConflictError,
+	TERMINAL_SEQUENCE_ENROLLMENT_STATUSES,
+	type SequenceDefinition,
+	type SequenceGoalEvent,
+	type SequenceRepository,
+	type SequenceTrigger,
+	type SequenceTriggerCursor,
+	type SequenceTriggerEnqueueResult,
+	type SequenceTriggerEvent,
+} from "./sequences";
+
+export const SEQUENCE_TRIGGER_POLL_PAGE_SIZE = 100;
+export const MAX_SEQUENCE_TRIGGER_INGEST_EVENTS = 100;
+// Listmonk commits subscriptions in its own transactions, so a row stamped
+// just before `now` may not be visible yet. Polling windows close this far
+// in the past to avoid skipping those late commits.
+export const SEQUENCE_TRIGGER_POLL_LAG_MS = 30_000;
+
+type PollingTrigger = Extract<
+	SequenceTrigger,
+	{ type: "list_subscribed" | "subscriber_created" }
+>;
+
+export type CustomSequenceTriggerEventInput = Readonly<{
+	id: string;
+	name: string;
+	subscriberId?: number | undefined;
+	subscriberUuid?: string | undefined;
+	subscriberEmail?: string | undefined;
+	data?: Readonly<Record<string, unknown>> | undefined;
+	occurredAt?: string | undefined;
+}>;
+
+export type SequenceTriggerEvaluation = Readonly<{
+	triggered: number;
+	failures: readonly unknown[];
+}>;
+
+export type SequenceTriggerIngestResult = SequenceTriggerEnqueueResult &
+	Readonly<{ ignored: number }>;
+
+/**
+ * Build an inbox event for a custom named event. The caller's event ID is the
+ * idempotency key, so redelivering the same event is reported as a duplicate.
+ */
+export function customSequenceTriggerEvent(
+	input: CustomSequenceTriggerEventInput,
+	now: Date,
+): SequenceTriggerEvent {
+	const receivedAt = now.toISOString();
+	return parseSequenceTriggerEvent({
+		id: deterministicUuid(`custom:${input.name}:${input.id}`),
+		type: "custom_event",
+		name: input.name,
+		subscriberId: input.subscriberId,
+		subscriberUuid: input.subscriberUuid,
+		subscriberEmail: input.subscriberEmail,
+		data: input.data ?? {},
+		occurredAt: input.occurredAt ?? receivedAt,
+		receivedAt,
+	});
+}
+
+function triggerNames(
+	definitions: readonly SequenceDefinition[],
+	type: "inbound_delivery" | "custom_event",
+): Set<string> {
+	const names = new Set<string>();
+	if (type === "custom_event") {
+		for (const goal of definitions.flatMap(
+			(definition) => definition.goals ?? [],
+		)) {
+			if (goal.type === "custom_event") {
+				names.add(goal.name);
+			}
+		}
+	}
+	for (const trigger of definitions.flatMap(
+		(definition) => definition.triggers ?? [],
+	)) {
+		if (type === "custom_event" && trigger.type === "custom_event") {
+			names.add(trigger.name);
+		}
+		if (type === "inbound_delivery" && trigger.type === "inbound_delivery") {
+			for (const kind of trigger.kinds) {
+				names.add(kind);
+			}
+		}
+	}
+	return names;
+}
+
+/**
+ * Queue custom events for the sequence worker. Events whose name no sequence
+ * trigger or goal listens for are counted as ignored instead of filling the
+ * inbox.
+ */
+export async function ingestCustomSequenceTriggerEvents(
+	repository: SequenceRepository,
+	inputs: readonly CustomSequenceTriggerEventInput[],
+	now: Date,
+): Promise<SequenceTriggerIngestResult> {
+	const names = triggerNames(
+		await repository.listDefinitions(),
+		"custom_event",
+	);
+	const events = inputs
+		.filter((input) => names.has(input.name))
+		.map((input) => customSequenceTriggerEvent(input, now));
+	const result =
+		events.length === 0
+			? { accepted: 0, duplicates: 0 }
+			: await repository.enqueueTriggerEvents(events);
+	return { ...result, ignored: inputs.length - events.length };
+}
+
+/**
+ * Queue ingested provider delivery events for `inbound_delivery` triggers.
+ * Only events that identify a subscriber and match a listened-for kind are
+ * kept; provider event IDs make redelivered webhooks duplicates.
+ */
+export async function ingestInboundSequenceTriggerEvents(
+	repository: SequenceRepository,
+	inputs: readonly IngestInboundDeliveryEventInput[],
+	now: Date,
+): Promise<SequenceTriggerIngestResult> {
+	const candidates = inputs.filter((input) =>
+		Boolean(input.subscriberUuid?.trim()),
+	);
+	const kinds =
+		candidates.length === 0
+			? new Set<string>()
+			: triggerNames(await repository.listDefinitions(), "inbound_delivery");
+	const receivedAt = now.toISOString();
+	const events = candidates
+		.filter((input) => kinds.has(input.kind))
+		.map((input) => {
+			const provider = input.provider.trim().toLowerCase();
+			return parseSequenceTriggerEvent({
+				id: deterministicUuid(
+					`inbound:${provider}:${input.providerEventId.trim()}`,
+				),
+				type: "inbound_delivery",
+				name: input.kind,
+				subscriberUuid: input.subscriberUuid?.trim(),
+				data: {
+					provider,
+					provider_event_id: input.providerEventId.trim(),
+					...(input.campaignId === undefined
+						? {}
+						: { campaign_id: input.campaignId }),
+				},
+				occurredAt: input.occurredAt ?? receivedAt,
+				receivedAt,
+			});
+		});
+	const result =
+		events.length === 0
+			? { accepted: 0, duplicates: 0 }
+			: await repository.enqueueTriggerEvents(events);
+	return { ...result, ignored: inputs.length - events.length };
+}
+
+async function alreadyEnrolled(
+	repository: SequenceRepository,
+	definition: SequenceDefinition,
+	trigger: SequenceTrigger,
+	subscriberId: number,
+	now: Date,
+): Promise<boolean> {
+	const enrollments = await repository.listEnrollments({
+		sequenceId: definition.id,
+		subscriberId,
+		limit: 1_000,
+	});
+	if (trigger.dedupe.mode === "once") {
+		return enrollments.length > 0;
+	}
+	const cutoff = now.getTime() - trigger.dedupe.days * 24 * 60 * 60 * 1_000;
+	return enrollments.some(
+		(enrollment) => Date.parse(enrollment.createdAt) > cutoff,
+	);
+}
+
+/**
+ * Enroll one subscriber for a trigger. De-duplication is per sequence, so a
+ * subscriber enrolled manually or by another trigger counts as enrolled.
+ */
+async function enrollFromTrigger(
+	context: SequenceExecutionContext,
+	definition: SequenceDefinition,
+	trigger: SequenceTrigger,
+	input: Readonly<{
+		id: string;
+		subscriberId: number;
+		context: Record<string, unknown>;
+	}>,
+	now: Date,
+): Promise<boolean> {
+	if (
+		await alreadyEnrolled(
+			context.repository,
+			definition,
+			trigger,
+			input.subscriberId,
+			now,
+		)
+	) {
+		return false;
+	}
+	try {
+		await context.repository.createEnrollment(
+			createSequenceEnrollment(
+				definition,
+				{
+					id: input.id,
+					sequenceId: definition.id,
+					subscriberId: input.subscriberId,
+					context: { trigger: input.context },
+				},
+				now,
+			),
+		);
+		return true;
+	} catch (error) {
+		// An active enrollment or a replay of the same deterministic
+		// enrollment ID means the subscriber is already in the sequence.
+		if (error instanceof SequenceConflictError) {
+			return false;
+		}
+		throw error;
+	}
+}
+
+function pollPredicate(
+	trigger: PollingTrigger,
+	cursor: SequenceTriggerCursor & { until: string },
+): string {
+	// Cursor timestamps and IDs are schema-validated, so quoting them into
+	// Listmonk's raw SQL subscriber query cannot change the predicate.
+	const after = `subscribers.id > ${cursor.afterSubscriberId ?? 0}`;
+	if (trigger.type === "subscriber_created") {
+		return `subscribers.created_at > '${cursor.since}' AND subscribers.created_at <= '${cursor.until}' AND ${after}`;
+	}
+	return `subscribers.id IN (SELECT subscriber_id FROM subscriber_lists WHERE list_id = ${trigger.listId} AND status <> 'unsubscribed' AND created_at > '${cursor.since}' AND created_at <= '${cursor.until}') AND ${after}`;
+}
+
+/**
+ * Advance one polling trigger by a single page. A window `(since, until]` is
+ * fixed when it opens and paged by subscriber ID, so subscribers joining
+ * while the window is read fall into the next window instead of being lost.
+ */
+async function pollTrigger(
+	context: SequenceExecutionContext,
+	definition: SequenceDefinition,
+	trigger: PollingTrigger,
+	now: Date,
+): Promise<number> {
+	const horizon = new Date(
+		now.getTime() - SEQUENCE_TRIGGER_POLL_LAG_MS,
+	).toISOString();
+	const stored = await context.repository.getTriggerCursor(
+		definition.id,
+		trigger.id,
+	);
+	// A new trigger starts at the moment it is first evaluated; triggers do
+	// not backfill subscribers who joined before they existed. A paused
+	// sequence skips its window the same way.
+	if (!stored || definition.status !== "active") {
+		await context.repository.saveTriggerCursor({
+			sequenceId: definition.id,
+			triggerId: trigger.id,
+			since: horizon,
+			updatedAt: now.toISOString(),
+		});
+		return 0;
+	}
+	if (
+		stored.until === undefined &&
+		Date.parse(stored.since) >= Date.parse(horizon)
+	) {
+		return 0;
+	}
+	const cursor = { ...stored, until: stored.until ?? horizon };
+	const page = await invokeGetSubscribersOperation(
+		{ client: context.client },
+		{
+			query: pollPredicate(trigger, cursor),
+			order: "ASC",
+			per_page: SEQUENCE_TRIGGER_POLL_PAGE_SIZE,
+		},
+	);
+	let triggered = 0;
+	let afterSubscriberId = cursor.afterSubscriberId;
+	for (const subscriber of page.results) {
+		if (subscriber.id === undefined) {
+			continue;
+		}
+		if (
+			await enrollFromTrigger(
+				context,
+				definition,
+				trigger,
+				{
+					id: deterministicUuid(
+						`${definition.id}:${trigger.id}:${cursor.since}:${subscriber.id}`,
+					),
+					subscriberId: subscriber.id,
+					context: {
+						id: trigger.id,
+						type: trigger.type,
+						...(trigger.type === "list_subscribed"
+							? { list_id: trigger.listId }
+							: {}),
+					},
+				},
+				now,
+			)
+		) {
+			triggered += 1;
+		}
+		afterSubscriberId = subscriber.id;
+	}
+	await context.repository.saveTriggerCursor(
+		page.results.length < SEQUENCE_TRIGGER_POLL_PAGE_SIZE
+			? {
+					sequenceId: definition.id,
+					triggerId: trigger.id,
+					since: cursor.until,
+					updatedAt: now.toISOString(),
+				}
+			: {
+					...cursor,
+					afterSubscriberId,
+					updatedAt: now.toISOString(),
+				},
+	);
+	return triggered;
+}
+
+function eventMatches(
+	trigger: SequenceTrigger,
+	event: SequenceTriggerEvent,
+): boolean {
+	if (trigger.type === "custom_event") {
+		return event.type === "custom_event" && trigger.name === event.name;
+	}
+	if (trigger.type === "inbound_delivery") {
+		return (
+			event.type === "inbound_delivery" &&
+			trigger.kinds.some((kind) => kind === event.name)
+		);
+	}
+	return false;
+}
+
+async function resolveEventSubscriber(
+	context: SequenceExecutionContext,
+	event: SequenceTriggerEvent,
+): Promise<number | undefined> {
+	if (event.subscriberId !== undefined) {
+		return event.subscriberId;
+	}
+	// UUIDs and emails are schema-validated; emails are additionally quoted
+	// as a case-insensitive equality predicate.
+	const query =
+		event.subscriberUuid !== undefined
+			? `subscribers.uuid = '${event.subscriberUuid}'`
+			: `LOWER(subscribers.email) = LOWER('${(event.subscriberEmail ?? "").replace(/'/g, "''")}')`;
+	const page = await invokeGetSubscribersOperation(
+		{ client: context.client },
+		{ query, per_page: 1 },
+	);
+	return page.results[0]?.id;
+}
+
+/**
+ * Record a custom event against the subscriber's enrollments whose sequence
+ * has a matching goal. Only enrollments already running when the event
+ * occurred count, so the event that started an enrollment never ends it.
+ */
+async function recordGoalEvents(
+	context: SequenceExecutionContext,
+	definitions: readonly SequenceDefinition[],
+	event: SequenceTriggerEvent,
+	subscriberId: number,
+	now: Date,
+): Promise<void> {
+	const terminalStatuses = new Set<string>(
+		TERMINAL_SEQUENCE_ENROLLMENT_STATUSES,
+	);
+	const records: SequenceGoalEvent[] = [];
+	for (const definition of definitions) {
+		const goals = sequenceEventGoals(definition, event.name);
+		if (goals.length === 0) {
+			continue;
+		}
+		const enrollments = await context.repository.listEnrollments({
+			sequenceId: definition.id,
+			subscriberId,
+			limit: 1_000,
+		});
+		for (const enrollment of enrollments) {
+			if (
+				terminalStatuses.has(enrollment.status) ||
+				Date.parse(enrollment.createdAt) > Date.parse(event.occurredAt)
+			) {
+				continue;
+			}
+			for (const goal of goals) {
+				records.push({
+					enrollmentId: enrollment.id,
+					goalId: goal.id,
+					occurredAt: event.occurredAt,
+					recordedAt: now.toISOString(),
+				});
+			}
+		}
+	}
+	if (records.length > 0) {
+		await context.repository.recordGoalEvents(records);
+	}
+}
+
+async function processEvent(
+	context: SequenceExecutionContext,
+	definitions: readonly SequenceDefinition[],
+	event: SequenceTriggerEvent,
+	now: Date,
+): Promise<number> {
+	const matches = definitions.flatMap((definition) =>
+		definition.status === "active"
+			? (definition.triggers ?? [])
+					.filter((trigger) => eventMatches(trigger, event))
+					.map((trigger) => ({ definition, trigger }))
+			: [],
+	);
+	const goalMatched =
+		event.type === "custom_event" &&
+		definitions.some(
+			(definition) => sequenceEventGoals(definition, event.name).length > 0,
+		);
+	if (matches.length === 0 && !goalMatched) {
+		return 0;
+	}
+	const subscriberId = await resolveEventSubscriber(context, event);
+	if (subscriberId === undefined) {
+		return 0;
+	}
+	if (goalMatched) {
+		await recordGoalEvents(context, definitions, event, subscriberId, now);
+	}
+	let triggered = 0;
+	const enrolled = new Set<string>();
+	for (const { definition, trigger } of matches) {
+		if (enrolled.has(definition.id)) {
+			continue;
+		}
+		if (
+			await enrollFromTrigger(
+				context,
+				definition,
+				trigger,
+				{
+					id: deterministicUuid(`${definition.id}:${event.id}`),
+					subscriberId,
+					context: {
+						id: trigger.id,
+						type: trigger.type,
+						name: event.name,
+						data: event.data,
+					},
+				},
+				now,
+			)
+		) {
+			triggered += 1;
+			enrolled.add(definition.id);
+		}
+	}
+	return triggered;
+}
+
+/**
+ * Evaluate every sequence trigger once: poll list and subscriber-created
+ * triggers and drain up to `limit` inbox events, which also feed
+ * `custom_event` goals. Failures are returned rather than thrown so due
+ * enrollments still run; failed events stay leased and are retried once
+ * their lease expires.
+ */
+export async function evaluateSequenceTriggers(
+	context: SequenceExecutionContext,
+	options: Readonly<{ now: Date; limit: number; leaseMs: number }>,
+): Promise<SequenceTriggerEvaluation> {
+	const definitions = (await context.repository.listDefinitions()).filter(
+		(definition) =>
+			(definition.triggers?.length ?? 0) > 0 ||
+			(definition.goals ?? []).some((goal) => goal.type === "custom_event"),
+	);
+	if (definitions.length === 0) {
+		return { triggered: 0, failures: [] };
+	}
+	let triggered = 0;
+	const failures: unknown[] = [];
+	for (const definition of definitions) {
+		for (const trigger of definition.triggers ?? []) {
+			if (
+				trigger.type !== "list_subscribed" &&
+				trigger.type !== "subscriber_created"
+			) {
+				continue;
+			}
+			try {
+				triggered += await pollTrigger(
+					context,
+					definition,
+					trigger,
+					options.now,
+				);
+			} catch (error) {
+				failures.push(error);
+			}
+		}
+	}
+	const events = await context.repository.claimTriggerEvents(options);
+	const processed: SequenceTriggerEvent[] = [];
+	for (const event of events) {
+		try {
+			triggered += await processEvent(
+				context,
+				definitions,
+				event,
+				options.now,
+			);
+			processed.push(event);
+		} catch (error) {
+			failures.push(error);
+		}
+	}
+	if (processed.length > 0) {
+		await context.repository.completeTriggerEvents(processed, options.now);
+	}
+	return { triggered, failures };
+}
@@ -14,12 +14,34 @@ import {
 	type TransactionalIdempotencyStore,
 } from "@listmonk-ops/operations";
 import { z } from "zod";
+import { INBOUND_DELIVERY_EVENT_KINDS } from "./inbound-delivery-events";
+import {
+	SEQUENCE_CONDITION_OPERATORS,
+	SEQUENCE_ENGAGEMENT_EVENTS,
+	sequenceConditionPathSchema,
+	sequenceConditionPredicates,
+	refineSequenceConditionComparison,
+	refineSequenceConditionStep,
+	sequenceConditionSchema,
+	type SequenceCondition,
+	type SequenceEngagementEvent,
+} from "./sequence-conditions";
+import {
+	SEQUENCE_FREQUENCY_WINDOW_MS,
+	sequenceDeliverySchema,
+	sequenceSendWindowSchema,
+	type SequenceDelivery,
+} from "./sequence-delivery";
 
 export const SEQUENCE_STORE_VERSION = 1;
 export const DEFAULT_SEQUENCE_LEASE_MS = 90_000;
 export const DEFAULT_SEQUENCE_WORKER_STALE_MS = 90_000;
 export const DEFAULT_SEQUENCE_WORKER_RETENTION_MS =
 	30 * 24 * 60 * 60 * 1_000;
+export const MAX_SEQUENCE_TRIGGERS = 10;
+export const MAX_SEQUENCE_TRIGGER_EVENTS = 10_000;
+export const MAX_SEQUENCE_GOALS = 10;
+export const SEQUENCE_TRIGGER_EVENT_RETENTION_MS = 7 * 24 * 60 * 60 * 1_000;
 
 const isoDateTimeSchema = z.iso.datetime({ offset: true });
 const sequenceIdSchema = z.uuid();
@@ -37,7 +59,28 @@ export const SEQUENCE_STEP_TYPES = [
 	"wait_until",
 	"condition",
 	"stop",
+	"list_add",
+	"list_remove",
+	"attribs_patch",
+	"blocklist",
+	"webhook_event",
+	"enroll",
+	"split",
 ] as const;
+export const MAX_SEQUENCE_STEP_LISTS = 20;
+export const MAX_SEQUENCE_SPLIT_BRANCHES = 10;
+export const MAX_SEQUENCE_SPLIT_WEIGHT = 10_000;
+
+export const sequenceTriggerEventNameSchema = z
+	.string()
+	.trim()
+	.min(1)
+	.max(100)
+	.regex(/^[A-Za-z0-9._:-]+$/);
+const stepListIdsSchema = z
+	.array(z.number().int().positive())
+	.min(1)
+	.max(MAX_SEQUENCE_STEP_LISTS);
 
 const sequenceSendStepSchema = z.object({
 	id: stepIdSchema,
@@ -49,6 +92,8 @@ const sequenceSendStepSchema = z.object({
 	messenger: transactionalMessengerSchema.optional(),
 	subject: transactionalSubjectSchema.optional(),
 	altBody: z.string().min(1).optional(),
+	// Replaces the sequence-level delivery window for this step.
+	window: sequenceSendWindowSchema.optional(),
 });
 
 export const sequenceStepSchema = z.discriminatedUnion("type", [
@@ -63,23 +108,162 @@ export const sequenceStepSchema = z.discriminatedUnion("type", [
 		type: z.literal(SEQUENCE_STEP_TYPES[2]),
 		at: isoDateTimeSchema,
 	}),
+	z
+		.object({
+			id: stepIdSchema,
+			type: z.literal(SEQUENCE_STEP_TYPES[3]),
+			// `path`/`operator`/`value` is the original context-only form; `when`
+			// reads context, live subscriber data, and recorded engagement.
+			path: sequenceConditionPathSchema.optional(),
+			operator: z.enum(SEQUENCE_CONDITION_OPERATORS).optional(),
+			value: z.unknown().optional(),
+			when: sequenceConditionSchema.optional(),
+			onTrue: stepIdSchema,
+			onFalse: stepIdSchema,
+		})
+		.superRefine(refineSequenceConditionStep),
 	z.object({
 		id: stepIdSchema,
-		type: z.literal(SEQUENCE_STEP_TYPES[3]),
-		path: z
-			.string()
-			.trim()
-			.min(1)
-			.max(200)
-			.regex(/^[A-Za-z0-9_-]+(?:\.[A-Za-z0-9_-]+)*$/),
-		operator: z.enum(["equals", "not_equals", "exists"]),
-		value: z.unknown().optional(),
-		onTrue: stepIdSchema,
-		onFalse: stepIdSchema,
+		type: z.literal(SEQUENCE_STEP_TYPES[4]),
 	}),
 	z.object({
 		id: stepIdSchema,
-		type: z.literal(SEQUENCE_STEP_TYPES[4]),
+		type: z.literal(SEQUENCE_STEP_TYPES[5]),
+		listIds: stepListIdsSchema,
+	}),
+	z.object({
+		id: stepIdSchema,
+		type: z.literal(SEQUENCE_STEP_TYPES[6]),
+		listIds: stepListIdsSchema,
+	}),
+	z.object({
+		id: stepIdSchema,
+		type: z.literal(SEQUENCE_STEP_TYPES[7]),
+		// JSON merge patch: nested objects merge and `null` removes a key.
+		attribs: jsonObjectSchema.refine(
+			(attribs) => Object.keys(attribs).length > 0,
+			"attribs_patch steps require at least one attribute",
+		),
+	}),
+	z.object({
+		id: stepIdSchema,
+		type: z.literal(SEQUENCE_STEP_TYPES[8]),
+	}),
+	z.object({
+		id: stepIdSchema,
+		type: z.literal(SEQUENCE_STEP_TYPES[9]),
+		name: sequenceTriggerEventNameSchema,
+		data: jsonObjectSchema.optional(),
+	}),
+	z.object({
+		id: stepIdSchema,
+		type: z.literal(SEQUENCE_STEP_TYPES[10]),
+		sequenceId: sequenceIdSchema,
+	}),
+	z.object({
+		id: stepIdSchema,
+		type: z.literal(SEQUENCE_STEP_TYPES[11]),
+		// Weights are relative; an enrollment keeps the branch it was assigned.
+		branches: z
+			.array(
+				z.object({
+					id: stepIdSchema,
+					weight: z.number().int().min(1).max(MAX_SEQUENCE_SPLIT_WEIGHT),
+					next: stepIdSchema,
+				}),
+			)
+			.min(2)
+			.max(MAX_SEQUENCE_SPLIT_BRANCHES),
+	}),
+]);
+
+export const SEQUENCE_TRIGGER_TYPES = [
+	"list_subscribed",
+	"subscriber_created",
+	"inbound_delivery",
+	"custom_event",
+] as const;
+
+export const sequenceTriggerDedupeSchema = z.discriminatedUnion("mode", [
+	z.object({ mode: z.literal("once") }),
+	z.object({
+		mode: z.literal("once_per_days"),
+		days: z.number().int().min(1).max(3_650),
+	}),
+]);
+
+const triggerDedupeField = sequenceTriggerDedupeSchema.default({
+	mode: "once",
+});
+
+export const sequenceTriggerSchema = z.discriminatedUnion("type", [
+	z.object({
+		id: stepIdSchema,
+		type: z.literal(SEQUENCE_TRIGGER_TYPES[0]),
+		listId: z.number().int().positive(),
+		dedupe: triggerDedupeField,
+	}),
+	z.object({
+		id: stepIdSchema,
+		type: z.literal(SEQUENCE_TRIGGER_TYPES[1]),
+		dedupe: triggerDedupeField,
+	}),
+	z.object({
+		id: stepIdSchema,
+		type: z.literal(SEQUENCE_TRIGGER_TYPES[2]),
+		kinds: z.array(z.enum(INBOUND_DELIVERY_EVENT_KINDS)).min(1),
+		dedupe: triggerDedupeField,
+	}),
+	z.object({
+		id: stepIdSchema,
+		type: z.literal(SEQUENCE_TRIGGER_TYPES[3]),
+		name: sequenceTriggerEventNameSchema,
+		dedupe: triggerDedupeField,
+	}),
+]);
+
+export const SEQUENCE_GOAL_TYPES = [
+	"list_subscribed",
+	"attribute",
+	"custom_event",
+	"unsubscribed",
+] as const;
+export const SEQUENCE_GOAL_OUTCOMES = ["goal", "exit"] as const;
+
+const goalOutcomeField = z.enum(SEQUENCE_GOAL_OUTCOMES).default("goal");
+
+/**
+ * A goal or exit criterion checked before every step. `attribute` compares
+ * a path inside the subscriber's attributes like a subscriber condition.
+ */
+export const sequenceGoalSchema = z.discriminatedUnion("type", [
+	z.object({
+		id: stepIdSchema,
+		type: z.literal(SEQUENCE_GOAL_TYPES[0]),
+		listId: z.number().int().positive(),
+		outcome: goalOutcomeField,
+	}),
+	z
+		.object({
+			id: stepIdSchema,
+			type: z.literal(SEQUENCE_GOAL_TYPES[1]),
+			path: sequenceConditionPathSchema,
+			operator: z.enum(SEQUENCE_CONDITION_OPERATORS),
+			value: z.unknown().optional(),
+			outcome: goalOutcomeField,
+		})
+		.superRefine(refineSequenceConditionComparison),
+	z.object({
+		id: stepIdSchema,
+		type: z.literal(SEQUENCE_GOAL_TYPES[2]),
+		name: sequenceTriggerEventNameSchema,
+		outcome: goalOutcomeField,
+	}),
+	z.object({
+		id: stepIdSchema,
+		type: z.literal(SEQUENCE_GOAL_TYPES[3]),
+		listId: z.number().int().positive().optional(),
+		outcome: goalOutcomeField,
 	}),
 ]);
 
@@ -96,6 +280,9 @@ const storedSequenceStepSchema = z.union([
 ]);
 
 export type SequenceStep = z.output<typeof sequenceStepSchema>;
+export type SequenceTrigger = z.output<typeof sequenceTriggerSchema>;
+export type SequenceTriggerDedupe = z.output<typeof sequenceTriggerDedupeSchema>;
+export type SequenceGoal = z.output<typeof sequenceGoalSchema>;
 export type SequenceDefinitionStatus = "active" | "paused";
 export type SequenceEnrollmentStatus =
 	| "pending"
@@ -105,7 +292,9 @@ export type SequenceEnrollmentStatus =
 	| "completed"
 	| "failed"
 	| "ambiguous"
-	| "cancelled";
+	| "cancelled"
+	| "goal_reached"
+	| "exited";
 export type SequenceWorkerStatus = "running" | "stopped" | "failed";
 
 export type SequenceRevision = Readonly<{
@@ -121,6 +310,15 @@ export type SequenceDefinition = Readonly<{
 	status: SequenceDefinitionStatus;
 	currentRevision: number;
 	revisions: readonly SequenceRevision[];
+	/**
+	 * Enrollment triggers evaluated by the sequence worker. They are not part
+	 * of the immutable step revisions: changing them never re-pins enrollments.
+	 */
+	triggers?: readonly SequenceTrigger[] | undefined;
+	/** Send window and daily cap; like triggers, not part of a revision. */
+	delivery?: SequenceDelivery | undefined;
+	/** Goals and exit criteria; like triggers, not part of a revision. */
+	goals?: readonly SequenceGoal[] | undefined;
 	createdAt: string;
 	updatedAt: string;
 }>;
@@ -143,6 +341,12 @@ export type SequenceEnrollment = Readonly<{
 	leaseToken?: string | undefined;
 	leaseExpiresAt?: string | undefined;
 	lastError?: string | undefined;
+	/** The goal or exit criterion that ended the enrollment. */
+	goalId?: string | undefined;
+	/** Split step ID to the branch this enrollment was assigned. */
+	branches?: Readonly<Record<string, string>> | undefined;
+	/** Send steps that delivered a message, in delivery order. */
+	sentStepIds?: readonly string[] | undefined;
 	lastTransitionAt: string;
 	createdAt: string;
 	updatedAt: string;
@@ -159,6 +363,7 @@ export type SequenceWorker = Readonly<{
 }>;
 
 export type SequenceTickSummary = Readonly<{
+	triggered: number;
 	claimed: number;
 	advanced: number;
 	waiting: number;
@@ -166,9 +371,122 @@ export type SequenceTickSummary = Readonly<{
 	failed: number;
 	ambiguous: number;
 	cancelled: number;
+	goalReached: number;
+	exited: number;
 	completedAt: string;
 }>;
 
+/**
+ * An event waiting in the trigger inbox. Inbound delivery events use the
+ * delivery kind as `name`; custom events use the caller's event name.
+ */
+export type SequenceTriggerEvent = Readonly<{
+	id: string;
+	type: "inbound_delivery" | "custom_event";
+	name: string;
+	subscriberId?: number | undefined;
+	subscriberUuid?: string | undefined;
+	subscriberEmail?: string | undefined;
+	data: Readonly<Record<string, unknown>>;
+	occurredAt: string;
+	receivedAt: string;
+	leaseToken?: string | undefined;
+	leaseExpiresAt?: string | undefined;
+	processedAt?: string | undefined;
+}>;
+
+/**
+ * Polling position for a list or subscriber-created trigger. A window is
+ * `(since, until]`; `afterSubscriberId` resumes a window that spans ticks.
+ */
+export type SequenceTriggerCursor = Readonly<{
+	sequenceId: string;
+	triggerId: string;
+	since: string;
+	until?: string | undefined;
+	afterSubscriberId?: number | undefined;
+	updatedAt: string;
+}>;
+
+export type SequenceTriggerEnqueueResult = Readonly<{
+	accepted: number;
+	duplicates: number;
+}>;
+
+/**
+ * An open or click recorded for the message a send step delivered to one
+ * enrollment. Only the first occurrence of each event is kept.
+ */
+export type SequenceEngagement = Readonly<{
+	enrollmentId: string;
+	stepId: string;
+	event: SequenceEngagementEvent;
+	occurredAt: string;
+	recordedAt: string;
+}>;
+
+export type SequenceEngagementRecordResult = Readonly<{
+	recorded: number;
+	duplicates: number;
+	unknown: number;
+}>;
+
+/**
+ * A custom event matching a `custom_event` goal, recorded for an enrollment
+ * that was already running when the event occurred.
+ */
+export type SequenceGoalEvent = Readonly<{
+	enrollmentId: string;
+	goalId: string;
+	occurredAt: string;
+	recordedAt: string;
+}>;
+
+/**
+ * One send counted against a subscriber's daily cap, keyed by the
+ * deterministic enrollment step key so a replayed step is counted once.
+ */
+export type SequenceSendReservation = Readonly<{
+	key: string;
+	subscriberId: number;
+	reservedAt: string;
+}>;
+
+export type SequenceSendReservationResult = Readonly<
+	{ reserved: true } | { reserved: false; retryAt: string }
+>;
+
+/**
+ * How one sequence's enrollments ended. `active` counts every non-terminal
+ * enrollment and `conversionRate` is `goalReached / enrolled`.
+ */
+export type SequenceFunnel = Readonly<{
+	sequenceId: string;
+	enrolled: number;
+	active: number;
+	completed: number;
+	goalReached: number;
+	exited: number;
+	failed: number;
+	cancelled: number;
+	conversionRate: number;
+	goals: readonly Readonly<{ id: string; reached: number }>[];
+}>;
+
+/** Enrollment count for one sequence, status, and ending goal. */
+export type SequenceFunnelCount = Readonly<{
+	sequenceId: string;
+	status: SequenceEnrollmentStatus;
+	goalId?: string | undefined;
+	count: number;
+}>;
+
+/** An enrollment assigned to at least one split branch, with its engagement. */
+export type SequenceSplitEnrollment = Readonly<{
+	enrollment: SequenceEnrollment;
+	engagement: readonly SequenceEngagement[];
+}>;
+
 export type SequenceRuntimeHealth = Readonly<{
 	store: "file" | "postgres";
 	schemaVersion: number;
@@ -193,6 +511,7 @@ export type SequenceRuntimeHealth = Readonly<{
 		failed: number;
 		lastHeartbeatAt?: string | undefined;
 	}>;
+	funnels: readonly SequenceFunnel[];
 }>;
 
 export type CreateSequenceDefinitionInput = Readonly<{
@@ -230,6 +549,44 @@ export type SequenceReconcileResult = Readonly<{
 	dryRun: boolean;
 }>;
 
+export type SequenceMigrationOptions = Readonly<{
+	sequenceId: string;
+	fromRevision: number;
+	toRevision: number;
+	/** Old step ID to new step ID; unmapped steps keep their ID. */
+	stepMap: Readonly<Record<string, string>>;
+	dryRun: boolean;
+	now: Date;
+}>;
+
+export type SequenceMigrationMove = Readonly<{
+	fromStepId: string;
+	toStepId: string;
+	enrollments: number;
+}>;
+
+/**
+ * `scanned` counts live enrollments pinned to the source revision; of those,
+ * `migrated` moved (or would move, on a dry run) and `skipped` were leased or
+ * ambiguous.
+ */
+export type SequenceMigrationResult = Readonly<{
+	scanned: number;
+	migrated: number;
+	skipped: number;
+	moves: readonly SequenceMigrationMove[];
+	dryRun: boolean;
+}>;
+
+/**
+ * Start times for a batch of new enrollments: the n-th enrollment inserted
+ * is due at `startAt` plus `n * intervalMs`.
+ */
+export type SequenceEnrollmentSchedule = Readonly<{
+	startAt: Date;
+	intervalMs: number;
+}>;
+
 export type ClaimedSequenceEnrollment = Readonly<{
 	enrollment: SequenceEnrollment;
 	definition: SequenceDefinition;
@@ -260,6 +617,21 @@ export interface SequenceRepository {
 		status: SequenceDefinitionStatus,
 		now: Date,
 	): Promise<SequenceDefinition>;
+	updateDefinitionTriggers(
+		id: string,
+		triggers: readonly SequenceTrigger[],
+		now: Date,
+	): Promise<SequenceUpdateResult>;
+	updateDefinitionDelivery(
+		id: string,
+		delivery: SequenceDelivery,
+		now: Date,
+	): Promise<SequenceUpdateResult>;
+	updateDefinitionGoals(
+		id: string,
+		goals: readonly SequenceGoal[],
+		now: Date,
+	): Promise<SequenceUpdateResult>;
 	listEnrollments(
 		options?: SequenceEnrollmentListOptions,
 	): Promise<readonly SequenceEnrollment[]>;
@@ -267,6 +639,15 @@ export interface SequenceRepository {
 	createEnrollment(
 		enrollment: SequenceEnrollment,
 	): Promise<SequenceEnrollment>;
+	/**
+	 * Insert enrollments in order, skipping subscribers that already have an
+	 * active enrollment in the sequence. Skipped subscribers take no slot in
+	 * `schedule`. Returns the inserted enrollments.
+	 */
+	createEnrollments(
+		enrollments: readonly SequenceEnrollment[],
+		schedule: SequenceEnrollmentSchedule,
+	): Promise<readonly SequenceEnrollment[]>;
 	claimDue(options: Readonly<{
 		limit: number;
 		now: Date;
@@ -285,10 +666,56 @@ export interface SequenceRepository {
 		limit: number;
 		dryRun: boolean;
 	}>): Promise<SequenceReconcileResult>;
+	/** Move live enrollments between revisions in one atomic update. */
+	migrateEnrollments(
+		options: SequenceMigrationOptions,
+	): Promise<SequenceMigrationResult>;
 	getRuntimeHealth(options: Readonly<{
 		now: Date;
 		workerStaleMs: number;
 	}>): Promise<SequenceRuntimeHealth>;
+	/** Events already in the inbox, pending or processed, count as duplicates. */
+	enqueueTriggerEvents(
+		events: readonly SequenceTriggerEvent[],
+	): Promise<SequenceTriggerEnqueueResult>;
+	claimTriggerEvents(options: Readonly<{
+		limit: number;
+		now: Date;
+		leaseMs: number;
+	}>): Promise<readonly SequenceTriggerEvent[]>;
+	completeTriggerEvents(
+		events: readonly SequenceTriggerEvent[],
+		now: Date,
+	): Promise<void>;
+	getTriggerCursor(
+		sequenceId: string,
+		triggerId: string,
+	): Promise<SequenceTriggerCursor | undefined>;
+	saveTriggerCursor(cursor: SequenceTriggerCursor): Promise<void>;
+	/**
+	 * Engagement for a missing enrollment, or for a step that is not a send
+	 * step of the enrollment's revision, is counted as unknown.
+	 */
+	recordEngagement(
+		records: readonly SequenceEngagement[],
+	): Promise<SequenceEngagementRecordResult>;
+	listEngagement(enrollmentId: string): Promise<readonly SequenceEngagement[]>;
+	/** Only the first event per enrollment and goal is kept. */
+	recordGoalEvents(records: readonly SequenceGoalEvent[]): Promise<void>;
+	listGoalEvents(enrollmentId: string): Promise<readonly SequenceGoalEvent[]>;
+	listSplitEnrollments(
+		sequenceId: string,
+	): Promise<readonly SequenceSplitEnrollment[]>;
+	/**
+	 * Count one send for a subscriber across all sequences. A key that was
+	 * already reserved is granted again; a new key is granted only while the
+	 * subscriber has fewer than `dailyCap` reservations in the preceding 24
+	 * hours, otherwise `retryAt` is when the oldest of them expires.
+	 */
+	reserveSend(
+		reservation: SequenceSendReservation,
+		dailyCap: number | undefined,
+	): Promise<SequenceSendReservationResult>;
 	upsertWorker(worker: SequenceWorker): Promise<void>;
 	close?(): Promise<void>;
 }
@@ -298,6 +725,11 @@ type SequenceStore = Readonly<{
 	definitions: readonly SequenceDefinition[];
 	enrollments: readonly SequenceEnrollment[];
 	workers: readonly SequenceWorker[];
+	triggerEvents: readonly SequenceTriggerEvent[];
+	triggerCursors: readonly SequenceTriggerCursor[];
+	engagement: readonly SequenceEngagement[];
+	sendReservations: readonly SequenceSendReservation[];
+	goalEvents: readonly SequenceGoalEvent[];
 }>;
 
 const revisionSchema = z.object({
@@ -314,6 +746,9 @@ const definitionBaseSchema = z.object({
 	description: z.string().trim().max(500).optional(),
 	status: z.enum(["active", "paused"]),
 	currentRevision: z.number().int().positive(),
+	triggers: z.array(sequenceTriggerSchema).max(MAX_SEQUENCE_TRIGGERS).optional(),
+	delivery: sequenceDeliverySchema.optional(),
+	goals: z.array(sequenceGoalSchema).max(MAX_SEQUENCE_GOALS).optional(),
 	createdAt: isoDateTimeSchema,
 	updatedAt: isoDateTimeSchema,
 });
@@ -332,6 +767,8 @@ export const sequenceEnrollmentStatusSchema = z.enum([
 	"failed",
 	"ambiguous",
 	"cancelled",
+	"goal_reached",
+	"exited",
 ]);
 const enrollmentSchema = z.object({
 	id: sequenceIdSchema,
@@ -346,11 +783,15 @@ const enrollmentSchema = z.object({
 	leaseToken: sequenceIdSchema.optional(),
 	leaseExpiresAt: isoDateTimeSchema.optional(),
 	lastError: z.string().max(1_000).optional(),
+	goalId: stepIdSchema.optional(),
+	branches: z.record(stepIdSchema, stepIdSchema).optional(),
+	sentStepIds: z.array(stepIdSchema).optional(),
 	lastTransitionAt: isoDateTimeSchema,
 	createdAt: isoDateTimeSchema,
 	updatedAt: isoDateTimeSchema,
 });
 const tickSummarySchema = z.object({
+	triggered: z.number().int().nonnegative().default(0),
 	claimed: z.number().int().nonnegative(),
 	advanced: z.number().int().nonnegative(),
 	waiting: z.number().int().nonnegative(),
@@ -358,6 +799,8 @@ const tickSummarySchema = z.object({
 	failed: z.number().int().nonnegative(),
 	ambiguous: z.number().int().nonnegative(),
 	cancelled: z.number().int().nonnegative(),
+	goalReached: z.number().int().nonnegative().default(0),
+	exited: z.number().int().nonnegative().default(0),
 	completedAt: isoDateTimeSchema,
 });
 const workerSchema = z.object({
@@ -369,11 +812,57 @@ const workerSchema = z.object({
 	lastError: z.string().max(1_000).optional(),
 	lastTick: tickSummarySchema.optional(),
 });
+const triggerEventSchema = z.object({
+	id: sequenceIdSchema,
+	type: z.enum(["inbound_delivery", "custom_event"]),
+	name: sequenceTriggerEventNameSchema,
+	subscriberId: z.number().int().positive().optional(),
+	subscriberUuid: z.uuid().optional(),
+	subscriberEmail: z.email().max(320).optional(),
+	data: jsonObjectSchema,
+	occurredAt: isoDateTimeSchema,
+	receivedAt: isoDateTimeSchema,
+	leaseToken: sequenceIdSchema.optional(),
+	leaseExpiresAt: isoDateTimeSchema.optional(),
+	processedAt: isoDateTimeSchema.optional(),
+});
+const triggerCursorSchema = z.object({
+	sequenceId: sequenceIdSchema,
+	triggerId: stepIdSchema,
+	since: isoDateTimeSchema,
+	until: isoDateTimeSchema.optional(),
+	afterSubscriberId: z.number().int().positive().optional(),
+	updatedAt: isoDateTimeSchema,
+});
+const engagementSchema = z.object({
+	enrollmentId: sequenceIdSchema,
+	stepId: stepIdSchema,
+	event: z.enum(SEQUENCE_ENGAGEMENT_EVENTS),
+	occurredAt: isoDateTimeSchema,
+	recordedAt: isoDateTimeSchema,
+});
+const sendReservationSchema = z.object({
+	key: z.string().min(1).max(300),
+	subscriberId: z.number().int().positive(),
+	reservedAt: isoDateTimeSchema,
+});
+const goalEventSchema = z.object({
+	enrollmentId: sequenceIdSchema,
+	goalId: stepIdSchema,
+	occurredAt: isoDateTimeSchema,
+	recordedAt: isoDateTimeSchema,
+});
 const storeSchema = z.object({
 	version: z.literal(SEQUENCE_STORE_VERSION),
 	definitions: z.array(storedDefinitionSchema),
 	enrollments: z.array(enrollmentSchema),
 	workers: z.array(workerSchema),
+	// Trigger state was added within store version 1; older files omit it.
+	triggerEvents: z.array(triggerEventSchema).default([]),
+	triggerCursors: z.array(triggerCursorSchema).default([]),
+	engagement: z.array(engagementSchema).default([]),
+	sendReservations: z.array(sendReservationSchema).default([]),
+	goalEvents: z.array(goalEventSchema).default([]),
 });
 
 export class SequenceNotFoundError extends Error {
@@ -419,9 +908,29 @@ function validateSequenceStepTopology(
 				`Sequence ${step.type} step ${step.id} must be followed by another step`,
 			);
 		}
+		if (step.type === "split") {
+			validateSplitStepTopology(parsed, step, stepIndex);
+			continue;
+		}
 		if (step.type !== "condition") {
 			continue;
 		}
+		for (const predicate of sequenceConditionPredicates(
+			sequenceStepCondition(step),
+		)) {
+			if (predicate.source !== "engagement") {
+				continue;
+			}
+			const sendIndex = parsed.findIndex(
+				(candidate) =>
+					candidate.id === predicate.stepId && candidate.type === "send",
+			);
+			if (sendIndex < 0 || sendIndex >= stepIndex) {
+				throw new SequenceConflictError(
+					`Condition step ${step.id} must read engagement from an earlier send step: ${predicate.stepId}`,
+				);
+			}
+		}
 		for (const target of [step.onTrue, step.onFalse]) {
 			const targetIndex = parsed.findIndex(
 				(candidate) => candidate.id === target,
@@ -441,6 +950,50 @@ function validateSequenceStepTopology(
 	return parsed;
 }
 
+function validateSplitStepTopology(
+	parsed: readonly SequenceStep[],
+	step: Extract<SequenceStep, { type: "split" }>,
+	stepIndex: number,
+): void {
+	const branchIds = new Set<string>();
+	for (const branch of step.branches) {
+		if (branchIds.has(branch.id)) {
+			throw new SequenceConflictError(
+				`Split step ${step.id} branch ID must be unique: ${branch.id}`,
+			);
+		}
+		branchIds.add(branch.id);
+		const targetIndex = parsed.findIndex(
+			(candidate) => candidate.id === branch.next,
+		);
+		if (targetIndex < 0) {
+			throw new SequenceConflictError(
+				`Split step ${step.id} references missing step: ${branch.next}`,
+			);
+		}
+		if (targetIndex <= stepIndex) {
+			throw new SequenceConflictError(
+				`Split step ${step.id} must branch to a later step: ${branch.next}`,
+			);
+		}
+	}
+}
+
+/** Normalize either condition step form into a single condition. */
+export function sequenceStepCondition(
+	step: Extract<SequenceStep, { type: "condition" }>,
+): SequenceCondition {
+	if (step.when !== undefined) {
+		return step.when;
+	}
+	return {
+		source: "context",
+		path: step.path ?? "",
+		operator: step.operator ?? "exists",
+		value: step.value,
+	};
+}
+
 export function parseSequenceDefinition(value: unknown): SequenceDefinition {
 	const parsed = definitionSchema.parse(value);
 	return validateSequenceDefinitionHistory(parsed);
@@ -454,6 +1007,98 @@ export function parsePersistedSequenceDefinition(
 	return validateSequenceDefinitionHistory(parsed);
 }
 
+export function validateSequenceTriggers(
+	triggers: readonly unknown[],
+): readonly SequenceTrigger[] {
+	const parsed = z
+		.array(sequenceTriggerSchema)
+		.max(MAX_SEQUENCE_TRIGGERS)
+		.parse(triggers);
+	const ids = new Set<string>();
+	for (const trigger of parsed) {
+		if (ids.has(trigger.id)) {
+			throw new SequenceConflictError(
+				`Sequence trigger ID must be unique: ${trigger.id}`,
+			);
+		}
+		ids.add(trigger.id);
+	}
+	return parsed;
+}
+
+export function parseSequenceTriggerEvent(
+	value: unknown,
+): SequenceTriggerEvent {
+	const parsed = triggerEventSchema.parse(value);
+	if (
+		parsed.subscriberId === undefined &&
+		parsed.subscriberUuid === undefined &&
+		parsed.subscriberEmail === undefined
+	) {
+		throw new TypeError(
+			"Sequence trigger events require a subscriber ID, UUID, or email",
+		);
+	}
+	return parsed;
+}
+
+export function parseSequenceTriggerCursor(
+	value: unknown,
+): SequenceTriggerCursor {
+	return triggerCursorSchema.parse(value);
+}
+
+export function parseSequenceEngagement(value: unknown): SequenceEngagement {
+	return engagementSchema.parse(value);
+}
+
+export function parseSequenceSendReservation(
+	value: unknown,
+): SequenceSendReservation {
+	return sendReservationSchema.parse(value);
+}
+
+export function validateSequenceDelivery(delivery: unknown): SequenceDelivery {
+	return sequenceDeliverySchema.parse(delivery);
+}
+
+export function validateSequenceGoals(
+	goals: readonly unknown[],
+): readonly SequenceGoal[] {
+	const parsed = z
+		.array(sequenceGoalSchema)
+		.max(MAX_SEQUENCE_GOALS)
+		.parse(goals);
+	const ids = new Set<string>();
+	for (const goal of parsed) {
+		if (ids.has(goal.id)) {
+			throw new SequenceConflictError(
+				`Sequence goal ID must be unique: ${goal.id}`,
+			);
+		}
+		ids.add(goal.id);
+	}
+	return parsed;
+}
+
+export function parseSequenceGoalEvent(value: unknown): SequenceGoalEvent {
+	return goalEventSchema.parse(value);
+}
+
+/** Whether `stepId` is a send step of the revision an enrollment is pinned to. */
+export function isSequenceSendStep(
+	definition: SequenceDefinition,
+	revision: number,
+	stepId: string,
+): boolean {
+	return (
+		definition.revisions
+			.find((candidate) => candidate.revision === revision)
+			?.steps.some((step) => step.id === stepId && step.type === "send") ??
+		false
+	);
+}
+
 function validateSequenceDefinitionHistory(
 	parsed: SequenceDefinition,
 ): SequenceDefinition {
@@ -469,6 +1114,9 @@ function validateSequenceDefinitionHistory(
 	for (const revision of parsed.revisions) {
 		validateSequenceStepTopology(revision.steps);
 	}
+	if (parsed.triggers !== undefined) {
+		validateSequenceTriggers(parsed.triggers);
+	}
 	return parsed;
 }
 
@@ -501,6 +1149,11 @@ export function createSequenceStore(
 			definitions: [],
 			enrollments: [],
 			workers: [],
+			triggerEvents: [],
+			triggerCursors: [],
+			engagement: [],
+			sendReservations: [],
+			goalEvents: [],
 		}),
 		parse: parseStore,
 		lock: { timeoutMs: 5_000 },
@@ -561,6 +1214,114 @@ export function createSequenceEnrollment(
 	});
 }
 
+function revisionStepIds(
+	definition: SequenceDefinition,
+	revisionNumber: number,
+): readonly string[] {
+	const revision = definition.revisions.find(
+		(candidate) => candidate.revision === revisionNumber,
+	);
+	if (!revision) {
+		throw new SequenceConflictError(
+			`Sequence ${definition.id} has no revision ${revisionNumber}`,
+		);
+	}
+	return revision.steps.map((step) => step.id);
+}
+
+/**
+ * Plan moving the live enrollments of one revision onto another. Leased and
+ * ambiguous enrollments are skipped because a worker or an operator still
+ * owns their current step; every other enrollment must land on a step of the
+ * target revision. A migrated enrollment keeps its status and schedule and
+ * starts the new step with a fresh retry budget.
+ */
+export function planSequenceEnrollmentMigration(
+	definition: SequenceDefinition,
+	enrollments: readonly SequenceEnrollment[],
+	options: SequenceMigrationOptions,
+): Readonly<{
+	result: SequenceMigrationResult;
+	migrated: readonly SequenceEnrollment[];
+}> {
+	if (options.fromRevision === options.toRevision) {
+		throw new SequenceConflictError(
+			"Sequence migration must target a different revision",
+		);
+	}
+	const fromSteps = revisionStepIds(definition, options.fromRevision);
+	const toSteps = new Set(revisionStepIds(definition, options.toRevision));
+	for (const [fromStepId, toStepId] of Object.entries(options.stepMap)) {
+		if (!fromSteps.includes(fromStepId)) {
+			throw new SequenceConflictError(
+				`Sequence migration step map references a step missing from revision ${options.fromRevision}: ${fromStepId}`,
+			);
+		}
+		if (!toSteps.has(toStepId)) {
+			throw new SequenceConflictError(
+				`Sequence migration step map references a step missing from revision ${options.toRevision}: ${toStepId}`,
+			);
+		}
+	}
+	const live = enrollments.filter(
+		(enrollment) =>
+			enrollment.sequenceId === definition.id &&
+			enrollment.revision === options.fromRevision &&
+			!enrollmentIsTerminal(enrollment.status),
+	);
+	const movable = live.filter(
+		(enrollment) =>
+			enrollment.status !== "running" && enrollment.status !== "ambiguous",
+	);
+	const targetOf = (stepId: string) => options.stepMap[stepId] ?? stepId;
+	const unmapped = [
+		...new Set(
+			movable
+				.map((enrollment) => enrollment.currentStepId)
+				.filter((stepId) => !toSteps.has(targetOf(stepId))),
+		),
+	];
+	if (unmapped.length > 0) {
+		throw new SequenceConflictError(
+			`Sequence migration has no step in revision ${options.toRevision} for: ${unmapped.join(", ")}`,
+		);
+	}
+	const moves = new Map<string, SequenceMigrationMove>();
+	for (const enrollment of movable) {
+		const fromStepId = enrollment.currentStepId;
+		const toStepId = targetOf(fromStepId);
+		const key = `${fromStepId}\0${toStepId}`;
+		moves.set(key, {
+			fromStepId,
+			toStepId,
+			enrollments: (moves.get(key)?.enrollments ?? 0) + 1,
+		});
+	}
+	return {
+		result: {
+			scanned: live.length,
+			migrated: movable.length,
+			skipped: live.length - movable.length,
+			moves: [...moves.values()].sort(
+				(left, right) =>
+					fromSteps.indexOf(left.fromStepId) -
+					fromSteps.indexOf(right.fromStepId),
+			),
+			dryRun: options.dryRun,
+		},
+		migrated: movable.map((enrollment) =>
+			parseSequenceEnrollment({
+				...enrollment,
+				revision: options.toRevision,
+				currentStepId: targetOf(enrollment.currentStepId),
+				retryCount: 0,
+				lastError: undefined,
+				updatedAt: options.now.toISOString(),
+			}),
+		),
+	};
+}
+
 function getFileDefinition(
 	store: SequenceStore,
 	id: string,
@@ -620,8 +1381,41 @@ export function canonicalStepsJson(steps: readonly SequenceStep[]): string {
 	);
 }
 
+export function canonicalDeliveryJson(delivery: SequenceDelivery): string {
+	return JSON.stringify(canonicalJsonValue(delivery));
+}
+
+export function canonicalGoalsJson(goals: readonly SequenceGoal[]): string {
+	return JSON.stringify(canonicalJsonValue(goals));
+}
+
+export function canonicalTriggersJson(
+	triggers: readonly SequenceTrigger[],
+): string {
+	return JSON.stringify(canonicalJsonValue(triggers));
+}
+
+export const TERMINAL_SEQUENCE_ENROLLMENT_STATUSES = [
+	"completed",
+	"failed",
+	"cancelled",
+	"goal_reached",
+	"exited",
+] as const satisfies readonly SequenceEnrollmentStatus[];
+
 function enrollmentIsTerminal(status: SequenceEnrollmentStatus): boolean {
-	return ["completed", "failed", "cancelled"].includes(status);
+	return (
+		TERMINAL_SEQUENCE_ENROLLMENT_STATUSES as readonly string[]
+	).includes(status);
+}
+
+export function scheduledSequenceEnrollmentStart(
+	schedule: SequenceEnrollmentSchedule,
+	index: number,
+): string {
+	return new Date(
+		schedule.startAt.getTime() + index * schedule.intervalMs,
+	).toISOString();
 }
 
 function compareByCreatedAtThenId(
@@ -759,6 +1553,23 @@ export function createFileSequenceRepository(
 						enrollments: current.enrollments.filter(
 							(enrollment) => enrollment.sequenceId !== id,
 						),
+						triggerCursors: current.triggerCursors.filter(
+							(cursor) => cursor.sequenceId !== id,
+						),
+						engagement: current.engagement.filter((record) =>
+							current.enrollments.some(
+								(enrollment) =>
+									enrollment.id === record.enrollmentId &&
+									enrollment.sequenceId !== id,
+							),
+						),
+						goalEvents: current.goalEvents.filter((record) =>
+							current.enrollments.some(
+								(enrollment) =>
+									enrollment.id === record.enrollmentId &&
+									enrollment.sequenceId !== id,
+							),
+						),
 					},
 					definition,
 				);
@@ -787,6 +1598,111 @@ export function createFileSequenceRepository(
 				);
 			});
 		},
+		async updateDefinitionTriggers(id, triggers, now) {
+			const validatedTriggers = validateSequenceTriggers(triggers);
+			return updateJsonFileStore(store, (current) => {
+				const previous = getFileDefinition(current, id);
+				if (
+					canonicalTriggersJson(previous.triggers ?? []) ===
+					canonicalTriggersJson(validatedTriggers)
+				) {
+					const noOpResult: SequenceUpdateResult = {
+						definition: previous,
+						updated: false,
+					};
+					return commitJsonFileStoreUpdate(current, noOpResult);
+				}
+				const updated = parsePersistedSequenceDefinition({
+					...previous,
+					triggers: validatedTriggers,
+					updatedAt: now.toISOString(),
+				});
+				const triggerIds = new Set(
+					validatedTriggers.map((trigger) => trigger.id),
+				);
+				const updatedResult: SequenceUpdateResult = {
+					definition: updated,
+					updated: true,
+				};
+				return commitJsonFileStoreUpdate(
+					{
+						...current,
+						definitions: replaceById(current.definitions, updated),
+						// A removed trigger forgets its polling position so re-adding
+						// the same ID starts from the time it is re-added.
+						triggerCursors: current.triggerCursors.filter(
+							(cursor) =>
+								cursor.sequenceId !== id || triggerIds.has(cursor.triggerId),
+						),
+					},
+					updatedResult,
+				);
+			});
+		},
+		async updateDefinitionDelivery(id, delivery, now) {
+			const validatedDelivery = validateSequenceDelivery(delivery);
+			return updateJsonFileStore(store, (current) => {
+				const previous = getFileDefinition(current, id);
+				if (
+					canonicalDeliveryJson(previous.delivery ?? {}) ===
+					canonicalDeliveryJson(validatedDelivery)
+				) {
+					const noOpResult: SequenceUpdateResult = {
+						definition: previous,
+						updated: false,
+					};
+					return commitJsonFileStoreUpdate(current, noOpResult);
+				}
+				const updated = parsePersistedSequenceDefinition({
+					...previous,
+					delivery: validatedDelivery,
+					updatedAt: now.toISOString(),
+				});
+				const updatedResult: SequenceUpdateResult = {
+					definition: updated,
+					updated: true,
+				};
+				return commitJsonFileStoreUpdate(
+					{
+						...current,
+						definitions: replaceById(current.definitions, updated),
+					},
+					updatedResult,
+				);
+			});
+		},
+		async updateDefinitionGoals(id, goals, now) {
+			const validatedGoals = validateSequenceGoals(goals);
+			return updateJsonFileStore(store, (current) => {
+				const previous = getFileDefinition(current, id);
+				if (
+					canonicalGoalsJson(previous.goals ?? []) ===
+					canonicalGoalsJson(validatedGoals)
+				) {
+					const noOpResult: SequenceUpdateResult = {
+						definition: previous,
+						updated: false,
+					};
+					return commitJsonFileStoreUpdate(current, noOpResult);
+				}
+				const updated = parsePersistedSequenceDefinition({
+					...previous,
+					goals: validatedGoals,
+					updatedAt: now.toISOString(),
+				});
+				const updatedResult: SequenceUpdateResult = {
+					definition: updated,
+					updated: true,
+				};
+				return commitJsonFileStoreUpdate(
+					{
+						...current,
+						definitions: replaceById(current.definitions, updated),
+					},
+					updatedResult,
+				);
+			});
+		},
 		async listEnrollments(options = {}) {
 			const limit = options.limit ?? 100;
 			return [...(await readJsonFileStore(store)).enrollments]
@@ -830,6 +1746,40 @@ export function createFileSequenceRepository(
 				);
 			});
 		},
+		async createEnrollments(enrollments, schedule) {
+			return updateJsonFileStore(store, (current) => {
+				const active = new Set(
+					current.enrollments
+						.filter((candidate) => !enrollmentIsTerminal(candidate.status))
+						.map(
+							(candidate) =>
+								`${candidate.sequenceId}\0${candidate.subscriberId}`,
+						),
+				);
+				const ids = new Set(current.enrollments.map(({ id }) => id));
+				const created: SequenceEnrollment[] = [];
+				for (const enrollment of enrollments) {
+					getFileDefinition(current, enrollment.sequenceId);
+					const key = `${enrollment.sequenceId}\0${enrollment.subscriberId}`;
+					if (ids.has(enrollment.id) || active.has(key)) {
+						continue;
+					}
+					active.add(key);
+					ids.add(enrollment.id);
+					created.push({
+						...enrollment,
+						nextRunAt: scheduledSequenceEnrollmentStart(schedule, created.length),
+					});
+				}
+				return commitJsonFileStoreUpdate(
+					{
+						...current,
+						enrollments: [...current.enrollments, ...created],
+					},
+					created,
+				);
+			});
+		},
 		async claimDue(options) {
 			return updateJsonFileStore(store, (current) => {
 				const nowMs = options.now.getTime();
@@ -968,6 +1918,30 @@ export function createFileSequenceRepository(
 				);
 			});
 		},
+		async migrateEnrollments(options) {
+			return updateJsonFileStore(store, (current) => {
+				const { result, migrated } = planSequenceEnrollmentMigration(
+					getFileDefinition(current, options.sequenceId),
+					[...current.enrollments].sort(compareByCreatedAtThenId),
+					options,
+				);
+				if (options.dryRun) {
+					return commitJsonFileStoreUpdate(current, result);
+				}
+				const byId = new Map(
+					migrated.map((enrollment) => [enrollment.id, enrollment]),
+				);
+				return commitJsonFileStoreUpdate(
+					{
+						...current,
+						enrollments: current.enrollments.map(
+							(enrollment) => byId.get(enrollment.id) ?? enrollment,
+						),
+					},
+					result,
+				);
+			});
+		},
 		async getRuntimeHealth(options) {
 			const current = await readJsonFileStore(store);
 			return buildSequenceRuntimeHealth(
@@ -1002,9 +1976,291 @@ export function createFileSequenceRepository(
 				);
 			});
 		},
+		async enqueueTriggerEvents(events) {
+			const parsed = events.map(parseSequenceTriggerEvent);
+			return updateJsonFileStore(store, (current) => {
+				const known = new Set(current.triggerEvents.map((event) => event.id));
+				const accepted: SequenceTriggerEvent[] = [];
+				for (const event of parsed) {
+					if (known.has(event.id)) {
+						continue;
+					}
+					known.add(event.id);
+					accepted.push(event);
+				}
+				const triggerEvents = [...current.triggerEvents, ...accepted];
+				if (
+					triggerEvents.filter((event) => event.processedAt === undefined)
+						.length > MAX_SEQUENCE_TRIGGER_EVENTS
+				) {
+					throw new RangeError(
+						`Sequence trigger inbox is full (${MAX_SEQUENCE_TRIGGER_EVENTS} events); run the sequence worker to drain it`,
+					);
+				}
+				const result: SequenceTriggerEnqueueResult = {
+					accepted: accepted.length,
+					duplicates: parsed.length - accepted.length,
+				};
+				return commitJsonFileStoreUpdate(
+					{ ...current, triggerEvents },
+					result,
+				);
+			});
+		},
+		async claimTriggerEvents(options) {
+			return updateJsonFileStore(store, (current) => {
+				const nowMs = options.now.getTime();
+				const claimed: SequenceTriggerEvent[] = [];
+				const triggerEvents = current.triggerEvents.map((event) => {
+					if (
+						claimed.length >= options.limit ||
+						event.processedAt !== undefined ||
+						(event.leaseExpiresAt !== undefined &&
+							Date.parse(event.leaseExpiresAt) > nowMs)
+					) {
+						return event;
+					}
+					const leased = parseSequenceTriggerEvent({
+						...event,
+						leaseToken: randomUUID(),
+						leaseExpiresAt: new Date(nowMs + options.leaseMs).toISOString(),
+					});
+					claimed.push(leased);
+					return leased;
+				});
+				return commitJsonFileStoreUpdate(
+					{ ...current, triggerEvents },
+					claimed,
+				);
+			});
+		},
+		async completeTriggerEvents(events, now) {
+			await updateJsonFileStore(store, (current) => {
+				const leases = new Map(
+					events.map((event) => [event.id, event.leaseToken] as const),
+				);
+				const cutoff = now.getTime() - SEQUENCE_TRIGGER_EVENT_RETENTION_MS;
+				const triggerEvents = current.triggerEvents
+					.filter(
+						(event) =>
+							event.processedAt === undefined ||
+							Date.parse(event.processedAt) >= cutoff,
+					)
+					.map((event) =>
+						leases.has(event.id) &&
+						event.leaseToken !== undefined &&
+						event.leaseToken === leases.get(event.id)
+							? parseSequenceTriggerEvent({
+									...event,
+									leaseToken: undefined,
+									leaseExpiresAt: undefined,
+									processedAt: now.toISOString(),
+								})
+							: event,
+					);
+				return commitJsonFileStoreUpdate(
+					{ ...current, triggerEvents },
+					undefined,
+				);
+			});
+		},
+		async getTriggerCursor(sequenceId, triggerId) {
+			return (await readJsonFileStore(store)).triggerCursors.find(
+				(cursor) =>
+					cursor.sequenceId === sequenceId && cursor.triggerId === triggerId,
+			);
+		},
+		async saveTriggerCursor(cursor) {
+			const parsed = parseSequenceTriggerCursor(cursor);
+			await updateJsonFileStore(store, (current) => {
+				getFileDefinition(current, parsed.sequenceId);
+				return commitJsonFileStoreUpdate(
+					{
+						...current,
+						triggerCursors: [
+							...current.triggerCursors.filter(
+								(candidate) =>
+									candidate.sequenceId !== parsed.sequenceId ||
+									candidate.triggerId !== parsed.triggerId,
+							),
+							parsed,
+						],
+					},
+					undefined,
+				);
+			});
+		},
+		async recordEngagement(records) {
+			const parsed = records.map(parseSequenceEngagement);
+			return updateJsonFileStore(store, (current) => {
+				const key = (record: SequenceEngagement) =>
+					`${record.enrollmentId}:${record.stepId}:${record.event}`;
+				const known = new Set(current.engagement.map(key));
+				const recorded: SequenceEngagement[] = [];
+				let unknown = 0;
+				for (const record of parsed) {
+					const enrollment = current.enrollments.find(
+						(candidate) => candidate.id === record.enrollmentId,
+					);
+					const definition = current.definitions.find(
+						(candidate) => candidate.id === enrollment?.sequenceId,
+					);
+					if (
+						!enrollment ||
+						!definition ||
+						!isSequenceSendStep(definition, enrollment.revision, record.stepId)
+					) {
+						unknown += 1;
+						continue;
+					}
+					if (known.has(key(record))) {
+						continue;
+					}
+					known.add(key(record));
+					recorded.push(record);
+				}
+				const result: SequenceEngagementRecordResult = {
+					recorded: recorded.length,
+					duplicates: parsed.length - recorded.length - unknown,
+					unknown,
+				};
+				return commitJsonFileStoreUpdate(
+					{ ...current, engagement: [...current.engagement, ...recorded] },
+					result,
+				);
+			});
+		},
+		async listEngagement(enrollmentId) {
+			return (await readJsonFileStore(store)).engagement.filter(
+				(record) => record.enrollmentId === enrollmentId,
+			);
+		},
+		async reserveSend(reservation, dailyCap) {
+			const parsed = parseSequenceSendReservation(reservation);
+			return updateJsonFileStore<SequenceStore, SequenceSendReservationResult>(
+				store,
+				(current) => {
+					const cutoff =
+						Date.parse(parsed.reservedAt) - SEQUENCE_FREQUENCY_WINDOW_MS;
+					// Reservations only matter inside the counting window.
+					const retained = current.sendReservations.filter(
+						(candidate) => Date.parse(candidate.reservedAt) > cutoff,
+					);
+					const pruned = { ...current, sendReservations: retained };
+					if (retained.some((candidate) => candidate.key === parsed.key)) {
+						return commitJsonFileStoreUpdate(pruned, { reserved: true });
+					}
+					const recent = retained
+						.filter(
+							(candidate) => candidate.subscriberId === parsed.subscriberId,
+						)
+						.map((candidate) => Date.parse(candidate.reservedAt))
+						.sort((left, right) => right - left);
+					const limiting =
+						dailyCap === undefined ? undefined : recent[dailyCap - 1];
+					if (limiting !== undefined) {
+						return commitJsonFileStoreUpdate(pruned, {
+							reserved: false,
+							retryAt: new Date(
+								limiting + SEQUENCE_FREQUENCY_WINDOW_MS,
+							).toISOString(),
+						});
+					}
+					return commitJsonFileStoreUpdate(
+						{ ...pruned, sendReservations: [...retained, parsed] },
+						{ reserved: true },
+					);
+				},
+			);
+		},
+		async recordGoalEvents(records) {
+			const parsed = records.map(parseSequenceGoalEvent);
+			await updateJsonFileStore(store, (current) => {
+				const key = (record: SequenceGoalEvent) =>
+					`${record.enrollmentId}:${record.goalId}`;
+				const known = new Set(current.goalEvents.map(key));
+				const recorded: SequenceGoalEvent[] = [];
+				for (const record of parsed) {
+					if (
+						known.has(key(record)) ||
+						!current.enrollments.some(
+							(enrollment) => enrollment.id === record.enrollmentId,
+						)
+					) {
+						continue;
+					}
+					known.add(key(record));
+					recorded.push(record);
+				}
+				return commitJsonFileStoreUpdate(
+					{ ...current, goalEvents: [...current.goalEvents, ...recorded] },
+					undefined,
+				);
+			});
+		},
+		async listGoalEvents(enrollmentId) {
+			return (await readJsonFileStore(store)).goalEvents.filter(
+				(record) => record.enrollmentId === enrollmentId,
+			);
+		},
+		async listSplitEnrollments(sequenceId) {
+			const current = await readJsonFileStore(store);
+			return current.enrollments
+				.filter(
+					(enrollment) =>
+						enrollment.sequenceId === sequenceId &&
+						Object.keys(enrollment.branches ?? {}).length > 0,
+				)
+				.sort(compareByCreatedAtThenId)
+				.map((enrollment) => ({
+					enrollment,
+					engagement: current.engagement.filter(
+						(record) => record.enrollmentId === enrollment.id,
+					),
+				}));
+		},
 	};
 }
 
+/**
+ * Per-sequence funnels in definition order. Goals are listed in their
+ * configured order, followed by removed goals that still ended enrollments.
+ */
+export function buildSequenceFunnels(
+	definitions: readonly SequenceDefinition[],
+	counts: readonly SequenceFunnelCount[],
+): readonly SequenceFunnel[] {
+	return definitions.map((definition) => {
+		const rows = counts.filter((row) => row.sequenceId === definition.id);
+		const total = (statuses: readonly SequenceEnrollmentStatus[]) =>
+			rows
+				.filter((row) => statuses.includes(row.status))
+				.reduce((sum, row) => sum + row.count, 0);
+		const enrolled = total(sequenceEnrollmentStatusSchema.options);
+		const goalReached = total(["goal_reached"]);
+		const reached = new Map<string, number>(
+			(definition.goals ?? []).map((goal) => [goal.id, 0]),
+		);
+		for (const row of rows) {
+			if (row.goalId !== undefined) {
+				reached.set(row.goalId, (reached.get(row.goalId) ?? 0) + row.count);
+			}
+		}
+		return {
+			sequenceId: definition.id,
+			enrolled,
+			active: enrolled - total(TERMINAL_SEQUENCE_ENROLLMENT_STATUSES),
+			completed: total(["completed"]),
+			goalReached,
+			exited: total(["exited"]),
+			failed: total(["failed"]),
+			cancelled: total(["cancelled"]),
+			conversionRate: enrolled === 0 ? 0 : goalReached / enrolled,
+			goals: [...reached].map(([id, count]) => ({ id, reached: count })),
+		};
+	});
+}
+
 export function buildSequenceRuntimeHealth(
 	kind: "file" | "postgres",
 	definitions: readonly SequenceDefinition[],
@@ -1073,5 +2329,14 @@ export function buildSequenceRuntimeHealth(
 			failed: workers.filter((worker) => worker.status === "failed").length,
 			lastHeartbeatAt,
 		},
+		funnels: buildSequenceFunnels(
+			definitions,
+			enrollments.map((entry) => ({
+				sequenceId: entry.sequenceId,
+				status: entry.status,
+				goalId: entry.goalId,
+				count: 1,
+			})),
+		),
 	};
 }
@@ -0,0 +1,137 @@
+import {
+	defineOperation,
+	defineOperationCatalog,
+	normalizeOperationExecutionError,
+	parseOperationInput,
+	parseOperationOutput,
+} from "@listmonk-ops/operations";
+import { bindSuppressionApplyOperationSpec } from "@listmonk-ops/operations/specs";
+import { z } from "zod";
+import { providerIdInput } from "./provider-operations";
+import {
+	applySuppressionPolicy,
+	MAX_SUPPRESSION_POLICY_EVENTS,
+	SUPPRESSION_RULES,
+	SUPPRESSION_SKIP_REASONS,
+	suppressionEventSchema,
+	type SuppressionPolicyContext,
+} from "./suppression-policy";
+
+export type SuppressionOperationContext = SuppressionPolicyContext;
+
+const suppressionApplyInputSchema = z.object({
+	provider_id: providerIdInput,
+	events: z
+		.array(suppressionEventSchema)
+		.min(1)
+		.max(MAX_SUPPRESSION_POLICY_EVENTS),
+	dry_run: z.boolean().default(true),
+});
+
+const nonNegativeIntegerSchema = z.number().int().nonnegative();
+
+const suppressionApplyOutputSchema = z.object({
+	provider_id: providerIdInput,
+	dry_run: z.boolean(),
+	evaluated: nonNegativeIntegerSchema,
+	actions: z.array(
+		z.object({
+			blocklist: z.boolean(),
+			list_ids: z.array(z.number().int().positive()),
+			rules: z.array(z.enum(SUPPRESSION_RULES)),
+			provider_event_ids: z.array(z.string()),
+		}),
+	),
+	skipped: z.array(
+		z.object({
+			provider_event_id: z.string(),
+			reason: z.enum(SUPPRESSION_SKIP_REASONS),
+			soft_bounces: nonNegativeIntegerSchema.optional(),
+		}),
+	),
+	blocklisted: nonNegativeIntegerSchema,
+	removed_from_lists: nonNegativeIntegerSchema,
+});
+
+export async function executeSuppressionApplyOperation(
+	context: SuppressionOperationContext,
+	input: z.output<typeof suppressionApplyInputSchema>,
+) {
+	return applySuppressionPolicy(context, input);
+}
+
+export const suppressionApplyOperation = defineOperation({
+	id: "suppressions.apply",
+	title: "Apply suppression policy",
+	description:
+		"Evaluate inbound bounce, complaint, and unsubscribe events against a provider's suppression policy and report or apply the resulting blocklist and list removals.",
+	inputSchema: suppressionApplyInputSchema,
+	outputSchema: suppressionApplyOutputSchema,
+	safety: {
+		readOnlyHint: false,
+		destructiveHint: true,
+		idempotentHint: true,
+		openWorldHint: true,
+	},
+	mcp: { name: "listmonk_apply_suppression_policy" },
+	spec: bindSuppressionApplyOperationSpec(),
+	execute: executeSuppressionApplyOperation,
+});
+
+export async function invokeSuppressionApplyOperation(
+	context: SuppressionOperationContext,
+	input: unknown,
+) {
+	const parsed = parseOperationInput(
+		suppressionApplyOperation.inputSchema,
+		input,
+	);
+	try {
+		return parseOperationOutput(
+			suppressionApplyOperation.id,
+			suppressionApplyOperation.outputSchema,
+			await executeSuppressionApplyOperation(context, parsed),
+		);
+	} catch (error) {
+		throw normalizeOperationExecutionError(suppressionApplyOperation.id, error);
+	}
+}
+
+const bindings = [
+	{
+		operation: suppressionApplyOperation,
+		invoke: invokeSuppressionApplyOperation,
+	},
+] as const;
+
+export const suppressionOperations = bindings.map(({ operation }) => operation);
+export const suppressionOperationCatalog = defineOperationCatalog({
+	id: "suppressions",
+	title: "Inbound event suppression policy",
+	operations: suppressionOperations,
+	specMigrationExemptions: [],
+});
+
+const byMcpName = new Map(
+	bindings.map((binding) => [binding.operation.mcp.name, binding] as const),
+);
+
+export function getSuppressionOperationByMcpName(name: string) {
+	return byMcpName.get(name)?.operation;
+}
+
+export async function invokeSuppressionOperationByMcpName(
+	context: SuppressionOperationContext,
+	name: string,
+	input: unknown,
+): Promise<
+	| { operation: (typeof suppressionOperations)[number]; output: unknown }
+	| undefined
+> {
+	const binding = byMcpName.get(name);
+	if (!binding) return undefined;
+	return {
+		operation: binding.operation,
+		output: await binding.invoke(context, input),
+	};
+}
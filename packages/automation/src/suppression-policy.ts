@@ -0,0 +1,654 @@
+import {
+	commitJsonFileStoreUpdate,
+	readJsonFileStore,
+	updateJsonFileStore,
+	type JsonFileStore,
+} from "@listmonk-ops/common";
+import type { ListmonkClient } from "@listmonk-ops/openapi";
+import {
+	invokeBlocklistSubscribersOperation,
+	invokeGetSubscribersOperation,
+	invokeRemoveSubscribersFromListsOperation,
+} from "@listmonk-ops/operations";
+import { readFile, stat } from "node:fs/promises";
+import { homedir } from "node:os";
+import { dirname, join, resolve } from "node:path";
+import { z } from "zod";
+import {
+	INBOUND_DELIVERY_EVENT_KINDS,
+	type IngestInboundDeliveryEventInput,
+} from "./inbound-delivery-events";
+import { providerIdInput } from "./provider-operations";
+
+export const SUPPRESSION_POLICY_CONFIG_FILENAME = "suppression-policies.json";
+export const SUPPRESSION_LEDGER_VERSION = 1;
+export const MAX_SUPPRESSION_POLICY_EVENTS = 500;
+const MAX_SUPPRESSION_POLICY_CONFIG_BYTES = 262_144;
+const MAX_SUPPRESSION_LEDGER_ENTRIES = 50_000;
+const MAX_SOFT_BOUNCE_WINDOW_DAYS = 365;
+const DAY_MS = 86_400_000;
+const SUBSCRIBER_LOOKUP_CHUNK_SIZE = 100;
+
+export const SUPPRESSION_RULES = [
+	"hard_bounce",
+	"soft_bounce",
+	"complaint",
+	"unsubscribe",
+] as const;
+
+export const SUPPRESSION_SKIP_REASONS = [
+	"not_applicable",
+	"missing_subscriber",
+	"policy_disabled",
+	"below_threshold",
+	"subscriber_not_found",
+	"already_suppressed",
+] as const;
+
+export type SuppressionRule = (typeof SUPPRESSION_RULES)[number];
+export type SuppressionSkipReason = (typeof SUPPRESSION_SKIP_REASONS)[number];
+
+export const suppressionPolicySchema = z
+	.object({
+		provider_id: providerIdInput,
+		hard_bounce: z.enum(["blocklist", "none"]).default("blocklist"),
+		soft_bounce: z
+			.object({
+				action: z.enum(["unsubscribe", "none"]).default("unsubscribe"),
+				threshold: z.number().int().min(1).max(100).default(3),
+				window_days: z
+					.number()
+					.int()
+					.min(1)
+					.max(MAX_SOFT_BOUNCE_WINDOW_DAYS)
+					.default(30),
+			})
+			.strict()
+			.prefault({}),
+		complaint: z
+			.enum(["blocklist_and_unsubscribe", "blocklist", "none"])
+			.default("blocklist_and_unsubscribe"),
+		unsubscribe: z.enum(["unsubscribe", "none"]).default("unsubscribe"),
+	})
+	.strict();
+
+export type SuppressionPolicy = z.output<typeof suppressionPolicySchema>;
+
+export const suppressionPolicyConfigSchema = z
+	.object({
+		schema_version: z.literal(1),
+		policies: z.array(suppressionPolicySchema).max(100),
+	})
+	.strict()
+	.superRefine((config, context) => {
+		const seen = new Set<string>();
+		for (const [index, policy] of config.policies.entries()) {
+			if (seen.has(policy.provider_id)) {
+				context.addIssue({
+					code: "custom",
+					path: ["policies", index, "provider_id"],
+					message: `Duplicate suppression policy provider_id: ${policy.provider_id}`,
+				});
+			}
+			seen.add(policy.provider_id);
+		}
+	});
+
+export const suppressionEventSchema = z.object({
+	provider_event_id: z.string().trim().min(1).max(200),
+	kind: z.enum(INBOUND_DELIVERY_EVENT_KINDS),
+	subscriber_uuid: z.uuid().optional(),
+	bounce_type: z.enum(["hard", "soft"]).optional(),
+	occurred_at: z.iso.datetime({ offset: true }).optional(),
+});
+
+export type SuppressionEvent = z.output<typeof suppressionEventSchema>;
+
+export interface SuppressionPolicyLoaderOptions {
+	path?: string | undefined;
+	env?: Readonly<Record<string, string | undefined>> | undefined;
+}
+
+export interface SuppressionLedgerOptions {
+	path?: string | undefined;
+}
+
+export interface SuppressionPolicyContext {
+	client: Pick<ListmonkClient, "subscriber">;
+	policies?:
+		| readonly SuppressionPolicy[]
+		| (() => Promise<readonly SuppressionPolicy[]>)
+		| undefined;
+	ledger?: SuppressionLedgerOptions | undefined;
+	now?: (() => Date) | undefined;
+}
+
+export interface ApplySuppressionPolicyInput {
+	provider_id: string;
+	events: readonly SuppressionEvent[];
+	dry_run: boolean;
+}
+
+/**
+ * One suppressed subscriber, identified only by the provider events that
+ * triggered it so reports and audit records never carry subscriber ids.
+ */
+export interface SuppressionAction {
+	blocklist: boolean;
+	list_ids: number[];
+	rules: SuppressionRule[];
+	provider_event_ids: string[];
+}
+
+export interface SuppressionSkippedEvent {
+	provider_event_id: string;
+	reason: SuppressionSkipReason;
+	soft_bounces?: number | undefined;
+}
+
+export interface SuppressionPolicyReport {
+	provider_id: string;
+	dry_run: boolean;
+	evaluated: number;
+	actions: SuppressionAction[];
+	skipped: SuppressionSkippedEvent[];
+	blocklisted: number;
+	removed_from_lists: number;
+}
+
+interface SuppressionLedgerEntry {
+	provider_id: string;
+	provider_event_id: string;
+	subscriber_uuid: string;
+	occurred_at: string;
+}
+
+interface SuppressionLedger {
+	version: typeof SUPPRESSION_LEDGER_VERSION;
+	soft_bounces: SuppressionLedgerEntry[];
+}
+
+interface SuppressionCandidate {
+	event: SuppressionEvent;
+	subscriberUuid: string;
+	rule: SuppressionRule;
+	blocklist: boolean;
+	removeFromLists: boolean;
+}
+
+const suppressionLedgerSchema = z.object({
+	version: z.literal(SUPPRESSION_LEDGER_VERSION),
+	soft_bounces: z.array(
+		z.object({
+			provider_id: z.string().min(1),
+			provider_event_id: z.string().min(1),
+			subscriber_uuid: z.string().min(1),
+			occurred_at: z.iso.datetime({ offset: true }),
+		}),
+	),
+});
+
+/**
+ * Suppression policies live in `suppression-policies.json` next to the
+ * provider profile file so both are deployed and reviewed together.
+ */
+export function getSuppressionPolicyConfigPath(
+	env: Readonly<Record<string, string | undefined>> = process.env,
+): string | undefined {
+	const providerConfig = env.LISTMONK_OPS_PROVIDER_CONFIG?.trim();
+	return providerConfig
+		? join(dirname(resolve(providerConfig)), SUPPRESSION_POLICY_CONFIG_FILENAME)
+		: undefined;
+}
+
+export async function loadSuppressionPolicies(
+	options: SuppressionPolicyLoaderOptions = {},
+): Promise<readonly SuppressionPolicy[]> {
+	const configuredPath =
+		options.path ?? getSuppressionPolicyConfigPath(options.env);
+	if (!configuredPath) {
+		return [];
+	}
+
+	const absolutePath = resolve(configuredPath);
+	let metadata;
+	try {
+		metadata = await stat(absolutePath);
+	} catch (error) {
+		// Suppression is opt-in: a provider config without a sibling policy
+		// file simply has no automatic actions.
+		if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+			return [];
+		}
+		throw new TypeError("Suppression policy config is not accessible");
+	}
+	if (!metadata.isFile()) {
+		throw new TypeError(
+			"Suppression policy config must reference a regular JSON file",
+		);
+	}
+	if (metadata.size > MAX_SUPPRESSION_POLICY_CONFIG_BYTES) {
+		throw new RangeError(
+			`Suppression policy config exceeds ${MAX_SUPPRESSION_POLICY_CONFIG_BYTES} bytes`,
+		);
+	}
+
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(await readFile(absolutePath, "utf8"));
+	} catch {
+		throw new TypeError("Failed to parse suppression policy config JSON");
+	}
+
+	return suppressionPolicyConfigSchema.parse(parsed).policies;
+}
+
+export function getSuppressionLedgerPath(): string {
+	return (
+		process.env.LISTMONK_OPS_SUPPRESSION_LEDGER?.trim() ||
+		join(homedir(), ".listmonk-ops", "suppression-ledger.json")
+	);
+}
+
+function createSuppressionLedgerStore(
+	path = getSuppressionLedgerPath(),
+): JsonFileStore<SuppressionLedger> {
+	return {
+		path,
+		createDefault: () => ({
+			version: SUPPRESSION_LEDGER_VERSION,
+			soft_bounces: [],
+		}),
+		parse: (value) => suppressionLedgerSchema.parse(value),
+		lock: { timeoutMs: 5_000 },
+	};
+}
+
+/** Map normalized inbound events onto the fields a suppression policy reads. */
+export function toSuppressionEvents(
+	events: readonly IngestInboundDeliveryEventInput[],
+): SuppressionEvent[] {
+	return events.map((event) => {
+		const bounceType = event.metadata?.bounce_type;
+		return {
+			provider_event_id: event.providerEventId,
+			kind: event.kind,
+			...(event.subscriberUuid === undefined
+				? {}
+				: { subscriber_uuid: event.subscriberUuid }),
+			...(bounceType === "hard" || bounceType === "soft"
+				? { bounce_type: bounceType }
+				: {}),
+			...(event.occurredAt === undefined
+				? {}
+				: { occurred_at: event.occurredAt }),
+		};
+	});
+}
+
+async function contextPolicies(
+	context: SuppressionPolicyContext,
+): Promise<readonly SuppressionPolicy[]> {
+	if (Array.isArray(context.policies)) return context.policies;
+	if (typeof context.policies === "function") return context.policies();
+	return loadSuppressionPolicies();
+}
+
+export function getSuppressionPolicy(
+	policies: readonly SuppressionPolicy[],
+	providerId: string,
+): SuppressionPolicy {
+	const policy = policies.find(
+		({ provider_id }) => provider_id === providerId,
+	);
+	if (!policy) {
+		throw new RangeError(
+			`No suppression policy is configured for provider profile: ${providerId}`,
+		);
+	}
+	return policy;
+}
+
+function eventTime(event: SuppressionEvent, now: Date): number {
+	return event.occurred_at === undefined
+		? now.getTime()
+		: Date.parse(event.occurred_at);
+}
+
+function lookupPredicate(uuids: readonly string[]): string {
+	// UUIDs are schema-validated, so quoting them into Listmonk's raw SQL
+	// subscriber query cannot change the predicate.
+	return `subscribers.uuid IN (${uuids.map((uuid) => `'${uuid}'`).join(", ")})`;
+}
+
+async function resolveSubscribers(
+	context: SuppressionPolicyContext,
+	uuids: readonly string[],
+) {
+	const subscribers = new Map<
+		string,
+		{ id: number; blocklisted: boolean; listIds: number[] }
+	>();
+	for (
+		let offset = 0;
+		offset < uuids.length;
+		offset += SUBSCRIBER_LOOKUP_CHUNK_SIZE
+	) {
+		const chunk = uuids.slice(offset, offset + SUBSCRIBER_LOOKUP_CHUNK_SIZE);
+		const page = await invokeGetSubscribersOperation(context, {
+			query: lookupPredicate(chunk),
+			per_page: SUBSCRIBER_LOOKUP_CHUNK_SIZE,
+		});
+		for (const subscriber of page.results) {
+			if (subscriber.uuid === undefined || subscriber.id === undefined) {
+				continue;
+			}
+			const lists = Array.isArray(subscriber.lists)
+				? (subscriber.lists as Array<{
+						id?: number;
+						subscription_status?: string;
+					}>)
+				: [];
+			subscribers.set(subscriber.uuid, {
+				id: subscriber.id,
+				blocklisted: subscriber.status === "blocklisted",
+				listIds: lists
+					.filter(
+						(list) =>
+							typeof list.id === "number" &&
+							list.subscription_status !== "unsubscribed",
+					)
+					.map((list) => list.id!)
+					.sort((left, right) => left - right),
+			});
+		}
+	}
+	return subscribers;
+}
+
+function evaluateEvents(
+	policy: SuppressionPolicy,
+	events: readonly SuppressionEvent[],
+	history: readonly SuppressionLedgerEntry[],
+	now: Date,
+) {
+	const candidates: SuppressionCandidate[] = [];
+	const skipped: SuppressionSkippedEvent[] = [];
+	const softBounces: SuppressionLedgerEntry[] = [];
+	const windowStart =
+		now.getTime() - policy.soft_bounce.window_days * DAY_MS;
+	const counted = new Map<string, Set<string>>();
+	const count = (subscriberUuid: string, providerEventId: string) => {
+		const events = counted.get(subscriberUuid) ?? new Set<string>();
+		events.add(providerEventId);
+		counted.set(subscriberUuid, events);
+	};
+	for (const entry of history) {
+		if (
+			entry.provider_id === policy.provider_id &&
+			Date.parse(entry.occurred_at) >= windowStart
+		) {
+			count(entry.subscriber_uuid, entry.provider_event_id);
+		}
+	}
+
+	for (const event of events) {
+		if (
+			event.kind === "delivered" ||
+			event.kind === "delayed" ||
+			event.kind === "rejected"
+		) {
+			skipped.push({
+				provider_event_id: event.provider_event_id,
+				reason: "not_applicable",
+			});
+			continue;
+		}
+		const subscriberUuid = event.subscriber_uuid;
+		if (subscriberUuid === undefined) {
+			skipped.push({
+				provider_event_id: event.provider_event_id,
+				reason: "missing_subscriber",
+			});
+			continue;
+		}
+		const candidate = (
+			rule: SuppressionRule,
+			blocklist: boolean,
+			removeFromLists: boolean,
+		) => {
+			candidates.push({
+				event,
+				subscriberUuid,
+				rule,
+				blocklist,
+				removeFromLists,
+			});
+		};
+		const disabled = () =>
+			skipped.push({
+				provider_event_id: event.provider_event_id,
+				reason: "policy_disabled",
+			});
+
+		if (event.kind === "complained") {
+			if (policy.complaint === "none") disabled();
+			else {
+				candidate(
+					"complaint",
+					true,
+					policy.complaint === "blocklist_and_unsubscribe",
+				);
+			}
+			continue;
+		}
+		if (event.kind === "unsubscribed") {
+			if (policy.unsubscribe === "none") disabled();
+			else candidate("unsubscribe", false, true);
+			continue;
+		}
+		// Providers that do not classify a bounce are treated as soft so a
+		// single ambiguous bounce never blocklists a subscriber.
+		if (event.bounce_type === "hard") {
+			if (policy.hard_bounce === "none") disabled();
+			else candidate("hard_bounce", true, false);
+			continue;
+		}
+
+		const occurredAt = eventTime(event, now);
+		softBounces.push({
+			provider_id: policy.provider_id,
+			provider_event_id: event.provider_event_id,
+			subscriber_uuid: subscriberUuid,
+			occurred_at: new Date(occurredAt).toISOString(),
+		});
+		if (occurredAt >= windowStart) {
+			count(subscriberUuid, event.provider_event_id);
+		}
+		if (policy.soft_bounce.action === "none") {
+			disabled();
+			continue;
+		}
+		const recent = counted.get(subscriberUuid)?.size ?? 0;
+		if (recent >= policy.soft_bounce.threshold) {
+			candidate("soft_bounce", false, true);
+		} else {
+			skipped.push({
+				provider_event_id: event.provider_event_id,
+				reason: "below_threshold",
+				soft_bounces: recent,
+			});
+		}
+	}
+	return { candidates, skipped, softBounces };
+}
+
+function appendSoftBounces(
+	current: SuppressionLedger,
+	entries: readonly SuppressionLedgerEntry[],
+	now: Date,
+): SuppressionLedger {
+	const retainFrom = now.getTime() - MAX_SOFT_BOUNCE_WINDOW_DAYS * DAY_MS;
+	const known = new Set(
+		current.soft_bounces.map(
+			(entry) => `${entry.provider_id}\n${entry.provider_event_id}`,
+		),
+	);
+	const added = entries.filter(
+		(entry) => !known.has(`${entry.provider_id}\n${entry.provider_event_id}`),
+	);
+	return {
+		version: SUPPRESSION_LEDGER_VERSION,
+		soft_bounces: [...current.soft_bounces, ...added]
+			.filter((entry) => Date.parse(entry.occurred_at) >= retainFrom)
+			.slice(-MAX_SUPPRESSION_LEDGER_ENTRIES),
+	};
+}
+
+/**
+ * Evaluate the events against the soft-bounce ledger. Unless `dryRun` is
+ * set, the ledger is read, counted, and extended in one locked update so
+ * concurrent deliveries for the same subscriber cannot miss each other's
+ * bounces.
+ */
+async function evaluateEventsWithLedger(
+	ledger: SuppressionLedgerOptions | undefined,
+	policy: SuppressionPolicy,
+	events: readonly SuppressionEvent[],
+	now: Date,
+	dryRun: boolean,
+): Promise<ReturnType<typeof evaluateEvents>> {
+	const store = createSuppressionLedgerStore(ledger?.path);
+	const evaluated = evaluateEvents(
+		policy,
+		events,
+		(await readJsonFileStore(store)).soft_bounces,
+		now,
+	);
+	// Which events are soft bounces does not depend on the ledger, so a
+	// batch without any needs no write.
+	if (dryRun || evaluated.softBounces.length === 0) {
+		return evaluated;
+	}
+	return updateJsonFileStore(store, (current) => {
+		const locked = evaluateEvents(policy, events, current.soft_bounces, now);
+		return commitJsonFileStoreUpdate(
+			appendSoftBounces(current, locked.softBounces, now),
+			locked,
+		);
+	});
+}
+
+/**
+ * Evaluate inbound delivery events against a provider's suppression policy
+ * and, unless `dry_run` is set, apply the resulting blocklist and list
+ * removals through the shared subscriber operations. Soft bounces are counted
+ * per subscriber in a local ledger keyed by provider event id, so a provider
+ * redelivery never counts the same bounce twice. They are recorded before the
+ * removals run, so a retry after a failed removal reaches the same decision.
+ */
+export async function applySuppressionPolicy(
+	context: SuppressionPolicyContext,
+	input: ApplySuppressionPolicyInput,
+): Promise<SuppressionPolicyReport> {
+	if (input.events.length > MAX_SUPPRESSION_POLICY_EVENTS) {
+		throw new RangeError(
+			`Suppression policy input exceeds ${MAX_SUPPRESSION_POLICY_EVENTS} events`,
+		);
+	}
+	const policy = getSuppressionPolicy(
+		await contextPolicies(context),
+		input.provider_id,
+	);
+	const now = context.now?.() ?? new Date();
+	const { candidates, skipped } = await evaluateEventsWithLedger(
+		context.ledger,
+		policy,
+		input.events,
+		now,
+		input.dry_run,
+	);
+
+	const subscribers = await resolveSubscribers(context, [
+		...new Set(candidates.map(({ subscriberUuid }) => subscriberUuid)),
+	]);
+	const actionsByUuid = new Map<
+		string,
+		{ subscriberId: number; action: SuppressionAction }
+	>();
+	for (const candidate of candidates) {
+		const subscriber = subscribers.get(candidate.subscriberUuid);
+		const blocklist = candidate.blocklist && subscriber?.blocklisted === false;
+		const listIds =
+			candidate.removeFromLists && subscriber ? subscriber.listIds : [];
+		if (!subscriber || (!blocklist && listIds.length === 0)) {
+			skipped.push({
+				provider_event_id: candidate.event.provider_event_id,
+				reason: subscriber ? "already_suppressed" : "subscriber_not_found",
+			});
+			continue;
+		}
+		const entry = actionsByUuid.get(candidate.subscriberUuid) ?? {
+			subscriberId: subscriber.id,
+			action: {
+				blocklist: false,
+				list_ids: [],
+				rules: [],
+				provider_event_ids: [],
+			},
+		};
+		const { action } = entry;
+		action.blocklist ||= blocklist;
+		action.list_ids = [...new Set([...action.list_ids, ...listIds])].sort(
+			(left, right) => left - right,
+		);
+		if (!action.rules.includes(candidate.rule)) {
+			action.rules.push(candidate.rule);
+		}
+		action.provider_event_ids.push(candidate.event.provider_event_id);
+		actionsByUuid.set(candidate.subscriberUuid, entry);
+	}
+
+	const entries = [...actionsByUuid.values()];
+	const report: SuppressionPolicyReport = {
+		provider_id: policy.provider_id,
+		dry_run: input.dry_run,
+		evaluated: input.events.length,
+		actions: entries.map(({ action }) => action),
+		skipped,
+		blocklisted: 0,
+		removed_from_lists: 0,
+	};
+	if (input.dry_run) {
+		return report;
+	}
+
+	const blocklistIds = entries
+		.filter(({ action }) => action.blocklist)
+		.map(({ subscriberId }) => subscriberId);
+	if (blocklistIds.length > 0) {
+		const result = await invokeBlocklistSubscribersOperation(context, {
+			subscriber_ids: blocklistIds,
+			dry_run: false,
+		});
+		report.blocklisted = result.succeeded;
+	}
+	// Subscribers sharing the same list set are removed in one bulk call.
+	const removals = new Map<string, { listIds: number[]; ids: number[] }>();
+	for (const { subscriberId, action } of entries) {
+		if (action.list_ids.length === 0) continue;
+		const key = action.list_ids.join(",");
+		const group = removals.get(key) ?? { listIds: action.list_ids, ids: [] };
+		group.ids.push(subscriberId);
+		removals.set(key, group);
+	}
+	for (const { listIds, ids } of removals.values()) {
+		const result = await invokeRemoveSubscribersFromListsOperation(context, {
+			subscriber_ids: ids,
+			list_ids: listIds,
+			dry_run: false,
+		});
+		report.removed_from_lists += result.succeeded;
+	}
+	return report;
+}
@@ -0,0 +1,365 @@
+import { randomUUID } from "node:crypto";
+import {
+	DEFAULT_TRANSACTIONAL_TTL_MS,
+	type StoredTransactionalDocument,
+	type TransactionalClaimResult,
+	type TransactionalIdempotencyStore,
+	type TransactionalSendRecord,
+} from "@listmonk-ops/operations";
+import postgres, { type Sql } from "postgres";
+
+export const TRANSACTIONAL_POSTGRES_SCHEMA_VERSION = 1;
+
+/**
+ * Expired records removed opportunistically by each claim. Bounded so a
+ * large backlog of expired keys never turns one send into a long delete.
+ */
+const EXPIRED_RECORD_PRUNE_BATCH = 100;
+
+export interface PostgresTransactionalIdempotencyStoreOptions {
+	connectionString: string;
+	maxConnections?: number;
+	idleTimeoutSeconds?: number;
+	connectTimeoutSeconds?: number;
+}
+
+/**
+ * Shared transactional idempotency store for replicated adapters. Claims
+ * are serialized per key by the primary key rather than a store-wide lock,
+ * so there is no record cap: expired records are pruned in bounded batches
+ * on claim, or in full with `pruneExpired`.
+ */
+export interface PostgresTransactionalIdempotencyStore
+	extends TransactionalIdempotencyStore {
+	readonly kind: "postgres";
+	pruneExpired(options?: { now?: () => Date }): Promise<number>;
+	close(): Promise<void>;
+}
+
+type IdempotencyRow = {
+	key: string;
+	payload_hash: string;
+	target_hash: string;
+	status: TransactionalSendRecord["status"];
+	sent: boolean | null;
+	error_message: string | null;
+	claim_token: string;
+	created_at: string | Date;
+	updated_at: string | Date;
+	expires_at: string | Date;
+};
+
+function assertConnectionString(value: string): string {
+	const trimmed = value.trim();
+	let parsed: URL;
+	try {
+		parsed = new URL(trimmed);
+	} catch {
+		throw new TypeError(
+			"Transactional Postgres connection string must be a valid URL",
+		);
+	}
+	if (parsed.protocol !== "postgres:" && parsed.protocol !== "postgresql:") {
+		throw new TypeError(
+			"Transactional Postgres connection string must use postgres:// or postgresql://",
+		);
+	}
+	return trimmed;
+}
+
+function resolvePositiveInteger(
+	value: number | undefined,
+	fallback: number,
+	label: string,
+	maximum: number,
+): number {
+	const resolved = value ?? fallback;
+	if (!Number.isInteger(resolved) || resolved <= 0 || resolved > maximum) {
+		throw new RangeError(`${label} must be between 1 and ${maximum}`);
+	}
+	return resolved;
+}
+
+async function initializeSchema(sql: Sql): Promise<void> {
+	await sql.begin(async (transaction) => {
+		await transaction`
+			SELECT pg_advisory_xact_lock(
+				hashtext('listmonk_ops'),
+				hashtext('transactional_runtime_schema')
+			)
+		`;
+		await transaction`CREATE SCHEMA IF NOT EXISTS listmonk_ops`;
+		await transaction`
+			CREATE TABLE IF NOT EXISTS listmonk_ops.transactional_runtime_meta (
+				key text PRIMARY KEY,
+				value text NOT NULL,
+				updated_at timestamptz NOT NULL DEFAULT now()
+			)
+		`;
+		await transaction`
+			INSERT INTO listmonk_ops.transactional_runtime_meta (key, value)
+			VALUES ('schema_version', '0')
+			ON CONFLICT (key) DO NOTHING
+		`;
+		const versionRows = await transaction<{ value: string }[]>`
+			SELECT value
+			FROM listmonk_ops.transactional_runtime_meta
+			WHERE key = 'schema_version'
+		`;
+		const storedVersion = Number(versionRows[0]?.value ?? Number.NaN);
+		if (
+			!Number.isInteger(storedVersion) ||
+			storedVersion < 0 ||
+			storedVersion > TRANSACTIONAL_POSTGRES_SCHEMA_VERSION
+		) {
+			throw new Error(
+				`Unsupported transactional Postgres schema version: ${versionRows[0]?.value ?? "missing"}`,
+			);
+		}
+		if (storedVersion < 1) {
+			await transaction`
+				CREATE TABLE IF NOT EXISTS
+					listmonk_ops.transactional_idempotency_records (
+						key text PRIMARY KEY,
+						payload_hash text NOT NULL,
+						target_hash text NOT NULL,
+						status text NOT NULL CHECK (
+							status IN ('pending', 'accepted', 'failed', 'unknown')
+						),
+						sent boolean,
+						error_message text,
+						claim_token uuid NOT NULL,
+						created_at timestamptz NOT NULL,
+						updated_at timestamptz NOT NULL,
+						expires_at timestamptz NOT NULL,
+						CHECK (status <> 'accepted' OR sent IS TRUE),
+						CHECK (status <> 'failed' OR sent IS DISTINCT FROM TRUE)
+					)
+			`;
+			await transaction`
+				CREATE INDEX IF NOT EXISTS transactional_idempotency_expiry_idx
+				ON listmonk_ops.transactional_idempotency_records (expires_at)
+			`;
+			await transaction`
+				UPDATE listmonk_ops.transactional_runtime_meta
+				SET value = '1', updated_at = now()
+				WHERE key = 'schema_version'
+			`;
+		}
+	});
+}
+
+function requiredTimestamp(value: string | Date): string {
+	const date = value instanceof Date ? value : new Date(value);
+	if (!Number.isFinite(date.getTime())) {
+		throw new Error(`Invalid timestamp returned by Postgres: ${String(value)}`);
+	}
+	return date.toISOString();
+}
+
+function toIdempotencyRecord(row: IdempotencyRow): TransactionalSendRecord {
+	return {
+		key: row.key,
+		payloadHash: row.payload_hash,
+		targetHash: row.target_hash,
+		status: row.status,
+		sent: row.sent ?? undefined,
+		errorMessage: row.error_message ?? undefined,
+		claimToken: row.claim_token,
+		createdAt: requiredTimestamp(row.created_at),
+		updatedAt: requiredTimestamp(row.updated_at),
+		expiresAt: requiredTimestamp(row.expires_at),
+	};
+}
+
+function normalizeCommittedSent(
+	status: TransactionalSendRecord["status"],
+	sent: boolean | undefined,
+): boolean | undefined {
+	if (status === "accepted") {
+		return true;
+	}
+	if (status === "failed" && sent === true) {
+		return false;
+	}
+	return sent;
+}
+
+export function createPostgresTransactionalIdempotencyStore(
+	options: PostgresTransactionalIdempotencyStoreOptions,
+): PostgresTransactionalIdempotencyStore {
+	const connectionString = assertConnectionString(options.connectionString);
+	const sql = postgres(connectionString, {
+		max: resolvePositiveInteger(
+			options.maxConnections,
+			5,
+			"maxConnections",
+			50,
+		),
+		idle_timeout: resolvePositiveInteger(
+			options.idleTimeoutSeconds,
+			20,
+			"idleTimeoutSeconds",
+			600,
+		),
+		connect_timeout: resolvePositiveInteger(
+			options.connectTimeoutSeconds,
+			10,
+			"connectTimeoutSeconds",
+			120,
+		),
+	});
+	let initialization: Promise<void> | undefined;
+	const ready = (): Promise<void> => {
+		initialization ??= initializeSchema(sql).catch((error) => {
+			initialization = undefined;
+			throw error;
+		});
+		return initialization;
+	};
+
+	return {
+		kind: "postgres",
+		async claim(claimOptions): Promise<TransactionalClaimResult> {
+			const ttlMs = claimOptions.ttlMs ?? DEFAULT_TRANSACTIONAL_TTL_MS;
+			// A non-positive TTL would persist an already-expired record that
+			// the next claim replaces, so an identical retry would dispatch again.
+			if (!Number.isFinite(ttlMs) || ttlMs <= 0) {
+				throw new RangeError("Transactional idempotency TTL must be positive");
+			}
+			await ready();
+			const now = (claimOptions.now ?? (() => new Date()))();
+			return sql.begin(async (transaction) => {
+				// An expired record for this key no longer guards anything; drop it
+				// so the claim below starts a fresh slot, as the file store does.
+				await transaction`
+					DELETE FROM listmonk_ops.transactional_idempotency_records
+					WHERE key = ${claimOptions.key}
+						AND expires_at < ${now}
+				`;
+				await transaction`
+					DELETE FROM listmonk_ops.transactional_idempotency_records
+					WHERE key IN (
+						SELECT key
+						FROM listmonk_ops.transactional_idempotency_records
+						WHERE expires_at < ${now}
+						ORDER BY expires_at ASC
+						LIMIT ${EXPIRED_RECORD_PRUNE_BATCH}
+						FOR UPDATE SKIP LOCKED
+					)
+				`;
+				const createdAt = now.toISOString();
+				const record: TransactionalSendRecord = {
+					key: claimOptions.key,
+					payloadHash: claimOptions.payloadHash,
+					targetHash: claimOptions.targetHash,
+					status: "pending",
+					claimToken: randomUUID(),
+					createdAt,
+					updatedAt: createdAt,
+					expiresAt: new Date(now.getTime() + ttlMs).toISOString(),
+				};
+				// A concurrent claim for the same key blocks on the primary key
+				// until the first commits, then inserts nothing and falls through
+				// to the replay/conflict lookup.
+				const inserted = await transaction<{ key: string }[]>`
+					INSERT INTO listmonk_ops.transactional_idempotency_records (
+						key, payload_hash, target_hash, status, sent,
+						error_message, claim_token, created_at, updated_at, expires_at
+					)
+					VALUES (
+						${record.key},
+						${record.payloadHash},
+						${record.targetHash},
+						${record.status},
+						NULL,
+						NULL,
+						${record.claimToken},
+						${record.createdAt},
+						${record.updatedAt},
+						${record.expiresAt}
+					)
+					ON CONFLICT (key) DO NOTHING
+					RETURNING key
+				`;
+				if (inserted.length > 0) {
+					return { kind: "new", record };
+				}
+				const rows = await transaction<IdempotencyRow[]>`
+					SELECT *
+					FROM listmonk_ops.transactional_idempotency_records
+					WHERE key = ${claimOptions.key}
+				`;
+				const existingRow = rows[0];
+				if (!existingRow) {
+					throw new Error(
+						`Transactional idempotency record '${claimOptions.key}' changed during claim; retry the send`,
+					);
+				}
+				const existing = toIdempotencyRecord(existingRow);
+				return existing.payloadHash === claimOptions.payloadHash &&
+					existing.targetHash === claimOptions.targetHash
+					? { kind: "replay", record: existing }
+					: { kind: "conflict", existing };
+			});
+		},
+		async commit(commitOptions): Promise<void> {
+			await ready();
+			const now = (commitOptions.now ?? (() => new Date()))();
+			const sent = normalizeCommittedSent(
+				commitOptions.status,
+				commitOptions.sent,
+			);
+			// The claim token binds the commit to its originating claim, and an
+			// expired record is treated as already swept: both are no-ops.
+			await sql`
+				UPDATE listmonk_ops.transactional_idempotency_records
+				SET
+					status = ${commitOptions.status},
+					sent = ${sent ?? null},
+					error_message = ${commitOptions.errorMessage ?? null},
+					updated_at = ${now}
+				WHERE key = ${commitOptions.key}
+					AND claim_token = ${commitOptions.claimToken}
+					AND expires_at >= ${now}
+			`;
+		},
+		async release(releaseOptions): Promise<void> {
+			await ready();
+			await sql`
+				DELETE FROM listmonk_ops.transactional_idempotency_records
+				WHERE key = ${releaseOptions.key}
+					AND claim_token = ${releaseOptions.claimToken}
+			`;
+		},
+		async load(): Promise<StoredTransactionalDocument> {
+			await ready();
+			// Expired records are kept for read-only diagnostics and
+			// ambiguous-send reconciliation until a claim or prune removes them.
+			const rows = await sql<IdempotencyRow[]>`
+				SELECT *
+				FROM listmonk_ops.transactional_idempotency_records
+				ORDER BY created_at ASC, key ASC
+			`;
+			const records: Record<string, TransactionalSendRecord> =
+				Object.create(null);
+			for (const row of rows) {
+				const record = toIdempotencyRecord(row);
+				records[record.key] = record;
+			}
+			return { version: 1, records };
+		},
+		async pruneExpired(pruneOptions = {}): Promise<number> {
+			await ready();
+			const now = (pruneOptions.now ?? (() => new Date()))();
+			const deleted = await sql`
+				DELETE FROM listmonk_ops.transactional_idempotency_records
+				WHERE expires_at < ${now}
+			`;
+			return deleted.count;
+		},
+		async close(): Promise<void> {
+			await sql.end({ timeout: 5 });
+		},
+	};
+}
@@ -0,0 +1,92 @@
+import {
+	createFileBackedTransactionalIdempotencyStore,
+	type TransactionalIdempotencyStore,
+} from "@listmonk-ops/common";
+import {
+	createPostgresTransactionalIdempotencyStore,
+	type PostgresTransactionalIdempotencyStore,
+	type PostgresTransactionalIdempotencyStoreOptions,
+} from "./transactional-postgres";
+
+export const TRANSACTIONAL_DATABASE_URL_ENV =
+	"LISTMONK_OPS_TRANSACTIONAL_DATABASE_URL";
+export const TRANSACTIONAL_STORE_PATH_ENV = "LISTMONK_OPS_TRANSACTIONAL_STORE";
+
+const storeCache = new Map<string, PostgresTransactionalIdempotencyStore>();
+
+export interface TransactionalRuntimeOptions {
+	path?: string;
+	databaseUrl?: string;
+	postgres?: Omit<
+		PostgresTransactionalIdempotencyStoreOptions,
+		"connectionString"
+	>;
+}
+
+function cacheKey(
+	databaseUrl: string,
+	options: TransactionalRuntimeOptions["postgres"],
+): string {
+	return JSON.stringify({
+		databaseUrl,
+		maxConnections: options?.maxConnections,
+		idleTimeoutSeconds: options?.idleTimeoutSeconds,
+		connectTimeoutSeconds: options?.connectTimeoutSeconds,
+	});
+}
+
+/**
+ * Resolve the transactional idempotency store for this process. A database
+ * URL selects the shared Postgres store (cached so every send reuses one
+ * pool); otherwise the file-backed store is used.
+ */
+export function getTransactionalIdempotencyStoreFromEnvironment(
+	options: TransactionalRuntimeOptions = {},
+): TransactionalIdempotencyStore {
+	const path =
+		options.path ??
+		(process.env[TRANSACTIONAL_STORE_PATH_ENV]?.trim() || undefined);
+	const databaseUrl =
+		options.databaseUrl ??
+		(process.env[TRANSACTIONAL_DATABASE_URL_ENV]?.trim() || undefined);
+	if (path && databaseUrl) {
+		throw new TypeError(
+			`Configure only one of ${TRANSACTIONAL_STORE_PATH_ENV} or ${TRANSACTIONAL_DATABASE_URL_ENV}`,
+		);
+	}
+	if (!databaseUrl) {
+		return createFileBackedTransactionalIdempotencyStore(
+			options.path ? { storePath: options.path } : {},
+		);
+	}
+	const key = cacheKey(databaseUrl, options.postgres);
+	let store = storeCache.get(key);
+	if (!store) {
+		store = createPostgresTransactionalIdempotencyStore({
+			connectionString: databaseUrl,
+			...options.postgres,
+		});
+		storeCache.set(key, store);
+	}
+	return store;
+}
+
+export async function closeTransactionalRuntimeStores(): Promise<void> {
+	const stores = [...storeCache.values()];
+	const results = await Promise.allSettled(
+		stores.map((store) => store.close()),
+	);
+	storeCache.clear();
+	const failures = results
+		.filter(
+			(result): result is PromiseRejectedResult =>
+				result.status === "rejected",
+		)
+		.map((result) => result.reason);
+	if (failures.length > 0) {
+		throw new AggregateError(
+			failures,
+			"Failed to close one or more transactional idempotency stores",
+		);
+	}
+}
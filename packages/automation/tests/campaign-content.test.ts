@@ -0,0 +1,100 @@
+import { describe, expect, test } from "bun:test";
+import {
+	checkRenderedCampaignContent,
+	collectRenderedImages,
+} from "../src/campaign-content";
+
+const cleanContent = {
+	html: `<html><head><style>p { color: #333; }</style></head><body><p>${"Our monthly update covers releases, fixes, and events. ".repeat(6)}</p><img src="https://cdn.example.com/logo.png" alt="Logo"><!--[if mso]><table><![endif]--></body></html>`,
+	subject: "Monthly update",
+	contentType: "richtext",
+	altbody: "Our monthly update",
+	headers: [],
+	unsubscribeHeader: true,
+};
+
+function levelsById(checks: ReturnType<typeof checkRenderedCampaignContent>) {
+	return Object.fromEntries(checks.map((check) => [check.id, check.level]));
+}
+
+describe("rendered campaign content checks", () => {
+	test("passes clean content", () => {
+		expect(levelsById(checkRenderedCampaignContent(cleanContent))).toEqual({
+			gmail_clipping: "pass",
+			image_alt_text: "pass",
+			plain_text_alternative: "pass",
+			image_text_ratio: "pass",
+			spam_phrases: "pass",
+			html_balance: "pass",
+			list_unsubscribe_header: "pass",
+		});
+	});
+
+	test("reports each problem at its default level", () => {
+		const checks = checkRenderedCampaignContent({
+			html: `<div><p>ACT NOW, click here!!!</p><img src="a.png"><img src="https://cdn.example.com/b.png" alt=""></span>${" ".repeat(110 * 1024)}`,
+			subject: "FREE OFFER",
+			altbody: "",
+			headers: [{ "X-Campaign": "spring" }],
+			unsubscribeHeader: false,
+		});
+		expect(levelsById(checks)).toEqual({
+			gmail_clipping: "warn",
+			image_alt_text: "warn",
+			plain_text_alternative: "warn",
+			image_text_ratio: "warn",
+			spam_phrases: "warn",
+			html_balance: "warn",
+			list_unsubscribe_header: "warn",
+		});
+		const details = Object.fromEntries(
+			checks.map((check) => [check.id, check.details]),
+		);
+		expect(details.image_alt_text).toEqual({ images: ["a.png"] });
+		expect(details.spam_phrases).toEqual({
+			signals: ["act now", "click here", "!!!", "all-caps subject"],
+		});
+		expect(details.html_balance).toEqual({
+			unclosed: ["<div>"],
+			unexpected: ["</span>"],
+		});
+		expect(
+			checks.find((check) => check.id === "list_unsubscribe_header")?.message,
+		).toBe("List-Unsubscribe header is disabled in Listmonk privacy settings");
+	});
+
+	test("applies configured levels and skips checks turned off", () => {
+		const checks = checkRenderedCampaignContent(
+			{
+				...cleanContent,
+				altbody: null,
+				headers: [{ "List-Unsubscribe": "<mailto:leave@example.com>" }],
+				unsubscribeHeader: undefined,
+			},
+			{ plain_text_alternative: "fail", spam_phrases: "off" },
+		);
+		expect(levelsById(checks)).toMatchObject({
+			plain_text_alternative: "fail",
+			list_unsubscribe_header: "pass",
+		});
+		expect(checks.some((check) => check.id === "spam_phrases")).toBe(false);
+		expect(
+			checkRenderedCampaignContent({
+				...cleanContent,
+				unsubscribeHeader: undefined,
+			}).find((check) => check.id === "list_unsubscribe_header"),
+		).toEqual({
+			id: "list_unsubscribe_header",
+			level: "warn",
+			message: "Could not confirm that Listmonk adds a List-Unsubscribe header",
+		});
+	});
+
+	test("ignores the view-tracking pixel when collecting images", () => {
+		expect(
+			collectRenderedImages(
+				`<img src="https://lists.example.com/campaign/abc/def/px.png" alt=""><img src='cid:logo'>`,
+			),
+		).toEqual([{ src: "cid:logo", hasAlt: false }]);
+	});
+});
@@ -52,6 +52,7 @@ describe("automation operation registry", () => {
 			max_audience: 200_000,
 			check_links: false,
 			link_check_timeout_ms: 4_000,
+			check_render: false,
 		});
 		expect(
 			deliverabilityGuardOperation.inputSchema.parse({ campaign_id: "42" }),
@@ -82,6 +83,17 @@ describe("automation operation registry", () => {
 				pause_on_breach: "sometimes",
 			}),
 		).toThrow();
+		for (const content_check_levels of [
+			{ spam_phrases: "pass" },
+			{ spam_words: "warn" },
+		]) {
+			expect(() =>
+				campaignPreflightOperation.inputSchema.parse({
+					campaign_id: 42,
+					content_check_levels,
+				}),
+			).toThrow();
+		}
 	});
 
 	test("keeps named invokers as direct graph anchors", async () => {
@@ -277,4 +277,43 @@ describe("successful operation lifecycle projection", () => {
 			JSON.stringify([...revised, ...enrolled, ...reconciled, ...deleted]),
 		).not.toContain("subscriber_id");
 	});
+
+	test("projects applied sequence migrations but not dry-run plans", () => {
+		const migration = (dryRun: boolean) =>
+			projectSuccessfulOperationLifecycleEvents({
+				executionId: `execution-sequence-migrate-${dryRun}`,
+				operationId: "sequences.migrate",
+				operationInput: {
+					id: "0f1647c2-50c7-44d0-b5be-7eeef90a7c9a",
+					from_revision: 1,
+					to_revision: 2,
+					step_map: { welcome: "intro" },
+					dry_run: dryRun,
+				},
+				operationOutput: {
+					sequence_id: "0f1647c2-50c7-44d0-b5be-7eeef90a7c9a",
+					from_revision: 1,
+					to_revision: 2,
+					scanned: 3,
+					migrated: 2,
+					skipped: 1,
+					moves: [
+						{ from_step_id: "welcome", to_step_id: "intro", enrollments: 2 },
+					],
+					dry_run: dryRun,
+				},
+			});
+
+		expect(migration(true)).toEqual([]);
+		expect(migration(false)).toMatchObject([
+			{
+				type: "sequence.migrated",
+				subject: {
+					kind: "sequence",
+					key: "0f1647c2-50c7-44d0-b5be-7eeef90a7c9a",
+				},
+				data: { from_revision: 1, to_revision: 2, migrated: 2, skipped: 1 },
+			},
+		]);
+	});
 });
@@ -0,0 +1,468 @@
+import { afterEach, describe, expect, mock, test } from "bun:test";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	invokePlaybookApproveOperation,
+	invokePlaybookRunCancelOperation,
+	invokePlaybookRunGetOperation,
+	invokePlaybookRunOperation,
+	loadOperationPlaybooks,
+	type PlaybookStepExecutor,
+} from "../src";
+
+const directories: string[] = [];
+const now = new Date("2026-10-01T09:00:00.000Z");
+const sendAt = "2026-10-02T09:00:00Z";
+
+afterEach(async () => {
+	await Promise.all(
+		directories.splice(0).map((directory) =>
+			rm(directory, { recursive: true, force: true }),
+		),
+	);
+});
+
+/** Fake the campaign operations behind the built-in safe-schedule playbook. */
+async function safeScheduleContext(
+	outputs: { preflightFail?: number; verifiedStatus?: string } = {},
+) {
+	const directory = await mkdtemp(join(tmpdir(), "listmonk-ops-playbooks-"));
+	directories.push(directory);
+	const executeStep = mock<PlaybookStepExecutor>(async (operationId, input) => {
+		switch (operationId) {
+			case "campaigns.get":
+				return {
+					id: input.id,
+					status:
+						executeStep.mock.calls.some(
+							([candidate]) => candidate === "campaigns.schedule",
+						)
+							? (outputs.verifiedStatus ?? "scheduled")
+							: "draft",
+				};
+			case "ops.campaign.preflight":
+				return {
+					campaignUpdatedAt: "2026-09-30T12:00:00Z",
+					summary: { pass: 4, warn: 0, fail: outputs.preflightFail ?? 0 },
+				};
+			case "campaigns.schedule":
+				return { id: input.id, status: "scheduled" };
+			default:
+				throw new Error(`unexpected step ${operationId}`);
+		}
+	});
+	return {
+		executeStep,
+		context: {
+			executeStep,
+			store: { path: join(directory, "playbook-runs.json") },
+			now: () => now,
+		},
+	};
+}
+
+describe("playbook runs", () => {
+	test("pauses at the approval step and resumes with the reviewed input", async () => {
+		const { context, executeStep } = await safeScheduleContext();
+
+		const { run: paused } = await invokePlaybookRunOperation(context, {
+			id: "campaign.safe-schedule",
+			inputs: { campaign_id: "7", send_at: sendAt },
+		});
+		expect(paused).toMatchObject({
+			playbook_id: "campaign.safe-schedule",
+			status: "awaiting_approval",
+			inputs: { campaign_id: 7, send_at: sendAt },
+			steps: [
+				{ step_id: "inspect", status: "succeeded" },
+				{ step_id: "preflight", status: "succeeded" },
+				{
+					step_id: "schedule",
+					status: "awaiting_approval",
+					input: {
+						id: 7,
+						send_at: sendAt,
+						expected_updated_at: "2026-09-30T12:00:00Z",
+					},
+				},
+				{ step_id: "verify", status: "pending" },
+			],
+		});
+		expect(executeStep.mock.calls.map(([operation]) => operation)).toEqual([
+			"campaigns.get",
+			"ops.campaign.preflight",
+		]);
+		expect(
+			executeStep.mock.calls.every(([, , options]) => !options.confirmed),
+		).toBe(true);
+
+		await expect(
+			invokePlaybookApproveOperation(context, {
+				run_id: paused.id,
+				step_id: "verify",
+			}),
+		).rejects.toThrow("is paused at step schedule, not verify");
+
+		const { run } = await invokePlaybookApproveOperation(context, {
+			run_id: paused.id,
+			step_id: "schedule",
+		});
+		expect(run.status).toBe("succeeded");
+		expect(executeStep.mock.calls.slice(2)).toEqual([
+			[
+				"campaigns.schedule",
+				{
+					id: 7,
+					send_at: sendAt,
+					expected_updated_at: "2026-09-30T12:00:00Z",
+				},
+				{ confirmed: true },
+			],
+			["campaigns.get", { id: 7 }, { confirmed: false }],
+		]);
+		expect(
+			(await invokePlaybookRunGetOperation(context, { run_id: run.id })).run,
+		).toEqual(run);
+		await expect(
+			invokePlaybookApproveOperation(context, { run_id: run.id }),
+		).rejects.toThrow("is not awaiting approval (status: succeeded)");
+	});
+
+	test("stops on a failed result guard and runs the recovery operation", async () => {
+		const { context, executeStep } = await safeScheduleContext({
+			preflightFail: 2,
+		});
+
+		const { run } = await invokePlaybookRunOperation(context, {
+			id: "campaign.safe-schedule",
+			inputs: { campaign_id: 7, send_at: sendAt },
+		});
+		expect(run).toMatchObject({
+			status: "failed",
+			failure_reason:
+				"Do not schedule while any preflight check fails. (summary.fail is 2)",
+			steps: [
+				{ step_id: "inspect", status: "succeeded" },
+				{ step_id: "preflight", status: "failed" },
+				{ step_id: "schedule", status: "pending" },
+				{ step_id: "verify", status: "pending" },
+			],
+			recovery: {
+				operation: "campaigns.get",
+				status: "succeeded",
+				input: { id: 7 },
+				output: { id: 7, status: "draft" },
+			},
+		});
+		expect(executeStep).toHaveBeenCalledTimes(3);
+		expect(
+			executeStep.mock.calls.some(
+				([operation]) => operation === "campaigns.schedule",
+			),
+		).toBe(false);
+	});
+
+	test("cancels a run interrupted mid-step and runs its recovery", async () => {
+		const { context, executeStep } = await safeScheduleContext();
+		const { run: paused } = await invokePlaybookRunOperation(context, {
+			id: "campaign.safe-schedule",
+			inputs: { campaign_id: 7, send_at: sendAt },
+		});
+		// The approval claim was saved, then the process died mid-schedule.
+		const store = JSON.parse(await readFile(context.store.path, "utf8"));
+		store.runs[0].status = "running";
+		await writeFile(context.store.path, JSON.stringify(store));
+		const cancelAt = (minutes: number) =>
+			invokePlaybookRunCancelOperation(
+				{
+					...context,
+					now: () => new Date(now.getTime() + minutes * 60_000),
+				},
+				{ run_id: paused.id },
+			);
+
+		await expect(cancelAt(14)).rejects.toThrow(
+			"is still running; it can be cancelled after 15 minutes without progress",
+		);
+		const { run } = await cancelAt(15);
+		expect(run).toMatchObject({
+			status: "failed",
+			failure_reason: "Playbook run was interrupted at step schedule",
+			steps: [
+				{ step_id: "inspect", status: "succeeded" },
+				{ step_id: "preflight", status: "succeeded" },
+				{
+					step_id: "schedule",
+					status: "failed",
+					failure_reason:
+						"Interrupted before the step outcome was recorded; check whether it took effect",
+				},
+				{ step_id: "verify", status: "pending" },
+			],
+			recovery: {
+				operation: "campaigns.get",
+				status: "succeeded",
+				input: { id: 7 },
+			},
+		});
+		expect(executeStep.mock.calls.map(([operation]) => operation)).toEqual([
+			"campaigns.get",
+			"ops.campaign.preflight",
+			"campaigns.get",
+		]);
+		await expect(cancelAt(30)).rejects.toThrow(
+			"cannot be cancelled (status: failed)",
+		);
+	});
+
+	test("rejects a stale save over a run cancelled while its step ran", async () => {
+		const { context, executeStep } = await safeScheduleContext();
+		const { run: paused } = await invokePlaybookRunOperation(context, {
+			id: "campaign.safe-schedule",
+			inputs: { campaign_id: 7, send_at: sendAt },
+		});
+		const later = {
+			...context,
+			now: () => new Date(now.getTime() + 15 * 60_000),
+		};
+		// The schedule call hangs long enough for the run to be cancelled as
+		// interrupted, then returns to the process that started it.
+		const stalled = mock<PlaybookStepExecutor>(
+			async (operationId, input, options) => {
+				if (operationId === "campaigns.schedule") {
+					await invokePlaybookRunCancelOperation(later, {
+						run_id: paused.id,
+					});
+				}
+				return executeStep(operationId, input, options);
+			},
+		);
+
+		await expect(
+			invokePlaybookApproveOperation(
+				{ ...context, executeStep: stalled },
+				{ run_id: paused.id },
+			),
+		).rejects.toThrow(
+			`Playbook run ${paused.id} changed while it was running (status: failed)`,
+		);
+		const { run } = await invokePlaybookRunGetOperation(context, {
+			run_id: paused.id,
+		});
+		expect(run).toMatchObject({
+			status: "failed",
+			failure_reason: "Playbook run was interrupted at step schedule",
+			recovery: { operation: "campaigns.get", status: "succeeded" },
+		});
+	});
+
+	test("cancels a run paused at an approval step", async () => {
+		const { context } = await safeScheduleContext();
+		const { run: paused } = await invokePlaybookRunOperation(context, {
+			id: "campaign.safe-schedule",
+			inputs: { campaign_id: 7, send_at: sendAt },
+		});
+
+		const { run } = await invokePlaybookRunCancelOperation(context, {
+			run_id: paused.id,
+		});
+		expect(run).toMatchObject({
+			status: "failed",
+			failure_reason:
+				"Playbook run was cancelled at approval step schedule",
+			recovery: { operation: "campaigns.get", status: "succeeded" },
+		});
+		expect(run.steps[2]).toMatchObject({
+			status: "failed",
+			failure_reason: "Cancelled before approval",
+		});
+		await expect(
+			invokePlaybookApproveOperation(context, { run_id: paused.id }),
+		).rejects.toThrow("is not awaiting approval (status: failed)");
+	});
+
+	test("validates playbook inputs before starting a run", async () => {
+		const { context, executeStep } = await safeScheduleContext();
+		const run = (inputs: Record<string, unknown>) =>
+			invokePlaybookRunOperation(context, {
+				id: "campaign.safe-schedule",
+				inputs,
+			});
+
+		await expect(run({ send_at: sendAt })).rejects.toThrow(
+			"requires input campaign_id",
+		);
+		await expect(run({ campaign_id: "seven", send_at: sendAt })).rejects.toThrow(
+			"input campaign_id must be a number",
+		);
+		await expect(
+			run({ campaign_id: 7, send_at: sendAt, list_id: 3 }),
+		).rejects.toThrow("has no inputs named: list_id");
+		await expect(
+			invokePlaybookRunOperation(context, { id: "campaign.unknown" }),
+		).rejects.toThrow("Unknown operation playbook: campaign.unknown");
+		await expect(
+			invokePlaybookRunOperation(
+				{ store: context.store },
+				{ id: "campaign.safe-schedule" },
+			),
+		).rejects.toThrow("require a step executor");
+		expect(executeStep).not.toHaveBeenCalled();
+	});
+});
+
+describe("playbook files", () => {
+	const teamPlaybook = `schema_version: 1
+playbook:
+  id: team.campaign-check
+  title: Campaign check
+  goal: Confirm a campaign is still a draft before the team edits it.
+  inputs:
+    - name: campaign_id
+      type: number
+      required: true
+      description: Campaign to check.
+  steps:
+    - id: inspect
+      operation: campaigns.get
+      approval: none
+      description: Read the campaign.
+      depends_on: []
+      input:
+        - parameter: id
+          source: { kind: playbook-input, name: campaign_id }
+      result_guard:
+        path: status
+        operator: equals
+        expected: draft
+        on_failure: stop
+        message: Only draft campaigns can be edited.
+  recovery_operation: campaigns.get
+`;
+
+	async function playbookDirectory(files: Record<string, string>) {
+		const directory = await mkdtemp(join(tmpdir(), "listmonk-ops-books-"));
+		directories.push(directory);
+		for (const [name, content] of Object.entries(files)) {
+			await writeFile(join(directory, name), content);
+		}
+		return directory;
+	}
+
+	test("loads YAML and JSON playbooks that a run can execute", async () => {
+		const directory = await playbookDirectory({
+			"team.yaml": teamPlaybook,
+			"notes.txt": "ignored",
+			"webhooks.json": JSON.stringify({
+				schema_version: 1,
+				playbook: {
+					id: "team.webhook-check",
+					title: "Webhook check",
+					goal: "List outbound webhook endpoints.",
+					inputs: [],
+					steps: [
+						{
+							id: "list",
+							operation: "webhooks.list",
+							approval: "none",
+							description: "List endpoints.",
+							depends_on: [],
+							input: [],
+						},
+					],
+					recovery_operation: "webhooks.list",
+				},
+			}),
+		});
+
+		const { playbooks, diagnostics } = await loadOperationPlaybooks({
+			env: { LISTMONK_OPS_PLAYBOOK_DIR: directory },
+			parseYaml: (text) => Bun.YAML.parse(text),
+		});
+		expect(playbooks.map(({ id }) => id)).toEqual([
+			"team.campaign-check",
+			"team.webhook-check",
+		]);
+		expect(diagnostics).toEqual([]);
+
+		const { context, executeStep } = await safeScheduleContext();
+		const { run } = await invokePlaybookRunOperation(
+			{ ...context, playbooks },
+			{ id: "team.campaign-check", inputs: { campaign_id: 7 } },
+		);
+		expect(run.status).toBe("succeeded");
+		expect(executeStep).toHaveBeenCalledWith(
+			"campaigns.get",
+			{ id: 7 },
+			{ confirmed: false },
+		);
+		expect(await loadOperationPlaybooks({ env: {} })).toEqual({
+			playbooks: [],
+			diagnostics: [],
+		});
+	});
+
+	test("skips invalid files and names each one in the diagnostics", async () => {
+		const { playbooks, diagnostics } = await loadOperationPlaybooks({
+			directory: await playbookDirectory({
+				"a.yaml": teamPlaybook,
+				"b.yaml": teamPlaybook,
+				"c.yaml": teamPlaybook
+					.replace("team.campaign-check", "team.campaign-start")
+					.replace(
+						"operation: campaigns.get\n      approval: none",
+						"operation: campaigns.start\n      approval: none",
+					),
+				"d.yaml": teamPlaybook.replace(
+					"team.campaign-check",
+					"team.campaign-recheck",
+				),
+			}),
+			parseYaml: (text) => Bun.YAML.parse(text),
+		});
+		expect(playbooks.map(({ id }) => id)).toEqual([
+			"team.campaign-check",
+			"team.campaign-recheck",
+		]);
+		expect(diagnostics).toEqual([
+			{
+				file: "b.yaml",
+				message:
+					"Invalid playbook file b.yaml: Operations spec contains duplicate playbook id: team.campaign-check",
+			},
+			{
+				file: "c.yaml",
+				message:
+					"Invalid playbook file c.yaml: Operation playbook team.campaign-start step inspect must require human approval for campaigns.start",
+			},
+		]);
+		expect(
+			await loadOperationPlaybooks({
+				directory: await playbookDirectory({ "team.yml": teamPlaybook }),
+			}),
+		).toEqual({
+			playbooks: [],
+			diagnostics: [
+				{
+					file: "team.yml",
+					message:
+						"Invalid playbook file team.yml: YAML playbooks require a YAML parser",
+				},
+			],
+		});
+		expect(
+			await loadOperationPlaybooks({
+				directory: join(tmpdir(), "missing-books"),
+			}),
+		).toEqual({
+			playbooks: [],
+			diagnostics: [
+				{
+					message:
+						"Playbook directory is not accessible; check LISTMONK_OPS_PLAYBOOK_DIR",
+				},
+			],
+		});
+	});
+});
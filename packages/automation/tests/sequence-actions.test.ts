@@ -0,0 +1,258 @@
+import {
+	createFileBackedTransactionalIdempotencyStore,
+	hashTransactionalPayload,
+} from "@listmonk-ops/common";
+import type { ListmonkClient } from "@listmonk-ops/openapi";
+import { afterEach, describe, expect, mock, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	createFileSequenceRepository,
+	createOutboundWebhookEndpoint,
+	invokeSequenceCreateOperation,
+	invokeSequenceEnrollOperation,
+	invokeSequencePauseOperation,
+	invokeSequenceValidateOperation,
+	listOutboundWebhookDeliveries,
+	runSequenceTick,
+	type SequenceExecutionContext,
+	type SequenceRepository,
+} from "../src";
+
+const directories: string[] = [];
+const now = new Date("2026-09-12T09:00:00.000Z");
+
+afterEach(async () => {
+	await Promise.all(
+		directories.splice(0).map((directory) =>
+			rm(directory, { recursive: true, force: true }),
+		),
+	);
+});
+
+async function createStores() {
+	const directory = await mkdtemp(join(tmpdir(), "listmonk-ops-actions-"));
+	directories.push(directory);
+	return {
+		repository: createFileSequenceRepository(join(directory, "sequences.json")),
+		idempotencyStore: createFileBackedTransactionalIdempotencyStore({
+			storePath: join(directory, "transactional.json"),
+		}),
+		webhookStore: { path: join(directory, "webhooks.json") },
+	};
+}
+
+function subscriberClient() {
+	const subscriber = {
+		id: 42,
+		email: "ada@example.com",
+		name: "Ada",
+		status: "enabled",
+		attribs: { plan: "trial", profile: { city: "Seoul", team: "ops" } },
+		lists: [
+			{ id: 3, subscription_status: "confirmed" },
+			{ id: 4, subscription_status: "unsubscribed" },
+		],
+	};
+	return {
+		getById: mock(async () => ({ data: subscriber })),
+		update: mock(async () => ({ data: subscriber })),
+		manageLists: mock(async () => ({ data: true })),
+		manageBlocklist: mock(async () => ({ data: true })),
+	};
+}
+
+function executionContext(
+	stores: Awaited<ReturnType<typeof createStores>>,
+	subscriber = subscriberClient(),
+) {
+	const context = {
+		...stores,
+		client: {
+			subscriber,
+			transactional: { send: async () => ({ data: true }) },
+		} as unknown as Pick<ListmonkClient, "subscriber" | "transactional">,
+		hashPayload: hashTransactionalPayload,
+		retryJitter: () => 1,
+	} satisfies SequenceExecutionContext;
+	return { context, subscriber };
+}
+
+async function enroll(repository: SequenceRepository, steps: unknown[]) {
+	const { sequence } = await invokeSequenceCreateOperation(
+		{ repository },
+		{ name: `actions-${steps.length}`, steps },
+	);
+	const { enrollment } = await invokeSequenceEnrollOperation(
+		{ repository, now: () => now },
+		{ id: sequence.id, subscriber_id: 42, context: { plan: "pro" } },
+	);
+	return { sequenceId: sequence.id, enrollmentId: enrollment.id };
+}
+
+async function drain(context: SequenceExecutionContext, at = now) {
+	for (let tick = 0; tick < 10; tick += 1) {
+		const summary = await runSequenceTick(context, { now: at });
+		if (summary.claimed === 0) return;
+	}
+}
+
+describe("sequence action steps", () => {
+	test("validates action step shapes", async () => {
+		const { repository } = await createStores();
+		const validate = (step: Record<string, unknown>) =>
+			invokeSequenceValidateOperation(
+				{ repository },
+				{ steps: [{ id: "action", ...step }] },
+			);
+
+		await expect(
+			validate({ type: "list_add", list_ids: [] }),
+		).rejects.toThrow();
+		await expect(
+			validate({ type: "attribs_patch", attribs: {} }),
+		).rejects.toThrow("at least one attribute");
+		await expect(
+			validate({ type: "webhook_event", name: "has spaces" }),
+		).rejects.toThrow();
+		expect(
+			await validate({ type: "enroll", sequence_id: crypto.randomUUID() }),
+		).toMatchObject({ valid: true });
+	});
+
+	test("manages lists, blocklists, and merge-patches attributes", async () => {
+		const stores = await createStores();
+		const { enrollmentId } = await enroll(stores.repository, [
+			{ id: "join", type: "list_add", list_ids: [7, 8] },
+			{ id: "leave", type: "list_remove", list_ids: [3] },
+			{
+				id: "tag",
+				type: "attribs_patch",
+				attribs: { plan: "pro", profile: { team: null, tier: 2 } },
+			},
+			{ id: "block", type: "blocklist" },
+		]);
+		const { context, subscriber } = executionContext(stores);
+
+		await drain(context);
+
+		expect(await stores.repository.getEnrollment(enrollmentId)).toMatchObject(
+			{ status: "completed" },
+		);
+		expect(subscriber.manageLists.mock.calls).toEqual([
+			[{ body: { action: "add", ids: [42], target_list_ids: [7, 8] } }],
+			[{ body: { action: "remove", ids: [42], target_list_ids: [3] } }],
+		]);
+		expect(subscriber.manageBlocklist).toHaveBeenCalledWith({
+			body: { action: "add", ids: [42] },
+		});
+		expect(subscriber.update).toHaveBeenCalledWith({
+			path: { id: 42 },
+			body: {
+				email: "ada@example.com",
+				name: "Ada",
+				status: "enabled",
+				lists: [3, 4],
+				attribs: { plan: "pro", profile: { city: "Seoul", tier: 2 } },
+			},
+		});
+	});
+
+	test("replays webhook and enroll actions once after a crash before commit", async () => {
+		const stores = await createStores();
+		await createOutboundWebhookEndpoint(
+			{
+				name: "crm",
+				url: "https://8.8.8.8/hooks/listmonk",
+				secretRef: "LISTMONK_OPS_WEBHOOK_SECRET_CRM",
+				eventFilters: ["sequence.*"],
+			},
+			stores.webhookStore,
+		);
+		const target = await invokeSequenceCreateOperation(
+			{ repository: stores.repository },
+			{ name: "follow-up", steps: [{ id: "stop", type: "stop" }] },
+		);
+		const { enrollmentId } = await enroll(stores.repository, [
+			{
+				id: "notify",
+				type: "webhook_event",
+				name: "onboarding.started",
+				data: { source: "sequence" },
+			},
+			{ id: "handoff", type: "enroll", sequence_id: target.sequence.id },
+		]);
+		const { context } = executionContext(stores);
+		const crashing = {
+			...context,
+			repository: {
+				...stores.repository,
+				completeClaim: async () => {
+					throw new Error("worker crashed before commit");
+				},
+			},
+		};
+
+		await expect(runSequenceTick(crashing, { now })).rejects.toThrow();
+		const afterLease = new Date(now.getTime() + 5 * 60_000);
+		await expect(
+			runSequenceTick(crashing, { now: afterLease }),
+		).rejects.toThrow();
+		await drain(context, new Date(afterLease.getTime() + 5 * 60_000));
+
+		expect(
+			await stores.repository.getEnrollment(enrollmentId),
+		).toMatchObject({ status: "completed" });
+		const deliveries = await listOutboundWebhookDeliveries(stores.webhookStore);
+		expect(deliveries).toHaveLength(1);
+		expect(deliveries[0]?.event).toMatchObject({
+			type: "sequence.step-event",
+			correlationId: enrollmentId,
+			data: {
+				name: "onboarding.started",
+				enrollment_id: enrollmentId,
+				step_id: "notify",
+				subscriber_id: 42,
+				data: { source: "sequence" },
+			},
+		});
+		const handoffs = await stores.repository.listEnrollments({
+			sequenceId: target.sequence.id,
+		});
+		expect(handoffs).toHaveLength(1);
+		expect(handoffs[0]).toMatchObject({
+			subscriberId: 42,
+			context: { plan: "pro" },
+		});
+	});
+
+	test("retries enrolling into a paused sequence and fails on a missing one", async () => {
+		const stores = await createStores();
+		const target = await invokeSequenceCreateOperation(
+			{ repository: stores.repository },
+			{ name: "paused", steps: [{ id: "stop", type: "stop" }] },
+		);
+		await invokeSequencePauseOperation(
+			{ repository: stores.repository },
+			{ id: target.sequence.id },
+		);
+		const paused = await enroll(stores.repository, [
+			{ id: "handoff", type: "enroll", sequence_id: target.sequence.id },
+		]);
+		const missing = await enroll(stores.repository, [
+			{ id: "handoff", type: "enroll", sequence_id: crypto.randomUUID() },
+			{ id: "stop", type: "stop" },
+		]);
+		const { context } = executionContext(stores);
+
+		await runSequenceTick(context, { now });
+
+		expect(
+			await stores.repository.getEnrollment(paused.enrollmentId),
+		).toMatchObject({ status: "pending", retryCount: 1 });
+		expect(
+			await stores.repository.getEnrollment(missing.enrollmentId),
+		).toMatchObject({ status: "failed" });
+	});
+});
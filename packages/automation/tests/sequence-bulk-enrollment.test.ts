@@ -0,0 +1,151 @@
+import type { ListmonkClient } from "@listmonk-ops/openapi";
+import { afterEach, describe, expect, mock, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	createFileSequenceRepository,
+	invokeSequenceCreateOperation,
+	invokeSequenceEnrollBulkOperation,
+	invokeSequenceEnrollOperation,
+} from "../src";
+
+const directories: string[] = [];
+const now = new Date("2026-09-20T09:00:00.000Z");
+
+afterEach(async () => {
+	await Promise.all(
+		directories.splice(0).map((directory) =>
+			rm(directory, { recursive: true, force: true }),
+		),
+	);
+});
+
+async function createSequence() {
+	const directory = await mkdtemp(join(tmpdir(), "listmonk-ops-bulk-"));
+	directories.push(directory);
+	const repository = createFileSequenceRepository(
+		join(directory, "sequences.json"),
+	);
+	const { sequence } = await invokeSequenceCreateOperation(
+		{ repository },
+		{ name: "bulk-welcome", steps: [{ id: "stop", type: "stop" }] },
+	);
+	return { repository, sequenceId: sequence.id };
+}
+
+/** Serve subscribers by ID like Listmonk, honouring the cursor predicate. */
+function subscriberClient(subscriberIds: readonly number[]) {
+	const list = mock(
+		async ({
+			query,
+		}: {
+			query: { query: string; per_page: number };
+		}) => {
+			const after = Number(/subscribers\.id > (\d+)/.exec(query.query)?.[1]);
+			const results = subscriberIds
+				.filter((id) => id > after)
+				.slice(0, query.per_page)
+				.map((id) => ({ id }));
+			return {
+				data: { results, total: results.length, page: 1, per_page: 100 },
+			};
+		},
+	);
+	return {
+		list,
+		client: { subscriber: { list } } as unknown as Pick<
+			ListmonkClient,
+			"subscriber" | "transactional"
+		>,
+	};
+}
+
+describe("sequence bulk enrollment", () => {
+	test("enrolls a list at the requested rate, skipping active enrollments, and resumes", async () => {
+		const { repository, sequenceId } = await createSequence();
+		await invokeSequenceEnrollOperation(
+			{ repository, now: () => now },
+			{ id: sequenceId, subscriber_id: 2 },
+		);
+		const { client, list } = subscriberClient([1, 2, 3, 4, 5]);
+		const enrollBulk = (input: Record<string, unknown>) =>
+			invokeSequenceEnrollBulkOperation(
+				{ repository, client, now: () => now },
+				{ id: sequenceId, list_id: 5, rate_per_minute: 2, ...input },
+			);
+		const startOf = async (subscriberId: number) =>
+			(
+				await repository.listEnrollments({ sequenceId, subscriberId })
+			)[0]?.nextRunAt;
+
+		const first = await enrollBulk({ limit: 3 });
+		expect(first).toEqual({
+			sequence_id: sequenceId,
+			scanned: 3,
+			created: 2,
+			skipped: 1,
+			resume: {
+				after_subscriber_id: 3,
+				start_at: "2026-09-20T09:01:00.000Z",
+			},
+		});
+		const [request] = list.mock.calls[0]!;
+		expect(request.query.query).toContain("list_id = 5");
+		expect(request.query.query).toContain("subscribers.id > 0");
+		expect(request.query).toMatchObject({ order: "ASC", per_page: 3 });
+		expect(await startOf(1)).toBe("2026-09-20T09:00:00.000Z");
+		expect(await startOf(3)).toBe("2026-09-20T09:00:30.000Z");
+
+		expect(
+			await enrollBulk({
+				after_subscriber_id: first.resume?.after_subscriber_id,
+				start_at: first.resume?.start_at,
+			}),
+		).toEqual({ sequence_id: sequenceId, scanned: 2, created: 2, skipped: 0 });
+		expect(await startOf(4)).toBe("2026-09-20T09:01:00.000Z");
+		expect(await startOf(5)).toBe("2026-09-20T09:01:30.000Z");
+
+		expect(await enrollBulk({})).toMatchObject({
+			scanned: 5,
+			created: 0,
+			skipped: 5,
+		});
+		expect(await repository.listEnrollments({ sequenceId })).toHaveLength(5);
+	});
+
+	test("requires exactly one source and starts a past start_at now", async () => {
+		const { repository, sequenceId } = await createSequence();
+		const { client, list } = subscriberClient([7]);
+		const enrollBulk = (input: Record<string, unknown>) =>
+			invokeSequenceEnrollBulkOperation(
+				{ repository, client, now: () => now },
+				{ id: sequenceId, ...input },
+			);
+
+		await expect(enrollBulk({})).rejects.toThrow(
+			"Exactly one of list_id or query is required",
+		);
+		await expect(
+			enrollBulk({ list_id: 5, query: "subscribers.id = 7" }),
+		).rejects.toThrow("Exactly one of list_id or query is required");
+		await expect(
+			invokeSequenceEnrollBulkOperation(
+				{ repository },
+				{ id: sequenceId, list_id: 5 },
+			),
+		).rejects.toThrow("requires a Listmonk client");
+
+		expect(
+			await enrollBulk({
+				query: "subscribers.email LIKE '%@example.com'",
+				start_at: "2026-09-19T09:00:00.000Z",
+			}),
+		).toEqual({ sequence_id: sequenceId, scanned: 1, created: 1, skipped: 0 });
+		expect(list.mock.calls[0]![0].query.query).toBe(
+			"(subscribers.email LIKE '%@example.com') AND subscribers.id > 0",
+		);
+		const [enrollment] = await repository.listEnrollments({ sequenceId });
+		expect(enrollment?.nextRunAt).toBe(now.toISOString());
+	});
+});
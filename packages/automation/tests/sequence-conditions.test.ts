@@ -0,0 +1,341 @@
+import {
+	createFileBackedTransactionalIdempotencyStore,
+	hashTransactionalPayload,
+} from "@listmonk-ops/common";
+import type { ListmonkClient } from "@listmonk-ops/openapi";
+import { afterEach, describe, expect, mock, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	createFileSequenceRepository,
+	evaluateSequenceCondition,
+	invokeSequenceCreateOperation,
+	invokeSequenceEngagementRecordOperation,
+	invokeSequenceEnrollOperation,
+	invokeSequenceValidateOperation,
+	runSequenceTick,
+	type SequenceCondition,
+	type SequenceExecutionContext,
+	type SequenceRepository,
+} from "../src";
+
+const directories: string[] = [];
+const now = new Date("2026-09-10T09:00:00.000Z");
+
+afterEach(async () => {
+	await Promise.all(
+		directories.splice(0).map((directory) =>
+			rm(directory, { recursive: true, force: true }),
+		),
+	);
+});
+
+async function createStores() {
+	const directory = await mkdtemp(join(tmpdir(), "listmonk-ops-conditions-"));
+	directories.push(directory);
+	return {
+		repository: createFileSequenceRepository(join(directory, "sequences.json")),
+		idempotencyStore: createFileBackedTransactionalIdempotencyStore({
+			storePath: join(directory, "transactional.json"),
+		}),
+	};
+}
+
+function executionContext(
+	stores: Awaited<ReturnType<typeof createStores>>,
+	subscriber: () => Promise<unknown>,
+) {
+	const getById = mock(subscriber);
+	const context = {
+		...stores,
+		client: {
+			subscriber: { getById },
+			transactional: { send: async () => ({ data: true }) },
+		} as unknown as Pick<ListmonkClient, "subscriber" | "transactional">,
+		hashPayload: hashTransactionalPayload,
+		retryJitter: () => 1,
+	} as SequenceExecutionContext;
+	return { context, getById };
+}
+
+async function enrollInBranch(
+	repository: SequenceRepository,
+	steps: unknown[],
+) {
+	const { sequence } = await invokeSequenceCreateOperation(
+		{ repository },
+		{ name: "branching", steps },
+	);
+	const { enrollment } = await invokeSequenceEnrollOperation(
+		{ repository, now: () => now },
+		{ id: sequence.id, subscriber_id: 42, context: { score: 7 } },
+	);
+	return enrollment.id;
+}
+
+const branches = [
+	{ id: "yes", type: "stop" },
+	{ id: "no", type: "stop" },
+];
+
+function evaluate(
+	condition: SequenceCondition,
+	context: Record<string, unknown> = {},
+) {
+	return evaluateSequenceCondition(condition, {
+		context,
+		subscriber: async () => ({}),
+		engagement: async () => [],
+	});
+}
+
+describe("sequence conditions", () => {
+	test("compares numbers, membership, substrings, and patterns", async () => {
+		const context = {
+			score: 7,
+			plan: "team",
+			tags: ["beta", "vip"],
+			email: "ops@example.com",
+		};
+		const cases: Array<[SequenceCondition, boolean]> = [
+			[{ source: "context", path: "score", operator: "gt", value: 5 }, true],
+			[{ source: "context", path: "score", operator: "lt", value: 5 }, false],
+			[
+				{ source: "context", path: "plan", operator: "in", value: ["pro", "team"] },
+				true,
+			],
+			[
+				{ source: "context", path: "tags", operator: "contains", value: "vip" },
+				true,
+			],
+			[
+				{
+					source: "context",
+					path: "email",
+					operator: "contains",
+					value: "@example",
+				},
+				true,
+			],
+			[
+				{
+					source: "context",
+					path: "email",
+					operator: "matches",
+					value: "@example\\.org$",
+				},
+				false,
+			],
+			[{ source: "context", path: "plan", operator: "gt", value: 1 }, false],
+		];
+		for (const [condition, expected] of cases) {
+			expect(await evaluate(condition, context)).toBe(expected);
+		}
+	});
+
+	test("short-circuits groups and loads the subscriber once", async () => {
+		const subscriber = mock(async () => ({
+			status: "enabled",
+			attribs: { plan: "pro" },
+		}));
+		const engagement = mock(async () => []);
+		const matched = await evaluateSequenceCondition(
+			{
+				any: [
+					{
+						all: [
+							{
+								source: "subscriber",
+								path: "status",
+								operator: "equals",
+								value: "enabled",
+							},
+							{
+								source: "subscriber",
+								path: "attribs.plan",
+								operator: "equals",
+								value: "pro",
+							},
+						],
+					},
+					{ source: "engagement", stepId: "welcome", event: "opened" },
+				],
+			},
+			{ context: {}, subscriber, engagement },
+		);
+
+		expect(matched).toBe(true);
+		expect(subscriber).toHaveBeenCalledTimes(1);
+		expect(engagement).not.toHaveBeenCalled();
+	});
+
+	test("rejects invalid comparisons and engagement targets on validate", async () => {
+		const { repository } = await createStores();
+		const validate = (step: Record<string, unknown>, before: unknown[] = []) =>
+			invokeSequenceValidateOperation(
+				{ repository },
+				{
+					steps: [
+						...before,
+						{
+							id: "branch",
+							type: "condition",
+							on_true: "yes",
+							on_false: "no",
+							...step,
+						},
+						...branches,
+					],
+				},
+			);
+
+		await expect(
+			validate({ path: "score", operator: "gt", value: "high" }),
+		).rejects.toThrow("finite number");
+		await expect(
+			validate({
+				when: { source: "context", path: "name", operator: "matches", value: "(" },
+			}),
+		).rejects.toThrow("valid regular expression");
+		await expect(
+			validate({
+				path: "score",
+				operator: "exists",
+				when: { source: "list", list_id: 3, operator: "member" },
+			}),
+		).rejects.toThrow("when cannot be combined");
+		await expect(
+			validate({
+				when: { source: "engagement", step_id: "yes", event: "opened" },
+			}),
+		).rejects.toThrow("earlier send step: yes");
+		expect(
+			await validate(
+				{ when: { source: "engagement", step_id: "welcome", event: "opened" } },
+				[{ id: "welcome", type: "send", template_id: 4 }],
+			),
+		).toMatchObject({ valid: true });
+	});
+
+	test("branches on live subscriber attributes and list membership", async () => {
+		const stores = await createStores();
+		const { repository } = stores;
+		const enrollmentId = await enrollInBranch(repository, [
+			{
+				id: "branch",
+				type: "condition",
+				when: {
+					all: [
+						{
+							source: "subscriber",
+							path: "attribs.plan",
+							operator: "in",
+							value: ["pro", "team"],
+						},
+						{ source: "list", list_id: 3, operator: "member" },
+						{ source: "context", path: "score", operator: "gt", value: 5 },
+					],
+				},
+				on_true: "yes",
+				on_false: "no",
+			},
+			...branches,
+		]);
+		const { context, getById } = executionContext(stores, async () => ({
+			data: {
+				id: 42,
+				status: "enabled",
+				attribs: { plan: "team" },
+				lists: [
+					{ id: 3, subscription_status: "confirmed" },
+					{ id: 4, subscription_status: "unsubscribed" },
+				],
+			},
+		}));
+
+		expect(await runSequenceTick(context, { now })).toMatchObject({
+			advanced: 1,
+		});
+		expect(getById).toHaveBeenCalledTimes(1);
+		expect(await repository.getEnrollment(enrollmentId)).toMatchObject({
+			status: "pending",
+			currentStepId: "yes",
+		});
+	});
+
+	test("cancels the enrollment when the subscriber was deleted", async () => {
+		const stores = await createStores();
+		const { repository } = stores;
+		const enrollmentId = await enrollInBranch(repository, [
+			{
+				id: "branch",
+				type: "condition",
+				when: { source: "list", list_id: 3, operator: "not_member" },
+				on_true: "yes",
+				on_false: "no",
+			},
+			...branches,
+		]);
+		const { context } = executionContext(stores, async () => ({
+			error: new Error("subscriber not found"),
+			response: { status: 404 },
+		}));
+
+		expect(await runSequenceTick(context, { now })).toMatchObject({
+			cancelled: 1,
+		});
+		expect(await repository.getEnrollment(enrollmentId)).toMatchObject({
+			status: "cancelled",
+		});
+	});
+
+	test("records engagement once and branches on earlier send steps", async () => {
+		const stores = await createStores();
+		const { repository } = stores;
+		const enrollmentId = await enrollInBranch(repository, [
+			{ id: "welcome", type: "send", template_id: 4 },
+			{
+				id: "branch",
+				type: "condition",
+				when: { source: "engagement", step_id: "welcome", event: "opened" },
+				on_true: "yes",
+				on_false: "no",
+			},
+			...branches,
+		]);
+		const record = (events: unknown[]) =>
+			invokeSequenceEngagementRecordOperation(
+				{ repository, now: () => now },
+				{ events },
+			);
+
+		expect(
+			await record([
+				{ enrollment_id: enrollmentId, step_id: "welcome", event: "clicked" },
+				{ enrollment_id: enrollmentId, step_id: "welcome", event: "clicked" },
+				{ enrollment_id: enrollmentId, step_id: "branch", event: "opened" },
+			]),
+		).toEqual({ recorded: 1, duplicates: 1, unknown: 1 });
+
+		const { context, getById } = executionContext(stores, async () => ({
+			data: { id: 42, status: "enabled", lists: [] },
+		}));
+		await runSequenceTick(context, { now });
+		await runSequenceTick(context, { now });
+		expect(await repository.getEnrollment(enrollmentId)).toMatchObject({
+			currentStepId: "yes",
+		});
+		expect(await repository.listEngagement(enrollmentId)).toEqual([
+			{
+				enrollmentId,
+				stepId: "welcome",
+				event: "clicked",
+				occurredAt: now.toISOString(),
+				recordedAt: now.toISOString(),
+			},
+		]);
+		// Only the pre-send eligibility check reads the subscriber.
+		expect(getById).toHaveBeenCalledTimes(1);
+	});
+});
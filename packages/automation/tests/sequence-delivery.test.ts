@@ -0,0 +1,255 @@
+import {
+	createFileBackedTransactionalIdempotencyStore,
+	hashTransactionalPayload,
+} from "@listmonk-ops/common";
+import type { ListmonkClient } from "@listmonk-ops/openapi";
+import { afterEach, describe, expect, mock, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	createFileSequenceRepository,
+	invokeSequenceCreateOperation,
+	invokeSequenceDeliveryUpdateOperation,
+	invokeSequenceEnrollOperation,
+	nextSequenceSendTime,
+	runSequenceTick,
+	type SequenceExecutionContext,
+	type SequenceRepository,
+	type SequenceSendWindow,
+} from "../src";
+
+const directories: string[] = [];
+// A Saturday: 18:00 in Seoul, 05:00 in New York.
+const saturday = new Date("2026-09-12T09:00:00.000Z");
+const businessHours: SequenceSendWindow = {
+	days: ["mon", "tue", "wed", "thu", "fri"],
+	start: "09:00",
+	end: "18:00",
+	timezone: "UTC",
+};
+
+afterEach(async () => {
+	await Promise.all(
+		directories.splice(0).map((directory) =>
+			rm(directory, { recursive: true, force: true }),
+		),
+	);
+});
+
+async function createStores() {
+	const directory = await mkdtemp(join(tmpdir(), "listmonk-ops-delivery-"));
+	directories.push(directory);
+	return {
+		repository: createFileSequenceRepository(join(directory, "sequences.json")),
+		idempotencyStore: createFileBackedTransactionalIdempotencyStore({
+			storePath: join(directory, "transactional.json"),
+		}),
+	};
+}
+
+function executionContext(
+	stores: Awaited<ReturnType<typeof createStores>>,
+	attribs: Record<string, unknown> = {},
+) {
+	const send = mock(async () => ({ data: true }));
+	const context = {
+		...stores,
+		client: {
+			subscriber: {
+				getById: async () => ({
+					data: { id: 42, status: "enabled", attribs, lists: [] },
+				}),
+			},
+			transactional: { send },
+		} as unknown as Pick<ListmonkClient, "subscriber" | "transactional">,
+		hashPayload: hashTransactionalPayload,
+		retryJitter: () => 1,
+	} satisfies SequenceExecutionContext;
+	return { context, send };
+}
+
+async function enroll(
+	repository: SequenceRepository,
+	name: string,
+	at: Date,
+	step: Record<string, unknown> = {},
+) {
+	const { sequence } = await invokeSequenceCreateOperation(
+		{ repository },
+		{
+			name,
+			steps: [{ id: "welcome", type: "send", template_id: 4, ...step }],
+		},
+	);
+	const { enrollment } = await invokeSequenceEnrollOperation(
+		{ repository, now: () => at },
+		{ id: sequence.id, subscriber_id: 42 },
+	);
+	return { sequenceId: sequence.id, enrollmentId: enrollment.id };
+}
+
+describe("sequence delivery rules", () => {
+	test("finds the next allowed local time across weekends and DST", () => {
+		expect(
+			nextSequenceSendTime(businessHours, "Asia/Seoul", saturday).toISOString(),
+		).toBe("2026-09-14T00:00:00.000Z");
+		const mondayMorning = new Date("2026-09-14T03:00:00.000Z");
+		expect(
+			nextSequenceSendTime(businessHours, "Asia/Seoul", mondayMorning),
+		).toBe(mondayMorning);
+		// New York springs forward at 02:00 on 2026-03-08.
+		expect(
+			nextSequenceSendTime(
+				{ ...businessHours, days: undefined },
+				"America/New_York",
+				new Date("2026-03-08T05:00:00.000Z"),
+			).toISOString(),
+		).toBe("2026-03-08T13:00:00.000Z");
+		// 02:30 does not exist that day; the window opens at 03:00 EDT.
+		expect(
+			nextSequenceSendTime(
+				{ start: "02:30", end: "05:00", timezone: "America/New_York" },
+				"America/New_York",
+				new Date("2026-03-08T05:00:00.000Z"),
+			).toISOString(),
+		).toBe("2026-03-08T07:00:00.000Z");
+		expect(
+			nextSequenceSendTime(
+				{ start: "02:30", end: "05:00", timezone: "America/New_York" },
+				"America/New_York",
+				new Date("2026-03-09T05:00:00.000Z"),
+			).toISOString(),
+		).toBe("2026-03-09T06:30:00.000Z");
+	});
+
+	test("replaces delivery rules as a no-op when unchanged and validates windows", async () => {
+		const { repository } = await createStores();
+		const { sequenceId } = await enroll(repository, "rules", saturday);
+		const update = (input: Record<string, unknown>) =>
+			invokeSequenceDeliveryUpdateOperation(
+				{ repository },
+				{ id: sequenceId, ...input },
+			);
+		const rules = {
+			window: { start: "09:00", end: "18:00", timezone_attribute: "tz" },
+			daily_cap: 2,
+		};
+
+		expect(await update(rules)).toMatchObject({
+			delivery: {
+				window: { start: "09:00", end: "18:00", timezone: "UTC" },
+				daily_cap: 2,
+			},
+			updated: true,
+		});
+		expect((await update(rules)).updated).toBe(false);
+		expect(await update({})).toMatchObject({ delivery: {}, updated: true });
+		await expect(
+			update({ window: { start: "18:00", end: "09:00" } }),
+		).rejects.toThrow("end after they start");
+		await expect(
+			update({
+				window: { start: "09:00", end: "18:00", timezone: "Mars/Base" },
+			}),
+		).rejects.toThrow("IANA time zone");
+	});
+
+	test("defers sends to the window in the subscriber's time zone", async () => {
+		const stores = await createStores();
+		const { sequenceId, enrollmentId } = await enroll(
+			stores.repository,
+			"quiet-hours",
+			saturday,
+		);
+		await invokeSequenceDeliveryUpdateOperation(
+			{ repository: stores.repository },
+			{
+				id: sequenceId,
+				window: { ...businessHours, timezone_attribute: "tz" },
+			},
+		);
+		const { context, send } = executionContext(stores, { tz: "Asia/Seoul" });
+
+		expect(await runSequenceTick(context, { now: saturday })).toMatchObject({
+			waiting: 1,
+		});
+		expect(send).not.toHaveBeenCalled();
+		expect(
+			await stores.repository.getEnrollment(enrollmentId),
+		).toMatchObject({
+			status: "waiting",
+			currentStepId: "welcome",
+			nextRunAt: "2026-09-14T00:00:00.000Z",
+		});
+
+		await runSequenceTick(context, {
+			now: new Date("2026-09-14T00:00:00.000Z"),
+		});
+		expect(send).toHaveBeenCalledTimes(1);
+		expect(
+			await stores.repository.getEnrollment(enrollmentId),
+		).toMatchObject({ status: "completed" });
+	});
+
+	test("a step window replaces the sequence window", async () => {
+		const stores = await createStores();
+		const { sequenceId, enrollmentId } = await enroll(
+			stores.repository,
+			"weekend-digest",
+			saturday,
+			{ window: { days: ["sat", "sun"], start: "08:00", end: "20:00" } },
+		);
+		await invokeSequenceDeliveryUpdateOperation(
+			{ repository: stores.repository },
+			{ id: sequenceId, window: businessHours },
+		);
+		const { context, send } = executionContext(stores);
+
+		await runSequenceTick(context, { now: saturday });
+		expect(send).toHaveBeenCalledTimes(1);
+		expect(
+			await stores.repository.getEnrollment(enrollmentId),
+		).toMatchObject({ status: "completed" });
+	});
+
+	test("caps daily sends across sequences and counts a replayed step once", async () => {
+		const stores = await createStores();
+		const { context, send } = executionContext(stores);
+		await enroll(stores.repository, "welcome", saturday);
+		await runSequenceTick(context, { now: saturday });
+		expect(send).toHaveBeenCalledTimes(1);
+
+		const later = new Date(saturday.getTime() + 60 * 60_000);
+		const capped = await enroll(stores.repository, "tips", later);
+		await invokeSequenceDeliveryUpdateOperation(
+			{ repository: stores.repository },
+			{ id: capped.sequenceId, daily_cap: 1 },
+		);
+		await runSequenceTick(context, { now: later });
+		expect(send).toHaveBeenCalledTimes(1);
+		expect(
+			await stores.repository.getEnrollment(capped.enrollmentId),
+		).toMatchObject({
+			status: "waiting",
+			nextRunAt: "2026-09-13T09:00:00.000Z",
+		});
+
+		const reservation = {
+			key: "sequence:replayed",
+			subscriberId: 7,
+			reservedAt: saturday.toISOString(),
+		};
+		expect(await stores.repository.reserveSend(reservation, 1)).toEqual({
+			reserved: true,
+		});
+		expect(await stores.repository.reserveSend(reservation, 1)).toEqual({
+			reserved: true,
+		});
+
+		await runSequenceTick(context, {
+			now: new Date("2026-09-13T09:00:00.000Z"),
+		});
+		expect(send).toHaveBeenCalledTimes(2);
+	});
+});
@@ -0,0 +1,267 @@
+import {
+	createFileBackedTransactionalIdempotencyStore,
+	hashTransactionalPayload,
+} from "@listmonk-ops/common";
+import type { ListmonkClient } from "@listmonk-ops/openapi";
+import { afterEach, describe, expect, mock, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	createFileSequenceRepository,
+	invokeSequenceCreateOperation,
+	invokeSequenceEnrollOperation,
+	invokeSequenceEventsIngestOperation,
+	invokeSequenceGoalsUpdateOperation,
+	invokeSequenceStatusOperation,
+	runSequenceTick,
+	type SequenceExecutionContext,
+	type SequenceRepository,
+} from "../src";
+
+const directories: string[] = [];
+const now = new Date("2026-09-12T09:00:00.000Z");
+const nextDay = new Date("2026-09-13T09:00:00.000Z");
+const dayAfter = new Date("2026-09-14T09:00:00.000Z");
+
+type TestSubscriber = {
+	id: number;
+	status: string;
+	attribs: Record<string, unknown>;
+	lists: Array<{ id: number; subscription_status: string }>;
+};
+
+afterEach(async () => {
+	await Promise.all(
+		directories.splice(0).map((directory) =>
+			rm(directory, { recursive: true, force: true }),
+		),
+	);
+});
+
+async function createStores() {
+	const directory = await mkdtemp(join(tmpdir(), "listmonk-ops-goals-"));
+	directories.push(directory);
+	return {
+		repository: createFileSequenceRepository(join(directory, "sequences.json")),
+		idempotencyStore: createFileBackedTransactionalIdempotencyStore({
+			storePath: join(directory, "transactional.json"),
+		}),
+	};
+}
+
+function executionContext(
+	stores: Awaited<ReturnType<typeof createStores>>,
+	subscribers: Map<number, TestSubscriber>,
+) {
+	const send = mock(async () => ({ data: true }));
+	const context = {
+		...stores,
+		client: {
+			subscriber: {
+				getById: async ({ path }: { path: { id: number } }) => ({
+					data: subscribers.get(path.id),
+				}),
+			},
+			transactional: { send },
+		} as unknown as Pick<ListmonkClient, "subscriber" | "transactional">,
+		hashPayload: hashTransactionalPayload,
+		retryJitter: () => 1,
+	} satisfies SequenceExecutionContext;
+	return { context, send };
+}
+
+function subscriber(id: number): TestSubscriber {
+	return { id, status: "enabled", attribs: {}, lists: [] };
+}
+
+async function createSequence(
+	repository: SequenceRepository,
+	goals: unknown[],
+) {
+	const { sequence } = await invokeSequenceCreateOperation(
+		{ repository },
+		{
+			name: `goals-${goals.length}`,
+			steps: [
+				{ id: "welcome", type: "send", template_id: 4 },
+				{ id: "wait", type: "wait", duration_seconds: 86_400 },
+				{ id: "tips", type: "send", template_id: 5 },
+			],
+		},
+	);
+	await invokeSequenceGoalsUpdateOperation(
+		{ repository },
+		{ id: sequence.id, goals },
+	);
+	return sequence.id;
+}
+
+async function enroll(
+	repository: SequenceRepository,
+	sequenceId: string,
+	subscriberId: number,
+) {
+	const { enrollment } = await invokeSequenceEnrollOperation(
+		{ repository, now: () => now },
+		{ id: sequenceId, subscriber_id: subscriberId },
+	);
+	return enrollment.id;
+}
+
+describe("sequence goals", () => {
+	test("replaces goals as a no-op when unchanged and rejects duplicate IDs", async () => {
+		const { repository } = await createStores();
+		const sequenceId = await createSequence(repository, []);
+		const update = (goals: unknown[]) =>
+			invokeSequenceGoalsUpdateOperation(
+				{ repository },
+				{ id: sequenceId, goals },
+			);
+		const goals = [
+			{ id: "paid", type: "list_subscribed", list_id: 9 },
+			{ id: "left", type: "unsubscribed", outcome: "exit" },
+		];
+
+		expect(await update(goals)).toMatchObject({
+			goals: [
+				{ id: "paid", type: "list_subscribed", list_id: 9, outcome: "goal" },
+				{ id: "left", type: "unsubscribed", outcome: "exit" },
+			],
+			updated: true,
+		});
+		expect((await update(goals)).updated).toBe(false);
+		await expect(
+			update([
+				{ id: "paid", type: "list_subscribed", list_id: 9 },
+				{ id: "paid", type: "custom_event", name: "order.paid" },
+			]),
+		).rejects.toThrow("paid");
+		await expect(
+			update([
+				{ id: "plan", type: "attribute", path: "plan", operator: "gt" },
+			]),
+		).rejects.toThrow();
+	});
+
+	test("ends enrollments at the first reached goal before the next step", async () => {
+		const stores = await createStores();
+		const sequenceId = await createSequence(stores.repository, [
+			{ id: "paid", type: "list_subscribed", list_id: 9 },
+			{
+				id: "pro",
+				type: "attribute",
+				path: "plan",
+				operator: "equals",
+				value: "pro",
+			},
+			{ id: "left", type: "unsubscribed", outcome: "exit" },
+		]);
+		const subscribers = new Map([
+			[41, subscriber(41)],
+			[42, subscriber(42)],
+			[43, subscriber(43)],
+		]);
+		const ids = [
+			await enroll(stores.repository, sequenceId, 41),
+			await enroll(stores.repository, sequenceId, 42),
+			await enroll(stores.repository, sequenceId, 43),
+		];
+		const { context, send } = executionContext(stores, subscribers);
+
+		await runSequenceTick(context, { now });
+		expect(send).toHaveBeenCalledTimes(3);
+
+		subscribers.get(41)!.lists = [
+			{ id: 9, subscription_status: "confirmed" },
+		];
+		subscribers.get(42)!.attribs = { plan: "pro" };
+		subscribers.get(43)!.lists = [
+			{ id: 2, subscription_status: "unsubscribed" },
+		];
+		expect(await runSequenceTick(context, { now: nextDay })).toMatchObject({
+			goalReached: 2,
+			exited: 1,
+		});
+		expect(send).toHaveBeenCalledTimes(3);
+		expect(
+			await Promise.all(ids.map((id) => stores.repository.getEnrollment(id))),
+		).toMatchObject([
+			{ status: "goal_reached", goalId: "paid", currentStepId: "wait" },
+			{ status: "goal_reached", goalId: "pro" },
+			{ status: "exited", goalId: "left" },
+		]);
+
+		const status = await invokeSequenceStatusOperation(
+			{ repository: stores.repository, now: () => nextDay },
+			{},
+		);
+		expect(status.enrollments).toMatchObject({ goal_reached: 2, exited: 1 });
+		expect(status.funnels).toEqual([
+			{
+				sequence_id: sequenceId,
+				enrolled: 3,
+				active: 0,
+				completed: 0,
+				goal_reached: 2,
+				exited: 1,
+				failed: 0,
+				cancelled: 0,
+				conversion_rate: 2 / 3,
+				goals: [
+					{ id: "paid", reached: 1 },
+					{ id: "pro", reached: 1 },
+					{ id: "left", reached: 1 },
+				],
+			},
+		]);
+	});
+
+	test("reaches custom_event goals from ingested events after enrollment", async () => {
+		const stores = await createStores();
+		const sequenceId = await createSequence(stores.repository, [
+			{ id: "ordered", type: "custom_event", name: "order.paid" },
+		]);
+		const enrollmentId = await enroll(stores.repository, sequenceId, 42);
+		const { context, send } = executionContext(
+			stores,
+			new Map([[42, subscriber(42)]]),
+		);
+		await runSequenceTick(context, { now });
+
+		expect(
+			await invokeSequenceEventsIngestOperation(
+				{ repository: stores.repository, now: () => now },
+				{
+					events: [
+						{
+							id: "evt-early",
+							name: "order.paid",
+							subscriber_id: 42,
+							occurred_at: "2026-09-12T08:00:00.000Z",
+						},
+					],
+				},
+			),
+		).toMatchObject({ accepted: 1, ignored: 0 });
+		await runSequenceTick(context, { now: nextDay });
+		await runSequenceTick(context, { now: dayAfter });
+		expect(send).toHaveBeenCalledTimes(2);
+		expect(
+			await stores.repository.getEnrollment(enrollmentId),
+		).toMatchObject({ status: "completed" });
+
+		const second = await enroll(stores.repository, sequenceId, 42);
+		await runSequenceTick(context, { now });
+		await invokeSequenceEventsIngestOperation(
+			{ repository: stores.repository, now: () => nextDay },
+			{ events: [{ id: "evt-paid", name: "order.paid", subscriber_id: 42 }] },
+		);
+		await runSequenceTick(context, { now: nextDay });
+		expect(send).toHaveBeenCalledTimes(3);
+		expect(await stores.repository.getEnrollment(second)).toMatchObject({
+			status: "goal_reached",
+			goalId: "ordered",
+		});
+	});
+});
@@ -0,0 +1,221 @@
+import {
+	createFileBackedTransactionalIdempotencyStore,
+	hashTransactionalPayload,
+} from "@listmonk-ops/common";
+import type { ListmonkClient } from "@listmonk-ops/openapi";
+import { afterEach, describe, expect, mock, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	createFileSequenceRepository,
+	createSequenceEnrollment,
+	invokeSequenceCreateOperation,
+	invokeSequenceEnrollOperation,
+	invokeSequenceMigrateOperation,
+	invokeSequenceUpdateOperation,
+	runSequenceTick,
+	type SequenceExecutionContext,
+	type SequenceRepository,
+} from "../src";
+
+const directories: string[] = [];
+const now = new Date("2026-09-17T09:00:00.000Z");
+
+afterEach(async () => {
+	await Promise.all(
+		directories.splice(0).map((directory) =>
+			rm(directory, { recursive: true, force: true }),
+		),
+	);
+});
+
+async function createStores() {
+	const directory = await mkdtemp(join(tmpdir(), "listmonk-ops-migrate-"));
+	directories.push(directory);
+	return {
+		repository: createFileSequenceRepository(join(directory, "sequences.json")),
+		idempotencyStore: createFileBackedTransactionalIdempotencyStore({
+			storePath: join(directory, "transactional.json"),
+		}),
+	};
+}
+
+async function enroll(
+	repository: SequenceRepository,
+	sequenceId: string,
+	subscriberId: number,
+) {
+	const { enrollment } = await invokeSequenceEnrollOperation(
+		{ repository, now: () => now },
+		{ id: sequenceId, subscriber_id: subscriberId },
+	);
+	return enrollment.id;
+}
+
+/**
+ * Revision 1 sends template 4 first; revision 2 replaces that step with
+ * `intro`. Two enrollments wait after the first send, one has not started,
+ * and one is ambiguous.
+ */
+async function revisedSequence() {
+	const stores = await createStores();
+	const { repository } = stores;
+	const { sequence } = await invokeSequenceCreateOperation(
+		{ repository },
+		{
+			name: "migrate-welcome",
+			steps: [
+				{ id: "welcome", type: "send", template_id: 4 },
+				{ id: "wait", type: "wait", duration_seconds: 86_400 },
+				{ id: "tips", type: "send", template_id: 5 },
+			],
+		},
+	);
+	const send = mock(async () => ({ data: true }));
+	const context = {
+		...stores,
+		client: {
+			subscriber: {
+				getById: async ({ path }: { path: { id: number } }) => ({
+					data: { id: path.id, status: "enabled", attribs: {}, lists: [] },
+				}),
+			},
+			transactional: { send },
+		} as unknown as Pick<ListmonkClient, "subscriber" | "transactional">,
+		hashPayload: hashTransactionalPayload,
+		retryJitter: () => 1,
+	} satisfies SequenceExecutionContext;
+	const waiting = [
+		await enroll(repository, sequence.id, 41),
+		await enroll(repository, sequence.id, 42),
+	];
+	await runSequenceTick(context, { now });
+	const pending = await enroll(repository, sequence.id, 43);
+	const ambiguous = await repository.createEnrollment({
+		...createSequenceEnrollment(
+			await repository.getDefinition(sequence.id),
+			{ sequenceId: sequence.id, subscriberId: 44 },
+			now,
+		),
+		status: "ambiguous",
+	});
+	await invokeSequenceUpdateOperation(
+		{ repository },
+		{
+			id: sequence.id,
+			steps: [
+				{ id: "intro", type: "send", template_id: 6 },
+				{ id: "wait", type: "wait", duration_seconds: 86_400 },
+				{ id: "tips", type: "send", template_id: 5 },
+			],
+		},
+	);
+	return {
+		repository,
+		context,
+		send,
+		sequenceId: sequence.id,
+		waiting,
+		pending,
+		ambiguous: ambiguous.id,
+	};
+}
+
+describe("sequence migrations", () => {
+	test("plans moves per step and rejects unmapped or missing steps", async () => {
+		const { repository, sequenceId, pending } = await revisedSequence();
+		const migrate = (input: Record<string, unknown>) =>
+			invokeSequenceMigrateOperation(
+				{ repository, now: () => now },
+				{ id: sequenceId, from_revision: 1, to_revision: 2, ...input },
+			);
+
+		await expect(migrate({})).rejects.toThrow(
+			"no step in revision 2 for: welcome",
+		);
+		await expect(
+			migrate({ step_map: { welcome: "missing" } }),
+		).rejects.toThrow("missing from revision 2: missing");
+		await expect(
+			migrate({ step_map: { missing: "intro" } }),
+		).rejects.toThrow("missing from revision 1: missing");
+		await expect(migrate({ to_revision: 3 })).rejects.toThrow(
+			"has no revision 3",
+		);
+		await expect(migrate({ to_revision: 1 })).rejects.toThrow(
+			"different revision",
+		);
+
+		expect(await migrate({ step_map: { welcome: "intro" } })).toEqual({
+			sequence_id: sequenceId,
+			from_revision: 1,
+			to_revision: 2,
+			scanned: 4,
+			migrated: 3,
+			skipped: 1,
+			moves: [
+				{ from_step_id: "welcome", to_step_id: "intro", enrollments: 1 },
+				{ from_step_id: "wait", to_step_id: "wait", enrollments: 2 },
+			],
+			dry_run: true,
+		});
+		expect(await repository.getEnrollment(pending)).toMatchObject({
+			revision: 1,
+			currentStepId: "welcome",
+		});
+	});
+
+	test("moves live enrollments and leaves ambiguous ones in place", async () => {
+		const {
+			repository,
+			context,
+			send,
+			sequenceId,
+			waiting,
+			pending,
+			ambiguous,
+		} = await revisedSequence();
+		const migrate = () =>
+			invokeSequenceMigrateOperation(
+				{ repository, now: () => now },
+				{
+					id: sequenceId,
+					from_revision: 1,
+					to_revision: 2,
+					step_map: { welcome: "intro" },
+					dry_run: false,
+				},
+			);
+
+		expect(await migrate()).toMatchObject({
+			scanned: 4,
+			migrated: 3,
+			skipped: 1,
+			dry_run: false,
+		});
+		expect(
+			await Promise.all(
+				[...waiting, pending, ambiguous].map((id) =>
+					repository.getEnrollment(id),
+				),
+			),
+		).toMatchObject([
+			{ revision: 2, currentStepId: "wait", status: "pending" },
+			{ revision: 2, currentStepId: "wait", status: "pending" },
+			{ revision: 2, currentStepId: "intro", status: "pending" },
+			{ revision: 1, currentStepId: "welcome", status: "ambiguous" },
+		]);
+		expect(await migrate()).toMatchObject({
+			scanned: 1,
+			migrated: 0,
+			skipped: 1,
+			moves: [],
+		});
+
+		send.mockClear();
+		await runSequenceTick(context, { now });
+		expect(send).toHaveBeenCalledTimes(1);
+		expect(JSON.stringify(send.mock.calls[0])).toContain('"template_id":6');
+	});
+});
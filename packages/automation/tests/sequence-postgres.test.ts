@@ -13,6 +13,7 @@ import {
 	invokeSequenceResumeOperation,
 } from "../src/sequence-operations";
 import { createPostgresSequenceRepository } from "../src/sequence-postgres";
+import { customSequenceTriggerEvent } from "../src/sequence-triggers";
 import {
 	createFileSequenceRepository,
 	createSequenceDefinition,
@@ -53,6 +54,11 @@ beforeAll(async () => {
 	}
 	const sql = postgres(databaseUrl, { max: 1, prepare: false });
 	try {
+		await sql`DROP TABLE IF EXISTS listmonk_ops.sequence_send_reservations`;
+		await sql`DROP TABLE IF EXISTS listmonk_ops.sequence_engagement`;
+		await sql`DROP TABLE IF EXISTS listmonk_ops.sequence_goal_events`;
+		await sql`DROP TABLE IF EXISTS listmonk_ops.sequence_trigger_events`;
+		await sql`DROP TABLE IF EXISTS listmonk_ops.sequence_trigger_cursors`;
 		await sql`DROP TABLE IF EXISTS listmonk_ops.sequence_idempotency_records`;
 		await sql`DROP TABLE IF EXISTS listmonk_ops.sequence_enrollments`;
 		await sql`DROP TABLE IF EXISTS listmonk_ops.sequence_definitions`;
@@ -505,6 +511,389 @@ describe("Postgres sequence repository", () => {
 		},
 	);
 
+	postgresTest(
+		"deduplicates trigger events and drops cursors with their sequence",
+		async () => {
+			const database = repositories[0]!;
+			const now = new Date("2026-07-29T02:00:00.000Z");
+			const definition = createSequenceDefinition(
+				{
+					id: randomUUID(),
+					name: `triggers-${randomUUID()}`,
+					steps: [{ id: "stop", type: "stop" }],
+				},
+				now,
+			);
+			await database.createDefinition(definition);
+			const event = customSequenceTriggerEvent(
+				{ id: `signup-${randomUUID()}`, name: "signup", subscriberId: 7 },
+				now,
+			);
+
+			expect(await database.enqueueTriggerEvents([event, event])).toEqual({
+				accepted: 1,
+				duplicates: 1,
+			});
+			const claimed = await database.claimTriggerEvents({
+				limit: 10,
+				now,
+				leaseMs: 1_000,
+			});
+			expect(claimed.map(({ id }) => id)).toContain(event.id);
+			expect(
+				await database.claimTriggerEvents({ limit: 10, now, leaseMs: 1_000 }),
+			).toEqual([]);
+			await database.completeTriggerEvents(claimed, now);
+			expect(await database.enqueueTriggerEvents([event])).toEqual({
+				accepted: 0,
+				duplicates: 1,
+			});
+
+			await database.saveTriggerCursor({
+				sequenceId: definition.id,
+				triggerId: "joined",
+				since: now.toISOString(),
+				updatedAt: now.toISOString(),
+			});
+			expect(
+				await database.getTriggerCursor(definition.id, "joined"),
+			).toMatchObject({ since: now.toISOString() });
+			await database.deleteDefinition(definition.id);
+			expect(
+				await database.getTriggerCursor(definition.id, "joined"),
+			).toBeUndefined();
+		},
+	);
+
+	postgresTest(
+		"records first engagement per send step and rejects unknown targets",
+		async () => {
+			const database = repositories[0]!;
+			const now = new Date("2026-07-29T03:00:00.000Z");
+			const definition = createSequenceDefinition(
+				{
+					id: randomUUID(),
+					name: `engagement-${randomUUID()}`,
+					steps: [
+						{ id: "welcome", type: "send", templateId: 1 },
+						{ id: "stop", type: "stop" },
+					],
+				},
+				now,
+			);
+			await database.createDefinition(definition);
+			const enrollment = await database.createEnrollment(
+				createSequenceEnrollment(
+					definition,
+					{ sequenceId: definition.id, subscriberId: 77 },
+					now,
+				),
+			);
+			const record = (
+				stepId: string,
+				event: "opened" | "clicked",
+				enrollmentId = enrollment.id,
+			) => ({
+				enrollmentId,
+				stepId,
+				event,
+				occurredAt: now.toISOString(),
+				recordedAt: now.toISOString(),
+			});
+
+			expect(
+				await database.recordEngagement([
+					record("welcome", "opened"),
+					record("welcome", "opened"),
+					record("welcome", "clicked"),
+					record("stop", "clicked"),
+					record("welcome", "clicked", randomUUID()),
+				]),
+			).toEqual({ recorded: 2, duplicates: 1, unknown: 2 });
+			expect(
+				(await database.listEngagement(enrollment.id)).map(
+					({ stepId, event }) => `${stepId}:${event}`,
+				),
+			).toEqual(["welcome:clicked", "welcome:opened"]);
+		},
+	);
+
+	postgresTest(
+		"keeps the first goal event and reports goal funnels",
+		async () => {
+			const database = repositories[0]!;
+			const now = new Date("2026-07-29T04:00:00.000Z");
+			const definition = createSequenceDefinition(
+				{
+					id: randomUUID(),
+					name: `goals-${randomUUID()}`,
+					steps: [{ id: "stop", type: "stop" }],
+				},
+				now,
+			);
+			await database.createDefinition(definition);
+			const updated = await database.updateDefinitionGoals(
+				definition.id,
+				[{ id: "paid", type: "custom_event", name: "paid", outcome: "goal" }],
+				now,
+			);
+			expect(updated.goals).toEqual([
+				{ id: "paid", type: "custom_event", name: "paid", outcome: "goal" },
+			]);
+			const enrollment = await database.createEnrollment(
+				createSequenceEnrollment(
+					definition,
+					{ sequenceId: definition.id, subscriberId: 78 },
+					now,
+				),
+			);
+			const event = (occurredAt: string, enrollmentId = enrollment.id) => ({
+				enrollmentId,
+				goalId: "paid",
+				occurredAt,
+				recordedAt: now.toISOString(),
+			});
+
+			await database.recordGoalEvents([
+				event(now.toISOString()),
+				event("2026-07-29T05:00:00.000Z"),
+				event(now.toISOString(), randomUUID()),
+			]);
+			expect(await database.listGoalEvents(enrollment.id)).toEqual([
+				event(now.toISOString()),
+			]);
+			const health = await database.getRuntimeHealth({
+				now,
+				workerStaleMs: 60_000,
+			});
+			expect(
+				health.funnels.find((funnel) => funnel.sequenceId === definition.id),
+			).toMatchObject({
+				enrolled: 1,
+				active: 1,
+				goalReached: 0,
+				conversionRate: 0,
+				goals: [{ id: "paid", reached: 0 }],
+			});
+		},
+	);
+
+	postgresTest(
+		"lists split enrollments with their engagement",
+		async () => {
+			const database = repositories[0]!;
+			const now = new Date("2026-07-29T05:00:00.000Z");
+			const definition = createSequenceDefinition(
+				{
+					id: randomUUID(),
+					name: `splits-${randomUUID()}`,
+					steps: [
+						{
+							id: "ab",
+							type: "split",
+							branches: [
+								{ id: "control", weight: 1, next: "control" },
+								{ id: "variant", weight: 1, next: "variant" },
+							],
+						},
+						{ id: "control", type: "send", templateId: 1 },
+						{ id: "variant", type: "send", templateId: 2 },
+					],
+				},
+				now,
+			);
+			await database.createDefinition(definition);
+			const enroll = (subscriberId: number, branch?: string) =>
+				database.createEnrollment({
+					...createSequenceEnrollment(
+						definition,
+						{ sequenceId: definition.id, subscriberId },
+						now,
+					),
+					...(branch ? { branches: { ab: branch } } : {}),
+				});
+			const split = await enroll(79, "variant");
+			await enroll(80);
+			await database.recordEngagement([
+				{
+					enrollmentId: split.id,
+					stepId: "variant",
+					event: "opened",
+					occurredAt: now.toISOString(),
+					recordedAt: now.toISOString(),
+				},
+			]);
+
+			expect(await database.listSplitEnrollments(definition.id)).toEqual([
+				{
+					enrollment: expect.objectContaining({
+						id: split.id,
+						branches: { ab: "variant" },
+					}),
+					engagement: [
+						expect.objectContaining({ stepId: "variant", event: "opened" }),
+					],
+				},
+			]);
+		},
+	);
+
+	postgresTest(
+		"migrates live enrollments between revisions in one transaction",
+		async () => {
+			const database = repositories[0]!;
+			const now = new Date("2026-07-29T06:00:00.000Z");
+			const definition = createSequenceDefinition(
+				{
+					id: randomUUID(),
+					name: `migrate-${randomUUID()}`,
+					steps: [
+						{ id: "welcome", type: "send", templateId: 1 },
+						{ id: "stop", type: "stop" },
+					],
+				},
+				now,
+			);
+			await database.createDefinition(definition);
+			const enrollment = await database.createEnrollment(
+				createSequenceEnrollment(
+					definition,
+					{ sequenceId: definition.id, subscriberId: 81 },
+					now,
+				),
+			);
+			await database.updateDefinition(
+				definition.id,
+				{
+					steps: [
+						{ id: "intro", type: "send", templateId: 2 },
+						{ id: "stop", type: "stop" },
+					],
+				},
+				now,
+			);
+			const migrate = (dryRun: boolean) =>
+				database.migrateEnrollments({
+					sequenceId: definition.id,
+					fromRevision: 1,
+					toRevision: 2,
+					stepMap: { welcome: "intro" },
+					dryRun,
+					now,
+				});
+
+			expect(await migrate(true)).toEqual({
+				scanned: 1,
+				migrated: 1,
+				skipped: 0,
+				moves: [{ fromStepId: "welcome", toStepId: "intro", enrollments: 1 }],
+				dryRun: true,
+			});
+			expect(await database.getEnrollment(enrollment.id)).toMatchObject({
+				revision: 1,
+			});
+			await migrate(false);
+			expect(await database.getEnrollment(enrollment.id)).toMatchObject({
+				revision: 2,
+				currentStepId: "intro",
+			});
+			expect(await migrate(false)).toMatchObject({ scanned: 0, moves: [] });
+		},
+	);
+
+	postgresTest(
+		"bulk-creates staggered enrollments and skips active subscribers",
+		async () => {
+			const database = repositories[0]!;
+			const now = new Date("2026-07-29T07:00:00.000Z");
+			const definition = await database.createDefinition(
+				createSequenceDefinition(
+					{
+						id: randomUUID(),
+						name: `bulk-${randomUUID()}`,
+						steps: [{ id: "stop", type: "stop" }],
+					},
+					now,
+				),
+			);
+			const enroll = (subscriberId: number) =>
+				createSequenceEnrollment(
+					definition,
+					{ sequenceId: definition.id, subscriberId },
+					now,
+				);
+			await database.createEnrollment(enroll(92));
+			const schedule = { startAt: now, intervalMs: 60_000 };
+
+			const created = await database.createEnrollments(
+				[enroll(91), enroll(92), enroll(93), enroll(93)],
+				schedule,
+			);
+			expect(
+				created.map(({ subscriberId, nextRunAt }) => [
+					subscriberId,
+					nextRunAt,
+				]),
+			).toEqual([
+				[91, "2026-07-29T07:00:00.000Z"],
+				[93, "2026-07-29T07:01:00.000Z"],
+			]);
+			expect(
+				await database.getEnrollment(created[1]!.id),
+			).toMatchObject({ nextRunAt: "2026-07-29T07:01:00.000Z" });
+			expect(
+				await database.createEnrollments([enroll(91)], schedule),
+			).toEqual([]);
+		},
+	);
+
+	postgresTest(
+		"caps concurrent send reservations per subscriber and replays keys",
+		async () => {
+			if (!databaseUrl) {
+				throw new Error("Postgres integration database is unavailable");
+			}
+			const first = repositories[0]!;
+			const second = createPostgresSequenceRepository({
+				connectionString: databaseUrl,
+				maxConnections: 2,
+			});
+			repositories.push(second);
+			const now = new Date("2026-07-30T03:00:00.000Z");
+			const subscriberId = 9_000 + Math.floor(Math.random() * 1_000);
+			const reserve = (
+				database: SequenceRepository,
+				key: string,
+				at = now,
+			) =>
+				database.reserveSend(
+					{ key, subscriberId, reservedAt: at.toISOString() },
+					2,
+				);
+
+			const results = await Promise.all([
+				reserve(first, `cap-${subscriberId}-a`),
+				reserve(second, `cap-${subscriberId}-b`),
+				reserve(first, `cap-${subscriberId}-c`),
+			]);
+			expect(results.filter((result) => result.reserved)).toHaveLength(2);
+			expect(results.find((result) => !result.reserved)).toEqual({
+				reserved: false,
+				retryAt: "2026-07-31T03:00:00.000Z",
+			});
+			expect(await reserve(second, `cap-${subscriberId}-a`)).toEqual({
+				reserved: true,
+			});
+			expect(
+				await reserve(
+					first,
+					`cap-${subscriberId}-d`,
+					new Date("2026-07-31T03:00:01.000Z"),
+				),
+			).toEqual({ reserved: true });
+		},
+	);
+
 	postgresTest(
 		"reports legacy cross-revision conflicts before schema migration",
 		async () => {
@@ -630,11 +1019,13 @@ describe("Postgres sequence repository", () => {
 						sequence_id,
 						subscriber_id
 					)
-					WHERE status NOT IN ('completed', 'failed', 'cancelled')
+					WHERE status NOT IN (
+						'completed', 'failed', 'cancelled', 'goal_reached', 'exited'
+					)
 				`;
 				await sql`
 					UPDATE listmonk_ops.sequence_runtime_meta
-					SET value = '2', updated_at = now()
+					SET value = '6', updated_at = now()
 					WHERE key = 'schema_version'
 				`;
 				await sql.end({ timeout: 5 });
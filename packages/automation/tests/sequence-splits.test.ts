@@ -0,0 +1,282 @@
+import {
+	createFileBackedTransactionalIdempotencyStore,
+	hashTransactionalPayload,
+} from "@listmonk-ops/common";
+import type { ListmonkClient } from "@listmonk-ops/openapi";
+import { afterEach, describe, expect, mock, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	assignSequenceSplitBranch,
+	createFileSequenceRepository,
+	invokeSequenceCreateOperation,
+	invokeSequenceEngagementRecordOperation,
+	invokeSequenceEnrollOperation,
+	invokeSequenceGoalsUpdateOperation,
+	invokeSequenceSplitsStatsOperation,
+	invokeSequenceValidateOperation,
+	runSequenceTick,
+	type SequenceExecutionContext,
+	type SequenceSplitStep,
+} from "../src";
+
+const directories: string[] = [];
+const now = new Date("2026-09-15T09:00:00.000Z");
+const nextDay = new Date("2026-09-16T09:00:00.000Z");
+const sequenceId = "6f0b3c52-7d1e-4b8a-9c2f-1a5e8d4b7c30";
+
+const splitSteps = [
+	{
+		id: "ab",
+		type: "split",
+		branches: [
+			{ id: "control", weight: 1, next: "control" },
+			{ id: "variant", weight: 1, next: "variant" },
+		],
+	},
+	{ id: "control", type: "send", template_id: 4 },
+	{ id: "control_wait", type: "wait", duration_seconds: 86_400 },
+	{ id: "control_stop", type: "stop" },
+	{ id: "variant", type: "send", template_id: 5 },
+	{ id: "variant_wait", type: "wait", duration_seconds: 86_400 },
+	{ id: "variant_stop", type: "stop" },
+];
+
+afterEach(async () => {
+	await Promise.all(
+		directories.splice(0).map((directory) =>
+			rm(directory, { recursive: true, force: true }),
+		),
+	);
+});
+
+async function createStores() {
+	const directory = await mkdtemp(join(tmpdir(), "listmonk-ops-splits-"));
+	directories.push(directory);
+	return {
+		repository: createFileSequenceRepository(join(directory, "sequences.json")),
+		idempotencyStore: createFileBackedTransactionalIdempotencyStore({
+			storePath: join(directory, "transactional.json"),
+		}),
+	};
+}
+
+function split(weights: readonly number[]): SequenceSplitStep {
+	return {
+		id: "ab",
+		type: "split",
+		branches: weights.map((weight, index) => ({
+			id: `branch-${index}`,
+			weight,
+			next: `step-${index}`,
+		})),
+	};
+}
+
+describe("sequence splits", () => {
+	test("rejects duplicate branches, backward targets, and single branches on validate", async () => {
+		const { repository } = await createStores();
+		const validate = (branches: unknown[]) =>
+			invokeSequenceValidateOperation(
+				{ repository },
+				{
+					steps: [
+						{ id: "welcome", type: "send", template_id: 3 },
+						{ id: "ab", type: "split", branches },
+						...splitSteps.slice(1),
+					],
+				},
+			);
+
+		await expect(
+			validate([
+				{ id: "control", weight: 1, next: "control" },
+				{ id: "control", weight: 1, next: "variant" },
+			]),
+		).rejects.toThrow("branch ID must be unique: control");
+		await expect(
+			validate([
+				{ id: "control", weight: 1, next: "welcome" },
+				{ id: "variant", weight: 1, next: "variant" },
+			]),
+		).rejects.toThrow("must branch to a later step: welcome");
+		await expect(
+			validate([{ id: "control", weight: 1, next: "control" }]),
+		).rejects.toThrow();
+		expect(await validate(splitSteps[0]!.branches)).toMatchObject({
+			valid: true,
+		});
+	});
+
+	test("assigns branches deterministically in proportion to their weights", () => {
+		const subscriberIds = Array.from(
+			{ length: 4_000 },
+			(_, index) => index + 1,
+		);
+		const counts = (step: SequenceSplitStep) => {
+			const assigned = new Map<string, number>();
+			for (const subscriberId of subscriberIds) {
+				const branch = assignSequenceSplitBranch(step, {
+					sequenceId,
+					subscriberId,
+				});
+				assigned.set(branch.id, (assigned.get(branch.id) ?? 0) + 1);
+			}
+			return assigned;
+		};
+
+		const even = counts(split([1, 1]));
+		expect(even).toEqual(counts(split([1, 1])));
+		expect(even.get("branch-0")).toBeGreaterThan(1_800);
+		expect(even.get("branch-1")).toBeGreaterThan(1_800);
+
+		const skewed = counts(split([1, 3]));
+		expect(skewed.get("branch-0")).toBeGreaterThan(850);
+		expect(skewed.get("branch-0")).toBeLessThan(1_150);
+		const enrollment = { sequenceId, subscriberId: 7 };
+		expect(assignSequenceSplitBranch(split([1, 1]), enrollment)).toEqual(
+			assignSequenceSplitBranch(split([1, 1]), enrollment),
+		);
+	});
+
+	test("routes enrollments down their branch and reports per-branch stats", async () => {
+		const stores = await createStores();
+		const { repository } = stores;
+		const { sequence } = await invokeSequenceCreateOperation(
+			{ repository },
+			{ name: "split-welcome", steps: splitSteps },
+		);
+		await invokeSequenceGoalsUpdateOperation(
+			{ repository },
+			{
+				id: sequence.id,
+				goals: [{ id: "paid", type: "list_subscribed", list_id: 9 }],
+			},
+		);
+		const subscriberIds = [11, 12, 13, 14, 15, 16, 17, 18];
+		const subscribers = new Map(
+			subscriberIds.map((id) => [
+				id,
+				{
+					id,
+					status: "enabled",
+					attribs: {},
+					lists: [] as Array<{ id: number; subscription_status: string }>,
+				},
+			]),
+		);
+		const enrollments = new Map<number, string>();
+		for (const subscriberId of subscriberIds) {
+			const { enrollment } = await invokeSequenceEnrollOperation(
+				{ repository, now: () => now },
+				{ id: sequence.id, subscriber_id: subscriberId },
+			);
+			enrollments.set(subscriberId, enrollment.id);
+		}
+		const send = mock(async () => ({ data: true }));
+		const context = {
+			...stores,
+			client: {
+				subscriber: {
+					getById: async ({ path }: { path: { id: number } }) => ({
+						data: subscribers.get(path.id),
+					}),
+				},
+				transactional: { send },
+			} as unknown as Pick<ListmonkClient, "subscriber" | "transactional">,
+			hashPayload: hashTransactionalPayload,
+			retryJitter: () => 1,
+		} satisfies SequenceExecutionContext;
+		const step = splitSteps[0] as SequenceSplitStep;
+		const branchOf = (subscriberId: number) =>
+			assignSequenceSplitBranch(step, {
+				sequenceId: sequence.id,
+				subscriberId,
+			}).id;
+		const inBranch = (branch: string) =>
+			subscriberIds.filter(
+				(subscriberId) => branchOf(subscriberId) === branch,
+			);
+
+		await runSequenceTick(context, { now });
+		expect(send).not.toHaveBeenCalled();
+		await runSequenceTick(context, { now });
+		expect(send).toHaveBeenCalledTimes(subscriberIds.length);
+		for (const subscriberId of subscriberIds) {
+			const branch = branchOf(subscriberId);
+			expect(
+				await repository.getEnrollment(enrollments.get(subscriberId)!),
+			).toMatchObject({
+				status: "pending",
+				currentStepId: `${branch}_wait`,
+				branches: { ab: branch },
+				sentStepIds: [branch],
+			});
+		}
+
+		const [converted] = inBranch("variant");
+		const [engaged] = inBranch("control");
+		subscribers.get(converted!)!.lists = [
+			{ id: 9, subscription_status: "confirmed" },
+		];
+		await invokeSequenceEngagementRecordOperation(
+			{ repository, now: () => now },
+			{
+				events: [
+					{
+						enrollment_id: enrollments.get(engaged!)!,
+						step_id: "control",
+						event: "opened",
+					},
+					{
+						enrollment_id: enrollments.get(engaged!)!,
+						step_id: "control",
+						event: "clicked",
+					},
+				],
+			},
+		);
+		await runSequenceTick(context, { now });
+		await runSequenceTick(context, { now: nextDay });
+
+		const control = inBranch("control").length;
+		const variant = inBranch("variant").length;
+		expect(
+			await invokeSequenceSplitsStatsOperation(
+				{ repository },
+				{ id: sequence.id },
+			),
+		).toEqual({
+			sequence_id: sequence.id,
+			splits: [
+				{
+					step_id: "ab",
+					assigned: subscriberIds.length,
+					branches: [
+						{
+							id: "control",
+							weight: 1,
+							assigned: control,
+							expected: subscriberIds.length / 2,
+							sent: control,
+							opened: 1,
+							clicked: 1,
+							goal_reached: 0,
+						},
+						{
+							id: "variant",
+							weight: 1,
+							assigned: variant,
+							expected: subscriberIds.length / 2,
+							sent: variant,
+							opened: 0,
+							clicked: 0,
+							goal_reached: 1,
+						},
+					],
+				},
+			],
+		});
+	});
+});
@@ -0,0 +1,264 @@
+import type { ListmonkClient } from "@listmonk-ops/openapi";
+import { afterEach, describe, expect, mock, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	createFileSequenceRepository,
+	createSequenceDefinition,
+	evaluateSequenceTriggers,
+	ingestInboundSequenceTriggerEvents,
+	invokeSequenceEventsIngestOperation,
+	invokeSequenceTriggersUpdateOperation,
+	type SequenceExecutionContext,
+	type SequenceRepository,
+} from "../src";
+
+const directories: string[] = [];
+const subscriberUuid = "11111111-1111-4111-8111-111111111111";
+const createdAt = new Date("2026-09-01T00:00:00.000Z");
+
+afterEach(async () => {
+	await Promise.all(
+		directories.splice(0).map((directory) =>
+			rm(directory, { recursive: true, force: true }),
+		),
+	);
+});
+
+async function createSequence(triggers: unknown[]) {
+	const directory = await mkdtemp(join(tmpdir(), "listmonk-ops-triggers-"));
+	directories.push(directory);
+	const repository = createFileSequenceRepository(
+		join(directory, "sequences.json"),
+	);
+	const definition = await repository.createDefinition(
+		createSequenceDefinition(
+			{ name: "onboarding", steps: [{ id: "stop", type: "stop" }] },
+			createdAt,
+		),
+	);
+	await invokeSequenceTriggersUpdateOperation(
+		{ repository },
+		{ id: definition.id, triggers },
+	);
+	return { repository, sequenceId: definition.id };
+}
+
+function triggerContext(
+	repository: SequenceRepository,
+	pages: Array<Array<{ id: number; uuid?: string }>> = [],
+) {
+	const list = mock(async () => {
+		const results = pages.shift() ?? [];
+		return {
+			data: { results, total: results.length, page: 1, per_page: 100 },
+		};
+	});
+	const context = {
+		repository,
+		client: { subscriber: { list } } as unknown as Pick<
+			ListmonkClient,
+			"subscriber" | "transactional"
+		>,
+		hashPayload: (serialized: string) => serialized,
+	} as SequenceExecutionContext;
+	return { context, list };
+}
+
+function evaluate(context: SequenceExecutionContext, now: Date) {
+	return evaluateSequenceTriggers(context, {
+		now,
+		limit: 25,
+		leaseMs: 60_000,
+	});
+}
+
+describe("sequence triggers", () => {
+	test("replaces triggers as a documented no-op when unchanged", async () => {
+		const triggers = [
+			{ id: "joined", type: "list_subscribed", list_id: 5 },
+			{
+				id: "trial",
+				type: "custom_event",
+				name: "trial.started",
+				dedupe: { mode: "once_per_days", days: 30 },
+			},
+		];
+		const { repository, sequenceId } = await createSequence(triggers);
+
+		const replayed = await invokeSequenceTriggersUpdateOperation(
+			{ repository },
+			{ id: sequenceId, triggers },
+		);
+		expect(replayed.updated).toBe(false);
+		expect(replayed.triggers).toEqual([
+			{
+				id: "joined",
+				type: "list_subscribed",
+				list_id: 5,
+				dedupe: { mode: "once" },
+			},
+			{
+				id: "trial",
+				type: "custom_event",
+				name: "trial.started",
+				dedupe: { mode: "once_per_days", days: 30 },
+			},
+		]);
+		expect(replayed.sequence.current_revision).toBe(1);
+
+		await expect(
+			invokeSequenceTriggersUpdateOperation(
+				{ repository },
+				{
+					id: sequenceId,
+					triggers: [
+						{ id: "dup", type: "subscriber_created" },
+						{ id: "dup", type: "subscriber_created" },
+					],
+				},
+			),
+		).rejects.toThrow("dup");
+	});
+
+	test("polls list joins in fixed windows and enrolls each subscriber once", async () => {
+		const { repository, sequenceId } = await createSequence([
+			{ id: "joined", type: "list_subscribed", list_id: 5 },
+		]);
+		const { context, list } = triggerContext(repository, [
+			[{ id: 7 }, { id: 8 }],
+			[{ id: 7 }],
+		]);
+
+		// The first evaluation opens the cursor without backfilling.
+		expect(await evaluate(context, createdAt)).toEqual({
+			triggered: 0,
+			failures: [],
+		});
+		expect(list).not.toHaveBeenCalled();
+
+		const later = new Date(createdAt.getTime() + 5 * 60_000);
+		expect((await evaluate(context, later)).triggered).toBe(2);
+		const [request] = list.mock.calls[0] as unknown as [
+			{ query: { query: string; order: string } },
+		];
+		expect(request.query.query).toContain("list_id = 5");
+		expect(request.query.query).toContain("subscribers.id > 0");
+		expect(request.query.order).toBe("ASC");
+
+		const rejoined = new Date(later.getTime() + 5 * 60_000);
+		expect((await evaluate(context, rejoined)).triggered).toBe(0);
+
+		const enrollments = await repository.listEnrollments({ sequenceId });
+		expect(enrollments.map(({ subscriberId }) => subscriberId).sort()).toEqual(
+			[7, 8],
+		);
+		expect(enrollments[0]?.context).toEqual({
+			trigger: { id: "joined", type: "list_subscribed", list_id: 5 },
+		});
+		expect(
+			await repository.getTriggerCursor(sequenceId, "joined"),
+		).toMatchObject({
+			since: new Date(rejoined.getTime() - 30_000).toISOString(),
+		});
+	});
+
+	test("enrolls custom events within the de-duplication window once", async () => {
+		const { repository, sequenceId } = await createSequence([
+			{
+				id: "trial",
+				type: "custom_event",
+				name: "trial.started",
+				dedupe: { mode: "once_per_days", days: 30 },
+			},
+		]);
+		const { context } = triggerContext(repository);
+		const ingest = (id: string, name = "trial.started") =>
+			invokeSequenceEventsIngestOperation(
+				{ repository, now: () => createdAt },
+				{
+					events: [{ id, name, subscriber_id: 7, data: { plan: "pro" } }],
+				},
+			);
+
+		expect(await ingest("evt-1")).toEqual({
+			accepted: 1,
+			duplicates: 0,
+			ignored: 0,
+		});
+		expect(await ingest("evt-1")).toMatchObject({ duplicates: 1 });
+		expect(await ingest("evt-other", "trial.ended")).toMatchObject({
+			ignored: 1,
+		});
+		expect((await evaluate(context, createdAt)).triggered).toBe(1);
+
+		expect(await ingest("evt-2")).toMatchObject({ accepted: 1 });
+		expect((await evaluate(context, createdAt)).triggered).toBe(0);
+		expect(
+			await repository.claimTriggerEvents({
+				now: createdAt,
+				limit: 25,
+				leaseMs: 60_000,
+			}),
+		).toEqual([]);
+
+		const [enrollment] = await repository.listEnrollments({ sequenceId });
+		expect(enrollment?.context).toEqual({
+			trigger: {
+				id: "trial",
+				type: "custom_event",
+				name: "trial.started",
+				data: { plan: "pro" },
+			},
+		});
+	});
+
+	test("queues only matching inbound delivery events and resolves subscribers", async () => {
+		const { repository, sequenceId } = await createSequence([
+			{ id: "bounced", type: "inbound_delivery", kinds: ["bounced"] },
+		]);
+		const { context, list } = triggerContext(repository, [
+			[{ id: 9, uuid: subscriberUuid }],
+		]);
+
+		const queued = await ingestInboundSequenceTriggerEvents(
+			repository,
+			[
+				{
+					provider: "SES",
+					providerEventId: "evt-bounce",
+					kind: "bounced",
+					subscriberUuid,
+				},
+				{
+					provider: "ses",
+					providerEventId: "evt-delivered",
+					kind: "delivered",
+					subscriberUuid,
+				},
+				{ provider: "ses", providerEventId: "evt-anon", kind: "bounced" },
+			],
+			createdAt,
+		);
+		expect(queued).toEqual({ accepted: 1, duplicates: 0, ignored: 2 });
+
+		expect((await evaluate(context, createdAt)).triggered).toBe(1);
+		const [request] = list.mock.calls[0] as unknown as [
+			{ query: { query: string } },
+		];
+		expect(request.query.query).toBe(`subscribers.uuid = '${subscriberUuid}'`);
+		const [enrollment] = await repository.listEnrollments({ sequenceId });
+		expect(enrollment).toMatchObject({
+			subscriberId: 9,
+			context: {
+				trigger: {
+					id: "bounced",
+					type: "inbound_delivery",
+					name: "bounced",
+					data: { provider: "ses", provider_event_id: "evt-bounce" },
+				},
+			},
+		});
+	});
+});
@@ -0,0 +1,335 @@
+import type { ListmonkClient } from "@listmonk-ops/openapi";
+import { afterEach, describe, expect, mock, test } from "bun:test";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	invokeSuppressionApplyOperation,
+	loadSuppressionPolicies,
+	type SuppressionOperationContext,
+	suppressionPolicySchema,
+} from "../src";
+
+const fixedNow = new Date("2026-07-29T00:00:00.000Z");
+const hardUuid = "11111111-1111-4111-8111-111111111111";
+const softUuid = "22222222-2222-4222-8222-222222222222";
+const complaintUuid = "33333333-3333-4333-8333-333333333333";
+
+const directories: string[] = [];
+
+afterEach(async () => {
+	await Promise.all(
+		directories
+			.splice(0)
+			.map((directory) => rm(directory, { recursive: true, force: true })),
+	);
+});
+
+async function tempDirectory(): Promise<string> {
+	const directory = await mkdtemp(join(tmpdir(), "listmonk-suppression-"));
+	directories.push(directory);
+	return directory;
+}
+
+function subscriberClient() {
+	const subscribers = [
+		{
+			id: 1,
+			uuid: hardUuid,
+			status: "enabled",
+			lists: [{ id: 10, subscription_status: "confirmed" }],
+		},
+		{
+			id: 2,
+			uuid: softUuid,
+			status: "enabled",
+			lists: [
+				{ id: 10, subscription_status: "confirmed" },
+				{ id: 11, subscription_status: "unsubscribed" },
+			],
+		},
+		{
+			id: 3,
+			uuid: complaintUuid,
+			status: "enabled",
+			lists: [
+				{ id: 10, subscription_status: "confirmed" },
+				{ id: 12, subscription_status: "unconfirmed" },
+			],
+		},
+	];
+	const manageBlocklist = mock(async () => ({ data: true }));
+	const manageLists = mock(async () => ({ data: true }));
+	const client = {
+		subscriber: {
+			list: mock(async () => ({
+				data: {
+					results: subscribers,
+					total: subscribers.length,
+					page: 1,
+					per_page: 100,
+				},
+			})),
+			manageBlocklist,
+			manageLists,
+		},
+	} as unknown as Pick<ListmonkClient, "subscriber">;
+	return { client, manageBlocklist, manageLists };
+}
+
+async function suppressionContext(
+	policy: Record<string, unknown> = {},
+): Promise<
+	SuppressionOperationContext & ReturnType<typeof subscriberClient>
+> {
+	const directory = await tempDirectory();
+	const mocks = subscriberClient();
+	return {
+		...mocks,
+		policies: [
+			suppressionPolicySchema.parse({ provider_id: "ses-primary", ...policy }),
+		],
+		ledger: { path: join(directory, "ledger.json") },
+		now: () => fixedNow,
+	};
+}
+
+function softBounce(id: string, occurredAt = "2026-07-28T00:00:00.000Z") {
+	return {
+		provider_event_id: id,
+		kind: "bounced",
+		subscriber_uuid: softUuid,
+		bounce_type: "soft",
+		occurred_at: occurredAt,
+	};
+}
+
+describe("suppression policy", () => {
+	test("plans hard bounce, complaint, and skipped events without writing", async () => {
+		const context = await suppressionContext();
+
+		const report = await invokeSuppressionApplyOperation(context, {
+			provider_id: "ses-primary",
+			events: [
+				{
+					provider_event_id: "evt-hard",
+					kind: "bounced",
+					subscriber_uuid: hardUuid,
+					bounce_type: "hard",
+				},
+				{
+					provider_event_id: "evt-complaint",
+					kind: "complained",
+					subscriber_uuid: complaintUuid,
+				},
+				{ provider_event_id: "evt-delivered", kind: "delivered" },
+				{ provider_event_id: "evt-anonymous", kind: "complained" },
+			],
+		});
+
+		expect(report).toEqual({
+			provider_id: "ses-primary",
+			dry_run: true,
+			evaluated: 4,
+			actions: [
+				{
+					blocklist: true,
+					list_ids: [],
+					rules: ["hard_bounce"],
+					provider_event_ids: ["evt-hard"],
+				},
+				{
+					blocklist: true,
+					list_ids: [10, 12],
+					rules: ["complaint"],
+					provider_event_ids: ["evt-complaint"],
+				},
+			],
+			skipped: [
+				{ provider_event_id: "evt-delivered", reason: "not_applicable" },
+				{ provider_event_id: "evt-anonymous", reason: "missing_subscriber" },
+			],
+			blocklisted: 0,
+			removed_from_lists: 0,
+		});
+		expect(context.manageBlocklist).not.toHaveBeenCalled();
+		expect(context.manageLists).not.toHaveBeenCalled();
+	});
+
+	test("applies blocklist and list removals through the subscriber operations", async () => {
+		const context = await suppressionContext();
+
+		const report = await invokeSuppressionApplyOperation(context, {
+			provider_id: "ses-primary",
+			dry_run: false,
+			events: [
+				{
+					provider_event_id: "evt-hard",
+					kind: "bounced",
+					subscriber_uuid: hardUuid,
+					bounce_type: "hard",
+				},
+				{
+					provider_event_id: "evt-complaint",
+					kind: "complained",
+					subscriber_uuid: complaintUuid,
+				},
+			],
+		});
+
+		expect(report).toMatchObject({ blocklisted: 2, removed_from_lists: 1 });
+		expect(context.manageBlocklist).toHaveBeenCalledWith({
+			body: { action: "add", ids: [1, 3] },
+		});
+		expect(context.manageLists).toHaveBeenCalledWith({
+			body: { action: "remove", ids: [3], target_list_ids: [10, 12] },
+		});
+	});
+
+	test("unsubscribes after the soft bounce threshold and ignores redeliveries", async () => {
+		const context = await suppressionContext({
+			soft_bounce: { threshold: 2, window_days: 7 },
+		});
+
+		const first = await invokeSuppressionApplyOperation(context, {
+			provider_id: "ses-primary",
+			dry_run: false,
+			events: [
+				softBounce("evt-soft-1"),
+				softBounce("evt-stale", "2026-07-01T00:00:00.000Z"),
+			],
+		});
+		expect(first.actions).toEqual([]);
+		expect(first.skipped).toEqual([
+			{
+				provider_event_id: "evt-soft-1",
+				reason: "below_threshold",
+				soft_bounces: 1,
+			},
+			{
+				provider_event_id: "evt-stale",
+				reason: "below_threshold",
+				soft_bounces: 1,
+			},
+		]);
+
+		const redelivered = await invokeSuppressionApplyOperation(context, {
+			provider_id: "ses-primary",
+			dry_run: false,
+			events: [softBounce("evt-soft-1")],
+		});
+		expect(redelivered.actions).toEqual([]);
+
+		const second = await invokeSuppressionApplyOperation(context, {
+			provider_id: "ses-primary",
+			dry_run: false,
+			events: [softBounce("evt-soft-2")],
+		});
+		expect(second.actions).toEqual([
+			{
+				blocklist: false,
+				list_ids: [10],
+				rules: ["soft_bounce"],
+				provider_event_ids: ["evt-soft-2"],
+			},
+		]);
+		expect(context.manageBlocklist).not.toHaveBeenCalled();
+		expect(context.manageLists).toHaveBeenCalledWith({
+			body: { action: "remove", ids: [2], target_list_ids: [10] },
+		});
+	});
+
+	test("counts concurrent soft bounces for one subscriber under the ledger lock", async () => {
+		const context = await suppressionContext({
+			soft_bounce: { threshold: 2, window_days: 7 },
+		});
+
+		const reports = await Promise.all(
+			["evt-soft-1", "evt-soft-2"].map((id) =>
+				invokeSuppressionApplyOperation(context, {
+					provider_id: "ses-primary",
+					dry_run: false,
+					events: [softBounce(id)],
+				}),
+			),
+		);
+
+		expect(reports.flatMap((report) => report.actions)).toEqual([
+			{
+				blocklist: false,
+				list_ids: [10],
+				rules: ["soft_bounce"],
+				provider_event_ids: [expect.any(String)],
+			},
+		]);
+		expect(context.manageLists).toHaveBeenCalledTimes(1);
+	});
+
+	test("honours disabled rules and rejects unknown providers", async () => {
+		const context = await suppressionContext({
+			hard_bounce: "none",
+			complaint: "none",
+		});
+
+		const report = await invokeSuppressionApplyOperation(context, {
+			provider_id: "ses-primary",
+			events: [
+				{
+					provider_event_id: "evt-hard",
+					kind: "bounced",
+					subscriber_uuid: hardUuid,
+					bounce_type: "hard",
+				},
+				{
+					provider_event_id: "evt-complaint",
+					kind: "complained",
+					subscriber_uuid: complaintUuid,
+				},
+			],
+		});
+		expect(report.actions).toEqual([]);
+		expect(report.skipped.map(({ reason }) => reason)).toEqual([
+			"policy_disabled",
+			"policy_disabled",
+		]);
+
+		await expect(
+			invokeSuppressionApplyOperation(context, {
+				provider_id: "mailgun-secondary",
+				events: [{ provider_event_id: "evt", kind: "complained" }],
+			}),
+		).rejects.toThrow(
+			"No suppression policy is configured for provider profile: mailgun-secondary",
+		);
+	});
+
+	test("loads policies next to the provider profile file", async () => {
+		const directory = await tempDirectory();
+		await writeFile(
+			join(directory, "suppression-policies.json"),
+			JSON.stringify({
+				schema_version: 1,
+				policies: [{ provider_id: "ses-primary" }],
+			}),
+		);
+
+		const policies = await loadSuppressionPolicies({
+			env: {
+				LISTMONK_OPS_PROVIDER_CONFIG: join(directory, "providers.json"),
+			},
+		});
+
+		expect(policies).toEqual([
+			{
+				provider_id: "ses-primary",
+				hard_bounce: "blocklist",
+				soft_bounce: { action: "unsubscribe", threshold: 3, window_days: 30 },
+				complaint: "blocklist_and_unsubscribe",
+				unsubscribe: "unsubscribe",
+			},
+		]);
+		await expect(
+			loadSuppressionPolicies({ env: {} }),
+		).resolves.toEqual([]);
+	});
+});
@@ -0,0 +1,163 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { randomUUID } from "node:crypto";
+import postgres from "postgres";
+import {
+	createPostgresTransactionalIdempotencyStore,
+	type PostgresTransactionalIdempotencyStore,
+} from "../src/transactional-postgres";
+import { getTransactionalIdempotencyStoreFromEnvironment } from "../src/transactional-runtime";
+
+const databaseUrl =
+	process.env.LISTMONK_OPS_TEST_TRANSACTIONAL_DATABASE_URL?.trim() ||
+	process.env.LISTMONK_OPS_TEST_WEBHOOK_DATABASE_URL?.trim();
+const postgresTest = databaseUrl ? test : test.skip;
+const stores: PostgresTransactionalIdempotencyStore[] = [];
+
+function openStore(): PostgresTransactionalIdempotencyStore {
+	const store = createPostgresTransactionalIdempotencyStore({
+		connectionString: databaseUrl ?? "",
+		maxConnections: 2,
+	});
+	stores.push(store);
+	return store;
+}
+
+beforeAll(async () => {
+	if (!databaseUrl) {
+		return;
+	}
+	const sql = postgres(databaseUrl, { max: 1, prepare: false });
+	try {
+		await sql`DROP TABLE IF EXISTS listmonk_ops.transactional_idempotency_records`;
+		await sql`DROP TABLE IF EXISTS listmonk_ops.transactional_runtime_meta`;
+	} finally {
+		await sql.end({ timeout: 5 });
+	}
+});
+
+afterAll(async () => {
+	await Promise.all(stores.map((store) => store.close()));
+});
+
+describe("Postgres transactional idempotency store", () => {
+	test("rejects non-Postgres connection strings", () => {
+		expect(() =>
+			createPostgresTransactionalIdempotencyStore({
+				connectionString: "mysql://localhost/db",
+			}),
+		).toThrow("postgres:// or postgresql://");
+	});
+
+	test("rejects configuring both the file store and the database URL", () => {
+		expect(() =>
+			getTransactionalIdempotencyStoreFromEnvironment({
+				path: "/tmp/transactional.json",
+				databaseUrl: "postgres://localhost/db",
+			}),
+		).toThrow("Configure only one of");
+	});
+
+	postgresTest(
+		"serializes concurrent claims across replicas into one new claim",
+		async () => {
+			const [first, second] = [openStore(), openStore()];
+			const key = `tx-${randomUUID()}`;
+			const claims = await Promise.all(
+				[first, second, first, second].map((store) =>
+					store.claim({ key, payloadHash: "p", targetHash: "t" }),
+				),
+			);
+			expect(claims.filter((claim) => claim.kind === "new")).toHaveLength(1);
+			expect(claims.filter((claim) => claim.kind === "replay")).toHaveLength(
+				3,
+			);
+			const conflict = await second.claim({
+				key,
+				payloadHash: "other",
+				targetHash: "t",
+			});
+			expect(conflict.kind).toBe("conflict");
+		},
+	);
+
+	postgresTest(
+		"commits, releases, and keeps ambiguous outcomes blocking",
+		async () => {
+			const store = openStore();
+			const key = `tx-${randomUUID()}`;
+			const claim = await store.claim({ key, payloadHash: "p", targetHash: "t" });
+			if (claim.kind !== "new") {
+				throw new Error(`expected new claim, got ${claim.kind}`);
+			}
+			// A stale token is a no-op.
+			await store.commit({
+				key,
+				claimToken: randomUUID(),
+				status: "accepted",
+			});
+			await store.commit({
+				key,
+				claimToken: claim.record.claimToken,
+				status: "unknown",
+				errorMessage: "socket hang up",
+			});
+			const replay = await store.claim({ key, payloadHash: "p", targetHash: "t" });
+			expect(replay).toMatchObject({
+				kind: "replay",
+				record: { status: "unknown", errorMessage: "socket hang up" },
+			});
+
+			const releasedKey = `tx-${randomUUID()}`;
+			const released = await store.claim({
+				key: releasedKey,
+				payloadHash: "p",
+				targetHash: "t",
+			});
+			if (released.kind !== "new") {
+				throw new Error(`expected new claim, got ${released.kind}`);
+			}
+			await store.release({
+				key: releasedKey,
+				claimToken: released.record.claimToken,
+			});
+			expect(
+				(
+					await store.claim({
+						key: releasedKey,
+						payloadHash: "p",
+						targetHash: "t",
+					})
+				).kind,
+			).toBe("new");
+			expect((await store.load()).records[key]?.status).toBe("unknown");
+		},
+	);
+
+	postgresTest("replaces expired records and prunes them", async () => {
+		const store = openStore();
+		const key = `tx-${randomUUID()}`;
+		const start = new Date("2026-01-01T00:00:00.000Z");
+		await store.claim({
+			key,
+			payloadHash: "p",
+			targetHash: "t",
+			ttlMs: 1_000,
+			now: () => start,
+		});
+		const later = new Date(start.getTime() + 5_000);
+		const fresh = await store.claim({
+			key,
+			payloadHash: "other",
+			targetHash: "t",
+			ttlMs: 1_000,
+			now: () => later,
+		});
+		expect(fresh.kind).toBe("new");
+		expect(
+			await store.pruneExpired({
+				now: () => new Date(later.getTime() + 5_000),
+			}),
+		).toBeGreaterThanOrEqual(1);
+		expect((await store.load()).records[key]).toBeUndefined();
+	});
+});
@@ -57,6 +57,85 @@ describe("automation workflows", () => {
 		);
 	});
 
+	test("campaign preflight renders the preview when asked", async () => {
+		const campaign = createWorkflowClient({}).campaign;
+		const render = (html: string | { error: string }) =>
+			createWorkflowClient({
+				campaign: {
+					...campaign,
+					preview: async () =>
+						typeof html === "string" ? { data: html } : html,
+					previewText: async () => ({ data: "Hello" }),
+				},
+			} as Partial<ListmonkClient>);
+		const renderCheck = async (client: ListmonkClient) =>
+			(
+				await runCampaignPreflight(client, 1, { checkRender: true })
+			).checks.find((check) => check.id === "render");
+
+		expect(await renderCheck(render("<p>Hello</p>"))).toEqual({
+			id: "render",
+			level: "pass",
+			message: "Campaign renders to HTML and plain text",
+			details: { htmlBytes: 12, textBytes: 5 },
+		});
+		expect(
+			await renderCheck(render("<p>Hello {{ .Subscriber.Nmae }}</p>")),
+		).toMatchObject({
+			level: "warn",
+			details: { tokens: ["{{ .Subscriber.Nmae }}"] },
+		});
+		expect(await renderCheck(render({ error: "template error" }))).toMatchObject(
+			{ level: "fail", message: "Campaign preview failed to render" },
+		);
+		expect(
+			(await runCampaignPreflight(render("<p>Hello</p>"), 1)).checks.some(
+				(check) => check.id === "render",
+			),
+		).toBe(false);
+	});
+
+	test("campaign preflight checks the rendered content at configured levels", async () => {
+		const campaign = createWorkflowClient({}).campaign;
+		const client = createWorkflowClient({
+			campaign: {
+				...campaign,
+				preview: async () => ({
+					data: '<p>Hello<img src="logo.png" alt="Logo"></p>',
+				}),
+				previewText: async () => ({ data: "Hello" }),
+			},
+			settings: {
+				get: async () => ({
+					data: { "privacy.unsubscribe_header": true },
+				}),
+			},
+		} as Partial<ListmonkClient>);
+
+		const { checks } = await runCampaignPreflight(client, 1, {
+			checkRender: true,
+			contentCheckLevels: { image_text_ratio: "fail", spam_phrases: "off" },
+		});
+		const levels = Object.fromEntries(
+			checks.map((check) => [check.id, check.level]),
+		);
+		expect(levels).toMatchObject({
+			render: "pass",
+			gmail_clipping: "pass",
+			image_alt_text: "pass",
+			plain_text_alternative: "warn",
+			image_text_ratio: "fail",
+			html_balance: "pass",
+			list_unsubscribe_header: "pass",
+			image_health: "warn",
+		});
+		expect(levels).not.toHaveProperty("spam_phrases");
+		expect(checks.find((check) => check.id === "image_health")).toMatchObject({
+			message: "1 image source(s) are invalid or unreachable",
+			details: { fetched: false, invalid: ["logo.png"], broken: [] },
+		});
+	});
+
 	test("daily digest propagates list query failures", async () => {
 		const client = createWorkflowClient({
 			list: {
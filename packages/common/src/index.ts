@@ -135,6 +135,10 @@ export const OutputUtils = {
 	json(data: unknown): void {
 		console.log(JSON.stringify(data, null, 2));
 	},
+
+	raw(content: string): void {
+		process.stdout.write(content);
+	},
 } as const;
 
 export {
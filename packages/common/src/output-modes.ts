@@ -6,6 +6,7 @@
  * - stderr carries human-readable messages (success, info, warnings)
  * - --quiet suppresses human messages entirely
  * - --format json|ndjson|human controls the data format on stdout
+ * - raw content (an exported CSV, rendered HTML) goes to stdout as-is
  *
  * Each strategy implements the same interface as OutputUtils, so
  * command handlers don't need to change — the output context is
@@ -21,11 +22,12 @@ export interface OutputStrategy {
 	warning(message: string): void;
 	table(data: unknown): void;
 	json(data: unknown): void;
+	raw(content: string): void;
 }
 
 /**
  * Default human-readable strategy (current behavior):
- * success/info/warning/table/json → stdout, error → stderr.
+ * success/info/warning/table/json/raw → stdout, error → stderr.
  */
 export const humanOutput: OutputStrategy = {
 	success(message) {
@@ -46,11 +48,14 @@ export const humanOutput: OutputStrategy = {
 	json(data) {
 		console.log(JSON.stringify(data, null, 2));
 	},
+	raw(content) {
+		process.stdout.write(content);
+	},
 };
 
 /**
  * JSON-only strategy:
- * json → stdout (pretty-printed), success/info/warning → stderr, table → stderr.
+ * json/raw → stdout (json pretty-printed), success/info/warning → stderr, table → stderr.
  */
 export const jsonOutput: OutputStrategy = {
 	success(message) {
@@ -71,11 +76,14 @@ export const jsonOutput: OutputStrategy = {
 	json(data) {
 		console.log(JSON.stringify(data, null, 2));
 	},
+	raw(content) {
+		process.stdout.write(content);
+	},
 };
 
 /**
  * NDJSON strategy:
- * json → stdout (single line, no indentation), everything else → stderr.
+ * json/raw → stdout (json on a single line), everything else → stderr.
  */
 export const ndjsonOutput: OutputStrategy = {
 	success(message) {
@@ -96,11 +104,14 @@ export const ndjsonOutput: OutputStrategy = {
 	json(data) {
 		console.log(JSON.stringify(data));
 	},
+	raw(content) {
+		process.stdout.write(content);
+	},
 };
 
 /**
  * Quiet strategy:
- * json → stdout, everything else suppressed.
+ * json/raw → stdout, everything else suppressed.
  */
 export const quietOutput: OutputStrategy = {
 	success(_message) {},
@@ -115,6 +126,9 @@ export const quietOutput: OutputStrategy = {
 	json(data) {
 		console.log(JSON.stringify(data));
 	},
+	raw(content) {
+		process.stdout.write(content);
+	},
 };
 
 /**
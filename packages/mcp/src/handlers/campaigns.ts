@@ -1,3 +1,7 @@
+import {
+	getSeedRecipientPolicyFromEnvironment,
+	validateSeedRecipients,
+} from "@listmonk-ops/abtest";
 import type { ListmonkClient } from "@listmonk-ops/openapi";
 import {
 	campaignOperations,
@@ -7,7 +11,6 @@ import type { CallToolRequest, CallToolResult, MCPTool } from "../types/mcp.js";
 import type { HandlerFunction } from "../types/shared.js";
 import { createOperationResult, toMcpTool } from "./operation-adapter.js";
 import {
-	createApiErrorResult,
 	createErrorResult,
 	handleDataResponse,
 	validateRequiredParams,
@@ -150,25 +153,6 @@ const campaignLegacyTools: MCPTool[] = [
 			required: ["id"],
 		},
 	},
-	{
-		name: "listmonk_test_campaign",
-		description: "Send a test campaign to specified emails",
-		inputSchema: {
-			type: "object",
-			properties: {
-				id: {
-					type: "string",
-					description: "Campaign ID",
-				},
-				emails: {
-					type: "array",
-					items: { type: "string" },
-					description: "Email addresses to send test to",
-				},
-			},
-			required: ["id", "emails"],
-		},
-	},
 	{
 		name: "listmonk_get_campaign_running_stats",
 		description: "Get live sending stats for a running campaign",
@@ -227,8 +211,13 @@ export const handleCampaignsTools: HandlerFunction = withErrorHandler(
 		client: ListmonkClient,
 	): Promise<CallToolResult> => {
 		const { name, arguments: args = {} } = request.params;
+		const seedRecipientPolicy = getSeedRecipientPolicyFromEnvironment();
 		const operationInvocation = await invokeCampaignOperationByMcpName(
-			{ client },
+			{
+				client,
+				validateSeedRecipients: (emails) =>
+					validateSeedRecipients(emails, seedRecipientPolicy),
+			},
 			name,
 			args,
 		);
@@ -240,60 +229,6 @@ export const handleCampaignsTools: HandlerFunction = withErrorHandler(
 		}
 
 		switch (name) {
-			case "listmonk_test_campaign": {
-				const validation = validateRequiredParams(request, ["id", "emails"]);
-				if (validation) {
-					return createErrorResult(validation);
-				}
-
-				const campaignId = parseId(args.id);
-				const currentResponse = await client.campaign.getById({
-					path: { id: campaignId },
-				});
-				if ("error" in currentResponse) {
-					return createApiErrorResult(
-						"Failed to load campaign before test send",
-						currentResponse.error,
-					);
-				}
-
-				const currentCampaign = currentResponse.data;
-				if (!currentCampaign) {
-					return createErrorResult("Campaign not found");
-				}
-
-				const response = await client.campaign.test({
-					path: { id: campaignId },
-					body: {
-						name: currentCampaign.name ?? `campaign-${campaignId}`,
-						subject: currentCampaign.subject ?? "",
-						from_email: currentCampaign.from_email ?? "",
-						body: currentCampaign.body ?? "",
-						altbody: currentCampaign.altbody,
-						content_type: currentCampaign.content_type ?? "html",
-						template_id: currentCampaign.template_id,
-						headers: currentCampaign.headers ?? [],
-						lists:
-							currentCampaign.lists
-								?.map((list) => Number(list.id))
-								.filter((id) => Number.isInteger(id) && id > 0) ?? [],
-						media:
-							currentCampaign.media
-								?.map((item) => Number(item.id))
-								.filter((id) => Number.isInteger(id) && id > 0) ?? [],
-						subscribers: Array.isArray(args.emails)
-							? args.emails.map((email) => String(email))
-							: [],
-						messenger: currentCampaign.messenger ?? "email",
-						type: currentCampaign.type ?? "regular",
-						tags: Array.isArray(currentCampaign.tags)
-							? currentCampaign.tags
-							: [],
-					},
-				});
-				return handleDataResponse(response, "Failed to send test campaign");
-			}
-
 			case "listmonk_get_campaign_running_stats": {
 				const validation = validateRequiredParams(request, ["campaign_id"]);
 				if (validation) {
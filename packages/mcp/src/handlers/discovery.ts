@@ -4,6 +4,7 @@ import {
 	getDiscoveryOperationByMcpName,
 	invokeDiscoveryOperationByMcpName,
 } from "@listmonk-ops/operations";
+import type { EmailOperationsSpec } from "@listmonk-ops/operations/specs";
 import packageJson from "../../package.json" with { type: "json" };
 import { mcpOperationCatalog } from "../operation-catalog.js";
 import type { CallToolRequest, CallToolResult, MCPTool } from "../types/mcp.js";
@@ -23,6 +24,7 @@ export type DiscoveryHandlerFunction = (
 	request: CallToolRequest,
 	client: ListmonkClient,
 	target?: DiscoveryHandlerTarget,
+	spec?: EmailOperationsSpec,
 ) => Promise<CallToolResult>;
 
 export const handleDiscoveryTools: DiscoveryHandlerFunction = withErrorHandler(
@@ -30,6 +32,7 @@ export const handleDiscoveryTools: DiscoveryHandlerFunction = withErrorHandler(
 		request: CallToolRequest,
 		client: ListmonkClient,
 		target?: DiscoveryHandlerTarget,
+		spec?: EmailOperationsSpec,
 	): Promise<CallToolResult> => {
 		const operation = getDiscoveryOperationByMcpName(request.params.name);
 		if (operation === undefined) {
@@ -39,6 +42,7 @@ export const handleDiscoveryTools: DiscoveryHandlerFunction = withErrorHandler(
 		const output = await invokeDiscoveryOperationByMcpName(
 			{
 				catalog: mcpOperationCatalog,
+				...(spec === undefined ? {} : { spec }),
 				surface: "mcp",
 				version: packageJson.version,
 				runtime: {
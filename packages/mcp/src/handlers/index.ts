@@ -11,9 +11,25 @@ import { discoveryTools, handleDiscoveryTools } from "./discovery.js";
 import { handleListsTools, listsTools } from "./lists.js";
 import { handleMediaTools, mediaTools } from "./media.js";
 import { handleOpsTools, opsTools } from "./ops.js";
+import {
+	handlePlaybookRunTools,
+	playbookRunTools,
+} from "./playbook-runs.js";
 import { handleProviderTools, providerTools } from "./providers.js";
 import { handleSettingsTools, settingsTools } from "./settings.js";
+import {
+	handleSettingsManifestTools,
+	settingsManifestTools,
+} from "./settings-manifest.js";
 import { handleSequenceTools, sequenceTools } from "./sequences.js";
+import {
+	handleSuppressionTools,
+	suppressionTools,
+} from "./suppressions.js";
+import {
+	handleSubscriberImportsTools,
+	subscriberImportsTools,
+} from "./subscriber-imports.js";
 import { handleSubscribersTools, subscribersTools } from "./subscribers.js";
 import { handleTemplatesTools, templatesTools } from "./templates.js";
 import {
@@ -31,10 +47,14 @@ export * from "./discovery.js";
 export * from "./lists.js";
 export * from "./media.js";
 export * from "./ops.js";
+export * from "./playbook-runs.js";
 export * from "./providers.js";
 export * from "./settings.js";
+export * from "./settings-manifest.js";
 export * from "./sequences.js";
+export * from "./subscriber-imports.js";
 export * from "./subscribers.js";
+export * from "./suppressions.js";
 export * from "./templates.js";
 export * from "./transactional.js";
 export * from "./user-roles.js";
@@ -47,16 +67,20 @@ export const allTools: readonly MCPTool[] = [
 	...templatesTools,
 	...operationCatalogTools,
 	...discoveryTools,
+	...playbookRunTools,
 	...mediaTools,
 	...opsTools,
 	...providerTools,
+	...suppressionTools,
 	...bouncesTools,
 	...settingsTools,
+	...settingsManifestTools,
 	...sequenceTools,
 	...transactionalTools,
 	...abtestTools,
 	...webhookTools,
 	...userRolesTools,
+	...subscriberImportsTools,
 ];
 
 function createToolNameSet(tools: readonly MCPTool[]): ReadonlySet<string> {
@@ -72,10 +96,14 @@ export const toolNameSets = {
 	lists: createToolNameSet(listsTools),
 	media: createToolNameSet(mediaTools),
 	ops: createToolNameSet(opsTools),
+	playbookRuns: createToolNameSet(playbookRunTools),
 	providers: createToolNameSet(providerTools),
 	settings: createToolNameSet(settingsTools),
+	settingsManifest: createToolNameSet(settingsManifestTools),
 	sequences: createToolNameSet(sequenceTools),
+	subscriberImports: createToolNameSet(subscriberImportsTools),
 	subscribers: createToolNameSet(subscribersTools),
+	suppressions: createToolNameSet(suppressionTools),
 	templates: createToolNameSet(templatesTools),
 	transactional: createToolNameSet(transactionalTools),
 	userRoles: createToolNameSet(userRolesTools),
@@ -94,16 +122,20 @@ export const toolRegistrations: readonly ToolRegistration[] = [
 	{ tools: templatesTools, handler: handleTemplatesTools },
 	{ tools: operationCatalogTools, handler: handleOperationCatalogTools },
 	{ tools: discoveryTools, handler: handleDiscoveryTools },
+	{ tools: playbookRunTools, handler: handlePlaybookRunTools },
 	{ tools: mediaTools, handler: handleMediaTools },
 	{ tools: opsTools, handler: handleOpsTools },
 	{ tools: providerTools, handler: handleProviderTools },
+	{ tools: suppressionTools, handler: handleSuppressionTools },
 	{ tools: bouncesTools, handler: handleBouncesTools },
 	{ tools: settingsTools, handler: handleSettingsTools },
+	{ tools: settingsManifestTools, handler: handleSettingsManifestTools },
 	{ tools: sequenceTools, handler: handleSequenceTools },
 	{ tools: transactionalTools, handler: handleTransactionalTools },
 	{ tools: abtestTools, handler: handleAbTestTools },
 	{ tools: webhookTools, handler: handleWebhookTools },
 	{ tools: userRolesTools, handler: handleUserRolesTools },
+	{ tools: subscriberImportsTools, handler: handleSubscriberImportsTools },
 ];
 
 export function assertUniqueToolNames(
@@ -0,0 +1,48 @@
+import type { ListmonkClient } from "@listmonk-ops/openapi";
+import {
+	getPlaybookRunOperationByMcpName,
+	invokePlaybookRunOperationByMcpName,
+	playbookRunOperations,
+	type PlaybookRunOperationContext,
+} from "@listmonk-ops/automation";
+import type { CallToolRequest, CallToolResult, MCPTool } from "../types/mcp.js";
+import type { HandlerFunction } from "../types/shared.js";
+import { createErrorResult } from "../utils/response.js";
+import { withErrorHandler } from "../utils/typeHelpers.js";
+import { createOperationResult, toMcpTool } from "./operation-adapter.js";
+
+export const playbookRunTools: MCPTool[] = playbookRunOperations.map(toMcpTool);
+
+export function isPlaybookRunToolName(name: string): boolean {
+	return getPlaybookRunOperationByMcpName(name) !== undefined;
+}
+
+export async function executePlaybookRunTools(
+	request: CallToolRequest,
+	_client: ListmonkClient,
+	context: PlaybookRunOperationContext = {},
+): Promise<CallToolResult> {
+	const invocation = await invokePlaybookRunOperationByMcpName(
+		context,
+		request.params.name,
+		request.params.arguments ?? {},
+	);
+	if (!invocation) {
+		return createErrorResult(`Unknown tool: ${request.params.name}`);
+	}
+	return createOperationResult(invocation.operation, invocation.output);
+}
+
+/**
+ * Without an `executeStep` context only run lookups work; the server passes
+ * one that routes each step back through its own tool dispatch.
+ */
+export function createPlaybookRunToolsHandler(
+	context: PlaybookRunOperationContext = {},
+): HandlerFunction {
+	return withErrorHandler((request, client) =>
+		executePlaybookRunTools(request, client, context),
+	);
+}
+
+export const handlePlaybookRunTools = createPlaybookRunToolsHandler();
@@ -1,11 +1,9 @@
-import {
-	createFileBackedTransactionalIdempotencyStore,
-	hashTransactionalPayload,
-} from "@listmonk-ops/common";
+import { hashTransactionalPayload } from "@listmonk-ops/common";
 import type { ListmonkClient } from "@listmonk-ops/openapi";
 import {
 	getSequenceOperationByMcpName,
 	getSequenceRepositoryFromEnvironment,
+	getTransactionalIdempotencyStoreFromEnvironment,
 	invokeSequenceOperationByMcpName,
 	sequenceOperations,
 	type SequenceOperationContext,
@@ -37,7 +35,7 @@ export async function executeSequenceTools(
 			idempotencyStore:
 				context.idempotencyStore ??
 				repository.idempotencyStore ??
-				createFileBackedTransactionalIdempotencyStore(),
+				getTransactionalIdempotencyStoreFromEnvironment(),
 			hashPayload: context.hashPayload ?? hashTransactionalPayload,
 		},
 		request.params.name,
@@ -0,0 +1,40 @@
+import type { ListmonkClient } from "@listmonk-ops/openapi";
+import {
+	invokeSettingsOperationByMcpName,
+	settingsOperations,
+} from "@listmonk-ops/operations";
+import type { CallToolRequest, CallToolResult, MCPTool } from "../types/mcp.js";
+import { createOperationResult, toMcpTool } from "./operation-adapter.js";
+import { createErrorResult } from "../utils/response.js";
+
+export const settingsManifestTools: MCPTool[] =
+	settingsOperations.map(toMcpTool);
+
+export async function handleSettingsManifestTools(
+	request: CallToolRequest,
+	client: ListmonkClient,
+): Promise<CallToolResult> {
+	const { name, arguments: args = {} } = request.params;
+
+	try {
+		// Secret references resolve against the server's environment; the
+		// manifest itself never carries secret values.
+		const operationInvocation = await invokeSettingsOperationByMcpName(
+			{ client, resolveSecret: (env) => process.env[env] },
+			name,
+			args,
+		);
+		if (operationInvocation) {
+			return createOperationResult(
+				operationInvocation.operation,
+				operationInvocation.output,
+			);
+		}
+
+		return createErrorResult(`Unknown tool: ${name}`);
+	} catch (error) {
+		return createErrorResult(
+			error instanceof Error ? error.message : String(error),
+		);
+	}
+}
@@ -0,0 +1,38 @@
+import type { ListmonkClient } from "@listmonk-ops/openapi";
+import {
+	invokeSubscriberImportOperationByMcpName,
+	subscriberImportOperations,
+} from "@listmonk-ops/operations";
+import type { CallToolRequest, CallToolResult, MCPTool } from "../types/mcp.js";
+import { createOperationResult, toMcpTool } from "./operation-adapter.js";
+import { createErrorResult } from "../utils/response.js";
+
+export const subscriberImportsTools: MCPTool[] =
+	subscriberImportOperations.map(toMcpTool);
+
+export async function handleSubscriberImportsTools(
+	request: CallToolRequest,
+	client: ListmonkClient,
+): Promise<CallToolResult> {
+	const { name, arguments: args = {} } = request.params;
+
+	try {
+		const operationInvocation = await invokeSubscriberImportOperationByMcpName(
+			{ client },
+			name,
+			args,
+		);
+		if (operationInvocation) {
+			return createOperationResult(
+				operationInvocation.operation,
+				operationInvocation.output,
+			);
+		}
+
+		return createErrorResult(`Unknown tool: ${name}`);
+	} catch (error) {
+		return createErrorResult(
+			error instanceof Error ? error.message : String(error),
+		);
+	}
+}
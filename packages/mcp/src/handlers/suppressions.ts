@@ -0,0 +1,44 @@
+import type { ListmonkClient } from "@listmonk-ops/openapi";
+import {
+	getSuppressionOperationByMcpName,
+	invokeSuppressionOperationByMcpName,
+	suppressionOperations,
+	type SuppressionOperationContext,
+} from "@listmonk-ops/automation";
+import type { CallToolRequest, CallToolResult, MCPTool } from "../types/mcp.js";
+import type { HandlerFunction } from "../types/shared.js";
+import { createErrorResult } from "../utils/response.js";
+import { withErrorHandler } from "../utils/typeHelpers.js";
+import { createOperationResult, toMcpTool } from "./operation-adapter.js";
+
+export const suppressionTools: MCPTool[] = suppressionOperations.map(toMcpTool);
+
+export function isSuppressionToolName(name: string): boolean {
+	return getSuppressionOperationByMcpName(name) !== undefined;
+}
+
+export async function executeSuppressionTools(
+	request: CallToolRequest,
+	client: ListmonkClient,
+	context: Omit<SuppressionOperationContext, "client"> = {},
+): Promise<CallToolResult> {
+	const invocation = await invokeSuppressionOperationByMcpName(
+		{ ...context, client },
+		request.params.name,
+		request.params.arguments ?? {},
+	);
+	if (!invocation) {
+		return createErrorResult(`Unknown tool: ${request.params.name}`);
+	}
+	return createOperationResult(invocation.operation, invocation.output);
+}
+
+export function createSuppressionToolsHandler(
+	context: Omit<SuppressionOperationContext, "client"> = {},
+): HandlerFunction {
+	return withErrorHandler((request, client) =>
+		executeSuppressionTools(request, client, context),
+	);
+}
+
+export const handleSuppressionTools = createSuppressionToolsHandler();
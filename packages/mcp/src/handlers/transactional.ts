@@ -1,7 +1,5 @@
-import {
-	createFileBackedTransactionalIdempotencyStore,
-	hashTransactionalPayload,
-} from "@listmonk-ops/common";
+import { getTransactionalIdempotencyStoreFromEnvironment } from "@listmonk-ops/automation";
+import { hashTransactionalPayload } from "@listmonk-ops/common";
 import type { ListmonkClient } from "@listmonk-ops/openapi";
 import {
 	getTransactionalOperationByMcpName,
@@ -53,12 +51,11 @@ export const handleTransactionalTools: TransactionalHandlerFunction =
 		const invocation = await invokeTransactionalOperationByMcpName(
 			{
 				client,
-				// Inject the file-backed idempotency store and SHA-256 hasher
-				// here so the operations package stays runtime-neutral. The
-				// store path resolves via LISTMONK_OPS_TRANSACTIONAL_STORE
-				// (same convention as the audit/abtest stores).
-				idempotencyStore:
-					createFileBackedTransactionalIdempotencyStore(),
+				// Inject the idempotency store and SHA-256 hasher here so the
+				// operations package stays runtime-neutral. The store resolves
+				// to Postgres via LISTMONK_OPS_TRANSACTIONAL_DATABASE_URL (shared
+				// across replicas) or to the file at LISTMONK_OPS_TRANSACTIONAL_STORE.
+				idempotencyStore: getTransactionalIdempotencyStoreFromEnvironment(),
 				hashPayload: hashTransactionalPayload,
 				target,
 			},
@@ -4,7 +4,9 @@ import { fileURLToPath } from "node:url";
 import {
 	closeOutboundWebhookRuntimeRepositories,
 	closeSequenceRuntimeRepositories,
+	closeTransactionalRuntimeStores,
 } from "@listmonk-ops/automation";
+import { closeConversionEventStores } from "@listmonk-ops/abtest";
 import type { ListmonkMCPServer } from "./server.js";
 
 interface RuntimeArgs {
@@ -26,6 +28,8 @@ type MCPServerConfig = {
 	httpAuthToken?: string;
 	allowedHttpHosts?: string[];
 	allowedHttpOrigins?: string[];
+	conversionIngestSecret?: string;
+	sequenceEventIngestSecret?: string;
 };
 
 type BunHttpServer = {
@@ -48,6 +52,8 @@ async function shutdownRuntime(): Promise<void> {
 		const closeResults = await Promise.allSettled([
 			closeOutboundWebhookRuntimeRepositories(),
 			closeSequenceRuntimeRepositories(),
+			closeTransactionalRuntimeStores(),
+			closeConversionEventStores(),
 		]);
 		for (const result of closeResults) {
 			if (result.status === "rejected") {
@@ -177,7 +183,21 @@ Environment fallback:
   LISTMONK_OPS_SEQUENCE_STORE  File-backed sequence definition/enrollment path
   LISTMONK_OPS_SEQUENCE_DATABASE_URL
                                Postgres sequence runtime URL (exclusive with file store)
+  LISTMONK_OPS_TRANSACTIONAL_STORE
+                               File-backed transactional idempotency path
+  LISTMONK_OPS_TRANSACTIONAL_DATABASE_URL
+                               Postgres transactional idempotency URL (exclusive with file store)
   LISTMONK_OPS_PROVIDER_CONFIG Versioned provider profile JSON for read-only diagnostics
+  LISTMONK_OPS_PLAYBOOK_DIR    Directory of versioned JSON/YAML playbook files
+  LISTMONK_OPS_SEED_DOMAINS    Comma-separated domains allowed for campaign test sends
+  LISTMONK_OPS_ABTEST_CONVERSION_STORE
+                               File-backed A/B conversion event path
+  LISTMONK_OPS_ABTEST_CONVERSION_DATABASE_URL
+                               Postgres A/B conversion event URL (exclusive with file store)
+  LISTMONK_OPS_ABTEST_CONVERSION_SECRET
+                               HMAC secret enabling signed POST /abtest/conversions (HTTP only)
+  LISTMONK_OPS_SEQUENCE_EVENT_SECRET
+                               HMAC secret enabling signed POST /sequences/events (HTTP only)
 `);
 }
 
@@ -314,6 +334,15 @@ export async function main() {
 			transport === "http"
 				? parseCommaSeparatedEnv(process.env.MCP_HTTP_ALLOWED_ORIGINS)
 				: [],
+		conversionIngestSecret:
+			transport === "http"
+				? process.env.LISTMONK_OPS_ABTEST_CONVERSION_SECRET?.trim() ||
+					undefined
+				: undefined,
+		sequenceEventIngestSecret:
+			transport === "http"
+				? process.env.LISTMONK_OPS_SEQUENCE_EVENT_SECRET?.trim() || undefined
+				: undefined,
 	};
 
 	// Validate required config
@@ -1,17 +1,22 @@
 import { abTestOperationCatalog } from "@listmonk-ops/abtest";
 import {
 	opsOperationCatalog,
+	playbookRunOperationCatalog,
 	providerOperationCatalog,
 	sequenceOperationCatalog,
+	suppressionOperationCatalog,
 	webhookOperationCatalog,
 } from "@listmonk-ops/automation";
 import {
+	bounceOperationCatalog,
 	campaignOperationCatalog,
 	composeOperationCatalogs,
 	discoveryOperationCatalog,
 	listOperationCatalog,
 	listOperationCatalogSummaries,
 	mediaOperationCatalog,
+	settingsOperationCatalog,
+	subscriberImportOperationCatalog,
 	subscriberOperationCatalog,
 	templateOperationCatalog,
 	transactionalOperationCatalog,
@@ -28,10 +33,15 @@ export const mcpOperationCatalog = composeOperationCatalogs([
 	opsOperationCatalog,
 	abTestOperationCatalog,
 	discoveryOperationCatalog,
+	playbookRunOperationCatalog,
 	webhookOperationCatalog,
 	sequenceOperationCatalog,
 	providerOperationCatalog,
 	userRoleOperationCatalog,
+	subscriberImportOperationCatalog,
+	bounceOperationCatalog,
+	settingsOperationCatalog,
+	suppressionOperationCatalog,
 ]);
 
 export function listMcpOperationCatalogSummaries(
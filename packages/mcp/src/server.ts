@@ -8,12 +8,49 @@ import {
 	enqueueSuccessfulOperationLifecycleEvents,
 	getOutboundWebhookStoreOptionsFromEnvironment,
 	getSequenceRepositoryFromEnvironment,
+	InboundProviderAuthenticationError,
+	InboundProviderPayloadError,
+	ingestInboundProviderRequest,
+	ingestInboundSequenceTriggerEvents,
+	invokeSequenceEngagementRecordOperation,
+	invokeSequenceEventsIngestOperation,
+	invokeSuppressionApplyOperation,
+	loadOperationPlaybooks,
+	loadProviderProfiles,
+	loadSuppressionPolicies,
+	MAX_INBOUND_PROVIDER_PAYLOAD_BYTES,
+	MAX_SUPPRESSION_POLICY_EVENTS,
 	recordOperationAuditWithLifecycle,
+	sequenceEngagementRecordOperation,
+	sequenceEventsIngestOperation,
+	suppressionApplyOperation,
+	toSuppressionEvents,
+	verifyOutboundWebhookSignature,
+	type IngestInboundDeliveryEventInput,
 	type OutboundWebhookStoreOptions,
+	type PlaybookRunOperationContext,
+	type ProviderProfile,
+	type SequenceRepository,
+	type SuppressionPolicy,
+	type SuppressionPolicyReport,
 } from "@listmonk-ops/automation";
+import {
+	invokeRecordAbTestConversionsOperation,
+	recordAbTestConversionsOperation,
+} from "@listmonk-ops/abtest";
 import type { ListmonkClient } from "@listmonk-ops/openapi";
 import { createListmonkClient } from "@listmonk-ops/openapi";
-import { assertOperationConfirmation } from "@listmonk-ops/operations";
+import {
+	assertOperationConfirmation,
+	getOperationCatalogEntryById,
+	OperationInputError,
+} from "@listmonk-ops/operations";
+import {
+	type EmailOperationsSpec,
+	emailOperationsSpec,
+	type OperationPlaybook,
+	withOperationPlaybooks,
+} from "@listmonk-ops/operations/specs";
 import type { Context } from "hono";
 import { Hono } from "hono";
 import { cors } from "hono/cors";
@@ -32,13 +69,17 @@ import {
 	handleMediaTools,
 	handleOpsTools,
 	handleProviderTools,
+	handleSettingsManifestTools,
 	handleSettingsTools,
+	handleSubscriberImportsTools,
 	handleSubscribersTools,
+	handleSuppressionTools,
 	handleTemplatesTools,
 	handleTransactionalTools,
 	handleUserRolesTools,
 	createWebhookToolsHandler,
 	createSequenceToolsHandler,
+	createPlaybookRunToolsHandler,
 	isListsToolName,
 	isTransactionalToolName,
 	toolNameSets,
@@ -51,15 +92,32 @@ import type {
 	ListToolsResult,
 	MCPTool,
 } from "./types/mcp.js";
+import { mcpOperationCatalog } from "./operation-catalog.js";
 import {
 	assertMcpOperationDryRun,
 	getMcpOperationExecution,
+	MCP_OPERATION_CONFIRMATION_ARGUMENT,
 	type McpOperationExecution,
 } from "./operation-execution.js";
 import { createErrorResult, toErrorMessage } from "./utils/response.js";
 import { createMCPProtocolServer, MCP_SERVER_INFO } from "./protocol.js";
 
 const LOOPBACK_HOSTNAMES = new Set(["localhost", "127.0.0.1", "::1"]);
+const CONVERSION_INGEST_PATH = "/abtest/conversions";
+const MAX_SIGNED_INGEST_BYTES = 1_048_576;
+const INBOUND_PROVIDER_PATH = "/inbound/:providerId";
+const SEQUENCE_EVENT_INGEST_PATH = "/sequences/events";
+const SEQUENCE_ENGAGEMENT_INGEST_PATH = "/sequences/engagement";
+
+type ProviderProfilesSource =
+	| readonly ProviderProfile[]
+	| (() => Promise<readonly ProviderProfile[]>);
+type SuppressionPoliciesSource =
+	| readonly SuppressionPolicy[]
+	| (() => Promise<readonly SuppressionPolicy[]>);
+type OperationPlaybooksSource =
+	| readonly OperationPlaybook[]
+	| (() => Promise<readonly OperationPlaybook[]>);
 
 function normalizeHostname(hostname: string): string {
 	return hostname
@@ -178,6 +236,14 @@ export class ListmonkMCPServer {
 	private allowedHttpOrigins: Set<string>;
 	private webhookHandler: ReturnType<typeof createWebhookToolsHandler>;
 	private sequenceHandler: ReturnType<typeof createSequenceToolsHandler>;
+	private playbookRunContext: PlaybookRunOperationContext;
+	private sequenceRepository: SequenceRepository;
+	private conversionIngestSecret: string | undefined;
+	private sequenceEventIngestSecret: string | undefined;
+	private providerProfiles: ProviderProfilesSource | undefined;
+	private suppressionPolicies: SuppressionPoliciesSource | undefined;
+	private playbooks: OperationPlaybooksSource | undefined;
+	private reportedPlaybookDiagnostics = "";
 
 	constructor(config: {
 		baseUrl: string;
@@ -193,6 +259,11 @@ export class ListmonkMCPServer {
 		httpAuthToken?: string;
 		allowedHttpHosts?: readonly string[];
 		allowedHttpOrigins?: readonly string[];
+		conversionIngestSecret?: string;
+		sequenceEventIngestSecret?: string;
+		providerProfiles?: ProviderProfilesSource;
+		suppressionPolicies?: SuppressionPoliciesSource;
+		playbooks?: OperationPlaybooksSource;
 	}) {
 		this.app = new Hono();
 		this.tools = new Map();
@@ -214,17 +285,29 @@ export class ListmonkMCPServer {
 		this.webhookHandler = createWebhookToolsHandler({
 			store: this.webhookStoreOptions,
 		});
+		this.sequenceRepository = getSequenceRepositoryFromEnvironment({
+			path: config.sequenceStorePath,
+			databaseUrl: config.sequenceDatabaseUrl,
+		});
 		this.sequenceHandler = createSequenceToolsHandler({
-			repository: getSequenceRepositoryFromEnvironment({
-				path: config.sequenceStorePath,
-				databaseUrl: config.sequenceDatabaseUrl,
-			}),
+			repository: this.sequenceRepository,
+			webhookStore: this.webhookStoreOptions,
 			target: {
 				baseUrl: this.baseUrl,
 				username: this.username,
 			},
 		});
+		this.playbookRunContext = {
+			executeStep: (operationId, input, options) =>
+				this.executePlaybookStep(operationId, input, options.confirmed),
+		};
 		this.httpAuthToken = config.httpAuthToken;
+		this.conversionIngestSecret = config.conversionIngestSecret || undefined;
+		this.sequenceEventIngestSecret =
+			config.sequenceEventIngestSecret || undefined;
+		this.providerProfiles = config.providerProfiles;
+		this.suppressionPolicies = config.suppressionPolicies;
+		this.playbooks = config.playbooks;
 		this.allowedHttpHosts = new Set(
 			(config.allowedHttpHosts ?? []).map(normalizeAllowedHost),
 		);
@@ -355,6 +438,412 @@ export class ListmonkMCPServer {
 		}
 	}
 
+	/**
+	 * Verify and parse a signed event batch. Requests are authenticated with
+	 * the same `v1=` HMAC-SHA256 signature over `<timestamp>.<body>` used for
+	 * outbound webhooks, so signed ingest routes do not require the MCP bearer
+	 * token. Returns an error response, or the batch input.
+	 */
+	private async readSignedEventBatch(
+		request: Request,
+		secret: string,
+	): Promise<Response | { input: unknown }> {
+		const declaredLength = Number(request.headers.get("Content-Length"));
+		if (declaredLength > MAX_SIGNED_INGEST_BYTES) {
+			return Response.json({ error: "Payload too large" }, { status: 413 });
+		}
+		const body = await request.text();
+		if (Buffer.byteLength(body, "utf8") > MAX_SIGNED_INGEST_BYTES) {
+			return Response.json({ error: "Payload too large" }, { status: 413 });
+		}
+		if (
+			!verifyOutboundWebhookSignature({
+				secret,
+				timestamp: request.headers.get("X-Listmonk-Ops-Timestamp") ?? "",
+				body,
+				signature: request.headers.get("X-Listmonk-Ops-Signature") ?? "",
+			})
+		) {
+			return Response.json({ error: "Invalid signature" }, { status: 401 });
+		}
+
+		let payload: unknown;
+		try {
+			payload = JSON.parse(body);
+		} catch {
+			return Response.json({ error: "Invalid JSON body" }, { status: 400 });
+		}
+		// Accept either one event object or an `{ events: [...] }` batch.
+		return {
+			input:
+				payload && typeof payload === "object" && !Array.isArray(payload) &&
+				!("events" in payload)
+					? { events: [payload] }
+					: payload,
+		};
+	}
+
+	private async respondToSignedIngest(
+		invoke: () => Promise<unknown>,
+	): Promise<Response> {
+		try {
+			return Response.json(await invoke());
+		} catch (error) {
+			// Input errors are permanent; anything else (an unavailable store)
+			// is reported as retryable so the sender redelivers the same events.
+			return Response.json(
+				{ error: toErrorMessage(error) },
+				{ status: error instanceof OperationInputError ? 400 : 503 },
+			);
+		}
+	}
+
+	/**
+	 * Run a signed ingest operation under the audit its spec requires. The
+	 * route signature authenticates the sender but is not a confirmation, so
+	 * each batch is audited as an unconfirmed MCP execution. A started event
+	 * that cannot be persisted fails the request as retryable.
+	 */
+	private async invokeAuditedIngest<Result>(
+		operationId: string,
+		invoke: () => Promise<Result>,
+	): Promise<Result> {
+		const executionId = createOperationAuditExecutionId();
+		const audit = (event: OperationAuditEvent) =>
+			recordOperationAuditWithLifecycle(
+				{
+					executionId,
+					surface: "mcp",
+					operationId,
+					event,
+					confirmationRequired: false,
+					confirmed: false,
+					dryRun: false,
+				},
+				{
+					audit: this.auditStoreOptions,
+					webhook: this.webhookStoreOptions,
+					onLifecycleError: (error) =>
+						console.error(
+							`Unable to enqueue ${operationId} lifecycle event: ${toErrorMessage(error)}`,
+						),
+				},
+			);
+
+		await audit("started");
+		let result: Result;
+		try {
+			result = await invoke();
+		} catch (error) {
+			await audit("failed").catch((auditError: unknown) =>
+				console.error(
+					`Unable to record failed ${operationId} audit event: ${toErrorMessage(auditError)}`,
+				),
+			);
+			throw error;
+		}
+		try {
+			await audit("succeeded");
+		} catch (error) {
+			// The started event already makes the ingested batch traceable.
+			console.error(
+				`Unable to record ${operationId} audit event: ${toErrorMessage(error)}`,
+			);
+		}
+		return result;
+	}
+
+	/**
+	 * Record conversions posted by a trusted backend such as a checkout
+	 * service.
+	 */
+	private async handleConversionIngest(request: Request): Promise<Response> {
+		const secret = this.conversionIngestSecret;
+		if (!secret) {
+			return Response.json({ error: "Not found" }, { status: 404 });
+		}
+		const batch = await this.readSignedEventBatch(request, secret);
+		if (batch instanceof Response) return batch;
+		return this.respondToSignedIngest(() =>
+			this.invokeAuditedIngest(recordAbTestConversionsOperation.id, () =>
+				invokeRecordAbTestConversionsOperation(
+					{ client: this.client },
+					batch.input,
+				),
+			),
+		);
+	}
+
+	/**
+	 * Queue custom events for `custom_event` sequence triggers. The sequence
+	 * worker enrolls matching subscribers on its next tick.
+	 */
+	private async handleSequenceEventIngest(request: Request): Promise<Response> {
+		const secret = this.sequenceEventIngestSecret;
+		if (!secret) {
+			return Response.json({ error: "Not found" }, { status: 404 });
+		}
+		const batch = await this.readSignedEventBatch(request, secret);
+		if (batch instanceof Response) return batch;
+		return this.respondToSignedIngest(() =>
+			this.invokeAuditedIngest(sequenceEventsIngestOperation.id, () =>
+				invokeSequenceEventsIngestOperation(
+					{ repository: this.sequenceRepository },
+					batch.input,
+				),
+			),
+		);
+	}
+
+	/**
+	 * Record opens and clicks of sequence messages for engagement conditions.
+	 * Shares the sequence event secret because both come from the same
+	 * application-side tracker.
+	 */
+	private async handleSequenceEngagementIngest(
+		request: Request,
+	): Promise<Response> {
+		const secret = this.sequenceEventIngestSecret;
+		if (!secret) {
+			return Response.json({ error: "Not found" }, { status: 404 });
+		}
+		const batch = await this.readSignedEventBatch(request, secret);
+		if (batch instanceof Response) return batch;
+		return this.respondToSignedIngest(() =>
+			this.invokeAuditedIngest(sequenceEngagementRecordOperation.id, () =>
+				invokeSequenceEngagementRecordOperation(
+					{ repository: this.sequenceRepository },
+					batch.input,
+				),
+			),
+		);
+	}
+
+	private async loadProviderProfiles(): Promise<readonly ProviderProfile[]> {
+		if (Array.isArray(this.providerProfiles)) return this.providerProfiles;
+		if (typeof this.providerProfiles === "function") {
+			return this.providerProfiles();
+		}
+		return loadProviderProfiles();
+	}
+
+	/**
+	 * Reloaded per call so playbook file edits apply without a restart.
+	 * Invalid files are skipped and logged once until the problems change.
+	 */
+	private async loadOperationsSpec(): Promise<EmailOperationsSpec> {
+		let playbooks: readonly OperationPlaybook[];
+		if (Array.isArray(this.playbooks)) {
+			playbooks = this.playbooks;
+		} else if (typeof this.playbooks === "function") {
+			playbooks = await this.playbooks();
+		} else {
+			const loaded = await loadOperationPlaybooks({
+				parseYaml: (text) => Bun.YAML.parse(text),
+			});
+			const messages = loaded.diagnostics.map(({ message }) => message);
+			const key = messages.join("\n");
+			if (key !== this.reportedPlaybookDiagnostics) {
+				this.reportedPlaybookDiagnostics = key;
+				for (const message of messages) {
+					console.error(message);
+				}
+			}
+			playbooks = loaded.playbooks;
+		}
+		return withOperationPlaybooks(emailOperationsSpec, playbooks);
+	}
+
+	private async loadSuppressionPolicies(): Promise<
+		readonly SuppressionPolicy[]
+	> {
+		if (Array.isArray(this.suppressionPolicies)) {
+			return this.suppressionPolicies;
+		}
+		if (typeof this.suppressionPolicies === "function") {
+			return this.suppressionPolicies();
+		}
+		return loadSuppressionPolicies();
+	}
+
+	/**
+	 * Apply the provider's suppression policy to freshly ingested events. A
+	 * configured policy is the operator's standing confirmation, so each run
+	 * is audited as a confirmed MCP execution of `suppressions.apply`.
+	 */
+	private async applyInboundSuppressionPolicy(
+		providerId: string,
+		events: readonly IngestInboundDeliveryEventInput[],
+	): Promise<SuppressionPolicyReport | undefined> {
+		let policies: readonly SuppressionPolicy[];
+		try {
+			policies = await this.loadSuppressionPolicies();
+		} catch (error) {
+			// A broken policy file is an operator fault; keep it retryable
+			// instead of letting the provider drop the events as malformed.
+			throw new Error(
+				`Suppression policy config is unavailable: ${toErrorMessage(error)}`,
+				{ cause: error },
+			);
+		}
+		if (
+			events.length === 0 ||
+			!policies.some((policy) => policy.provider_id === providerId)
+		) {
+			return undefined;
+		}
+		const executionId = createOperationAuditExecutionId();
+		const audit = (event: OperationAuditEvent) =>
+			recordOperationAuditWithLifecycle(
+				{
+					executionId,
+					surface: "mcp",
+					operationId: suppressionApplyOperation.id,
+					event,
+					confirmationRequired: true,
+					confirmed: true,
+					dryRun: false,
+				},
+				{
+					audit: this.auditStoreOptions,
+					webhook: this.webhookStoreOptions,
+					onLifecycleError: (error) =>
+						console.error(
+							`Unable to enqueue suppression lifecycle event: ${toErrorMessage(error)}`,
+						),
+				},
+			);
+
+		await audit("started");
+		const suppressionEvents = toSuppressionEvents(events);
+		let report: SuppressionPolicyReport | undefined;
+		try {
+			for (
+				let offset = 0;
+				offset < suppressionEvents.length;
+				offset += MAX_SUPPRESSION_POLICY_EVENTS
+			) {
+				const chunk = await invokeSuppressionApplyOperation(
+					{ client: this.client, policies },
+					{
+						provider_id: providerId,
+						events: suppressionEvents.slice(
+							offset,
+							offset + MAX_SUPPRESSION_POLICY_EVENTS,
+						),
+						dry_run: false,
+					},
+				);
+				report = report
+					? {
+							...report,
+							evaluated: report.evaluated + chunk.evaluated,
+							actions: [...report.actions, ...chunk.actions],
+							skipped: [...report.skipped, ...chunk.skipped],
+							blocklisted: report.blocklisted + chunk.blocklisted,
+							removed_from_lists:
+								report.removed_from_lists + chunk.removed_from_lists,
+						}
+					: chunk;
+			}
+		} catch (error) {
+			await audit("failed").catch((auditError: unknown) =>
+				console.error(
+					`Unable to record failed suppression audit event: ${toErrorMessage(auditError)}`,
+				),
+			);
+			throw error;
+		}
+		try {
+			await audit("succeeded");
+		} catch (error) {
+			// The started event already makes the applied suppression traceable.
+			console.error(
+				`Unable to record suppression audit event: ${toErrorMessage(error)}`,
+			);
+		}
+		return report;
+	}
+
+	/**
+	 * Accept raw delivery webhooks from a provider configured with an
+	 * `inbound` adapter. Each adapter verifies the provider's own signature or
+	 * credentials, so the route does not require the MCP bearer token. When
+	 * a suppression policy is configured for the profile, it is applied to the
+	 * ingested events before the provider is acknowledged. Events that match
+	 * an `inbound_delivery` sequence trigger are queued for the sequence worker.
+	 */
+	private async handleInboundProviderEvents(
+		request: Request,
+		providerId: string,
+	): Promise<Response> {
+		let profile: ProviderProfile | undefined;
+		try {
+			profile = (await this.loadProviderProfiles()).find(
+				(candidate) => candidate.id === providerId,
+			);
+		} catch (error) {
+			return Response.json(
+				{ error: toErrorMessage(error) },
+				{ status: 503 },
+			);
+		}
+		if (!profile?.inbound) {
+			return Response.json({ error: "Not found" }, { status: 404 });
+		}
+		const declaredLength = Number(request.headers.get("Content-Length"));
+		if (declaredLength > MAX_INBOUND_PROVIDER_PAYLOAD_BYTES) {
+			return Response.json({ error: "Payload too large" }, { status: 413 });
+		}
+		const body = await request.text();
+		if (Buffer.byteLength(body, "utf8") > MAX_INBOUND_PROVIDER_PAYLOAD_BYTES) {
+			return Response.json({ error: "Payload too large" }, { status: 413 });
+		}
+
+		try {
+			let suppression: SuppressionPolicyReport | undefined;
+			const result = await ingestInboundProviderRequest(
+				profile,
+				{ headers: request.headers, body },
+				{
+					store: this.webhookStoreOptions,
+					afterIngest: async (events) => {
+						suppression = await this.applyInboundSuppressionPolicy(
+							providerId,
+							events,
+						);
+						await ingestInboundSequenceTriggerEvents(
+							this.sequenceRepository,
+							events,
+							new Date(),
+						);
+					},
+				},
+			);
+			return Response.json(
+				suppression === undefined ? result : { ...result, suppression },
+			);
+		} catch (error) {
+			// Providers retry non-2xx responses, so only failures that a retry
+			// could fix (missing credentials, an unavailable store or Listmonk)
+			// are 503. Ingestion and suppression are both idempotent per event.
+			if (error instanceof InboundProviderAuthenticationError) {
+				return Response.json({ error: error.message }, { status: 401 });
+			}
+			return Response.json(
+				{ error: toErrorMessage(error) },
+				{
+					status:
+						error instanceof InboundProviderPayloadError ||
+						error instanceof TypeError ||
+						error instanceof RangeError
+							? 400
+							: 503,
+				},
+			);
+		}
+	}
+
 	private setupRoutes() {
 		// Health check
 		this.app.get("/health", (c: Context) => {
@@ -386,6 +875,27 @@ export class ListmonkMCPServer {
 			return this.handleMCPHttpRequest(c.req.raw);
 		});
 
+		// Signed conversion ingest for A/B attribution.
+		this.app.post(CONVERSION_INGEST_PATH, (c: Context) =>
+			this.handleConversionIngest(c.req.raw),
+		);
+
+		// Signed custom events for sequence triggers.
+		this.app.post(SEQUENCE_EVENT_INGEST_PATH, (c: Context) =>
+			this.handleSequenceEventIngest(c.req.raw),
+		);
+		this.app.post(SEQUENCE_ENGAGEMENT_INGEST_PATH, (c: Context) =>
+			this.handleSequenceEngagementIngest(c.req.raw),
+		);
+
+		// Provider-native delivery events keyed by provider profile id.
+		this.app.post(INBOUND_PROVIDER_PATH, (c: Context) =>
+			this.handleInboundProviderEvents(
+				c.req.raw,
+				c.req.param("providerId") ?? "",
+			),
+		);
+
 		// Root endpoint
 		this.app.get("/", (c: Context) => {
 			return c.json({
@@ -397,6 +907,16 @@ export class ListmonkMCPServer {
 					tools_list: "/tools/list",
 					tools_call: "/tools/call",
 					mcp: "/mcp",
+					...(this.conversionIngestSecret
+						? { abtest_conversions: CONVERSION_INGEST_PATH }
+						: {}),
+					...(this.sequenceEventIngestSecret
+						? {
+								sequence_events: SEQUENCE_EVENT_INGEST_PATH,
+								sequence_engagement: SEQUENCE_ENGAGEMENT_INGEST_PATH,
+							}
+						: {}),
+					inbound_provider_events: INBOUND_PROVIDER_PATH,
 				},
 				tools_count: this.tools.size,
 			});
@@ -538,16 +1058,29 @@ export class ListmonkMCPServer {
 					this.client,
 				);
 			} else if (toolNameSets.discovery.has(name)) {
-				result = await handleDiscoveryTools(operationRequest, this.client, {
-					url: this.baseUrl,
-					auth: "token",
+				result = await handleDiscoveryTools(
+					operationRequest,
+					this.client,
+					{ url: this.baseUrl, auth: "token" },
+					await this.loadOperationsSpec(),
+				);
+			} else if (toolNameSets.playbookRuns.has(name)) {
+				const handlePlaybookRuns = createPlaybookRunToolsHandler({
+					...this.playbookRunContext,
+					playbooks: (await this.loadOperationsSpec()).playbooks,
 				});
+				result = await handlePlaybookRuns(operationRequest, this.client);
 			} else if (toolNameSets.media.has(name)) {
 				result = await handleMediaTools(operationRequest, this.client);
 			} else if (toolNameSets.bounces.has(name)) {
 				result = await handleBouncesTools(operationRequest, this.client);
 			} else if (toolNameSets.settings.has(name)) {
 				result = await handleSettingsTools(operationRequest, this.client);
+			} else if (toolNameSets.settingsManifest.has(name)) {
+				result = await handleSettingsManifestTools(
+					operationRequest,
+					this.client,
+				);
 			} else if (isTransactionalToolName(name)) {
 				result = await handleTransactionalTools(operationRequest, this.client, {
 					baseUrl: this.baseUrl,
@@ -557,6 +1090,8 @@ export class ListmonkMCPServer {
 				result = await handleOpsTools(operationRequest, this.client);
 			} else if (toolNameSets.providers.has(name)) {
 				result = await handleProviderTools(operationRequest, this.client);
+			} else if (toolNameSets.suppressions.has(name)) {
+				result = await handleSuppressionTools(operationRequest, this.client);
 			} else if (toolNameSets.abtest.has(name)) {
 				result = await handleAbTestTools(operationRequest, this.client);
 			} else if (toolNameSets.webhooks.has(name)) {
@@ -565,6 +1100,11 @@ export class ListmonkMCPServer {
 				result = await this.sequenceHandler(operationRequest, this.client);
 			} else if (toolNameSets.userRoles.has(name)) {
 				result = await handleUserRolesTools(operationRequest, this.client);
+			} else if (toolNameSets.subscriberImports.has(name)) {
+				result = await handleSubscriberImportsTools(
+					operationRequest,
+					this.client,
+				);
 			} else {
 				result = createErrorResult(`No handler found for tool: ${name}`);
 			}
@@ -586,6 +1126,45 @@ export class ListmonkMCPServer {
 		}
 	}
 
+	/**
+	 * Playbook steps go through `callTool`, so each step gets its own audit
+	 * record and confirmation check. Only approved steps carry `confirm`.
+	 */
+	private async executePlaybookStep(
+		operationId: string,
+		input: Readonly<Record<string, unknown>>,
+		confirmed: boolean,
+	): Promise<unknown> {
+		const entry = getOperationCatalogEntryById(
+			mcpOperationCatalog,
+			operationId,
+		);
+		if (!entry) {
+			throw new Error(`Operation is not available over MCP: ${operationId}`);
+		}
+		const result = await this.callTool({
+			method: "tools/call",
+			params: {
+				name: entry.operation.mcp.name,
+				arguments: {
+					...input,
+					...(confirmed
+						? { [MCP_OPERATION_CONFIRMATION_ARGUMENT]: true }
+						: {}),
+				},
+			},
+		});
+		if (result.isError) {
+			const [content] = result.content;
+			throw new Error(
+				content?.type === "text"
+					? content.text.replace(/^Error: /, "")
+					: `Operation ${operationId} failed`,
+			);
+		}
+		return result.structuredContent;
+	}
+
 	getApp() {
 		return this.app;
 	}
@@ -656,6 +1235,11 @@ export function createListmonkMCPServer(config: {
 	httpAuthToken?: string;
 	allowedHttpHosts?: readonly string[];
 	allowedHttpOrigins?: readonly string[];
+	conversionIngestSecret?: string;
+	sequenceEventIngestSecret?: string;
+	providerProfiles?: ProviderProfilesSource;
+	suppressionPolicies?: SuppressionPoliciesSource;
+	playbooks?: OperationPlaybooksSource;
 }) {
 	return new ListmonkMCPServer({
 		baseUrl: config.baseUrl,
@@ -671,5 +1255,10 @@ export function createListmonkMCPServer(config: {
 		httpAuthToken: config.httpAuthToken,
 		allowedHttpHosts: config.allowedHttpHosts,
 		allowedHttpOrigins: config.allowedHttpOrigins,
+		conversionIngestSecret: config.conversionIngestSecret,
+		sequenceEventIngestSecret: config.sequenceEventIngestSecret,
+		providerProfiles: config.providerProfiles,
+		suppressionPolicies: config.suppressionPolicies,
+		playbooks: config.playbooks,
 	});
 }
@@ -187,7 +187,7 @@ describe("operation catalog MCP adapter", () => {
 			"auditRequired",
 			"dryRunSupported",
 		]);
-		expect(mcpOperationCatalog.entries).toHaveLength(104);
+		expect(mcpOperationCatalog.entries).toHaveLength(132);
 		expect(listMcpOperationCatalogSummaries("ops")).toHaveLength(9);
 		expect(listMcpOperationCatalogSummaries("media")).toHaveLength(4);
 		expect(
@@ -249,7 +249,7 @@ describe("operation catalog MCP adapter", () => {
 		const cliOutput = runCliOperationCatalog("campaigns");
 		const mcpOutput = await callMcpOperationCatalog("campaigns");
 
-		expect(cliOutput.operations).toHaveLength(11);
+		expect(cliOutput.operations).toHaveLength(14);
 		expect(stableCatalogFields(cliOutput)).toEqual(
 			stableCatalogFields(mcpOutput),
 		);
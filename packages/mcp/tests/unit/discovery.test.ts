@@ -1,5 +1,10 @@
 import { describe, expect, test } from "bun:test";
 import type { ListmonkClient } from "@listmonk-ops/openapi";
+import {
+	defineOperationPlaybook,
+	emailOperationsSpec,
+	withOperationPlaybooks,
+} from "@listmonk-ops/operations/specs";
 import { dirname, resolve } from "node:path";
 import { fileURLToPath } from "node:url";
 import {
@@ -102,6 +107,48 @@ describe("agent discovery MCP adapter", () => {
 		expect(mcpCapabilities.structuredContent).toEqual(cliCapabilities);
 	});
 
+	test("lists and searches user playbooks from the loaded spec", async () => {
+		const spec = withOperationPlaybooks(emailOperationsSpec, [
+			defineOperationPlaybook({
+				id: "team.list-audit",
+				title: "List audit",
+				goal: "Review every mailing list before the quarterly cleanup.",
+				inputs: [],
+				steps: [
+					{
+						id: "lists",
+						operation: "lists.list",
+						approval: "none",
+						description: "Read mailing lists.",
+						dependsOn: [],
+						input: [],
+					},
+				],
+				recoveryOperation: "lists.list",
+			}),
+		]);
+		const listed = await handleDiscoveryTools(
+			request("listmonk_list_playbooks"),
+			healthyClient,
+			undefined,
+			spec,
+		);
+		expect(listed.structuredContent?.playbooks).toContainEqual(
+			expect.objectContaining({ id: "team.list-audit", source: "user" }),
+		);
+
+		const search = await handleDiscoveryTools(
+			request("listmonk_schema_search", { query: "quarterly cleanup" }),
+			healthyClient,
+			undefined,
+			spec,
+		);
+		expect(search.structuredContent).toMatchObject({
+			total: 0,
+			playbooks: [{ id: "team.list-audit", source: "user" }],
+		});
+	});
+
 	test("reports MCP readiness and validates lookup input", async () => {
 		const status = await handleDiscoveryTools(
 			request("listmonk_status"),
@@ -1,4 +1,15 @@
-import { describe, expect, test } from "bun:test";
+import { afterEach, describe, expect, test } from "bun:test";
+import { createHmac } from "node:crypto";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { saveStoredAbTests } from "@listmonk-ops/abtest";
+import { listOperationAuditEntries } from "@listmonk-ops/common";
+import {
+	providerProfileSchema,
+	signOutboundWebhookPayload,
+	suppressionPolicySchema,
+} from "@listmonk-ops/automation";
 import { LATEST_PROTOCOL_VERSION } from "@modelcontextprotocol/sdk/types.js";
 import { createListmonkMCPServer } from "../../src/server.js";
 
@@ -26,6 +37,56 @@ function listToolsRequest(
 	});
 }
 
+function signedConversionRequest(
+	server: ReturnType<typeof createServer>,
+	payload: unknown,
+	secret = "conversion-secret",
+	path = "/abtest/conversions",
+) {
+	const body = JSON.stringify(payload);
+	const timestamp = new Date().toISOString();
+	return server.getApp().request(`http://localhost${path}`, {
+		method: "POST",
+		headers: {
+			"Content-Type": "application/json",
+			"X-Listmonk-Ops-Timestamp": timestamp,
+			"X-Listmonk-Ops-Signature": signOutboundWebhookPayload(
+				secret,
+				timestamp,
+				body,
+			),
+		},
+		body,
+	});
+}
+
+let tempDir: string | undefined;
+const previousEnv = {
+	store: process.env.LISTMONK_OPS_ABTEST_STORE,
+	conversions: process.env.LISTMONK_OPS_ABTEST_CONVERSION_STORE,
+	mailgun: process.env.LISTMONK_OPS_TEST_MAILGUN_KEY,
+	suppressionLedger: process.env.LISTMONK_OPS_SUPPRESSION_LEDGER,
+};
+
+afterEach(async () => {
+	for (const [name, value] of [
+		["LISTMONK_OPS_ABTEST_STORE", previousEnv.store],
+		["LISTMONK_OPS_ABTEST_CONVERSION_STORE", previousEnv.conversions],
+		["LISTMONK_OPS_TEST_MAILGUN_KEY", previousEnv.mailgun],
+		["LISTMONK_OPS_SUPPRESSION_LEDGER", previousEnv.suppressionLedger],
+	] as const) {
+		if (value === undefined) {
+			delete process.env[name];
+		} else {
+			process.env[name] = value;
+		}
+	}
+	if (tempDir) {
+		await rm(tempDir, { recursive: true, force: true });
+		tempDir = undefined;
+	}
+});
+
 describe("MCP HTTP transport boundary", () => {
 	test("rejects untrusted hosts and origins while reflecting loopback CORS", async () => {
 		const server = createServer();
@@ -105,7 +166,7 @@ describe("MCP HTTP transport boundary", () => {
 			Authorization: "Bearer http-test-secret",
 		});
 		expect(authorized.status).toBe(200);
-		expect((await authorized.json()).tools).toHaveLength(124);
+		expect((await authorized.json()).tools).toHaveLength(147);
 	});
 
 	test("serves a stateless MCP initialize request and closes the request server", async () => {
@@ -177,4 +238,259 @@ describe("MCP HTTP transport boundary", () => {
 		const remoteListener = await remoteServer.listen(0, "0.0.0.0");
 		remoteListener.stop(true);
 	});
+
+	test("accepts signed conversion events only when ingest is configured", async () => {
+		tempDir = await mkdtemp(join(tmpdir(), "listmonk-ops-mcp-conversions-"));
+		process.env.LISTMONK_OPS_ABTEST_STORE = join(tempDir, "abtests.json");
+		process.env.LISTMONK_OPS_ABTEST_CONVERSION_STORE = join(
+			tempDir,
+			"conversions.json",
+		);
+		const launchedAt = new Date("2026-01-01T00:00:00.000Z");
+		await saveStoredAbTests([
+			{
+				id: "test-1",
+				name: "Ingest",
+				campaignId: "campaign-1",
+				variants: [
+					{ id: "variant-a", name: "A", percentage: 50, contentOverrides: {} },
+					{ id: "variant-b", name: "B", percentage: 50, contentOverrides: {} },
+				],
+				status: "running",
+				metrics: [],
+				createdAt: launchedAt,
+				updatedAt: launchedAt,
+				startedAt: launchedAt,
+				baseConfig: { subject: "Subject", body: "Body", lists: [1] },
+				testingMode: "holdout",
+				testGroupPercentage: 10,
+				testGroupSize: 10,
+				holdoutGroupSize: 90,
+				confidenceThreshold: 0.95,
+				autoDeployWinner: false,
+				campaignMappings: [],
+				testListMappings: [],
+			},
+		]);
+		const event = {
+			event_id: "evt-1",
+			test_id: "test-1",
+			variant_id: "variant-a",
+			subscriber_uuid: "00000000-0000-4000-8000-000000000001",
+			event: "purchase",
+			occurred_at: "2026-01-02T00:00:00.000Z",
+		};
+
+		const disabled = await signedConversionRequest(createServer(), event);
+		expect(disabled.status).toBe(404);
+
+		const auditStorePath = join(tempDir, "audit.json");
+		const server = createServer({
+			auditStorePath,
+			conversionIngestSecret: "conversion-secret",
+		});
+		const forged = await signedConversionRequest(server, event, "wrong-secret");
+		expect(forged.status).toBe(401);
+
+		const invalid = await signedConversionRequest(server, { events: [] });
+		expect(invalid.status).toBe(400);
+
+		const recorded = await signedConversionRequest(server, event);
+		expect(recorded.status).toBe(200);
+		expect(await recorded.json()).toMatchObject({
+			recorded: 1,
+			duplicates: 0,
+			rejected: 0,
+		});
+
+		const replayed = await signedConversionRequest(server, { events: [event] });
+		expect(await replayed.json()).toMatchObject({ recorded: 0, duplicates: 1 });
+
+		// Forged requests never reach the operation; the rest are audited.
+		const entries = await listOperationAuditEntries({ path: auditStorePath });
+		expect(
+			entries.map(({ operationId, event, confirmed }) => [
+				operationId,
+				event,
+				confirmed,
+			]),
+		).toEqual([
+			["abtest.conversion.record", "started", false],
+			["abtest.conversion.record", "failed", false],
+			["abtest.conversion.record", "started", false],
+			["abtest.conversion.record", "succeeded", false],
+			["abtest.conversion.record", "started", false],
+			["abtest.conversion.record", "succeeded", false],
+		]);
+		expect(entries[0]?.executionId).toBe(entries[1]?.executionId);
+	});
+
+	test("queues signed custom events for sequence triggers", async () => {
+		tempDir = await mkdtemp(join(tmpdir(), "listmonk-ops-mcp-seq-events-"));
+		const sequenceStorePath = join(tempDir, "sequences.json");
+		const event = { name: "trial.started", subscriber_id: 7, id: "evt-1" };
+		const send = (
+			server: ReturnType<typeof createServer>,
+			payload: unknown,
+			secret = "sequence-secret",
+		) => signedConversionRequest(server, payload, secret, "/sequences/events");
+
+		const disabled = await send(createServer({ sequenceStorePath }), event);
+		expect(disabled.status).toBe(404);
+
+		const auditStorePath = join(tempDir, "audit.json");
+		const server = createServer({
+			sequenceStorePath,
+			auditStorePath,
+			sequenceEventIngestSecret: "sequence-secret",
+		});
+		const created = await server.callTool({
+			method: "tools/call",
+			params: {
+				name: "listmonk_sequences_create",
+				arguments: {
+					name: "trial",
+					steps: [{ id: "stop", type: "stop" }],
+				},
+			},
+		});
+		expect(created.isError).not.toBe(true);
+		const { id } = created.structuredContent?.sequence as { id: string };
+		const updated = await server.callTool({
+			method: "tools/call",
+			params: {
+				name: "listmonk_sequences_triggers_update",
+				arguments: {
+					id,
+					triggers: [
+						{ id: "trial", type: "custom_event", name: "trial.started" },
+					],
+				},
+			},
+		});
+		expect(updated.isError).not.toBe(true);
+
+		expect((await send(server, event, "wrong-secret")).status).toBe(401);
+		expect((await send(server, { events: [] })).status).toBe(400);
+
+		const accepted = await send(server, event);
+		expect(accepted.status).toBe(200);
+		expect(await accepted.json()).toEqual({
+			accepted: 1,
+			duplicates: 0,
+			ignored: 0,
+		});
+		const replayed = await send(server, {
+			events: [event, { id: "evt-2", name: "other", subscriber_id: 7 }],
+		});
+		expect(await replayed.json()).toEqual({
+			accepted: 0,
+			duplicates: 1,
+			ignored: 1,
+		});
+		const ingestAudit = (
+			await listOperationAuditEntries({ path: auditStorePath })
+		).filter(({ operationId }) => operationId === "sequences.events.ingest");
+		expect(ingestAudit.map(({ event }) => event)).toEqual([
+			"started",
+			"failed",
+			"started",
+			"succeeded",
+			"started",
+			"succeeded",
+		]);
+
+		const engagement = await signedConversionRequest(
+			server,
+			{
+				events: [
+					{
+						enrollment_id: "11111111-1111-4111-8111-111111111111",
+						step_id: "welcome",
+						event: "opened",
+					},
+				],
+			},
+			"sequence-secret",
+			"/sequences/engagement",
+		);
+		expect(engagement.status).toBe(200);
+		expect(await engagement.json()).toEqual({
+			recorded: 0,
+			duplicates: 0,
+			unknown: 1,
+		});
+		expect(
+			(await listOperationAuditEntries({ path: auditStorePath }))
+				.filter(({ operationId }) => operationId === "sequences.engagement.record")
+				.map(({ event }) => event),
+		).toEqual(["started", "succeeded"]);
+	});
+
+	test("routes signed provider events to the inbound delivery queue", async () => {
+		tempDir = await mkdtemp(join(tmpdir(), "listmonk-ops-mcp-inbound-"));
+		process.env.LISTMONK_OPS_TEST_MAILGUN_KEY = "mailgun-key";
+		process.env.LISTMONK_OPS_SUPPRESSION_LEDGER = join(
+			tempDir,
+			"suppression-ledger.json",
+		);
+		const server = createServer({
+			webhookStorePath: join(tempDir, "webhooks.json"),
+			sequenceStorePath: join(tempDir, "sequences.json"),
+			auditStorePath: join(tempDir, "audit.json"),
+			suppressionPolicies: [
+				suppressionPolicySchema.parse({ provider_id: "mailgun-primary" }),
+			],
+			providerProfiles: [
+				providerProfileSchema.parse({
+					id: "mailgun-primary",
+					kind: "smtp",
+					sending_domain: "example.com",
+					smtp_hosts: ["smtp.mailgun.org"],
+					inbound: {
+						adapter: "mailgun",
+						signing_key_env: "LISTMONK_OPS_TEST_MAILGUN_KEY",
+					},
+				}),
+			],
+		});
+		const timestamp = String(Math.floor(Date.now() / 1_000));
+		const send = (providerId: string, signature: string) =>
+			server.getApp().request(`http://localhost/inbound/${providerId}`, {
+				method: "POST",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify({
+					signature: { timestamp, token: "token-1", signature },
+					"event-data": {
+						id: "mailgun-event-1",
+						event: "delivered",
+						timestamp: Number(timestamp),
+						recipient: "a@example.com",
+					},
+				}),
+			});
+		const signature = createHmac("sha256", "mailgun-key")
+			.update(`${timestamp}token-1`)
+			.digest("hex");
+
+		expect((await send("unknown", signature)).status).toBe(404);
+		expect((await send("mailgun-primary", "0".repeat(64))).status).toBe(401);
+
+		const accepted = await send("mailgun-primary", signature);
+		expect(accepted.status).toBe(200);
+		expect(await accepted.json()).toMatchObject({
+			provider_id: "mailgun-primary",
+			adapter: "mailgun",
+			received: 1,
+			suppression: {
+				provider_id: "mailgun-primary",
+				dry_run: false,
+				evaluated: 1,
+				actions: [],
+				skipped: [
+					{ provider_event_id: "mailgun-event-1", reason: "not_applicable" },
+				],
+			},
+		});
+	});
 });
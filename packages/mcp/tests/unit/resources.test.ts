@@ -13,10 +13,19 @@ import {
 	templatesTools,
 } from "../../src/handlers/templates.js";
 import { handleMediaTools, mediaTools } from "../../src/handlers/media.js";
+import {
+	handleSubscriberImportsTools,
+	subscriberImportsTools,
+} from "../../src/handlers/subscriber-imports.js";
 import {
 	handleUserRolesTools,
 	userRolesTools,
 } from "../../src/handlers/user-roles.js";
+import { bouncesTools, handleBouncesTools } from "../../src/handlers/bounces.js";
+import {
+	handleSettingsManifestTools,
+	settingsManifestTools,
+} from "../../src/handlers/settings-manifest.js";
 import type { CallToolRequest } from "../../src/types/mcp.js";
 import { MAX_TEMPLATE_MANIFEST_BYTES } from "@listmonk-ops/operations";
 
@@ -372,3 +381,155 @@ describe("user-role operation adapter", () => {
 		expect(result.content[0]?.text ?? "").toMatch(/role limit|<=500 items/i);
 	});
 });
+
+describe("subscriber import operation adapter", () => {
+	test("publishes confirmed import control and read-only progress tools", () => {
+		const startTool = subscriberImportsTools.find(
+			(tool) => tool.name === "listmonk_start_subscriber_import",
+		);
+		expect(startTool?.annotations).toMatchObject({
+			readOnlyHint: false,
+			destructiveHint: true,
+			idempotentHint: true,
+		});
+		expect(startTool?.inputSchema.required).toEqual(["csv", "confirm"]);
+		expect(startTool?.inputSchema.properties?.dry_run).toMatchObject({
+			type: "boolean",
+			default: false,
+		});
+		expect(
+			subscriberImportsTools.find(
+				(tool) => tool.name === "listmonk_stop_subscriber_import",
+			)?.inputSchema.required,
+		).toEqual(["confirm"]);
+		expect(
+			subscriberImportsTools.find(
+				(tool) => tool.name === "listmonk_get_subscriber_import_status",
+			)?.annotations?.readOnlyHint,
+		).toBe(true);
+	});
+
+	test("routes CSV dry runs through the shared operation without uploading", async () => {
+		const client = {
+			import: {
+				start: async () => {
+					throw new Error("dry run must not upload");
+				},
+			},
+		} as unknown as ListmonkClient;
+
+		const result = await handleSubscriberImportsTools(
+			request("listmonk_start_subscriber_import", {
+				csv: "email,name\nada@example.com,Ada\nada@example.com,Dup\n",
+				dry_run: true,
+			}),
+			client,
+		);
+
+		expect(result.isError).toBeFalsy();
+		expect(result.structuredContent).toMatchObject({
+			dry_run: true,
+			validation: {
+				rows: 2,
+				valid_rows: 1,
+				issue_count: 1,
+				issues: [{ row: 3, code: "duplicate_email" }],
+			},
+		});
+	});
+});
+
+describe("bounce operation adapter", () => {
+	test("publishes confirmed bounce deletes and a read-only summary", () => {
+		const purgeTool = bouncesTools.find(
+			(tool) => tool.name === "listmonk_delete_bounces",
+		);
+		expect(purgeTool?.annotations).toMatchObject({
+			readOnlyHint: false,
+			destructiveHint: true,
+		});
+		expect(purgeTool?.inputSchema.required).toEqual(["confirm"]);
+		expect(purgeTool?.inputSchema.properties?.dry_run).toMatchObject({
+			type: "boolean",
+			default: true,
+		});
+		expect(
+			bouncesTools.find((tool) => tool.name === "listmonk_get_bounce_summary")
+				?.annotations?.readOnlyHint,
+		).toBe(true);
+	});
+
+	test("routes bounce summaries through the shared operation", async () => {
+		const client = {
+			bounce: {
+				list: async () => ({
+					data: {
+						results: [
+							{ id: 1, type: "hard", email: "a@example.com", campaign: null },
+						],
+						total: 1,
+						per_page: 100,
+						page: 1,
+					},
+				}),
+			},
+		} as unknown as ListmonkClient;
+
+		const result = await handleBouncesTools(
+			request("listmonk_get_bounce_summary"),
+			client,
+		);
+
+		expect(result.isError).toBeFalsy();
+		expect(result.structuredContent).toMatchObject({
+			total: 1,
+			types: { hard: 1 },
+			campaigns: [{ bounces: 1, hard: 1 }],
+			domains: [{ domain: "example.com", bounces: 1 }],
+		});
+	});
+});
+
+describe("settings manifest operation adapter", () => {
+	test("publishes the reconcile tool with confirmation and a dry-run default", () => {
+		const tool = settingsManifestTools.find(
+			(candidate) => candidate.name === "listmonk_reconcile_settings_manifest",
+		);
+		expect(tool?.annotations).toMatchObject({
+			readOnlyHint: false,
+			destructiveHint: true,
+			idempotentHint: true,
+		});
+		expect(tool?.inputSchema.required).toEqual(
+			expect.arrayContaining(["schema_version", "settings", "confirm"]),
+		);
+		expect(tool?.inputSchema.properties?.dry_run).toMatchObject({
+			type: "boolean",
+			default: true,
+		});
+	});
+
+	test("rejects inline secrets before reading settings", async () => {
+		let reads = 0;
+		const client = {
+			settings: {
+				get: async () => {
+					reads += 1;
+					return { data: { smtp: [] } };
+				},
+			},
+		} as unknown as ListmonkClient;
+
+		const result = await handleSettingsManifestTools(
+			request("listmonk_reconcile_settings_manifest", {
+				schema_version: 1,
+				settings: { smtp: [{ host: "smtp.example.com", password: "inline" }] },
+			}),
+			client,
+		);
+
+		expect(result.isError).toBe(true);
+		expect(JSON.stringify(result)).not.toContain('"inline"');
+		expect(reads).toBe(0);
+	});
+});
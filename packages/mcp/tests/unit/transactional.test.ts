@@ -24,7 +24,7 @@ function clientWithTransactional(
 
 describe("transactional operation MCP adapter", () => {
 	test("publishes the shared schema and side-effect annotations", () => {
-		expect(transactionalTools).toHaveLength(1);
+		expect(transactionalTools).toHaveLength(2);
 		const tool = transactionalTools[0];
 		expect(tool?.title).toBe("Send transactional message");
 		expect(tool?.inputSchema.required).toEqual(["template_id"]);
@@ -46,6 +46,25 @@ describe("transactional operation MCP adapter", () => {
 			idempotentHint: false,
 			openWorldHint: true,
 		});
+
+		const batchTool = transactionalTools[1];
+		expect(batchTool?.name).toBe("listmonk_send_transactional_batch");
+		expect(batchTool?.inputSchema.required).toEqual([
+			"template_id",
+			"recipients",
+			"confirm",
+		]);
+		expect(batchTool?.inputSchema.properties).toMatchObject({
+			recipients: { type: "array", minItems: 1, maxItems: 1000 },
+			concurrency: { type: "integer" },
+			rate_per_second: { type: "number" },
+		});
+		expect(batchTool?.annotations).toMatchObject({
+			readOnlyHint: false,
+			destructiveHint: true,
+			idempotentHint: true,
+			openWorldHint: true,
+		});
 	});
 
 	test("returns structured output while preserving boolean text", async () => {
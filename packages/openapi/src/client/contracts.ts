@@ -162,11 +162,19 @@ export interface CampaignOperations
 	}): Promise<FlattenedResponse<string>>;
 	updatePreview(options: {
 		path: { id: number };
-		body: { template_id?: number; body?: string };
-	}): Promise<FlattenedResponse<boolean>>;
+		body: {
+			template_id?: number;
+			content_type?: string;
+			body?: string;
+		};
+	}): Promise<FlattenedResponse<string>>;
 	previewText(options: {
 		path: { id: number };
-		body: { template_id?: number; body?: string };
+		body: {
+			template_id?: number;
+			content_type?: string;
+			body?: string;
+		};
 	}): Promise<FlattenedResponse<string>>;
 	updateStatus(options: {
 		path: { id: number };
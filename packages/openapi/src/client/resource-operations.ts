@@ -230,17 +230,25 @@ export function createCampaignOperations(
 		},
 		async updatePreview(options: {
 			path: { id: number };
-			body: { template_id?: number; body?: string };
+			body: {
+				template_id?: number;
+				content_type?: string;
+				body?: string;
+			};
 		}) {
 			const result = await updatePreviewCampaignById({
 				...sdkOptions,
 				...options,
 			});
-			return (await transformResponse(result)) as FlattenedResponse<boolean>;
+			return (await transformResponse(result)) as FlattenedResponse<string>;
 		},
 		async previewText(options: {
 			path: { id: number };
-			body: { template_id?: number; body?: string };
+			body: {
+				template_id?: number;
+				content_type?: string;
+				body?: string;
+			};
 		}) {
 			const result = await previewCampaignTextById({
 				...sdkOptions,
@@ -3,6 +3,8 @@ import { dirname, resolve } from "node:path";
 import { fileURLToPath } from "node:url";
 import typia from "typia";
 import type {
+	CampaignAnalyticsInput,
+	CampaignAnalyticsOutput,
 	CampaignCollectionOutput,
 	CampaignGetInput,
 	CampaignGetOutput,
@@ -11,9 +13,13 @@ import type {
 	CampaignLifecycleOutput,
 	CampaignPreflightInput,
 	CampaignPreflightOutput,
+	CampaignPreviewInput,
+	CampaignPreviewOutput,
 	CampaignScheduleInput,
 	CampaignScheduleOutput,
 	CampaignStatsOutput,
+	CampaignTestSendInput,
+	CampaignTestSendOutput,
 	ControlCapabilitiesOutput,
 	ControlPrimeInput,
 	ControlPrimeOutput,
@@ -57,10 +63,25 @@ import type {
 	SequenceListOutput,
 	SequenceReconcileInput,
 	SequenceReconcileOutput,
+	SequenceEnrollBulkInput,
+	SequenceEnrollBulkOutput,
+	SequenceMigrateInput,
+	SequenceMigrateOutput,
+	SequenceSplitsStatsOutput,
 	SequenceStatusInput,
 	SequenceStatusOutput,
 	SequenceTickInput,
 	SequenceTickOutput,
+	SequenceTriggersUpdateInput,
+	SequenceTriggersUpdateOutput,
+	SequenceDeliveryUpdateInput,
+	SequenceDeliveryUpdateOutput,
+	SequenceGoalsUpdateInput,
+	SequenceGoalsUpdateOutput,
+	SequenceEventsIngestInput,
+	SequenceEventsIngestOutput,
+	SequenceEngagementRecordInput,
+	SequenceEngagementRecordOutput,
 	SequenceUpdateInput,
 	SequenceValidateInput,
 	SequenceValidateOutput,
@@ -79,6 +100,8 @@ import type {
 	TemplateRecord,
 	TemplateSetDefaultOutput,
 	TemplateUpdateInput,
+	TransactionalSendBatchInput,
+	TransactionalSendBatchOutput,
 	TransactionalSendInput,
 	TransactionalSendOutput,
 	WebhookCreateInput,
@@ -170,6 +193,29 @@ import type {
 	AbTestExportOutput,
 	AbTestDeleteOutput,
 	AbTestDeployWinnerOutput,
+	AbTestConversionRecordInput,
+	AbTestConversionRecordOutput,
+	SubscriberImportStartInput,
+	SubscriberImportStartOutput,
+	SubscriberImportStatus,
+	SubscriberImportLogsOutput,
+	BounceListInput,
+	BounceCollectionOutput,
+	BounceRecord,
+	BounceDeleteOutput,
+	BouncePurgeInput,
+	BouncePurgeOutput,
+	BounceSummaryInput,
+	BounceSummaryOutput,
+	SettingsManifestReconcileInput,
+	SettingsManifestReconcileOutput,
+	SuppressionApplyInput,
+	SuppressionApplyOutput,
+	PlaybookRunInput,
+	PlaybookApproveInput,
+	PlaybookRunGetInput,
+	PlaybookRunCancelInput,
+	PlaybookRunOutput,
 } from "./spec-contracts";
 import type { NormalizedContractSchema } from "../src/specs/json";
 import { stableValue } from "../src/specs/stable-json.js";
@@ -298,6 +344,24 @@ const contracts = {
 	campaignStatsOutputContract: contractSchema(
 		typia.json.schema<CampaignStatsOutput>(),
 	),
+	campaignAnalyticsInputContract: contractSchema(
+		typia.json.schema<CampaignAnalyticsInput>(),
+	),
+	campaignAnalyticsOutputContract: contractSchema(
+		typia.json.schema<CampaignAnalyticsOutput>(),
+	),
+	campaignPreviewInputContract: contractSchema(
+		typia.json.schema<CampaignPreviewInput>(),
+	),
+	campaignPreviewOutputContract: contractSchema(
+		typia.json.schema<CampaignPreviewOutput>(),
+	),
+	campaignTestSendInputContract: contractSchema(
+		typia.json.schema<CampaignTestSendInput>(),
+	),
+	campaignTestSendOutputContract: contractSchema(
+		typia.json.schema<CampaignTestSendOutput>(),
+	),
 	templateRecordContract: contractSchema(typia.json.schema<TemplateRecord>()),
 	templateCreateInputContract: contractSchema(
 		typia.json.schema<TemplateCreateInput>(),
@@ -352,6 +416,12 @@ const contracts = {
 	transactionalSendOutputContract: contractSchema(
 		typia.json.schema<TransactionalSendOutput>(),
 	),
+	transactionalSendBatchInputContract: contractSchema(
+		typia.json.schema<TransactionalSendBatchInput>(),
+	),
+	transactionalSendBatchOutputContract: contractSchema(
+		typia.json.schema<TransactionalSendBatchOutput>(),
+	),
 	sequenceValidateInputContract: contractSchema(
 		typia.json.schema<SequenceValidateInput>(),
 	),
@@ -389,6 +459,12 @@ const contracts = {
 	sequenceEnrollInputContract: contractSchema(
 		typia.json.schema<SequenceEnrollInput>(),
 	),
+	sequenceEnrollBulkInputContract: contractSchema(
+		typia.json.schema<SequenceEnrollBulkInput>(),
+	),
+	sequenceEnrollBulkOutputContract: contractSchema(
+		typia.json.schema<SequenceEnrollBulkOutput>(),
+	),
 	sequenceEnrollmentOutputContract: contractSchema(
 		typia.json.schema<SequenceEnrollmentOutput>(),
 	),
@@ -413,12 +489,51 @@ const contracts = {
 	sequenceReconcileOutputContract: contractSchema(
 		typia.json.schema<SequenceReconcileOutput>(),
 	),
+	sequenceMigrateInputContract: contractSchema(
+		typia.json.schema<SequenceMigrateInput>(),
+	),
+	sequenceMigrateOutputContract: contractSchema(
+		typia.json.schema<SequenceMigrateOutput>(),
+	),
 	sequenceStatusInputContract: contractSchema(
 		typia.json.schema<SequenceStatusInput>(),
 	),
 	sequenceStatusOutputContract: contractSchema(
 		typia.json.schema<SequenceStatusOutput>(),
 	),
+	sequenceTriggersUpdateInputContract: contractSchema(
+		typia.json.schema<SequenceTriggersUpdateInput>(),
+	),
+	sequenceTriggersUpdateOutputContract: contractSchema(
+		typia.json.schema<SequenceTriggersUpdateOutput>(),
+	),
+	sequenceDeliveryUpdateInputContract: contractSchema(
+		typia.json.schema<SequenceDeliveryUpdateInput>(),
+	),
+	sequenceDeliveryUpdateOutputContract: contractSchema(
+		typia.json.schema<SequenceDeliveryUpdateOutput>(),
+	),
+	sequenceSplitsStatsOutputContract: contractSchema(
+		typia.json.schema<SequenceSplitsStatsOutput>(),
+	),
+	sequenceGoalsUpdateInputContract: contractSchema(
+		typia.json.schema<SequenceGoalsUpdateInput>(),
+	),
+	sequenceGoalsUpdateOutputContract: contractSchema(
+		typia.json.schema<SequenceGoalsUpdateOutput>(),
+	),
+	sequenceEventsIngestInputContract: contractSchema(
+		typia.json.schema<SequenceEventsIngestInput>(),
+	),
+	sequenceEventsIngestOutputContract: contractSchema(
+		typia.json.schema<SequenceEventsIngestOutput>(),
+	),
+	sequenceEngagementRecordInputContract: contractSchema(
+		typia.json.schema<SequenceEngagementRecordInput>(),
+	),
+	sequenceEngagementRecordOutputContract: contractSchema(
+		typia.json.schema<SequenceEngagementRecordOutput>(),
+	),
 	specSearchInputContract: contractSchema(typia.json.schema<SpecSearchInput>()),
 	specSearchOutputContract: contractSchema(
 		typia.json.schema<SpecSearchOutput>(),
@@ -670,6 +785,69 @@ const contracts = {
 	subscriberHygieneOutputContract: contractSchema(
 		typia.json.schema<SubscriberHygieneOutput>(),
 	),
+	subscriberImportStartInputContract: contractSchema(
+		typia.json.schema<SubscriberImportStartInput>(),
+	),
+	subscriberImportStartOutputContract: contractSchema(
+		typia.json.schema<SubscriberImportStartOutput>(),
+	),
+	subscriberImportStatusOutputContract: contractSchema(
+		typia.json.schema<SubscriberImportStatus>(),
+	),
+	subscriberImportLogsOutputContract: contractSchema(
+		typia.json.schema<SubscriberImportLogsOutput>(),
+	),
+	bounceListInputContract: contractSchema(
+		typia.json.schema<BounceListInput>(),
+	),
+	bounceCollectionOutputContract: contractSchema(
+		typia.json.schema<BounceCollectionOutput>(),
+	),
+	bounceRecordContract: contractSchema(
+		typia.json.schema<BounceRecord>(),
+	),
+	bounceDeleteOutputContract: contractSchema(
+		typia.json.schema<BounceDeleteOutput>(),
+	),
+	bouncePurgeInputContract: contractSchema(
+		typia.json.schema<BouncePurgeInput>(),
+	),
+	bouncePurgeOutputContract: contractSchema(
+		typia.json.schema<BouncePurgeOutput>(),
+	),
+	bounceSummaryInputContract: contractSchema(
+		typia.json.schema<BounceSummaryInput>(),
+	),
+	bounceSummaryOutputContract: contractSchema(
+		typia.json.schema<BounceSummaryOutput>(),
+	),
+	settingsManifestReconcileInputContract: contractSchema(
+		typia.json.schema<SettingsManifestReconcileInput>(),
+	),
+	settingsManifestReconcileOutputContract: contractSchema(
+		typia.json.schema<SettingsManifestReconcileOutput>(),
+	),
+	suppressionApplyInputContract: contractSchema(
+		typia.json.schema<SuppressionApplyInput>(),
+	),
+	suppressionApplyOutputContract: contractSchema(
+		typia.json.schema<SuppressionApplyOutput>(),
+	),
+	playbookRunInputContract: contractSchema(
+		typia.json.schema<PlaybookRunInput>(),
+	),
+	playbookApproveInputContract: contractSchema(
+		typia.json.schema<PlaybookApproveInput>(),
+	),
+	playbookRunGetInputContract: contractSchema(
+		typia.json.schema<PlaybookRunGetInput>(),
+	),
+	playbookRunCancelInputContract: contractSchema(
+		typia.json.schema<PlaybookRunCancelInput>(),
+	),
+	playbookRunOutputContract: contractSchema(
+		typia.json.schema<PlaybookRunOutput>(),
+	),
 	templateRegistrySyncInputContract: contractSchema(
 		typia.json.schema<TemplateRegistrySyncInput>(),
 	),
@@ -739,6 +917,12 @@ const contracts = {
 	abTestDeployWinnerOutputContract: contractSchema(
 		typia.json.schema<AbTestDeployWinnerOutput>(),
 	),
+	abTestConversionRecordInputContract: contractSchema(
+		typia.json.schema<AbTestConversionRecordInput>(),
+	),
+	abTestConversionRecordOutputContract: contractSchema(
+		typia.json.schema<AbTestConversionRecordOutput>(),
+	),
 } satisfies Record<string, NormalizedContractSchema>;
 
 function renderContracts(): string {
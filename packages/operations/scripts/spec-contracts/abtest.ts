@@ -20,7 +20,9 @@ export type AbTestStatus =
 	| "cancelled"
 	| "failed";
 
-export type AbTestTestingMode = "holdout" | "full-split";
+export type AbTestTestingMode = "holdout" | "full-split" | "bandit";
+
+export type AbTestBanditMetric = "click_rate" | "conversion_rate";
 
 export type AbTestMetricType =
 	| "open_rate"
@@ -97,6 +99,40 @@ export interface AbTestAssignmentManifest {
 	assignedCount: NonNegativeInteger;
 }
 
+export interface AbTestBanditPolicy {
+	version: 1;
+	metric: AbTestBanditMetric;
+	waveCount: PositiveInteger;
+	waveIntervalHours: number & tags.ExclusiveMinimum<0>;
+	minimumShare: number & tags.Minimum<0>;
+	draws: PositiveInteger;
+}
+
+export interface AbTestBanditWave {
+	wave: PositiveInteger;
+	status: "planned" | "sent";
+	plannedAt: string;
+	sentAt?: string;
+	plannedSize: NonNegativeInteger;
+	observed: Array<{
+		variantId: string;
+		sampleSize: number;
+		successes: number;
+	}>;
+	allocation: Array<{
+		variantId: string;
+		probabilityToBeBest: number & tags.Minimum<0> & tags.Maximum<1>;
+		weight: number & tags.Minimum<0> & tags.Maximum<1>;
+	}>;
+	groups?: Array<{
+		variantId: string;
+		expectedCount: NonNegativeInteger;
+		subscriberChecksum: string;
+		listId: PositiveInteger;
+		campaignId: PositiveInteger;
+	}>;
+}
+
 export interface AbTestRecord {
 	id: string;
 	name: string;
@@ -133,6 +169,9 @@ export interface AbTestRecord {
 	assignmentProvenance?: string;
 	hypothesis?: Record<string, unknown>;
 	stratification?: Record<string, unknown>;
+	banditPolicy?: AbTestBanditPolicy;
+	banditWaves?: AbTestBanditWave[];
+	sequentialPValue?: number;
 }
 
 export interface AbTestListInput {
@@ -203,8 +242,26 @@ export interface AbTestCreateInput {
 			attribution_window_hours: number & tags.Minimum<0>;
 			exclusion_window_hours: number & tags.Minimum<0>;
 		};
+		/** Pre-registered analysis plan; sequential mSPRT lets tick stop early. Defaults to fixed_horizon. */
+		analysis_plan?:
+			| { mode: "fixed_horizon" }
+			| {
+					mode: "sequential";
+					method: "msprt";
+					mixing_variance: number &
+						tags.Type<"float"> &
+						tags.ExclusiveMinimum<0> &
+						tags.Maximum<1>;
+			  };
 	};
 	enable_stratification?: boolean;
+	enable_bayesian_analysis?: boolean;
+	bandit?: {
+		metric?: AbTestBanditMetric;
+		wave_count?: PositiveInteger & tags.Maximum<20>;
+		wave_interval_hours?: number & tags.ExclusiveMinimum<0>;
+		minimum_share?: number & tags.Minimum<0> & tags.ExclusiveMaximum<0.5>;
+	};
 }
 
 export interface AbTestAnalyzeInput extends AbTestIdInput {
@@ -281,6 +338,21 @@ export interface AbTestStatisticalAnalysis {
 	srmPassed?: boolean;
 	srmPValue?: number;
 	fixedHorizonReasonCodes?: string[];
+	analysisMode?: "fixed_horizon" | "sequential";
+	sequentialBoundary?: AbTestSequentialBoundary;
+	sequentialReasonCodes?: string[];
+}
+
+export interface AbTestSequentialBoundary {
+	method: "msprt";
+	alpha: number;
+	mixingVariance: number;
+	logLikelihoodRatio: number;
+	logThreshold: number;
+	zScore: number;
+	zBoundary?: number;
+	alwaysValidPValue: number;
+	crossed: boolean;
 }
 
 export interface AbTestAnalysis {
@@ -343,3 +415,37 @@ export interface AbTestReconcileOutput {
 export interface AbTestExportOutput {
 	manifest: AbTestAssignmentManifest;
 }
+
+export interface AbTestConversionEventInput {
+	/** Caller-stable event ID; replays with the same ID are reported as duplicates. */
+	event_id: NonEmptyString & tags.MaxLength<200>;
+	test_id: NonEmptyString;
+	variant_id: NonEmptyString;
+	/** Listmonk subscriber UUID; no email or name is accepted or stored. */
+	subscriber_uuid: NonEmptyString;
+	/** Event name, such as purchase or signup. */
+	event: NonEmptyString;
+	occurred_at: IsoDateTime;
+	value?: number & tags.Minimum<0>;
+	/** ISO 4217 currency code; required when value is set. */
+	currency?: string & tags.Pattern<"^[A-Z]{3}$">;
+}
+
+export interface AbTestConversionRecordInput {
+	events: AbTestConversionEventInput[] & tags.MinItems<1> & tags.MaxItems<1000>;
+}
+
+export type AbTestConversionRecordStatus = "created" | "duplicate" | "rejected";
+
+export interface AbTestConversionRecordResult {
+	event_id: string;
+	status: AbTestConversionRecordStatus;
+	reason?: string;
+}
+
+export interface AbTestConversionRecordOutput {
+	recorded: NonNegativeInteger;
+	duplicates: NonNegativeInteger;
+	rejected: NonNegativeInteger;
+	results: AbTestConversionRecordResult[];
+}
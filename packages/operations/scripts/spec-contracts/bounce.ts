@@ -0,0 +1,124 @@
+import type { tags } from "typia";
+import type {
+	NonEmptyString,
+	NonNegativeInteger,
+	PositiveInteger,
+	ResourceId,
+} from "./primitives";
+
+export interface BounceRecord {
+	id?: ResourceId | undefined;
+	type?: string | undefined;
+	source?: string | undefined;
+	meta?: Record<string, unknown> | undefined;
+	created_at?: string | undefined;
+	email?: string | undefined;
+	subscriber_uuid?: string | undefined;
+	subscriber_id?: ResourceId | undefined;
+	campaign?:
+		| {
+				id?: ResourceId | undefined;
+				name?: string | undefined;
+		  }
+		| null
+		| undefined;
+	campaign_uuid?: string | undefined;
+	/** Preserve fields added by newer Listmonk releases. */
+	[key: string]: unknown;
+}
+
+export interface BounceListInput {
+	/** One-based result page. Omitted values use the shared operation default. */
+	page?: PositiveInteger | undefined;
+	/** Number of records per page. Omitted values use the shared operation default. */
+	per_page?: PositiveInteger | undefined;
+	campaign_id?: ResourceId | undefined;
+	source?: NonEmptyString | undefined;
+	order_by?: "email" | "campaign_name" | "source" | "created_at" | undefined;
+	order?: "asc" | "desc" | undefined;
+}
+
+export interface BounceCollectionOutput {
+	results: BounceRecord[];
+	total: number;
+	per_page: number;
+	page: number;
+}
+
+export interface BounceDeleteOutput {
+	id: ResourceId;
+	deleted: boolean;
+}
+
+export type BouncePurgeInput =
+	| {
+			ids: ResourceId[] & tags.MinItems<1> & tags.MaxItems<1000>;
+			/** Report the purge without deleting. Defaults to true. */
+			dry_run?: boolean;
+	  }
+	| {
+			/** Purge every bounce record. */
+			all: true;
+			/** Report the purge without deleting. Defaults to true. */
+			dry_run?: boolean;
+	  };
+
+export interface BouncePurgeOutput {
+	dry_run: boolean;
+	all: boolean;
+	/** Bounce IDs selected by an ID purge. */
+	ids?: ResourceId[];
+	/** Records selected: the ID count, or Listmonk's total for `all`. */
+	bounce_count: NonNegativeInteger;
+	deleted: boolean;
+}
+
+export interface BounceSummaryInput {
+	campaign_id?: ResourceId | undefined;
+	source?: NonEmptyString | undefined;
+	/** Maximum bounce records to scan. Defaults to 10000. */
+	max_bounces?: number &
+		tags.Type<"int64"> &
+		tags.Minimum<1> &
+		tags.Maximum<50_000>;
+	/** Campaign and domain groups to return. Defaults to 20. */
+	max_groups?: number & tags.Type<"int64"> & tags.Minimum<1> & tags.Maximum<100>;
+}
+
+export interface BounceTypeCounts {
+	bounces: NonNegativeInteger;
+	soft: NonNegativeInteger;
+	hard: NonNegativeInteger;
+	complaint: NonNegativeInteger;
+	/** Bounce types other than soft, hard, and complaint. */
+	other: NonNegativeInteger;
+}
+
+export interface BounceCampaignSummary extends BounceTypeCounts {
+	/** Absent for bounces not attributed to a campaign. */
+	campaign_id?: ResourceId;
+	campaign_name?: string;
+	/** Messages the campaign sent; absent when the campaign no longer exists. */
+	sent?: NonNegativeInteger;
+	/** `bounces / sent`, rounded to four decimals. */
+	bounce_rate?: number;
+}
+
+export interface BounceDomainSummary extends BounceTypeCounts {
+	domain: string;
+}
+
+export interface BounceSummaryOutput {
+	/** Bounce records matching the filters in Listmonk. */
+	total: NonNegativeInteger;
+	scanned: NonNegativeInteger;
+	/** True when `max_bounces` stopped the scan before `total`. */
+	truncated: boolean;
+	types: BounceTypeCounts;
+	campaign_count: NonNegativeInteger;
+	/** Campaign groups by descending bounce count. */
+	campaigns: BounceCampaignSummary[];
+	domain_count: NonNegativeInteger;
+	/** Recipient-domain groups by descending bounce count. */
+	domains: BounceDomainSummary[];
+}
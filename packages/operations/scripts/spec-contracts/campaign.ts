@@ -100,6 +100,108 @@ export interface CampaignStatsOutput {
 	started_at?: string | null | undefined;
 }
 
+export type CampaignAnalyticsBucket = "hour" | "day" | "week";
+
+export interface CampaignAnalyticsInput {
+	/** Listmonk campaign ID. */
+	id: ResourceId;
+	/** Range start; defaults to when the campaign started. */
+	from?: IsoDateTime | undefined;
+	/** Range end; defaults to now. */
+	to?: IsoDateTime | undefined;
+	/** Time bucket for the view, click, and bounce series. Defaults to day. */
+	bucket?: CampaignAnalyticsBucket | undefined;
+	/** Most-clicked links to return. Defaults to 10. */
+	top_links?: number & tags.Type<"int64"> & tags.Minimum<1> & tags.Maximum<50>;
+}
+
+export interface CampaignAnalyticsCounts {
+	views: NonNegativeInteger;
+	clicks: NonNegativeInteger;
+	bounces: NonNegativeInteger;
+}
+
+export interface CampaignAnalyticsOutput {
+	campaign: {
+		id: ResourceId;
+		name?: string | undefined;
+		status?: string | undefined;
+	};
+	range: {
+		from: IsoDateTime;
+		to: IsoDateTime;
+	};
+	bucket: CampaignAnalyticsBucket;
+	/**
+	 * Whether Listmonk counted views, clicks, and link clicks once per
+	 * subscriber (individual tracking on) or per event. Bounces are always
+	 * counted per event; unknown when settings could not be read.
+	 */
+	counting: "unique" | "total" | "unknown";
+	/** All-time counters from the campaign record, regardless of range. */
+	totals: {
+		views: number | null;
+		clicks: number | null;
+		bounces: number | null;
+		sent: number | null;
+		to_send: number | null;
+	};
+	range_totals: CampaignAnalyticsCounts;
+	/**
+	 * Buckets with activity, oldest first. `start` is `YYYY-MM-DD` for day
+	 * and week buckets or `YYYY-MM-DDTHH:00` for hour buckets, in the time
+	 * zone Listmonk reports.
+	 */
+	series: (CampaignAnalyticsCounts & { start: string })[];
+	top_links: {
+		url: string;
+		count: NonNegativeInteger;
+	}[];
+}
+
+export interface CampaignPreviewInput {
+	/** Listmonk campaign ID. */
+	id: ResourceId;
+	/**
+	 * Subscriber whose name, email, UUID, and attributes replace the
+	 * matching `.Subscriber` tokens. Defaults to Listmonk's demo subscriber.
+	 */
+	subscriber_id?: ResourceId | undefined;
+}
+
+export interface CampaignPreviewOutput {
+	campaign: {
+		id: ResourceId;
+		name?: string | undefined;
+		content_type?: string | undefined;
+		template_id?: ResourceId | null | undefined;
+	};
+	/** The subscriber the preview was rendered for; null for the demo one. */
+	subscriber: {
+		id: ResourceId;
+		email: string;
+	} | null;
+	html: string;
+	text: string;
+}
+
+export interface CampaignTestSendInput {
+	/** Listmonk campaign ID. */
+	id: ResourceId;
+	/**
+	 * Seed recipients. Each must be an existing subscriber and pass the
+	 * configured seed recipient policy.
+	 */
+	emails: string[] & tags.MinItems<1>;
+}
+
+export interface CampaignTestSendOutput {
+	id: ResourceId;
+	recipient_count: PositiveInteger;
+	/** SHA-256 of the sorted, normalized recipient set. */
+	recipient_set_checksum: NonEmptyString;
+}
+
 export interface CampaignScheduleInput {
 	/** Listmonk campaign ID. */
 	id: ResourceId;
@@ -129,6 +231,19 @@ export interface CampaignLifecycleOutput {
 	status: string;
 }
 
+export type CampaignContentCheckLevel = "warn" | "fail" | "off";
+
+export interface CampaignContentCheckLevels {
+	gmail_clipping?: CampaignContentCheckLevel | undefined;
+	image_alt_text?: CampaignContentCheckLevel | undefined;
+	image_health?: CampaignContentCheckLevel | undefined;
+	plain_text_alternative?: CampaignContentCheckLevel | undefined;
+	image_text_ratio?: CampaignContentCheckLevel | undefined;
+	spam_phrases?: CampaignContentCheckLevel | undefined;
+	html_balance?: CampaignContentCheckLevel | undefined;
+	list_unsubscribe_header?: CampaignContentCheckLevel | undefined;
+}
+
 export interface CampaignPreflightInput {
 	/** Listmonk campaign ID. */
 	campaign_id: ResourceId;
@@ -138,6 +253,13 @@ export interface CampaignPreflightInput {
 	check_links: boolean;
 	/** Per-link timeout in milliseconds. */
 	link_check_timeout_ms: PositiveInteger;
+	/** Whether to render the campaign preview and check the result. */
+	check_render?: boolean | undefined;
+	/**
+	 * Level each rendered-content check reports on failure, or `off` to skip
+	 * it. Unset checks keep their defaults.
+	 */
+	content_check_levels?: CampaignContentCheckLevels | undefined;
 }
 
 export interface CampaignPreflightCheck {
@@ -47,6 +47,8 @@ export interface SpecSearchOutput {
 	query: NonEmptyString;
 	total: NonNegativeInteger;
 	results: OperationSearchResult[];
+	/** Matching playbooks; empty when a family, resource, or verb filter is set. */
+	playbooks: PlaybookSummary[];
 }
 
 export interface SpecDescribeInput {
@@ -77,6 +79,8 @@ export interface PlaybookSummary {
 	goal: NonEmptyString;
 	step_count: PositiveInteger;
 	recovery_operation: NonEmptyString;
+	/** `user` playbooks are loaded from the configured playbook directory. */
+	source: "built-in" | "user";
 }
 
 export interface PlaybookListOutput {
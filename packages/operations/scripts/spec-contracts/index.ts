@@ -1,13 +1,17 @@
 export * from "./abtest";
+export * from "./bounce";
 export * from "./campaign";
 export * from "./discovery";
 export * from "./list";
 export * from "./media";
 export * from "./ops";
+export * from "./playbook-run";
 export * from "./primitives";
 export * from "./provider";
 export * from "./sequence";
+export * from "./settings";
 export * from "./subscriber";
+export * from "./suppression";
 export * from "./template";
 export * from "./transactional";
 export * from "./user-role";
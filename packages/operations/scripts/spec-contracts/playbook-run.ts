@@ -0,0 +1,63 @@
+import type { tags } from "typia";
+import type { NonEmptyString } from "./primitives";
+
+export type PlaybookRunId = string & tags.Format<"uuid">;
+
+export type PlaybookRunInputValue = string | number | boolean;
+
+export interface PlaybookRunStep {
+	step_id: string;
+	operation: string;
+	status: "pending" | "awaiting_approval" | "succeeded" | "failed";
+	/** Resolved step input; for a paused step, the input a human reviews. */
+	input?: Record<string, unknown> | undefined;
+	output?: unknown;
+	failure_reason?: string | undefined;
+	completed_at?: string | undefined;
+}
+
+export interface PlaybookRunRecovery {
+	operation: string;
+	status: "succeeded" | "failed";
+	input: Record<string, unknown>;
+	output?: unknown;
+	failure_reason?: string | undefined;
+}
+
+export interface PlaybookRun {
+	id: PlaybookRunId;
+	playbook_id: string;
+	status: "running" | "awaiting_approval" | "succeeded" | "failed";
+	inputs: Record<string, PlaybookRunInputValue>;
+	steps: PlaybookRunStep[];
+	failure_reason?: string | undefined;
+	/** Outcome of the playbook's recovery operation after a failure. */
+	recovery?: PlaybookRunRecovery | undefined;
+	created_at: string;
+	updated_at: string;
+}
+
+export interface PlaybookRunInput {
+	/** Playbook ID from playbooks.list. */
+	id: NonEmptyString;
+	/** Values for the playbook's declared inputs. */
+	inputs?: Record<string, PlaybookRunInputValue> | undefined;
+}
+
+export interface PlaybookApproveInput {
+	run_id: PlaybookRunId;
+	/** When set, approval fails unless the run is paused at this step. */
+	step_id?: NonEmptyString | undefined;
+}
+
+export interface PlaybookRunGetInput {
+	run_id: PlaybookRunId;
+}
+
+export interface PlaybookRunCancelInput {
+	run_id: PlaybookRunId;
+}
+
+export interface PlaybookRunOutput {
+	run: PlaybookRun;
+}
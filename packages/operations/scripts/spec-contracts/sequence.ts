@@ -5,6 +5,7 @@ import type {
 	PositiveInteger,
 	NonEmptyString,
 	IsoDateTime,
+	EmailAddress,
 } from "./primitives";
 import type {
 	TransactionalFromEmail,
@@ -20,6 +21,83 @@ export type SequenceConditionPath = NonEmptyString &
 	tags.MaxLength<200> &
 	tags.Pattern<"^[A-Za-z0-9_-]+(?:\\.[A-Za-z0-9_-]+)*$">;
 
+export type SequenceConditionOperator =
+	| "equals"
+	| "not_equals"
+	| "exists"
+	| "gt"
+	| "lt"
+	| "in"
+	| "contains"
+	| "matches";
+
+export type SequenceEngagementEvent = "opened" | "clicked";
+
+export type SequenceConditionPredicate =
+	| {
+			source: "context" | "subscriber";
+			path: SequenceConditionPath;
+			operator: SequenceConditionOperator;
+			value?: unknown;
+	  }
+	| {
+			source: "list";
+			list_id: ResourceId;
+			operator: "member" | "not_member";
+	  }
+	| {
+			source: "engagement";
+			step_id: SequenceStepId;
+			event: SequenceEngagementEvent;
+	  };
+
+export type SequenceConditionPredicates = SequenceConditionPredicate[] &
+	tags.MinItems<1> &
+	tags.MaxItems<20>;
+
+export type SequenceCondition =
+	| SequenceConditionPredicate
+	| {
+			all: Array<
+				SequenceConditionPredicate | { any: SequenceConditionPredicates }
+			> &
+				tags.MinItems<1> &
+				tags.MaxItems<20>;
+	  }
+	| {
+			any: Array<
+				SequenceConditionPredicate | { all: SequenceConditionPredicates }
+			> &
+				tags.MinItems<1> &
+				tags.MaxItems<20>;
+	  };
+
+export type SequenceWeekday =
+	| "mon"
+	| "tue"
+	| "wed"
+	| "thu"
+	| "fri"
+	| "sat"
+	| "sun";
+
+export type SequenceTimeOfDay = string &
+	tags.Pattern<"^(?:[01][0-9]|2[0-3]):[0-5][0-9]$">;
+
+export interface SequenceSendWindow {
+	days?: (SequenceWeekday[] & tags.MinItems<1> & tags.MaxItems<7>) | undefined;
+	start: SequenceTimeOfDay;
+	end: SequenceTimeOfDay;
+	timezone?: (NonEmptyString & tags.MaxLength<100>) | undefined;
+	timezone_attribute?: SequenceConditionPath | undefined;
+}
+
+export interface SequenceSplitBranch {
+	id: SequenceStepId;
+	weight: PositiveInteger & tags.Maximum<10000>;
+	next: SequenceStepId;
+}
+
 export type SequenceName = NonEmptyString & tags.MaxLength<120>;
 
 export type SequenceDescription = string & tags.MaxLength<500>;
@@ -35,6 +113,7 @@ export type SequenceStep =
 			messenger?: TransactionalMessenger | undefined;
 			subject?: TransactionalSubject | undefined;
 			altbody?: NonEmptyString | undefined;
+			window?: SequenceSendWindow | undefined;
 	  }
 	| {
 			id: SequenceStepId;
@@ -49,15 +128,48 @@ export type SequenceStep =
 	| {
 			id: SequenceStepId;
 			type: "condition";
-			path: SequenceConditionPath;
-			operator: "equals" | "not_equals" | "exists";
+			path?: SequenceConditionPath | undefined;
+			operator?: SequenceConditionOperator | undefined;
 			value?: unknown;
+			when?: SequenceCondition | undefined;
 			on_true: SequenceStepId;
 			on_false: SequenceStepId;
 	  }
 	| {
 			id: SequenceStepId;
 			type: "stop";
+	  }
+	| {
+			id: SequenceStepId;
+			type: "list_add" | "list_remove";
+			list_ids: ResourceId[] & tags.MinItems<1> & tags.MaxItems<20>;
+	  }
+	| {
+			id: SequenceStepId;
+			type: "attribs_patch";
+			attribs: Record<string, unknown>;
+	  }
+	| {
+			id: SequenceStepId;
+			type: "blocklist";
+	  }
+	| {
+			id: SequenceStepId;
+			type: "webhook_event";
+			name: SequenceTriggerEventName;
+			data?: Record<string, unknown> | undefined;
+	  }
+	| {
+			id: SequenceStepId;
+			type: "enroll";
+			sequence_id: string & tags.Format<"uuid">;
+	  }
+	| {
+			id: SequenceStepId;
+			type: "split";
+			branches: SequenceSplitBranch[] &
+				tags.MinItems<2> &
+				tags.MaxItems<10>;
 	  };
 
 export type SequenceSteps = SequenceStep[] & tags.MinItems<1>;
@@ -94,11 +206,15 @@ export interface SequenceEnrollment {
 		| "completed"
 		| "failed"
 		| "ambiguous"
-		| "cancelled";
+		| "cancelled"
+		| "goal_reached"
+		| "exited";
 	retry_count: NonNegativeInteger;
 	current_step_id: SequenceStepId;
 	next_run_at: IsoDateTime;
 	last_error_present: boolean;
+	goal_id?: SequenceStepId | undefined;
+	branches?: Record<string, SequenceStepId> | undefined;
 	created_at: IsoDateTime;
 	updated_at: IsoDateTime;
 }
@@ -171,6 +287,30 @@ export interface SequenceEnrollOutput {
 	created: boolean;
 }
 
+export interface SequenceEnrollBulkInput {
+	id: string & tags.Format<"uuid">;
+	list_id?: ResourceId | undefined;
+	query?: (string & tags.MinLength<1>) | undefined;
+	context?: Record<string, unknown> | undefined;
+	start_at?: IsoDateTime | undefined;
+	rate_per_minute?: (PositiveInteger & tags.Maximum<60000>) | undefined;
+	after_subscriber_id?: NonNegativeInteger | undefined;
+	limit?: (PositiveInteger & tags.Maximum<10000>) | undefined;
+}
+
+export interface SequenceEnrollBulkOutput {
+	sequence_id: string & tags.Format<"uuid">;
+	scanned: NonNegativeInteger;
+	created: NonNegativeInteger;
+	skipped: NonNegativeInteger;
+	resume?:
+		| {
+				after_subscriber_id: NonNegativeInteger;
+				start_at: IsoDateTime;
+		  }
+		| undefined;
+}
+
 export interface SequenceEnrollmentOutput {
 	enrollment: SequenceEnrollment;
 }
@@ -196,6 +336,7 @@ export interface SequenceTickInput {
 }
 
 export interface SequenceTickOutput {
+	triggered: NonNegativeInteger;
 	claimed: NonNegativeInteger;
 	advanced: NonNegativeInteger;
 	waiting: NonNegativeInteger;
@@ -203,6 +344,8 @@ export interface SequenceTickOutput {
 	failed: NonNegativeInteger;
 	ambiguous: NonNegativeInteger;
 	cancelled: NonNegativeInteger;
+	goal_reached: NonNegativeInteger;
+	exited: NonNegativeInteger;
 	completed_at: IsoDateTime;
 }
 
@@ -221,6 +364,49 @@ export interface SequenceReconcileOutput {
 	enrollment?: SequenceEnrollment | undefined;
 }
 
+export interface SequenceMigrateInput {
+	id: string & tags.Format<"uuid">;
+	from_revision: PositiveInteger;
+	to_revision: PositiveInteger;
+	step_map: Record<string, SequenceStepId>;
+	dry_run: boolean;
+}
+
+export interface SequenceMigrateOutput {
+	sequence_id: string & tags.Format<"uuid">;
+	from_revision: PositiveInteger;
+	to_revision: PositiveInteger;
+	scanned: NonNegativeInteger;
+	migrated: NonNegativeInteger;
+	skipped: NonNegativeInteger;
+	moves: Array<{
+		from_step_id: SequenceStepId;
+		to_step_id: SequenceStepId;
+		enrollments: PositiveInteger;
+	}>;
+	dry_run: boolean;
+}
+
+export interface SequenceSplitBranchStats {
+	id: SequenceStepId;
+	weight: NonNegativeInteger;
+	assigned: NonNegativeInteger;
+	expected: number & tags.Minimum<0>;
+	sent: NonNegativeInteger;
+	opened: NonNegativeInteger;
+	clicked: NonNegativeInteger;
+	goal_reached: NonNegativeInteger;
+}
+
+export interface SequenceSplitsStatsOutput {
+	sequence_id: string & tags.Format<"uuid">;
+	splits: Array<{
+		step_id: SequenceStepId;
+		assigned: NonNegativeInteger;
+		branches: SequenceSplitBranchStats[];
+	}>;
+}
+
 export interface SequenceStatusInput {
 	worker_stale_ms: PositiveInteger;
 }
@@ -244,6 +430,8 @@ export interface SequenceStatusOutput {
 		failed: NonNegativeInteger;
 		ambiguous: NonNegativeInteger;
 		cancelled: NonNegativeInteger;
+		goal_reached: NonNegativeInteger;
+		exited: NonNegativeInteger;
 		due: NonNegativeInteger;
 		leased: NonNegativeInteger;
 		oldest_due_at?: IsoDateTime | undefined;
@@ -255,4 +443,166 @@ export interface SequenceStatusOutput {
 		failed: NonNegativeInteger;
 		last_heartbeat_at?: IsoDateTime | undefined;
 	};
+	funnels: SequenceFunnel[];
+}
+
+export interface SequenceFunnel {
+	sequence_id: string & tags.Format<"uuid">;
+	enrolled: NonNegativeInteger;
+	active: NonNegativeInteger;
+	completed: NonNegativeInteger;
+	goal_reached: NonNegativeInteger;
+	exited: NonNegativeInteger;
+	failed: NonNegativeInteger;
+	cancelled: NonNegativeInteger;
+	conversion_rate: number & tags.Minimum<0> & tags.Maximum<1>;
+	goals: Array<{ id: SequenceStepId; reached: NonNegativeInteger }>;
+}
+
+export type SequenceTriggerDedupe =
+	| { mode: "once" }
+	| {
+			mode: "once_per_days";
+			days: PositiveInteger & tags.Maximum<3650>;
+	  };
+
+export type SequenceTriggerEventName = NonEmptyString &
+	tags.MaxLength<100> &
+	tags.Pattern<"^[A-Za-z0-9._:-]+$">;
+
+export type SequenceTrigger =
+	| {
+			id: SequenceStepId;
+			type: "list_subscribed";
+			list_id: ResourceId;
+			dedupe: SequenceTriggerDedupe;
+	  }
+	| {
+			id: SequenceStepId;
+			type: "subscriber_created";
+			dedupe: SequenceTriggerDedupe;
+	  }
+	| {
+			id: SequenceStepId;
+			type: "inbound_delivery";
+			kinds: Array<
+				| "delivered"
+				| "bounced"
+				| "complained"
+				| "unsubscribed"
+				| "delayed"
+				| "rejected"
+			> &
+				tags.MinItems<1>;
+			dedupe: SequenceTriggerDedupe;
+	  }
+	| {
+			id: SequenceStepId;
+			type: "custom_event";
+			name: SequenceTriggerEventName;
+			dedupe: SequenceTriggerDedupe;
+	  };
+
+export interface SequenceTriggersUpdateInput {
+	id: string & tags.Format<"uuid">;
+	triggers: SequenceTrigger[] & tags.MaxItems<10>;
+}
+
+export interface SequenceTriggersUpdateOutput {
+	sequence: SequenceDefinition;
+	triggers: SequenceTrigger[];
+	updated: boolean;
+}
+
+export type SequenceGoalOutcome = "goal" | "exit";
+
+export type SequenceGoal =
+	| {
+			id: SequenceStepId;
+			type: "list_subscribed";
+			list_id: ResourceId;
+			outcome: SequenceGoalOutcome;
+	  }
+	| {
+			id: SequenceStepId;
+			type: "attribute";
+			path: SequenceConditionPath;
+			operator: SequenceConditionOperator;
+			value?: unknown;
+			outcome: SequenceGoalOutcome;
+	  }
+	| {
+			id: SequenceStepId;
+			type: "custom_event";
+			name: SequenceTriggerEventName;
+			outcome: SequenceGoalOutcome;
+	  }
+	| {
+			id: SequenceStepId;
+			type: "unsubscribed";
+			list_id?: ResourceId | undefined;
+			outcome: SequenceGoalOutcome;
+	  };
+
+export interface SequenceGoalsUpdateInput {
+	id: string & tags.Format<"uuid">;
+	goals: SequenceGoal[] & tags.MaxItems<10>;
+}
+
+export interface SequenceGoalsUpdateOutput {
+	sequence: SequenceDefinition;
+	goals: SequenceGoal[];
+	updated: boolean;
+}
+
+export interface SequenceDeliveryUpdateInput {
+	id: string & tags.Format<"uuid">;
+	window?: SequenceSendWindow | undefined;
+	daily_cap?: (PositiveInteger & tags.Maximum<100>) | undefined;
+}
+
+export interface SequenceDeliveryUpdateOutput {
+	sequence: SequenceDefinition;
+	delivery: {
+		window?: SequenceSendWindow | undefined;
+		daily_cap?: PositiveInteger | undefined;
+	};
+	updated: boolean;
+}
+
+export interface SequenceEventsIngestInput {
+	events: Array<{
+		id: NonEmptyString & tags.MaxLength<200>;
+		name: SequenceTriggerEventName;
+		subscriber_id?: ResourceId | undefined;
+		subscriber_uuid?: (string & tags.Format<"uuid">) | undefined;
+		subscriber_email?: EmailAddress | undefined;
+		data?: Record<string, unknown> | undefined;
+		occurred_at?: IsoDateTime | undefined;
+	}> &
+		tags.MinItems<1> &
+		tags.MaxItems<100>;
+}
+
+export interface SequenceEventsIngestOutput {
+	accepted: NonNegativeInteger;
+	duplicates: NonNegativeInteger;
+	ignored: NonNegativeInteger;
+}
+
+export interface SequenceEngagementRecordInput {
+	events: Array<{
+		enrollment_id: string & tags.Format<"uuid">;
+		step_id: SequenceStepId;
+		event: SequenceEngagementEvent;
+		occurred_at?: IsoDateTime | undefined;
+	}> &
+		tags.MinItems<1> &
+		tags.MaxItems<100>;
+}
+
+export interface SequenceEngagementRecordOutput {
+	recorded: NonNegativeInteger;
+	duplicates: NonNegativeInteger;
+	unknown: NonNegativeInteger;
 }
@@ -0,0 +1,54 @@
+import type { tags } from "typia";
+import type { NonEmptyString } from "./primitives";
+
+/** Environment variable that holds a secret setting value. */
+export interface SettingsSecretReference {
+	env: string &
+		tags.Pattern<"^LISTMONK_SETTINGS_[A-Z0-9_]+$"> &
+		tags.MaxLength<128>;
+}
+
+export interface SettingsManifestReconcileInput {
+	schema_version: 1;
+	/**
+	 * Desired Listmonk settings keyed by top-level setting name, for example
+	 * `app.site_name` or `smtp`. Objects merge into the current value; arrays
+	 * keep the manifest's length and merge each item over the current item at
+	 * the same index. Secret fields take a `SettingsSecretReference`.
+	 */
+	settings: Record<string, unknown>;
+	/**
+	 * Plan only when true; apply when false. Optional on input and defaults to
+	 * a safe dry run (true), matching the runtime Zod schema's `.default(true)`.
+	 */
+	dry_run?: boolean;
+}
+
+export type SettingsChangeAction = "add" | "update" | "remove" | "set_secret";
+
+export interface SettingsChange {
+	/** Setting path, for example `app.site_name` or `smtp[0].host`. */
+	path: NonEmptyString;
+	action: SettingsChangeAction;
+	/** Current value with secret fields redacted. */
+	before?: unknown;
+	/** Desired value with secret fields redacted. */
+	after?: unknown;
+	/** Environment variable referenced by a `set_secret` change. */
+	env?: string;
+	/** Whether the referenced environment variable holds a value. */
+	resolved?: boolean;
+}
+
+export interface SettingsManifestReconcileOutput {
+	schema_version: 1;
+	dry_run: boolean;
+	/**
+	 * True when no readable setting drifts from the manifest. Listmonk masks
+	 * secrets, so `set_secret` changes are always planned and never count as
+	 * drift.
+	 */
+	in_sync: boolean;
+	applied: boolean;
+	changes: SettingsChange[];
+}
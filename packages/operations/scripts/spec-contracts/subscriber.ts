@@ -220,3 +220,69 @@ export interface SubscriberHygieneOutput {
 	}>;
 	errors: string[];
 }
+
+export type SubscriberImportMode = "subscribe" | "blocklist";
+
+export type SubscriberImportColumn = "email" | "name" | "attributes";
+
+export interface SubscriberImportStartInput {
+	/** Subscriber CSV with a header row. */
+	csv: NonEmptyString;
+	/** Import mode. Defaults to "subscribe". */
+	mode?: SubscriberImportMode;
+	/** Single-character field delimiter. Defaults to ",". */
+	delimiter?: string & tags.MinLength<1> & tags.MaxLength<1>;
+	list_ids?: ResourceId[];
+	/** Overwrite names and attributes of existing subscribers. Defaults to false. */
+	overwrite?: boolean;
+	subscription_status?: "unconfirmed" | "confirmed" | "unsubscribed";
+	/** Maps CSV header names to columns; unmapped headers named email, name or attributes map themselves. */
+	columns?: Record<string, SubscriberImportColumn>;
+	/** Validate the CSV without uploading it. Defaults to false. */
+	dry_run?: boolean;
+}
+
+export interface SubscriberImportIssue {
+	/** 1-based CSV line of the record, counting the header as line 1. */
+	row: PositiveInteger;
+	column?: SubscriberImportColumn;
+	code:
+		| "invalid_email"
+		| "duplicate_email"
+		| "invalid_attributes"
+		| "column_count";
+	message: string;
+}
+
+export interface SubscriberImportValidation {
+	rows: NonNegativeInteger;
+	valid_rows: NonNegativeInteger;
+	/** Source header mapped to each column. */
+	columns: {
+		email: string;
+		name?: string;
+		attributes?: string;
+	};
+	ignored_columns: string[];
+	issue_count: NonNegativeInteger;
+	/** The first 100 issues. */
+	issues: SubscriberImportIssue[];
+}
+
+export interface SubscriberImportStatus {
+	name?: string;
+	total: NonNegativeInteger;
+	imported: NonNegativeInteger;
+	status: string;
+}
+
+export interface SubscriberImportStartOutput {
+	dry_run: boolean;
+	validation: SubscriberImportValidation;
+	/** Importer status after the upload; absent on dry runs. */
+	import?: SubscriberImportStatus;
+}
+
+export interface SubscriberImportLogsOutput {
+	logs: string;
+}
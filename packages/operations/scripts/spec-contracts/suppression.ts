@@ -0,0 +1,83 @@
+import type { tags } from "typia";
+import type {
+	IsoDateTime,
+	NonNegativeInteger,
+	PositiveInteger,
+	Uuid,
+} from "./primitives";
+import type { ProviderProfileId } from "./provider";
+
+export type SuppressionEventKind =
+	| "delivered"
+	| "bounced"
+	| "complained"
+	| "unsubscribed"
+	| "delayed"
+	| "rejected";
+
+export interface SuppressionEvent {
+	provider_event_id: string & tags.MinLength<1> & tags.MaxLength<200>;
+	kind: SuppressionEventKind;
+	/** Listmonk subscriber UUID; events without one are skipped. */
+	subscriber_uuid?: Uuid | undefined;
+	/** Unclassified bounces are evaluated as soft bounces. */
+	bounce_type?: "hard" | "soft" | undefined;
+	occurred_at?: IsoDateTime | undefined;
+}
+
+export interface SuppressionApplyInput {
+	/** Provider profile whose suppression policy is applied. */
+	provider_id: ProviderProfileId;
+	events: SuppressionEvent[] & tags.MinItems<1> & tags.MaxItems<500>;
+	/**
+	 * Report only when true; apply when false. Optional on input and defaults
+	 * to a safe dry run (true), matching the runtime Zod schema's `.default(true)`.
+	 */
+	dry_run?: boolean;
+}
+
+export type SuppressionRule =
+	| "hard_bounce"
+	| "soft_bounce"
+	| "complaint"
+	| "unsubscribe";
+
+export type SuppressionSkipReason =
+	| "not_applicable"
+	| "missing_subscriber"
+	| "policy_disabled"
+	| "below_threshold"
+	| "subscriber_not_found"
+	| "already_suppressed";
+
+/**
+ * One suppressed subscriber. Subscriber identifiers are deliberately omitted;
+ * the triggering provider events identify the recipient.
+ */
+export interface SuppressionAction {
+	/** Whether the subscriber is (or would be) added to the blocklist. */
+	blocklist: boolean;
+	/** Lists the subscriber is (or would be) removed from. */
+	list_ids: PositiveInteger[];
+	rules: SuppressionRule[];
+	provider_event_ids: string[];
+}
+
+export interface SuppressionSkippedEvent {
+	provider_event_id: string;
+	reason: SuppressionSkipReason;
+	/** Soft bounces counted in the policy window for `below_threshold`. */
+	soft_bounces?: NonNegativeInteger | undefined;
+}
+
+export interface SuppressionApplyOutput {
+	provider_id: ProviderProfileId;
+	dry_run: boolean;
+	evaluated: NonNegativeInteger;
+	actions: SuppressionAction[];
+	skipped: SuppressionSkippedEvent[];
+	/** Subscribers blocklisted by this run; zero for dry runs. */
+	blocklisted: NonNegativeInteger;
+	/** Subscribers removed from lists by this run; zero for dry runs. */
+	removed_from_lists: NonNegativeInteger;
+}
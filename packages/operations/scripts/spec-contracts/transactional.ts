@@ -7,6 +7,7 @@ import type {
 	EmailAddress,
 	IsoDateTime,
 	IdempotencyKey,
+	NonNegativeInteger,
 	ResourceIdInput,
 } from "./primitives";
 
@@ -57,3 +58,60 @@ export interface TransactionalSendOutput {
 	idempotency_key?: IdempotencyKey | undefined;
 	expires_at?: IsoDateTime | undefined;
 }
+
+export interface TransactionalSendBatchRecipientBase {
+	data?: Record<string, unknown> | undefined;
+	idempotency_key: IdempotencyKey;
+}
+
+export type TransactionalSendBatchRecipient =
+	TransactionalSendBatchRecipientBase &
+		(
+			| {
+					subscriber_email: EmailAddress;
+					subscriber_id?: never;
+			  }
+			| {
+					subscriber_email?: never;
+					subscriber_id: ResourceId;
+			  }
+		);
+
+export interface TransactionalSendBatchInput
+	extends Omit<TransactionalSendBaseInput, "idempotency_key"> {
+	recipients: TransactionalSendBatchRecipient[] &
+		tags.MinItems<1> &
+		tags.MaxItems<1000>;
+	concurrency?:
+		| (number & tags.Type<"int64"> & tags.Minimum<1> & tags.Maximum<10>)
+		| undefined;
+	rate_per_second?:
+		| (number & tags.ExclusiveMinimum<0> & tags.Maximum<100>)
+		| undefined;
+}
+
+export interface TransactionalSendBatchResult {
+	index: NonNegativeInteger;
+	idempotency_key: IdempotencyKey;
+	status:
+		| "accepted"
+		| "replayed"
+		| "failed"
+		| "reconcile"
+		| "conflict"
+		| "not_sent";
+	sent: boolean;
+	expires_at?: IsoDateTime | undefined;
+	message?: string | undefined;
+}
+
+export interface TransactionalSendBatchOutput {
+	total: NonNegativeInteger;
+	accepted: NonNegativeInteger;
+	replayed: NonNegativeInteger;
+	failed: NonNegativeInteger;
+	reconcile: NonNegativeInteger;
+	conflict: NonNegativeInteger;
+	not_sent: NonNegativeInteger;
+	results: TransactionalSendBatchResult[];
+}
@@ -87,7 +87,9 @@ export type WebhookEventType =
 	| "sequence.paused"
 	| "sequence.resumed"
 	| "sequence.reconciled"
+	| "sequence.migrated"
 	| "sequence.deleted"
+	| "sequence.step-event"
 	| "webhook.test";
 
 export type WebhookEventFamily =
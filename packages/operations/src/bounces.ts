@@ -0,0 +1,690 @@
+import type { ListmonkClient } from "@listmonk-ops/openapi";
+import {
+	bindBounceDeleteOperationSpec,
+	bindBounceGetOperationSpec,
+	bindBounceListOperationSpec,
+	bindBouncePurgeOperationSpec,
+	bindBounceSummaryOperationSpec,
+} from "./specs";
+import { z } from "zod";
+import { defineOperationCatalog } from "./catalog";
+import {
+	defineOperation,
+	normalizeOperationExecutionError,
+	parseOperationInput,
+	parseOperationOutput,
+} from "./operation";
+import {
+	deleteResourceSafety,
+	isResourceMissingError,
+	jsonResourceValue,
+	normalizeResourceList,
+	readResourceSafety,
+	resourceIdSchema,
+	unwrapResourceResponse,
+} from "./resource-helpers";
+
+/** Upper bound for the bounce IDs accepted by one `bounces.purge` call. */
+export const BOUNCE_PURGE_MAX_IDS = 1000;
+/** Page size requested while `bounces.summary` scans bounce records. */
+export const BOUNCE_SUMMARY_PAGE_SIZE = 100;
+
+export interface BounceOperationContext {
+	client: Pick<ListmonkClient, "bounce" | "campaign">;
+}
+
+const bounceRecordSchema = z.looseObject({
+	id: z.number().int().positive().optional(),
+	type: z.string().optional(),
+	source: z.string().optional(),
+	meta: z.looseObject({}).optional(),
+	created_at: z.string().optional(),
+	email: z.string().optional(),
+	subscriber_uuid: z.string().optional(),
+	subscriber_id: z.number().int().positive().optional(),
+	campaign: z
+		.looseObject({
+			id: z.number().int().positive().optional(),
+			name: z.string().optional(),
+		})
+		.nullable()
+		.optional(),
+	campaign_uuid: z.string().optional(),
+});
+
+const bounceListInputSchema = z.object({
+	page: z.coerce.number().int().positive().default(1).describe("Page number"),
+	per_page: z.coerce
+		.number()
+		.int()
+		.positive()
+		.default(20)
+		.describe("Items per page"),
+	campaign_id: resourceIdSchema.optional().describe("Filter by campaign ID"),
+	source: z.string().trim().min(1).optional().describe("Filter by source"),
+	order_by: z
+		.enum(["email", "campaign_name", "source", "created_at"])
+		.optional(),
+	order: z.enum(["asc", "desc"]).optional(),
+});
+
+const bounceListOutputSchema = z.object({
+	results: z.array(bounceRecordSchema),
+	total: z.number(),
+	per_page: z.number(),
+	page: z.number(),
+});
+
+const bounceIdInputSchema = z.object({
+	id: resourceIdSchema,
+});
+
+const deleteBounceOutputSchema = z.object({
+	id: z.number().int().positive(),
+	deleted: z.boolean(),
+});
+
+const bouncePurgeInputSchema = z
+	.object({
+		ids: z
+			.array(resourceIdSchema)
+			.min(1)
+			.max(BOUNCE_PURGE_MAX_IDS)
+			.optional()
+			.describe("Bounce IDs to delete"),
+		all: z.literal(true).optional().describe("Delete every bounce record"),
+		dry_run: z
+			.boolean()
+			.default(true)
+			.describe("Report the purge without deleting"),
+	})
+	.refine((input) => (input.ids === undefined) !== (input.all === undefined), {
+		message: "Provide exactly one of ids or all=true",
+		path: ["ids"],
+	});
+
+const bouncePurgeOutputSchema = z.object({
+	dry_run: z.boolean(),
+	all: z.boolean(),
+	ids: z.array(z.number().int().positive()).optional(),
+	bounce_count: z.number().int().nonnegative(),
+	deleted: z.boolean(),
+});
+
+const bounceSummaryInputSchema = z.object({
+	campaign_id: resourceIdSchema.optional().describe("Filter by campaign ID"),
+	source: z.string().trim().min(1).optional().describe("Filter by source"),
+	max_bounces: z.coerce
+		.number()
+		.int()
+		.min(1)
+		.max(50_000)
+		.default(10_000)
+		.describe("Maximum bounce records to scan"),
+	max_groups: z.coerce
+		.number()
+		.int()
+		.min(1)
+		.max(100)
+		.default(20)
+		.describe("Campaign and domain groups to return"),
+});
+
+const bounceTypeCountsSchema = z.object({
+	bounces: z.number().int().nonnegative(),
+	soft: z.number().int().nonnegative(),
+	hard: z.number().int().nonnegative(),
+	complaint: z.number().int().nonnegative(),
+	other: z.number().int().nonnegative(),
+});
+
+const bounceCampaignSummarySchema = bounceTypeCountsSchema.extend({
+	campaign_id: z.number().int().positive().optional(),
+	campaign_name: z.string().optional(),
+	sent: z.number().int().nonnegative().optional(),
+	bounce_rate: z.number().nonnegative().optional(),
+});
+
+const bounceDomainSummarySchema = bounceTypeCountsSchema.extend({
+	domain: z.string(),
+});
+
+const bounceSummaryOutputSchema = z.object({
+	total: z.number().int().nonnegative(),
+	scanned: z.number().int().nonnegative(),
+	truncated: z.boolean(),
+	types: bounceTypeCountsSchema,
+	campaign_count: z.number().int().nonnegative(),
+	campaigns: z.array(bounceCampaignSummarySchema),
+	domain_count: z.number().int().nonnegative(),
+	domains: z.array(bounceDomainSummarySchema),
+});
+
+export type BounceRecord = z.output<typeof bounceRecordSchema>;
+export type BounceListPage = z.output<typeof bounceListOutputSchema>;
+export type BouncePurgeInput = z.input<typeof bouncePurgeInputSchema>;
+export type BouncePurgeResult = z.output<typeof bouncePurgeOutputSchema>;
+export type BounceTypeCounts = z.output<typeof bounceTypeCountsSchema>;
+export type BounceCampaignSummary = z.output<
+	typeof bounceCampaignSummarySchema
+>;
+export type BounceDomainSummary = z.output<typeof bounceDomainSummarySchema>;
+export type BounceSummary = z.output<typeof bounceSummaryOutputSchema>;
+
+function asBounceRecord(value: unknown): BounceRecord {
+	return value as BounceRecord;
+}
+
+export async function listBounces(
+	{ client }: BounceOperationContext,
+	input: z.output<typeof bounceListInputSchema>,
+): Promise<BounceListPage> {
+	const response = await client.bounce.list({
+		page: input.page,
+		per_page: input.per_page,
+		...(input.campaign_id === undefined
+			? {}
+			: { campaign_id: input.campaign_id }),
+		...(input.source === undefined ? {} : { source: input.source }),
+		...(input.order_by === undefined ? {} : { order_by: input.order_by }),
+		...(input.order === undefined ? {} : { order: input.order }),
+	});
+	const page = normalizeResourceList(
+		unwrapResourceResponse(response, "Failed to fetch bounces"),
+		{ page: input.page, per_page: input.per_page },
+	);
+	return { ...page, results: page.results.map(asBounceRecord) };
+}
+
+/**
+ * The generated Listmonk client types a single bounce as a `results`
+ * collection; accept both that envelope and the bare record the API returns.
+ */
+export async function getBounce(
+	{ client }: BounceOperationContext,
+	input: z.output<typeof bounceIdInputSchema>,
+): Promise<BounceRecord> {
+	const response = await client.bounce.getById({ path: { id: input.id } });
+	const data: unknown = unwrapResourceResponse(
+		response,
+		"Failed to fetch bounce",
+	);
+	if (data && typeof data === "object" && "results" in data) {
+		const [record] = Array.isArray(data.results) ? data.results : [];
+		if (record === undefined) {
+			throw new Error(`Failed to fetch bounce: bounce ${input.id} not found`);
+		}
+		return asBounceRecord(record);
+	}
+	return asBounceRecord(data);
+}
+
+export async function deleteBounce(
+	{ client }: BounceOperationContext,
+	input: z.output<typeof bounceIdInputSchema>,
+): Promise<z.output<typeof deleteBounceOutputSchema>> {
+	const response = await client.bounce.deleteById({ path: { id: input.id } });
+	return {
+		id: input.id,
+		deleted: unwrapResourceResponse(response, "Failed to delete bounce"),
+	};
+}
+
+async function countBounces(
+	client: BounceOperationContext["client"],
+): Promise<number> {
+	const response = await client.bounce.list({ page: 1, per_page: 1 });
+	return normalizeResourceList(
+		unwrapResourceResponse(response, "Failed to count bounces"),
+		{ page: 1, per_page: 1 },
+	).total;
+}
+
+/**
+ * Delete bounces by ID or all at once. Dry runs are the default because
+ * bounce history feeds Listmonk's blocklist thresholds and cannot be
+ * restored; an `all` dry run reports Listmonk's current bounce total.
+ */
+export async function purgeBounces(
+	{ client }: BounceOperationContext,
+	input: z.output<typeof bouncePurgeInputSchema>,
+): Promise<BouncePurgeResult> {
+	const ids = input.ids === undefined ? undefined : [...new Set(input.ids)];
+	const all = ids === undefined;
+	const bounceCount = ids?.length ?? (await countBounces(client));
+	if (input.dry_run) {
+		return {
+			dry_run: true,
+			all,
+			...(ids === undefined ? {} : { ids }),
+			bounce_count: bounceCount,
+			deleted: false,
+		};
+	}
+
+	const response = await client.bounce.delete({
+		query: ids === undefined ? { all: true } : { id: ids.join(",") },
+	});
+	return {
+		dry_run: false,
+		all,
+		...(ids === undefined ? {} : { ids }),
+		bounce_count: bounceCount,
+		deleted: unwrapResourceResponse(response, "Failed to delete bounces"),
+	};
+}
+
+function emptyTypeCounts(): BounceTypeCounts {
+	return { bounces: 0, soft: 0, hard: 0, complaint: 0, other: 0 };
+}
+
+function countBounceType(counts: BounceTypeCounts, type: string | undefined) {
+	counts.bounces += 1;
+	const normalized = type?.toLowerCase();
+	if (
+		normalized === "soft" ||
+		normalized === "hard" ||
+		normalized === "complaint"
+	) {
+		counts[normalized] += 1;
+	} else {
+		counts.other += 1;
+	}
+}
+
+function bounceDomain(email: string | undefined): string {
+	const at = email?.lastIndexOf("@") ?? -1;
+	if (email === undefined || at < 0 || at === email.length - 1) {
+		return "(unknown)";
+	}
+	return email.slice(at + 1).toLowerCase();
+}
+
+function byBounceCount<T extends BounceTypeCounts>(
+	key: (group: T) => string | number,
+) {
+	return (left: T, right: T): number => {
+		if (left.bounces !== right.bounces) {
+			return right.bounces - left.bounces;
+		}
+		const leftKey = key(left);
+		const rightKey = key(right);
+		return leftKey < rightKey ? -1 : leftKey > rightKey ? 1 : 0;
+	};
+}
+
+/**
+ * Campaign send counts are optional enrichment: a campaign deleted after it
+ * bounced leaves its group without `sent` or `bounce_rate`, while any other
+ * read failure still fails the summary.
+ */
+async function readCampaignSent(
+	client: BounceOperationContext["client"],
+	campaignId: number,
+): Promise<number | undefined> {
+	try {
+		const response = await client.campaign.getById({
+			path: { id: campaignId },
+		});
+		const campaign = unwrapResourceResponse(
+			response,
+			`Failed to load campaign ${campaignId} for bounce summary`,
+		);
+		return typeof campaign.sent === "number" ? campaign.sent : undefined;
+	} catch (error) {
+		if (isResourceMissingError(error)) {
+			return undefined;
+		}
+		throw error;
+	}
+}
+
+/**
+ * Scan bounce records page by page and group them by type, campaign, and
+ * recipient domain. Only the largest `max_groups` campaigns are enriched
+ * with their sent count, which keeps the campaign reads bounded.
+ */
+export async function summarizeBounces(
+	{ client }: BounceOperationContext,
+	input: z.output<typeof bounceSummaryInputSchema>,
+): Promise<BounceSummary> {
+	const types = emptyTypeCounts();
+	const campaigns = new Map<string, BounceCampaignSummary>();
+	const domains = new Map<string, BounceDomainSummary>();
+	let total = 0;
+	let scanned = 0;
+
+	for (let page = 1; scanned < input.max_bounces; page += 1) {
+		const response = await client.bounce.list({
+			page,
+			per_page: BOUNCE_SUMMARY_PAGE_SIZE,
+			...(input.campaign_id === undefined
+				? {}
+				: { campaign_id: input.campaign_id }),
+			...(input.source === undefined ? {} : { source: input.source }),
+			order_by: "created_at",
+			order: "desc",
+		});
+		const data = normalizeResourceList(
+			unwrapResourceResponse(response, "Failed to fetch bounces"),
+			{ page, per_page: BOUNCE_SUMMARY_PAGE_SIZE },
+		);
+		total = data.total;
+		const records = data.results
+			.map(asBounceRecord)
+			.slice(0, input.max_bounces - scanned);
+		for (const record of records) {
+			countBounceType(types, record.type);
+
+			const campaignId = record.campaign?.id;
+			const campaignKey = campaignId === undefined ? "" : String(campaignId);
+			let campaign = campaigns.get(campaignKey);
+			if (campaign === undefined) {
+				campaign = {
+					...(campaignId === undefined ? {} : { campaign_id: campaignId }),
+					...(record.campaign?.name === undefined
+						? {}
+						: { campaign_name: record.campaign.name }),
+					...emptyTypeCounts(),
+				};
+				campaigns.set(campaignKey, campaign);
+			}
+			countBounceType(campaign, record.type);
+
+			const domain = bounceDomain(record.email);
+			let domainGroup = domains.get(domain);
+			if (domainGroup === undefined) {
+				domainGroup = { domain, ...emptyTypeCounts() };
+				domains.set(domain, domainGroup);
+			}
+			countBounceType(domainGroup, record.type);
+		}
+		scanned += records.length;
+		if (data.results.length === 0 || page * data.per_page >= total) {
+			break;
+		}
+	}
+
+	const topCampaigns = [...campaigns.values()]
+		.sort(
+			byBounceCount(
+				(group) => group.campaign_id ?? Number.MAX_SAFE_INTEGER,
+			),
+		)
+		.slice(0, input.max_groups);
+	const enrichedCampaigns = await Promise.all(
+		topCampaigns.map(async (group) => {
+			if (group.campaign_id === undefined) {
+				return group;
+			}
+			const sent = await readCampaignSent(client, group.campaign_id);
+			if (sent === undefined) {
+				return group;
+			}
+			return {
+				...group,
+				sent,
+				...(sent > 0
+					? {
+							bounce_rate:
+								Math.round((group.bounces / sent) * 10_000) / 10_000,
+						}
+					: {}),
+			};
+		}),
+	);
+
+	return {
+		total,
+		scanned,
+		truncated: scanned < total,
+		types,
+		campaign_count: campaigns.size,
+		campaigns: enrichedCampaigns,
+		domain_count: domains.size,
+		domains: [...domains.values()]
+			.sort(byBounceCount((group) => group.domain))
+			.slice(0, input.max_groups),
+	};
+}
+
+export const listBouncesOperation = defineOperation({
+	id: "bounces.list",
+	title: "List bounces",
+	description:
+		"List bounce records from Listmonk, optionally filtered by campaign or source",
+	inputSchema: bounceListInputSchema,
+	outputSchema: bounceListOutputSchema,
+	safety: readResourceSafety,
+	mcp: { name: "listmonk_get_bounces", legacySuccessText: jsonResourceValue },
+	spec: bindBounceListOperationSpec(),
+	execute: listBounces,
+});
+
+export const getBounceOperation = defineOperation({
+	id: "bounces.get",
+	title: "Get bounce",
+	description: "Get a bounce record by ID",
+	inputSchema: bounceIdInputSchema,
+	outputSchema: bounceRecordSchema,
+	safety: readResourceSafety,
+	mcp: { name: "listmonk_get_bounce", legacySuccessText: jsonResourceValue },
+	spec: bindBounceGetOperationSpec(),
+	execute: getBounce,
+});
+
+export const deleteBounceOperation = defineOperation({
+	id: "bounces.delete",
+	title: "Delete bounce",
+	description: "Delete a bounce record by ID",
+	inputSchema: bounceIdInputSchema,
+	outputSchema: deleteBounceOutputSchema,
+	safety: deleteResourceSafety,
+	mcp: {
+		name: "listmonk_delete_bounce",
+		legacySuccessText: "Bounce deleted successfully",
+	},
+	spec: bindBounceDeleteOperationSpec(),
+	execute: deleteBounce,
+});
+
+export const purgeBouncesOperation = defineOperation({
+	id: "bounces.purge",
+	title: "Purge bounces",
+	description:
+		"Delete bounce records by ID or all of them; dry_run (the default) reports how many records would be deleted",
+	inputSchema: bouncePurgeInputSchema,
+	outputSchema: bouncePurgeOutputSchema,
+	safety: deleteResourceSafety,
+	mcp: {
+		name: "listmonk_delete_bounces",
+		legacySuccessText: (output) =>
+			output.dry_run
+				? `Dry run: ${output.bounce_count} bounces would be deleted`
+				: "Bounces deleted successfully",
+	},
+	spec: bindBouncePurgeOperationSpec(),
+	execute: purgeBounces,
+});
+
+export const summarizeBouncesOperation = defineOperation({
+	id: "bounces.summary",
+	title: "Summarize bounces",
+	description:
+		"Summarize bounce records by type, campaign (with bounce rate against sent messages), and recipient domain",
+	inputSchema: bounceSummaryInputSchema,
+	outputSchema: bounceSummaryOutputSchema,
+	safety: readResourceSafety,
+	mcp: {
+		name: "listmonk_get_bounce_summary",
+		legacySuccessText: jsonResourceValue,
+	},
+	spec: bindBounceSummaryOperationSpec(),
+	execute: summarizeBounces,
+});
+
+export async function invokeListBouncesOperation(
+	context: BounceOperationContext,
+	input: unknown,
+): Promise<BounceListPage> {
+	const parsedInput = parseOperationInput(
+		listBouncesOperation.inputSchema,
+		input,
+	);
+	let output: BounceListPage;
+	try {
+		output = await listBounces(context, parsedInput);
+	} catch (error) {
+		throw normalizeOperationExecutionError(listBouncesOperation.id, error);
+	}
+	return parseOperationOutput(
+		listBouncesOperation.id,
+		listBouncesOperation.outputSchema,
+		output,
+	);
+}
+
+export async function invokeGetBounceOperation(
+	context: BounceOperationContext,
+	input: unknown,
+): Promise<BounceRecord> {
+	const parsedInput = parseOperationInput(
+		getBounceOperation.inputSchema,
+		input,
+	);
+	let output: BounceRecord;
+	try {
+		output = await getBounce(context, parsedInput);
+	} catch (error) {
+		throw normalizeOperationExecutionError(getBounceOperation.id, error);
+	}
+	return parseOperationOutput(
+		getBounceOperation.id,
+		getBounceOperation.outputSchema,
+		output,
+	);
+}
+
+export async function invokeDeleteBounceOperation(
+	context: BounceOperationContext,
+	input: unknown,
+): Promise<z.output<typeof deleteBounceOutputSchema>> {
+	const parsedInput = parseOperationInput(
+		deleteBounceOperation.inputSchema,
+		input,
+	);
+	let output: z.output<typeof deleteBounceOutputSchema>;
+	try {
+		output = await deleteBounce(context, parsedInput);
+	} catch (error) {
+		throw normalizeOperationExecutionError(deleteBounceOperation.id, error);
+	}
+	return parseOperationOutput(
+		deleteBounceOperation.id,
+		deleteBounceOperation.outputSchema,
+		output,
+	);
+}
+
+export async function invokePurgeBouncesOperation(
+	context: BounceOperationContext,
+	input: unknown,
+): Promise<BouncePurgeResult> {
+	const parsedInput = parseOperationInput(
+		purgeBouncesOperation.inputSchema,
+		input,
+	);
+	let output: BouncePurgeResult;
+	try {
+		output = await purgeBounces(context, parsedInput);
+	} catch (error) {
+		throw normalizeOperationExecutionError(purgeBouncesOperation.id, error);
+	}
+	return parseOperationOutput(
+		purgeBouncesOperation.id,
+		purgeBouncesOperation.outputSchema,
+		output,
+	);
+}
+
+export async function invokeSummarizeBouncesOperation(
+	context: BounceOperationContext,
+	input: unknown,
+): Promise<BounceSummary> {
+	const parsedInput = parseOperationInput(
+		summarizeBouncesOperation.inputSchema,
+		input,
+	);
+	let output: BounceSummary;
+	try {
+		output = await summarizeBounces(context, parsedInput);
+	} catch (error) {
+		throw normalizeOperationExecutionError(
+			summarizeBouncesOperation.id,
+			error,
+		);
+	}
+	return parseOperationOutput(
+		summarizeBouncesOperation.id,
+		summarizeBouncesOperation.outputSchema,
+		output,
+	);
+}
+
+export const bounceOperations = [
+	listBouncesOperation,
+	getBounceOperation,
+	deleteBounceOperation,
+	purgeBouncesOperation,
+	summarizeBouncesOperation,
+] as const;
+
+export const bounceOperationCatalog = defineOperationCatalog({
+	id: "bounces",
+	title: "Bounces",
+	operations: bounceOperations,
+	specMigrationExemptions: [],
+});
+
+export type BounceOperation = (typeof bounceOperations)[number];
+
+export interface BounceOperationInvocation {
+	operation: BounceOperation;
+	output: Record<string, unknown>;
+}
+
+export async function invokeBounceOperationByMcpName(
+	context: BounceOperationContext,
+	name: string,
+	input: unknown,
+): Promise<BounceOperationInvocation | undefined> {
+	switch (name) {
+		case listBouncesOperation.mcp.name:
+			return {
+				operation: listBouncesOperation,
+				output: await invokeListBouncesOperation(context, input),
+			};
+		case getBounceOperation.mcp.name:
+			return {
+				operation: getBounceOperation,
+				output: await invokeGetBounceOperation(context, input),
+			};
+		case deleteBounceOperation.mcp.name:
+			return {
+				operation: deleteBounceOperation,
+				output: await invokeDeleteBounceOperation(context, input),
+			};
+		case purgeBouncesOperation.mcp.name:
+			return {
+				operation: purgeBouncesOperation,
+				output: await invokePurgeBouncesOperation(context, input),
+			};
+		case summarizeBouncesOperation.mcp.name:
+			return {
+				operation: summarizeBouncesOperation,
+				output: await invokeSummarizeBouncesOperation(context, input),
+			};
+		default:
+			return undefined;
+	}
+}
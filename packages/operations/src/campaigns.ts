@@ -1,15 +1,22 @@
-import type { Campaign, ListmonkClient } from "@listmonk-ops/openapi";
+import type {
+	Campaign,
+	ListmonkClient,
+	Subscriber,
+} from "@listmonk-ops/openapi";
 import {
 	bindCampaignCancelOperationSpec,
 	bindCampaignGetOperationSpec,
 	bindCampaignScheduleOperationSpec,
 	bindCampaignStartOperationSpec,
+	bindCampaignsAnalyticsOperationSpec,
 	bindCampaignsCloneOperationSpec,
 	bindCampaignsCreateOperationSpec,
 	bindCampaignsDeleteOperationSpec,
 	bindCampaignsListOperationSpec,
 	bindCampaignsPauseOperationSpec,
+	bindCampaignsPreviewOperationSpec,
 	bindCampaignsStatsOperationSpec,
+	bindCampaignsTestSendOperationSpec,
 	bindCampaignsUpdateOperationSpec,
 } from "./specs";
 import { z } from "zod";
@@ -32,6 +39,7 @@ import {
 	type CampaignLifecycleTarget,
 } from "./campaign-lifecycle";
 import { CAMPAIGN_SEND_AT_PATTERN } from "./campaign-send-at";
+import { readListmonkBooleanSetting } from "./settings";
 import {
 	defineOperation,
 	normalizeOperationExecutionError,
@@ -40,7 +48,23 @@ import {
 } from "./operation";
 
 export interface CampaignOperationContext {
-	client: Pick<ListmonkClient, "campaign">;
+	/**
+	 * Settings access is optional; `campaigns.analytics` uses it only to
+	 * report whether Listmonk counted unique subscribers or every event.
+	 * `campaigns.preview` needs subscriber access only when rendering for
+	 * a chosen subscriber.
+	 */
+	client: Pick<ListmonkClient, "campaign"> &
+		Partial<Pick<ListmonkClient, "settings" | "subscriber">>;
+	/**
+	 * Seed recipient policy for `campaigns.test-send`. Returns the
+	 * normalized recipients and a checksum of the set, or throws when a
+	 * recipient is not allowed. Test sends are refused without one.
+	 */
+	validateSeedRecipients?: (emails: string[]) => {
+		emails: string[];
+		recipientSetChecksum: string;
+	};
 }
 
 const campaignTypeSchema = z.enum(["regular", "optin"]);
@@ -211,6 +235,9 @@ type CampaignUpdateBody = NonNullable<
 type CampaignListOptions = Parameters<
 	ListmonkClient["campaign"]["list"]
 >[0];
+type CampaignTestBody = Parameters<
+	ListmonkClient["campaign"]["test"]
+>[0]["body"];
 
 function asCampaign(value: Campaign): z.output<typeof campaignSchema> {
 	return value as z.output<typeof campaignSchema>;
@@ -478,10 +505,131 @@ const campaignLifecycleOutputSchema = z.object({
 	status: z.string(),
 });
 
+const campaignAnalyticsBucketSchema = z.enum(["hour", "day", "week"]);
+
+const campaignAnalyticsInputSchema = z
+	.object({
+		id: resourceIdSchema,
+		from: z.iso
+			.datetime({ offset: true })
+			.optional()
+			.describe("Range start; defaults to when the campaign started"),
+		to: z.iso
+			.datetime({ offset: true })
+			.optional()
+			.describe("Range end; defaults to now"),
+		bucket: campaignAnalyticsBucketSchema
+			.default("day")
+			.describe("Time bucket for the view, click, and bounce series"),
+		top_links: z.coerce
+			.number()
+			.int()
+			.min(1)
+			.max(50)
+			.default(10)
+			.describe("Most-clicked links to return"),
+	})
+	.refine(
+		({ from, to }) =>
+			from === undefined || to === undefined || Date.parse(from) < Date.parse(to),
+		{ message: "to must be after from", path: ["to"] },
+	);
+
+const campaignAnalyticsCountsSchema = z.object({
+	views: z.number().int().nonnegative(),
+	clicks: z.number().int().nonnegative(),
+	bounces: z.number().int().nonnegative(),
+});
+
+const campaignAnalyticsOutputSchema = z.object({
+	campaign: z.object({
+		id: z.number().int().positive(),
+		name: z.string().optional(),
+		status: z.string().optional(),
+	}),
+	range: z.object({
+		from: z.iso.datetime(),
+		to: z.iso.datetime(),
+	}),
+	bucket: campaignAnalyticsBucketSchema,
+	counting: z.enum(["unique", "total", "unknown"]),
+	totals: z.object({
+		views: z.number().nullable(),
+		clicks: z.number().nullable(),
+		bounces: z.number().nullable(),
+		sent: z.number().nullable(),
+		to_send: z.number().nullable(),
+	}),
+	range_totals: campaignAnalyticsCountsSchema,
+	series: z.array(
+		campaignAnalyticsCountsSchema.extend({
+			start: z.string(),
+		}),
+	),
+	top_links: z.array(
+		z.object({
+			url: z.string(),
+			count: z.number().int().nonnegative(),
+		}),
+	),
+});
+
+const campaignAnalyticsCountRowSchema = z.looseObject({
+	count: z.number().int().nonnegative(),
+	timestamp: z.string(),
+});
+
+const campaignAnalyticsLinkRowSchema = z.looseObject({
+	url: z.string(),
+	count: z.number().int().nonnegative(),
+});
+
+const campaignPreviewInputSchema = z.object({
+	id: resourceIdSchema,
+	subscriber_id: resourceIdSchema.optional(),
+});
+
+const campaignPreviewOutputSchema = z.object({
+	campaign: z.object({
+		id: z.number().int().positive(),
+		name: z.string().optional(),
+		content_type: z.string().optional(),
+		template_id: z.number().int().positive().nullable().optional(),
+	}),
+	subscriber: z
+		.object({ id: z.number().int().positive(), email: z.string() })
+		.nullable(),
+	html: z.string(),
+	text: z.string(),
+});
+
+const campaignTestSendInputSchema = z.object({
+	id: resourceIdSchema,
+	emails: z.array(z.string()).min(1),
+});
+
+const campaignTestSendOutputSchema = z.object({
+	id: z.number().int().positive(),
+	recipient_count: z.number().int().positive(),
+	recipient_set_checksum: z.string().min(1),
+});
+
 export type CampaignStatsOutput = z.output<typeof campaignStatsOutputSchema>;
+export type CampaignAnalyticsBucket = z.output<
+	typeof campaignAnalyticsBucketSchema
+>;
+export type CampaignAnalyticsOutput = z.output<
+	typeof campaignAnalyticsOutputSchema
+>;
 export type CampaignLifecycleOutput = z.output<
 	typeof campaignLifecycleOutputSchema
 >;
+export type CampaignPreviewOutput = z.output<
+	typeof campaignPreviewOutputSchema
+>;
+export type CampaignTestSendOutput = z.output<
+	typeof campaignTestSendOutputSchema
+>;
 
 /**
  * Load the current campaign and assert that the requested transition is
@@ -820,6 +968,353 @@ export async function getCampaignStats(
 	};
 }
 
+// Listmonk buckets its series by hour for ranges under 7 days and by day
+// otherwise, so hourly buckets are only available for short ranges.
+const HOURLY_ANALYTICS_RANGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+type CampaignAnalyticsCountType = "views" | "clicks" | "bounces";
+
+async function loadCampaignAnalyticsRows<T extends z.ZodType>(
+	client: Pick<ListmonkClient, "campaign">,
+	id: number,
+	type: CampaignAnalyticsCountType | "links",
+	range: { from: string; to: string },
+	rowSchema: T,
+): Promise<z.output<T>[]> {
+	const context = `Failed to load ${type} analytics for campaign ${id}`;
+	const data: unknown = unwrapResourceResponse(
+		await client.campaign.getAnalytics({
+			path: { type },
+			query: { ...range, id: String(id) },
+		}),
+		context,
+	);
+	const rows = z.array(rowSchema).nullable().safeParse(data);
+	if (!rows.success) {
+		throw new Error(`${context}: unexpected response shape`);
+	}
+	return rows.data ?? [];
+}
+
+/**
+ * Listmonk counts views, clicks, and link clicks once per subscriber when
+ * individual tracking is on. Bounces are always counted per event.
+ */
+async function readCampaignAnalyticsCounting(
+	client: CampaignOperationContext["client"],
+): Promise<CampaignAnalyticsOutput["counting"]> {
+	const tracking = await readListmonkBooleanSetting(
+		client,
+		"privacy.individual_tracking",
+	);
+	if (tracking === undefined) return "unknown";
+	return tracking ? "unique" : "total";
+}
+
+/**
+ * Bucket starts keep the calendar of the timestamps Listmonk reports (its
+ * database time zone); weeks start on Monday.
+ */
+function campaignAnalyticsBucketStart(
+	timestamp: string,
+	bucket: CampaignAnalyticsBucket,
+): string {
+	const match = /^(\d{4}-\d{2}-\d{2})[T ](\d{2})/.exec(timestamp);
+	if (!match) {
+		throw new Error(
+			`Listmonk returned an invalid analytics timestamp: ${timestamp}`,
+		);
+	}
+	const [, date = "", hour = ""] = match;
+	if (bucket === "hour") return `${date}T${hour}:00`;
+	if (bucket === "day") return date;
+	const day = new Date(`${date}T00:00:00Z`);
+	day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7));
+	return day.toISOString().slice(0, 10);
+}
+
+/**
+ * Read view, click, and bounce series plus the most-clicked links for a
+ * campaign over a date range. The range defaults to the campaign's start
+ * until now; `totals` are the campaign's all-time counters.
+ */
+export async function getCampaignAnalytics(
+	ctx: CampaignOperationContext,
+	input: z.output<typeof campaignAnalyticsInputSchema>,
+): Promise<CampaignAnalyticsOutput> {
+	const campaign = asCampaign(
+		unwrapResourceResponse(
+			await ctx.client.campaign.getById({ path: { id: input.id } }),
+			`Failed to load campaign ${input.id} for analytics`,
+		),
+	);
+	const start = input.from ?? campaign.started_at ?? campaign.created_at;
+	if (!start) {
+		throw new Error(
+			`Campaign ${input.id} has no start time; pass from to choose a range`,
+		);
+	}
+	const from = new Date(start);
+	const to = input.to === undefined ? new Date() : new Date(input.to);
+	if (!(from.getTime() < to.getTime())) {
+		throw new Error(
+			`Analytics range for campaign ${input.id} must end after ${from.toISOString()}`,
+		);
+	}
+	if (
+		input.bucket === "hour" &&
+		to.getTime() - from.getTime() >= HOURLY_ANALYTICS_RANGE_MS
+	) {
+		throw new Error(
+			"Hourly buckets need a range shorter than 7 days; use day or week buckets",
+		);
+	}
+
+	const range = { from: from.toISOString(), to: to.toISOString() };
+	const countTypes: readonly CampaignAnalyticsCountType[] = [
+		"views",
+		"clicks",
+		"bounces",
+	];
+	const [counting, links, ...countRows] = await Promise.all([
+		readCampaignAnalyticsCounting(ctx.client),
+		loadCampaignAnalyticsRows(
+			ctx.client,
+			input.id,
+			"links",
+			range,
+			campaignAnalyticsLinkRowSchema,
+		),
+		...countTypes.map((type) =>
+			loadCampaignAnalyticsRows(
+				ctx.client,
+				input.id,
+				type,
+				range,
+				campaignAnalyticsCountRowSchema,
+			),
+		),
+	]);
+
+	const buckets = new Map<string, CampaignAnalyticsOutput["series"][number]>();
+	const rangeTotals = { views: 0, clicks: 0, bounces: 0 };
+	countTypes.forEach((type, index) => {
+		for (const row of countRows[index] ?? []) {
+			const bucketStart = campaignAnalyticsBucketStart(
+				row.timestamp,
+				input.bucket,
+			);
+			const entry = buckets.get(bucketStart) ?? {
+				start: bucketStart,
+				views: 0,
+				clicks: 0,
+				bounces: 0,
+			};
+			entry[type] += row.count;
+			rangeTotals[type] += row.count;
+			buckets.set(bucketStart, entry);
+		}
+	});
+
+	return {
+		campaign: {
+			id: input.id,
+			name: campaign.name,
+			status: campaign.status,
+		},
+		range,
+		bucket: input.bucket,
+		counting,
+		totals: {
+			views: campaign.views ?? null,
+			clicks: campaign.clicks ?? null,
+			bounces: campaign.bounces ?? null,
+			sent: campaign.sent ?? null,
+			to_send: campaign.to_send ?? null,
+		},
+		range_totals: rangeTotals,
+		series: [...buckets.values()].sort((left, right) =>
+			left.start.localeCompare(right.start),
+		),
+		top_links: links
+			.map(({ url, count }) => ({ url, count }))
+			.sort((left, right) => right.count - left.count)
+			.slice(0, input.top_links),
+	};
+}
+
+// Listmonk renders previews for a demo subscriber and cannot render for a
+// real one, so a chosen subscriber's plain `.Subscriber` fields are put
+// into the body before rendering. Tokens inside template logic and in the
+// campaign template still render with the demo subscriber.
+const SUBSCRIBER_TOKEN_PATTERN =
+	/\{\{\s*\.Subscriber\.(Name|FirstName|LastName|Email|UUID|Attribs\.([A-Za-z_][A-Za-z0-9_]*))\s*\}\}/g;
+
+function escapeHtml(value: string): string {
+	return value
+		.replaceAll("&", "&amp;")
+		.replaceAll("<", "&lt;")
+		.replaceAll(">", "&gt;")
+		.replaceAll('"', "&#34;")
+		.replaceAll("'", "&#39;");
+}
+
+function substituteSubscriberTokens(body: string, subscriber: Subscriber) {
+	const nameParts = (subscriber.name ?? "").split(" ");
+	return body.replace(
+		SUBSCRIBER_TOKEN_PATTERN,
+		(token, field: string, attribute: string | undefined) => {
+			let value: unknown;
+			if (attribute !== undefined) {
+				value = subscriber.attribs?.[attribute];
+			} else if (field === "FirstName") {
+				value = nameParts[0];
+			} else if (field === "LastName") {
+				value = nameParts.at(-1);
+			} else {
+				value = {
+					Name: subscriber.name,
+					Email: subscriber.email,
+					UUID: subscriber.uuid,
+				}[field];
+			}
+			// Listmonk's HTML templates escape every interpolated value.
+			return typeof value === "string" ||
+				typeof value === "number" ||
+				typeof value === "boolean"
+				? escapeHtml(String(value))
+				: token;
+		},
+	);
+}
+
+/**
+ * Render the HTML and text previews of a campaign through its template.
+ * Without a subscriber this is Listmonk's own preview; with one, the
+ * stored body is rendered after {@link substituteSubscriberTokens}.
+ */
+export async function previewCampaign(
+	ctx: CampaignOperationContext,
+	input: z.output<typeof campaignPreviewInputSchema>,
+): Promise<CampaignPreviewOutput> {
+	const { client } = ctx;
+	const campaign = asCampaign(
+		unwrapResourceResponse(
+			await client.campaign.getById({ path: { id: input.id } }),
+			`Failed to load campaign ${input.id} for preview`,
+		),
+	);
+	let subscriber: CampaignPreviewOutput["subscriber"] = null;
+	let body = campaign.body ?? "";
+	if (input.subscriber_id !== undefined) {
+		if (!client.subscriber) {
+			throw new Error(
+				"Rendering a campaign preview for a subscriber requires subscriber access",
+			);
+		}
+		const record = unwrapResourceResponse(
+			await client.subscriber.getById({
+				path: { id: input.subscriber_id },
+			}),
+			`Failed to load subscriber ${input.subscriber_id} for preview`,
+		);
+		subscriber = { id: input.subscriber_id, email: record.email ?? "" };
+		body = substituteSubscriberTokens(body, record);
+	}
+	const content = {
+		template_id: campaign.template_id ?? undefined,
+		content_type: campaign.content_type,
+		body,
+	};
+	const htmlContext = `Failed to render HTML preview for campaign ${input.id}`;
+	const html: unknown = unwrapResourceResponse(
+		subscriber === null
+			? await client.campaign.preview({ path: { id: input.id } })
+			: await client.campaign.updatePreview({
+					path: { id: input.id },
+					body: content,
+				}),
+		htmlContext,
+	);
+	const text: unknown = unwrapResourceResponse(
+		await client.campaign.previewText({
+			path: { id: input.id },
+			body: content,
+		}),
+		`Failed to render text preview for campaign ${input.id}`,
+	);
+	if (typeof html !== "string" || typeof text !== "string") {
+		throw new Error(
+			`Listmonk returned a non-text preview for campaign ${input.id}`,
+		);
+	}
+	return {
+		campaign: {
+			id: input.id,
+			name: campaign.name,
+			content_type: campaign.content_type,
+			template_id: campaign.template_id,
+		},
+		subscriber,
+		html,
+		text,
+	};
+}
+
+/**
+ * Send the current campaign content to seed recipients. Recipients are
+ * checked against the context's seed policy before Listmonk is called,
+ * and Listmonk itself only sends tests to existing subscribers.
+ */
+export async function testSendCampaign(
+	ctx: CampaignOperationContext,
+	input: z.output<typeof campaignTestSendInputSchema>,
+): Promise<CampaignTestSendOutput> {
+	if (!ctx.validateSeedRecipients) {
+		throw new Error("Campaign test sends require a seed recipient policy");
+	}
+	const { emails, recipientSetChecksum } = ctx.validateSeedRecipients(
+		input.emails,
+	);
+	const campaign = asCampaign(
+		unwrapResourceResponse(
+			await ctx.client.campaign.getById({ path: { id: input.id } }),
+			`Failed to load campaign ${input.id} for test send`,
+		),
+	);
+	const numericIds = (entries: Record<string, unknown>[] | undefined) =>
+		(entries ?? [])
+			.map((entry) => Number(entry.id))
+			.filter((id) => Number.isInteger(id) && id > 0);
+	// Listmonk renders the test from the request body, not the stored
+	// campaign, so send the campaign exactly as it is stored.
+	const body: CampaignTestBody = {
+		name: campaign.name ?? `campaign-${input.id}`,
+		subject: campaign.subject ?? "",
+		from_email: campaign.from_email ?? "",
+		body: campaign.body ?? "",
+		altbody: campaign.altbody,
+		content_type: campaign.content_type ?? "html",
+		template_id: campaign.template_id,
+		headers: Array.isArray(campaign.headers) ? campaign.headers : [],
+		lists: numericIds(campaign.lists),
+		media: numericIds(campaign.media),
+		messenger: campaign.messenger ?? "email",
+		type: campaign.type ?? "regular",
+		tags: campaign.tags ?? [],
+		subscribers: emails,
+	};
+	requireAcknowledgement(
+		await ctx.client.campaign.test({ path: { id: input.id }, body }),
+		`Failed to send test of campaign ${input.id}`,
+	);
+	return {
+		id: input.id,
+		recipient_count: emails.length,
+		recipient_set_checksum: recipientSetChecksum,
+	};
+}
+
 export const getCampaignsOperation = defineOperation({
 	id: "campaigns.list",
 	title: "List campaigns",
@@ -985,6 +1480,59 @@ export const getCampaignStatsOperation = defineOperation({
 	execute: getCampaignStats,
 });
 
+export const getCampaignAnalyticsOperation = defineOperation({
+	id: "campaigns.analytics",
+	title: "Get campaign analytics",
+	description:
+		"Read view, click, and bounce series bucketed by hour, day, or week plus the most-clicked links for a campaign over a date range.",
+	inputSchema: campaignAnalyticsInputSchema,
+	outputSchema: campaignAnalyticsOutputSchema,
+	safety: readResourceSafety,
+	mcp: {
+		name: "listmonk_campaign_analytics",
+		legacySuccessText: jsonResourceValue,
+	},
+	spec: bindCampaignsAnalyticsOperationSpec(),
+	execute: getCampaignAnalytics,
+});
+
+export const previewCampaignOperation = defineOperation({
+	id: "campaigns.preview",
+	title: "Preview campaign",
+	description:
+		"Render the HTML and plain-text preview of a campaign through its template, optionally with the name, email, and attributes of a chosen subscriber.",
+	inputSchema: campaignPreviewInputSchema,
+	outputSchema: campaignPreviewOutputSchema,
+	safety: readResourceSafety,
+	mcp: {
+		name: "listmonk_preview_campaign",
+		legacySuccessText: jsonResourceValue,
+	},
+	spec: bindCampaignsPreviewOperationSpec(),
+	execute: previewCampaign,
+});
+
+export const testSendCampaignOperation = defineOperation({
+	id: "campaigns.test-send",
+	title: "Send campaign test",
+	description:
+		"Send the current campaign content to a few seed recipients. Recipients must pass the configured seed recipient policy and are reported only as a count and checksum.",
+	inputSchema: campaignTestSendInputSchema,
+	outputSchema: campaignTestSendOutputSchema,
+	safety: {
+		readOnlyHint: false,
+		destructiveHint: false,
+		idempotentHint: false,
+		openWorldHint: true,
+	},
+	mcp: {
+		name: "listmonk_test_campaign",
+		legacySuccessText: jsonResourceValue,
+	},
+	spec: bindCampaignsTestSendOperationSpec(),
+	execute: testSendCampaign,
+});
+
 export async function invokeGetCampaignsOperation(
 	context: CampaignOperationContext,
 	input: unknown,
@@ -1216,6 +1764,72 @@ export async function invokeGetCampaignStatsOperation(
 	);
 }
 
+export async function invokeGetCampaignAnalyticsOperation(
+	context: CampaignOperationContext,
+	input: unknown,
+): Promise<CampaignAnalyticsOutput> {
+	const parsedInput = parseOperationInput(
+		getCampaignAnalyticsOperation.inputSchema,
+		input,
+	);
+	let output: CampaignAnalyticsOutput;
+	try {
+		output = await getCampaignAnalytics(context, parsedInput);
+	} catch (error) {
+		throw normalizeOperationExecutionError(
+			getCampaignAnalyticsOperation.id,
+			error,
+		);
+	}
+	return parseOperationOutput(
+		getCampaignAnalyticsOperation.id,
+		getCampaignAnalyticsOperation.outputSchema,
+		output,
+	);
+}
+
+export async function invokePreviewCampaignOperation(
+	context: CampaignOperationContext,
+	input: unknown,
+): Promise<CampaignPreviewOutput> {
+	const parsedInput = parseOperationInput(
+		previewCampaignOperation.inputSchema,
+		input,
+	);
+	let output: CampaignPreviewOutput;
+	try {
+		output = await previewCampaign(context, parsedInput);
+	} catch (error) {
+		throw normalizeOperationExecutionError(previewCampaignOperation.id, error);
+	}
+	return parseOperationOutput(
+		previewCampaignOperation.id,
+		previewCampaignOperation.outputSchema,
+		output,
+	);
+}
+
+export async function invokeTestSendCampaignOperation(
+	context: CampaignOperationContext,
+	input: unknown,
+): Promise<CampaignTestSendOutput> {
+	const parsedInput = parseOperationInput(
+		testSendCampaignOperation.inputSchema,
+		input,
+	);
+	let output: CampaignTestSendOutput;
+	try {
+		output = await testSendCampaign(context, parsedInput);
+	} catch (error) {
+		throw normalizeOperationExecutionError(testSendCampaignOperation.id, error);
+	}
+	return parseOperationOutput(
+		testSendCampaignOperation.id,
+		testSendCampaignOperation.outputSchema,
+		output,
+	);
+}
+
 export const campaignOperations = [
 	getCampaignsOperation,
 	getCampaignOperation,
@@ -1228,6 +1842,9 @@ export const campaignOperations = [
 	cancelCampaignOperation,
 	cloneCampaignOperation,
 	getCampaignStatsOperation,
+	getCampaignAnalyticsOperation,
+	previewCampaignOperation,
+	testSendCampaignOperation,
 ] as const;
 
 export const campaignOperationCatalog = defineOperationCatalog({
@@ -1315,6 +1932,21 @@ export async function invokeCampaignOperationByMcpName(
 				operation: getCampaignStatsOperation,
 				output: await invokeGetCampaignStatsOperation(context, input),
 			};
+		case getCampaignAnalyticsOperation.mcp.name:
+			return {
+				operation: getCampaignAnalyticsOperation,
+				output: await invokeGetCampaignAnalyticsOperation(context, input),
+			};
+		case previewCampaignOperation.mcp.name:
+			return {
+				operation: previewCampaignOperation,
+				output: await invokePreviewCampaignOperation(context, input),
+			};
+		case testSendCampaignOperation.mcp.name:
+			return {
+				operation: testSendCampaignOperation,
+				output: await invokeTestSendCampaignOperation(context, input),
+			};
 		default:
 			return undefined;
 	}
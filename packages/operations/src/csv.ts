@@ -0,0 +1,78 @@
+import { OperationInputError } from "./operation";
+
+export interface CsvRecord {
+	/** 1-based physical line on which the record starts. */
+	line: number;
+	fields: string[];
+}
+
+/**
+ * Split RFC 4180 CSV text into records. Quoted fields may contain the
+ * delimiter, doubled quotes, and line breaks; CRLF and a leading BOM are
+ * accepted.
+ */
+export function parseCsvRecords(text: string, delimiter = ","): CsvRecord[] {
+	const source = text.startsWith("\uFEFF") ? text.slice(1) : text;
+	const records: CsvRecord[] = [];
+	let fields: string[] = [];
+	let field = "";
+	let quoted = false;
+	let line = 1;
+	let recordLine = 1;
+	let quoteLine = 1;
+
+	for (let index = 0; index < source.length; index += 1) {
+		const char = source[index];
+		if (quoted) {
+			if (char === '"') {
+				if (source[index + 1] === '"') {
+					field += '"';
+					index += 1;
+				} else {
+					quoted = false;
+				}
+			} else {
+				if (char === "\n") line += 1;
+				field += char;
+			}
+			continue;
+		}
+		if (char === '"' && field.length === 0) {
+			quoted = true;
+			quoteLine = line;
+		} else if (char === delimiter) {
+			fields.push(field);
+			field = "";
+		} else if (char === "\r" || char === "\n") {
+			if (char === "\r" && source[index + 1] === "\n") index += 1;
+			fields.push(field);
+			records.push({ line: recordLine, fields });
+			fields = [];
+			field = "";
+			line += 1;
+			recordLine = line;
+		} else {
+			field += char;
+		}
+	}
+	if (quoted) {
+		throw new OperationInputError(
+			`CSV has an unterminated quoted field starting on line ${quoteLine}`,
+		);
+	}
+	if (field.length > 0 || fields.length > 0) {
+		fields.push(field);
+		records.push({ line: recordLine, fields });
+	}
+	return records;
+}
+
+export function isBlankCsvRecord(record: CsvRecord): boolean {
+	return record.fields.every((field) => field.trim().length === 0);
+}
+
+/** Quote a comma-delimited CSV field when it holds a quote, comma, or line break. */
+export function toCsvField(value: string | number): string {
+	const text = String(value);
+	return /[",\r\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+}
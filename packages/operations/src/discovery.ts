@@ -16,10 +16,14 @@ import {
 	bindSpecDescribeOperationSpec,
 	bindSpecSearchOperationSpec,
 	cloneSpecValue,
+	defineOperationPlaybook,
 	emailOperationsSpec,
 	type EmailOperationsSpec,
 	type AnyOperationSpec,
+	type OperationId,
 	type OperationPlaybook,
+	type OperationPlaybookStep,
+	type OperationPlaybookValueSource,
 } from "./specs";
 import {
 	defineOperation,
@@ -73,10 +77,20 @@ const specSearchInputSchema = z.object({
 	limit: z.coerce.number().int().min(1).max(100).default(20),
 });
 
+const playbookSummarySchema = z.object({
+	id: z.string().min(1),
+	title: z.string().min(1),
+	goal: z.string().min(1),
+	step_count: z.number().int().positive(),
+	recovery_operation: z.string().min(1),
+	source: z.enum(["built-in", "user"]),
+});
+
 const specSearchOutputSchema = z.object({
 	query: z.string().min(1),
 	total: z.number().int().nonnegative(),
 	results: z.array(operationSearchResultSchema),
+	playbooks: z.array(playbookSummarySchema),
 });
 
 const specDescribeInputSchema = z.object({
@@ -99,14 +113,6 @@ const specDescribeOutputSchema = z.object({
 
 const emptyInputSchema = z.object({});
 
-const playbookSummarySchema = z.object({
-	id: z.string().min(1),
-	title: z.string().min(1),
-	goal: z.string().min(1),
-	step_count: z.number().int().positive(),
-	recovery_operation: z.string().min(1),
-});
-
 const playbookListOutputSchema = z.object({
 	playbooks: z.array(playbookSummarySchema),
 });
@@ -179,6 +185,13 @@ const operationPlaybookSchema = z.object({
 	recovery_operation: z.string().min(1),
 });
 
+const operationPlaybookDocumentSchema = z
+	.object({
+		schema_version: z.literal(1),
+		playbook: operationPlaybookSchema,
+	})
+	.strict();
+
 const playbookOperationReferenceSchema = z.object({
 	step_id: z.string().min(1),
 	operation: operationSearchResultSchema,
@@ -366,7 +379,14 @@ function searchableText(summary: OperationCatalogSummary): string {
 	].join(" ").toLowerCase();
 }
 
-function scoreOperation(summary: OperationCatalogSummary, query: string): number {
+interface SearchTarget {
+	identifiers: readonly string[];
+	title: string;
+	description: string;
+	text: string;
+}
+
+function scoreSearchTarget(target: SearchTarget, query: string): number {
 	const normalized = query.trim().toLowerCase();
 	if (normalized === "*") {
 		return 1;
@@ -376,23 +396,24 @@ function scoreOperation(summary: OperationCatalogSummary, query: string): number
 		return 0;
 	}
 
-	const id = summary.id.toLowerCase();
-	const mcpName = summary.mcpName.toLowerCase();
-	const title = summary.title.toLowerCase();
-	const description = summary.description.toLowerCase();
-	const all = searchableText(summary);
+	const identifiers = target.identifiers.map((value) => value.toLowerCase());
+	const title = target.title.toLowerCase();
+	const description = target.description.toLowerCase();
+	const all = target.text;
 	// Exact identifiers rank above titles and free-text matches. Every query
 	// token must be present so broad intent searches stay deterministic and
 	// avoid returning unrelated operations.
 	let score = 0;
-	if (id === normalized || mcpName === normalized) score += 1_000;
+	if (identifiers.includes(normalized)) score += 1_000;
 	if (title === normalized) score += 500;
 	if (all.includes(normalized)) score += 100;
 	for (const token of tokens) {
 		if (!all.includes(token)) {
 			return 0;
 		}
-		if (id.includes(token) || mcpName.includes(token)) score += 40;
+		if (identifiers.some((identifier) => identifier.includes(token))) {
+			score += 40;
+		}
 		if (title.includes(token)) score += 25;
 		if (description.includes(token)) score += 10;
 		score += 1;
@@ -400,6 +421,41 @@ function scoreOperation(summary: OperationCatalogSummary, query: string): number
 	return score;
 }
 
+function scoreOperation(summary: OperationCatalogSummary, query: string): number {
+	return scoreSearchTarget(
+		{
+			identifiers: [summary.id, summary.mcpName],
+			title: summary.title,
+			description: summary.description,
+			text: searchableText(summary),
+		},
+		query,
+	);
+}
+
+function scorePlaybook(playbook: OperationPlaybook, query: string): number {
+	return scoreSearchTarget(
+		{
+			identifiers: [playbook.id],
+			title: playbook.title,
+			description: playbook.goal,
+			text: [
+				"playbook",
+				playbook.id,
+				playbook.title,
+				playbook.goal,
+				...playbook.steps.flatMap((step) => [
+					step.operation,
+					step.description,
+				]),
+			]
+				.join(" ")
+				.toLowerCase(),
+		},
+		query,
+	);
+}
+
 export async function searchOperationSpecs(
 	context: DiscoveryOperationContext,
 	input: z.output<typeof specSearchInputSchema>,
@@ -424,12 +480,33 @@ export async function searchOperationSpecs(
 				left.summary.id.localeCompare(right.summary.id),
 		);
 
+	// Filters narrow operations only, so playbooks match unfiltered queries.
+	const playbooks =
+		input.family === undefined &&
+		input.resource === undefined &&
+		input.verb === undefined
+			? operationSpec(context)
+					.playbooks.map((playbook, index) => ({
+						playbook,
+						score: scorePlaybook(playbook, input.query),
+						index,
+					}))
+					.filter(({ score }) => score > 0)
+					.sort(
+						(left, right) =>
+							right.score - left.score || left.index - right.index,
+					)
+					.slice(0, input.limit)
+					.map(({ playbook }) => summarizePlaybook(playbook))
+			: [];
+
 	return {
 		query: input.query,
 		total: matches.length,
 		results: matches
 			.slice(0, input.limit)
 			.map(({ summary, score }) => toOperationSearchResult(summary, score)),
+		playbooks,
 	};
 }
 
@@ -479,13 +556,20 @@ export async function describeOperationSpec(
 	};
 }
 
-function summarizePlaybook(playbook: OperationPlaybook) {
+const builtInPlaybookIds = new Set(
+	emailOperationsSpec.playbooks.map((playbook) => playbook.id),
+);
+
+function summarizePlaybook(
+	playbook: OperationPlaybook,
+): z.output<typeof playbookSummarySchema> {
 	return {
 		id: playbook.id,
 		title: playbook.title,
 		goal: playbook.goal,
 		step_count: playbook.steps.length,
 		recovery_operation: playbook.recoveryOperation,
+		source: builtInPlaybookIds.has(playbook.id) ? "built-in" : "user",
 	};
 }
 
@@ -540,6 +624,76 @@ function toPlaybookDetail(
 	};
 }
 
+function fromPlaybookValueSource(
+	source: z.output<typeof playbookValueSourceSchema>,
+): OperationPlaybookValueSource {
+	switch (source.kind) {
+		case "playbook-input":
+			return { kind: source.kind, name: source.name };
+		case "step-output":
+			return {
+				kind: source.kind,
+				stepId: source.step_id,
+				path: source.path,
+			};
+		case "literal":
+			return { kind: source.kind, value: source.value };
+	}
+}
+
+/**
+ * Parse a versioned playbook document. Documents use the `playbooks.get`
+ * detail shape, so a built-in playbook can be exported and edited.
+ */
+export function parseOperationPlaybookDocument(
+	value: unknown,
+): OperationPlaybook {
+	const parsed = operationPlaybookDocumentSchema.safeParse(value);
+	if (!parsed.success) {
+		const issue = parsed.error.issues[0];
+		const path = issue?.path.map(String).join(".") || "document";
+		throw new TypeError(
+			`Invalid playbook document ${path}: ${issue?.message ?? "invalid"}`,
+		);
+	}
+	const { playbook } = parsed.data;
+	const [firstStep, ...otherSteps] = playbook.steps.map(
+		(step): OperationPlaybookStep => ({
+			id: step.id,
+			operation: step.operation as OperationId,
+			approval: step.approval,
+			description: step.description,
+			dependsOn: step.depends_on,
+			input: step.input.map((binding) => ({
+				parameter: binding.parameter,
+				source: fromPlaybookValueSource(binding.source),
+			})),
+			...(step.result_guard === undefined
+				? {}
+				: {
+						resultGuard: {
+							path: step.result_guard.path,
+							operator: step.result_guard.operator,
+							expected: step.result_guard.expected,
+							onFailure: step.result_guard.on_failure,
+							message: step.result_guard.message,
+						},
+					}),
+		}),
+	);
+	if (firstStep === undefined) {
+		throw new TypeError(`Operation playbook ${playbook.id} has no steps`);
+	}
+	return defineOperationPlaybook({
+		id: playbook.id as OperationPlaybook["id"],
+		title: playbook.title,
+		goal: playbook.goal,
+		inputs: playbook.inputs,
+		steps: [firstStep, ...otherSteps],
+		recoveryOperation: playbook.recovery_operation as OperationId,
+	});
+}
+
 export async function listOperationPlaybooks(
 	context: DiscoveryOperationContext,
 ): Promise<z.output<typeof playbookListOutputSchema>> {
@@ -1,12 +1,16 @@
+export * from "./bounces";
 export * from "./campaign-lifecycle";
 export * from "./campaigns";
 export * from "./catalog";
+export * from "./csv";
 export * from "./execution-policy";
 export * from "./discovery";
 export * from "./lists";
 export * from "./media";
 export * from "./operation";
+export * from "./settings";
 export * from "./subscriber-bulk";
+export * from "./subscriber-imports";
 export * from "./subscribers";
 export * from "./templates";
 export * from "./transactional";
@@ -0,0 +1,614 @@
+import type { ListmonkClient } from "@listmonk-ops/openapi";
+import { bindSettingsReconcileOperationSpec } from "./specs";
+import { z } from "zod";
+import {
+	jsonResourceValue,
+	requireAcknowledgement,
+	unwrapResourceResponse,
+} from "./resource-helpers";
+import { defineOperationCatalog } from "./catalog";
+import {
+	defineOperation,
+	normalizeOperationExecutionError,
+	OperationInputError,
+	parseOperationInput,
+	parseOperationOutput,
+} from "./operation";
+
+/**
+ * Secret setting paths, with `[]` standing for any array index. Listmonk masks
+ * these on read, so a manifest must reference them by environment variable
+ * and reconcile can never compare them.
+ */
+export const LISTMONK_SECRET_SETTING_FIELDS = [
+	"smtp[].password",
+	"messengers[].password",
+	"bounce.mailboxes[].password",
+	"upload.s3.aws_secret_access_key",
+	"bounce.azure.shared_secret",
+	"bounce.sendgrid_key",
+	"bounce.forwardemail_key",
+	"bounce.postmark_password",
+	"security.captcha_secret",
+	"security.oidc.client_secret",
+] as const;
+
+/**
+ * Secret references are limited to a dedicated prefix so a manifest cannot
+ * route unrelated process secrets (database URLs, API tokens) into Listmonk.
+ */
+export const SETTINGS_SECRET_ENV_PATTERN = /^LISTMONK_SETTINGS_[A-Z0-9_]+$/;
+export const MAX_SETTINGS_MANIFEST_BYTES = 1024 * 1024;
+const SETTINGS_MANIFEST_OPERATION_ID = "settings.reconcile";
+const REDACTED_SETTING_VALUE = "[redacted]";
+
+const secretSettingFields = new Set<string>(LISTMONK_SECRET_SETTING_FIELDS);
+
+function isSecretSettingPath(normalizedPath: string): boolean {
+	return secretSettingFields.has(normalizedPath);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function objectPath(parent: string, key: string): string {
+	return parent === "" ? key : `${parent}.${key}`;
+}
+
+const settingsSecretReferenceSchema = z.strictObject({
+	env: z
+		.string()
+		.max(128)
+		.regex(
+			SETTINGS_SECRET_ENV_PATTERN,
+			"Secret references must name a LISTMONK_SETTINGS_* environment variable",
+		),
+});
+
+export type SettingsSecretReference = z.output<
+	typeof settingsSecretReferenceSchema
+>;
+
+function looksLikeSecretReference(value: unknown): boolean {
+	return isPlainObject(value) && Object.hasOwn(value, "env");
+}
+
+/**
+ * Walk a manifest value and report inline secrets, malformed references, and
+ * references placed on fields Listmonk does not treat as secret.
+ */
+function validateSettingsManifestValue(
+	value: unknown,
+	path: (string | number)[],
+	normalizedPath: string,
+	context: z.RefinementCtx,
+): void {
+	if (isSecretSettingPath(normalizedPath)) {
+		if (!settingsSecretReferenceSchema.safeParse(value).success) {
+			context.addIssue({
+				code: "custom",
+				message: `Secret setting ${normalizedPath} must be a { "env": "LISTMONK_SETTINGS_*" } reference, not an inline value`,
+				path: ["settings", ...path],
+			});
+		}
+		return;
+	}
+	if (looksLikeSecretReference(value)) {
+		context.addIssue({
+			code: "custom",
+			message: `Setting ${normalizedPath} is not a secret field and cannot reference an environment variable`,
+			path: ["settings", ...path],
+		});
+		return;
+	}
+	if (Array.isArray(value)) {
+		for (const [index, item] of value.entries()) {
+			validateSettingsManifestValue(
+				item,
+				[...path, index],
+				`${normalizedPath}[]`,
+				context,
+			);
+		}
+		return;
+	}
+	if (isPlainObject(value)) {
+		for (const [key, item] of Object.entries(value)) {
+			validateSettingsManifestValue(
+				item,
+				[...path, key],
+				objectPath(normalizedPath, key),
+				context,
+			);
+		}
+	}
+}
+
+const settingsManifestSchema = z
+	.object({
+		schema_version: z.literal(1),
+		settings: z.record(z.string().min(1), z.unknown()),
+	})
+	.superRefine((manifest, context) => {
+		if (Object.keys(manifest.settings).length === 0) {
+			context.addIssue({
+				code: "custom",
+				message: "Settings manifest must declare at least one setting",
+				path: ["settings"],
+			});
+		}
+		for (const [key, value] of Object.entries(manifest.settings)) {
+			validateSettingsManifestValue(value, [key], key, context);
+		}
+	});
+
+const settingsManifestOperationInputSchema = settingsManifestSchema.safeExtend(
+	{
+		dry_run: z.boolean().default(true),
+	},
+);
+
+const settingsChangeSchema = z.object({
+	path: z.string().min(1),
+	action: z.enum(["add", "update", "remove", "set_secret"]),
+	before: z.unknown().optional(),
+	after: z.unknown().optional(),
+	env: z.string().optional(),
+	resolved: z.boolean().optional(),
+});
+
+const settingsManifestOperationOutputSchema = z.object({
+	schema_version: z.literal(1),
+	dry_run: z.boolean(),
+	in_sync: z.boolean(),
+	applied: z.boolean(),
+	changes: z.array(settingsChangeSchema),
+});
+
+export type SettingsManifestOperationInput = z.input<
+	typeof settingsManifestOperationInputSchema
+>;
+
+export type SettingsManifestOperationResult = z.output<
+	typeof settingsManifestOperationOutputSchema
+>;
+
+export type SettingsChange = z.output<typeof settingsChangeSchema>;
+
+export interface SettingsManifest {
+	schema_version: 1;
+	/**
+	 * Desired settings keyed by Listmonk's top-level setting name. Objects
+	 * merge into the current value; arrays keep the manifest's length and
+	 * merge each item over the current item at the same index.
+	 */
+	settings: Record<string, unknown>;
+}
+
+export interface SettingsOperationContext {
+	client: Pick<ListmonkClient, "settings">;
+	/**
+	 * Resolve a referenced secret. The package stays runtime-neutral, so the
+	 * CLI and MCP server pass an environment lookup. Without a resolver every
+	 * reference is unresolved and apply is refused.
+	 */
+	resolveSecret?: (name: string) => string | undefined;
+}
+
+export interface SettingsReconcileOptions {
+	/** Apply the planned mutation. Omit or set false for a read-only plan. */
+	apply?: boolean;
+}
+
+export interface SettingsReconcilePlan {
+	schema_version: 1;
+	in_sync: boolean;
+	changes: SettingsChange[];
+}
+
+export interface SettingsReconcileResult extends SettingsReconcilePlan {
+	apply: boolean;
+	applied: boolean;
+}
+
+/** Copy a value with every secret leaf replaced by `replacement`. */
+function replaceSecretSettings(
+	value: unknown,
+	normalizedPath: string,
+	replacement: string,
+): unknown {
+	if (isSecretSettingPath(normalizedPath)) return replacement;
+	if (Array.isArray(value)) {
+		return value.map((item) =>
+			replaceSecretSettings(item, `${normalizedPath}[]`, replacement),
+		);
+	}
+	if (isPlainObject(value)) {
+		return Object.fromEntries(
+			Object.entries(value).map(([key, item]) => [
+				key,
+				replaceSecretSettings(
+					item,
+					objectPath(normalizedPath, key),
+					replacement,
+				),
+			]),
+		);
+	}
+	return value;
+}
+
+function redactSettingValue(value: unknown, normalizedPath: string): unknown {
+	return replaceSecretSettings(value, normalizedPath, REDACTED_SETTING_VALUE);
+}
+
+function settingValueKind(value: unknown): "array" | "object" | "scalar" {
+	if (Array.isArray(value)) return "array";
+	return isPlainObject(value) ? "object" : "scalar";
+}
+
+function collectSettingsChanges(
+	current: unknown,
+	desired: unknown,
+	path: string,
+	normalizedPath: string,
+	resolveSecret: SettingsOperationContext["resolveSecret"],
+	changes: SettingsChange[],
+): void {
+	if (isSecretSettingPath(normalizedPath)) {
+		const { env } = settingsSecretReferenceSchema.parse(desired);
+		const value = resolveSecret?.(env);
+		changes.push({
+			path,
+			action: "set_secret",
+			env,
+			resolved: value !== undefined && value !== "",
+		});
+		return;
+	}
+	if (desired === undefined) {
+		changes.push({
+			path,
+			action: "remove",
+			before: redactSettingValue(current, normalizedPath),
+		});
+		return;
+	}
+	const desiredKind = settingValueKind(desired);
+	if (current !== undefined && settingValueKind(current) !== desiredKind) {
+		changes.push({
+			path,
+			action: "update",
+			before: redactSettingValue(current, normalizedPath),
+			after: redactSettingValue(desired, normalizedPath),
+		});
+		return;
+	}
+	if (Array.isArray(desired)) {
+		const currentItems = Array.isArray(current) ? current : [];
+		const length = Math.max(desired.length, currentItems.length);
+		for (let index = 0; index < length; index += 1) {
+			collectSettingsChanges(
+				currentItems[index],
+				desired[index],
+				`${path}[${index}]`,
+				`${normalizedPath}[]`,
+				resolveSecret,
+				changes,
+			);
+		}
+		return;
+	}
+	if (isPlainObject(desired)) {
+		const currentObject = isPlainObject(current) ? current : {};
+		for (const [key, item] of Object.entries(desired)) {
+			collectSettingsChanges(
+				currentObject[key],
+				item,
+				objectPath(path, key),
+				objectPath(normalizedPath, key),
+				resolveSecret,
+				changes,
+			);
+		}
+		return;
+	}
+	if (current === undefined) {
+		changes.push({ path, action: "add", after: desired });
+		return;
+	}
+	if (!Object.is(current, desired)) {
+		changes.push({ path, action: "update", before: current, after: desired });
+	}
+}
+
+/**
+ * Build the value Listmonk should store. Secret leaves become the resolved
+ * reference or an empty string; Listmonk keeps the stored secret when a
+ * secret field is sent empty, so the masks returned on read are never written
+ * back.
+ */
+function mergeSettingValue(
+	current: unknown,
+	desired: unknown,
+	normalizedPath: string,
+	resolveSecret: (name: string) => string | undefined,
+): unknown {
+	if (desired === undefined) {
+		return replaceSecretSettings(current, normalizedPath, "");
+	}
+	if (isSecretSettingPath(normalizedPath)) {
+		const { env } = settingsSecretReferenceSchema.parse(desired);
+		return resolveSecret(env) ?? "";
+	}
+	if (Array.isArray(desired)) {
+		const currentItems = Array.isArray(current) ? current : [];
+		return desired.map((item, index) =>
+			mergeSettingValue(
+				currentItems[index],
+				item,
+				`${normalizedPath}[]`,
+				resolveSecret,
+			),
+		);
+	}
+	if (isPlainObject(desired)) {
+		const currentObject = isPlainObject(current) ? current : {};
+		const keys = new Set([
+			...Object.keys(currentObject),
+			...Object.keys(desired),
+		]);
+		return Object.fromEntries(
+			[...keys].map((key) => [
+				key,
+				mergeSettingValue(
+					currentObject[key],
+					Object.hasOwn(desired, key) ? desired[key] : undefined,
+					objectPath(normalizedPath, key),
+					resolveSecret,
+				),
+			]),
+		);
+	}
+	return desired;
+}
+
+async function getCurrentSettings(
+	client: Pick<ListmonkClient, "settings">,
+): Promise<Record<string, unknown>> {
+	const data = unwrapResourceResponse(
+		await client.settings.get(),
+		"Failed to get settings",
+	);
+	if (!isPlainObject(data)) {
+		throw new Error("Failed to get settings: Listmonk returned no settings");
+	}
+	return data;
+}
+
+/**
+ * Read one boolean Listmonk setting for a check that only uses it as
+ * context: undefined when the client has no settings API, the read fails,
+ * or the value is not a boolean.
+ */
+export async function readListmonkBooleanSetting(
+	client: Partial<Pick<ListmonkClient, "settings">>,
+	key: string,
+): Promise<boolean | undefined> {
+	if (!client.settings) return undefined;
+	try {
+		const response = await client.settings.get();
+		const data: unknown = "data" in response ? response.data : undefined;
+		const value = isPlainObject(data) ? data[key] : undefined;
+		return typeof value === "boolean" ? value : undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+function planSettingsFromCurrent(
+	current: Record<string, unknown>,
+	manifest: SettingsManifest,
+	resolveSecret: SettingsOperationContext["resolveSecret"],
+): SettingsReconcilePlan {
+	const changes: SettingsChange[] = [];
+	for (const [key, desired] of Object.entries(manifest.settings)) {
+		if (!Object.hasOwn(current, key)) {
+			throw new Error(
+				`Settings manifest declares unknown Listmonk setting ${JSON.stringify(key)}`,
+			);
+		}
+		collectSettingsChanges(
+			current[key],
+			desired,
+			key,
+			key,
+			resolveSecret,
+			changes,
+		);
+	}
+	return {
+		schema_version: 1,
+		in_sync: changes.every((change) => change.action === "set_secret"),
+		changes,
+	};
+}
+
+/** Plan a settings manifest against the current settings without mutating. */
+export async function planSettingsReconcile(
+	context: SettingsOperationContext,
+	input: SettingsManifest,
+): Promise<SettingsReconcilePlan> {
+	const manifest = settingsManifestSchema.parse(input);
+	return planSettingsFromCurrent(
+		await getCurrentSettings(context.client),
+		manifest,
+		context.resolveSecret,
+	);
+}
+
+/**
+ * Reconcile a versioned settings manifest. Listmonk replaces its settings
+ * document as a whole, so apply writes the current settings with the manifest
+ * merged over them in a single request, and only when something changed.
+ * Every secret reference must resolve before the write is attempted.
+ */
+export async function reconcileSettingsManifest(
+	context: SettingsOperationContext,
+	input: SettingsManifest,
+	options: SettingsReconcileOptions = {},
+): Promise<SettingsReconcileResult> {
+	const manifest = settingsManifestSchema.parse(input);
+	const current = await getCurrentSettings(context.client);
+	const plan = planSettingsFromCurrent(
+		current,
+		manifest,
+		context.resolveSecret,
+	);
+	if (options.apply !== true || plan.changes.length === 0) {
+		return { ...plan, apply: options.apply === true, applied: false };
+	}
+
+	const unresolved = plan.changes
+		.filter((change) => change.action === "set_secret" && !change.resolved)
+		.map((change) => change.env);
+	if (unresolved.length > 0) {
+		throw new Error(
+			`Settings manifest references unset secrets: ${[...new Set(unresolved)].join(", ")}`,
+		);
+	}
+
+	const resolveSecret = context.resolveSecret ?? (() => undefined);
+	const body = Object.fromEntries(
+		Object.entries(current).map(([key, value]) => [
+			key,
+			mergeSettingValue(
+				value,
+				Object.hasOwn(manifest.settings, key)
+					? manifest.settings[key]
+					: undefined,
+				key,
+				resolveSecret,
+			),
+		]),
+	);
+	requireAcknowledgement(
+		await context.client.settings.update({ body }),
+		"Failed to update settings",
+	);
+	return { ...plan, apply: true, applied: true };
+}
+
+function parseSettingsManifestOperationInput(
+	input: unknown,
+): z.output<typeof settingsManifestOperationInputSchema> {
+	// Enforce the serialized-payload cap before validation walks the manifest.
+	// Only the transport-only dry_run control is excluded from the measurement.
+	const { dry_run: _excludedDryRun, ...measuredInput } = isPlainObject(input)
+		? input
+		: {};
+	const rawByteLength = new TextEncoder().encode(
+		JSON.stringify(measuredInput),
+	).byteLength;
+	if (rawByteLength > MAX_SETTINGS_MANIFEST_BYTES) {
+		throw new OperationInputError(
+			`Settings manifest exceeds the ${MAX_SETTINGS_MANIFEST_BYTES}-byte limit`,
+		);
+	}
+	return parseOperationInput(settingsManifestOperationInputSchema, input);
+}
+
+/** Execute settings reconciliation through the normalized operation boundary. */
+export async function executeSettingsManifestReconcile(
+	context: SettingsOperationContext,
+	input: z.output<typeof settingsManifestOperationInputSchema>,
+): Promise<SettingsManifestOperationResult> {
+	const result = await reconcileSettingsManifest(
+		context,
+		{ schema_version: input.schema_version, settings: input.settings },
+		{ apply: !input.dry_run },
+	);
+	return {
+		schema_version: result.schema_version,
+		dry_run: input.dry_run,
+		in_sync: result.in_sync,
+		applied: result.applied,
+		changes: result.changes,
+	};
+}
+
+export const reconcileSettingsManifestOperation = defineOperation({
+	id: SETTINGS_MANIFEST_OPERATION_ID,
+	title: "Reconcile settings manifest",
+	description:
+		"Plan or apply a versioned Listmonk settings manifest with env-referenced secrets and a redacted drift report",
+	inputSchema: settingsManifestOperationInputSchema,
+	outputSchema: settingsManifestOperationOutputSchema,
+	safety: {
+		readOnlyHint: false,
+		destructiveHint: true,
+		idempotentHint: true,
+		openWorldHint: true,
+	},
+	mcp: {
+		name: "listmonk_reconcile_settings_manifest",
+		legacySuccessText: jsonResourceValue,
+	},
+	spec: bindSettingsReconcileOperationSpec(),
+	parseInput: parseSettingsManifestOperationInput,
+	execute: executeSettingsManifestReconcile,
+});
+
+export async function invokeReconcileSettingsManifestOperation(
+	context: SettingsOperationContext,
+	input: unknown,
+): Promise<SettingsManifestOperationResult> {
+	const parsedInput = parseSettingsManifestOperationInput(input);
+	let output: SettingsManifestOperationResult;
+	try {
+		output = await executeSettingsManifestReconcile(context, parsedInput);
+	} catch (error) {
+		throw normalizeOperationExecutionError(
+			reconcileSettingsManifestOperation.id,
+			error,
+		);
+	}
+	return parseOperationOutput(
+		reconcileSettingsManifestOperation.id,
+		reconcileSettingsManifestOperation.outputSchema,
+		output,
+	);
+}
+
+export const settingsOperations = [reconcileSettingsManifestOperation] as const;
+
+export const settingsOperationCatalog = defineOperationCatalog({
+	id: "settings",
+	title: "Settings",
+	operations: settingsOperations,
+	specMigrationExemptions: [],
+});
+
+export type SettingsOperation = (typeof settingsOperations)[number];
+
+export interface SettingsOperationInvocation {
+	operation: SettingsOperation;
+	output: Record<string, unknown>;
+}
+
+export async function invokeSettingsOperationByMcpName(
+	context: SettingsOperationContext,
+	name: string,
+	input: unknown,
+): Promise<SettingsOperationInvocation | undefined> {
+	switch (name) {
+		case reconcileSettingsManifestOperation.mcp.name:
+			return {
+				operation: reconcileSettingsManifestOperation,
+				output: await invokeReconcileSettingsManifestOperation(context, input),
+			};
+		default:
+			return undefined;
+	}
+}
@@ -78,6 +78,10 @@ export const campaignSafeSchedulePlaybook = defineOperationPlaybook({
 					parameter: "link_check_timeout_ms",
 					source: { kind: "literal", value: 4_000 },
 				},
+				{
+					parameter: "check_render",
+					source: { kind: "literal", value: true },
+				},
 			],
 			resultGuard: {
 				path: "summary.fail",
@@ -0,0 +1,265 @@
+import {
+	bounceCollectionOutputContract,
+	bounceDeleteOutputContract,
+	bounceListInputContract,
+	bouncePurgeInputContract,
+	bouncePurgeOutputContract,
+	bounceRecordContract,
+	bounceSummaryInputContract,
+	bounceSummaryOutputContract,
+	resourceIdInputContract,
+} from "./contract-schemas";
+import { defineOperationSpec } from "./operation";
+import { defineOperationResourceSpec } from "./resource";
+
+export const bounceResource = defineOperationResourceSpec({
+	id: "bounce",
+	title: "Bounce record",
+	// Listmonk records bounces from its mailbox scanner and provider webhooks;
+	// the API can only read or delete them.
+	states: ["recorded", "deleted"],
+	transitions: {
+		recorded: ["deleted"],
+		deleted: [],
+	},
+	terminalStates: ["deleted"],
+});
+
+const bounceRuntimeFile = "packages/operations/src/bounces.ts";
+const bounceSpecFile = "packages/operations/src/specs/bounces.ts";
+
+// Runtime symbols follow the executor name: `<executor>Operation` is the
+// definition and `invoke<Executor>Operation` the invoker.
+function graphNodes(specName: string, executorName: string) {
+	const runtimeName = `${executorName[0]?.toUpperCase()}${executorName.slice(1)}`;
+	return {
+		descriptorNode: `${bounceSpecFile}#bounce${specName}OperationSpec:variable`,
+		bindingNode: `${bounceSpecFile}#bindBounce${specName}OperationSpec:function`,
+		runtimeDefinitionNode: `${bounceRuntimeFile}#${executorName}Operation:variable`,
+		invokerNode: `${bounceRuntimeFile}#invoke${runtimeName}Operation:function`,
+		executorNode: `${bounceRuntimeFile}#${executorName}:function`,
+	};
+}
+
+export const bounceListOperationSpec = defineOperationSpec({
+	id: "bounces.list",
+	resource: "bounce",
+	verb: "list",
+	title: "List bounces",
+	description:
+		"List bounce records from Listmonk, optionally filtered by campaign or source",
+	contract: {
+		input: bounceListInputContract,
+		output: bounceCollectionOutputContract,
+	},
+	effects: [{ kind: "read", resource: "bounce" }],
+	policy: { confirmation: "never", audit: "optional", dryRun: false },
+	retry: {
+		kind: "safe",
+		reason: "The operation only reads bounce records.",
+	},
+	agent: {
+		useWhen: ["Individual bounce records must be inspected or paged."],
+		avoidWhen: [
+			"Bounce counts by campaign, domain, or type are needed; use bounces.summary.",
+		],
+		prerequisites: [],
+		verifyWith: [],
+		related: ["bounces.summary", "bounces.get"],
+		retryGuidance: "Retry transient read failures with bounded backoff.",
+	},
+	projection: {
+		mcpName: "listmonk_get_bounces",
+		openWorld: true,
+		graph: graphNodes("List", "listBounces"),
+	},
+	stability: "experimental",
+	since: "0.15.0",
+});
+
+export const bounceGetOperationSpec = defineOperationSpec({
+	id: "bounces.get",
+	resource: "bounce",
+	verb: "get",
+	title: "Get bounce",
+	description: "Get a bounce record by ID",
+	contract: {
+		input: resourceIdInputContract,
+		output: bounceRecordContract,
+	},
+	effects: [{ kind: "read", resource: "bounce" }],
+	policy: { confirmation: "never", audit: "optional", dryRun: false },
+	retry: {
+		kind: "safe",
+		reason: "The operation only reads one bounce record.",
+	},
+	agent: {
+		useWhen: ["The provider metadata of a known bounce must be inspected."],
+		avoidWhen: ["The bounce ID is unknown; page bounces.list instead."],
+		prerequisites: [],
+		verifyWith: [],
+		related: ["bounces.list", "bounces.delete"],
+		retryGuidance: "Retry transient read failures with bounded backoff.",
+	},
+	projection: {
+		mcpName: "listmonk_get_bounce",
+		openWorld: true,
+		graph: graphNodes("Get", "getBounce"),
+	},
+	stability: "experimental",
+	since: "0.15.0",
+});
+
+export const bounceDeleteOperationSpec = defineOperationSpec({
+	id: "bounces.delete",
+	resource: "bounce",
+	verb: "delete",
+	title: "Delete bounce",
+	description: "Delete a bounce record by ID",
+	contract: {
+		input: resourceIdInputContract,
+		output: bounceDeleteOutputContract,
+	},
+	effects: [{ kind: "delete", resource: "bounce", reversible: false }],
+	policy: { confirmation: "required", audit: "required", dryRun: false },
+	retry: {
+		kind: "reconcile",
+		reconcileWith: "bounces.list",
+		idempotent: true,
+		reason:
+			"Deleting an already-deleted bounce is a no-op; verify with bounces.list after an ambiguous result.",
+	},
+	agent: {
+		useWhen: [
+			"A bounce recorded in error must be removed, for example after a provider misclassification.",
+		],
+		avoidWhen: [
+			"The bounce count still drives Listmonk's blocklist threshold and should be kept.",
+		],
+		prerequisites: ["bounces.get"],
+		verifyWith: ["bounces.list"],
+		related: ["bounces.purge"],
+		retryGuidance: "Verify the bounce is gone with bounces.list before retrying.",
+	},
+	projection: {
+		mcpName: "listmonk_delete_bounce",
+		openWorld: true,
+		graph: graphNodes("Delete", "deleteBounce"),
+	},
+	stability: "experimental",
+	since: "0.15.0",
+});
+
+export const bouncePurgeOperationSpec = defineOperationSpec({
+	id: "bounces.purge",
+	resource: "bounce",
+	verb: "purge",
+	title: "Purge bounces",
+	description:
+		"Delete bounce records by ID or all of them; dry_run (the default) reports how many records would be deleted",
+	contract: {
+		input: bouncePurgeInputContract,
+		output: bouncePurgeOutputContract,
+	},
+	effects: [
+		{ kind: "delete", resource: "bounce", reversible: false, preview: true },
+	],
+	policy: { confirmation: "required", audit: "required", dryRun: true },
+	retry: {
+		kind: "reconcile",
+		reconcileWith: "bounces.list",
+		idempotent: true,
+		reason:
+			"Deleting already-deleted bounces is a no-op; verify with bounces.list after an ambiguous result.",
+	},
+	agent: {
+		useWhen: [
+			"Bounce records must be cleared in bulk after a resolved delivery incident.",
+		],
+		avoidWhen: [
+			"Hard bounces still protect the sender reputation and should be kept.",
+			"A single bounce should be removed; use bounces.delete.",
+		],
+		prerequisites: ["bounces.summary"],
+		verifyWith: ["bounces.list"],
+		related: ["bounces.delete"],
+		retryGuidance:
+			"Run with dry_run first and verify the remaining bounces with bounces.list before retrying.",
+	},
+	projection: {
+		mcpName: "listmonk_delete_bounces",
+		openWorld: true,
+		graph: graphNodes("Purge", "purgeBounces"),
+	},
+	stability: "experimental",
+	since: "0.15.0",
+});
+
+export const bounceSummaryOperationSpec = defineOperationSpec({
+	id: "bounces.summary",
+	resource: "bounce",
+	verb: "summary",
+	title: "Summarize bounces",
+	description:
+		"Summarize bounce records by type, campaign (with bounce rate against sent messages), and recipient domain",
+	contract: {
+		input: bounceSummaryInputContract,
+		output: bounceSummaryOutputContract,
+	},
+	effects: [
+		{ kind: "read", resource: "bounce" },
+		{ kind: "read", resource: "campaign" },
+	],
+	policy: { confirmation: "never", audit: "optional", dryRun: false },
+	retry: {
+		kind: "safe",
+		reason: "The operation only reads bounce records and campaign counters.",
+	},
+	agent: {
+		useWhen: [
+			"Soft and hard bounces must be triaged by campaign, domain, or type.",
+		],
+		avoidWhen: [
+			"Individual bounce records are needed; page bounces.list instead.",
+		],
+		prerequisites: [],
+		verifyWith: [],
+		related: ["bounces.list", "bounces.purge", "campaigns.stats"],
+		retryGuidance: "Retry transient read failures with bounded backoff.",
+	},
+	projection: {
+		mcpName: "listmonk_get_bounce_summary",
+		openWorld: true,
+		graph: graphNodes("Summary", "summarizeBounces"),
+	},
+	stability: "experimental",
+	since: "0.15.0",
+});
+
+export function bindBounceListOperationSpec(): typeof bounceListOperationSpec {
+	return bounceListOperationSpec;
+}
+
+export function bindBounceGetOperationSpec(): typeof bounceGetOperationSpec {
+	return bounceGetOperationSpec;
+}
+
+export function bindBounceDeleteOperationSpec(): typeof bounceDeleteOperationSpec {
+	return bounceDeleteOperationSpec;
+}
+
+export function bindBouncePurgeOperationSpec(): typeof bouncePurgeOperationSpec {
+	return bouncePurgeOperationSpec;
+}
+
+export function bindBounceSummaryOperationSpec(): typeof bounceSummaryOperationSpec {
+	return bounceSummaryOperationSpec;
+}
+
+export const bounceOperationSpecs = [
+	bounceListOperationSpec,
+	bounceGetOperationSpec,
+	bounceDeleteOperationSpec,
+	bouncePurgeOperationSpec,
+	bounceSummaryOperationSpec,
+] as const;
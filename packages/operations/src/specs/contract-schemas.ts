@@ -16,6 +16,12 @@ const contracts = generatedContractSchemas as unknown as Readonly<{
 	campaignListInputContract: NormalizedContractSchema;
 	campaignCollectionOutputContract: NormalizedContractSchema;
 	campaignStatsOutputContract: NormalizedContractSchema;
+	campaignAnalyticsInputContract: NormalizedContractSchema;
+	campaignAnalyticsOutputContract: NormalizedContractSchema;
+	campaignPreviewInputContract: NormalizedContractSchema;
+	campaignPreviewOutputContract: NormalizedContractSchema;
+	campaignTestSendInputContract: NormalizedContractSchema;
+	campaignTestSendOutputContract: NormalizedContractSchema;
 	templateRecordContract: NormalizedContractSchema;
 	templateCreateInputContract: NormalizedContractSchema;
 	templateUpdateInputContract: NormalizedContractSchema;
@@ -35,6 +41,8 @@ const contracts = generatedContractSchemas as unknown as Readonly<{
 	subscriberBulkOutputContract: NormalizedContractSchema;
 	transactionalSendInputContract: NormalizedContractSchema;
 	transactionalSendOutputContract: NormalizedContractSchema;
+	transactionalSendBatchInputContract: NormalizedContractSchema;
+	transactionalSendBatchOutputContract: NormalizedContractSchema;
 	sequenceValidateInputContract: NormalizedContractSchema;
 	sequenceValidateOutputContract: NormalizedContractSchema;
 	sequenceCreateInputContract: NormalizedContractSchema;
@@ -48,6 +56,8 @@ const contracts = generatedContractSchemas as unknown as Readonly<{
 	sequenceDeleteOutputContract: NormalizedContractSchema;
 	sequenceEnrollInputContract: NormalizedContractSchema;
 	sequenceEnrollOutputContract: NormalizedContractSchema;
+	sequenceEnrollBulkInputContract: NormalizedContractSchema;
+	sequenceEnrollBulkOutputContract: NormalizedContractSchema;
 	sequenceEnrollmentOutputContract: NormalizedContractSchema;
 	sequenceEnrollmentListInputContract: NormalizedContractSchema;
 	sequenceEnrollmentListOutputContract: NormalizedContractSchema;
@@ -56,8 +66,21 @@ const contracts = generatedContractSchemas as unknown as Readonly<{
 	sequenceTickOutputContract: NormalizedContractSchema;
 	sequenceReconcileInputContract: NormalizedContractSchema;
 	sequenceReconcileOutputContract: NormalizedContractSchema;
+	sequenceMigrateInputContract: NormalizedContractSchema;
+	sequenceMigrateOutputContract: NormalizedContractSchema;
 	sequenceStatusInputContract: NormalizedContractSchema;
 	sequenceStatusOutputContract: NormalizedContractSchema;
+	sequenceTriggersUpdateInputContract: NormalizedContractSchema;
+	sequenceTriggersUpdateOutputContract: NormalizedContractSchema;
+	sequenceDeliveryUpdateInputContract: NormalizedContractSchema;
+	sequenceDeliveryUpdateOutputContract: NormalizedContractSchema;
+	sequenceSplitsStatsOutputContract: NormalizedContractSchema;
+	sequenceGoalsUpdateInputContract: NormalizedContractSchema;
+	sequenceGoalsUpdateOutputContract: NormalizedContractSchema;
+	sequenceEventsIngestInputContract: NormalizedContractSchema;
+	sequenceEventsIngestOutputContract: NormalizedContractSchema;
+	sequenceEngagementRecordInputContract: NormalizedContractSchema;
+	sequenceEngagementRecordOutputContract: NormalizedContractSchema;
 	specSearchInputContract: NormalizedContractSchema;
 	specSearchOutputContract: NormalizedContractSchema;
 	specDescribeInputContract: NormalizedContractSchema;
@@ -144,6 +167,27 @@ const contracts = generatedContractSchemas as unknown as Readonly<{
 	deliverabilityGuardOutputContract: NormalizedContractSchema;
 	subscriberHygieneInputContract: NormalizedContractSchema;
 	subscriberHygieneOutputContract: NormalizedContractSchema;
+	subscriberImportStartInputContract: NormalizedContractSchema;
+	subscriberImportStartOutputContract: NormalizedContractSchema;
+	subscriberImportStatusOutputContract: NormalizedContractSchema;
+	subscriberImportLogsOutputContract: NormalizedContractSchema;
+	bounceListInputContract: NormalizedContractSchema;
+	bounceCollectionOutputContract: NormalizedContractSchema;
+	bounceRecordContract: NormalizedContractSchema;
+	bounceDeleteOutputContract: NormalizedContractSchema;
+	bouncePurgeInputContract: NormalizedContractSchema;
+	bouncePurgeOutputContract: NormalizedContractSchema;
+	bounceSummaryInputContract: NormalizedContractSchema;
+	bounceSummaryOutputContract: NormalizedContractSchema;
+	settingsManifestReconcileInputContract: NormalizedContractSchema;
+	settingsManifestReconcileOutputContract: NormalizedContractSchema;
+	suppressionApplyInputContract: NormalizedContractSchema;
+	suppressionApplyOutputContract: NormalizedContractSchema;
+	playbookRunInputContract: NormalizedContractSchema;
+	playbookApproveInputContract: NormalizedContractSchema;
+	playbookRunGetInputContract: NormalizedContractSchema;
+	playbookRunCancelInputContract: NormalizedContractSchema;
+	playbookRunOutputContract: NormalizedContractSchema;
 	templateRegistrySyncInputContract: NormalizedContractSchema;
 	templateRegistrySyncOutputContract: NormalizedContractSchema;
 	templateRegistryHistoryOutputContract: NormalizedContractSchema;
@@ -171,6 +215,8 @@ const contracts = generatedContractSchemas as unknown as Readonly<{
 	abTestExportOutputContract: NormalizedContractSchema;
 	abTestDeleteOutputContract: NormalizedContractSchema;
 	abTestDeployWinnerOutputContract: NormalizedContractSchema;
+	abTestConversionRecordInputContract: NormalizedContractSchema;
+	abTestConversionRecordOutputContract: NormalizedContractSchema;
 }>;
 
 export const campaignGetInputContract = contracts.campaignGetInputContract;
@@ -191,6 +237,18 @@ export const campaignCollectionOutputContract =
 	contracts.campaignCollectionOutputContract;
 export const campaignStatsOutputContract =
 	contracts.campaignStatsOutputContract;
+export const campaignAnalyticsInputContract =
+	contracts.campaignAnalyticsInputContract;
+export const campaignAnalyticsOutputContract =
+	contracts.campaignAnalyticsOutputContract;
+export const campaignPreviewInputContract =
+	contracts.campaignPreviewInputContract;
+export const campaignPreviewOutputContract =
+	contracts.campaignPreviewOutputContract;
+export const campaignTestSendInputContract =
+	contracts.campaignTestSendInputContract;
+export const campaignTestSendOutputContract =
+	contracts.campaignTestSendOutputContract;
 export const templateRecordContract = contracts.templateRecordContract;
 export const templateCreateInputContract = contracts.templateCreateInputContract;
 export const templateUpdateInputContract = contracts.templateUpdateInputContract;
@@ -224,6 +282,10 @@ export const transactionalSendInputContract =
 	contracts.transactionalSendInputContract;
 export const transactionalSendOutputContract =
 	contracts.transactionalSendOutputContract;
+export const transactionalSendBatchInputContract =
+	contracts.transactionalSendBatchInputContract;
+export const transactionalSendBatchOutputContract =
+	contracts.transactionalSendBatchOutputContract;
 export const sequenceValidateInputContract =
 	contracts.sequenceValidateInputContract;
 export const sequenceValidateOutputContract =
@@ -247,6 +309,10 @@ export const sequenceEnrollInputContract =
 	contracts.sequenceEnrollInputContract;
 export const sequenceEnrollOutputContract =
 	contracts.sequenceEnrollOutputContract;
+export const sequenceEnrollBulkInputContract =
+	contracts.sequenceEnrollBulkInputContract;
+export const sequenceEnrollBulkOutputContract =
+	contracts.sequenceEnrollBulkOutputContract;
 export const sequenceEnrollmentOutputContract =
 	contracts.sequenceEnrollmentOutputContract;
 export const sequenceEnrollmentListInputContract =
@@ -261,10 +327,36 @@ export const sequenceReconcileInputContract =
 	contracts.sequenceReconcileInputContract;
 export const sequenceReconcileOutputContract =
 	contracts.sequenceReconcileOutputContract;
+export const sequenceMigrateInputContract =
+	contracts.sequenceMigrateInputContract;
+export const sequenceMigrateOutputContract =
+	contracts.sequenceMigrateOutputContract;
 export const sequenceStatusInputContract =
 	contracts.sequenceStatusInputContract;
 export const sequenceStatusOutputContract =
 	contracts.sequenceStatusOutputContract;
+export const sequenceTriggersUpdateInputContract =
+	contracts.sequenceTriggersUpdateInputContract;
+export const sequenceTriggersUpdateOutputContract =
+	contracts.sequenceTriggersUpdateOutputContract;
+export const sequenceDeliveryUpdateInputContract =
+	contracts.sequenceDeliveryUpdateInputContract;
+export const sequenceDeliveryUpdateOutputContract =
+	contracts.sequenceDeliveryUpdateOutputContract;
+export const sequenceSplitsStatsOutputContract =
+	contracts.sequenceSplitsStatsOutputContract;
+export const sequenceGoalsUpdateInputContract =
+	contracts.sequenceGoalsUpdateInputContract;
+export const sequenceGoalsUpdateOutputContract =
+	contracts.sequenceGoalsUpdateOutputContract;
+export const sequenceEventsIngestInputContract =
+	contracts.sequenceEventsIngestInputContract;
+export const sequenceEventsIngestOutputContract =
+	contracts.sequenceEventsIngestOutputContract;
+export const sequenceEngagementRecordInputContract =
+	contracts.sequenceEngagementRecordInputContract;
+export const sequenceEngagementRecordOutputContract =
+	contracts.sequenceEngagementRecordOutputContract;
 export const specSearchInputContract = contracts.specSearchInputContract;
 export const specSearchOutputContract = contracts.specSearchOutputContract;
 export const specDescribeInputContract = contracts.specDescribeInputContract;
@@ -399,6 +491,40 @@ export const subscriberHygieneInputContract =
 	contracts.subscriberHygieneInputContract;
 export const subscriberHygieneOutputContract =
 	contracts.subscriberHygieneOutputContract;
+export const subscriberImportStartInputContract =
+	contracts.subscriberImportStartInputContract;
+export const subscriberImportStartOutputContract =
+	contracts.subscriberImportStartOutputContract;
+export const subscriberImportStatusOutputContract =
+	contracts.subscriberImportStatusOutputContract;
+export const subscriberImportLogsOutputContract =
+	contracts.subscriberImportLogsOutputContract;
+export const bounceListInputContract = contracts.bounceListInputContract;
+export const bounceCollectionOutputContract =
+	contracts.bounceCollectionOutputContract;
+export const bounceRecordContract = contracts.bounceRecordContract;
+export const bounceDeleteOutputContract = contracts.bounceDeleteOutputContract;
+export const bouncePurgeInputContract = contracts.bouncePurgeInputContract;
+export const bouncePurgeOutputContract = contracts.bouncePurgeOutputContract;
+export const bounceSummaryInputContract = contracts.bounceSummaryInputContract;
+export const bounceSummaryOutputContract =
+	contracts.bounceSummaryOutputContract;
+export const settingsManifestReconcileInputContract =
+	contracts.settingsManifestReconcileInputContract;
+export const settingsManifestReconcileOutputContract =
+	contracts.settingsManifestReconcileOutputContract;
+export const suppressionApplyInputContract =
+	contracts.suppressionApplyInputContract;
+export const suppressionApplyOutputContract =
+	contracts.suppressionApplyOutputContract;
+export const playbookRunInputContract = contracts.playbookRunInputContract;
+export const playbookApproveInputContract =
+	contracts.playbookApproveInputContract;
+export const playbookRunGetInputContract =
+	contracts.playbookRunGetInputContract;
+export const playbookRunCancelInputContract =
+	contracts.playbookRunCancelInputContract;
+export const playbookRunOutputContract = contracts.playbookRunOutputContract;
 export const templateRegistrySyncInputContract =
 	contracts.templateRegistrySyncInputContract;
 export const templateRegistrySyncOutputContract =
@@ -434,3 +560,5 @@ export const abTestExportAssignmentInputContract = contracts.abTestExportAssignm
 export const abTestExportOutputContract = contracts.abTestExportOutputContract;
 export const abTestDeleteOutputContract = contracts.abTestDeleteOutputContract;
 export const abTestDeployWinnerOutputContract = contracts.abTestDeployWinnerOutputContract;
+export const abTestConversionRecordInputContract = contracts.abTestConversionRecordInputContract;
+export const abTestConversionRecordOutputContract = contracts.abTestConversionRecordOutputContract;
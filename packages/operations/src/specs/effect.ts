@@ -14,7 +14,9 @@ export type OperationResourceKind =
 	| "control"
 	| "operation"
 	| "webhook"
-	| "user-role";
+	| "user-role"
+	| "bounce"
+	| "settings";
 
 export type OperationEffect =
 	| ReadEffect
@@ -3,6 +3,8 @@ import {
 	campaignLifecycleOutputContract,
 	campaignPreflightInputContract,
 	campaignPreflightOutputContract,
+	transactionalSendBatchInputContract,
+	transactionalSendBatchOutputContract,
 	transactionalSendInputContract,
 	transactionalSendOutputContract,
 } from "./contract-schemas";
@@ -239,6 +241,69 @@ export const transactionalSendOperationSpec = defineOperationSpec({
 	since: "0.7.0",
 });
 
+export const transactionalSendBatchOperationSpec = defineOperationSpec({
+	id: "transactional.send-batch",
+	resource: "message",
+	verb: "send-batch",
+	title: "Send transactional batch",
+	description:
+		"Send a transactional email to many recipients with per-recipient idempotency",
+	contract: {
+		input: transactionalSendBatchInputContract,
+		output: transactionalSendBatchOutputContract,
+	},
+	effects: [
+		{
+			kind: "delivery",
+			resource: "message",
+			audience: "bulk",
+			timing: "immediate",
+		},
+	],
+	policy: {
+		confirmation: "required",
+		audit: "required",
+		dryRun: false,
+	},
+	retry: {
+		kind: "safe",
+		reason:
+			"Every recipient carries a required idempotency_key, so an identical re-run replays settled recipients, sends unclaimed ones, and reports pending or unknown keys for reconciliation instead of redelivering them.",
+	},
+	agent: {
+		useWhen: [
+			"One transactional template must be sent to a list of recipients with per-recipient data.",
+		],
+		avoidWhen: [
+			"The audience is a Listmonk list that a campaign should reach.",
+			"Stable per-recipient idempotency keys cannot be derived.",
+		],
+		prerequisites: ["templates.get"],
+		verifyWith: [],
+		related: ["transactional.send", "subscribers.get"],
+		retryGuidance:
+			"Re-run the identical batch to resume after a crash; reconcile recipients reported as reconcile before changing their keys.",
+	},
+	projection: {
+		mcpName: "listmonk_send_transactional_batch",
+		openWorld: true,
+		graph: {
+			descriptorNode:
+				"packages/operations/src/specs/high-risk.ts#transactionalSendBatchOperationSpec:variable",
+			bindingNode:
+				"packages/operations/src/specs/high-risk.ts#bindTransactionalSendBatchOperationSpec:function",
+			runtimeDefinitionNode:
+				"packages/operations/src/transactional.ts#sendTransactionalBatchOperation:variable",
+			invokerNode:
+				"packages/operations/src/transactional.ts#invokeSendTransactionalBatchOperation:function",
+			executorNode:
+				"packages/operations/src/transactional.ts#sendTransactionalBatch:function",
+		},
+	},
+	stability: "experimental",
+	since: "0.15.0",
+});
+
 export const campaignPreflightOperationSpec = defineOperationSpec({
 	id: "ops.campaign.preflight",
 	resource: "campaign",
@@ -299,6 +364,7 @@ export const highRiskOperationSpecs = [
 	campaignStartOperationSpec,
 	campaignCancelOperationSpec,
 	transactionalSendOperationSpec,
+	transactionalSendBatchOperationSpec,
 	campaignPreflightOperationSpec,
 ] as const;
 
@@ -314,6 +380,10 @@ export function bindTransactionalSendOperationSpec(): typeof transactionalSendOp
 	return transactionalSendOperationSpec;
 }
 
+export function bindTransactionalSendBatchOperationSpec(): typeof transactionalSendBatchOperationSpec {
+	return transactionalSendBatchOperationSpec;
+}
+
 export function bindCampaignPreflightOperationSpec(): typeof campaignPreflightOperationSpec {
 	return campaignPreflightOperationSpec;
 }
@@ -368,6 +438,10 @@ export const campaignSafeStartPlaybook = defineOperationPlaybook({
 					parameter: "link_check_timeout_ms",
 					source: { kind: "literal", value: 4_000 },
 				},
+				{
+					parameter: "check_render",
+					source: { kind: "literal", value: true },
+				},
 			],
 			resultGuard: {
 				path: "summary.fail",
@@ -1,5 +1,6 @@
 export * from "./agent";
 export * from "./additional-playbooks";
+export * from "./bounces";
 export * from "./bridged";
 export * from "./coverage";
 export * from "./core-reads";
@@ -12,6 +13,7 @@ export * from "./migration";
 export * from "./operation";
 export * from "./pilot";
 export * from "./playbook";
+export * from "./playbook-runs";
 export * from "./policy";
 export * from "./projection";
 export * from "./providers";
@@ -23,5 +25,8 @@ export * from "./runtime-contracts";
 export * from "./runtime-contract-ids";
 export * from "./schema";
 export * from "./sequences";
+export * from "./settings";
+export * from "./subscriber-imports";
+export * from "./suppressions";
 export * from "./user-roles";
 export * from "./webhooks";
@@ -22,12 +22,14 @@ export type OperationSpecVerb =
 	| "delete"
 	| "schedule"
 	| "send"
+	| "send-batch"
 	| "start"
 	| "pause"
 	| "cancel"
 	| "plan"
 	| "apply"
 	| "reconcile"
+	| "migrate"
 	| "preview"
 	| "approve"
 	| "launch"
@@ -35,6 +37,7 @@ export type OperationSpecVerb =
 	| "deploy"
 	| "deploy-winner"
 	| "stats"
+	| "analytics"
 	| "status"
 	| "doctor"
 	| "quota"
@@ -48,6 +51,7 @@ export type OperationSpecVerb =
 	| "capabilities"
 	| "prime"
 	| "test"
+	| "test-send"
 	| "dispatch"
 	| "retry"
 	| "prune"
@@ -57,6 +61,7 @@ export type OperationSpecVerb =
 	| "reset"
 	| "validate"
 	| "enroll"
+	| "enroll-bulk"
 	| "resume"
 	| "clone"
 	| "set-default"
@@ -78,6 +83,10 @@ export type OperationSpecVerb =
 	| "registry-rollback"
 	| "daily"
 	| "stop"
+	| "logs"
+	| "purge"
+	| "summary"
+	| "record"
 	| "recommend-sample-size"
 	| "run"
 	| "export-assignment";
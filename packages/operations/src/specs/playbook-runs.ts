@@ -0,0 +1,235 @@
+import {
+	playbookApproveInputContract,
+	playbookRunCancelInputContract,
+	playbookRunGetInputContract,
+	playbookRunInputContract,
+	playbookRunOutputContract,
+} from "./contract-schemas";
+import { defineOperationSpec } from "./operation";
+
+const playbookRunRuntimeFile =
+	"packages/automation/src/playbook-run-operations.ts";
+const playbookRunSpecFile = "packages/operations/src/specs/playbook-runs.ts";
+
+export const playbookRunOperationSpec = defineOperationSpec({
+	id: "playbooks.run",
+	resource: "playbook",
+	verb: "run",
+	title: "Run operation playbook",
+	description:
+		"Start a durable playbook run that resolves step bindings, runs steps through shared operations, evaluates result guards, and pauses at human-approval steps.",
+	contract: {
+		input: playbookRunInputContract,
+		output: playbookRunOutputContract,
+	},
+	effects: [{ kind: "write", resource: "playbook", reversible: true }],
+	policy: {
+		confirmation: "never",
+		audit: "required",
+		dryRun: false,
+	},
+	retry: {
+		kind: "unsafe",
+		reason:
+			"Every call starts a new run and repeats the steps before its first approval gate.",
+	},
+	agent: {
+		useWhen: [
+			"A selected playbook should be executed with its guards and approval gates instead of calling its steps one by one.",
+		],
+		avoidWhen: [
+			"The playbook and its referenced operation contracts have not been inspected.",
+		],
+		prerequisites: ["playbooks.get"],
+		verifyWith: ["playbooks.runs.get"],
+		related: ["playbooks.approve", "playbooks.list"],
+		retryGuidance:
+			"Inspect the returned run with playbooks.runs.get before starting another run of the same playbook.",
+	},
+	projection: {
+		mcpName: "listmonk_playbook_run",
+		openWorld: true,
+		graph: {
+			descriptorNode: `${playbookRunSpecFile}#playbookRunOperationSpec:variable`,
+			bindingNode: `${playbookRunSpecFile}#bindPlaybookRunOperationSpec:function`,
+			runtimeDefinitionNode: `${playbookRunRuntimeFile}#playbookRunOperation:variable`,
+			invokerNode: `${playbookRunRuntimeFile}#invokePlaybookRunOperation:function`,
+			executorNode: `${playbookRunRuntimeFile}#executePlaybookRunOperation:function`,
+		},
+	},
+	stability: "experimental",
+	since: "0.15.0",
+});
+
+export const playbookApproveOperationSpec = defineOperationSpec({
+	id: "playbooks.approve",
+	resource: "playbook",
+	verb: "approve",
+	title: "Approve playbook step",
+	description:
+		"Approve the human-approval step a playbook run is paused at, run it with the reviewed input, and continue the run.",
+	contract: {
+		input: playbookApproveInputContract,
+		output: playbookRunOutputContract,
+	},
+	effects: [{ kind: "write", resource: "playbook", reversible: false }],
+	policy: {
+		confirmation: "required",
+		audit: "required",
+		dryRun: false,
+	},
+	retry: {
+		kind: "reconcile",
+		reconcileWith: "playbooks.runs.get",
+		idempotent: false,
+		reason:
+			"A repeated approval is rejected once the run leaves the paused step, or approves the next gate when step_id is omitted.",
+	},
+	agent: {
+		useWhen: [
+			"A human has reviewed the resolved input of the step a playbook run is paused at.",
+		],
+		avoidWhen: [
+			"The paused step input has not been reviewed by a human operator.",
+		],
+		prerequisites: ["playbooks.runs.get"],
+		verifyWith: ["playbooks.runs.get"],
+		related: ["playbooks.run"],
+		retryGuidance:
+			"Pass step_id so a retry cannot approve a later gate, and read the run before retrying.",
+	},
+	projection: {
+		mcpName: "listmonk_playbook_approve",
+		openWorld: true,
+		graph: {
+			descriptorNode: `${playbookRunSpecFile}#playbookApproveOperationSpec:variable`,
+			bindingNode: `${playbookRunSpecFile}#bindPlaybookApproveOperationSpec:function`,
+			runtimeDefinitionNode: `${playbookRunRuntimeFile}#playbookApproveOperation:variable`,
+			invokerNode: `${playbookRunRuntimeFile}#invokePlaybookApproveOperation:function`,
+			executorNode: `${playbookRunRuntimeFile}#executePlaybookApproveOperation:function`,
+		},
+	},
+	stability: "experimental",
+	since: "0.15.0",
+});
+
+export const playbookRunGetOperationSpec = defineOperationSpec({
+	id: "playbooks.runs.get",
+	resource: "playbook",
+	verb: "get",
+	title: "Get playbook run",
+	description:
+		"Get a durable playbook run with its step inputs, outputs, pending approval, and recovery outcome.",
+	contract: {
+		input: playbookRunGetInputContract,
+		output: playbookRunOutputContract,
+	},
+	effects: [{ kind: "read", resource: "playbook" }],
+	policy: {
+		confirmation: "never",
+		audit: "optional",
+		dryRun: false,
+	},
+	retry: {
+		kind: "safe",
+		reason: "The operation reads the local playbook run store.",
+	},
+	agent: {
+		useWhen: [
+			"A playbook run must be inspected before approving it or after a failure.",
+		],
+		avoidWhen: ["The run ID is unknown."],
+		prerequisites: ["playbooks.run"],
+		verifyWith: [],
+		related: ["playbooks.approve"],
+		retryGuidance: "Retrying the same run lookup is safe.",
+	},
+	projection: {
+		mcpName: "listmonk_playbook_run_get",
+		openWorld: false,
+		graph: {
+			descriptorNode: `${playbookRunSpecFile}#playbookRunGetOperationSpec:variable`,
+			bindingNode: `${playbookRunSpecFile}#bindPlaybookRunGetOperationSpec:function`,
+			runtimeDefinitionNode: `${playbookRunRuntimeFile}#playbookRunGetOperation:variable`,
+			invokerNode: `${playbookRunRuntimeFile}#invokePlaybookRunGetOperation:function`,
+			executorNode: `${playbookRunRuntimeFile}#executePlaybookRunGetOperation:function`,
+		},
+	},
+	stability: "experimental",
+	since: "0.15.0",
+});
+
+export const playbookRunCancelOperationSpec = defineOperationSpec({
+	id: "playbooks.runs.cancel",
+	resource: "playbook",
+	verb: "cancel",
+	title: "Cancel playbook run",
+	description:
+		"Fail a playbook run that is paused at an approval step or was interrupted while running, mark its unfinished step failed, and run the playbook's recovery operation.",
+	contract: {
+		input: playbookRunCancelInputContract,
+		output: playbookRunOutputContract,
+	},
+	effects: [{ kind: "write", resource: "playbook", reversible: false }],
+	policy: {
+		confirmation: "required",
+		audit: "required",
+		dryRun: false,
+	},
+	retry: {
+		kind: "reconcile",
+		reconcileWith: "playbooks.runs.get",
+		idempotent: false,
+		reason:
+			"A repeated cancel is rejected once the run has failed, and the recovery operation runs once.",
+	},
+	agent: {
+		useWhen: [
+			"A paused run should not be approved, or a run has stayed running without progress after its process stopped.",
+		],
+		avoidWhen: [
+			"The run may still be executing a step; a running run can only be cancelled after 15 minutes without progress.",
+		],
+		prerequisites: ["playbooks.runs.get"],
+		verifyWith: ["playbooks.runs.get"],
+		related: ["playbooks.approve", "playbooks.run"],
+		retryGuidance:
+			"Read the run first; an interrupted step is never retried, so check whether its operation took effect before starting a new run.",
+	},
+	projection: {
+		mcpName: "listmonk_playbook_run_cancel",
+		openWorld: true,
+		graph: {
+			descriptorNode: `${playbookRunSpecFile}#playbookRunCancelOperationSpec:variable`,
+			bindingNode: `${playbookRunSpecFile}#bindPlaybookRunCancelOperationSpec:function`,
+			runtimeDefinitionNode: `${playbookRunRuntimeFile}#playbookRunCancelOperation:variable`,
+			invokerNode: `${playbookRunRuntimeFile}#invokePlaybookRunCancelOperation:function`,
+			executorNode: `${playbookRunRuntimeFile}#executePlaybookRunCancelOperation:function`,
+		},
+	},
+	stability: "experimental",
+	since: "0.15.0",
+});
+
+export function bindPlaybookRunOperationSpec(): typeof playbookRunOperationSpec {
+	return playbookRunOperationSpec;
+}
+
+export function bindPlaybookApproveOperationSpec(): typeof playbookApproveOperationSpec {
+	return playbookApproveOperationSpec;
+}
+
+export function bindPlaybookRunGetOperationSpec(): typeof playbookRunGetOperationSpec {
+	return playbookRunGetOperationSpec;
+}
+
+export function bindPlaybookRunCancelOperationSpec(): typeof playbookRunCancelOperationSpec {
+	return playbookRunCancelOperationSpec;
+}
+
+export const playbookRunOperationSpecs = [
+	playbookRunOperationSpec,
+	playbookApproveOperationSpec,
+	playbookRunGetOperationSpec,
+	playbookRunCancelOperationSpec,
+] as const;
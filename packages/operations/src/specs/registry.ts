@@ -1,3 +1,4 @@
+import { bounceOperationSpecs, bounceResource } from "./bounces";
 import {
 	campaignSafeStartPlaybook,
 	highRiskOperationSpecs,
@@ -31,8 +32,12 @@ import {
 	mediaResource,
 	templateResource,
 } from "./resources";
+import { playbookRunOperationSpecs } from "./playbook-runs";
 import { defineEmailOperationsSpec } from "./schema";
 import { sequenceOperationSpecs, sequenceResource } from "./sequences";
+import { settingsOperationSpecs, settingsResource } from "./settings";
+import { subscriberImportOperationSpecs } from "./subscriber-imports";
+import { suppressionOperationSpecs } from "./suppressions";
 import { userRoleOperationSpecs, userRoleResource } from "./user-roles";
 import {
 	experimentResource,
@@ -46,6 +51,7 @@ export const operationSpecs = [
 	...pilotOperationSpecs,
 	...highRiskOperationSpecs,
 	...discoveryOperationSpecs,
+	...playbookRunOperationSpecs,
 	...webhookOperationSpecs,
 	...sequenceOperationSpecs,
 	...providerOperationSpecs,
@@ -53,6 +59,10 @@ export const operationSpecs = [
 	...standaloneOperationSpecs,
 	...bridgedOperationSpecs,
 	...userRoleOperationSpecs,
+	...subscriberImportOperationSpecs,
+	...bounceOperationSpecs,
+	...settingsOperationSpecs,
+	...suppressionOperationSpecs,
 ] as const;
 
 export const emailOperationsSpec =
@@ -78,6 +88,8 @@ export const emailOperationsSpec =
 			mediaResource,
 			audienceResource,
 			userRoleResource,
+			bounceResource,
+			settingsResource,
 		],
 		operations: operationSpecs,
 		events: outboundWebhookEventSpecs,
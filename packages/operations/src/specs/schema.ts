@@ -1,6 +1,10 @@
 import type { OperationEventSpec } from "./event";
+import type { NormalizedContractSchema, NormalizedJsonSchema } from "./json";
 import type { AnyOperationSpec } from "./operation";
-import type { OperationPlaybook } from "./playbook";
+import type {
+	OperationPlaybook,
+	OperationPlaybookValueSource,
+} from "./playbook";
 import type { OperationResourceSpec } from "./resource";
 
 export interface EmailOperationsSpec {
@@ -72,6 +76,77 @@ function validateStateTransition(
 	}
 }
 
+function schemaTypes(
+	schema: unknown,
+	components: NormalizedJsonSchema,
+): ReadonlySet<string> | undefined {
+	if (typeof schema !== "object" || schema === null) {
+		return undefined;
+	}
+	const node = schema as Readonly<Record<string, unknown>>;
+	if (typeof node.$ref === "string") {
+		const name = node.$ref.replace(/^#\/components\/schemas\//u, "");
+		const schemas = components.schemas as
+			| Readonly<Record<string, unknown>>
+			| undefined;
+		return schemaTypes(schemas?.[name], components);
+	}
+	if (typeof node.type === "string") {
+		return new Set([node.type]);
+	}
+	if (Array.isArray(node.type)) {
+		return new Set(node.type.map(String));
+	}
+	const values = "const" in node ? [node.const] : node.enum;
+	if (Array.isArray(values)) {
+		return new Set(values.map(jsonValueType));
+	}
+	const members = node.anyOf ?? node.oneOf;
+	if (Array.isArray(members)) {
+		const types = new Set<string>();
+		for (const member of members) {
+			const memberTypes = schemaTypes(member, components);
+			if (memberTypes === undefined) return undefined;
+			for (const type of memberTypes) types.add(type);
+		}
+		return types;
+	}
+	return undefined;
+}
+
+function jsonValueType(value: unknown): string {
+	if (value === null) return "null";
+	return typeof value;
+}
+
+/**
+ * JSON types an operation input property accepts, or `undefined` when the
+ * contract leaves them open.
+ */
+function contractPropertyTypes(
+	contract: NormalizedContractSchema,
+	parameter: string,
+): ReadonlySet<string> | undefined {
+	const properties = contract.schema.properties as
+		| Readonly<Record<string, unknown>>
+		| undefined;
+	return schemaTypes(properties?.[parameter], contract.components);
+}
+
+function bindingSourceType(
+	playbook: OperationPlaybook,
+	source: OperationPlaybookValueSource,
+): string | undefined {
+	switch (source.kind) {
+		case "playbook-input":
+			return playbook.inputs.find(({ name }) => name === source.name)?.type;
+		case "literal":
+			return jsonValueType(source.value);
+		case "step-output":
+			return undefined;
+	}
+}
+
 export function defineEmailOperationsSpec(
 	schema: EmailOperationsSpec,
 ): EmailOperationsSpec {
@@ -198,6 +273,21 @@ export function defineEmailOperationsSpec(
 						`Operation playbook ${playbook.id} step ${step.id} binds unknown ${step.operation} input ${binding.parameter}`,
 					);
 				}
+				const sourceType = bindingSourceType(playbook, binding.source);
+				const accepted = contractPropertyTypes(
+					operation.contract.input,
+					binding.parameter,
+				);
+				if (
+					sourceType !== undefined &&
+					accepted !== undefined &&
+					!accepted.has(sourceType) &&
+					!(sourceType === "number" && accepted.has("integer"))
+				) {
+					throw new TypeError(
+						`Operation playbook ${playbook.id} step ${step.id} binds ${sourceType} to ${step.operation} input ${binding.parameter}`,
+					);
+				}
 			}
 			const requiredInputs = operation.contract.input.schema.required;
 			if (Array.isArray(requiredInputs)) {
@@ -224,3 +314,20 @@ export function defineEmailOperationsSpec(
 	}
 	return schema;
 }
+
+/**
+ * Add user-defined playbooks to a spec. They pass the same operation,
+ * approval, binding, and ID checks as the built-in playbooks.
+ */
+export function withOperationPlaybooks(
+	spec: EmailOperationsSpec,
+	playbooks: readonly OperationPlaybook[],
+): EmailOperationsSpec {
+	if (playbooks.length === 0) {
+		return spec;
+	}
+	return defineEmailOperationsSpec({
+		...spec,
+		playbooks: [...spec.playbooks, ...playbooks],
+	});
+}
@@ -3,6 +3,12 @@ import {
 	sequenceCreateOutputContract,
 	sequenceDefinitionOutputContract,
 	sequenceDeleteOutputContract,
+	sequenceDeliveryUpdateInputContract,
+	sequenceDeliveryUpdateOutputContract,
+	sequenceEngagementRecordInputContract,
+	sequenceEngagementRecordOutputContract,
+	sequenceEnrollBulkInputContract,
+	sequenceEnrollBulkOutputContract,
 	sequenceEnrollInputContract,
 	sequenceEnrollOutputContract,
 	sequenceEnrollmentGetInputContract,
@@ -14,10 +20,19 @@ import {
 	sequenceListOutputContract,
 	sequenceReconcileInputContract,
 	sequenceReconcileOutputContract,
+	sequenceMigrateInputContract,
+	sequenceMigrateOutputContract,
 	sequenceStatusInputContract,
 	sequenceStatusOutputContract,
 	sequenceTickInputContract,
 	sequenceTickOutputContract,
+	sequenceEventsIngestInputContract,
+	sequenceEventsIngestOutputContract,
+	sequenceGoalsUpdateInputContract,
+	sequenceSplitsStatsOutputContract,
+	sequenceGoalsUpdateOutputContract,
+	sequenceTriggersUpdateInputContract,
+	sequenceTriggersUpdateOutputContract,
 	sequenceUpdateInputContract,
 	sequenceUpdateOutputContract,
 	sequenceValidateInputContract,
@@ -319,6 +334,55 @@ export const sequenceEnrollOperationSpec = defineOperationSpec({
 	since: "0.9.0",
 });
 
+export const sequenceEnrollBulkOperationSpec = defineOperationSpec({
+	id: "sequences.enroll-bulk",
+	resource: "sequence",
+	verb: "enroll-bulk",
+	title: "Bulk enroll subscribers in sequence",
+	description:
+		"Enroll a Listmonk list or subscriber query into a sequence, skipping active enrollments, staggering starts, and returning a resume cursor.",
+	contract: {
+		input: sequenceEnrollBulkInputContract,
+		output: sequenceEnrollBulkOutputContract,
+	},
+	effects: [
+		{
+			kind: "delivery",
+			resource: "sequence",
+			audience: "bulk",
+			timing: "scheduled",
+		},
+	],
+	policy: { confirmation: "required", audit: "required", dryRun: false },
+	retry: {
+		kind: "reconcile",
+		reconcileWith: "sequences.enrollments.list",
+		idempotent: false,
+		reason:
+			"Subscribers with an active enrollment are skipped, so a repeated call creates no duplicates, but subscribers whose enrollment has since finished are enrolled again.",
+	},
+	agent: {
+		useWhen: [
+			"An existing Listmonk list or subscriber segment should enter a reviewed active sequence.",
+		],
+		avoidWhen: [
+			"The sequence is paused, subscriber consent is uncertain, or only one subscriber should be enrolled.",
+		],
+		prerequisites: ["sequences.get"],
+		verifyWith: ["sequences.status", "sequences.enrollments.list"],
+		related: ["sequences.enroll", "sequences.tick"],
+		retryGuidance:
+			"Continue with the returned resume cursor and start time rather than restarting; a repeat from the same cursor skips subscribers already enrolled.",
+	},
+	projection: {
+		mcpName: "listmonk_sequences_enroll_bulk",
+		openWorld: true,
+		graph: graphNodes("enrollBulk"),
+	},
+	stability: "experimental",
+	since: "0.15.0",
+});
+
 export const sequenceEnrollmentListOperationSpec = defineOperationSpec({
 	id: "sequences.enrollments.list",
 	resource: "sequence",
@@ -549,6 +613,51 @@ export const sequenceReconcileOperationSpec = defineOperationSpec({
 	since: "0.9.0",
 });
 
+export const sequenceMigrateOperationSpec = defineOperationSpec({
+	id: "sequences.migrate",
+	resource: "sequence",
+	verb: "migrate",
+	title: "Migrate sequence enrollments",
+	description:
+		"Preview or move live enrollments from one sequence revision to another, mapping their current steps.",
+	contract: {
+		input: sequenceMigrateInputContract,
+		output: sequenceMigrateOutputContract,
+	},
+	effects: [
+		{ kind: "write", resource: "sequence", reversible: false, preview: true },
+	],
+	policy: { confirmation: "required", audit: "required", dryRun: true },
+	retry: {
+		kind: "reconcile",
+		reconcileWith: "sequences.enrollments.list",
+		idempotent: false,
+		reason:
+			"A completed migration leaves no enrollments on the source revision, so a retry after an unknown outcome reports fewer moves.",
+	},
+	agent: {
+		useWhen: [
+			"In-flight enrollments must move to a revised sequence, for example to replace a broken step.",
+		],
+		avoidWhen: [
+			"The dry-run plan has not been reviewed.",
+			"Enrollments should finish on the revision they started on.",
+		],
+		prerequisites: ["sequences.get", "sequences.update"],
+		verifyWith: ["sequences.enrollments.list", "sequences.status"],
+		related: ["sequences.update", "sequences.reconcile"],
+		retryGuidance:
+			"Run a dry-run plan before retrying; already migrated enrollments are no longer on the source revision.",
+	},
+	projection: {
+		mcpName: "listmonk_sequences_migrate",
+		openWorld: false,
+		graph: graphNodes("migrate"),
+	},
+	stability: "experimental",
+	since: "0.15.0",
+});
+
 export const sequenceStatusOperationSpec = defineOperationSpec({
 	id: "sequences.status",
 	resource: "sequence",
@@ -580,6 +689,240 @@ export const sequenceStatusOperationSpec = defineOperationSpec({
 	since: "0.9.0",
 });
 
+export const sequenceSplitsStatsOperationSpec = defineOperationSpec({
+	id: "sequences.splits.stats",
+	resource: "sequence",
+	verb: "stats",
+	title: "Inspect sequence split stats",
+	description:
+		"Report per-branch assignment, expected share, send, open, click, and goal counts for every split step of a sequence.",
+	contract: {
+		input: sequenceIdInputContract,
+		output: sequenceSplitsStatsOutputContract,
+	},
+	effects: [{ kind: "read", resource: "sequence" }],
+	policy: { confirmation: "never", audit: "optional", dryRun: false },
+	retry: { kind: "safe", reason: "The operation only reads enrollment state." },
+	agent: {
+		useWhen: [
+			"The branches of a sequence split step must be compared.",
+			"Branch assignment should be checked for sample ratio mismatch.",
+		],
+		avoidWhen: ["The sequence has no split step."],
+		prerequisites: ["sequences.get"],
+		verifyWith: [],
+		related: [
+			"sequences.engagement.record",
+			"sequences.goals.update",
+			"sequences.status",
+		],
+		retryGuidance: "Retrying the same stats read is safe.",
+	},
+	projection: {
+		mcpName: "listmonk_sequences_splits_stats",
+		openWorld: false,
+		graph: graphNodes("splitsStats"),
+	},
+	stability: "experimental",
+	since: "0.15.0",
+});
+
+export const sequenceTriggersUpdateOperationSpec = defineOperationSpec({
+	id: "sequences.triggers.update",
+	resource: "sequence",
+	verb: "update",
+	title: "Replace sequence triggers",
+	description:
+		"Replace the list, subscriber-created, inbound delivery, and custom event triggers that the sequence worker uses to enroll subscribers.",
+	contract: {
+		input: sequenceTriggersUpdateInputContract,
+		output: sequenceTriggersUpdateOutputContract,
+	},
+	effects: [{ kind: "write", resource: "sequence", reversible: true }],
+	policy: { confirmation: "never", audit: "required", dryRun: false },
+	retry: {
+		kind: "safe",
+		reason:
+			"Triggers are replaced as a whole, so repeating the same set reports updated: false.",
+	},
+	agent: {
+		useWhen: [
+			"A sequence should enroll subscribers automatically from list joins, new subscribers, or events.",
+		],
+		avoidWhen: ["A single known subscriber should be enrolled now."],
+		prerequisites: ["sequences.get"],
+		verifyWith: ["sequences.status"],
+		related: ["sequences.events.ingest", "sequences.tick", "sequences.enroll"],
+		retryGuidance: "Retrying the same trigger set is safe.",
+	},
+	projection: {
+		mcpName: "listmonk_sequences_triggers_update",
+		openWorld: false,
+		graph: graphNodes("triggersUpdate"),
+	},
+	stability: "experimental",
+	since: "0.15.0",
+});
+
+export const sequenceDeliveryUpdateOperationSpec = defineOperationSpec({
+	id: "sequences.delivery.update",
+	resource: "sequence",
+	verb: "update",
+	title: "Replace sequence delivery rules",
+	description:
+		"Replace the send window and per-subscriber daily cap that defer sequence send steps instead of delivering outside allowed hours.",
+	contract: {
+		input: sequenceDeliveryUpdateInputContract,
+		output: sequenceDeliveryUpdateOutputContract,
+	},
+	effects: [{ kind: "write", resource: "sequence", reversible: true }],
+	policy: { confirmation: "never", audit: "required", dryRun: false },
+	retry: {
+		kind: "safe",
+		reason:
+			"Delivery rules are replaced as a whole, so repeating the same rules reports updated: false.",
+	},
+	agent: {
+		useWhen: [
+			"Sequence messages should only go out during business hours in the subscriber's time zone.",
+			"Subscribers in several sequences should receive at most a few sequence messages per day.",
+		],
+		avoidWhen: [
+			"Only one send step needs its own window; set window on that step.",
+		],
+		prerequisites: ["sequences.get"],
+		verifyWith: ["sequences.enrollments.list"],
+		related: ["sequences.update", "sequences.tick", "sequences.status"],
+		retryGuidance: "Retrying the same delivery rules is safe.",
+	},
+	projection: {
+		mcpName: "listmonk_sequences_delivery_update",
+		openWorld: false,
+		graph: graphNodes("deliveryUpdate"),
+	},
+	stability: "experimental",
+	since: "0.15.0",
+});
+
+export const sequenceGoalsUpdateOperationSpec = defineOperationSpec({
+	id: "sequences.goals.update",
+	resource: "sequence",
+	verb: "update",
+	title: "Replace sequence goals",
+	description:
+		"Replace the goals and exit criteria the sequence worker checks before each step to end enrollments as goal_reached or exited.",
+	contract: {
+		input: sequenceGoalsUpdateInputContract,
+		output: sequenceGoalsUpdateOutputContract,
+	},
+	effects: [{ kind: "write", resource: "sequence", reversible: true }],
+	policy: { confirmation: "never", audit: "required", dryRun: false },
+	retry: {
+		kind: "safe",
+		reason:
+			"Goals are replaced as a whole, so repeating the same goals reports updated: false.",
+	},
+	agent: {
+		useWhen: [
+			"Subscribers who convert, for example by joining a paid list, should leave an onboarding sequence.",
+			"Subscribers who unsubscribe should exit a sequence before its next step.",
+		],
+		avoidWhen: [
+			"The sequence should branch rather than end; use a condition step.",
+		],
+		prerequisites: ["sequences.get"],
+		verifyWith: ["sequences.status", "sequences.enrollments.list"],
+		related: ["sequences.events.ingest", "sequences.tick", "sequences.status"],
+		retryGuidance: "Retrying the same goals is safe.",
+	},
+	projection: {
+		mcpName: "listmonk_sequences_goals_update",
+		openWorld: false,
+		graph: graphNodes("goalsUpdate"),
+	},
+	stability: "experimental",
+	since: "0.15.0",
+});
+
+export const sequenceEventsIngestOperationSpec = defineOperationSpec({
+	id: "sequences.events.ingest",
+	resource: "sequence",
+	verb: "ingest",
+	title: "Ingest sequence trigger events",
+	description:
+		"Queue custom named events for custom_event sequence triggers and goals; the sequence worker resolves subscribers, enrolls them, and records goal events on its next tick.",
+	contract: {
+		input: sequenceEventsIngestInputContract,
+		output: sequenceEventsIngestOutputContract,
+	},
+	effects: [{ kind: "write", resource: "sequence", reversible: true }],
+	policy: { confirmation: "never", audit: "required", dryRun: false },
+	retry: {
+		kind: "safe",
+		reason:
+			"Event IDs produce deterministic inbox IDs, so redelivered events are counted as duplicates.",
+	},
+	agent: {
+		useWhen: [
+			"An application event should start a sequence for a subscriber.",
+			"An application event should end an enrollment at a custom_event goal.",
+		],
+		avoidWhen: [
+			"No sequence has a custom_event trigger or goal for the event name.",
+		],
+		prerequisites: ["sequences.triggers.update"],
+		verifyWith: ["sequences.enrollments.list"],
+		related: ["sequences.tick", "sequences.triggers.update"],
+		retryGuidance: "Retry with the same event IDs; ingestion is idempotent.",
+	},
+	projection: {
+		mcpName: "listmonk_sequences_events_ingest",
+		openWorld: false,
+		graph: graphNodes("eventsIngest"),
+	},
+	stability: "experimental",
+	since: "0.15.0",
+});
+
+export const sequenceEngagementRecordOperationSpec = defineOperationSpec({
+	id: "sequences.engagement.record",
+	resource: "sequence",
+	verb: "record",
+	title: "Record sequence engagement",
+	description:
+		"Record opens and clicks of sequence send steps so engagement conditions can branch on them; repeated events are counted as duplicates.",
+	contract: {
+		input: sequenceEngagementRecordInputContract,
+		output: sequenceEngagementRecordOutputContract,
+	},
+	effects: [{ kind: "write", resource: "sequence", reversible: true }],
+	policy: { confirmation: "never", audit: "required", dryRun: false },
+	retry: {
+		kind: "safe",
+		reason:
+			"Only the first event per enrollment, send step, and kind is kept, so replays are counted as duplicates.",
+	},
+	agent: {
+		useWhen: [
+			"An open or click tracked outside Listmonk should steer a sequence condition step.",
+		],
+		avoidWhen: [
+			"The enrollment or step ID is not known from the sent message's template data.",
+		],
+		prerequisites: ["sequences.enrollments.get"],
+		verifyWith: ["sequences.enrollments.get"],
+		related: ["sequences.tick", "sequences.events.ingest"],
+		retryGuidance: "Retry with the same events; recording is idempotent.",
+	},
+	projection: {
+		mcpName: "listmonk_sequences_engagement_record",
+		openWorld: false,
+		graph: graphNodes("engagementRecord"),
+	},
+	stability: "experimental",
+	since: "0.15.0",
+});
+
 export const sequenceOperationSpecs = [
 	sequenceValidateOperationSpec,
 	sequenceCreateOperationSpec,
@@ -588,13 +931,21 @@ export const sequenceOperationSpecs = [
 	sequenceGetOperationSpec,
 	sequenceDeleteOperationSpec,
 	sequenceEnrollOperationSpec,
+	sequenceEnrollBulkOperationSpec,
 	sequenceEnrollmentListOperationSpec,
 	sequenceEnrollmentGetOperationSpec,
 	sequencePauseOperationSpec,
 	sequenceResumeOperationSpec,
 	sequenceTickOperationSpec,
 	sequenceReconcileOperationSpec,
+	sequenceMigrateOperationSpec,
 	sequenceStatusOperationSpec,
+	sequenceSplitsStatsOperationSpec,
+	sequenceTriggersUpdateOperationSpec,
+	sequenceEventsIngestOperationSpec,
+	sequenceDeliveryUpdateOperationSpec,
+	sequenceGoalsUpdateOperationSpec,
+	sequenceEngagementRecordOperationSpec,
 ] as const;
 
 export function bindSequenceValidateOperationSpec(): typeof sequenceValidateOperationSpec {
@@ -639,3 +990,27 @@ export function bindSequenceReconcileOperationSpec(): typeof sequenceReconcileOp
 export function bindSequenceStatusOperationSpec(): typeof sequenceStatusOperationSpec {
 	return sequenceStatusOperationSpec;
 }
+export function bindSequenceTriggersUpdateOperationSpec(): typeof sequenceTriggersUpdateOperationSpec {
+	return sequenceTriggersUpdateOperationSpec;
+}
+export function bindSequenceEventsIngestOperationSpec(): typeof sequenceEventsIngestOperationSpec {
+	return sequenceEventsIngestOperationSpec;
+}
+export function bindSequenceEngagementRecordOperationSpec(): typeof sequenceEngagementRecordOperationSpec {
+	return sequenceEngagementRecordOperationSpec;
+}
+export function bindSequenceDeliveryUpdateOperationSpec(): typeof sequenceDeliveryUpdateOperationSpec {
+	return sequenceDeliveryUpdateOperationSpec;
+}
+export function bindSequenceGoalsUpdateOperationSpec(): typeof sequenceGoalsUpdateOperationSpec {
+	return sequenceGoalsUpdateOperationSpec;
+}
+export function bindSequenceSplitsStatsOperationSpec(): typeof sequenceSplitsStatsOperationSpec {
+	return sequenceSplitsStatsOperationSpec;
+}
+export function bindSequenceMigrateOperationSpec(): typeof sequenceMigrateOperationSpec {
+	return sequenceMigrateOperationSpec;
+}
+export function bindSequenceEnrollBulkOperationSpec(): typeof sequenceEnrollBulkOperationSpec {
+	return sequenceEnrollBulkOperationSpec;
+}
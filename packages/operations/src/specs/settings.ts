@@ -0,0 +1,86 @@
+import {
+	settingsManifestReconcileInputContract,
+	settingsManifestReconcileOutputContract,
+} from "./contract-schemas";
+import { defineOperationSpec } from "./operation";
+import { defineOperationResourceSpec } from "./resource";
+
+export const settingsResource = defineOperationResourceSpec({
+	id: "settings",
+	title: "Listmonk settings",
+	// Listmonk keeps exactly one settings document. It always exists, so
+	// reconcile only moves it between configured revisions.
+	states: ["configured"],
+	transitions: {
+		configured: [],
+	},
+	terminalStates: [],
+});
+
+const settingsRuntimeFile = "packages/operations/src/settings.ts";
+const settingsSpecFile = "packages/operations/src/specs/settings.ts";
+
+export const settingsReconcileOperationSpec = defineOperationSpec({
+	id: "settings.reconcile",
+	resource: "settings",
+	verb: "reconcile",
+	title: "Reconcile settings manifest",
+	description:
+		"Plan or apply a versioned Listmonk settings manifest with env-referenced secrets and a redacted drift report",
+	contract: {
+		input: settingsManifestReconcileInputContract,
+		output: settingsManifestReconcileOutputContract,
+	},
+	effects: [
+		{
+			kind: "write",
+			resource: "settings",
+			reversible: false,
+			preview: true,
+		},
+	],
+	policy: {
+		confirmation: "required",
+		audit: "required",
+		dryRun: true,
+	},
+	retry: {
+		kind: "reconcile",
+		reconcileWith: "settings.reconcile",
+		idempotent: true,
+		reason: "Apply writes the merged settings document in one request; re-running reconcile re-plans against the current settings and converges on the manifest.",
+	},
+	agent: {
+		useWhen: [
+			"Listmonk settings must be checked for drift or converged on a versioned manifest.",
+		],
+		avoidWhen: [
+			"The manifest would inline a secret instead of referencing an environment variable.",
+			"A one-off SMTP connection test is needed before changing settings.",
+		],
+		prerequisites: [],
+		verifyWith: ["settings.reconcile"],
+		related: ["user-roles.reconcile", "templates.reconcile"],
+		retryGuidance:
+			"Re-run reconcile in dry-run mode to confirm which settings still drift before applying again.",
+	},
+	projection: {
+		mcpName: "listmonk_reconcile_settings_manifest",
+		openWorld: true,
+		graph: {
+			descriptorNode: `${settingsSpecFile}#settingsReconcileOperationSpec:variable`,
+			bindingNode: `${settingsSpecFile}#bindSettingsReconcileOperationSpec:function`,
+			runtimeDefinitionNode: `${settingsRuntimeFile}#reconcileSettingsManifestOperation:variable`,
+			invokerNode: `${settingsRuntimeFile}#invokeReconcileSettingsManifestOperation:function`,
+			executorNode: `${settingsRuntimeFile}#executeSettingsManifestReconcile:function`,
+		},
+	},
+	stability: "experimental",
+	since: "0.15.0",
+});
+
+export function bindSettingsReconcileOperationSpec(): typeof settingsReconcileOperationSpec {
+	return settingsReconcileOperationSpec;
+}
+
+export const settingsOperationSpecs = [settingsReconcileOperationSpec] as const;
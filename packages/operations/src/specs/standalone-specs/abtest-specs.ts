@@ -19,6 +19,8 @@ import {
 	abTestExportOutputContract,
 	abTestDeleteOutputContract,
 	abTestDeployWinnerOutputContract,
+	abTestConversionRecordInputContract,
+	abTestConversionRecordOutputContract,
 } from "../contract-schemas";
 
 export const abTestListOperationSpec = defineOperationSpec({
@@ -608,6 +610,53 @@ export const abTestExportAssignmentOperationSpec = defineOperationSpec({
 	since: "0.10.0",
 });
 
+export const abTestConversionRecordOperationSpec = defineOperationSpec({
+	id: "abtest.conversion.record",
+	resource: "experiment",
+	verb: "record",
+	title: "Record A/B test conversions",
+	description:
+		"Record one or more conversion events attributed to A/B test variants by subscriber UUID; events outside the variant manifest or attribution window are rejected per event.",
+	contract: {
+		input: abTestConversionRecordInputContract,
+		output: abTestConversionRecordOutputContract,
+	},
+	effects: [{ kind: "write", resource: "experiment", reversible: true }],
+	policy: { confirmation: "never", audit: "required", dryRun: false },
+	retry: {
+		kind: "safe",
+		reason:
+			"Conversions are keyed by event_id, so a replayed event is reported as a duplicate instead of being counted twice.",
+	},
+	agent: {
+		useWhen: [
+			"A purchase, signup, or other conversion must be attributed to an A/B test variant.",
+		],
+		avoidWhen: [
+			"The subscriber UUID or variant is unknown.",
+			"The test has not launched yet.",
+		],
+		prerequisites: ["abtest.get"],
+		verifyWith: ["abtest.analyze"],
+		related: ["abtest.analyze", "abtest.export-assignment"],
+		retryGuidance:
+			"Retry with the same event_id values; duplicates are reported and never double counted.",
+	},
+	projection: {
+		mcpName: "listmonk_abtest_conversion_record",
+		openWorld: false,
+		graph: {
+			descriptorNode: "packages/operations/src/specs/standalone-specs/abtest-specs.ts#abTestConversionRecordOperationSpec:variable",
+			bindingNode: "packages/operations/src/specs/standalone-specs/abtest-specs.ts#bindAbTestConversionRecordOperationSpec:function",
+			runtimeDefinitionNode: "packages/abtest/src/operations.ts#recordAbTestConversionsOperation:variable",
+			invokerNode: "packages/abtest/src/operations.ts#invokeRecordAbTestConversionsOperation:function",
+			executorNode: "packages/abtest/src/operations.ts#executeRecordAbTestConversionsOperation:function",
+		},
+	},
+	stability: "experimental",
+	since: "0.15.0",
+});
+
 export function bindAbTestListOperationSpec(): typeof abTestListOperationSpec {
 	return abTestListOperationSpec;
 }
@@ -659,3 +708,7 @@ export function bindAbTestReconcileOperationSpec(): typeof abTestReconcileOperat
 export function bindAbTestExportAssignmentOperationSpec(): typeof abTestExportAssignmentOperationSpec {
 	return abTestExportAssignmentOperationSpec;
 }
+
+export function bindAbTestConversionRecordOperationSpec(): typeof abTestConversionRecordOperationSpec {
+	return abTestConversionRecordOperationSpec;
+}
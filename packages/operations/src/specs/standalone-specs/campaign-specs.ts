@@ -1,5 +1,7 @@
 import { defineOperationSpec } from "../operation";
 import {
+	campaignAnalyticsInputContract,
+	campaignAnalyticsOutputContract,
 	campaignCreateInputContract,
 	campaignUpdateInputContract,
 	campaignDeleteInputContract,
@@ -8,6 +10,10 @@ import {
 	campaignGetOutputContract,
 	campaignLifecycleInputContract,
 	campaignLifecycleOutputContract,
+	campaignPreviewInputContract,
+	campaignPreviewOutputContract,
+	campaignTestSendInputContract,
+	campaignTestSendOutputContract,
 } from "../contract-schemas";
 
 export const campaignsCreateOperationSpec = defineOperationSpec({
@@ -249,6 +255,163 @@ export const campaignsCloneOperationSpec = defineOperationSpec({
 	since: "0.9.0",
 });
 
+export const campaignsAnalyticsOperationSpec = defineOperationSpec({
+	id: "campaigns.analytics",
+	resource: "campaign",
+	verb: "analytics",
+	title: "Get campaign analytics",
+	description:
+		"Read view, click, and bounce series bucketed by hour, day, or week plus the most-clicked links for a campaign over a date range.",
+	contract: {
+		input: campaignAnalyticsInputContract,
+		output: campaignAnalyticsOutputContract,
+	},
+	effects: [{ kind: "read", resource: "campaign" }],
+	policy: { confirmation: "never", audit: "optional", dryRun: false },
+	retry: {
+		kind: "safe",
+		reason: "The operation only reads campaign counters and analytics.",
+	},
+	agent: {
+		useWhen: [
+			"Engagement over time or the most-clicked links of a campaign must be reported.",
+		],
+		avoidWhen: ["Only the current all-time counters are needed."],
+		prerequisites: ["campaigns.get"],
+		verifyWith: [],
+		related: ["campaigns.stats", "bounces.summary"],
+		retryGuidance: "Retry transient read failures with bounded backoff.",
+	},
+	projection: {
+		mcpName: "listmonk_campaign_analytics",
+		openWorld: true,
+		graph: {
+			descriptorNode:
+				"packages/operations/src/specs/standalone-specs/campaign-specs.ts#campaignsAnalyticsOperationSpec:variable",
+			bindingNode:
+				"packages/operations/src/specs/standalone-specs/campaign-specs.ts#bindCampaignsAnalyticsOperationSpec:function",
+			runtimeDefinitionNode:
+				"packages/operations/src/campaigns.ts#getCampaignAnalyticsOperation:variable",
+			invokerNode:
+				"packages/operations/src/campaigns.ts#invokeGetCampaignAnalyticsOperation:function",
+			executorNode:
+				"packages/operations/src/campaigns.ts#getCampaignAnalytics:function",
+		},
+	},
+	stability: "experimental",
+	since: "0.15.0",
+});
+
+export const campaignsPreviewOperationSpec = defineOperationSpec({
+	id: "campaigns.preview",
+	resource: "campaign",
+	verb: "preview",
+	title: "Preview campaign",
+	description:
+		"Render the HTML and plain-text preview of a campaign through its template, optionally with the name, email, and attributes of a chosen subscriber.",
+	contract: {
+		input: campaignPreviewInputContract,
+		output: campaignPreviewOutputContract,
+	},
+	effects: [{ kind: "read", resource: "campaign" }],
+	policy: { confirmation: "never", audit: "optional", dryRun: false },
+	retry: {
+		kind: "safe",
+		reason: "Rendering a preview does not change the campaign.",
+	},
+	agent: {
+		useWhen: [
+			"The rendered message must be reviewed before a test send or launch.",
+		],
+		avoidWhen: ["Only the stored campaign body is needed."],
+		prerequisites: ["campaigns.get"],
+		verifyWith: [],
+		related: ["campaigns.test-send", "ops.campaign.preflight"],
+		retryGuidance: "Retry transient read failures with bounded backoff.",
+	},
+	projection: {
+		mcpName: "listmonk_preview_campaign",
+		openWorld: true,
+		graph: {
+			descriptorNode:
+				"packages/operations/src/specs/standalone-specs/campaign-specs.ts#campaignsPreviewOperationSpec:variable",
+			bindingNode:
+				"packages/operations/src/specs/standalone-specs/campaign-specs.ts#bindCampaignsPreviewOperationSpec:function",
+			runtimeDefinitionNode:
+				"packages/operations/src/campaigns.ts#previewCampaignOperation:variable",
+			invokerNode:
+				"packages/operations/src/campaigns.ts#invokePreviewCampaignOperation:function",
+			executorNode:
+				"packages/operations/src/campaigns.ts#previewCampaign:function",
+		},
+	},
+	stability: "experimental",
+	since: "0.15.0",
+});
+
+export const campaignsTestSendOperationSpec = defineOperationSpec({
+	id: "campaigns.test-send",
+	resource: "campaign",
+	verb: "test-send",
+	title: "Send campaign test",
+	description:
+		"Send the current campaign content to a few seed recipients. Recipients must pass the configured seed recipient policy and are reported only as a count and checksum.",
+	contract: {
+		input: campaignTestSendInputContract,
+		output: campaignTestSendOutputContract,
+	},
+	effects: [
+		{
+			kind: "delivery",
+			resource: "message",
+			audience: "single",
+			timing: "immediate",
+		},
+	],
+	policy: {
+		confirmation: "never",
+		audit: "required",
+		dryRun: false,
+	},
+	retry: {
+		kind: "unsafe",
+		reason:
+			"A timeout may occur after Listmonk sent the test, so a retry can deliver duplicates to the seed recipients.",
+	},
+	agent: {
+		useWhen: [
+			"The rendered campaign must be checked in real inboxes before launch.",
+		],
+		avoidWhen: [
+			"The recipients are not internal seed addresses.",
+			"Only the rendered content needs review; use campaigns.preview.",
+		],
+		prerequisites: ["campaigns.preview"],
+		verifyWith: [],
+		related: ["campaigns.preview", "ops.campaign.preflight"],
+		retryGuidance:
+			"Do not retry after a timeout; ask the recipients whether the test arrived.",
+	},
+	projection: {
+		mcpName: "listmonk_test_campaign",
+		openWorld: true,
+		graph: {
+			descriptorNode:
+				"packages/operations/src/specs/standalone-specs/campaign-specs.ts#campaignsTestSendOperationSpec:variable",
+			bindingNode:
+				"packages/operations/src/specs/standalone-specs/campaign-specs.ts#bindCampaignsTestSendOperationSpec:function",
+			runtimeDefinitionNode:
+				"packages/operations/src/campaigns.ts#testSendCampaignOperation:variable",
+			invokerNode:
+				"packages/operations/src/campaigns.ts#invokeTestSendCampaignOperation:function",
+			executorNode:
+				"packages/operations/src/campaigns.ts#testSendCampaign:function",
+		},
+	},
+	stability: "experimental",
+	since: "0.15.0",
+});
+
 export function bindCampaignsCreateOperationSpec(): typeof campaignsCreateOperationSpec {
 	return campaignsCreateOperationSpec;
 }
@@ -268,3 +431,15 @@ export function bindCampaignsPauseOperationSpec(): typeof campaignsPauseOperatio
 export function bindCampaignsCloneOperationSpec(): typeof campaignsCloneOperationSpec {
 	return campaignsCloneOperationSpec;
 }
+
+export function bindCampaignsAnalyticsOperationSpec(): typeof campaignsAnalyticsOperationSpec {
+	return campaignsAnalyticsOperationSpec;
+}
+
+export function bindCampaignsPreviewOperationSpec(): typeof campaignsPreviewOperationSpec {
+	return campaignsPreviewOperationSpec;
+}
+
+export function bindCampaignsTestSendOperationSpec(): typeof campaignsTestSendOperationSpec {
+	return campaignsTestSendOperationSpec;
+}
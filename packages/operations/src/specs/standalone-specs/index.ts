@@ -25,6 +25,9 @@ import {
 	campaignsDeleteOperationSpec,
 	campaignsPauseOperationSpec,
 	campaignsCloneOperationSpec,
+	campaignsAnalyticsOperationSpec,
+	campaignsPreviewOperationSpec,
+	campaignsTestSendOperationSpec,
 } from "./campaign-specs";
 import {
 	templatesCreateOperationSpec,
@@ -61,6 +64,7 @@ import {
 	abTestTickOperationSpec,
 	abTestReconcileOperationSpec,
 	abTestExportAssignmentOperationSpec,
+	abTestConversionRecordOperationSpec,
 } from "./abtest-specs";
 
 export const standaloneOperationSpecs = [
@@ -83,6 +87,9 @@ export const standaloneOperationSpecs = [
 	campaignsDeleteOperationSpec,
 	campaignsPauseOperationSpec,
 	campaignsCloneOperationSpec,
+	campaignsAnalyticsOperationSpec,
+	campaignsPreviewOperationSpec,
+	campaignsTestSendOperationSpec,
 	mediaDeleteOperationSpec,
 	mediaUploadOperationSpec,
 	opsSegmentDriftOperationSpec,
@@ -106,6 +113,7 @@ export const standaloneOperationSpecs = [
 	abTestTickOperationSpec,
 	abTestReconcileOperationSpec,
 	abTestExportAssignmentOperationSpec,
+	abTestConversionRecordOperationSpec,
 ] as const;
 
 /** @deprecated Use `standaloneOperationSpecs`. */
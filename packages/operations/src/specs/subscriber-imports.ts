@@ -0,0 +1,208 @@
+import {
+	emptyInputContract,
+	subscriberImportLogsOutputContract,
+	subscriberImportStartInputContract,
+	subscriberImportStartOutputContract,
+	subscriberImportStatusOutputContract,
+} from "./contract-schemas";
+import { defineOperationSpec } from "./operation";
+
+const subscriberImportRuntimeFile = "packages/operations/src/subscriber-imports.ts";
+const subscriberImportSpecFile =
+	"packages/operations/src/specs/subscriber-imports.ts";
+
+// Runtime symbols follow the executor name: `<executor>Operation` is the
+// definition and `invoke<Executor>Operation` the invoker.
+function graphNodes(specName: string, executorName: string) {
+	const runtimeName = `${executorName[0]?.toUpperCase()}${executorName.slice(1)}`;
+	return {
+		descriptorNode: `${subscriberImportSpecFile}#subscriberImport${specName}OperationSpec:variable`,
+		bindingNode: `${subscriberImportSpecFile}#bindSubscriberImport${specName}OperationSpec:function`,
+		runtimeDefinitionNode: `${subscriberImportRuntimeFile}#${executorName}Operation:variable`,
+		invokerNode: `${subscriberImportRuntimeFile}#invoke${runtimeName}Operation:function`,
+		executorNode: `${subscriberImportRuntimeFile}#${executorName}:function`,
+	};
+}
+
+export const subscriberImportStartOperationSpec = defineOperationSpec({
+	id: "subscribers.import.start",
+	resource: "subscriber",
+	verb: "start",
+	title: "Start subscriber import",
+	description:
+		"Validate a subscriber CSV (header mapping, email validity, duplicate emails, attribute JSON) and upload it to Listmonk's importer; dry_run reports the validation without uploading",
+	contract: {
+		input: subscriberImportStartInputContract,
+		output: subscriberImportStartOutputContract,
+	},
+	effects: [
+		{
+			kind: "write",
+			resource: "subscriber",
+			reversible: false,
+			preview: true,
+		},
+		{
+			kind: "suppression",
+			resource: "audience",
+			scope: "audience",
+			reversible: true,
+			preview: true,
+		},
+	],
+	policy: { confirmation: "required", audit: "required", dryRun: true },
+	retry: {
+		kind: "reconcile",
+		reconcileWith: "subscribers.import.status",
+		idempotent: true,
+		reason:
+			"Re-importing the same normalized CSV converges on the same subscribers, but Listmonk runs one import at a time and rejects a start while another is running, so an ambiguous start is resolved from the import status.",
+	},
+	agent: {
+		useWhen: [
+			"Subscribers must be bulk-imported or blocklisted from a CSV file.",
+		],
+		avoidWhen: [
+			"A single subscriber should be created or updated.",
+			"Another import is still running.",
+		],
+		prerequisites: ["subscribers.import.status"],
+		verifyWith: ["subscribers.import.status", "subscribers.import.logs"],
+		related: ["subscribers.import.stop", "subscribers.create"],
+		retryGuidance:
+			"Run with dry_run first; after an ambiguous start, check subscribers.import.status before uploading again.",
+	},
+	projection: {
+		mcpName: "listmonk_start_subscriber_import",
+		openWorld: true,
+		graph: graphNodes("Start", "startSubscriberImport"),
+	},
+	stability: "experimental",
+	since: "0.15.0",
+});
+
+export const subscriberImportStatusOperationSpec = defineOperationSpec({
+	id: "subscribers.import.status",
+	resource: "subscriber",
+	verb: "status",
+	title: "Get subscriber import status",
+	description: "Get the progress of Listmonk's current or last subscriber import",
+	contract: {
+		input: emptyInputContract,
+		output: subscriberImportStatusOutputContract,
+	},
+	effects: [{ kind: "read", resource: "subscriber" }],
+	policy: { confirmation: "never", audit: "optional", dryRun: false },
+	retry: {
+		kind: "safe",
+		reason: "The operation only reads the importer status.",
+	},
+	agent: {
+		useWhen: [
+			"An import was started and its progress or outcome must be checked.",
+		],
+		avoidWhen: ["The skipped-row reasons are needed; read the import logs."],
+		prerequisites: [],
+		verifyWith: [],
+		related: ["subscribers.import.logs", "subscribers.import.start"],
+		retryGuidance: "Retry transient read failures with bounded backoff.",
+	},
+	projection: {
+		mcpName: "listmonk_get_subscriber_import_status",
+		openWorld: true,
+		graph: graphNodes("Status", "getSubscriberImportStatus"),
+	},
+	stability: "experimental",
+	since: "0.15.0",
+});
+
+export const subscriberImportLogsOperationSpec = defineOperationSpec({
+	id: "subscribers.import.logs",
+	resource: "subscriber",
+	verb: "logs",
+	title: "Get subscriber import logs",
+	description: "Get the log output of Listmonk's current or last subscriber import",
+	contract: {
+		input: emptyInputContract,
+		output: subscriberImportLogsOutputContract,
+	},
+	effects: [{ kind: "read", resource: "subscriber" }],
+	policy: { confirmation: "never", audit: "optional", dryRun: false },
+	retry: {
+		kind: "safe",
+		reason: "The operation only reads the importer log.",
+	},
+	agent: {
+		useWhen: ["An import failed or skipped rows and the reason is needed."],
+		avoidWhen: ["Only the import progress counters are needed."],
+		prerequisites: [],
+		verifyWith: [],
+		related: ["subscribers.import.status"],
+		retryGuidance: "Retry transient read failures with bounded backoff.",
+	},
+	projection: {
+		mcpName: "listmonk_get_subscriber_import_logs",
+		openWorld: true,
+		graph: graphNodes("Logs", "getSubscriberImportLogs"),
+	},
+	stability: "experimental",
+	since: "0.15.0",
+});
+
+export const subscriberImportStopOperationSpec = defineOperationSpec({
+	id: "subscribers.import.stop",
+	resource: "subscriber",
+	verb: "stop",
+	title: "Stop subscriber import",
+	description:
+		"Stop Listmonk's running subscriber import, or clear the state of a finished one; rows already imported stay imported",
+	contract: {
+		input: emptyInputContract,
+		output: subscriberImportStatusOutputContract,
+	},
+	effects: [{ kind: "write", resource: "subscriber", reversible: false }],
+	policy: { confirmation: "required", audit: "required", dryRun: false },
+	retry: {
+		kind: "safe",
+		reason:
+			"Stopping an import that already stopped or finished leaves the importer idle.",
+	},
+	agent: {
+		useWhen: ["A running import must be halted."],
+		avoidWhen: ["The import should finish; rows already imported are kept."],
+		prerequisites: ["subscribers.import.status"],
+		verifyWith: ["subscribers.import.status"],
+		related: ["subscribers.import.start"],
+		retryGuidance: "Retry identical transient failures with bounded backoff.",
+	},
+	projection: {
+		mcpName: "listmonk_stop_subscriber_import",
+		openWorld: true,
+		graph: graphNodes("Stop", "stopSubscriberImport"),
+	},
+	stability: "experimental",
+	since: "0.15.0",
+});
+
+export function bindSubscriberImportStartOperationSpec(): typeof subscriberImportStartOperationSpec {
+	return subscriberImportStartOperationSpec;
+}
+
+export function bindSubscriberImportStatusOperationSpec(): typeof subscriberImportStatusOperationSpec {
+	return subscriberImportStatusOperationSpec;
+}
+
+export function bindSubscriberImportLogsOperationSpec(): typeof subscriberImportLogsOperationSpec {
+	return subscriberImportLogsOperationSpec;
+}
+
+export function bindSubscriberImportStopOperationSpec(): typeof subscriberImportStopOperationSpec {
+	return subscriberImportStopOperationSpec;
+}
+
+export const subscriberImportOperationSpecs = [
+	subscriberImportStartOperationSpec,
+	subscriberImportStatusOperationSpec,
+	subscriberImportLogsOperationSpec,
+	subscriberImportStopOperationSpec,
+] as const;
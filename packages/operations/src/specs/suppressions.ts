@@ -0,0 +1,79 @@
+import {
+	suppressionApplyInputContract,
+	suppressionApplyOutputContract,
+} from "./contract-schemas";
+import { defineOperationSpec } from "./operation";
+
+const suppressionRuntimeFile = "packages/automation/src/suppression-operations.ts";
+const suppressionSpecFile = "packages/operations/src/specs/suppressions.ts";
+
+export const suppressionApplyOperationSpec = defineOperationSpec({
+	id: "suppressions.apply",
+	resource: "subscriber",
+	verb: "apply",
+	title: "Apply suppression policy",
+	description:
+		"Evaluate inbound bounce, complaint, and unsubscribe events against a provider's suppression policy and report or apply the resulting blocklist and list removals.",
+	contract: {
+		input: suppressionApplyInputContract,
+		output: suppressionApplyOutputContract,
+	},
+	effects: [
+		{
+			kind: "suppression",
+			resource: "subscriber",
+			scope: "audience",
+			reversible: true,
+			preview: true,
+		},
+	],
+	policy: {
+		confirmation: "required",
+		audit: "required",
+		dryRun: true,
+	},
+	retry: {
+		kind: "safe",
+		reason:
+			"Blocklisting and list removal are idempotent, and soft bounces are counted once per provider event ID.",
+	},
+	agent: {
+		useWhen: [
+			"Inbound provider bounce, complaint, or unsubscribe events must be turned into subscriber suppressions.",
+		],
+		avoidWhen: [
+			"The events have not been verified by a provider adapter or normalized ingest.",
+			"A one-off suppression of known subscribers is intended instead of a policy decision.",
+		],
+		prerequisites: ["providers.list"],
+		verifyWith: ["subscribers.get"],
+		related: [
+			"webhooks.inbound.ingest",
+			"subscribers.blocklist",
+			"subscribers.remove-from-lists",
+		],
+		retryGuidance:
+			"Re-run with the same events in dry-run mode to confirm which subscribers still need suppression; an identical confirmed retry is safe.",
+	},
+	projection: {
+		mcpName: "listmonk_apply_suppression_policy",
+		openWorld: true,
+		graph: {
+			descriptorNode: `${suppressionSpecFile}#suppressionApplyOperationSpec:variable`,
+			bindingNode: `${suppressionSpecFile}#bindSuppressionApplyOperationSpec:function`,
+			runtimeDefinitionNode: `${suppressionRuntimeFile}#suppressionApplyOperation:variable`,
+			invokerNode: `${suppressionRuntimeFile}#invokeSuppressionApplyOperation:function`,
+			executorNode: `${suppressionRuntimeFile}#executeSuppressionApplyOperation:function`,
+		},
+	},
+	stability: "experimental",
+	since: "0.15.0",
+});
+
+export function bindSuppressionApplyOperationSpec(): typeof suppressionApplyOperationSpec {
+	return suppressionApplyOperationSpec;
+}
+
+export const suppressionOperationSpecs = [
+	suppressionApplyOperationSpec,
+] as const;
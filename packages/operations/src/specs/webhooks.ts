@@ -331,6 +331,15 @@ export const outboundWebhookEventSpecs = [
 		subject: "sequence",
 		schemaVersion: 1,
 	},
+	{
+		type: "sequence.migrated",
+		title: "Sequence enrollments migrated",
+		description:
+			"An operator moved live enrollments from one sequence revision to another.",
+		source: "sequence",
+		subject: "sequence",
+		schemaVersion: 1,
+	},
 	{
 		type: "sequence.deleted",
 		title: "Sequence deleted",
@@ -340,6 +349,15 @@ export const outboundWebhookEventSpecs = [
 		subject: "sequence",
 		schemaVersion: 1,
 	},
+	{
+		type: "sequence.step-event",
+		title: "Sequence step event",
+		description:
+			"A sequence webhook_event step emitted its named event for an enrollment.",
+		source: "sequence",
+		subject: "sequence",
+		schemaVersion: 1,
+	},
 	{
 		type: "webhook.test",
 		title: "Webhook test",
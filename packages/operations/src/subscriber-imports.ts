@@ -0,0 +1,655 @@
+import type { ListmonkClient } from "@listmonk-ops/openapi";
+import {
+	bindSubscriberImportLogsOperationSpec,
+	bindSubscriberImportStartOperationSpec,
+	bindSubscriberImportStatusOperationSpec,
+	bindSubscriberImportStopOperationSpec,
+} from "./specs";
+import { z } from "zod";
+import {
+	jsonResourceValue,
+	readResourceSafety,
+	resourceIdSchema,
+	unwrapResourceResponse,
+} from "./resource-helpers";
+import { defineOperationCatalog } from "./catalog";
+import { isBlankCsvRecord, parseCsvRecords, toCsvField } from "./csv";
+import {
+	defineOperation,
+	normalizeOperationExecutionError,
+	OperationInputError,
+	parseOperationInput,
+	parseOperationOutput,
+} from "./operation";
+
+/** Upper bound for the CSV text accepted by `subscribers.import.start`. */
+export const SUBSCRIBER_IMPORT_MAX_CSV_BYTES = 64 * 1024 * 1024;
+/** Validation reports list at most this many issues; `issue_count` is exact. */
+export const SUBSCRIBER_IMPORT_MAX_REPORTED_ISSUES = 100;
+
+/**
+ * Importer control can blocklist a whole CSV or stop an import midway, and
+ * neither is undone by re-running it, so both require confirmation.
+ */
+const subscriberImportControlSafety = {
+	readOnlyHint: false,
+	destructiveHint: true,
+	idempotentHint: true,
+	openWorldHint: true,
+} as const;
+
+const subscriberImportColumnSchema = z.enum(["email", "name", "attributes"]);
+
+type SubscriberImportColumn = z.output<typeof subscriberImportColumnSchema>;
+
+const subscriberImportStartInputSchema = z.object({
+	csv: z
+		.string()
+		.min(1)
+		.refine(
+			(csv) =>
+				new TextEncoder().encode(csv).byteLength <=
+				SUBSCRIBER_IMPORT_MAX_CSV_BYTES,
+			{
+				message: `CSV exceeds the ${SUBSCRIBER_IMPORT_MAX_CSV_BYTES}-byte limit`,
+			},
+		),
+	mode: z.enum(["subscribe", "blocklist"]).default("subscribe"),
+	delimiter: z
+		.string()
+		.length(1)
+		.refine((delimiter) => delimiter !== '"' && !/[\r\n]/.test(delimiter), {
+			message: "delimiter cannot be a quote or newline",
+		})
+		.default(","),
+	list_ids: z.array(resourceIdSchema).default([]),
+	overwrite: z.boolean().default(false),
+	subscription_status: z
+		.enum(["unconfirmed", "confirmed", "unsubscribed"])
+		.optional(),
+	columns: z.record(z.string(), subscriberImportColumnSchema).optional(),
+	dry_run: z.boolean().default(false),
+});
+
+const subscriberImportEmptyInputSchema = z.object({});
+
+const subscriberImportIssueSchema = z.object({
+	row: z.number().int().positive(),
+	column: subscriberImportColumnSchema.optional(),
+	code: z.enum([
+		"invalid_email",
+		"duplicate_email",
+		"invalid_attributes",
+		"column_count",
+	]),
+	message: z.string(),
+});
+
+const subscriberImportValidationSchema = z.object({
+	rows: z.number().int().nonnegative(),
+	valid_rows: z.number().int().nonnegative(),
+	columns: z.object({
+		email: z.string(),
+		name: z.string().optional(),
+		attributes: z.string().optional(),
+	}),
+	ignored_columns: z.array(z.string()),
+	issue_count: z.number().int().nonnegative(),
+	issues: z.array(subscriberImportIssueSchema),
+});
+
+const subscriberImportStatusSchema = z.object({
+	name: z.string().optional(),
+	total: z.number().int().nonnegative(),
+	imported: z.number().int().nonnegative(),
+	status: z.string(),
+});
+
+const subscriberImportStartOutputSchema = z.object({
+	dry_run: z.boolean(),
+	validation: subscriberImportValidationSchema,
+	import: subscriberImportStatusSchema.optional(),
+});
+
+const subscriberImportLogsOutputSchema = z.object({
+	logs: z.string(),
+});
+
+const listmonkImportStatusSchema = z.looseObject({
+	name: z.string().optional(),
+	total: z.number().int().nonnegative().optional(),
+	imported: z.number().int().nonnegative().optional(),
+	status: z.string().optional(),
+});
+
+export type SubscriberImportStartInput = z.input<
+	typeof subscriberImportStartInputSchema
+>;
+export type SubscriberImportStartResult = z.output<
+	typeof subscriberImportStartOutputSchema
+>;
+export type SubscriberImportValidation = z.output<
+	typeof subscriberImportValidationSchema
+>;
+export type SubscriberImportIssue = z.output<
+	typeof subscriberImportIssueSchema
+>;
+export type SubscriberImportStatus = z.output<
+	typeof subscriberImportStatusSchema
+>;
+export type SubscriberImportLogs = z.output<
+	typeof subscriberImportLogsOutputSchema
+>;
+
+export interface SubscriberImportOperationContext {
+	client: Pick<ListmonkClient, "import">;
+}
+
+type SubscriberImportColumnMapping = Partial<
+	Record<SubscriberImportColumn, number>
+>;
+
+function mapSubscriberImportColumns(
+	headers: readonly string[],
+	overrides: Readonly<Record<string, SubscriberImportColumn>> = {},
+): SubscriberImportColumnMapping {
+	const seenHeaders = new Set<string>();
+	for (const header of headers) {
+		if (seenHeaders.has(header)) {
+			throw new OperationInputError(
+				`CSV header ${JSON.stringify(header)} appears more than once`,
+			);
+		}
+		seenHeaders.add(header);
+	}
+
+	const mapping: SubscriberImportColumnMapping = {};
+	const assign = (column: SubscriberImportColumn, index: number) => {
+		const current = mapping[column];
+		if (current !== undefined) {
+			throw new OperationInputError(
+				`CSV headers ${JSON.stringify(headers[current])} and ${JSON.stringify(headers[index])} both map to ${column}`,
+			);
+		}
+		mapping[column] = index;
+	};
+
+	for (const [header, column] of Object.entries(overrides)) {
+		const index = headers.indexOf(header);
+		if (index === -1) {
+			throw new OperationInputError(
+				`Column mapping references missing CSV header ${JSON.stringify(header)}`,
+			);
+		}
+		assign(column, index);
+	}
+	const explicitColumns = new Set(Object.values(overrides));
+	for (const [index, header] of headers.entries()) {
+		if (Object.hasOwn(overrides, header)) continue;
+		// Explicit mappings win; a header that merely shares the column's name
+		// is then reported as ignored rather than as a conflict.
+		const column = subscriberImportColumnSchema.safeParse(header.toLowerCase());
+		if (column.success && !explicitColumns.has(column.data)) {
+			assign(column.data, index);
+		}
+	}
+	if (mapping.email === undefined) {
+		throw new OperationInputError(
+			"CSV has no email column; add an email header or map one with columns",
+		);
+	}
+	return mapping;
+}
+
+function isJsonObject(value: unknown): boolean {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+interface SubscriberImportAnalysis {
+	validation: SubscriberImportValidation;
+	/** Comma-delimited CSV with email, name, and optional attributes columns. */
+	normalizedCsv: string;
+}
+
+function analyzeSubscriberImportCsv(
+	csv: string,
+	delimiter: string,
+	overrides: Readonly<Record<string, SubscriberImportColumn>> | undefined,
+): SubscriberImportAnalysis {
+	const records = parseCsvRecords(csv, delimiter).filter(
+		(record) => !isBlankCsvRecord(record),
+	);
+	const headerRecord = records[0];
+	if (headerRecord === undefined) {
+		throw new OperationInputError("CSV has no header row");
+	}
+	const headers = headerRecord.fields.map((header) => header.trim());
+	const mapping = mapSubscriberImportColumns(headers, overrides);
+	const emailIndex = mapping.email as number;
+	const mappedIndexes = new Set(Object.values(mapping));
+
+	const issues: SubscriberImportIssue[] = [];
+	const firstRowByEmail = new Map<string, number>();
+	const normalizedRows: string[] = [
+		["email", "name", ...(mapping.attributes === undefined ? [] : ["attributes"])]
+			.join(","),
+	];
+	let validRows = 0;
+
+	for (const record of records.slice(1)) {
+		const rowIssues: SubscriberImportIssue[] = [];
+		if (record.fields.length !== headers.length) {
+			rowIssues.push({
+				row: record.line,
+				code: "column_count",
+				message: `Expected ${headers.length} fields but found ${record.fields.length}`,
+			});
+		} else {
+			const email = record.fields[emailIndex]?.trim() ?? "";
+			if (!z.email().safeParse(email).success) {
+				rowIssues.push({
+					row: record.line,
+					column: "email",
+					code: "invalid_email",
+					message:
+						email.length === 0
+							? "Email is empty"
+							: `${JSON.stringify(email)} is not a valid email address`,
+				});
+			} else {
+				const key = email.toLowerCase();
+				const firstRow = firstRowByEmail.get(key);
+				if (firstRow !== undefined) {
+					rowIssues.push({
+						row: record.line,
+						column: "email",
+						code: "duplicate_email",
+						message: `${JSON.stringify(email)} duplicates row ${firstRow}`,
+					});
+				} else {
+					firstRowByEmail.set(key, record.line);
+				}
+			}
+
+			const attributes =
+				mapping.attributes === undefined
+					? ""
+					: (record.fields[mapping.attributes]?.trim() ?? "");
+			if (attributes.length > 0) {
+				let parsed: unknown;
+				try {
+					parsed = JSON.parse(attributes);
+				} catch {
+					parsed = undefined;
+				}
+				if (!isJsonObject(parsed)) {
+					rowIssues.push({
+						row: record.line,
+						column: "attributes",
+						code: "invalid_attributes",
+						message: "Attributes must be a JSON object",
+					});
+				}
+			}
+
+			if (rowIssues.length === 0) {
+				const name =
+					mapping.name === undefined
+						? ""
+						: (record.fields[mapping.name]?.trim() ?? "");
+				normalizedRows.push(
+					[
+						email,
+						name,
+						...(mapping.attributes === undefined ? [] : [attributes]),
+					]
+						.map(toCsvField)
+						.join(","),
+				);
+			}
+		}
+		if (rowIssues.length === 0) validRows += 1;
+		issues.push(...rowIssues);
+	}
+
+	return {
+		validation: {
+			rows: records.length - 1,
+			valid_rows: validRows,
+			columns: {
+				email: headers[emailIndex] as string,
+				...(mapping.name === undefined
+					? {}
+					: { name: headers[mapping.name] as string }),
+				...(mapping.attributes === undefined
+					? {}
+					: { attributes: headers[mapping.attributes] as string }),
+			},
+			ignored_columns: headers.filter((_, index) => !mappedIndexes.has(index)),
+			issue_count: issues.length,
+			issues: issues.slice(0, SUBSCRIBER_IMPORT_MAX_REPORTED_ISSUES),
+		},
+		normalizedCsv: `${normalizedRows.join("\n")}\n`,
+	};
+}
+
+function describeSubscriberImportIssues(
+	validation: SubscriberImportValidation,
+): string {
+	const shown = validation.issues
+		.slice(0, 3)
+		.map((issue) => `row ${issue.row}: ${issue.message}`)
+		.join("; ");
+	const remaining = validation.issue_count - Math.min(3, validation.issues.length);
+	return remaining > 0 ? `${shown}; and ${remaining} more` : shown;
+}
+
+/**
+ * Listmonk wraps the importer status in a second `data` envelope that the
+ * client flattens; accept both shapes so the status survives either.
+ */
+function toSubscriberImportStatus(data: unknown): SubscriberImportStatus {
+	const record =
+		isJsonObject(data) && isJsonObject((data as { data?: unknown }).data)
+			? (data as { data: unknown }).data
+			: data;
+	const status = listmonkImportStatusSchema.parse(record);
+	return {
+		...(status.name === undefined ? {} : { name: status.name }),
+		total: status.total ?? 0,
+		imported: status.imported ?? 0,
+		status: status.status ?? "none",
+	};
+}
+
+/**
+ * Validate a subscriber CSV and, unless `dry_run` is set, upload a
+ * normalized copy to Listmonk's importer. Rows with issues block the upload
+ * so a partial import never starts silently.
+ */
+export async function startSubscriberImport(
+	context: SubscriberImportOperationContext,
+	input: z.output<typeof subscriberImportStartInputSchema>,
+): Promise<SubscriberImportStartResult> {
+	const { validation, normalizedCsv } = analyzeSubscriberImportCsv(
+		input.csv,
+		input.delimiter,
+		input.columns,
+	);
+	if (input.dry_run) {
+		return { dry_run: true, validation };
+	}
+	if (validation.issue_count > 0) {
+		throw new OperationInputError(
+			`Subscriber CSV has ${validation.issue_count} invalid rows (${describeSubscriberImportIssues(validation)}); fix them or run with dry_run for the full report`,
+		);
+	}
+	if (validation.valid_rows === 0) {
+		throw new OperationInputError("Subscriber CSV has no rows to import");
+	}
+
+	const response = await context.client.import.start({
+		mode: input.mode,
+		delim: ",",
+		lists: input.list_ids,
+		overwrite: input.overwrite,
+		...(input.subscription_status === undefined
+			? {}
+			: { subscription_status: input.subscription_status }),
+		file: new File([normalizedCsv], "subscribers.csv", { type: "text/csv" }),
+	});
+	return {
+		dry_run: false,
+		validation,
+		import: toSubscriberImportStatus(
+			unwrapResourceResponse(response, "Failed to start subscriber import"),
+		),
+	};
+}
+
+export async function getSubscriberImportStatus(
+	context: SubscriberImportOperationContext,
+	_input: z.output<typeof subscriberImportEmptyInputSchema>,
+): Promise<SubscriberImportStatus> {
+	const response = await context.client.import.get();
+	return toSubscriberImportStatus(
+		unwrapResourceResponse(response, "Failed to get subscriber import status"),
+	);
+}
+
+export async function getSubscriberImportLogs(
+	context: SubscriberImportOperationContext,
+	_input: z.output<typeof subscriberImportEmptyInputSchema>,
+): Promise<SubscriberImportLogs> {
+	const response = await context.client.import.logs();
+	return {
+		logs: z
+			.string()
+			.parse(
+				unwrapResourceResponse(response, "Failed to get subscriber import logs"),
+			),
+	};
+}
+
+export async function stopSubscriberImport(
+	context: SubscriberImportOperationContext,
+	_input: z.output<typeof subscriberImportEmptyInputSchema>,
+): Promise<SubscriberImportStatus> {
+	const response = await context.client.import.stop();
+	return toSubscriberImportStatus(
+		unwrapResourceResponse(response, "Failed to stop subscriber import"),
+	);
+}
+
+export const startSubscriberImportOperation = defineOperation({
+	id: "subscribers.import.start",
+	title: "Start subscriber import",
+	description:
+		"Validate a subscriber CSV (header mapping, email validity, duplicate emails, attribute JSON) and upload it to Listmonk's importer; dry_run reports the validation without uploading",
+	inputSchema: subscriberImportStartInputSchema,
+	outputSchema: subscriberImportStartOutputSchema,
+	safety: subscriberImportControlSafety,
+	mcp: {
+		name: "listmonk_start_subscriber_import",
+		legacySuccessText: jsonResourceValue,
+	},
+	spec: bindSubscriberImportStartOperationSpec(),
+	execute: startSubscriberImport,
+});
+
+export const getSubscriberImportStatusOperation = defineOperation({
+	id: "subscribers.import.status",
+	title: "Get subscriber import status",
+	description:
+		"Get the progress of Listmonk's current or last subscriber import",
+	inputSchema: subscriberImportEmptyInputSchema,
+	outputSchema: subscriberImportStatusSchema,
+	safety: readResourceSafety,
+	mcp: {
+		name: "listmonk_get_subscriber_import_status",
+		legacySuccessText: jsonResourceValue,
+	},
+	spec: bindSubscriberImportStatusOperationSpec(),
+	execute: getSubscriberImportStatus,
+});
+
+export const getSubscriberImportLogsOperation = defineOperation({
+	id: "subscribers.import.logs",
+	title: "Get subscriber import logs",
+	description:
+		"Get the log output of Listmonk's current or last subscriber import",
+	inputSchema: subscriberImportEmptyInputSchema,
+	outputSchema: subscriberImportLogsOutputSchema,
+	safety: readResourceSafety,
+	mcp: {
+		name: "listmonk_get_subscriber_import_logs",
+		legacySuccessText: (output) => String(output.logs),
+	},
+	spec: bindSubscriberImportLogsOperationSpec(),
+	execute: getSubscriberImportLogs,
+});
+
+export const stopSubscriberImportOperation = defineOperation({
+	id: "subscribers.import.stop",
+	title: "Stop subscriber import",
+	description:
+		"Stop Listmonk's running subscriber import, or clear the state of a finished one; rows already imported stay imported",
+	inputSchema: subscriberImportEmptyInputSchema,
+	outputSchema: subscriberImportStatusSchema,
+	safety: subscriberImportControlSafety,
+	mcp: {
+		name: "listmonk_stop_subscriber_import",
+		legacySuccessText: jsonResourceValue,
+	},
+	spec: bindSubscriberImportStopOperationSpec(),
+	execute: stopSubscriberImport,
+});
+
+export async function invokeStartSubscriberImportOperation(
+	context: SubscriberImportOperationContext,
+	input: unknown,
+): Promise<SubscriberImportStartResult> {
+	const parsedInput = parseOperationInput(
+		startSubscriberImportOperation.inputSchema,
+		input,
+	);
+	let output: SubscriberImportStartResult;
+	try {
+		output = await startSubscriberImport(context, parsedInput);
+	} catch (error) {
+		throw normalizeOperationExecutionError(
+			startSubscriberImportOperation.id,
+			error,
+		);
+	}
+	return parseOperationOutput(
+		startSubscriberImportOperation.id,
+		startSubscriberImportOperation.outputSchema,
+		output,
+	);
+}
+
+export async function invokeGetSubscriberImportStatusOperation(
+	context: SubscriberImportOperationContext,
+	input: unknown,
+): Promise<SubscriberImportStatus> {
+	const parsedInput = parseOperationInput(
+		getSubscriberImportStatusOperation.inputSchema,
+		input,
+	);
+	let output: SubscriberImportStatus;
+	try {
+		output = await getSubscriberImportStatus(context, parsedInput);
+	} catch (error) {
+		throw normalizeOperationExecutionError(
+			getSubscriberImportStatusOperation.id,
+			error,
+		);
+	}
+	return parseOperationOutput(
+		getSubscriberImportStatusOperation.id,
+		getSubscriberImportStatusOperation.outputSchema,
+		output,
+	);
+}
+
+export async function invokeGetSubscriberImportLogsOperation(
+	context: SubscriberImportOperationContext,
+	input: unknown,
+): Promise<SubscriberImportLogs> {
+	const parsedInput = parseOperationInput(
+		getSubscriberImportLogsOperation.inputSchema,
+		input,
+	);
+	let output: SubscriberImportLogs;
+	try {
+		output = await getSubscriberImportLogs(context, parsedInput);
+	} catch (error) {
+		throw normalizeOperationExecutionError(
+			getSubscriberImportLogsOperation.id,
+			error,
+		);
+	}
+	return parseOperationOutput(
+		getSubscriberImportLogsOperation.id,
+		getSubscriberImportLogsOperation.outputSchema,
+		output,
+	);
+}
+
+export async function invokeStopSubscriberImportOperation(
+	context: SubscriberImportOperationContext,
+	input: unknown,
+): Promise<SubscriberImportStatus> {
+	const parsedInput = parseOperationInput(
+		stopSubscriberImportOperation.inputSchema,
+		input,
+	);
+	let output: SubscriberImportStatus;
+	try {
+		output = await stopSubscriberImport(context, parsedInput);
+	} catch (error) {
+		throw normalizeOperationExecutionError(
+			stopSubscriberImportOperation.id,
+			error,
+		);
+	}
+	return parseOperationOutput(
+		stopSubscriberImportOperation.id,
+		stopSubscriberImportOperation.outputSchema,
+		output,
+	);
+}
+
+export const subscriberImportOperations = [
+	startSubscriberImportOperation,
+	getSubscriberImportStatusOperation,
+	getSubscriberImportLogsOperation,
+	stopSubscriberImportOperation,
+] as const;
+
+export const subscriberImportOperationCatalog = defineOperationCatalog({
+	id: "subscriber-imports",
+	title: "Subscriber imports",
+	operations: subscriberImportOperations,
+	specMigrationExemptions: [],
+});
+
+export type SubscriberImportOperation =
+	(typeof subscriberImportOperations)[number];
+
+export interface SubscriberImportOperationInvocation {
+	operation: SubscriberImportOperation;
+	output: Record<string, unknown>;
+}
+
+export async function invokeSubscriberImportOperationByMcpName(
+	context: SubscriberImportOperationContext,
+	name: string,
+	input: unknown,
+): Promise<SubscriberImportOperationInvocation | undefined> {
+	switch (name) {
+		case startSubscriberImportOperation.mcp.name:
+			return {
+				operation: startSubscriberImportOperation,
+				output: await invokeStartSubscriberImportOperation(context, input),
+			};
+		case getSubscriberImportStatusOperation.mcp.name:
+			return {
+				operation: getSubscriberImportStatusOperation,
+				output: await invokeGetSubscriberImportStatusOperation(context, input),
+			};
+		case getSubscriberImportLogsOperation.mcp.name:
+			return {
+				operation: getSubscriberImportLogsOperation,
+				output: await invokeGetSubscriberImportLogsOperation(context, input),
+			};
+		case stopSubscriberImportOperation.mcp.name:
+			return {
+				operation: stopSubscriberImportOperation,
+				output: await invokeStopSubscriberImportOperation(context, input),
+			};
+		default:
+			return undefined;
+	}
+}
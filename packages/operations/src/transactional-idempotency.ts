@@ -1,4 +1,4 @@
-import { OperationExecutionError } from "./operation";
+import { OperationExecutionError, OperationInputError } from "./operation";
 
 /**
  * Default time-to-live for an idempotency record. After this window the
@@ -145,6 +145,22 @@ export class TransactionalReconcileError extends OperationExecutionError {
 	}
 }
 
+/**
+ * Raised when an idempotency key is already held by a different payload or
+ * Listmonk target. An input error, so the caller must pick a new key.
+ */
+export class TransactionalIdempotencyConflictError extends OperationInputError {
+	public readonly key: string;
+
+	public constructor(key: string) {
+		super(
+			`Idempotency key '${key}' is already associated with a different payload or Listmonk target. Use a new key or remove idempotency_key to force a fresh send.`,
+		);
+		this.name = "TransactionalIdempotencyConflictError";
+		this.key = key;
+	}
+}
+
 const TRANSACTIONAL_STATUSES = new Set<TransactionalSendStatus>([
 	"pending",
 	"accepted",
@@ -1,5 +1,6 @@
 import type { ListmonkClient } from "@listmonk-ops/openapi";
 import {
+	bindTransactionalSendBatchOperationSpec,
 	bindTransactionalSendOperationSpec,
 	operationSpecMigrationExemptionsByFamily,
 } from "./specs";
@@ -16,6 +17,7 @@ import {
 	computeTransactionalTargetHash,
 	isDefinitivePreDispatchError,
 	serializeTransactionalPayload,
+	TransactionalIdempotencyConflictError,
 	TransactionalReconcileError,
 	type TransactionalIdempotencyStore,
 	type TransactionalSendRecord,
@@ -634,9 +636,7 @@ export async function sendTransactionalMessage(
 	});
 
 	if (claim.kind === "conflict") {
-		throw new OperationInputError(
-			`Idempotency key '${input.idempotency_key}' is already associated with a different payload or Listmonk target. Use a new key or remove idempotency_key to force a fresh send.`,
-		);
+		throw new TransactionalIdempotencyConflictError(input.idempotency_key);
 	}
 
 	if (claim.kind === "replay") {
@@ -838,7 +838,384 @@ export async function invokeSendTransactionalOperation(
 	);
 }
 
-export const transactionalOperations = [sendTransactionalOperation] as const;
+export const TRANSACTIONAL_BATCH_MAX_RECIPIENTS = 1000;
+export const TRANSACTIONAL_BATCH_MAX_CONCURRENCY = 10;
+export const TRANSACTIONAL_BATCH_DEFAULT_CONCURRENCY = 4;
+export const TRANSACTIONAL_BATCH_MAX_RATE_PER_SECOND = 100;
+export const TRANSACTIONAL_BATCH_DEFAULT_RATE_PER_SECOND = 10;
+
+const sendTransactionalBatchRecipientSchema = z
+	.object({
+		subscriber_email: z
+			.string()
+			.trim()
+			.email()
+			.optional()
+			.describe("Recipient subscriber email"),
+		subscriber_id: positiveIdInputSchema
+			.optional()
+			.describe("Recipient subscriber ID"),
+		data: z
+			.record(z.string(), z.unknown())
+			.optional()
+			.describe(
+				"Per-recipient template variables, merged over the batch-level data",
+			),
+		idempotency_key: idempotencyKeyBaseSchema.describe(
+			"Required per-recipient idempotency key. Re-running the batch replays recipients already sent under their key instead of re-sending.",
+		),
+	})
+	.refine(
+		(input) =>
+			(input.subscriber_email !== undefined) !==
+			(input.subscriber_id !== undefined),
+		{
+			message:
+				"Exactly one of subscriber_email or subscriber_id is required (provide one, not both)",
+		},
+	);
+
+const sendTransactionalBatchInputSchema = z
+	.object({
+		template_id: positiveIdInputSchema.describe("Transactional template ID"),
+		from_email: transactionalFromEmailSchema
+			.optional()
+			.describe("Validated single-mailbox From email header value"),
+		data: z
+			.record(z.string(), z.unknown())
+			.optional()
+			.describe("Template variables shared by every recipient"),
+		headers: z
+			.array(z.record(z.string(), z.string()))
+			.optional()
+			.describe("Additional email headers"),
+		content_type: z
+			.enum(["html", "markdown", "plain"])
+			.optional()
+			.describe("Message content type"),
+		messenger: transactionalMessengerSchema
+			.optional()
+			.describe("Listmonk messenger name"),
+		subject: transactionalSubjectSchema
+			.optional()
+			.describe("Message subject override"),
+		altbody: z
+			.string()
+			.min(1)
+			.optional()
+			.describe("Plain-text alternative for multipart HTML email"),
+		recipients: z
+			.array(sendTransactionalBatchRecipientSchema)
+			.min(1)
+			.max(TRANSACTIONAL_BATCH_MAX_RECIPIENTS)
+			.describe("Recipients with their own data and idempotency key"),
+		concurrency: z
+			.number()
+			.int()
+			.min(1)
+			.max(TRANSACTIONAL_BATCH_MAX_CONCURRENCY)
+			.optional()
+			.describe(
+				`Maximum in-flight sends (default ${TRANSACTIONAL_BATCH_DEFAULT_CONCURRENCY})`,
+			),
+		rate_per_second: z
+			.number()
+			.positive()
+			.max(TRANSACTIONAL_BATCH_MAX_RATE_PER_SECOND)
+			.optional()
+			.describe(
+				`Maximum Listmonk dispatches per second (default ${TRANSACTIONAL_BATCH_DEFAULT_RATE_PER_SECOND}); replays are not throttled`,
+			),
+	})
+	.superRefine((input, ctx) => {
+		if (input.headers !== undefined) {
+			for (const issue of collectHeaderIssues(input.headers)) {
+				ctx.addIssue({
+					code: "custom",
+					path: issue.path,
+					message: issue.message,
+				});
+			}
+		}
+		const seen = new Map<string, number>();
+		input.recipients.forEach((recipient, index) => {
+			const previous = seen.get(recipient.idempotency_key);
+			if (previous !== undefined) {
+				ctx.addIssue({
+					code: "custom",
+					path: ["recipients", index, "idempotency_key"],
+					message: `idempotency_key '${recipient.idempotency_key}' is already used by recipients[${previous}]`,
+				});
+				return;
+			}
+			seen.set(recipient.idempotency_key, index);
+		});
+	});
+
+/**
+ * Per-recipient outcome of a batch send.
+ *
+ * - `accepted`  — dispatched in this run and Listmonk returned `sent: true`.
+ * - `replayed`  — an earlier run already settled this key; not re-dispatched.
+ * - `failed`    — Listmonk returned a negative acknowledgement.
+ * - `reconcile` — the key is `pending` or `unknown` (an earlier run crashed
+ *                 mid-dispatch or the transport failed ambiguously), or the
+ *                 send failed in a way that may have left the key claimed.
+ *                 Inspect Listmonk before retrying the key.
+ * - `conflict`  — the key already belongs to a different payload or target.
+ * - `not_sent`  — a definitive pre-dispatch or input error; no record is
+ *                 held, so re-running the batch sends this recipient once
+ *                 the cause is fixed.
+ */
+const sendTransactionalBatchResultStatusSchema = z.enum([
+	"accepted",
+	"replayed",
+	"failed",
+	"reconcile",
+	"conflict",
+	"not_sent",
+]);
+
+const sendTransactionalBatchOutputSchema = z.object({
+	total: z.number().int().nonnegative(),
+	accepted: z.number().int().nonnegative(),
+	replayed: z.number().int().nonnegative(),
+	failed: z.number().int().nonnegative(),
+	reconcile: z.number().int().nonnegative(),
+	conflict: z.number().int().nonnegative(),
+	not_sent: z.number().int().nonnegative(),
+	results: z
+		.array(
+			z.object({
+				index: z
+					.number()
+					.int()
+					.nonnegative()
+					.describe("Position of the recipient in the input"),
+				idempotency_key: idempotencyKeyBaseSchema,
+				status: sendTransactionalBatchResultStatusSchema,
+				sent: z.boolean().describe("Whether Listmonk accepted the message"),
+				expires_at: z.iso
+					.datetime()
+					.optional()
+					.describe("ISO timestamp after which the idempotency record expires"),
+				message: z
+					.string()
+					.optional()
+					.describe("Why the recipient was not accepted or replayed"),
+			}),
+		)
+		.describe("One entry per recipient, in input order"),
+});
+
+export type SendTransactionalBatchInput = z.input<
+	typeof sendTransactionalBatchInputSchema
+>;
+export type SendTransactionalBatchOutput = z.output<
+	typeof sendTransactionalBatchOutputSchema
+>;
+type SendTransactionalBatchResult =
+	SendTransactionalBatchOutput["results"][number];
+
+/**
+ * Spaces dispatch start times at `1000 / ratePerSecond` ms across all
+ * workers. Each caller reserves the next free slot before sleeping, so the
+ * limit holds under concurrency.
+ */
+function createDispatchThrottle(ratePerSecond: number): () => Promise<void> {
+	const intervalMs = 1000 / ratePerSecond;
+	let nextSlotAt = 0;
+	return async () => {
+		const now = Date.now();
+		const slot = Math.max(now, nextSlotAt);
+		nextSlotAt = slot + intervalMs;
+		if (slot > now) {
+			await new Promise((resolve) => setTimeout(resolve, slot - now));
+		}
+	};
+}
+
+async function sendBatchRecipient(
+	context: TransactionalOperationContext,
+	input: z.output<typeof sendTransactionalBatchInputSchema>,
+	recipient: z.output<
+		typeof sendTransactionalBatchInputSchema
+	>["recipients"][number],
+	index: number,
+): Promise<SendTransactionalBatchResult> {
+	const key = recipient.idempotency_key;
+	const data =
+		input.data === undefined && recipient.data === undefined
+			? undefined
+			: { ...input.data, ...recipient.data };
+	try {
+		const output = await sendTransactionalMessage(context, {
+			template_id: input.template_id,
+			subscriber_email: recipient.subscriber_email,
+			subscriber_id: recipient.subscriber_id,
+			from_email: input.from_email,
+			data,
+			headers: input.headers,
+			content_type: input.content_type,
+			messenger: input.messenger,
+			subject: input.subject,
+			altbody: input.altbody,
+			idempotency_key: key,
+		});
+		return {
+			index,
+			idempotency_key: key,
+			status: output.status,
+			sent: output.sent,
+			expires_at: output.expires_at,
+		};
+	} catch (error) {
+		// The batch records the error and moves on instead of abandoning later
+		// recipients. Only input errors and proven pre-dispatch failures, whose
+		// claim is released, are safe to re-send; any other failure may have
+		// left the key claimed or the message delivered, so it is reconciled.
+		const status: SendTransactionalBatchResult["status"] =
+			error instanceof TransactionalIdempotencyConflictError
+				? "conflict"
+				: error instanceof OperationInputError ||
+						isDefinitivePreDispatchError(error)
+					? "not_sent"
+					: "reconcile";
+		return {
+			index,
+			idempotency_key: key,
+			status,
+			sent: false,
+			message: toErrorMessage(error),
+		};
+	}
+}
+
+/**
+ * Send one transactional template to many recipients, each under its own
+ * idempotency key. Recipients are claimed and dispatched by up to
+ * `concurrency` workers with dispatches spaced by `rate_per_second`.
+ *
+ * The per-recipient keys make the batch resumable: after a crash, running
+ * the identical batch again replays every settled recipient, sends the ones
+ * never claimed, and reports keys left `pending` by the crash as
+ * `reconcile` rather than risking a second delivery.
+ */
+export async function sendTransactionalBatch(
+	context: TransactionalOperationContext,
+	input: z.output<typeof sendTransactionalBatchInputSchema>,
+): Promise<SendTransactionalBatchOutput> {
+	if (
+		context.idempotencyStore === undefined ||
+		context.hashPayload === undefined
+	) {
+		throw new OperationInputError(
+			"Batch transactional sends require an idempotency store. Run through the CLI/MCP adapter.",
+		);
+	}
+	const throttle = createDispatchThrottle(
+		input.rate_per_second ?? TRANSACTIONAL_BATCH_DEFAULT_RATE_PER_SECOND,
+	);
+	// Throttle at the Listmonk call so replayed and blocked keys, which never
+	// reach Listmonk, do not consume the rate budget.
+	const throttledContext: TransactionalOperationContext = {
+		...context,
+		client: {
+			transactional: {
+				...context.client.transactional,
+				send: async (...args) => {
+					await throttle();
+					return context.client.transactional.send(...args);
+				},
+			},
+		},
+	};
+
+	const results: SendTransactionalBatchResult[] = new Array(
+		input.recipients.length,
+	);
+	// Workers share one iterator, so each recipient is taken exactly once.
+	const pending = input.recipients.entries();
+	const worker = async (): Promise<void> => {
+		for (const [index, recipient] of pending) {
+			results[index] = await sendBatchRecipient(
+				throttledContext,
+				input,
+				recipient,
+				index,
+			);
+		}
+	};
+	const workerCount = Math.min(
+		input.concurrency ?? TRANSACTIONAL_BATCH_DEFAULT_CONCURRENCY,
+		input.recipients.length,
+	);
+	await Promise.all(Array.from({ length: workerCount }, worker));
+
+	const count = (status: SendTransactionalBatchResult["status"]) =>
+		results.filter((result) => result.status === status).length;
+	return {
+		total: results.length,
+		accepted: count("accepted"),
+		replayed: count("replayed"),
+		failed: count("failed"),
+		reconcile: count("reconcile"),
+		conflict: count("conflict"),
+		not_sent: count("not_sent"),
+		results,
+	};
+}
+
+export const sendTransactionalBatchOperation = defineOperation({
+	id: "transactional.send-batch",
+	title: "Send transactional batch",
+	description:
+		"Send a transactional email to many recipients with per-recipient idempotency",
+	inputSchema: sendTransactionalBatchInputSchema,
+	outputSchema: sendTransactionalBatchOutputSchema,
+	safety: {
+		readOnlyHint: false,
+		destructiveHint: true,
+		// Every recipient carries a required key, so an identical re-run
+		// replays settled recipients instead of re-sending them.
+		idempotentHint: true,
+		openWorldHint: true,
+	},
+	mcp: {
+		name: "listmonk_send_transactional_batch",
+	},
+	spec: bindTransactionalSendBatchOperationSpec(),
+	execute: sendTransactionalBatch,
+});
+
+export async function invokeSendTransactionalBatchOperation(
+	context: TransactionalOperationContext,
+	input: unknown,
+): Promise<SendTransactionalBatchOutput> {
+	const parsedInput = parseOperationInput(
+		sendTransactionalBatchOperation.inputSchema,
+		input,
+	);
+	let output: SendTransactionalBatchOutput;
+	try {
+		output = await sendTransactionalBatch(context, parsedInput);
+	} catch (error) {
+		throw normalizeOperationExecutionError(
+			sendTransactionalBatchOperation.id,
+			error,
+		);
+	}
+	return parseOperationOutput(
+		sendTransactionalBatchOperation.id,
+		sendTransactionalBatchOperation.outputSchema,
+		output,
+	);
+}
+
+export const transactionalOperations = [
+	sendTransactionalOperation,
+	sendTransactionalBatchOperation,
+] as const;
 
 export const transactionalOperationCatalog = defineOperationCatalog({
 	id: "transactional",
@@ -853,15 +1230,20 @@ export type TransactionalOperation = (typeof transactionalOperations)[number];
 export function getTransactionalOperationByMcpName(
 	name: string,
 ): TransactionalOperation | undefined {
-	return name === sendTransactionalOperation.mcp.name
-		? sendTransactionalOperation
-		: undefined;
+	return transactionalOperations.find(
+		(operation) => operation.mcp.name === name,
+	);
 }
 
-export interface TransactionalOperationInvocation {
-	operation: TransactionalOperation;
-	output: SendTransactionalOutput;
-}
+export type TransactionalOperationInvocation =
+	| {
+			operation: typeof sendTransactionalOperation;
+			output: SendTransactionalOutput;
+	  }
+	| {
+			operation: typeof sendTransactionalBatchOperation;
+			output: SendTransactionalBatchOutput;
+	  };
 
 export async function invokeTransactionalOperationByMcpName(
 	context: TransactionalOperationContext,
@@ -874,6 +1256,11 @@ export async function invokeTransactionalOperationByMcpName(
 				operation: sendTransactionalOperation,
 				output: await invokeSendTransactionalOperation(context, input),
 			};
+		case sendTransactionalBatchOperation.mcp.name:
+			return {
+				operation: sendTransactionalBatchOperation,
+				output: await invokeSendTransactionalBatchOperation(context, input),
+			};
 		default:
 			return undefined;
 	}
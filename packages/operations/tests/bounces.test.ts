@@ -0,0 +1,184 @@
+import type { ListmonkClient } from "@listmonk-ops/openapi";
+import { describe, expect, mock, test } from "bun:test";
+import {
+	invokeGetBounceOperation,
+	invokePurgeBouncesOperation,
+	invokeSummarizeBouncesOperation,
+	OperationInputError,
+} from "../src";
+
+type BounceClient = Pick<ListmonkClient, "bounce" | "campaign">;
+
+function bounceContext(
+	bounce: Partial<BounceClient["bounce"]>,
+	campaign: Partial<BounceClient["campaign"]> = {},
+): { client: BounceClient } {
+	return { client: { bounce, campaign } as BounceClient };
+}
+
+function bounce(
+	id: number,
+	type: string,
+	email: string,
+	campaign: { id: number; name: string } | null,
+) {
+	return { id, type, email, campaign, source: "api" };
+}
+
+describe("bounce operations", () => {
+	test("summarizes bounces by type, campaign, and domain with bounce rates", async () => {
+		const records = [
+			bounce(1, "hard", "a@Example.com", { id: 7, name: "Launch" }),
+			bounce(2, "soft", "b@example.com", { id: 7, name: "Launch" }),
+			bounce(3, "complaint", "c@mail.test", { id: 8, name: "Digest" }),
+			bounce(4, "hard", "d@mail.test", { id: 9, name: "Deleted" }),
+			bounce(5, "unknown", "broken", null),
+		];
+		const list = mock(async (options?: { page?: number }) => {
+			const page = options?.page ?? 1;
+			return {
+				data: {
+					results: records.slice((page - 1) * 3, page * 3),
+					total: records.length,
+					per_page: 3,
+					page,
+				},
+			};
+		});
+		const getById = mock(async ({ path }: { path: { id: number } }) =>
+			path.id === 9
+				? { error: { message: "not found" }, response: { status: 404 } }
+				: { data: { id: path.id, sent: path.id === 7 ? 400 : 0 } },
+		);
+
+		const summary = await invokeSummarizeBouncesOperation(
+			bounceContext(
+				{ list: list as unknown as BounceClient["bounce"]["list"] },
+				{
+					getById: getById as unknown as BounceClient["campaign"]["getById"],
+				},
+			),
+			{},
+		);
+
+		expect(list).toHaveBeenCalledTimes(2);
+		expect(summary).toMatchObject({
+			total: 5,
+			scanned: 5,
+			truncated: false,
+			types: { bounces: 5, soft: 1, hard: 2, complaint: 1, other: 1 },
+			campaign_count: 4,
+			domain_count: 3,
+		});
+		expect(summary.campaigns).toEqual([
+			{
+				campaign_id: 7,
+				campaign_name: "Launch",
+				bounces: 2,
+				soft: 1,
+				hard: 1,
+				complaint: 0,
+				other: 0,
+				sent: 400,
+				bounce_rate: 0.005,
+			},
+			expect.objectContaining({ campaign_id: 8, bounces: 1, sent: 0 }),
+			{
+				campaign_id: 9,
+				campaign_name: "Deleted",
+				bounces: 1,
+				soft: 0,
+				hard: 1,
+				complaint: 0,
+				other: 0,
+			},
+			expect.objectContaining({ bounces: 1, other: 1 }),
+		]);
+		expect(summary.campaigns[1]).not.toHaveProperty("bounce_rate");
+		expect(
+			summary.domains.map(({ domain, bounces }) => [domain, bounces]),
+		).toEqual([
+			["example.com", 2],
+			["mail.test", 2],
+			["(unknown)", 1],
+		]);
+	});
+
+	test("stops the summary scan at max_bounces", async () => {
+		const list = mock(async () => ({
+			data: {
+				results: [
+					bounce(1, "soft", "a@example.com", null),
+					bounce(2, "soft", "b@example.com", null),
+				],
+				total: 40,
+				per_page: 2,
+				page: 1,
+			},
+		}));
+
+		const summary = await invokeSummarizeBouncesOperation(
+			bounceContext({
+				list: list as unknown as BounceClient["bounce"]["list"],
+			}),
+			{ max_bounces: 3 },
+		);
+
+		expect(list).toHaveBeenCalledTimes(2);
+		expect(summary).toMatchObject({ total: 40, scanned: 3, truncated: true });
+	});
+
+	test("purge defaults to a dry run and deletes only when dry_run is false", async () => {
+		const remove = mock(async () => ({ data: true }));
+		const list = mock(async () => ({
+			data: { results: [], total: 12, per_page: 1, page: 1 },
+		}));
+		const context = bounceContext({
+			delete: remove as unknown as BounceClient["bounce"]["delete"],
+			list: list as unknown as BounceClient["bounce"]["list"],
+		});
+
+		await expect(
+			invokePurgeBouncesOperation(context, { all: true }),
+		).resolves.toEqual({
+			dry_run: true,
+			all: true,
+			bounce_count: 12,
+			deleted: false,
+		});
+		expect(remove).not.toHaveBeenCalled();
+
+		await expect(
+			invokePurgeBouncesOperation(context, {
+				ids: [3, "4", 3],
+				dry_run: false,
+			}),
+		).resolves.toEqual({
+			dry_run: false,
+			all: false,
+			ids: [3, 4],
+			bounce_count: 2,
+			deleted: true,
+		});
+		expect(remove).toHaveBeenCalledWith({ query: { id: "3,4" } });
+
+		await expect(
+			invokePurgeBouncesOperation(context, { ids: [1], all: true }),
+		).rejects.toBeInstanceOf(OperationInputError);
+		await expect(
+			invokePurgeBouncesOperation(context, {}),
+		).rejects.toBeInstanceOf(OperationInputError);
+	});
+
+	test("get unwraps the generated results envelope", async () => {
+		const context = bounceContext({
+			getById: (async () => ({
+				data: { results: [bounce(5, "hard", "a@example.com", null)] },
+			})) as unknown as BounceClient["bounce"]["getById"],
+		});
+
+		await expect(
+			invokeGetBounceOperation(context, { id: "5" }),
+		).resolves.toEqual(expect.objectContaining({ id: 5, type: "hard" }));
+	});
+});
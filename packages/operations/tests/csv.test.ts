@@ -0,0 +1,39 @@
+import { describe, expect, test } from "bun:test";
+import { OperationInputError, parseCsvRecords, toCsvField } from "../src";
+
+describe("shared CSV helpers", () => {
+	test("parses quoted delimiters, quotes, and line breaks", () => {
+		expect(
+			parseCsvRecords(
+				'\uFEFFname,note\r\n"Lovelace, Ada","said ""hi""\r\ntwice"\n\nlast,',
+			),
+		).toEqual([
+			{ line: 1, fields: ["name", "note"] },
+			{ line: 2, fields: ["Lovelace, Ada", 'said "hi"\r\ntwice'] },
+			{ line: 4, fields: [""] },
+			{ line: 5, fields: ["last", ""] },
+		]);
+		expect(parseCsvRecords("a;b", ";")).toEqual([
+			{ line: 1, fields: ["a", "b"] },
+		]);
+		expect(() => parseCsvRecords('a\n"open\nfield')).toThrow(
+			new OperationInputError(
+				"CSV has an unterminated quoted field starting on line 2",
+			),
+		);
+	});
+
+	test("escapes fields so they parse back unchanged", () => {
+		const values = ["plain", 'say "hi"', "a,b", "two\nlines", 42];
+		expect(values.map(toCsvField)).toEqual([
+			"plain",
+			'"say ""hi"""',
+			'"a,b"',
+			'"two\nlines"',
+			"42",
+		]);
+		expect(parseCsvRecords(values.map(toCsvField).join(","))).toEqual([
+			{ line: 1, fields: ["plain", 'say "hi"', "a,b", "two\nlines", "42"] },
+		]);
+	});
+});
@@ -12,8 +12,10 @@ import {
 	invokeSpecDescribeOperation,
 	invokeSpecSearchOperation,
 	listOperationCatalog,
+	parseOperationPlaybookDocument,
 	subscriberOperationCatalog,
 } from "../src";
+import { emailOperationsSpec, withOperationPlaybooks } from "../src/specs";
 
 const catalog = composeOperationCatalogs([
 	listOperationCatalog,
@@ -131,6 +133,92 @@ describe("agent discovery operations", () => {
 		});
 	});
 
+	test("loads user playbook documents alongside built-ins", async () => {
+		const { playbook: exported } = await invokePlaybookGetOperation(context, {
+			id: "campaign.safe-start",
+		});
+		const document = {
+			schema_version: 1,
+			playbook: {
+				...exported,
+				id: "team.reviewed-launch",
+				title: "Reviewed launch",
+				goal: "Launch a campaign the newsletter team has signed off.",
+			},
+		};
+		const playbook = parseOperationPlaybookDocument(document);
+		expect(playbook.steps[1]?.dependsOn).toEqual(["inspect"]);
+		const spec = withOperationPlaybooks(emailOperationsSpec, [playbook]);
+
+		const listed = await invokePlaybookListOperation(
+			{ ...context, spec },
+			{},
+		);
+		expect(listed.playbooks).toHaveLength(
+			emailOperationsSpec.playbooks.length + 1,
+		);
+		expect(listed.playbooks.at(-1)).toMatchObject({
+			id: "team.reviewed-launch",
+			source: "user",
+		});
+		expect(listed.playbooks[0]?.source).toBe("built-in");
+
+		const search = await invokeSpecSearchOperation(
+			{ ...context, spec },
+			{ query: "newsletter team launch" },
+		);
+		expect(search.playbooks.map(({ id }) => id)).toEqual([
+			"team.reviewed-launch",
+		]);
+		const filtered = await invokeSpecSearchOperation(
+			{ ...context, spec },
+			{ query: "newsletter team launch", family: "campaigns" },
+		);
+		expect(filtered.playbooks).toEqual([]);
+
+		expect(() =>
+			parseOperationPlaybookDocument({ playbook: document.playbook }),
+		).toThrow("Invalid playbook document schema_version");
+		expect(() =>
+			withOperationPlaybooks(spec, [
+				parseOperationPlaybookDocument({
+					...document,
+					playbook: { ...document.playbook, id: "team.other" },
+				}),
+				playbook,
+			]),
+		).toThrow("duplicate playbook id: team.reviewed-launch");
+		const [inspect, ...rest] = document.playbook.steps;
+		const withStep = (step: Record<string, unknown>) =>
+			parseOperationPlaybookDocument({
+				...document,
+				playbook: {
+					...document.playbook,
+					steps: [{ ...inspect, ...step }, ...rest],
+				},
+			});
+		expect(() =>
+			withOperationPlaybooks(emailOperationsSpec, [
+				withStep({ operation: "campaigns.archive" }),
+			]),
+		).toThrow("step inspect references unknown operation campaigns.archive");
+		expect(() =>
+			withOperationPlaybooks(emailOperationsSpec, [
+				withStep({
+					input: [
+						{
+							parameter: "id",
+							source: { kind: "literal", value: "42" },
+						},
+					],
+				}),
+			]),
+		).toThrow("step inspect binds string to campaigns.get input id");
+		expect(() => withStep({ depends_on: ["start"] })).toThrow(
+			"depends on unavailable prior step start",
+		);
+	});
+
 	test("summarizes capabilities and primes an agent without live credentials", async () => {
 		const capabilities = await invokeControlCapabilitiesOperation(context, {});
 		expect(capabilities.operations).toBe(catalog.entries.length);
@@ -12,6 +12,7 @@ import {
 	invokeCancelCampaignOperation,
 	invokeCloneCampaignOperation,
 	invokeDeleteMediaOperation,
+	invokeGetCampaignAnalyticsOperation,
 	invokeGetCampaignStatsOperation,
 	invokeMediaOperationByMcpName,
 	invokeUploadMediaOperation,
@@ -21,12 +22,14 @@ import {
 	invokeCreateTemplateOperation,
 	invokeGetTemplatesOperation,
 	invokePauseCampaignOperation,
+	invokePreviewCampaignOperation,
 	invokeReconcileTemplateManifestOperation,
 	invokeReconcileUserRoleManifestOperation,
 	invokeRemoveSubscribersFromListsOperation,
 	invokeScheduleCampaignOperation,
 	invokeSetDefaultTemplateOperation,
 	invokeStartCampaignOperation,
+	invokeTestSendCampaignOperation,
 	invokeUnblocklistSubscribersOperation,
 	invokeUpdateCampaignOperation,
 	invokeUpdateSubscriberOperation,
@@ -486,7 +489,7 @@ describe("shared CRUD resource operations", () => {
 	});
 
 	test("exposes object-root registries with safety metadata", () => {
-		expect(campaignOperations).toHaveLength(11);
+		expect(campaignOperations).toHaveLength(14);
 		expect(subscriberOperations).toHaveLength(9);
 		expect(templateOperations).toHaveLength(7);
 		expect(mediaOperations).toHaveLength(4);
@@ -1312,6 +1315,278 @@ describe("shared CRUD resource operations", () => {
 		expect(getById).toHaveBeenCalledWith({ path: { id: 10 } });
 	});
 
+	test("buckets campaign analytics and ranks the most-clicked links", async () => {
+		const getById = mock(async () => ({
+			data: {
+				id: 10,
+				name: "Launch",
+				status: "finished",
+				views: 40,
+				clicks: 9,
+				bounces: 1,
+				sent: 100,
+				to_send: 100,
+				started_at: "2026-10-01T09:00:00Z",
+			},
+		})) as unknown as CampaignClient["campaign"]["getById"];
+		const rows: Record<string, unknown[]> = {
+			views: [
+				{ campaign_id: 10, count: 12, timestamp: "2026-10-05T00:00:00Z" },
+				{ campaign_id: 10, count: 8, timestamp: "2026-10-06T00:00:00Z" },
+				{ campaign_id: 10, count: 3, timestamp: "2026-10-12T00:00:00Z" },
+			],
+			clicks: [
+				{ campaign_id: 10, count: 4, timestamp: "2026-10-06T00:00:00Z" },
+			],
+			bounces: [],
+			links: [
+				{ url: "https://example.com/docs", count: 1 },
+				{ url: "https://example.com/pricing", count: 3 },
+				{ url: "https://example.com/", count: 2 },
+			],
+		};
+		const getAnalytics = mock(
+			async ({ path }: { path: { type: string } }) => ({
+				data: rows[path.type],
+			}),
+		) as unknown as CampaignClient["campaign"]["getAnalytics"];
+		const settings = {
+			get: mock(async () => ({
+				data: { "privacy.individual_tracking": true },
+			})),
+		} as unknown as ListmonkClient["settings"];
+
+		const analytics = await invokeGetCampaignAnalyticsOperation(
+			{
+				client: {
+					campaign: { getById, getAnalytics },
+					settings,
+				} as unknown as Pick<ListmonkClient, "campaign" | "settings">,
+			},
+			{
+				id: "10",
+				from: "2026-10-01T00:00:00Z",
+				to: "2026-10-15T00:00:00Z",
+				bucket: "week",
+				top_links: 2,
+			},
+		);
+		expect(analytics).toEqual({
+			campaign: { id: 10, name: "Launch", status: "finished" },
+			range: {
+				from: "2026-10-01T00:00:00.000Z",
+				to: "2026-10-15T00:00:00.000Z",
+			},
+			bucket: "week",
+			counting: "unique",
+			totals: { views: 40, clicks: 9, bounces: 1, sent: 100, to_send: 100 },
+			range_totals: { views: 23, clicks: 4, bounces: 0 },
+			series: [
+				{ start: "2026-10-05", views: 20, clicks: 4, bounces: 0 },
+				{ start: "2026-10-12", views: 3, clicks: 0, bounces: 0 },
+			],
+			top_links: [
+				{ url: "https://example.com/pricing", count: 3 },
+				{ url: "https://example.com/", count: 2 },
+			],
+		});
+		expect(getAnalytics).toHaveBeenCalledWith({
+			path: { type: "views" },
+			query: {
+				from: "2026-10-01T00:00:00.000Z",
+				to: "2026-10-15T00:00:00.000Z",
+				id: "10",
+			},
+		});
+	});
+
+	test("defaults the analytics range to the campaign start and guards hourly buckets", async () => {
+		const getById = mock(async () => ({
+			data: { id: 10, status: "running", started_at: "2026-10-01T09:00:00Z" },
+		})) as unknown as CampaignClient["campaign"]["getById"];
+		const getAnalytics = mock(
+			async ({ path }: { path: { type: string } }) => ({
+				data:
+					path.type === "links"
+						? null
+						: [
+								{ count: 2, timestamp: "2026-10-01T10:00:00Z" },
+								{ count: 1, timestamp: "2026-10-01T10:00:00Z" },
+							],
+			}),
+		) as unknown as CampaignClient["campaign"]["getAnalytics"];
+
+		const analytics = await invokeGetCampaignAnalyticsOperation(
+			campaignContext({ getById, getAnalytics }),
+			{ id: 10, to: "2026-10-02T09:00:00Z", bucket: "hour" },
+		);
+		expect(analytics).toMatchObject({
+			range: {
+				from: "2026-10-01T09:00:00.000Z",
+				to: "2026-10-02T09:00:00.000Z",
+			},
+			counting: "unknown",
+			totals: { views: null, sent: null },
+			range_totals: { views: 3, clicks: 3, bounces: 3 },
+			series: [{ start: "2026-10-01T10:00", views: 3, clicks: 3, bounces: 3 }],
+		});
+
+		await expect(
+			invokeGetCampaignAnalyticsOperation(
+				campaignContext({ getById, getAnalytics }),
+				{ id: 10, to: "2026-10-09T09:00:00Z", bucket: "hour" },
+			),
+		).rejects.toThrow("Hourly buckets need a range shorter than 7 days");
+		await expect(
+			invokeGetCampaignAnalyticsOperation(
+				campaignContext({ getById, getAnalytics }),
+				{ id: 10, from: "2026-10-02T00:00:00Z", to: "2026-10-01T00:00:00Z" },
+			),
+		).rejects.toBeInstanceOf(OperationInputError);
+	});
+
+	test("renders campaign previews for the demo or a chosen subscriber", async () => {
+		const getById = mock(async () => ({
+			data: {
+				id: 4,
+				name: "Launch",
+				content_type: "richtext",
+				template_id: 2,
+				body: "<p>Hi {{ .Subscriber.FirstName }} <{{ .Subscriber.Email }}> {{ .Subscriber.Attribs.plan }} {{ .Subscriber.Attribs.missing }}</p>",
+			},
+		})) as unknown as CampaignClient["campaign"]["getById"];
+		const preview = mock(async () => ({
+			data: "<p>Hi Demo</p>",
+		})) as unknown as CampaignClient["campaign"]["preview"];
+		const updatePreview = mock(async ({ body }: { body: { body?: string } }) => ({
+			data: `<html>${body.body}</html>`,
+		})) as unknown as CampaignClient["campaign"]["updatePreview"];
+		const previewText = mock(async () => ({
+			data: "Hi",
+		})) as unknown as CampaignClient["campaign"]["previewText"];
+		const subscriberGetById = mock(async () => ({
+			data: {
+				id: 8,
+				name: "Ada Lovelace",
+				email: "ada@example.com",
+				attribs: { plan: "<pro>" },
+			},
+		}));
+		const campaign = { getById, preview, updatePreview, previewText };
+
+		expect(
+			await invokePreviewCampaignOperation(campaignContext(campaign), {
+				id: 4,
+			}),
+		).toEqual({
+			campaign: {
+				id: 4,
+				name: "Launch",
+				content_type: "richtext",
+				template_id: 2,
+			},
+			subscriber: null,
+			html: "<p>Hi Demo</p>",
+			text: "Hi",
+		});
+		expect(updatePreview).not.toHaveBeenCalled();
+
+		const rendered = await invokePreviewCampaignOperation(
+			{
+				client: {
+					campaign,
+					subscriber: { getById: subscriberGetById },
+				} as unknown as Pick<ListmonkClient, "campaign" | "subscriber">,
+			},
+			{ id: 4, subscriber_id: "8" },
+		);
+		expect(rendered.subscriber).toEqual({ id: 8, email: "ada@example.com" });
+		expect(rendered.html).toBe(
+			"<html><p>Hi Ada <ada@example.com> &lt;pro&gt; {{ .Subscriber.Attribs.missing }}</p></html>",
+		);
+		expect(previewText).toHaveBeenLastCalledWith({
+			path: { id: 4 },
+			body: {
+				template_id: 2,
+				content_type: "richtext",
+				body: "<p>Hi Ada <ada@example.com> &lt;pro&gt; {{ .Subscriber.Attribs.missing }}</p>",
+			},
+		});
+		await expect(
+			invokePreviewCampaignOperation(campaignContext(campaign), {
+				id: 4,
+				subscriber_id: 8,
+			}),
+		).rejects.toThrow("requires subscriber access");
+	});
+
+	test("test-sends a campaign only to recipients the seed policy accepts", async () => {
+		const getById = mock(async () => ({
+			data: {
+				id: 4,
+				name: "Launch",
+				subject: "Hello",
+				from_email: "team@example.com",
+				body: "<p>Hi</p>",
+				content_type: "html",
+				template_id: 2,
+				lists: [{ id: 3, name: "Members" }],
+				media: [],
+			},
+		})) as unknown as CampaignClient["campaign"]["getById"];
+		const testCampaign = mock(async () => ({
+			data: true,
+		})) as unknown as CampaignClient["campaign"]["test"];
+		const validateSeedRecipients = mock((emails: string[]) => {
+			if (emails.some((email) => !email.endsWith("@example.com"))) {
+				throw new Error("Seed recipient domain is not in the allowed list");
+			}
+			return {
+				emails: emails.map((email) => email.toLowerCase()),
+				recipientSetChecksum: "abc123",
+			};
+		});
+		const context = {
+			...campaignContext({ getById, test: testCampaign }),
+			validateSeedRecipients,
+		};
+
+		const invocation = await invokeCampaignOperationByMcpName(
+			context,
+			"listmonk_test_campaign",
+			{ id: "4", emails: ["Seed@example.com"] },
+		);
+		expect(invocation?.operation.id).toBe("campaigns.test-send");
+		expect(invocation?.output).toEqual({
+			id: 4,
+			recipient_count: 1,
+			recipient_set_checksum: "abc123",
+		});
+		expect(testCampaign).toHaveBeenCalledWith({
+			path: { id: 4 },
+			body: expect.objectContaining({
+				subject: "Hello",
+				lists: [3],
+				media: [],
+				subscribers: ["seed@example.com"],
+			}),
+		});
+
+		await expect(
+			invokeTestSendCampaignOperation(context, {
+				id: 4,
+				emails: ["someone@gmail.com"],
+			}),
+		).rejects.toThrow("not in the allowed list");
+		await expect(
+			invokeTestSendCampaignOperation(
+				campaignContext({ getById, test: testCampaign }),
+				{ id: 4, emails: ["seed@example.com"] },
+			),
+		).rejects.toThrow("require a seed recipient policy");
+		expect(testCampaign).toHaveBeenCalledTimes(1);
+	});
+
 	test("pause and cancel dispatch through the lifecycle invokers", async () => {
 		// Listmonk 6.2.0 only accepts paused/cancelled from `running`.
 		const getById = mock(async ({ path }: { path: { id: number } }) => ({
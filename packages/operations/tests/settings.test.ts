@@ -0,0 +1,178 @@
+import type { ListmonkClient } from "@listmonk-ops/openapi";
+import { describe, expect, mock, test } from "bun:test";
+import {
+	invokeReconcileSettingsManifestOperation,
+	OperationExecutionError,
+	OperationInputError,
+	planSettingsReconcile,
+} from "../src";
+
+type SettingsClient = Pick<ListmonkClient, "settings">;
+
+function currentSettings() {
+	return {
+		"app.site_name": "Old name",
+		"app.notify_emails": ["ops@example.com"],
+		"bounce.sendgrid_key": "•••••",
+		smtp: [
+			{ host: "smtp-a.example.com", port: 25, password: "•••••" },
+			{ host: "smtp-b.example.com", port: 25, password: "•••••" },
+		],
+	};
+}
+
+function settingsContext(
+	secrets: Record<string, string> = {},
+	update = mock(async () => ({ data: true })),
+) {
+	const client = {
+		settings: {
+			get: async () => ({ data: currentSettings() }),
+			update,
+		},
+	} as unknown as SettingsClient;
+	return { client, update, resolveSecret: (name: string) => secrets[name] };
+}
+
+const manifest = {
+	schema_version: 1,
+	settings: {
+		"app.site_name": "New name",
+		smtp: [
+			{
+				host: "smtp-a.example.com",
+				port: 587,
+				password: { env: "LISTMONK_SETTINGS_SMTP_PASSWORD" },
+			},
+		],
+	},
+} as const;
+
+describe("settings operations", () => {
+	test("plans a redacted diff without writing settings", async () => {
+		const context = settingsContext();
+
+		const result = await invokeReconcileSettingsManifestOperation(
+			context,
+			manifest,
+		);
+
+		expect(context.update).not.toHaveBeenCalled();
+		expect(result).toEqual({
+			schema_version: 1,
+			dry_run: true,
+			in_sync: false,
+			applied: false,
+			changes: [
+				{
+					path: "app.site_name",
+					action: "update",
+					before: "Old name",
+					after: "New name",
+				},
+				{ path: "smtp[0].port", action: "update", before: 25, after: 587 },
+				{
+					path: "smtp[0].password",
+					action: "set_secret",
+					env: "LISTMONK_SETTINGS_SMTP_PASSWORD",
+					resolved: false,
+				},
+				{
+					path: "smtp[1]",
+					action: "remove",
+					before: {
+						host: "smtp-b.example.com",
+						port: 25,
+						password: "[redacted]",
+					},
+				},
+			],
+		});
+	});
+
+	test("applies the merged settings with resolved secrets and blanked masks", async () => {
+		const context = settingsContext({
+			LISTMONK_SETTINGS_SMTP_PASSWORD: "hunter2",
+		});
+
+		const result = await invokeReconcileSettingsManifestOperation(context, {
+			...manifest,
+			dry_run: false,
+		});
+
+		expect(result).toMatchObject({ dry_run: false, applied: true });
+		expect(JSON.stringify(result)).not.toContain("hunter2");
+		expect(context.update).toHaveBeenCalledWith({
+			body: {
+				"app.site_name": "New name",
+				"app.notify_emails": ["ops@example.com"],
+				"bounce.sendgrid_key": "",
+				smtp: [
+					{ host: "smtp-a.example.com", port: 587, password: "hunter2" },
+				],
+			},
+		});
+	});
+
+	test("refuses to apply when a referenced secret is unset", async () => {
+		const context = settingsContext();
+
+		await expect(
+			invokeReconcileSettingsManifestOperation(context, {
+				...manifest,
+				dry_run: false,
+			}),
+		).rejects.toThrow(
+			"Settings manifest references unset secrets: LISTMONK_SETTINGS_SMTP_PASSWORD",
+		);
+		expect(context.update).not.toHaveBeenCalled();
+	});
+
+	test("reports an in-sync manifest and skips the write", async () => {
+		const context = settingsContext();
+
+		await expect(
+			invokeReconcileSettingsManifestOperation(context, {
+				schema_version: 1,
+				settings: { "app.notify_emails": ["ops@example.com"] },
+				dry_run: false,
+			}),
+		).resolves.toMatchObject({ in_sync: true, applied: false, changes: [] });
+		expect(context.update).not.toHaveBeenCalled();
+	});
+
+	test("rejects inline secrets, misplaced references, and unknown settings", async () => {
+		const context = settingsContext();
+
+		await expect(
+			invokeReconcileSettingsManifestOperation(context, {
+				schema_version: 1,
+				settings: { "bounce.sendgrid_key": "inline-secret" },
+			}),
+		).rejects.toBeInstanceOf(OperationInputError);
+		await expect(
+			invokeReconcileSettingsManifestOperation(context, {
+				schema_version: 1,
+				settings: { "app.site_name": { env: "LISTMONK_SETTINGS_NAME" } },
+			}),
+		).rejects.toBeInstanceOf(OperationInputError);
+		await expect(
+			invokeReconcileSettingsManifestOperation(context, {
+				schema_version: 1,
+				settings: { "bounce.sendgrid_key": { env: "DATABASE_URL" } },
+			}),
+		).rejects.toBeInstanceOf(OperationInputError);
+		await expect(
+			invokeReconcileSettingsManifestOperation(context, {
+				schema_version: 1,
+				settings: { "app.unknown": true },
+			}),
+		).rejects.toBeInstanceOf(OperationExecutionError);
+		await expect(
+			planSettingsReconcile(context, {
+				schema_version: 1,
+				settings: { "app.unknown": true },
+			}),
+		).rejects.toThrow('unknown Listmonk setting "app.unknown"');
+	});
+});
@@ -55,6 +55,7 @@ import {
 	campaignCancelOperationSpec,
 	campaignPreflightOperationSpec,
 	campaignStartOperationSpec,
+	transactionalSendBatchOperationSpec,
 	transactionalSendOperationSpec,
 } from "../src/specs/high-risk";
 import { assertTypeScriptContractCompatibility } from "../src/specs/schema-compatibility";
@@ -108,9 +109,17 @@ export function assertHighRiskOperationSpecContracts(): void {
 		campaignPreflightOperationSpec,
 		"ops.campaign.preflight",
 	);
+	assertOperationDescriptorIdentity(
+		transactionalSendBatchOperationSpec,
+		"transactional.send-batch",
+	);
 	expect(transactionalSendOperationSpec.retry).toMatchObject({
 		kind: "conditional",
 	});
+	expect(transactionalSendBatchOperationSpec.policy).toMatchObject({
+		confirmation: "required",
+		dryRun: false,
+	});
 	expect(campaignStartOperationSpec.state).toEqual({
 		resource: "campaign",
 		from: ["draft", "scheduled", "paused"],
@@ -171,6 +180,9 @@ describe("email operations specification", () => {
 			"campaigns.delete",
 			"campaigns.pause",
 			"campaigns.clone",
+			"campaigns.analytics",
+			"campaigns.preview",
+			"campaigns.test-send",
 			"media.delete",
 			"media.upload",
 			"ops.segments.drift",
@@ -194,13 +206,14 @@ describe("email operations specification", () => {
 			"abtest.tick",
 			"abtest.reconcile",
 			"abtest.export-assignment",
+			"abtest.conversion.record",
 		]);
 	});
 
 	test("models every public shared operation with governed contracts", () => {
 		const operationIds = emailOperationsSpec.operations.map(({ id }) => id);
-		expect(operationIds).toHaveLength(104);
-		expect(new Set(operationIds).size).toBe(104);
+		expect(operationIds).toHaveLength(132);
+		expect(new Set(operationIds).size).toBe(132);
 		expect(
 			runtimeOperationContractIds.every((operationId) =>
 				operationIds.includes(operationId),
@@ -469,7 +482,7 @@ describe("email operations specification", () => {
 			"ops.campaign.preflight",
 		);
 		expect(webhookOperationSpecs).toHaveLength(16);
-		expect(sequenceOperationSpecs).toHaveLength(14);
+		expect(sequenceOperationSpecs).toHaveLength(22);
 		expect(providerOperationSpecs).toHaveLength(7);
 		expect(webhookDispatchOperationSpec.effects).toEqual([
 			{ kind: "webhook", resource: "webhook", audience: "bulk" },
@@ -1879,6 +1892,10 @@ describe("email operations specification", () => {
 				parameter: "link_check_timeout_ms",
 				source: { kind: "literal", value: 4_000 },
 			},
+			{
+				parameter: "check_render",
+				source: { kind: "literal", value: true },
+			},
 		]);
 		const templatePromoteStep = emailOperationsSpec.playbooks
 			.find((playbook) => playbook.id === "template.safe-promote")
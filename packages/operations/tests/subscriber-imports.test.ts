@@ -0,0 +1,204 @@
+import type { ListmonkClient } from "@listmonk-ops/openapi";
+import { describe, expect, mock, test } from "bun:test";
+import {
+	invokeGetSubscriberImportLogsOperation,
+	invokeGetSubscriberImportStatusOperation,
+	invokeStartSubscriberImportOperation,
+	invokeStopSubscriberImportOperation,
+	OperationInputError,
+	SUBSCRIBER_IMPORT_MAX_REPORTED_ISSUES,
+} from "../src";
+
+type ImportClient = Pick<ListmonkClient, "import">;
+
+function importContext(
+	methods: Partial<ImportClient["import"]>,
+): { client: ImportClient } {
+	return { client: { import: methods } as ImportClient };
+}
+
+describe("subscriber CSV import", () => {
+	test("dry run reports mapping and row issues without uploading", async () => {
+		const start = mock(async () => ({ data: {} }));
+		const csv = [
+			"\uFEFFE-mail;Full name;Attribs;Source",
+			'ada@example.com;"Lovelace; Ada";"{""plan"":""pro""}";web',
+			"not-an-email;Bad;;web",
+			"ADA@example.com;Dup;;web",
+			"grace@example.com;Grace;[1];web",
+			"",
+			"short@example.com;Short",
+		].join("\r\n");
+
+		const result = await invokeStartSubscriberImportOperation(
+			importContext({ start: start as ImportClient["import"]["start"] }),
+			{
+				csv,
+				delimiter: ";",
+				columns: {
+					"E-mail": "email",
+					"Full name": "name",
+					Attribs: "attributes",
+				},
+				dry_run: true,
+			},
+		);
+
+		expect(start).not.toHaveBeenCalled();
+		expect(result).toEqual({
+			dry_run: true,
+			validation: {
+				rows: 5,
+				valid_rows: 1,
+				columns: {
+					email: "E-mail",
+					name: "Full name",
+					attributes: "Attribs",
+				},
+				ignored_columns: ["Source"],
+				issue_count: 4,
+				issues: [
+					expect.objectContaining({
+						row: 3,
+						column: "email",
+						code: "invalid_email",
+					}),
+					{
+						row: 4,
+						column: "email",
+						code: "duplicate_email",
+						message: '"ADA@example.com" duplicates row 2',
+					},
+					expect.objectContaining({
+						row: 5,
+						column: "attributes",
+						code: "invalid_attributes",
+					}),
+					expect.objectContaining({ row: 7, code: "column_count" }),
+				],
+			},
+		});
+	});
+
+	test("uploads a normalized CSV and normalizes the importer status", async () => {
+		let uploaded = "";
+		const start = mock(
+			async (params: Parameters<ImportClient["import"]["start"]>[0]) => {
+				uploaded = await params.file.text();
+				return {
+					data: {
+						data: {
+							name: "subscribers.csv",
+							total: 2,
+							imported: 0,
+							status: "importing",
+						},
+					},
+				};
+			},
+		);
+
+		const result = await invokeStartSubscriberImportOperation(
+			importContext({
+				start: start as unknown as ImportClient["import"]["start"],
+			}),
+			{
+				csv: 'Name,Email,Attributes\n"Doe, Jane",jane@example.com,"{""a"":1}"\n,john@example.com,\n',
+				list_ids: ["3", 4],
+				mode: "subscribe",
+				subscription_status: "confirmed",
+			},
+		);
+
+		expect(start).toHaveBeenCalledWith(
+			expect.objectContaining({
+				mode: "subscribe",
+				delim: ",",
+				lists: [3, 4],
+				overwrite: false,
+				subscription_status: "confirmed",
+			}),
+		);
+		expect(uploaded).toBe(
+			'email,name,attributes\njane@example.com,"Doe, Jane","{""a"":1}"\njohn@example.com,,\n',
+		);
+		expect(result.import).toEqual({
+			name: "subscribers.csv",
+			total: 2,
+			imported: 0,
+			status: "importing",
+		});
+	});
+
+	test("rejects uploads with invalid rows and unusable headers", async () => {
+		const start = mock(async () => ({ data: {} }));
+		const context = importContext({
+			start: start as ImportClient["import"]["start"],
+		});
+
+		await expect(
+			invokeStartSubscriberImportOperation(context, {
+				csv: "email\nbad\n",
+			}),
+		).rejects.toThrow("Subscriber CSV has 1 invalid rows (row 2:");
+		await expect(
+			invokeStartSubscriberImportOperation(context, {
+				csv: "address,name\na@example.com,A\n",
+			}),
+		).rejects.toThrow("CSV has no email column");
+		await expect(
+			invokeStartSubscriberImportOperation(context, {
+				csv: "email,Email\na@example.com,b@example.com\n",
+			}),
+		).rejects.toThrow('CSV headers "email" and "Email" both map to email');
+		await expect(
+			invokeStartSubscriberImportOperation(context, {
+				csv: "email\na@example.com\n",
+				columns: { mail: "email" },
+			}),
+		).rejects.toThrow('Column mapping references missing CSV header "mail"');
+		await expect(
+			invokeStartSubscriberImportOperation(context, {
+				csv: 'email\n"a@example.com\n',
+			}),
+		).rejects.toBeInstanceOf(OperationInputError);
+		expect(start).not.toHaveBeenCalled();
+	});
+
+	test("caps reported issues while counting all of them", async () => {
+		const rows = Array.from({ length: 150 }, (_, index) => `bad-${index}`);
+		const result = await invokeStartSubscriberImportOperation(
+			importContext({}),
+			{ csv: ["email", ...rows].join("\n"), dry_run: true },
+		);
+
+		expect(result.validation.issue_count).toBe(150);
+		expect(result.validation.issues).toHaveLength(
+			SUBSCRIBER_IMPORT_MAX_REPORTED_ISSUES,
+		);
+	});
+
+	test("reads status and logs and stops the importer", async () => {
+		const context = importContext({
+			get: (async () => ({
+				data: { total: 10, imported: 10, status: "finished" },
+			})) as unknown as ImportClient["import"]["get"],
+			logs: (async () => ({
+				data: "imported 10 records",
+			})) as unknown as ImportClient["import"]["logs"],
+			stop: (async () => ({
+				data: { data: { status: "none" } },
+			})) as unknown as ImportClient["import"]["stop"],
+		});
+
+		await expect(
+			invokeGetSubscriberImportStatusOperation(context, {}),
+		).resolves.toEqual({ total: 10, imported: 10, status: "finished" });
+		await expect(
+			invokeGetSubscriberImportLogsOperation(context, {}),
+		).resolves.toEqual({ logs: "imported 10 records" });
+		await expect(
+			invokeStopSubscriberImportOperation(context, {}),
+		).resolves.toEqual({ total: 0, imported: 0, status: "none" });
+	});
+});
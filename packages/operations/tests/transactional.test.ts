@@ -3,6 +3,7 @@ import { describe, expect, mock, test } from "bun:test";
 import {
 	computeTransactionalTargetHash,
 	getTransactionalOperationByMcpName,
+	invokeSendTransactionalBatchOperation,
 	invokeSendTransactionalOperation,
 	invokeTransactionalOperationByMcpName,
 	isAmbiguousTransportError,
@@ -10,9 +11,11 @@ import {
 	OperationExecutionError,
 	OperationInputError,
 	serializeTransactionalPayload,
+	sendTransactionalBatchOperation,
 	sendTransactionalOperation,
 	TRANSACTIONAL_FROM_EMAIL_PATTERN,
 	TRANSACTIONAL_SUBJECT_PATTERN,
+	TransactionalIdempotencyConflictError,
 	transactionalOperations,
 	DEFAULT_TRANSACTIONAL_TTL_MS,
 	type TransactionalClaimResult,
@@ -437,7 +440,10 @@ describe("transactional operations", () => {
 	});
 
 	test("exposes schemas and side-effect metadata through the registry", () => {
-		expect(transactionalOperations).toEqual([sendTransactionalOperation]);
+		expect(transactionalOperations).toEqual([
+			sendTransactionalOperation,
+			sendTransactionalBatchOperation,
+		]);
 		expect(sendTransactionalOperation.inputJsonSchema.type).toBe("object");
 		expect(sendTransactionalOperation.inputJsonSchema.required).toEqual([
 			"template_id",
@@ -572,8 +578,9 @@ describe("transactional idempotency wrapper integration", () => {
 				data: { order_id: "OPS-2" },
 			}),
 		).rejects.toEqual(
-			expect.objectContaining<Partial<OperationInputError>>({
-				name: "OperationInputError",
+			expect.objectContaining<Partial<TransactionalIdempotencyConflictError>>({
+				name: "TransactionalIdempotencyConflictError",
+				key: "order-1",
 				message: expect.stringContaining("already associated with a different payload"),
 			}),
 		);
@@ -768,6 +775,160 @@ describe("transactional idempotency wrapper integration", () => {
 		);
 		expect(send).toHaveBeenCalledTimes(1);
 	});
+
+	describe("batch send", () => {
+		const recipients = [
+			{ subscriber_id: 1, idempotency_key: "order-1", data: { n: 1 } },
+			{ subscriber_email: "two@example.com", idempotency_key: "order-2" },
+			{ subscriber_id: "3", idempotency_key: "order-3" },
+		];
+
+		test("sends each recipient under its key and resumes without re-sending", async () => {
+			let inFlight = 0;
+			let maxInFlight = 0;
+			const send = mock(async () => {
+				inFlight += 1;
+				maxInFlight = Math.max(maxInFlight, inFlight);
+				await new Promise((resolve) => setTimeout(resolve, 5));
+				inFlight -= 1;
+				return { data: true };
+			}) as unknown as TransactionalClient["transactional"]["send"];
+			const ctx = contextWithStore(send);
+			const input = {
+				template_id: 3,
+				data: { shop: "OPS", n: 0 },
+				recipients,
+				concurrency: 2,
+				rate_per_second: 100,
+			};
+
+			const first = await invokeSendTransactionalBatchOperation(ctx, input);
+			expect(first).toMatchObject({
+				total: 3,
+				accepted: 3,
+				replayed: 0,
+				results: [
+					{ index: 0, idempotency_key: "order-1", status: "accepted" },
+					{ index: 1, idempotency_key: "order-2", status: "accepted" },
+					{ index: 2, idempotency_key: "order-3", status: "accepted" },
+				],
+			});
+			expect(maxInFlight).toBeLessThanOrEqual(2);
+			expect(send).toHaveBeenCalledWith(
+				expect.objectContaining({
+					subscriber_ids: [1],
+					data: { shop: "OPS", n: 1 },
+				}),
+			);
+
+			const resumed = await invokeSendTransactionalBatchOperation(ctx, input);
+			expect(resumed).toMatchObject({ total: 3, accepted: 0, replayed: 3 });
+			expect(send).toHaveBeenCalledTimes(3);
+		});
+
+		test("reports blocked, conflicting, and unsent recipients without stopping", async () => {
+			const send = mock(async (body: { subscriber_ids?: number[] }) => {
+				if (body.subscriber_ids?.[0] === 1) {
+					throw new Error("fetch failed: ECONNRESET");
+				}
+				if (body.subscriber_ids?.[0] === 3) {
+					throw new Error("connect ECONNREFUSED 127.0.0.1:9000");
+				}
+				return { data: true };
+			}) as unknown as TransactionalClient["transactional"]["send"];
+			const ctx = contextWithStore(send);
+			await invokeSendTransactionalOperation(ctx, {
+				template_id: 9,
+				subscriber_email: "two@example.com",
+				idempotency_key: "order-2",
+			});
+
+			const output = await invokeSendTransactionalBatchOperation(ctx, {
+				template_id: 3,
+				recipients,
+				rate_per_second: 100,
+			});
+			expect(output).toMatchObject({
+				total: 3,
+				reconcile: 1,
+				conflict: 1,
+				not_sent: 1,
+				results: [
+					{ status: "reconcile", sent: false },
+					{ status: "conflict", sent: false },
+					{ status: "not_sent", sent: false },
+				],
+			});
+			expect(output.results[2]?.message).toMatch(/ECONNREFUSED/);
+		});
+
+		test("reports input errors other than key conflicts as not sent", async () => {
+			const send = mock(async () => ({ data: true })) as unknown as TransactionalClient["transactional"]["send"];
+			const store = createInMemoryTransactionalIdempotencyStore();
+			const output = await invokeSendTransactionalBatchOperation(
+				{
+					...contextWithStore(send),
+					idempotencyStore: {
+						...store,
+						claim: async (options) => {
+							if (options.key === "order-2") {
+								throw new OperationInputError("Recipient is not allowed");
+							}
+							return store.claim(options);
+						},
+					},
+				},
+				{ template_id: 3, recipients, rate_per_second: 100 },
+			);
+			expect(output).toMatchObject({ accepted: 2, conflict: 0, not_sent: 1 });
+			expect(output.results[1]).toMatchObject({
+				status: "not_sent",
+				message: "Recipient is not allowed",
+			});
+		});
+
+		test("reconciles recipients whose key state cannot be determined", async () => {
+			const send = mock(async () => ({ data: true })) as unknown as TransactionalClient["transactional"]["send"];
+			const store = createInMemoryTransactionalIdempotencyStore();
+			const output = await invokeSendTransactionalBatchOperation(
+				{
+					...contextWithStore(send),
+					idempotencyStore: {
+						...store,
+						claim: async (options) => {
+							if (options.key === "order-2") {
+								throw new Error("Timed out acquiring the idempotency store lock");
+							}
+							return store.claim(options);
+						},
+					},
+				},
+				{ template_id: 3, recipients, rate_per_second: 100 },
+			);
+			expect(output).toMatchObject({ accepted: 2, reconcile: 1, not_sent: 0 });
+			expect(output.results[1]).toMatchObject({
+				status: "reconcile",
+				message: "Timed out acquiring the idempotency store lock",
+			});
+		});
+
+		test("rejects duplicate keys and surfaces without an idempotency store", async () => {
+			const send = mock(async () => ({ data: true })) as unknown as TransactionalClient["transactional"]["send"];
+			await expect(
+				invokeSendTransactionalBatchOperation(contextWithStore(send), {
+					template_id: 3,
+					recipients: [recipients[0], { ...recipients[1], idempotency_key: "order-1" }],
+				}),
+			).rejects.toThrow("already used by recipients[0]");
+			await expect(
+				invokeSendTransactionalBatchOperation(context(send), {
+					template_id: 3,
+					recipients,
+				}),
+			).rejects.toThrow("require an idempotency store");
+			expect(send).not.toHaveBeenCalled();
+		});
+	});
 });
 
 describe("transactional idempotency pure helpers", () => {
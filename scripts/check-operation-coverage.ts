@@ -74,6 +74,37 @@ export const operationCoverageContracts: readonly OperationCoverageContract[] =
 		dispatcher:
 			"packages/operations/src/user-roles.ts#invokeUserRoleOperationByMcpName:function",
 	},
+	{
+		family: "subscriber imports",
+		registry:
+			"packages/operations/src/subscriber-imports.ts#subscriberImportOperations:variable",
+		testAnchor:
+			"scripts/shared-operation-coverage.ts#assertSubscriberImportOperationsPublished:function",
+		mcpHandler:
+			"packages/mcp/src/handlers/subscriber-imports.ts#handleSubscriberImportsTools:function",
+		dispatcher:
+			"packages/operations/src/subscriber-imports.ts#invokeSubscriberImportOperationByMcpName:function",
+	},
+	{
+		family: "bounces",
+		registry: "packages/operations/src/bounces.ts#bounceOperations:variable",
+		testAnchor:
+			"scripts/shared-operation-coverage.ts#assertBounceOperationsPublished:function",
+		mcpHandler:
+			"packages/mcp/src/handlers/bounces.ts#handleBouncesTools:function",
+		dispatcher:
+			"packages/operations/src/bounces.ts#invokeBounceOperationByMcpName:function",
+	},
+	{
+		family: "settings",
+		registry: "packages/operations/src/settings.ts#settingsOperations:variable",
+		testAnchor:
+			"scripts/shared-operation-coverage.ts#assertSettingsOperationsPublished:function",
+		mcpHandler:
+			"packages/mcp/src/handlers/settings-manifest.ts#handleSettingsManifestTools:function",
+		dispatcher:
+			"packages/operations/src/settings.ts#invokeSettingsOperationByMcpName:function",
+	},
 	{
 		family: "media",
 		registry: "packages/operations/src/media.ts#mediaOperations:variable",
@@ -159,6 +190,28 @@ export const operationCoverageContracts: readonly OperationCoverageContract[] =
 		dispatcher:
 			"packages/automation/src/provider-operations.ts#invokeProviderOperationByMcpName:function",
 	},
+	{
+		family: "suppressions",
+		registry:
+			"packages/automation/src/suppression-operations.ts#suppressionOperations:variable",
+		testAnchor:
+			"scripts/shared-operation-coverage.ts#assertSuppressionOperationsPublished:function",
+		mcpHandler:
+			"packages/mcp/src/handlers/suppressions.ts#executeSuppressionTools:function",
+		dispatcher:
+			"packages/automation/src/suppression-operations.ts#invokeSuppressionOperationByMcpName:function",
+	},
+	{
+		family: "playbook-runs",
+		registry:
+			"packages/automation/src/playbook-run-operations.ts#playbookRunOperations:variable",
+		testAnchor:
+			"scripts/shared-operation-coverage.ts#assertPlaybookRunOperationsPublished:function",
+		mcpHandler:
+			"packages/mcp/src/handlers/playbook-runs.ts#executePlaybookRunTools:function",
+		dispatcher:
+			"packages/automation/src/playbook-run-operations.ts#invokePlaybookRunOperationByMcpName:function",
+	},
 ];
 
 export const operationCoverageEdges: readonly GraphEdgeContract[] =
@@ -42,7 +42,7 @@ describe("operations spec graph contracts", () => {
 	});
 
 	test("requires direct test anchors for every high-risk descriptor", () => {
-		expect(highRiskOperationSpecTestEdges).toHaveLength(4);
+		expect(highRiskOperationSpecTestEdges).toHaveLength(5);
 		expect(highRiskOperationSpecTestEdges).toEqual([
 			{
 				operationId: "campaigns.start",
@@ -62,6 +62,12 @@ describe("operations spec graph contracts", () => {
 				from: "packages/operations/tests/specs.test.ts#assertHighRiskOperationSpecContracts:function",
 				to: "packages/operations/src/specs/high-risk.ts#transactionalSendOperationSpec:variable",
 			},
+			{
+				operationId: "transactional.send-batch",
+				kind: "accesses",
+				from: "packages/operations/tests/specs.test.ts#assertHighRiskOperationSpecContracts:function",
+				to: "packages/operations/src/specs/high-risk.ts#transactionalSendBatchOperationSpec:variable",
+			},
 			{
 				operationId: "ops.campaign.preflight",
 				kind: "accesses",
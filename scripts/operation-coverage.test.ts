@@ -17,15 +17,20 @@ import { listsTools } from "../packages/mcp/src/handlers/lists";
 import { mediaTools } from "../packages/mcp/src/handlers/media";
 import {
 	assertAbTestOperationsPublished,
+	assertBounceOperationsPublished,
 	assertCampaignOperationsPublished,
 	assertDiscoveryOperationsPublished,
 	assertOperationFamilyPublished,
 	assertListOperationsPublished,
 	assertMediaOperationsPublished,
 	assertOpsOperationsPublished,
+	assertPlaybookRunOperationsPublished,
 	assertProviderOperationsPublished,
 	assertSequenceOperationsPublished,
+	assertSettingsOperationsPublished,
+	assertSubscriberImportOperationsPublished,
 	assertSubscriberOperationsPublished,
+	assertSuppressionOperationsPublished,
 	assertTemplateOperationsPublished,
 	assertTransactionalOperationsPublished,
 	assertUserRoleOperationsPublished,
@@ -70,8 +75,8 @@ const registeredServerTools = toolRegistrations.flatMap(
 
 describe("shared operation coverage", () => {
 	test("keeps CLI and MCP discovery catalogs in direct parity", () => {
-		expect(cliOperationCatalog.entries).toHaveLength(104);
-		expect(mcpOperationCatalog.entries).toHaveLength(104);
+		expect(cliOperationCatalog.entries).toHaveLength(132);
+		expect(mcpOperationCatalog.entries).toHaveLength(132);
 		expect(listCliOperationCatalogSummaries()).toEqual(
 			listMcpOperationCatalogSummaries(),
 		);
@@ -91,6 +96,11 @@ describe("shared operation coverage", () => {
 		assertSequenceOperationsPublished();
 		assertProviderOperationsPublished();
 		assertUserRoleOperationsPublished();
+		assertSubscriberImportOperationsPublished();
+		assertBounceOperationsPublished();
+		assertSettingsOperationsPublished();
+		assertSuppressionOperationsPublished();
+		assertPlaybookRunOperationsPublished();
 	});
 
 	test("publishes media operations with matching shared metadata", () => {
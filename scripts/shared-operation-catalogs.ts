@@ -1,14 +1,19 @@
 import { abTestOperationCatalog } from "../packages/abtest/src/operations";
 import { opsOperationCatalog } from "../packages/automation/src/ops-operations";
+import { playbookRunOperationCatalog } from "../packages/automation/src/playbook-run-operations";
 import { providerOperationCatalog } from "../packages/automation/src/provider-operations";
 import { sequenceOperationCatalog } from "../packages/automation/src/sequence-operations";
+import { suppressionOperationCatalog } from "../packages/automation/src/suppression-operations";
 import { webhookOperationCatalog } from "../packages/automation/src/webhook-operations";
 import {
+	bounceOperationCatalog,
 	campaignOperationCatalog,
 	discoveryOperationCatalog,
 	listOperationCatalog,
 	mediaOperationCatalog,
+	settingsOperationCatalog,
 	type OperationCatalog,
+	subscriberImportOperationCatalog,
 	subscriberOperationCatalog,
 	templateOperationCatalog,
 	transactionalOperationCatalog,
@@ -31,8 +36,13 @@ export const sharedOperationCatalogs: readonly OperationCatalog[] = [
 	opsOperationCatalog,
 	abTestOperationCatalog,
 	discoveryOperationCatalog,
+	playbookRunOperationCatalog,
 	webhookOperationCatalog,
 	sequenceOperationCatalog,
 	providerOperationCatalog,
 	userRoleOperationCatalog,
+	subscriberImportOperationCatalog,
+	bounceOperationCatalog,
+	settingsOperationCatalog,
+	suppressionOperationCatalog,
 ];
@@ -1,5 +1,6 @@
 import { abTestOperations } from "../packages/abtest/src/operations";
 import { abtestTools } from "../packages/mcp/src/handlers/abtest";
+import { bouncesTools } from "../packages/mcp/src/handlers/bounces";
 import { campaignsTools } from "../packages/mcp/src/handlers/campaigns";
 import { discoveryTools } from "../packages/mcp/src/handlers/discovery";
 import {
@@ -9,21 +10,30 @@ import {
 import { listsTools } from "../packages/mcp/src/handlers/lists";
 import { mediaTools } from "../packages/mcp/src/handlers/media";
 import { opsTools } from "../packages/mcp/src/handlers/ops";
+import { playbookRunTools } from "../packages/mcp/src/handlers/playbook-runs";
 import { providerTools } from "../packages/mcp/src/handlers/providers";
 import { sequenceTools } from "../packages/mcp/src/handlers/sequences";
+import { settingsManifestTools } from "../packages/mcp/src/handlers/settings-manifest";
+import { subscriberImportsTools } from "../packages/mcp/src/handlers/subscriber-imports";
 import { subscribersTools } from "../packages/mcp/src/handlers/subscribers";
+import { suppressionTools } from "../packages/mcp/src/handlers/suppressions";
 import { templatesTools } from "../packages/mcp/src/handlers/templates";
 import { transactionalTools } from "../packages/mcp/src/handlers/transactional";
 import { webhookTools } from "../packages/mcp/src/handlers/webhooks";
 import { withMcpOperationConfirmationInputSchema } from "../packages/mcp/src/operation-execution";
 import { opsOperations } from "../packages/automation/src/ops-operations";
+import { playbookRunOperations } from "../packages/automation/src/playbook-run-operations";
 import { providerOperations } from "../packages/automation/src/provider-operations";
 import { sequenceOperations } from "../packages/automation/src/sequence-operations";
+import { suppressionOperations } from "../packages/automation/src/suppression-operations";
 import { webhookOperations } from "../packages/automation/src/webhook-operations";
+import { bounceOperations } from "../packages/operations/src/bounces";
 import { campaignOperations } from "../packages/operations/src/campaigns";
 import { discoveryOperations } from "../packages/operations/src/discovery";
 import { listOperations } from "../packages/operations/src/lists";
 import { mediaOperations } from "../packages/operations/src/media";
+import { settingsOperations } from "../packages/operations/src/settings";
+import { subscriberImportOperations } from "../packages/operations/src/subscriber-imports";
 import { subscriberOperations } from "../packages/operations/src/subscribers";
 import { templateOperations } from "../packages/operations/src/templates";
 import { transactionalOperations } from "../packages/operations/src/transactional";
@@ -33,14 +43,19 @@ import type { MCPTool } from "../packages/mcp/src/types/mcp";
 
 export type SharedOperation =
 	| (typeof abTestOperations)[number]
+	| (typeof bounceOperations)[number]
 	| (typeof campaignOperations)[number]
 	| (typeof discoveryOperations)[number]
 	| (typeof listOperations)[number]
 	| (typeof mediaOperations)[number]
 	| (typeof opsOperations)[number]
+	| (typeof playbookRunOperations)[number]
 	| (typeof providerOperations)[number]
 	| (typeof sequenceOperations)[number]
+	| (typeof settingsOperations)[number]
+	| (typeof subscriberImportOperations)[number]
 	| (typeof subscriberOperations)[number]
+	| (typeof suppressionOperations)[number]
 	| (typeof templateOperations)[number]
 	| (typeof transactionalOperations)[number]
 	| (typeof userRoleOperations)[number]
@@ -247,3 +262,39 @@ export function assertUserRoleOperationsPublished(): void {
 		userRolesTools,
 	);
 }
+
+export function assertSubscriberImportOperationsPublished(): void {
+	assertOperationFamilyPublished(
+		"subscriber imports",
+		subscriberImportOperations,
+		subscriberImportsTools,
+	);
+}
+
+export function assertBounceOperationsPublished(): void {
+	assertOperationFamilyPublished("bounces", bounceOperations, bouncesTools);
+}
+
+export function assertSettingsOperationsPublished(): void {
+	assertOperationFamilyPublished(
+		"settings",
+		settingsOperations,
+		settingsManifestTools,
+	);
+}
+
+export function assertPlaybookRunOperationsPublished(): void {
+	assertOperationFamilyPublished(
+		"playbook runs",
+		playbookRunOperations,
+		playbookRunTools,
+	);
+}
+
+export function assertSuppressionOperationsPublished(): void {
+	assertOperationFamilyPublished(
+		"inbound event suppression policy",
+		suppressionOperations,
+		suppressionTools,
+	);
+}